@@ -167,6 +167,20 @@ self.addEventListener('notificationclose', (event) => {
   // No-op
 });
 
+// Handle background sync of attendance punches queued offline.
+// Replaying needs the user's sign-in, so open pages do it; without one the
+// queue is replayed the next time the app is opened.
+self.addEventListener('sync', (event) => {
+  if (event.tag === 'sync-attendance-punches') {
+    event.waitUntil(
+      self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+        .then((windowClients) => {
+          windowClients.forEach((client) => client.postMessage({ type: 'SYNC_ATTENDANCE_PUNCHES' }));
+        })
+    );
+  }
+});
+
 // Handle skip waiting message
 self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'SKIP_WAITING') {
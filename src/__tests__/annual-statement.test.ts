@@ -0,0 +1,129 @@
+/**
+ * Annual Salary Statement Tests
+ * Tests for financial-year component totals, the Form 16 Part B computation
+ * and its CSV export
+ */
+
+import { buildAnnualStatement, buildForm16PartBCsv } from '@/lib/annual-statement';
+import { EmployeeSalary, SalaryBreakup, TaxDeclaration } from '@/types/payroll.types';
+
+function slip(month: number, year: number, breakup: Partial<SalaryBreakup> = {}): EmployeeSalary {
+  return {
+    id: `slip-${year}-${month}`,
+    employeeId: 'emp-1',
+    name: 'Asha Rao',
+    employeeCode: 'E001',
+    designation: 'Engineer',
+    department: 'Engineering',
+    doj: '2024-06-01',
+    pan: 'ABCDE1234F',
+    grossSalary: 125000,
+    month,
+    year,
+    totalDaysInMonth: 30,
+    paidDays: 30,
+    attendanceBreakdown: {
+      present: 22, wfh: 0, approvedLeave: 0, unapprovedLeave: 0, halfDay: 0,
+      holiday: 8, paidLeave: 0, leaveTaken: 0, unpaidLeave: 0, paidDays: 30,
+    },
+    salaryBreakup: {
+      basic: 62500,
+      hra: 25000,
+      special: 37500,
+      epf: 1800,
+      tds: 8000,
+      totalDeductions: 9800,
+      netSalary: 115200,
+      ...breakup,
+    },
+    slipNumber: `SAL-${year}${String(month + 1).padStart(2, '0')}-E001`,
+    generatedBy: 'admin',
+    accessGranted: true,
+  };
+}
+
+// April 2026 – March 2027
+const FULL_YEAR = Array.from({ length: 12 }, (_, i) => {
+  const month = (i + 3) % 12;
+  return slip(month, month >= 3 ? 2026 : 2027);
+});
+const AT = '2027-04-10T10:00:00.000Z';
+
+describe('Annual salary statement', () => {
+  it('should return null without slips', () => {
+    expect(buildAnnualStatement(2026, [], null, AT)).toBeNull();
+  });
+
+  it('should order months April to March and total each component', () => {
+    const statement = buildAnnualStatement(
+      2026,
+      [slip(0, 2027), slip(3, 2026, { otherDeduction: 500, leaveDeduction: 1000 }), slip(11, 2026)],
+      null,
+      AT
+    )!;
+
+    expect(statement.months.map((m) => `${m.month}/${m.year}`)).toEqual(['3/2026', '11/2026', '0/2027']);
+    expect(statement.months[0].otherDeductions).toBe(1500);
+    expect(statement.totals).toMatchObject({
+      basic: 187500,
+      gross: 375000,
+      epf: 5400,
+      tds: 24000,
+      otherDeductions: 1500,
+      netSalary: 345600,
+    });
+    expect(statement).toMatchObject({ employeeCode: 'E001', pan: 'ABCDE1234F', generatedAt: AT });
+  });
+
+  it('should compute Form 16 Part B under the new regime without a declaration', () => {
+    const { form16PartB } = buildAnnualStatement(2026, FULL_YEAR, null, AT)!;
+
+    expect(form16PartB).toMatchObject({
+      regime: 'new',
+      grossSalary: 1500000,
+      hraExemption: 0,
+      standardDeduction: 75000,
+      incomeChargeableUnderSalaries: 1425000,
+      totalChapterVIA: 0,
+      totalTaxableIncome: 1425000,
+      taxOnTotalIncome: 93750,
+      rebate87A: 0,
+      healthAndEducationCess: 3750,
+      taxPayable: 97500,
+      taxDeducted: 96000,
+      balanceTax: 1500,
+    });
+  });
+
+  it('should apply exemptions and Chapter VI-A deductions under the old regime', () => {
+    const declaration: TaxDeclaration = {
+      employeeId: 'emp-1',
+      financialYear: 2026,
+      regime: 'old',
+      section80C: 100000,
+      section80D: 25000,
+      metroCity: true,
+      rentReceipts: [{ month: 3, year: 2026, amount: 240000 }],
+    };
+    const { form16PartB } = buildAnnualStatement(2026, FULL_YEAR, declaration, AT)!;
+
+    // Least of HRA 3,00,000, rent less 10% of basic 1,65,000 and 50% of basic 3,75,000
+    expect(form16PartB.hraExemption).toBe(165000);
+    expect(form16PartB.salaryAfterExemptions).toBe(1335000);
+    expect(form16PartB.incomeChargeableUnderSalaries).toBe(1285000);
+    // 80C is capped at 1,50,000 including EPF
+    expect(form16PartB.section80C).toBe(121600);
+    expect(form16PartB.totalChapterVIA).toBe(146600);
+    expect(form16PartB.totalTaxableIncome).toBe(1138400);
+    expect(form16PartB.balanceTax).toBe(form16PartB.taxPayable - 96000);
+  });
+
+  it('should export one CSV row per employee', () => {
+    const statement = buildAnnualStatement(2026, FULL_YEAR, null, AT)!;
+    const [header, row] = buildForm16PartBCsv([{ ...statement, name: 'Rao, Asha' }]).split('\r\n');
+
+    expect(header.startsWith('Employee Code,Employee Name,PAN,Financial Year,Tax Regime,Months Paid,Gross Salary 17(1)')).toBe(true);
+    expect(row.startsWith('E001,"Rao, Asha",ABCDE1234F,2026-27,New (115BAC),12,1500000')).toBe(true);
+    expect(row.endsWith(',97500,96000,1500')).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Attendance Alerts Tests
+ *
+ * Tests for the alerts a day's record raises against the employee's shift and
+ * the attendance policy, and for the monthly punctuality report
+ */
+
+import { buildPunctualityReport, evaluateRecordAlerts, AlertRecord } from '@/lib/attendance-alerts';
+
+// Attendance days are IST calendar days
+const ist = (time: string, date = '2026-04-10') => new Date(`${date}T${time}:00+05:30`);
+
+const shift = { startTime: '09:00', endTime: '18:00', overtimeThreshold: 30 };
+const policy = { graceMinutes: 15, maxBreakMinutes: 60, maxDailyHours: 12, autoClockOutTime: '23:00' };
+
+function record(overrides: Partial<AlertRecord> = {}): AlertRecord {
+  return {
+    id: 'rec-1',
+    employeeId: 'emp-1',
+    employeeName: 'Asha Rao',
+    clockIn: ist('09:00'),
+    clockOut: ist('18:00'),
+    breaks: [],
+    totalHours: 9,
+    ...overrides,
+  };
+}
+
+const types = (r: AlertRecord, s = shift as typeof shift | null, now = ist('20:00')) =>
+  evaluateRecordAlerts(r, s, policy, now).map((a) => a.type);
+
+describe('evaluateRecordAlerts', () => {
+  it('raises nothing for a day worked to the shift', () => {
+    expect(types(record())).toEqual([]);
+  });
+
+  it('flags a late clock-in past the grace period, keyed by record and type', () => {
+    expect(types(record({ clockIn: ist('09:15') }))).toEqual([]);
+
+    const [alert] = evaluateRecordAlerts(record({ clockIn: ist('09:50'), totalHours: 8.2 }), shift, policy, ist('20:00'));
+    expect(alert).toMatchObject({
+      id: 'rec-1_late',
+      type: 'late',
+      severity: 'medium',
+      minutes: 50,
+      date: '2026-04-10',
+    });
+  });
+
+  it('flags an early departure but not an automatic clock-out', () => {
+    const early = evaluateRecordAlerts(record({ clockOut: ist('16:30'), totalHours: 7.5 }), shift, policy, ist('20:00'));
+    expect(early).toMatchObject([{ type: 'early-departure', minutes: 90, severity: 'high' }]);
+
+    expect(types(record({ clockOut: ist('16:30'), totalHours: 7.5, autoClockedOut: true })))
+      .toEqual(['missing-clockout']);
+  });
+
+  it('flags a record still open past its auto clock-out time', () => {
+    const open = record({ clockOut: undefined, totalHours: 0 });
+    expect(types(open, shift, ist('18:10'))).toEqual([]);
+    expect(types(open, shift, ist('18:20'))).toEqual(['missing-clockout']);
+    expect(types(open, null, ist('23:30'))).toEqual(['missing-clockout']);
+  });
+
+  it('flags breaks over the allowance, counting an open break', () => {
+    const breaks = [
+      { id: 'b1', startTime: ist('13:00'), endTime: ist('14:00'), duration: 3600 },
+      { id: 'b2', startTime: ist('16:00'), duration: 0 },
+    ];
+    const [alert] = evaluateRecordAlerts(record({ clockOut: undefined, breaks }), shift, policy, ist('16:20'));
+    expect(alert).toMatchObject({ type: 'excessive-break', minutes: 20, severity: 'medium' });
+  });
+
+  it('flags overtime beyond the shift threshold, high over the daily maximum', () => {
+    expect(types(record({ clockOut: ist('19:00'), totalHours: 9.5 }))).toEqual([]);
+
+    const [over] = evaluateRecordAlerts(record({ clockOut: ist('19:30'), totalHours: 10 }), shift, policy, ist('20:00'));
+    expect(over).toMatchObject({ type: 'overtime', minutes: 60, severity: 'low' });
+
+    const [max] = evaluateRecordAlerts(record({ clockOut: ist('22:00'), totalHours: 13 }), shift, policy, ist('23:00'));
+    expect(max.severity).toBe('high');
+  });
+
+  it('measures overtime against a standard day without a shift', () => {
+    expect(types(record({ totalHours: 8.4 }), null)).toEqual(['overtime']);
+    expect(types(record({ clockIn: ist('11:00'), totalHours: 8 }), null)).toEqual([]);
+  });
+});
+
+describe('buildPunctualityReport', () => {
+  const employees = [
+    { id: 'emp-1', name: 'Asha Rao' },
+    { id: 'emp-2', name: 'Vikram Shah' },
+    { id: 'emp-3', name: 'Absent Throughout' },
+  ];
+  const records = [
+    { employeeId: 'emp-1', clockIn: ist('09:30', '2026-04-01') },
+    { employeeId: 'emp-1', clockIn: ist('09:40', '2026-04-02') },
+    { employeeId: 'emp-1', clockIn: ist('09:00', '2026-04-03') },
+    { employeeId: 'emp-1', clockIn: ist('09:00', '2026-04-06') },
+    { employeeId: 'emp-2', clockIn: ist('09:00', '2026-04-01') },
+  ];
+  const alerts = [
+    { employeeId: 'emp-1', type: 'late' as const, date: '2026-04-01', minutes: 30 },
+    { employeeId: 'emp-1', type: 'late' as const, date: '2026-04-02', minutes: 40 },
+    { employeeId: 'emp-1', type: 'excessive-break' as const, date: '2026-04-03', minutes: 10 },
+  ];
+
+  it('summarizes late days and alerts per employee present, least punctual first', () => {
+    const report = buildPunctualityReport(employees, records, alerts);
+    expect(report.map((row) => row.employeeId)).toEqual(['emp-1', 'emp-2']);
+    expect(report[0]).toMatchObject({
+      daysPresent: 4,
+      lateDays: 2,
+      lateMinutes: 70,
+      averageLateMinutes: 35,
+      excessiveBreaks: 1,
+      punctualityRate: 50,
+    });
+    expect(report[1].punctualityRate).toBe(100);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Attendance Policy Tests
+ *
+ * Tests for which policy applies to an employee on a day, and for overtime
+ * capped at the policy's maximum daily hours
+ */
+
+import { DEFAULT_ATTENDANCE_POLICY, isAssignmentEffective, resolveAttendancePolicy } from '@/lib/attendance-policy';
+import { calculateOvertimeHours } from '@/utils/time-calculations';
+import { AttendancePolicy, AttendancePolicyAssignment } from '@/types/attendance.types';
+
+function policy(id: string, overrides: Partial<AttendancePolicy> = {}): AttendancePolicy {
+  return {
+    id,
+    name: `Policy ${id}`,
+    graceMinutes: 10,
+    maxBreakMinutes: 60,
+    autoClockOutTime: '22:00',
+    geolocationRequired: false,
+    geolocationRadius: 200,
+    overtimeMultiplier: 1.5,
+    minDailyHours: 4,
+    maxDailyHours: 12,
+    isActive: true,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    ...overrides,
+  };
+}
+
+function assignment(
+  id: string,
+  policyId: string,
+  scope: AttendancePolicyAssignment['scope'],
+  targetId: string | null,
+  effectiveFrom = '2026-01-01',
+  effectiveTo: string | null = null
+): AttendancePolicyAssignment {
+  return {
+    id,
+    policyId,
+    scope,
+    targetId,
+    targetName: null,
+    effectiveFrom,
+    effectiveTo,
+    createdBy: 'admin-1',
+    createdAt: `${effectiveFrom}T00:00:00.000Z`,
+  };
+}
+
+const policies = [policy('company'), policy('team'), policy('employee'), policy('night', { weeklyOffDays: [5, 6] })];
+const target = { employeeId: 'emp-1', teamIds: ['mgr-1'] };
+
+describe('resolveAttendancePolicy', () => {
+  it('prefers an employee assignment over a team one over a company one', () => {
+    const assignments = [
+      assignment('a1', 'company', 'company', null),
+      assignment('a2', 'team', 'team', 'mgr-1'),
+      assignment('a3', 'employee', 'employee', 'emp-1'),
+    ];
+
+    expect(resolveAttendancePolicy(policies, assignments, target, '2026-04-10')).toMatchObject({
+      policyId: 'employee',
+      source: 'employee',
+    });
+    expect(resolveAttendancePolicy(policies, assignments.slice(0, 2), target, '2026-04-10').source).toBe('team');
+    expect(
+      resolveAttendancePolicy(policies, assignments, { employeeId: 'emp-2', teamIds: ['mgr-2'] }, '2026-04-10').source
+    ).toBe('company');
+  });
+
+  it('only applies assignments in force on the day, latest effective first', () => {
+    const assignments = [
+      assignment('a1', 'company', 'company', null),
+      assignment('a2', 'night', 'company', null, '2026-04-01'),
+      assignment('a3', 'employee', 'employee', 'emp-1', '2026-03-01', '2026-03-31'),
+    ];
+
+    expect(resolveAttendancePolicy(policies, assignments, target, '2026-03-15').policyId).toBe('employee');
+    expect(resolveAttendancePolicy(policies, assignments, target, '2026-03-20').policyId).toBe('employee');
+    expect(resolveAttendancePolicy(policies, assignments, target, '2026-03-31').policyId).toBe('employee');
+    expect(resolveAttendancePolicy(policies, assignments, target, '2026-04-01')).toMatchObject({
+      policyId: 'night',
+      weeklyOffDays: [5, 6],
+    });
+    expect(resolveAttendancePolicy(policies, assignments, target, '2026-02-01').policyId).toBe('company');
+  });
+
+  it('skips assignments of inactive policies', () => {
+    const assignments = [
+      assignment('a1', 'company', 'company', null),
+      assignment('a2', 'employee', 'employee', 'emp-1'),
+    ];
+    const withInactive = policies.map((p) => (p.id === 'employee' ? { ...p, isActive: false } : p));
+
+    expect(resolveAttendancePolicy(withInactive, assignments, target, '2026-04-10').policyId).toBe('company');
+  });
+
+  it('falls back to the oldest active policy, then the defaults', () => {
+    const older = policy('older', { createdAt: new Date('2025-06-01') });
+
+    expect(resolveAttendancePolicy([...policies, older], [], target, '2026-04-10')).toMatchObject({
+      policyId: 'older',
+      source: 'default',
+      weeklyOffDays: [0],
+    });
+    expect(resolveAttendancePolicy([], [], target, '2026-04-10')).toEqual(DEFAULT_ATTENDANCE_POLICY);
+  });
+});
+
+describe('isAssignmentEffective', () => {
+  it('includes both ends of the range', () => {
+    const range = { effectiveFrom: '2026-04-01', effectiveTo: '2026-04-30' };
+    expect(isAssignmentEffective(range, '2026-03-31')).toBe(false);
+    expect(isAssignmentEffective(range, '2026-04-01')).toBe(true);
+    expect(isAssignmentEffective(range, '2026-04-30')).toBe(true);
+    expect(isAssignmentEffective(range, '2026-05-01')).toBe(false);
+    expect(isAssignmentEffective({ ...range, effectiveTo: null }, '2030-01-01')).toBe(true);
+  });
+});
+
+describe('calculateOvertimeHours', () => {
+  const shift = { startTime: '09:00', endTime: '18:00', breakDuration: 60, overtimeThreshold: 30 };
+
+  it("does not count hours past the policy's maximum", () => {
+    expect(calculateOvertimeHours(14, shift)).toBe(5.5);
+    expect(calculateOvertimeHours(14, shift, { maxDailyHours: 12 })).toBe(3.5);
+    expect(calculateOvertimeHours(14, null, { maxDailyHours: 10 })).toBe(2);
+  });
+
+  it('counts every hour when the policy has no maximum', () => {
+    expect(calculateOvertimeHours(14, null, { maxDailyHours: 0 })).toBe(6);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Attendance Register Tests
+ *
+ * Tests for the day-wise muster roll codes and the day counts payroll's
+ * AttendanceBreakdown is built from
+ */
+
+import {
+  classifyAttendanceMonth,
+  getAttendanceMonthWindow,
+  getMonthRecords,
+  hasPayrollMismatch,
+  sortRegisterRows,
+} from '@/lib/attendance-register';
+import { AttendanceRegisterRow } from '@/types/attendance.types';
+import { AttendanceBreakdown } from '@/types/payroll.types';
+
+// April 2026 (month 3): the 1st is a Wednesday; Sundays are the 5th, 12th, 19th and 26th
+const MONTH = 3;
+const YEAR = 2026;
+const AFTER_MONTH = new Date(2026, 5, 1);
+
+const day = (d: number, hour = 10) => new Date(YEAR, MONTH, d, hour);
+const worked = (d: number, totalHours = 8) => ({ clockIn: day(d), clockOut: day(d, 10 + totalHours), totalHours });
+
+describe('classifyAttendanceMonth', () => {
+  it('codes worked days P, Sundays H and the rest A', () => {
+    const { days, counts } = classifyAttendanceMonth(
+      { records: [worked(1), worked(2), { clockIn: { toDate: () => day(3) } }], leaves: [], holidays: [] },
+      MONTH,
+      YEAR,
+      { today: AFTER_MONTH }
+    );
+
+    expect(days).toHaveLength(30);
+    expect(days.slice(0, 5)).toEqual(['P', 'P', 'P', 'A', 'H']);
+    expect(counts).toEqual({ present: 3, wfh: 0, approvedLeave: 0, unapprovedLeave: 23, halfDay: 0, holiday: 4 });
+  });
+
+  it('codes approved leave, half days, WFH and holidays', () => {
+    const { days, counts } = classifyAttendanceMonth(
+      {
+        records: [],
+        leaves: [
+          { startDate: day(6, 0), endDate: day(7, 0), leaveType: 'casual' },
+          { startDate: day(8, 0), endDate: day(8, 0), leaveType: 'sick', halfDay: true },
+          { startDate: day(9, 0).toISOString(), endDate: day(9, 0).toISOString(), leaveType: 'wfh' },
+        ],
+        holidays: [day(10, 0)],
+      },
+      MONTH,
+      YEAR,
+      { today: AFTER_MONTH }
+    );
+
+    expect(days.slice(5, 10)).toEqual(['L', 'L', 'HD', 'WFH', 'H']);
+    expect(counts).toMatchObject({ approvedLeave: 2, halfDay: 1, wfh: 1, holiday: 5 });
+  });
+
+  it('codes comp-off leave CO and counts it with holidays', () => {
+    const { days, counts } = classifyAttendanceMonth(
+      { records: [], leaves: [{ startDate: day(6, 0), endDate: day(7, 0), leaveType: 'comp-off' }], holidays: [] },
+      MONTH,
+      YEAR,
+      { today: AFTER_MONTH }
+    );
+
+    expect(days.slice(5, 7)).toEqual(['CO', 'CO']);
+    expect(counts).toMatchObject({ approvedLeave: 0, holiday: 6 });
+  });
+
+  it('codes a day worked on a holiday or Sunday as present', () => {
+    const { days } = classifyAttendanceMonth(
+      { records: [worked(5), worked(10)], leaves: [], holidays: [day(10, 0)] },
+      MONTH,
+      YEAR,
+      { today: AFTER_MONTH }
+    );
+
+    expect(days[4]).toBe('P');
+    expect(days[9]).toBe('P');
+  });
+
+  it('only counts the part of a leave inside the month', () => {
+    const { counts } = classifyAttendanceMonth(
+      { records: [], leaves: [{ startDate: new Date(2026, 2, 30), endDate: day(2, 0) }], holidays: [] },
+      MONTH,
+      YEAR,
+      { today: AFTER_MONTH }
+    );
+
+    expect(counts.approvedLeave).toBe(2);
+  });
+
+  it('leaves days still to come in the current month blank', () => {
+    const { days, counts } = classifyAttendanceMonth(
+      { records: [worked(1)], leaves: [], holidays: [] },
+      MONTH,
+      YEAR,
+      { today: day(3, 12) }
+    );
+
+    expect(days.slice(0, 5)).toEqual(['P', 'A', 'A', '', 'H']);
+    expect(counts.unapprovedLeave).toBe(2);
+    expect(days.filter((code) => code === '')).toHaveLength(23);
+  });
+
+  it("uses the policy's weekly off days", () => {
+    const { days, counts } = classifyAttendanceMonth({ records: [], leaves: [], holidays: [] }, MONTH, YEAR, {
+      today: AFTER_MONTH,
+      policyFor: () => ({ minDailyHours: 0, weeklyOffDays: [0, 6] }),
+    });
+
+    expect(days.slice(0, 5)).toEqual(['A', 'A', 'A', 'H', 'H']);
+    expect(counts.holiday).toBe(8);
+  });
+
+  it("pays a completed day short of the policy's minimum hours as a half day", () => {
+    const policyFor = () => ({ minDailyHours: 6, weeklyOffDays: [0] });
+    const { days, counts } = classifyAttendanceMonth(
+      {
+        records: [
+          worked(1, 4),
+          worked(2, 3),
+          worked(2, 4),
+          { clockIn: day(3), clockOut: null, totalHours: 0 },
+        ],
+        leaves: [],
+        holidays: [],
+      },
+      MONTH,
+      YEAR,
+      { today: AFTER_MONTH, policyFor }
+    );
+
+    // Hours add up across a day's records; a day still open is not judged
+    expect(days.slice(0, 3)).toEqual(['HD', 'P', 'P']);
+    expect(counts).toMatchObject({ present: 2, halfDay: 1 });
+  });
+});
+
+describe('month boundary', () => {
+  // Night shift of 31 March, clocked into after midnight on 1 April
+  const nightShift = { date: '2026-03-31', clockIn: new Date(2026, 3, 1, 0, 30), clockOut: new Date(2026, 3, 1, 8), totalHours: 7.5 };
+  // Shift starting just after midnight on 1 May, clocked into on 30 April
+  const earlyClockIn = { date: '2026-05-01', clockIn: new Date(2026, 3, 30, 23, 50), clockOut: new Date(2026, 4, 1, 8), totalHours: 8 };
+
+  it('fetches a day either side of the month', () => {
+    const { start, end } = getAttendanceMonthWindow(MONTH, YEAR);
+    expect(start).toEqual(new Date(2026, 2, 31));
+    expect(end).toEqual(new Date(2026, 4, 1, 23, 59, 59));
+    expect(nightShift.clockIn >= start && earlyClockIn.clockIn <= end).toBe(true);
+  });
+
+  it('keeps records by attendance day, not clock-in day', () => {
+    const records = [nightShift, worked(1), earlyClockIn];
+    expect(getMonthRecords(records, MONTH, YEAR)).toEqual([worked(1)]);
+    expect(getMonthRecords(records, 2, YEAR)).toEqual([nightShift]);
+    expect(getMonthRecords(records, 4, YEAR)).toEqual([earlyClockIn]);
+  });
+
+  it("counts a night shift clocked into after midnight on the month's last day", () => {
+    const { days, counts } = classifyAttendanceMonth(
+      { records: getMonthRecords([nightShift], 2, YEAR), leaves: [], holidays: [] },
+      2,
+      YEAR,
+      { today: AFTER_MONTH }
+    );
+    expect(days[30]).toBe('P');
+    expect(counts.present).toBe(1);
+  });
+});
+
+describe('hasPayrollMismatch', () => {
+  const counts = { present: 20, wfh: 1, approvedLeave: 2, unapprovedLeave: 1, halfDay: 0, holiday: 6 };
+  const breakdown: AttendanceBreakdown = {
+    ...counts,
+    paidLeave: 2,
+    leaveTaken: 3,
+    unpaidLeave: 1,
+    paidDays: 25,
+  };
+
+  it('matches a slip generated from the same attendance', () => {
+    expect(hasPayrollMismatch(counts, breakdown)).toBe(false);
+  });
+
+  it('flags attendance that changed after the slip', () => {
+    expect(hasPayrollMismatch({ ...counts, present: 21, unapprovedLeave: 0 }, breakdown)).toBe(true);
+  });
+});
+
+describe('sortRegisterRows', () => {
+  it('orders rows by employee code numerically', () => {
+    const row = (employeeCode: string, employeeName: string) => ({ employeeCode, employeeName }) as AttendanceRegisterRow;
+    const sorted = sortRegisterRows([row('EMP10', 'A'), row('EMP2', 'B'), row('EMP2', 'A')]);
+    expect(sorted.map((r) => `${r.employeeCode}/${r.employeeName}`)).toEqual(['EMP2/A', 'EMP2/B', 'EMP10/A']);
+  });
+});
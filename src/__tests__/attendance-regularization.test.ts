@@ -0,0 +1,162 @@
+/**
+ * Attendance Regularization Tests
+ *
+ * Tests for checking an employee's attendance correction against the day's
+ * record, the record it produces and converting the form's local times
+ */
+
+import {
+  applyRegularization,
+  toRegularizationInput,
+  validateRegularization,
+} from '@/lib/attendance-regularization';
+import { AttendanceSnapshot, RegularizationRequest } from '@/types/attendance.types';
+
+// Attendance days are IST calendar days
+const ist = (time: string, date = '2026-04-10') => new Date(`${date}T${time}:00+05:30`).toISOString();
+const now = new Date(ist('12:00', '2026-04-15'));
+
+function requested(overrides: Partial<RegularizationRequest['requested']> = {}): RegularizationRequest['requested'] {
+  return { clockIn: null, clockOut: null, breakStart: null, breakEnd: null, ...overrides };
+}
+
+const openRecord: AttendanceSnapshot = {
+  clockIn: ist('09:00'),
+  clockOut: null,
+  breaks: [],
+  totalHours: 0,
+  regularHours: 0,
+  overtimeHours: 0,
+};
+
+const completedRecord: AttendanceSnapshot = {
+  clockIn: ist('09:00'),
+  clockOut: ist('18:00'),
+  breaks: [{ startTime: ist('13:00'), endTime: ist('13:30') }],
+  totalHours: 8.5,
+  regularHours: 8,
+  overtimeHours: 0.5,
+};
+
+describe('applyRegularization', () => {
+  it('adds a missed clock-out and works out the hours', () => {
+    const after = applyRegularization(openRecord, requested({ clockOut: ist('19:00') }));
+    expect(after.clockIn).toBe(openRecord.clockIn);
+    expect(after.totalHours).toBe(10);
+    expect(after.regularHours).toBe(8);
+    expect(after.overtimeHours).toBe(2);
+  });
+
+  it('takes a forgotten break off the worked hours', () => {
+    const after = applyRegularization(
+      completedRecord,
+      requested({ breakStart: ist('16:00'), breakEnd: ist('16:30') })
+    );
+    expect(after.breaks).toHaveLength(2);
+    expect(after.totalHours).toBe(8);
+    expect(after.overtimeHours).toBe(0);
+  });
+
+  it('builds a record for a missed clock-in', () => {
+    const after = applyRegularization(null, requested({ clockIn: ist('10:00'), clockOut: ist('17:00') }));
+    expect(after.breaks).toEqual([]);
+    expect(after.totalHours).toBe(7);
+  });
+});
+
+describe('validateRegularization', () => {
+  it('accepts a valid request of each type', () => {
+    expect(validateRegularization('missed-clock-out', '2026-04-10', openRecord, requested({ clockOut: ist('18:00') }), now)).toBeNull();
+    expect(validateRegularization('wrong-times', '2026-04-10', completedRecord, requested({ clockIn: ist('08:30') }), now)).toBeNull();
+    expect(validateRegularization(
+      'missed-clock-in', '2026-04-10', null, requested({ clockIn: ist('09:00'), clockOut: ist('18:00') }), now
+    )).toBeNull();
+    expect(validateRegularization(
+      'missed-break', '2026-04-10', completedRecord, requested({ breakStart: ist('16:00'), breakEnd: ist('16:15') }), now
+    )).toBeNull();
+  });
+
+  it('accepts a clock-out after midnight', () => {
+    expect(validateRegularization(
+      'missed-clock-out', '2026-04-10', { ...openRecord, clockIn: ist('20:00') }, requested({ clockOut: ist('02:00', '2026-04-11') }), now
+    )).toBeNull();
+  });
+
+  it('steers the request to the right type for the record', () => {
+    expect(validateRegularization('missed-clock-in', '2026-04-10', completedRecord, requested({ clockIn: ist('09:00'), clockOut: ist('18:00') }), now))
+      .toMatch(/already a record/);
+    expect(validateRegularization('missed-clock-out', '2026-04-10', completedRecord, requested({ clockOut: ist('19:00') }), now))
+      .toMatch(/already has a clock-out/);
+    expect(validateRegularization('wrong-times', '2026-04-10', null, requested({ clockIn: ist('09:00') }), now))
+      .toMatch(/no record/);
+  });
+
+  it('rejects future dates and times', () => {
+    expect(validateRegularization('missed-clock-in', '2026-04-16', null, requested({ clockIn: ist('09:00', '2026-04-16'), clockOut: ist('18:00', '2026-04-16') }), now))
+      .toMatch(/future date/);
+    expect(validateRegularization('missed-clock-in', '2026-04-15', null, requested({ clockIn: ist('09:00', '2026-04-15'), clockOut: ist('18:00', '2026-04-15') }), now))
+      .toMatch(/future/);
+  });
+
+  it('rejects a clock-in on another day or a clock-out before it', () => {
+    expect(validateRegularization('wrong-times', '2026-04-10', completedRecord, requested({ clockIn: ist('09:00', '2026-04-09') }), now))
+      .toMatch(/on the day/);
+    expect(validateRegularization('missed-clock-out', '2026-04-10', openRecord, requested({ clockOut: ist('08:00') }), now))
+      .toMatch(/after clock-in/);
+  });
+
+  it('accepts corrections to a night shift clocked into after midnight', () => {
+    const nightShift: AttendanceSnapshot = {
+      ...completedRecord,
+      date: '2026-04-10',
+      clockIn: ist('00:30', '2026-04-11'),
+      clockOut: ist('08:00', '2026-04-11'),
+      breaks: [],
+    };
+    expect(validateRegularization('wrong-times', '2026-04-10', nightShift, requested({ clockIn: ist('00:15', '2026-04-11') }), now))
+      .toBeNull();
+    expect(validateRegularization(
+      'missed-break', '2026-04-10', nightShift, requested({ breakStart: ist('03:00', '2026-04-11'), breakEnd: ist('03:30', '2026-04-11') }), now
+    )).toBeNull();
+    expect(validateRegularization('wrong-times', '2026-04-10', nightShift, requested({ clockIn: ist('00:15', '2026-04-12') }), now))
+      .toMatch(/on the day/);
+  });
+
+  it('rejects breaks outside working hours or overlapping a recorded break', () => {
+    expect(validateRegularization('missed-break', '2026-04-10', completedRecord, requested({ breakStart: ist('17:45'), breakEnd: ist('18:15') }), now))
+      .toMatch(/within the working hours/);
+    expect(validateRegularization('missed-break', '2026-04-10', completedRecord, requested({ breakStart: ist('13:15'), breakEnd: ist('13:45') }), now))
+      .toMatch(/overlaps/);
+    expect(validateRegularization('missed-break', '2026-04-10', completedRecord, requested({ breakStart: ist('15:00'), breakEnd: ist('14:00') }), now))
+      .toMatch(/end after it starts/);
+  });
+});
+
+describe('toRegularizationInput', () => {
+  const local = (date: string, time: string) => new Date(`${date}T${time}:00`).toISOString();
+
+  it('sends only the times the request type corrects', () => {
+    const input = toRegularizationInput(
+      { type: 'missed-break', date: '2026-04-10', clockIn: '09:00', clockOut: '18:00', breakStart: '13:00', breakEnd: '13:30', reason: ' Lunch with the client ' },
+      'record-1'
+    );
+    expect(input).toEqual({
+      type: 'missed-break',
+      recordId: 'record-1',
+      date: '2026-04-10',
+      breakStart: local('2026-04-10', '13:00'),
+      breakEnd: local('2026-04-10', '13:30'),
+      reason: 'Lunch with the client',
+    });
+  });
+
+  it('moves a clock-out earlier than the clock-in to the next day', () => {
+    const input = toRegularizationInput(
+      { type: 'missed-clock-out', date: '2026-04-10', clockOut: '01:30', reason: 'Night deployment' },
+      'record-1',
+      new Date(local('2026-04-10', '20:00'))
+    );
+    expect(input.clockIn).toBeUndefined();
+    expect(input.clockOut).toBe(local('2026-04-11', '01:30'));
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Auto Clock-out Tests
+ *
+ * Tests for when a record left open is closed: shift end plus grace, overnight
+ * shifts, and the policy's auto clock-out time without a shift
+ */
+
+import { getAutoClockOutAt, getShiftForDay } from '@/lib/auto-clock-out';
+
+// Attendance days are IST calendar days
+const ist = (time: string, date = '2026-04-10') => new Date(`${date}T${time}:00+05:30`);
+const policy = { graceMinutes: 15, autoClockOutTime: '23:00' };
+
+describe('getAutoClockOutAt', () => {
+  it('closes at the shift end plus grace', () => {
+    expect(getAutoClockOutAt(ist('09:05'), { startTime: '09:00', endTime: '18:00' }, policy))
+      .toEqual(ist('18:15'));
+  });
+
+  it('closes an overnight shift the next morning', () => {
+    expect(getAutoClockOutAt(ist('22:00'), { startTime: '22:00', endTime: '06:00' }, policy))
+      .toEqual(ist('06:15', '2026-04-11'));
+  });
+
+  it("closes a night shift clocked into after midnight at the end of the shift it started", () => {
+    expect(getAutoClockOutAt(ist('00:30', '2026-04-11'), { startTime: '22:00', endTime: '06:00' }, policy, '2026-04-10'))
+      .toEqual(ist('06:15', '2026-04-11'));
+  });
+
+  it('uses the policy time without a shift or after the shift has ended', () => {
+    expect(getAutoClockOutAt(ist('09:00'), null, policy)).toEqual(ist('23:00'));
+    expect(getAutoClockOutAt(ist('19:00'), { startTime: '09:00', endTime: '18:00' }, policy))
+      .toEqual(ist('23:00'));
+  });
+
+  it('rolls the policy time to the next day for a late clock-in', () => {
+    expect(getAutoClockOutAt(ist('23:30'), null, policy)).toEqual(ist('23:00', '2026-04-11'));
+  });
+
+  it('falls back to 23:59 without a policy time', () => {
+    expect(getAutoClockOutAt(ist('09:00'), null, { graceMinutes: 0, autoClockOutTime: '' }))
+      .toEqual(ist('23:59'));
+  });
+});
+
+describe('getShiftForDay', () => {
+  const shifts = [
+    { id: 'weekday', assignedEmployees: ['emp-1'], daysOfWeek: [1, 2, 3, 4, 5] },
+    { id: 'saturday', assignedEmployees: ['emp-1'], daysOfWeek: [6] },
+  ];
+
+  it('picks the employee\'s shift for the IST weekday', () => {
+    // 2026-04-10 is a Friday; 20:00 UTC on the Friday is already Saturday in IST
+    expect(getShiftForDay(shifts, 'emp-1', ist('09:00'))?.id).toBe('weekday');
+    expect(getShiftForDay(shifts, 'emp-1', new Date('2026-04-10T20:00:00Z'))?.id).toBe('saturday');
+  });
+
+  it('returns null on a day off or for an unassigned employee', () => {
+    expect(getShiftForDay(shifts, 'emp-1', ist('09:00', '2026-04-12'))).toBeNull();
+    expect(getShiftForDay(shifts, 'emp-2', ist('09:00'))).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Bank Export Tests
+ * Tests for IFSC/account validation, masking and the bank bulk-upload
+ * file formats built from a month's net pay
+ */
+
+import {
+  BANK_EXPORT_FORMATS,
+  BankPaymentInput,
+  getBankExportFileName,
+  getPaymentMode,
+  isValidIfsc,
+  maskAccountNumber,
+  prepareBankPayments,
+} from '@/lib/bank-export';
+
+function input(overrides: Partial<BankPaymentInput>): BankPaymentInput {
+  return {
+    employeeId: 'emp-1',
+    employeeCode: 'E001',
+    name: 'Asha Rao',
+    amount: 45250,
+    slipNumber: 'SAL-202604-E001',
+    account: { accountNumber: '50100012345678', ifsc: 'ICIC0001234', beneficiaryName: 'ASHA RAO' },
+    ...overrides,
+  };
+}
+
+const CONTEXT = { month: 3, year: 2026, paymentDate: new Date(2026, 4, 1) };
+
+describe('Bank export', () => {
+  it('should validate IFSC codes', () => {
+    expect(isValidIfsc('HDFC0001234')).toBe(true);
+    expect(isValidIfsc(' sbin0ab12cd ')).toBe(true);
+    expect(isValidIfsc('HDFC1001234')).toBe(false);
+    expect(isValidIfsc('HDF00001234')).toBe(false);
+    expect(isValidIfsc('HDFC000123')).toBe(false);
+  });
+
+  it('should mask all but the last four digits', () => {
+    expect(maskAccountNumber('50100012345678')).toBe('XXXXXX5678');
+  });
+
+  it('should report missing accounts and bad IFSC codes as issues', () => {
+    const { rows, issues } = prepareBankPayments([
+      input({}),
+      input({ employeeId: 'emp-2', employeeCode: 'E002', account: null }),
+      input({ employeeId: 'emp-3', employeeCode: 'E003', account: { accountNumber: '123456789', ifsc: 'ICIC123', beneficiaryName: '' } }),
+      input({ employeeId: 'emp-4', employeeCode: 'E004', account: { accountNumber: '12AB', ifsc: 'ICIC0001234', beneficiaryName: '' } }),
+      input({ employeeId: 'emp-5', employeeCode: 'E005', amount: 0, account: null }),
+    ]);
+
+    expect(rows.map((row) => row.employeeCode)).toEqual(['E001']);
+    expect(issues.map((issue) => [issue.employeeCode, issue.issue])).toEqual([
+      ['E002', 'No bank account on file'],
+      ['E003', 'Invalid IFSC "ICIC123"'],
+      ['E004', 'Account number must be 9 to 18 digits'],
+    ]);
+  });
+
+  it('should fall back to the employee name for the beneficiary', () => {
+    const { rows } = prepareBankPayments([
+      input({ account: { accountNumber: '50100012345678', ifsc: 'icic0001234', beneficiaryName: '' } }),
+    ]);
+    expect(rows[0]).toMatchObject({ beneficiaryName: 'Asha Rao', ifsc: 'ICIC0001234' });
+  });
+
+  it('should pick RTGS from two lakh upwards', () => {
+    expect(getPaymentMode(199999)).toBe('NEFT');
+    expect(getPaymentMode(200000)).toBe('RTGS');
+  });
+
+  it('should build the generic NEFT/RTGS CSV', () => {
+    const { rows } = prepareBankPayments([
+      input({}),
+      input({ employeeCode: 'E002', amount: 250000, account: { accountNumber: '123456789012', ifsc: 'SBIN0001234', beneficiaryName: 'Rao, Vikram' } }),
+    ]);
+    const lines = BANK_EXPORT_FORMATS['generic-neft'].build(rows, CONTEXT).split('\r\n');
+
+    expect(lines[0]).toBe(
+      'Payment Mode,Beneficiary Name,Beneficiary Account Number,IFSC,Amount,Value Date,Narration,Employee Code,Reference'
+    );
+    expect(lines[1]).toBe('NEFT,ASHA RAO,50100012345678,ICIC0001234,45250.00,01/05/2026,SALARY APR 2026,E001,SAL-202604-E001');
+    expect(lines[2]).toContain('RTGS,"Rao, Vikram",123456789012,SBIN0001234,250000.00');
+  });
+
+  it('should build HDFC ENet rows with within-bank transfers', () => {
+    const { rows } = prepareBankPayments([
+      input({ account: { accountNumber: '50100012345678', ifsc: 'HDFC0001234', beneficiaryName: 'Asha Rao' } }),
+      input({ employeeCode: 'E-002', account: { accountNumber: '123456789012', ifsc: 'SBIN0001234', beneficiaryName: 'Rao, Vikram' } }),
+    ]);
+    const [own, other] = BANK_EXPORT_FORMATS['hdfc-enet'].build(rows, CONTEXT).split('\r\n').map((line) => line.split(','));
+
+    expect(own).toHaveLength(28);
+    expect(own.slice(0, 5)).toEqual(['I', 'E001', '50100012345678', '45250.00', 'Asha Rao']);
+    expect(own[22]).toBe('01/05/2026');
+    expect(own[24]).toBe('');
+    expect(other.slice(0, 5)).toEqual(['N', 'E002', '123456789012', '45250.00', 'Rao Vikram']);
+    expect(other[24]).toBe('SBIN0001234');
+  });
+
+  it('should name files by period and format', () => {
+    expect(getBankExportFileName('hdfc-enet', 3, 2026)).toBe('salary-2026-04-hdfc-enet.txt');
+    expect(getBankExportFileName('generic-neft', 11, 2026)).toBe('salary-2026-12-generic-neft.csv');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Comp-Off Tests
+ *
+ * Tests for which worked days earn comp-off and how much, and for the
+ * balance left once comp-off leave is set against approved credits
+ */
+
+import { addDays, calculateCompOffBalance, getCompOffDays, getCompOffReason } from '@/lib/comp-off';
+import { CompOffCredit } from '@/types/attendance.types';
+
+function credit(workDate: string, overrides: Partial<CompOffCredit> = {}): CompOffCredit {
+  return {
+    id: `emp-1_${workDate}`,
+    employeeId: 'emp-1',
+    employeeName: 'Asha',
+    workDate,
+    reason: 'weekly-off',
+    holidayName: null,
+    hoursWorked: 8,
+    days: 1,
+    status: 'approved',
+    expiresOn: addDays(workDate, 90),
+    decidedBy: 'mgr-1',
+    decidedByName: 'Manager',
+    decidedAt: '2026-03-10T10:00:00.000Z',
+    rejectionReason: null,
+    createdAt: '2026-03-09T10:00:00.000Z',
+    updatedAt: '2026-03-10T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('addDays', () => {
+  it('should move across month and year ends', () => {
+    expect(addDays('2026-03-08', 90)).toBe('2026-06-06');
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+  });
+});
+
+describe('getCompOffReason', () => {
+  const holidays = [{ date: '2026-03-09', name: 'Founders Day' }];
+
+  it('should earn comp-off for working a holiday, even on a shift day', () => {
+    expect(getCompOffReason('2026-03-09', holidays, [1, 2, 3, 4, 5], [0])).toEqual({
+      reason: 'holiday',
+      holidayName: 'Founders Day',
+    });
+  });
+
+  it('should take the weekly off from the employee shift days', () => {
+    // Saturday is a working day for a Mon-Sat shift, Sunday is not
+    expect(getCompOffReason('2026-03-07', [], [1, 2, 3, 4, 5, 6], [0, 6])).toBeNull();
+    expect(getCompOffReason('2026-03-08', [], [1, 2, 3, 4, 5, 6], [0, 6])).toEqual({
+      reason: 'weekly-off',
+      holidayName: null,
+    });
+  });
+
+  it('should fall back to the policy weekly off without a shift', () => {
+    expect(getCompOffReason('2026-03-07', [], null, [0])).toBeNull();
+    expect(getCompOffReason('2026-03-08', [], null, [0])?.reason).toBe('weekly-off');
+  });
+
+  it('should not earn comp-off on a working day', () => {
+    expect(getCompOffReason('2026-03-10', holidays, null, [0])).toBeNull();
+  });
+});
+
+describe('getCompOffDays', () => {
+  it('should earn nothing without hours worked', () => {
+    expect(getCompOffDays(0, 4)).toBe(0);
+  });
+
+  it('should earn half a day short of the policy minimum', () => {
+    expect(getCompOffDays(3, 4)).toBe(0.5);
+    expect(getCompOffDays(4, 4)).toBe(1);
+  });
+
+  it('should earn a full day when the policy sets no minimum', () => {
+    expect(getCompOffDays(1, 0)).toBe(1);
+  });
+});
+
+describe('calculateCompOffBalance', () => {
+  it('should count approved credits only, with pending ones reported apart', () => {
+    const balance = calculateCompOffBalance(
+      [credit('2026-03-08'), credit('2026-03-14', { status: 'pending', expiresOn: null, days: 0.5 })],
+      [],
+      '2026-03-20'
+    );
+
+    expect(balance.available).toBe(1);
+    expect(balance.pendingCredit).toBe(0.5);
+    expect(balance.nextExpiry).toBe('2026-06-06');
+  });
+
+  it('should take leave from the credit expiring first', () => {
+    const early = credit('2026-03-08', { expiresOn: '2026-04-30' });
+    const late = credit('2026-03-01', { expiresOn: '2026-05-30' });
+
+    const balance = calculateCompOffBalance([late, early], [{ startDate: '2026-03-20', totalDays: 1, status: 'approved' }], '2026-03-20');
+
+    expect(balance.available).toBe(1);
+    expect(balance.credits).toHaveLength(1);
+    expect(balance.credits[0].workDate).toBe('2026-03-01');
+    expect(balance.uncovered).toBe(0);
+  });
+
+  it('should drop credits that have expired', () => {
+    const balance = calculateCompOffBalance([credit('2026-03-08', { expiresOn: '2026-04-30' })], [], '2026-05-01');
+
+    expect(balance.available).toBe(0);
+    expect(balance.nextExpiry).toBeNull();
+  });
+
+  it('should not cover leave taken before the day was worked or after the credit expired', () => {
+    const credits = [credit('2026-03-08', { expiresOn: '2026-04-30' })];
+
+    expect(
+      calculateCompOffBalance(credits, [{ startDate: '2026-03-05', totalDays: 1, status: 'pending' }], '2026-03-01').uncovered
+    ).toBe(1);
+    expect(
+      calculateCompOffBalance(credits, [{ startDate: '2026-05-04', totalDays: 1, status: 'pending' }], '2026-03-20').uncovered
+    ).toBe(1);
+  });
+
+  it('should ignore rejected and cancelled leave', () => {
+    const balance = calculateCompOffBalance(
+      [credit('2026-03-08')],
+      [
+        { startDate: '2026-03-20', totalDays: 1, status: 'rejected' },
+        { startDate: '2026-03-21', totalDays: 1, status: 'cancelled' },
+      ],
+      '2026-03-20'
+    );
+
+    expect(balance.available).toBe(1);
+  });
+
+  it('should split leave across credits and report what is left uncovered', () => {
+    const balance = calculateCompOffBalance(
+      [credit('2026-03-01', { days: 0.5 }), credit('2026-03-08')],
+      [{ startDate: '2026-03-20', totalDays: 2, status: 'pending' }],
+      '2026-03-20'
+    );
+
+    expect(balance.available).toBe(0);
+    expect(balance.uncovered).toBe(0.5);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Expense Claim Tests
+ *
+ * Tests for claim totals, the reimbursement added to a salary slip and the
+ * per-client report of approved expenses used for rebilling
+ */
+
+import {
+  applyReimbursement,
+  buildClientExpenseCsv,
+  buildClientExpenseReport,
+  getClaimTotal,
+  getUnpaidApprovedClaims,
+} from '@/lib/expenses';
+import { ExpenseClaim } from '@/types/expense.types';
+import { SalaryBreakup } from '@/types/payroll.types';
+
+function claim(overrides: Partial<ExpenseClaim> = {}): ExpenseClaim {
+  return {
+    id: `claim-${Math.random()}`,
+    employeeId: 'emp-1',
+    employeeName: 'Test Employee',
+    title: 'Client visit',
+    items: [{ category: 'travel', amount: 500, date: '2026-04-10', description: 'Cab' }],
+    receipts: [],
+    totalAmount: 500,
+    clientVisitId: 'visit-1',
+    clientId: 'client-1',
+    clientName: 'Acme Traders',
+    status: 'approved',
+    decidedBy: 'mgr-1',
+    decidedByName: 'Manager',
+    decidedAt: '2026-04-12T00:00:00.000Z',
+    rejectionReason: null,
+    paidIn: null,
+    createdAt: '2026-04-11T00:00:00.000Z',
+    updatedAt: '2026-04-12T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('getClaimTotal', () => {
+  it('sums line items rounded to the paisa', () => {
+    expect(getClaimTotal([{ amount: 0.1 }, { amount: 0.2 }, { amount: 100 }])).toBe(100.3);
+    expect(getClaimTotal([])).toBe(0);
+  });
+});
+
+describe('getUnpaidApprovedClaims', () => {
+  it('keeps approved claims not yet paid through a slip', () => {
+    const due = claim({ id: 'due' });
+    const claims = [
+      due,
+      claim({ status: 'pending' }),
+      claim({ status: 'rejected' }),
+      claim({ status: 'paid', paidIn: { month: 3, year: 2026, slipId: 'slip-1' } }),
+    ];
+    expect(getUnpaidApprovedClaims(claims)).toEqual([due]);
+  });
+});
+
+describe('applyReimbursement', () => {
+  const breakup: SalaryBreakup = {
+    basic: 20000,
+    hra: 8000,
+    special: 2000,
+    totalDeductions: 1800,
+    netSalary: 28200,
+  };
+
+  it('adds to net pay without touching earnings or deductions', () => {
+    const result = applyReimbursement(breakup, 1250);
+    expect(result.reimbursement).toBe(1250);
+    expect(result.netSalary).toBe(29450);
+    expect(result.basic).toBe(20000);
+    expect(result.totalDeductions).toBe(1800);
+  });
+
+  it('accumulates onto an existing reimbursement', () => {
+    expect(applyReimbursement({ ...breakup, reimbursement: 300 }, 200).reimbursement).toBe(500);
+  });
+});
+
+describe('buildClientExpenseReport', () => {
+  const range = { from: '2026-04-01', to: '2026-04-30' };
+
+  it('groups approved and paid client expenses by client and category', () => {
+    const rows = buildClientExpenseReport([
+      claim({
+        items: [
+          { category: 'travel', amount: 500, date: '2026-04-10', description: '' },
+          { category: 'food', amount: 250, date: '2026-04-10', description: '' },
+        ],
+      }),
+      claim({
+        status: 'paid',
+        paidIn: { month: 3, year: 2026, slipId: 'slip-1' },
+        items: [{ category: 'travel', amount: 300, date: '2026-04-20', description: '' }],
+      }),
+      claim({
+        clientId: 'client-2',
+        clientName: 'Globex',
+        items: [{ category: 'lodging', amount: 4000, date: '2026-04-15', description: '' }],
+      }),
+    ], range);
+
+    expect(rows.map((row) => row.clientName)).toEqual(['Globex', 'Acme Traders']);
+    expect(rows[1].claimCount).toBe(2);
+    expect(rows[1].byCategory.travel).toBe(800);
+    expect(rows[1].byCategory.food).toBe(250);
+    expect(rows[1].totalAmount).toBe(1050);
+  });
+
+  it('skips pending, rejected and unlinked claims', () => {
+    const rows = buildClientExpenseReport([
+      claim({ status: 'pending' }),
+      claim({ status: 'rejected' }),
+      claim({ clientId: null, clientName: null, clientVisitId: null }),
+    ], range);
+    expect(rows).toEqual([]);
+  });
+
+  it('only counts line items dated within the range', () => {
+    const rows = buildClientExpenseReport([
+      claim({
+        items: [
+          { category: 'travel', amount: 500, date: '2026-03-31', description: '' },
+          { category: 'travel', amount: 200, date: '2026-04-30', description: '' },
+        ],
+      }),
+      claim({ items: [{ category: 'food', amount: 100, date: '2026-05-01', description: '' }] }),
+    ], range);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].claimCount).toBe(1);
+    expect(rows[0].totalAmount).toBe(200);
+  });
+});
+
+describe('buildClientExpenseCsv', () => {
+  it('writes a header and one quoted-as-needed row per client', () => {
+    const [row] = buildClientExpenseReport([claim({ clientName: 'Acme, Inc.' })], {
+      from: '2026-04-01',
+      to: '2026-04-30',
+    });
+    const lines = buildClientExpenseCsv([row]).split('\r\n');
+
+    expect(lines[0]).toBe('Client,Claims,Travel,Local Conveyance,Food,Lodging,Phone & Internet,Other,Total');
+    expect(lines[1]).toBe('"Acme, Inc.",1,500,0,0,0,0,0,500');
+  });
+});
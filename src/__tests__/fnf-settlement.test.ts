@@ -0,0 +1,147 @@
+/**
+ * Full & Final Settlement Tests
+ * Tests for service years and gratuity, days paid in the leaving month,
+ * the estimated leave balance and the settlement totals
+ */
+
+import {
+  calculateGratuity,
+  computeFnf,
+  estimateLeaveBalance,
+  getFinalMonthDays,
+  getServiceYears,
+  GRATUITY_CAP,
+} from '@/lib/fnf-settlement';
+import { EmployeeSalary } from '@/types/payroll.types';
+
+function slip(month: number, year: number, paidLeave: number): EmployeeSalary {
+  return {
+    id: `slip-${year}-${month}`,
+    employeeId: 'emp-1',
+    name: 'Asha Rao',
+    employeeCode: 'E001',
+    designation: 'Engineer',
+    department: 'Engineering',
+    doj: null,
+    pan: null,
+    grossSalary: 60000,
+    month,
+    year,
+    totalDaysInMonth: 30,
+    paidDays: 30,
+    attendanceBreakdown: {
+      present: 22, wfh: 0, approvedLeave: paidLeave, unapprovedLeave: 0, halfDay: 0,
+      holiday: 8 - paidLeave, paidLeave, leaveTaken: paidLeave, unpaidLeave: 0, paidDays: 30,
+    },
+    salaryBreakup: { basic: 30000, hra: 12000, special: 18000, totalDeductions: 0, netSalary: 60000 },
+    slipNumber: `SAL-${year}${String(month + 1).padStart(2, '0')}-E001`,
+    generatedBy: 'admin',
+    accessGranted: true,
+  };
+}
+
+describe('Service years', () => {
+  it('should count completed years up to the last working day', () => {
+    expect(getServiceYears('2020-04-01', '2025-03-31')).toEqual({ serviceYears: 5, gratuityYears: 5 });
+    expect(getServiceYears('2020-04-01', '2025-03-30')).toEqual({ serviceYears: 4, gratuityYears: 5 });
+  });
+
+  it('should round a final part-year of more than six months up for gratuity', () => {
+    expect(getServiceYears('2018-01-01', '2024-08-15')).toEqual({ serviceYears: 6, gratuityYears: 7 });
+    expect(getServiceYears('2018-01-01', '2024-06-30')).toEqual({ serviceYears: 6, gratuityYears: 6 });
+  });
+});
+
+describe('Gratuity', () => {
+  it('should pay 15 days of basic per year on a 26 day month', () => {
+    expect(calculateGratuity(26000, 5)).toBe(75000);
+  });
+
+  it('should cap gratuity at the statutory ceiling', () => {
+    expect(calculateGratuity(500000, 30)).toBe(GRATUITY_CAP);
+  });
+});
+
+describe('Leaving month', () => {
+  it('should count days up to the last working day', () => {
+    expect(getFinalMonthDays('2020-04-01', '2026-06-18')).toBe(18);
+  });
+
+  it('should count from the joining day when they joined that month', () => {
+    expect(getFinalMonthDays('2026-06-10', '2026-06-18')).toBe(9);
+  });
+});
+
+describe('Leave balance estimate', () => {
+  it('should accrue the monthly allowance for the months served this financial year', () => {
+    const balance = estimateLeaveBalance({
+      allowedPaidLeaves: 1.5,
+      dateOfJoining: '2020-04-01',
+      dateOfLeaving: '2026-06-18',
+      slips: [slip(3, 2026, 1), slip(4, 2026, 0.5), slip(2, 2026, 2)],
+    });
+
+    // April to June is 4.5 days, less 1.5 taken in this year (March is last year)
+    expect(balance).toBe(3);
+  });
+
+  it('should start accruing from the joining month in the joining year', () => {
+    const balance = estimateLeaveBalance({
+      allowedPaidLeaves: 1,
+      dateOfJoining: '2026-05-20',
+      dateOfLeaving: '2026-08-10',
+      slips: [],
+    });
+
+    expect(balance).toBe(4);
+  });
+});
+
+describe('Settlement', () => {
+  const base = {
+    dateOfJoining: '2019-01-01',
+    dateOfLeaving: '2026-06-15',
+    monthlyGross: 60000,
+    basicPercentage: 50,
+    noticePeriodDays: 60,
+    noticeDaysServed: 45,
+    leaveBalanceDays: 13,
+    outstandingLoan: 20000,
+    finalMonthPaidBySlip: false,
+  };
+
+  it('should add up earnings and recoveries', () => {
+    const fnf = computeFnf({ ...base, otherEarnings: 5000, otherDeductions: 1000 });
+
+    expect(fnf).toMatchObject({
+      lastDrawnBasic: 30000,
+      finalMonthDays: 15,
+      finalMonthSalary: 30000,
+      leaveEncashment: 15000,
+      serviceYears: 7,
+      gratuityYears: 7,
+      gratuityEligible: true,
+      gratuity: 121154,
+      noticeShortfallDays: 15,
+      noticeRecovery: 30000,
+      loanRecovery: 20000,
+      totalEarnings: 171154,
+      totalDeductions: 51000,
+      netPayable: 120154,
+    });
+  });
+
+  it('should skip gratuity before five years of service', () => {
+    const fnf = computeFnf({ ...base, dateOfJoining: '2022-01-01' });
+
+    expect(fnf.gratuityEligible).toBe(false);
+    expect(fnf.gratuity).toBe(0);
+  });
+
+  it('should not pay the leaving month again when a slip covers it', () => {
+    const fnf = computeFnf({ ...base, finalMonthPaidBySlip: true });
+
+    expect(fnf.finalMonthDays).toBe(15);
+    expect(fnf.finalMonthSalary).toBe(0);
+  });
+});
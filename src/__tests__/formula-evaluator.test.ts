@@ -0,0 +1,186 @@
+/**
+ * Salary Formula Language Tests
+ *
+ * Tests for the formula parser, type checker and evaluator that replace
+ * `new Function` in payrollAdminService.evaluateSalaryFormula
+ */
+
+import {
+  checkFormula,
+  checkSalaryFormula,
+  evaluateFormula,
+  SALARY_FORMULA_VARIABLES,
+} from '@/lib/formula-evaluator';
+import { FormulaError, parseFormula } from '@/lib/formula-parser';
+
+const VARIABLES = {
+  grossSalary: 26000,
+  totalDaysInMonth: 30,
+  totalWorkingDays: 26,
+  basicPercentage: 50,
+  hraPercentage: 30,
+  specialPercentage: 20,
+  allowedPaidLeaves: 1,
+  includePaidLeavesInPaidDays: false,
+  present: 22,
+  wfh: 0,
+  halfDay: 0,
+  paidLeave: 1,
+  leaveTaken: 3,
+  unpaidLeave: 2,
+  holidays: 4,
+  approvedLeave: 1,
+  unapprovedLeave: 2,
+};
+
+// Matches the output of FormulaEditor's default expressions
+const DEFAULT_FORMULA = [
+  'totalWorkingDays = totalDaysInMonth - holidays;',
+  'paidLeave = MIN(approvedLeave + unapprovedLeave, allowedPaidLeaves);',
+  'leaveTaken = approvedLeave + unapprovedLeave;',
+  'unpaidLeave = MAX(0, approvedLeave + unapprovedLeave - allowedPaidLeaves);',
+  'const paidDays = 26 - unpaidLeave - (halfDay * 0.5);',
+  'const proratedGross = grossSalary - (grossSalary * unpaidLeave) / 26;',
+  'const basic = proratedGross * (basicPercentage / 100);',
+  'const hra = proratedGross * (hraPercentage / 100);',
+  'const special = proratedGross * (specialPercentage / 100);',
+  'const totalDeductions = 0;',
+  'const netSalary = basic + hra + special - totalDeductions;',
+  'return { paidDays, basic, hra, special, totalDeductions, netSalary };',
+].join('\n');
+
+function evaluateSalary(formula: string) {
+  return evaluateFormula(formula, VARIABLES, SALARY_FORMULA_VARIABLES);
+}
+
+function diagnosticsFor(formula: string) {
+  return checkSalaryFormula(formula);
+}
+
+describe('Salary formula language', () => {
+  describe('evaluation', () => {
+    it('should evaluate the default editor formula', () => {
+      const result = evaluateSalary(DEFAULT_FORMULA);
+      expect(result.paidDays).toBe(24);
+      expect(result.netSalary).toBe(24000);
+      expect(result.basic).toBe(12000);
+      expect(result.hra).toBe(7200);
+      expect(result.special).toBe(4800);
+    });
+
+    it('should accept legacy const declarations of input variables', () => {
+      const result = evaluateSalary('const grossSalary = 1000;\nreturn { netSalary: grossSalary };');
+      expect(result.netSalary).toBe(1000);
+    });
+
+    it('should respect operator precedence and unary minus', () => {
+      const result = evaluateSalary('return { netSalary: 2 + 3 * 4 - -1, basic: (2 + 3) * 4 % 7 };');
+      expect(result.netSalary).toBe(15);
+      expect(result.basic).toBe(6);
+    });
+
+    it('should call formula-functions library functions', () => {
+      const result = evaluateSalary('return { netSalary: ROUND(SUM(grossSalary, 0.456), 2), basic: SUM([1, 2, 3]) };');
+      expect(result.netSalary).toBe(26000.46);
+      expect(result.basic).toBe(6);
+    });
+
+    it('should only evaluate the branch IF takes', () => {
+      const result = evaluateSalary('return { netSalary: IF(wfh > 0, grossSalary / wfh, 0) };');
+      expect(result.netSalary).toBe(0);
+    });
+
+    it('should support conditional expressions and booleans', () => {
+      const result = evaluateSalary('return { netSalary: includePaidLeavesInPaidDays ? 1 : present >= 22 && TRUE ? 2 : 3 };');
+      expect(result.netSalary).toBe(2);
+    });
+
+    it('should fall back through IFERROR on runtime errors', () => {
+      const result = evaluateSalary('return { netSalary: IFERROR(grossSalary / wfh, -1) };');
+      expect(result.netSalary).toBe(-1);
+    });
+
+    it('should report division by zero with its position', () => {
+      expect.assertions(3);
+      try {
+        evaluateSalary('const x = 1;\nreturn { netSalary: grossSalary / wfh };');
+      } catch (error) {
+        expect(error).toBeInstanceOf(FormulaError);
+        expect((error as FormulaError).diagnostics[0]).toMatchObject({ line: 2, column: 35 });
+        expect((error as FormulaError).message).toContain('Division by zero');
+      }
+    });
+  });
+
+  describe('sandboxing', () => {
+    it.each([
+      'return { netSalary: process.exit(1) };',
+      'return { netSalary: constructor };',
+      'return { netSalary: globalThis };',
+      'return { netSalary: eval("1") };',
+      'return { netSalary: toString() };',
+      'return { netSalary: require("fs") };',
+      'return { netSalary: (function () { return 1; })() };',
+    ])('should reject %s', (formula) => {
+      expect(diagnosticsFor(formula).length).toBeGreaterThan(0);
+      expect(() => evaluateSalary(formula)).toThrow(FormulaError);
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('should return no diagnostics for a valid formula', () => {
+      expect(diagnosticsFor(DEFAULT_FORMULA)).toEqual([]);
+    });
+
+    it('should report unknown variables with line and column', () => {
+      const [diagnostic] = diagnosticsFor('const basic = grossSalry * 0.5;\nreturn { basic };');
+      expect(diagnostic).toMatchObject({ line: 1, column: 15, length: 10 });
+      expect(diagnostic.message).toContain("Unknown variable 'grossSalry'");
+    });
+
+    it('should suggest the uppercase name for unknown functions', () => {
+      const [diagnostic] = diagnosticsFor('return { basic: round(grossSalary, 2) };');
+      expect(diagnostic.message).toBe("Unknown function 'round' (did you mean ROUND?)");
+    });
+
+    it('should report wrong argument counts', () => {
+      const [diagnostic] = diagnosticsFor('return { basic: ABS(1, 2) };');
+      expect(diagnostic.message).toBe('ABS expects 1 argument, got 2');
+      expect(diagnostic.column).toBe(17);
+    });
+
+    it('should report type errors in arithmetic', () => {
+      const [diagnostic] = diagnosticsFor('return { basic: grossSalary + "bonus" };');
+      expect(diagnostic.message).toBe("Right side of '+' must be a number, got a string");
+      expect(diagnostic.column).toBe(31);
+    });
+
+    it('should require result fields to be numbers', () => {
+      const [diagnostic] = diagnosticsFor('return { basic: UPPER("x") };');
+      expect(diagnostic.message).toBe("Result field 'basic' must be a number, got a string");
+    });
+
+    it('should require a return statement', () => {
+      const diagnostics = diagnosticsFor('const basic = 1;');
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].message).toContain('must end with a return statement');
+    });
+
+    it('should report syntax errors with positions', () => {
+      const { diagnostics } = parseFormula('const basic = (1 + 2;\nreturn { basic };');
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({ line: 1, column: 21 });
+      expect(diagnostics[0].message).toBe("Expected ')' to close the parenthesis but found ';'");
+    });
+
+    it('should report unexpected characters', () => {
+      const [diagnostic] = diagnosticsFor('return { basic: grossSalary # 2 };');
+      expect(diagnostic).toMatchObject({ line: 1, column: 29, message: "Unexpected character '#'" });
+    });
+
+    it('should check formulas against a custom variable scope', () => {
+      expect(checkFormula('return { x: rate * 2 };', { rate: 'number' })).toEqual([]);
+      expect(checkFormula('return { x: rate * 2 };', {})).toHaveLength(1);
+    });
+  });
+});
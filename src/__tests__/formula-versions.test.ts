@@ -0,0 +1,87 @@
+/**
+ * Salary Formula Versions Tests
+ * Tests for picking the formula version in effect for a payroll month and
+ * the line diff shown side by side in the version history
+ */
+
+import { diffFormulas, getEffectiveFormulaVersion } from '@/lib/formula-versions';
+import { SalaryFormulaVersion } from '@/types/payroll.types';
+
+function version(
+  id: string,
+  effectiveMonth: number,
+  effectiveYear: number,
+  createdAt: string
+): SalaryFormulaVersion {
+  return {
+    id,
+    formula: `return ${id}`,
+    changeNote: id,
+    effectiveMonth,
+    effectiveYear,
+    rolledBackFrom: null,
+    createdBy: 'admin',
+    createdByName: 'Admin',
+    createdAt,
+  };
+}
+
+describe('getEffectiveFormulaVersion', () => {
+  const versions = [
+    version('jun', 5, 2026, '2026-05-20T10:00:00.000Z'),
+    version('apr', 3, 2026, '2026-03-28T10:00:00.000Z'),
+    version('jan-2027', 0, 2027, '2026-05-21T10:00:00.000Z'),
+  ];
+
+  it('should use the latest version effective on or before the month', () => {
+    expect(getEffectiveFormulaVersion(versions, 3, 2026)?.id).toBe('apr');
+    expect(getEffectiveFormulaVersion(versions, 4, 2026)?.id).toBe('apr');
+    expect(getEffectiveFormulaVersion(versions, 11, 2026)?.id).toBe('jun');
+    expect(getEffectiveFormulaVersion(versions, 1, 2027)?.id).toBe('jan-2027');
+  });
+
+  it('should return null for months before the first version', () => {
+    expect(getEffectiveFormulaVersion(versions, 2, 2026)).toBeNull();
+    expect(getEffectiveFormulaVersion([], 3, 2026)).toBeNull();
+  });
+
+  it('should let the version saved later win for the same effective month', () => {
+    const rollback = version('rollback', 5, 2026, '2026-06-02T09:00:00.000Z');
+
+    expect(getEffectiveFormulaVersion([rollback, ...versions], 6, 2026)?.id).toBe('rollback');
+  });
+});
+
+describe('diffFormulas', () => {
+  it('should pair replaced lines as changed and keep shared lines aligned', () => {
+    const before = 'const basic = grossSalary * 0.5\nconst hra = basic * 0.4\nreturn { basic, hra }';
+    const after = 'const basic = grossSalary * 0.4\nconst hra = basic * 0.4\nreturn { basic, hra }';
+
+    expect(diffFormulas(before, after)).toEqual([
+      {
+        type: 'changed',
+        left: 'const basic = grossSalary * 0.5',
+        right: 'const basic = grossSalary * 0.4',
+        leftLine: 1,
+        rightLine: 1,
+      },
+      { type: 'same', left: 'const hra = basic * 0.4', right: 'const hra = basic * 0.4', leftLine: 2, rightLine: 2 },
+      { type: 'same', left: 'return { basic, hra }', right: 'return { basic, hra }', leftLine: 3, rightLine: 3 },
+    ]);
+  });
+
+  it('should report added and removed lines on their own side', () => {
+    const rows = diffFormulas('a\nb\nc', 'a\nc\nd');
+
+    expect(rows.map((row) => [row.type, row.left, row.right])).toEqual([
+      ['same', 'a', 'a'],
+      ['removed', 'b', null],
+      ['same', 'c', 'c'],
+      ['added', null, 'd'],
+    ]);
+  });
+
+  it('should show every line as added for the first version', () => {
+    expect(diffFormulas('', 'a\nb').map((row) => row.type)).toEqual(['added', 'added']);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Geofence Tests
+ *
+ * Tests for matching a clock-in/out location to the nearest allowed site and
+ * for blocking or flagging punches outside the fence
+ */
+
+import { evaluatePunch, formatDistance, matchSite } from '@/lib/geofence';
+import { AttendanceSite } from '@/types/attendance.types';
+
+function site(overrides: Partial<AttendanceSite> = {}): AttendanceSite {
+  return {
+    id: 'office-1',
+    name: 'Head Office',
+    type: 'office',
+    latitude: 28.6139,
+    longitude: 77.209,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+// About 111 m per 0.001° of latitude
+const north = (meters: number, from = site()) => ({
+  latitude: from.latitude + meters / 111195,
+  longitude: from.longitude,
+});
+
+const clientSite = site({
+  id: 'client_c1',
+  name: 'Acme Traders',
+  type: 'client',
+  clientId: 'c1',
+  latitude: 28.7041,
+  longitude: 77.1025,
+});
+
+describe('matchSite', () => {
+  it('matches a location inside the policy radius', () => {
+    const match = matchSite(north(50), [site()], 200);
+    expect(match).toEqual({
+      siteId: 'office-1',
+      siteName: 'Head Office',
+      siteType: 'office',
+      distance: 50,
+      withinFence: true,
+    });
+  });
+
+  it('uses a site\'s own radius over the policy radius', () => {
+    expect(matchSite(north(150), [site({ radius: 100 })], 200).withinFence).toBe(false);
+    expect(matchSite(north(150), [site({ radius: 300 })], 100).withinFence).toBe(true);
+  });
+
+  it('prefers a site whose fence contains the location over a nearer one', () => {
+    const small = site({ id: 'office-2', name: 'Annexe', radius: 20, latitude: north(100).latitude });
+    const match = matchSite(north(130), [small, site({ radius: 500 })], 200);
+    expect(match.siteName).toBe('Head Office');
+    expect(match.withinFence).toBe(true);
+  });
+
+  it('reports the nearest site when outside every fence', () => {
+    const match = matchSite(north(1500), [site(), clientSite], 200);
+    expect(match.siteId).toBe('office-1');
+    expect(match.withinFence).toBe(false);
+    expect(match.distance).toBe(1500);
+  });
+});
+
+describe('evaluatePunch', () => {
+  const required = { geolocationRequired: true, geolocationRadius: 200 };
+  const optional = { geolocationRequired: false, geolocationRadius: 200 };
+
+  it('skips the check until sites are set up', () => {
+    expect(evaluatePunch('clock in', north(5000), [], required)).toEqual({ match: null, error: null });
+  });
+
+  it('lets a punch inside the fence through under either policy', () => {
+    expect(evaluatePunch('clock in', north(10, clientSite), [site(), clientSite], required).match?.siteName)
+      .toBe('Acme Traders');
+    expect(evaluatePunch('clock in', north(10), [site()], optional).error).toBeNull();
+  });
+
+  it('blocks a punch outside the fence when geolocation is required', () => {
+    const { error } = evaluatePunch('clock out', north(2400), [site()], required);
+    expect(error).toMatch(/2.4 km from Head Office/);
+    expect(error).toMatch(/only clock out/);
+  });
+
+  it('flags a punch outside the fence with the distance otherwise', () => {
+    const { match, error } = evaluatePunch('clock in', north(350), [site()], optional);
+    expect(error).toBeNull();
+    expect(match).toMatchObject({ siteName: 'Head Office', distance: 350, withinFence: false });
+  });
+
+  it('requires a location only when the policy does', () => {
+    expect(evaluatePunch('clock in', undefined, [site()], required).error).toMatch(/location is required/);
+    expect(evaluatePunch('clock in', undefined, [site()], optional)).toEqual({ match: null, error: null });
+  });
+});
+
+describe('formatDistance', () => {
+  it('shows meters under a kilometer, kilometers above', () => {
+    expect(formatDistance(349.6)).toBe('350 m');
+    expect(formatDistance(2400)).toBe('2.4 km');
+  });
+});
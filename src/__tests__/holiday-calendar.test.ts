@@ -0,0 +1,203 @@
+/**
+ * Holiday Calendar Tests
+ *
+ * Tests for which calendar an employee follows, the holidays and optional
+ * holiday claims it gives them, and reading and writing .ics and CSV files
+ */
+
+import {
+  buildEmployeeHolidays,
+  buildHolidayCsv,
+  buildIcs,
+  countLeaveDays,
+  getCalendarHolidays,
+  getOptionalHolidayClaimError,
+  parseHolidayCsv,
+  parseIcs,
+  resolveHolidayCalendar,
+} from '@/lib/holiday-calendar';
+import { Holiday, HolidayCalendar } from '@/types/attendance.types';
+
+function calendar(id: string, overrides: Partial<HolidayCalendar> = {}): HolidayCalendar {
+  return {
+    id,
+    name: id,
+    location: '',
+    description: '',
+    isDefault: false,
+    optionalHolidayQuota: 2,
+    employeeIds: [],
+    teamIds: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function holiday(id: string, date: string, overrides: Partial<Holiday> = {}): Holiday {
+  return { id, calendarId: null, date, name: id, description: '', isOptional: false, ...overrides };
+}
+
+const company = calendar('company', { isDefault: true });
+const pune = calendar('pune', { teamIds: ['mgr-pune'] });
+const remote = calendar('remote', { employeeIds: ['emp-1'] });
+
+const holidays = [
+  holiday('republic-day', '2026-01-26'),
+  holiday('gudi-padwa', '2026-03-19', { calendarId: 'pune' }),
+  holiday('holi', '2026-03-04', { calendarId: 'pune', isOptional: true }),
+  holiday('eid', '2026-03-20', { calendarId: 'pune', isOptional: true }),
+  holiday('ugadi', '2026-03-19', { calendarId: 'bangalore' }),
+];
+
+describe('resolveHolidayCalendar', () => {
+  it('should prefer a calendar listing the employee, then their team, then the default', () => {
+    const calendars = [company, pune, remote];
+    expect(resolveHolidayCalendar(calendars, { employeeId: 'emp-1', teamIds: ['mgr-pune'] })).toBe(remote);
+    expect(resolveHolidayCalendar(calendars, { employeeId: 'emp-2', teamIds: ['mgr-pune'] })).toBe(pune);
+    expect(resolveHolidayCalendar(calendars, { employeeId: 'emp-3', teamIds: [] })).toBe(company);
+  });
+
+  it('should return null without a default calendar', () => {
+    expect(resolveHolidayCalendar([pune], { employeeId: 'emp-3', teamIds: [] })).toBeNull();
+  });
+
+  it('should pick the latest updated calendar when several match', () => {
+    const newer = calendar('newer', { teamIds: ['mgr-pune'], updatedAt: '2026-02-01T00:00:00.000Z' });
+    expect(resolveHolidayCalendar([pune, newer], { employeeId: 'emp-2', teamIds: ['mgr-pune'] })).toBe(newer);
+  });
+});
+
+describe('getCalendarHolidays', () => {
+  it('should include the company-wide list only on the default calendar or without one', () => {
+    expect(getCalendarHolidays(company, holidays).map((h) => h.id)).toEqual(['republic-day']);
+    expect(getCalendarHolidays(null, holidays).map((h) => h.id)).toEqual(['republic-day']);
+    expect(getCalendarHolidays(pune, holidays).map((h) => h.id)).toEqual(['holi', 'gudi-padwa', 'eid']);
+  });
+});
+
+describe('buildEmployeeHolidays', () => {
+  it('should count optional holidays as holidays only once claimed', () => {
+    const result = buildEmployeeHolidays(pune, holidays, [
+      {
+        employeeId: 'emp-2',
+        employeeName: 'Ravi',
+        calendarId: 'pune',
+        holidayId: 'holi',
+        holidayName: 'holi',
+        date: '2026-03-04',
+        createdAt: '2026-02-01T00:00:00.000Z',
+      },
+    ]);
+
+    expect(result.calendarName).toBe('pune');
+    expect(result.holidays.map((h) => h.id)).toEqual(['holi', 'gudi-padwa']);
+    expect(result.optionalHolidays.map((h) => [h.id, h.claimed])).toEqual([
+      ['holi', true],
+      ['eid', false],
+    ]);
+  });
+
+  it('should fall back to the company list and default quota', () => {
+    const result = buildEmployeeHolidays(null, holidays, []);
+    expect(result).toMatchObject({ calendarId: null, calendarName: 'Company holidays', optionalHolidayQuota: 2 });
+  });
+});
+
+describe('getOptionalHolidayClaimError', () => {
+  const employeeHolidays = buildEmployeeHolidays({ ...pune, optionalHolidayQuota: 1 }, holidays, []);
+
+  it('should allow claiming an upcoming optional holiday within quota', () => {
+    expect(getOptionalHolidayClaimError(employeeHolidays, 'eid', '2026-03-01')).toBeNull();
+  });
+
+  it('should reject holidays that are not optional or have passed', () => {
+    expect(getOptionalHolidayClaimError(employeeHolidays, 'gudi-padwa', '2026-03-01')).toMatch(/not an optional/);
+    expect(getOptionalHolidayClaimError(employeeHolidays, 'holi', '2026-03-05')).toMatch(/before the day/);
+  });
+
+  it('should reject a second claim and claims past the yearly quota', () => {
+    const claimed = {
+      ...employeeHolidays,
+      optionalHolidays: employeeHolidays.optionalHolidays.map((h) => ({ ...h, claimed: h.id === 'holi' })),
+    };
+    expect(getOptionalHolidayClaimError(claimed, 'holi', '2026-03-01')).toMatch(/already claimed this/);
+    expect(getOptionalHolidayClaimError(claimed, 'eid', '2026-03-01')).toBe(
+      'You have already claimed 1 optional holiday for 2026'
+    );
+  });
+});
+
+describe('countLeaveDays', () => {
+  it('should leave holidays out of a leave range', () => {
+    expect(countLeaveDays('2026-03-18', '2026-03-21', new Set(['2026-03-19', '2026-03-20']))).toBe(2);
+    expect(countLeaveDays('2026-03-19', '2026-03-19', new Set(['2026-03-19']))).toBe(0);
+  });
+});
+
+describe('parseIcs', () => {
+  it('should read folded lines, multi-day all-day events and optional categories', () => {
+    const content = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261020',
+      'DTEND;VALUE=DATE:20261022',
+      'SUMMARY:Diwali\\, Laxmi Pu',
+      ' ja',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20261225T000000Z',
+      'SUMMARY:Christmas',
+      'CATEGORIES:Restricted Holiday',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const { rows, errors } = parseIcs(content);
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { date: '2026-10-20', name: 'Diwali, Laxmi Puja', description: '', isOptional: false },
+      { date: '2026-10-21', name: 'Diwali, Laxmi Puja', description: '', isOptional: false },
+      { date: '2026-12-25', name: 'Christmas', description: '', isOptional: true },
+    ]);
+  });
+
+  it('should report events without a date or name and files without events', () => {
+    const { errors } = parseIcs('BEGIN:VEVENT\nSUMMARY:No date\nEND:VEVENT\nBEGIN:VEVENT\nDTSTART:20260101\nEND:VEVENT');
+    expect(errors.map((e) => e.row)).toEqual([1, 2]);
+    expect(parseIcs('BEGIN:VCALENDAR\nEND:VCALENDAR').errors).toHaveLength(1);
+  });
+
+  it('should read back what buildIcs writes', () => {
+    const exported = [
+      holiday('a', '2026-08-15', { name: 'Independence Day; national holiday', description: 'Flag hoisting at 9' }),
+      holiday('b', '2026-08-28', { name: 'Raksha Bandhan', isOptional: true }),
+    ];
+    const ics = buildIcs('Pune', exported, new Date('2026-01-01T00:00:00Z'));
+
+    expect(ics).toContain('DTSTAMP:20260101T000000Z');
+    expect(parseIcs(ics).rows).toEqual(
+      exported.map(({ date, name, description, isOptional }) => ({ date, name, description, isOptional }))
+    );
+  });
+});
+
+describe('parseHolidayCsv', () => {
+  it('should read back what buildHolidayCsv writes', () => {
+    const exported = [
+      holiday('a', '2026-10-02', { name: 'Gandhi Jayanti', description: 'Closed, all offices' }),
+      holiday('b', '2026-11-08', { name: 'Bhai Dooj', isOptional: true }),
+    ];
+    const { rows, errors } = parseHolidayCsv(buildHolidayCsv(exported));
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual(exported.map(({ date, name, description, isOptional }) => ({ date, name, description, isOptional })));
+  });
+
+  it('should accept day-first dates and any header case, and report bad rows', () => {
+    const { rows, errors } = parseHolidayCsv('date,NAME,optional\n26/01/2026,Republic Day,no\n2026-02-30,Bad Day,\n2026-03-01,,');
+
+    expect(rows).toEqual([{ date: '2026-01-26', name: 'Republic Day', description: '', isOptional: false }]);
+    expect(errors.map((e) => e.row)).toEqual([3, 4]);
+  });
+});
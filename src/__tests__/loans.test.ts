@@ -0,0 +1,194 @@
+/**
+ * Loan Ledger Tests
+ *
+ * Tests for EMI calculation, the EMI due in a payroll month and the
+ * outstanding-balance statement derived from a loan's transactions
+ */
+
+import {
+  applyLoanRecoveries,
+  buildLedger,
+  buildSchedule,
+  calculateEmi,
+  capLoanRecoveries,
+  getDueEmi,
+  getOutstandingPrincipal,
+} from '@/lib/loans';
+import { EmployeeLoan, LoanTransaction } from '@/types/payroll.types';
+
+function transaction(overrides: Partial<LoanTransaction>): LoanTransaction {
+  return {
+    id: `tx-${Math.random()}`,
+    type: 'emi',
+    amount: 0,
+    principal: 0,
+    interest: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    createdBy: 'admin',
+    ...overrides,
+  };
+}
+
+function loan(overrides: Partial<EmployeeLoan> = {}): EmployeeLoan {
+  const principal = overrides.principal ?? 30000;
+  return {
+    id: 'loan-1',
+    employeeId: 'emp-1',
+    employeeName: 'Test Employee',
+    type: 'advance',
+    principal,
+    interestRate: 0,
+    tenureMonths: 3,
+    emiAmount: 10000,
+    startMonth: 3,
+    startYear: 2026,
+    status: 'active',
+    paused: false,
+    skippedMonths: [],
+    transactions: [transaction({ type: 'disbursement', amount: principal, principal })],
+    sanctionedBy: 'admin',
+    ...overrides,
+  };
+}
+
+describe('Loan ledger', () => {
+  describe('calculateEmi', () => {
+    it('should split an interest-free advance evenly, rounding up', () => {
+      expect(calculateEmi(30000, 0, 3)).toBe(10000);
+      expect(calculateEmi(10000, 0, 3)).toBe(3334);
+    });
+
+    it('should use the reducing-balance formula with interest', () => {
+      expect(calculateEmi(100000, 12, 12)).toBe(8885);
+    });
+
+    it('should be zero without a principal or tenure', () => {
+      expect(calculateEmi(0, 12, 12)).toBe(0);
+      expect(calculateEmi(1000, 12, 0)).toBe(0);
+    });
+  });
+
+  describe('getDueEmi', () => {
+    it('should recover the EMI from the start month', () => {
+      expect(getDueEmi(loan(), 2, 2026)).toBeNull();
+      expect(getDueEmi(loan(), 3, 2026)).toEqual({ loanId: 'loan-1', amount: 10000, principal: 10000, interest: 0 });
+    });
+
+    it('should charge interest on the outstanding balance', () => {
+      const due = getDueEmi(loan({ type: 'loan', principal: 100000, interestRate: 12, emiAmount: 8885 }), 3, 2026);
+      expect(due).toEqual({ loanId: 'loan-1', amount: 8885, principal: 7885, interest: 1000 });
+    });
+
+    it('should cap the last EMI at the balance', () => {
+      const partlyPaid = loan({
+        transactions: [
+          ...loan().transactions,
+          transaction({ amount: 25000, principal: 25000, month: 3, year: 2026 }),
+        ],
+      });
+      expect(getDueEmi(partlyPaid, 4, 2026)?.amount).toBe(5000);
+    });
+
+    it('should not recover while paused, for a skipped month or twice in a month', () => {
+      expect(getDueEmi(loan({ paused: true }), 3, 2026)).toBeNull();
+      expect(getDueEmi(loan({ skippedMonths: [{ month: 3, year: 2026 }] }), 3, 2026)).toBeNull();
+      expect(getDueEmi(loan({ skippedMonths: [{ month: 3, year: 2026 }] }), 4, 2026)).not.toBeNull();
+
+      const recovered = loan({
+        transactions: [...loan().transactions, transaction({ amount: 10000, principal: 10000, month: 3, year: 2026 })],
+      });
+      expect(getDueEmi(recovered, 3, 2026)).toBeNull();
+    });
+
+    it('should not recover from a closed loan', () => {
+      expect(getDueEmi(loan({ status: 'closed' }), 3, 2026)).toBeNull();
+    });
+  });
+
+  describe('statement', () => {
+    it('should reduce the outstanding balance by EMIs and prepayments', () => {
+      const repaid = loan({
+        transactions: [
+          ...loan().transactions,
+          transaction({ amount: 10000, principal: 10000, month: 3, year: 2026 }),
+          transaction({ type: 'prepayment', amount: 5000, principal: 5000 }),
+        ],
+      });
+      expect(getOutstandingPrincipal(repaid)).toBe(15000);
+      expect(buildLedger(repaid).map((entry) => entry.balance)).toEqual([30000, 20000, 15000]);
+    });
+
+    it('should schedule from the month after the last EMI, leaving out skipped months', () => {
+      const repaid = loan({
+        skippedMonths: [{ month: 5, year: 2026 }],
+        transactions: [
+          ...loan().transactions,
+          transaction({ amount: 10000, principal: 10000, month: 3, year: 2026 }),
+          transaction({ type: 'prepayment', amount: 5000, principal: 5000 }),
+        ],
+      });
+      const schedule = buildSchedule(repaid);
+      expect(schedule.map((i) => [i.month, i.year, i.amount, i.balance])).toEqual([
+        [4, 2026, 10000, 5000],
+        [6, 2026, 5000, 0],
+      ]);
+    });
+
+    it('should roll the schedule into the next year', () => {
+      const schedule = buildSchedule(loan({ startMonth: 11, startYear: 2026 }));
+      expect(schedule.map((i) => `${i.month}/${i.year}`)).toEqual(['11/2026', '0/2027', '1/2027']);
+    });
+
+    it('should have no schedule once closed', () => {
+      expect(buildSchedule(loan({ status: 'closed' }))).toEqual([]);
+    });
+  });
+
+  describe('applyLoanRecoveries', () => {
+    it('should add the EMIs to deductions and take them out of net salary', () => {
+      const breakup = applyLoanRecoveries(
+        { basic: 25000, hra: 10000, special: 15000, totalDeductions: 2000, netSalary: 48000 },
+        [
+          { loanId: 'a', amount: 3000, principal: 3000, interest: 0 },
+          { loanId: 'b', amount: 1500, principal: 1200, interest: 300 },
+        ]
+      );
+      expect(breakup.loanRecovery).toBe(4500);
+      expect(breakup.totalDeductions).toBe(6500);
+      expect(breakup.netSalary).toBe(43500);
+    });
+  });
+
+  describe('capLoanRecoveries', () => {
+    it('should recover no more than net pay and carry the shortfall forward', () => {
+      const recoveries = [
+        { loanId: 'loan-1', amount: 10000, principal: 10000, interest: 0 },
+        { loanId: 'loan-2', amount: 2000, principal: 1500, interest: 500 },
+      ];
+      const capped = capLoanRecoveries(recoveries, 6000);
+      expect(capped).toEqual([{ loanId: 'loan-1', amount: 6000, principal: 6000, interest: 0 }]);
+
+      const breakup = applyLoanRecoveries(
+        { basic: 6000, hra: 0, special: 0, totalDeductions: 0, netSalary: 6000 },
+        capped
+      );
+      expect(breakup.netSalary).toBe(0);
+
+      const recovered = loan({
+        transactions: [
+          ...loan().transactions,
+          transaction({ amount: 6000, principal: 6000, month: 3, year: 2026 }),
+        ],
+      });
+      expect(getOutstandingPrincipal(recovered)).toBe(24000);
+      expect(getDueEmi(recovered, 4, 2026)?.amount).toBe(10000);
+    });
+
+    it('should take interest first from a partly recovered EMI', () => {
+      expect(capLoanRecoveries([{ loanId: 'a', amount: 2000, principal: 1500, interest: 500 }], 800)).toEqual([
+        { loanId: 'a', amount: 800, principal: 300, interest: 500 },
+      ]);
+      expect(capLoanRecoveries([{ loanId: 'a', amount: 2000, principal: 1500, interest: 500 }], -100)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Offline Punches Tests
+ *
+ * Tests for which device times an offline punch may be synced with, and which
+ * failed replays stay queued
+ */
+
+import {
+  OFFLINE_PUNCH_MAX_AGE_HOURS,
+  PUNCH_IN_PROGRESS_STATUS,
+  PUNCH_RESERVATION_LEASE_MS,
+  getPunchReservationState,
+  createQueuedPunch,
+  shouldRetryPunch,
+  validateOfflinePunchTime,
+} from '@/lib/offline-punches';
+
+const now = new Date('2026-04-10T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000);
+
+describe('validateOfflinePunchTime', () => {
+  it('accepts a punch from earlier within the allowed age', () => {
+    expect(validateOfflinePunchTime(minutesAgo(90), now)).toBeNull();
+    expect(validateOfflinePunchTime(minutesAgo(OFFLINE_PUNCH_MAX_AGE_HOURS * 60 - 1), now)).toBeNull();
+  });
+
+  it('tolerates a device clock running a few minutes ahead', () => {
+    expect(validateOfflinePunchTime(minutesAgo(-4), now)).toBeNull();
+    expect(validateOfflinePunchTime(minutesAgo(-10), now)).toMatch(/in the future/);
+  });
+
+  it('refuses punches too old to sync and invalid times', () => {
+    expect(validateOfflinePunchTime(minutesAgo(OFFLINE_PUNCH_MAX_AGE_HOURS * 60 + 1), now))
+      .toMatch(/regularization/);
+    expect(validateOfflinePunchTime(new Date('not a date'), now)).toBe('Invalid punch time');
+  });
+});
+
+describe('shouldRetryPunch', () => {
+  it('keeps punches that failed on the server or an expired sign-in', () => {
+    expect([401, 408, 429, 500, 503].every(shouldRetryPunch)).toBe(true);
+  });
+
+  it('keeps a punch another delivery is still applying', () => {
+    expect(shouldRetryPunch(PUNCH_IN_PROGRESS_STATUS)).toBe(true);
+  });
+
+  it('drops punches the server rejected', () => {
+    expect([400, 403, 404, 409].some(shouldRetryPunch)).toBe(false);
+  });
+});
+
+describe('getPunchReservationState', () => {
+  const reservation = (overrides: Partial<Parameters<typeof getPunchReservationState>[0]> = {}) => ({
+    employeeId: 'emp-1',
+    type: 'clock-in' as const,
+    recordId: null,
+    createdAt: minutesAgo(1),
+    ...overrides,
+  });
+
+  it('returns the record of a punch already applied', () => {
+    expect(getPunchReservationState(reservation({ recordId: 'rec-1' }), 'emp-1', 'clock-in', now)).toBe('applied');
+  });
+
+  it('waits for a delivery still within its lease', () => {
+    expect(getPunchReservationState(reservation(), 'emp-1', 'clock-in', now)).toBe('in-progress');
+  });
+
+  it('takes over a reservation left past its lease by a delivery that died', () => {
+    const stale = reservation({ createdAt: new Date(now.getTime() - PUNCH_RESERVATION_LEASE_MS - 1000) });
+    expect(getPunchReservationState(stale, 'emp-1', 'clock-in', now)).toBe('abandoned');
+    expect(getPunchReservationState({ ...stale, recordId: 'rec-1' }, 'emp-1', 'clock-in', now)).toBe('applied');
+  });
+
+  it('refuses a key used for a different punch', () => {
+    expect(getPunchReservationState(reservation(), 'emp-2', 'clock-in', now)).toBe('mismatch');
+    expect(getPunchReservationState(reservation(), 'emp-1', 'clock-out', now)).toBe('mismatch');
+  });
+});
+
+describe('createQueuedPunch', () => {
+  it('keeps the device time and gives each punch its own idempotency key', () => {
+    const data = { employeeId: 'emp-1', employeeName: 'Asha Rao', recordId: null, timestamp: minutesAgo(5) };
+    const first = createQueuedPunch('clock-in', data);
+    const second = createQueuedPunch('clock-in', data);
+
+    expect(first).toMatchObject({
+      type: 'clock-in',
+      employeeId: 'emp-1',
+      timestamp: '2026-04-10T11:55:00.000Z',
+      attempts: 0,
+    });
+    expect(first.id).not.toBe(second.id);
+  });
+});
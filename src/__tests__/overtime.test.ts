@@ -0,0 +1,91 @@
+/**
+ * Overtime Tests
+ *
+ * Tests for monthly overtime from attendance records, the pay for approved
+ * hours and how overtime counts towards gross and taxable salary
+ */
+
+import {
+  applyOvertime,
+  calculateOvertimePay,
+  DEFAULT_OVERTIME_MULTIPLIER,
+  getApprovedOvertime,
+  sumMonthlyOvertime,
+} from '@/lib/overtime';
+import { getEarnedGross } from '@/lib/statutory';
+import { toTaxableMonth } from '@/lib/tds';
+import { SalaryBreakup } from '@/types/payroll.types';
+
+const breakup: SalaryBreakup = {
+  basic: 20000,
+  hra: 8000,
+  special: 2000,
+  totalDeductions: 1800,
+  netSalary: 28200,
+};
+
+describe('sumMonthlyOvertime', () => {
+  it('sums overtime on records clocked in during the month', () => {
+    const records = [
+      { clockIn: new Date(2026, 3, 1, 9), overtimeHours: 1.5 },
+      { clockIn: new Date(2026, 3, 15, 9), overtimeHours: 2.25 },
+      { clockIn: new Date(2026, 3, 16, 9) },
+      { clockIn: new Date(2026, 4, 1, 9), overtimeHours: 4 },
+      { clockIn: new Date(2025, 3, 1, 9), overtimeHours: 4 },
+    ];
+    expect(sumMonthlyOvertime(records, 3, 2026)).toBe(3.75);
+  });
+
+  it('rounds to two decimals', () => {
+    const records = [0.1, 0.2, 0.3].map((overtimeHours) => ({ clockIn: new Date(2026, 0, 5), overtimeHours }));
+    expect(sumMonthlyOvertime(records, 0, 2026)).toBe(0.6);
+  });
+});
+
+describe('calculateOvertimePay', () => {
+  it('pays the multiplier on the hourly rate of a 26-day month of 8-hour days', () => {
+    // 41600 / 26 / 8 = 200 an hour
+    expect(calculateOvertimePay(41600, 5, 2)).toBe(2000);
+    expect(calculateOvertimePay(41600, 2.5, 1.5)).toBe(750);
+  });
+
+  it('is zero without hours', () => {
+    expect(calculateOvertimePay(41600, 0, 2)).toBe(0);
+  });
+});
+
+describe('getApprovedOvertime', () => {
+  it('uses the approved hours and the multiplier fixed on approval', () => {
+    expect(getApprovedOvertime({ status: 'approved', approvedHours: 6, multiplier: 1.5 }, 2)).toEqual({
+      hours: 6,
+      multiplier: 1.5,
+    });
+  });
+
+  it('is zero hours at the policy rate for pending, rejected or missing claims', () => {
+    expect(getApprovedOvertime({ status: 'pending', approvedHours: null, multiplier: null }, 1.75)).toEqual({
+      hours: 0,
+      multiplier: 1.75,
+    });
+    expect(getApprovedOvertime({ status: 'rejected', approvedHours: null, multiplier: null })).toEqual({
+      hours: 0,
+      multiplier: DEFAULT_OVERTIME_MULTIPLIER,
+    });
+    expect(getApprovedOvertime(null).hours).toBe(0);
+  });
+});
+
+describe('applyOvertime', () => {
+  it('adds to earnings and net pay without touching deductions', () => {
+    const result = applyOvertime(breakup, 1500);
+    expect(result.overtime).toBe(1500);
+    expect(result.netSalary).toBe(29700);
+    expect(result.totalDeductions).toBe(1800);
+  });
+
+  it('counts towards ESI wages and taxable salary', () => {
+    const result = applyOvertime(breakup, 1500);
+    expect(getEarnedGross(result)).toBe(31500);
+    expect(toTaxableMonth(result).special).toBe(3500);
+  });
+});
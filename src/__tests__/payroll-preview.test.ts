@@ -0,0 +1,144 @@
+/**
+ * Payroll Preview Tests
+ *
+ * Tests for the dry-run diff and outlier flags shown before slips are generated
+ */
+
+import {
+  buildPreviewRow,
+  diffSalaryBreakup,
+  getPreviousPeriod,
+  isOutlierFlag,
+} from '@/lib/payroll-preview';
+import { EmployeeSalary, SalaryBreakup, SalaryCalculationResult } from '@/types/payroll.types';
+
+const EMPLOYEE = { employeeId: 'emp-1', name: 'Asha Rao', employeeCode: 'JPCO001' };
+
+const ATTENDANCE = {
+  present: 24,
+  wfh: 0,
+  approvedLeave: 0,
+  unapprovedLeave: 0,
+  halfDay: 0,
+  holiday: 4,
+  paidLeave: 0,
+  leaveTaken: 0,
+  unpaidLeave: 0,
+  paidDays: 26,
+};
+
+function breakup(overrides: Partial<SalaryBreakup> = {}): SalaryBreakup {
+  return { basic: 10000, hra: 6000, special: 4000, totalDeductions: 0, netSalary: 20000, ...overrides };
+}
+
+function calculation(paidDays: number, salaryBreakup: SalaryBreakup): SalaryCalculationResult {
+  return {
+    attendanceBreakdown: { ...ATTENDANCE, paidDays },
+    salaryBreakup,
+    totalDaysInMonth: 30,
+    paidDays,
+  };
+}
+
+function previousSlip(paidDays: number, salaryBreakup: SalaryBreakup): EmployeeSalary {
+  return {
+    id: 'slip-1',
+    ...EMPLOYEE,
+    designation: 'Associate',
+    department: 'Audit',
+    doj: null,
+    pan: null,
+    grossSalary: 20000,
+    month: 0,
+    year: 2026,
+    totalDaysInMonth: 31,
+    paidDays,
+    attendanceBreakdown: { ...ATTENDANCE, paidDays },
+    salaryBreakup,
+    slipNumber: 'SAL-2026-01-JPCO001',
+    generatedBy: 'admin',
+    accessGranted: true,
+  };
+}
+
+describe('Payroll preview', () => {
+  describe('getPreviousPeriod', () => {
+    it('should step back one month', () => {
+      expect(getPreviousPeriod(5, 2026)).toEqual({ month: 4, year: 2026 });
+    });
+
+    it('should roll January back to December of the previous year', () => {
+      expect(getPreviousPeriod(0, 2026)).toEqual({ month: 11, year: 2025 });
+    });
+  });
+
+  describe('diffSalaryBreakup', () => {
+    it('should diff components in display order', () => {
+      const diffs = diffSalaryBreakup(breakup({ epf: 1800, netSalary: 18200 }), breakup());
+      expect(diffs.map((diff) => diff.key)).toEqual(['basic', 'hra', 'special', 'epf', 'totalDeductions', 'netSalary']);
+      expect(diffs.find((diff) => diff.key === 'epf')).toEqual({
+        key: 'epf', previous: 0, current: 1800, change: 1800, changePercent: null,
+      });
+      expect(diffs.find((diff) => diff.key === 'netSalary')?.changePercent).toBeCloseTo(-9);
+    });
+
+    it('should include components it does not know about', () => {
+      const current = { ...breakup(), bonus: 500 } as SalaryBreakup;
+      const diffs = diffSalaryBreakup(current, breakup());
+      expect(diffs[diffs.length - 1]).toMatchObject({ key: 'bonus', previous: 0, current: 500 });
+    });
+
+    it('should use null for a missing previous breakup', () => {
+      const [basic] = diffSalaryBreakup(breakup(), null);
+      expect(basic).toEqual({ key: 'basic', previous: null, current: 10000, change: 10000, changePercent: null });
+    });
+  });
+
+  describe('buildPreviewRow', () => {
+    it('should not flag a small change', () => {
+      const row = buildPreviewRow(
+        EMPLOYEE,
+        calculation(26, breakup({ netSalary: 21000 })),
+        previousSlip(26, breakup()),
+        20
+      );
+      expect(row.flags).toEqual([]);
+      expect(row.previousSlipId).toBe('slip-1');
+      expect(row.netSalary.changePercent).toBe(5);
+      expect(row.components.some((diff) => diff.key === 'netSalary')).toBe(false);
+    });
+
+    it('should flag net changes above the threshold', () => {
+      const row = buildPreviewRow(
+        EMPLOYEE,
+        calculation(26, breakup({ netSalary: 14000 })),
+        previousSlip(26, breakup()),
+        20
+      );
+      expect(row.flags).toEqual([{ type: 'net-change', message: 'Net salary down 30.0% from last month' }]);
+    });
+
+    it('should flag zero paid days and negative net salary', () => {
+      const row = buildPreviewRow(
+        EMPLOYEE,
+        calculation(0, breakup({ netSalary: -200 })),
+        previousSlip(26, breakup({ netSalary: -190 })),
+        20
+      );
+      expect(row.flags.map((flag) => flag.type)).toEqual(['zero-paid-days', 'negative-net']);
+    });
+
+    it('should mark employees without a previous slip as informational only', () => {
+      const row = buildPreviewRow(EMPLOYEE, calculation(26, breakup()), null, 20);
+      expect(row.flags.map((flag) => flag.type)).toEqual(['no-previous-slip']);
+      expect(row.flags.some(isOutlierFlag)).toBe(false);
+    });
+
+    it('should report calculation failures as the only flag', () => {
+      const row = buildPreviewRow(EMPLOYEE, null, previousSlip(26, breakup()), 20, 'Salary formula has errors');
+      expect(row.error).toBe('Salary formula has errors');
+      expect(row.flags).toEqual([{ type: 'calculation-failed', message: 'Salary formula has errors' }]);
+      expect(row.flags.some(isOutlierFlag)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Payroll Run Lifecycle Tests
+ *
+ * Tests for payroll run status transitions, approver recording, re-opening
+ * and the totals snapshot taken from a month's slips
+ */
+
+import {
+  canTransition,
+  createDraftRun,
+  getPayrollRunId,
+  isPayrollRunEditable,
+  isPayrollRunLocked,
+  summarizeSlips,
+  transitionRun,
+} from '@/lib/payroll-run';
+import { EmployeeSalary, SalaryBreakup } from '@/types/payroll.types';
+
+function slip(breakup: Partial<SalaryBreakup>): EmployeeSalary {
+  return {
+    employeeId: 'emp',
+    name: 'Employee',
+    employeeCode: 'E1',
+    designation: '',
+    department: '',
+    doj: null,
+    pan: null,
+    grossSalary: 50000,
+    month: 3,
+    year: 2026,
+    totalDaysInMonth: 30,
+    paidDays: 26,
+    attendanceBreakdown: {
+      present: 26, wfh: 0, approvedLeave: 0, unapprovedLeave: 0, halfDay: 0,
+      holiday: 4, paidLeave: 0, leaveTaken: 0, unpaidLeave: 0, paidDays: 26,
+    },
+    salaryBreakup: { basic: 0, hra: 0, special: 0, totalDeductions: 0, netSalary: 0, ...breakup },
+    slipNumber: 'SAL-202604-E1',
+    generatedBy: 'admin',
+    accessGranted: true,
+  };
+}
+
+const SLIPS = [
+  slip({ basic: 25000, hra: 10000, special: 15000, epf: 1800, tds: 1200, totalDeductions: 3000, netSalary: 47000 }),
+  slip({ basic: 10000, hra: 4000, special: 6000, loanRecovery: 2000, totalDeductions: 2000, netSalary: 18000 }),
+];
+const ADMIN = { uid: 'admin-1', name: 'Admin User' };
+const AT = '2026-05-01T10:00:00.000Z';
+
+describe('Payroll run lifecycle', () => {
+  it('should key runs by year and calendar month', () => {
+    expect(getPayrollRunId(3, 2026)).toBe('2026-04');
+    expect(getPayrollRunId(11, 2026)).toBe('2026-12');
+  });
+
+  it('should total the slips', () => {
+    expect(summarizeSlips(SLIPS)).toEqual({
+      employeeCount: 2,
+      grossEarnings: 70000,
+      totalDeductions: 5000,
+      netSalary: 65000,
+      epf: 1800,
+      esi: 0,
+      professionalTax: 0,
+      tds: 1200,
+      loanRecovery: 2000,
+    });
+  });
+
+  it('should move forward one step at a time', () => {
+    expect(canTransition('draft', 'review')).toBe(true);
+    expect(canTransition('draft', 'approve')).toBe(false);
+    expect(canTransition('reviewed', 'lock')).toBe(false);
+    expect(canTransition('locked', 'mark-paid')).toBe(true);
+    expect(canTransition('draft', 'reopen')).toBe(false);
+    expect(() => transitionRun(createDraftRun(3, 2026), 'lock', SLIPS, ADMIN, AT)).toThrow(
+      'Cannot lock a draft payroll run'
+    );
+  });
+
+  it('should record the reviewer and approver and snapshot totals', () => {
+    const reviewed = transitionRun(createDraftRun(3, 2026), 'review', SLIPS, { uid: 'mgr-1', name: 'Manager' }, AT);
+    const approved = transitionRun(reviewed, 'approve', SLIPS, ADMIN, AT);
+
+    expect(approved.status).toBe('approved');
+    expect(approved.reviewedByName).toBe('Manager');
+    expect(approved.approvedBy).toBe('admin-1');
+    expect(approved.approvedAt).toBe(AT);
+    expect(approved.totals.netSalary).toBe(65000);
+    expect(approved.history.map((e) => `${e.from}->${e.to}`)).toEqual(['draft->reviewed', 'reviewed->approved']);
+  });
+
+  it('should only treat locked and paid runs as locked', () => {
+    expect(isPayrollRunLocked('approved')).toBe(false);
+    expect(isPayrollRunLocked('locked')).toBe(true);
+    expect(isPayrollRunLocked('paid')).toBe(true);
+  });
+
+  it('should only let slips change while the run is a draft', () => {
+    expect(isPayrollRunEditable('draft')).toBe(true);
+    expect(isPayrollRunEditable('reviewed')).toBe(false);
+    expect(isPayrollRunEditable('approved')).toBe(false);
+    expect(isPayrollRunEditable('locked')).toBe(false);
+  });
+
+  it('should clear approval and keep the reason when re-opened', () => {
+    let run = createDraftRun(3, 2026);
+    for (const action of ['review', 'approve', 'lock', 'mark-paid'] as const) {
+      run = transitionRun(run, action, SLIPS, ADMIN, AT);
+    }
+    expect(run.status).toBe('paid');
+    expect(run.paidAt).toBe(AT);
+
+    const reopened = transitionRun(run, 'reopen', SLIPS, ADMIN, AT, 'Wrong TDS for two employees');
+    expect(reopened.status).toBe('draft');
+    expect(reopened.approvedBy).toBeNull();
+    expect(reopened.paidAt).toBeNull();
+    expect(reopened.history[reopened.history.length - 1]).toMatchObject({
+      action: 'reopen',
+      from: 'paid',
+      to: 'draft',
+      reason: 'Wrong TDS for two employees',
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Salary Component Tests
+ * Tests for working out catalogue earnings and deductions from an
+ * employee's salary structure and applying them to the slip
+ */
+
+import {
+  applySalaryComponents,
+  calculateComponentLines,
+  getComponentTotal,
+  validateSalaryComponent,
+} from '@/lib/salary-components';
+import { SalaryBreakup, SalaryComponent } from '@/types/payroll.types';
+
+function component(overrides: Partial<SalaryComponent> & Pick<SalaryComponent, 'key' | 'order'>): SalaryComponent {
+  return {
+    id: overrides.key,
+    name: overrides.key,
+    type: 'earning',
+    taxable: true,
+    calculation: 'fixed',
+    amount: 0,
+    percentage: null,
+    percentageOf: null,
+    formula: null,
+    prorate: false,
+    active: true,
+    createdAt: '2026-04-01T00:00:00.000Z',
+    updatedAt: '2026-04-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const CATALOGUE: SalaryComponent[] = [
+  component({ key: 'conveyance', name: 'Conveyance', order: 0, amount: 1600, taxable: false, prorate: true }),
+  component({ key: 'lta', name: 'LTA', order: 1, calculation: 'percentage', amount: null, percentage: 10, percentageOf: 'basic' }),
+  component({ key: 'meal', name: 'Meal Card', order: 2, calculation: 'formula', amount: null, formula: 'MIN(conveyance + lta, 2000)' }),
+  component({ key: 'canteen', name: 'Canteen', order: 3, type: 'deduction', taxable: false, amount: 500 }),
+];
+
+const BREAKUP: SalaryBreakup = { basic: 20000, hra: 8000, special: 12000, totalDeductions: 1800, netSalary: 38200 };
+
+function lines(structure: { key: string; value: number | null }[], breakup: SalaryBreakup = BREAKUP) {
+  return calculateComponentLines({
+    catalogue: CATALOGUE,
+    structure,
+    breakup,
+    grossSalary: 40000,
+    paidDays: 30,
+    totalDaysInMonth: 30,
+  });
+}
+
+describe('calculateComponentLines', () => {
+  it('should work out fixed, percentage and formula components in catalogue order', () => {
+    const result = lines([
+      { key: 'canteen', value: null },
+      { key: 'meal', value: null },
+      { key: 'lta', value: null },
+      { key: 'conveyance', value: null },
+    ]);
+
+    expect(result.map((line) => [line.key, line.amount])).toEqual([
+      ['conveyance', 1600],
+      ['lta', 2000],
+      ['meal', 2000],
+      ['canteen', 500],
+    ]);
+    expect(result[0].taxable).toBe(false);
+    expect(result[3]).toMatchObject({ type: 'deduction', taxable: false });
+  });
+
+  it('should only include components in the employee structure', () => {
+    expect(lines([{ key: 'lta', value: null }]).map((line) => line.key)).toEqual(['lta']);
+    expect(lines([])).toEqual([]);
+  });
+
+  it('should use the employee override in place of the catalogue amount or rate', () => {
+    const result = lines([
+      { key: 'conveyance', value: 1000 },
+      { key: 'lta', value: 5 },
+    ]);
+
+    expect(result.map((line) => line.amount)).toEqual([1000, 1000]);
+  });
+
+  it('should reduce prorated components for unpaid leave', () => {
+    const withLeave = { ...BREAKUP, leaveDeduction: 10000 };
+
+    expect(lines([{ key: 'conveyance', value: null }], withLeave)[0].amount).toBe(1200);
+  });
+
+  it('should skip inactive components and lines that work out to zero', () => {
+    const catalogue = [
+      component({ key: 'bonus', order: 0, amount: 1000, active: false }),
+      component({ key: 'uniform', order: 1, amount: 0 }),
+    ];
+
+    expect(calculateComponentLines({
+      catalogue,
+      structure: [{ key: 'bonus', value: null }, { key: 'uniform', value: null }],
+      breakup: BREAKUP,
+      grossSalary: 40000,
+      paidDays: 30,
+      totalDaysInMonth: 30,
+    })).toEqual([]);
+  });
+});
+
+describe('applySalaryComponents', () => {
+  it('should add earnings to net pay and take deductions off it', () => {
+    const result = applySalaryComponents(BREAKUP, lines([
+      { key: 'conveyance', value: null },
+      { key: 'canteen', value: null },
+    ]));
+
+    expect(result.totalDeductions).toBe(2300);
+    expect(result.netSalary).toBe(38200 + 1600 - 500);
+    expect(getComponentTotal(result, 'earning')).toBe(1600);
+    expect(getComponentTotal(result, 'earning', { taxableOnly: true })).toBe(0);
+    expect(getComponentTotal(result, 'deduction')).toBe(500);
+  });
+
+  it('should leave the breakup untouched without lines', () => {
+    expect(applySalaryComponents(BREAKUP, [])).toBe(BREAKUP);
+  });
+});
+
+describe('validateSalaryComponent', () => {
+  it('should accept the sample catalogue', () => {
+    CATALOGUE.forEach((entry) => {
+      expect(validateSalaryComponent(entry, CATALOGUE)).toEqual([]);
+    });
+  });
+
+  it('should reject keys used by the salary formula', () => {
+    expect(validateSalaryComponent(component({ key: 'basic', order: 9, amount: 10 }), CATALOGUE))
+      .toEqual(["'basic' is reserved for the salary formula"]);
+    expect(validateSalaryComponent(component({ key: 'Bad Key', order: 9, amount: 10 }), CATALOGUE)).toHaveLength(1);
+  });
+
+  it('should only let a component build on components above it', () => {
+    const early = component({
+      key: 'early', order: -1, calculation: 'percentage', amount: null, percentage: 50, percentageOf: 'lta',
+    });
+    expect(validateSalaryComponent(early, CATALOGUE)).toEqual([
+      'Percentage must be of the gross, basic, HRA, special allowance or a component above this one',
+    ]);
+
+    const formula = component({ key: 'early', order: -1, calculation: 'formula', amount: null, formula: 'meal * 2' });
+    expect(validateSalaryComponent(formula, CATALOGUE)[0]).toMatch(/meal/);
+  });
+});
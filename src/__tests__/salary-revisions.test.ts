@@ -0,0 +1,142 @@
+/**
+ * Salary Revision Tests
+ * Tests for the gross in force on a day, pro-rating a month across
+ * revisions and arrears on slips generated before a backdated revision
+ */
+
+import {
+  applyArrears,
+  calculateArrears,
+  getGrossOn,
+  getMonthlyGross,
+} from '@/lib/salary-revisions';
+import { EmployeeSalary, SalaryBreakup, SalaryRevision } from '@/types/payroll.types';
+
+function revision(effectiveDate: string, previousGrossSalary: number, grossSalary: number): SalaryRevision {
+  return {
+    id: `rev-${effectiveDate}`,
+    employeeId: 'emp-1',
+    effectiveDate,
+    grossSalary,
+    previousGrossSalary,
+    reason: 'Appraisal',
+    arrears: [],
+    arrearsPaidIn: null,
+    createdBy: 'admin',
+  };
+}
+
+function slip(month: number, year: number, grossSalary: number, breakup: Partial<SalaryBreakup> = {}): EmployeeSalary {
+  return {
+    id: `slip-${year}-${month}`,
+    employeeId: 'emp-1',
+    name: 'Asha Rao',
+    employeeCode: 'E001',
+    designation: 'Engineer',
+    department: 'Engineering',
+    doj: null,
+    pan: null,
+    grossSalary,
+    month,
+    year,
+    totalDaysInMonth: 30,
+    paidDays: 26,
+    attendanceBreakdown: {
+      present: 22, wfh: 0, approvedLeave: 0, unapprovedLeave: 0, halfDay: 0,
+      holiday: 8, paidLeave: 0, leaveTaken: 0, unpaidLeave: 0, paidDays: 26,
+    },
+    salaryBreakup: {
+      basic: grossSalary * 0.5,
+      hra: grossSalary * 0.2,
+      special: grossSalary * 0.3,
+      totalDeductions: 0,
+      netSalary: grossSalary,
+      ...breakup,
+    },
+    slipNumber: `SAL-${year}${String(month + 1).padStart(2, '0')}-E001`,
+    generatedBy: 'admin',
+    accessGranted: true,
+  };
+}
+
+describe('Gross on a day', () => {
+  const revisions = [revision('2026-04-01', 50000, 60000), revision('2026-07-16', 60000, 66000)];
+
+  it('should use the current gross when there are no revisions', () => {
+    expect(getGrossOn([], 45000, '2026-05-01')).toBe(45000);
+  });
+
+  it('should use the replaced gross before the first revision', () => {
+    expect(getGrossOn(revisions, 66000, '2026-03-31')).toBe(50000);
+  });
+
+  it('should use the latest revision in force', () => {
+    expect(getGrossOn(revisions, 66000, '2026-07-15')).toBe(60000);
+    expect(getGrossOn(revisions, 66000, '2026-07-16')).toBe(66000);
+  });
+});
+
+describe('Monthly gross', () => {
+  it('should pro-rate by day across a mid-month revision', () => {
+    // June has 30 days: 15 at 60,000 and 15 at 72,000
+    const { grossSalary, segments } = getMonthlyGross([revision('2026-06-16', 60000, 72000)], 72000, 5, 2026);
+
+    expect(grossSalary).toBe(66000);
+    expect(segments).toEqual([
+      { fromDay: 1, toDay: 15, grossSalary: 60000 },
+      { fromDay: 16, toDay: 30, grossSalary: 72000 },
+    ]);
+  });
+
+  it('should keep a single segment for a month without revisions', () => {
+    const { grossSalary, segments } = getMonthlyGross([revision('2026-04-01', 50000, 60000)], 60000, 5, 2026);
+
+    expect(grossSalary).toBe(60000);
+    expect(segments).toHaveLength(1);
+  });
+});
+
+describe('Arrears', () => {
+  it('should scale earned pay of each slip by the revision', () => {
+    const backdated = revision('2026-04-01', 50000, 60000);
+    const lines = calculateArrears(
+      [slip(4, 2026, 50000), slip(3, 2026, 50000, { leaveDeduction: 5000 })],
+      [],
+      [backdated],
+      50000
+    );
+
+    expect(lines.map((line) => [line.month, line.amount])).toEqual([
+      [3, 9000], // (50,000 - 5,000) × 20%
+      [4, 10000],
+    ]);
+    expect(lines[0]).toMatchObject({ previousGross: 50000, revisedGross: 60000, slipId: 'slip-2026-3' });
+  });
+
+  it('should only cover the days from a mid-month effective date', () => {
+    const lines = calculateArrears([slip(5, 2026, 60000)], [], [revision('2026-06-16', 60000, 72000)], 60000);
+
+    expect(lines).toEqual([expect.objectContaining({ revisedGross: 66000, amount: 6000 })]);
+  });
+
+  it('should add up arrears of successive backdated revisions against the gross paid', () => {
+    const first = revision('2026-04-01', 50000, 55000);
+    const second = revision('2026-04-01', 55000, 60000);
+    const paid = [slip(3, 2026, 50000)];
+
+    const firstLines = calculateArrears(paid, [], [first], 50000);
+    const secondLines = calculateArrears(paid, [first], [first, second], 50000);
+
+    expect(firstLines[0].amount + secondLines[0].amount).toBe(10000);
+  });
+
+  it('should skip months the revision does not change', () => {
+    expect(calculateArrears([slip(3, 2026, 50000)], [], [revision('2026-05-01', 50000, 60000)], 50000)).toEqual([]);
+  });
+
+  it('should add arrears to earnings and net pay', () => {
+    const breakup = applyArrears({ basic: 30000, hra: 12000, special: 18000, totalDeductions: 2000, netSalary: 58000 }, 9000);
+
+    expect(breakup).toMatchObject({ arrears: 9000, totalDeductions: 2000, netSalary: 67000 });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Shift Rotation Tests
+ *
+ * Tests for rotating shift patterns and the assignments generated from them,
+ * resolving an employee's shift on a day, the attendance day of punches on
+ * overnight shifts, and lateness and duration across midnight
+ */
+
+import {
+  buildShiftAssignments,
+  getRotationShiftId,
+  getShiftAttendanceDate,
+  resolveShiftForDay,
+} from '@/lib/shift-rotation';
+import { calculateOvertimeHours, calculateShiftDuration, isEarlyDeparture, isLate } from '@/utils/time-calculations';
+import { Shift, ShiftRotation } from '@/types/attendance.types';
+
+// Attendance days are IST calendar days
+const ist = (time: string, date: string) => new Date(`${date}T${time}:00+05:30`);
+
+function shift(id: string, startTime: string, endTime: string, overrides: Partial<Shift> = {}): Shift {
+  return {
+    id,
+    name: id,
+    startTime,
+    endTime,
+    daysOfWeek: [],
+    breakDuration: 0,
+    overtimeThreshold: 0,
+    color: '#3b82f6',
+    isActive: true,
+    assignedEmployees: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const day = shift('day', '09:00', '18:00', { assignedEmployees: ['emp-1'], daysOfWeek: [1, 2, 3, 4, 5] });
+const night = shift('night', '22:00', '06:00');
+
+// Sunday 2026-04-05 starts the cycle: weekdays on the day shift, Saturday on
+// in the first week and off in the second
+const WORK_WEEK = [null, 'day', 'day', 'day', 'day', 'day'];
+const alternateSaturdays: ShiftRotation = {
+  id: 'alt-sat',
+  name: 'Alternate Saturdays',
+  pattern: [...WORK_WEEK, 'day', ...WORK_WEEK, null],
+  startDate: '2026-04-05',
+  endDate: '2026-06-30',
+  employeeIds: ['emp-2', 'emp-3'],
+  isActive: true,
+  createdAt: '2026-04-01T00:00:00.000Z',
+  updatedAt: '2026-04-01T00:00:00.000Z',
+};
+
+describe('getRotationShiftId', () => {
+  it('should repeat the pattern from its start date', () => {
+    expect(getRotationShiftId(alternateSaturdays, '2026-04-11')).toBe('day');
+    expect(getRotationShiftId(alternateSaturdays, '2026-04-18')).toBeNull();
+    expect(getRotationShiftId(alternateSaturdays, '2026-04-25')).toBe('day');
+    expect(getRotationShiftId(alternateSaturdays, '2026-05-02')).toBeNull();
+  });
+
+  it('should not apply outside its dates', () => {
+    expect(getRotationShiftId(alternateSaturdays, '2026-04-04')).toBeUndefined();
+    expect(getRotationShiftId(alternateSaturdays, '2026-07-01')).toBeUndefined();
+  });
+});
+
+describe('buildShiftAssignments', () => {
+  it('should generate one assignment per employee and day, within the rotation', () => {
+    const assignments = buildShiftAssignments(alternateSaturdays, '2026-06-28', '2026-07-05', new Date('2026-06-01'));
+
+    expect(assignments.map((a) => a.id)).toEqual([
+      'emp-2_2026-06-28',
+      'emp-3_2026-06-28',
+      'emp-2_2026-06-29',
+      'emp-3_2026-06-29',
+      'emp-2_2026-06-30',
+      'emp-3_2026-06-30',
+    ]);
+    expect(assignments[2]).toMatchObject({ shiftId: 'day', rotationId: 'alt-sat', date: '2026-06-29' });
+  });
+});
+
+describe('resolveShiftForDay', () => {
+  const schedule = {
+    shifts: [day, night],
+    rotations: [alternateSaturdays],
+    assignments: [
+      {
+        id: 'emp-2_2026-04-13',
+        employeeId: 'emp-2',
+        date: '2026-04-13',
+        shiftId: 'night',
+        rotationId: null,
+        createdAt: '2026-04-01T00:00:00.000Z',
+        updatedAt: '2026-04-01T00:00:00.000Z',
+      },
+    ],
+  };
+
+  it('should prefer the assignment, then the rotation, then the weekly shift', () => {
+    expect(resolveShiftForDay(schedule, 'emp-2', '2026-04-13')).toBe(night);
+    expect(resolveShiftForDay(schedule, 'emp-2', '2026-04-11')).toBe(day);
+    expect(resolveShiftForDay(schedule, 'emp-1', '2026-04-13')).toBe(day);
+  });
+
+  it('should give no shift on a rotation day off, even with a weekly shift', () => {
+    const onBoth = { ...schedule, shifts: [{ ...day, assignedEmployees: ['emp-2'], daysOfWeek: [6] }, night] };
+    expect(resolveShiftForDay(onBoth, 'emp-2', '2026-04-18')).toBeNull();
+  });
+
+  it('should ignore inactive rotations', () => {
+    const inactive = { ...schedule, rotations: [{ ...alternateSaturdays, isActive: false }] };
+    expect(resolveShiftForDay(inactive, 'emp-2', '2026-04-11')).toBeNull();
+  });
+});
+
+describe('getShiftAttendanceDate', () => {
+  const nightsFrom = (first: string) => (date: string) => (date >= first ? night : null);
+
+  it('should count a night shift clocked into after midnight for the day it started', () => {
+    expect(getShiftAttendanceDate(ist('00:45', '2026-04-11'), nightsFrom('2026-04-10'))).toBe('2026-04-10');
+    expect(getShiftAttendanceDate(ist('21:30', '2026-04-10'), nightsFrom('2026-04-10'))).toBe('2026-04-10');
+  });
+
+  it('should count an early clock-in for a shift starting after midnight for that day', () => {
+    const lateNight = shift('late-night', '00:30', '08:30');
+    expect(getShiftAttendanceDate(ist('23:50', '2026-04-10'), () => lateNight)).toBe('2026-04-11');
+  });
+
+  it('should prefer the shift starting nearest the punch', () => {
+    const early = shift('early', '06:00', '14:00');
+    const shiftFor = (date: string) => (date === '2026-04-10' ? night : early);
+    expect(getShiftAttendanceDate(ist('05:30', '2026-04-11'), shiftFor)).toBe('2026-04-11');
+    expect(getShiftAttendanceDate(ist('03:00', '2026-04-11'), shiftFor)).toBe('2026-04-10');
+  });
+
+  it('should use the calendar day outside any shift', () => {
+    expect(getShiftAttendanceDate(ist('12:00', '2026-04-11'), () => null)).toBe('2026-04-11');
+  });
+});
+
+describe('overnight shift times', () => {
+  it('should measure a shift across midnight', () => {
+    expect(calculateShiftDuration({ startTime: '22:00', endTime: '06:00', breakDuration: 30 })).toBe(7.5);
+    expect(calculateShiftDuration({ startTime: '08:00', endTime: '08:00', breakDuration: 0 })).toBe(24);
+  });
+
+  it('should count overtime past an overnight shift', () => {
+    expect(calculateOvertimeHours(9, { ...night, overtimeThreshold: 30 })).toBe(0.5);
+  });
+
+  it('should flag lateness and early departure across midnight', () => {
+    const lateNight = { startTime: '23:30', endTime: '07:30' };
+    expect(isLate(new Date(2026, 3, 11, 0, 30), lateNight, 15)).toBe(true);
+    expect(isLate(new Date(2026, 3, 10, 23, 40), lateNight, 15)).toBe(false);
+    expect(isLate(new Date(2026, 3, 10, 23, 20), lateNight, 0)).toBe(false);
+    expect(isEarlyDeparture(new Date(2026, 3, 10, 23, 0), night)).toBe(true);
+    expect(isEarlyDeparture(new Date(2026, 3, 11, 6, 10), night)).toBe(false);
+  });
+
+  it('should not wrap around midnight on a day shift', () => {
+    expect(isLate(new Date(2026, 3, 10, 21, 30), day)).toBe(true);
+    expect(isLate(new Date(2026, 3, 10, 8, 55), day)).toBe(false);
+    expect(isEarlyDeparture(new Date(2026, 3, 10, 5, 0), day)).toBe(true);
+    expect(isEarlyDeparture(new Date(2026, 3, 10, 18, 5), day)).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Statutory Returns Tests
+ * Tests for EPF ECR lines and the ESI monthly contribution rows built from
+ * a month's slips, and the portal column rules they are checked against
+ */
+
+import * as XLSX from 'xlsx';
+import {
+  buildEcrFile,
+  buildEsiWorkbook,
+  ESI_RETURN_COLUMNS,
+  prepareEcr,
+  prepareEsiReturn,
+  StatutoryReturnInput,
+} from '@/lib/statutory-returns';
+import { EmployeeSalary, StatutoryBreakdown } from '@/types/payroll.types';
+
+function slip(overrides: Partial<EmployeeSalary> & { statutory: StatutoryBreakdown }): EmployeeSalary {
+  return {
+    id: 'slip-1',
+    employeeId: 'emp-1',
+    name: "Asha D'Souza",
+    employeeCode: 'E001',
+    designation: 'Engineer',
+    department: 'Engineering',
+    doj: null,
+    pan: null,
+    grossSalary: 20000,
+    month: 3,
+    year: 2026,
+    totalDaysInMonth: 30,
+    paidDays: 28,
+    attendanceBreakdown: {
+      present: 20, wfh: 0, approvedLeave: 0, unapprovedLeave: 2, halfDay: 0,
+      holiday: 8, paidLeave: 0, leaveTaken: 2, unpaidLeave: 2, paidDays: 28,
+    },
+    salaryBreakup: { basic: 9333, hra: 3733, special: 5601, totalDeductions: 0, netSalary: 18667 },
+    slipNumber: 'SAL-202604-E001',
+    generatedBy: 'admin',
+    accessGranted: true,
+    ...overrides,
+  };
+}
+
+const epfOnly: StatutoryBreakdown = {
+  epf: { wages: 9333, employee: 1120, employer: 1120, eps: 777 },
+  esi: null,
+  professionalTax: null,
+};
+
+const esiOnly: StatutoryBreakdown = {
+  epf: null,
+  esi: { wages: 18667, employee: 141, employer: 607 },
+  professionalTax: null,
+};
+
+function input(statutory: StatutoryBreakdown, ids: Partial<StatutoryReturnInput> = {}, overrides: Partial<EmployeeSalary> = {}): StatutoryReturnInput {
+  return { slip: slip({ statutory, ...overrides }), uan: '100200300400', esiIpNumber: '3100123456', ...ids };
+}
+
+describe('EPF ECR', () => {
+  it('should build an 11 field #~# line per member', () => {
+    const { rows, totals } = prepareEcr([input(epfOnly)]);
+
+    expect(buildEcrFile(rows)).toBe('100200300400#~#ASHA D SOUZA#~#18667#~#9333#~#9333#~#9333#~#1120#~#777#~#343#~#2#~#0');
+    expect(totals).toMatchObject({ memberCount: 1, wages: 9333, employeeContribution: 1120, employerContribution: 1120 });
+  });
+
+  it('should cap EPS and EDLI wages at the ceiling', () => {
+    const uncapped: StatutoryBreakdown = {
+      ...epfOnly,
+      epf: { wages: 30000, employee: 3600, employer: 3600, eps: 1250 },
+    };
+    const { rows } = prepareEcr([
+      input(uncapped, {}, { salaryBreakup: { basic: 30000, hra: 12000, special: 18000, totalDeductions: 0, netSalary: 56400 } }),
+    ]);
+
+    expect(rows[0]).toMatchObject({ epfWages: 30000, epsWages: 15000, edliWages: 15000, epfEpsDiff: 2350 });
+  });
+
+  it('should flag members without a UAN and leave out slips without EPF', () => {
+    const { rows, totals } = prepareEcr([input(epfOnly, { uan: null }), input(esiOnly)]);
+
+    expect(rows).toEqual([]);
+    expect(totals.memberCount).toBe(0);
+    expect(totals.issues).toEqual([expect.objectContaining({ employeeCode: 'E001', issue: 'No UAN on file' })]);
+  });
+
+  it('should flag lines that break the column rules', () => {
+    const { totals } = prepareEcr([
+      input(epfOnly, { uan: '12345' }),
+      input({ ...epfOnly, epf: { wages: 9333, employee: 900, employer: 1120, eps: 777 } }),
+    ]);
+
+    expect(totals.issues.map((issue) => issue.issue)).toEqual([
+      'UAN must be 12 digits',
+      'EPF contribution is below 12% of EPF wages',
+    ]);
+  });
+});
+
+describe('ESI monthly contribution', () => {
+  it('should build a row per IP with whole paid days', () => {
+    const { rows, totals } = prepareEsiReturn([input(esiOnly, {}, { paidDays: 27.5 }), input(epfOnly)]);
+
+    expect(rows).toEqual([
+      { ipNumber: '3100123456', ipName: 'Asha D Souza', paidDays: 28, wages: 18667, reasonCode: 0, lastWorkingDay: '' },
+    ]);
+    expect(totals).toMatchObject({ memberCount: 1, wages: 18667, employeeContribution: 141, employerContribution: 607 });
+  });
+
+  it('should flag IPs with a missing or malformed IP number', () => {
+    const { rows, totals } = prepareEsiReturn([input(esiOnly, { esiIpNumber: null }), input(esiOnly, { esiIpNumber: '31001' })]);
+
+    expect(rows).toEqual([]);
+    expect(totals.issues.map((issue) => issue.issue)).toEqual(['No ESIC IP number on file', 'IP number must be 10 digits']);
+  });
+
+  it('should write the ESIC template columns with IP numbers as text', () => {
+    const { rows } = prepareEsiReturn([input(esiOnly, { esiIpNumber: '0100123456' })]);
+    const workbook = XLSX.read(buildEsiWorkbook(rows), { type: 'buffer' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const data = XLSX.utils.sheet_to_json<(string | number)[]>(sheet, { header: 1 });
+
+    expect(data[0]).toEqual(ESI_RETURN_COLUMNS);
+    expect(data[1].slice(0, 5)).toEqual(['0100123456', 'Asha D Souza', 28, 18667, 0]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Statutory Deduction Tests
+ *
+ * Tests for EPF, ESI and Professional Tax calculations applied in
+ * payrollAdminService.calculateSalary
+ */
+
+import {
+  applyStatutoryDeductions,
+  calculateEpf,
+  calculateEsi,
+  calculateProfessionalTax,
+  calculateStatutoryDeductions,
+  getEsiContributionPeriodStart,
+} from '@/lib/statutory';
+import { applyArrears } from '@/lib/salary-revisions';
+import { DEFAULT_STATUTORY_SETTINGS, SalaryBreakup, StatutorySettings } from '@/types/payroll.types';
+
+const ENABLED: StatutorySettings = {
+  epf: { ...DEFAULT_STATUTORY_SETTINGS.epf, enabled: true },
+  esi: { ...DEFAULT_STATUTORY_SETTINGS.esi, enabled: true },
+  professionalTax: { ...DEFAULT_STATUTORY_SETTINGS.professionalTax, enabled: true },
+};
+
+function breakup(basic: number, hra: number, special: number): SalaryBreakup {
+  const gross = basic + hra + special;
+  return { basic, hra, special, totalDeductions: 0, netSalary: gross };
+}
+
+describe('Statutory deductions', () => {
+  describe('EPF', () => {
+    it('should contribute on PF wages below the ceiling', () => {
+      expect(calculateEpf(ENABLED.epf, breakup(10000, 4000, 2000))).toEqual({
+        wages: 10000, employee: 1200, employer: 1200, eps: 833,
+      });
+    });
+
+    it('should cap wages at the ceiling when restricted', () => {
+      expect(calculateEpf(ENABLED.epf, breakup(40000, 16000, 24000))).toEqual({
+        wages: 15000, employee: 1800, employer: 1800, eps: 1250,
+      });
+    });
+
+    it('should cap only EPS when contributing on full wages', () => {
+      const epf = calculateEpf({ ...ENABLED.epf, restrictToCeiling: false }, breakup(40000, 16000, 24000));
+      expect(epf).toEqual({ wages: 40000, employee: 4800, employer: 4800, eps: 1250 });
+    });
+
+    it('should include the configured wage components', () => {
+      const epf = calculateEpf({ ...ENABLED.epf, wageComponents: ['basic', 'special'] }, breakup(6000, 3000, 2000));
+      expect(epf?.wages).toBe(8000);
+    });
+  });
+
+  describe('ESI', () => {
+    it('should round contributions up to the rupee', () => {
+      expect(calculateEsi(ENABLED.esi, breakup(9000, 5400, 3650), 18050)).toEqual({
+        wages: 18050, employee: 136, employer: 587,
+      });
+    });
+
+    it('should not apply above the gross threshold', () => {
+      expect(calculateEsi(ENABLED.esi, breakup(11000, 6600, 4400), 22000)).toBeNull();
+    });
+
+    it('should keep covering an employee whose gross rose mid-period', () => {
+      expect(calculateEsi(ENABLED.esi, breakup(11000, 6600, 4400), 20000)?.wages).toBe(22000);
+    });
+
+    it('should map months to April and October contribution periods', () => {
+      expect(getEsiContributionPeriodStart(3, 2026)).toEqual({ month: 3, year: 2026 });
+      expect(getEsiContributionPeriodStart(8, 2026)).toEqual({ month: 3, year: 2026 });
+      expect(getEsiContributionPeriodStart(11, 2026)).toEqual({ month: 9, year: 2026 });
+      expect(getEsiContributionPeriodStart(1, 2027)).toEqual({ month: 9, year: 2026 });
+    });
+  });
+
+  describe('Professional Tax', () => {
+    const pt = ENABLED.professionalTax;
+
+    it('should apply Maharashtra slabs with the February balance', () => {
+      expect(calculateProfessionalTax(pt, breakup(4000, 2000, 1000), 'MH', 5)).toEqual({ state: 'MH', amount: 0 });
+      expect(calculateProfessionalTax(pt, breakup(4500, 2500, 1500), 'MH', 5)).toEqual({ state: 'MH', amount: 175 });
+      expect(calculateProfessionalTax(pt, breakup(10000, 6000, 4000), 'MH', 5)).toEqual({ state: 'MH', amount: 200 });
+      expect(calculateProfessionalTax(pt, breakup(10000, 6000, 4000), 'MH', 1)).toEqual({ state: 'MH', amount: 300 });
+    });
+
+    it('should apply Karnataka and Gujarat thresholds', () => {
+      expect(calculateProfessionalTax(pt, breakup(12000, 7000, 5000), 'KA', 5)?.amount).toBe(0);
+      expect(calculateProfessionalTax(pt, breakup(12500, 7500, 5000), 'KA', 5)?.amount).toBe(200);
+      expect(calculateProfessionalTax(pt, breakup(6000, 3600, 2400), 'GJ', 5)?.amount).toBe(200);
+    });
+
+    it('should fall back to the default state', () => {
+      expect(calculateProfessionalTax(pt, breakup(10000, 6000, 4000), null, 5)?.state).toBe('MH');
+    });
+
+    it('should skip states without monthly PT', () => {
+      expect(calculateProfessionalTax(pt, breakup(10000, 6000, 4000), 'DL', 5)).toBeNull();
+    });
+  });
+
+  describe('applying to the breakup', () => {
+    it('should only compute enabled deductions', () => {
+      const statutory = calculateStatutoryDeductions({
+        settings: { ...ENABLED, esi: DEFAULT_STATUTORY_SETTINGS.esi },
+        breakup: breakup(10000, 6000, 4000),
+        month: 5,
+        ptState: 'MH',
+        esiCoverageGross: 20000,
+      });
+      expect(statutory.esi).toBeNull();
+      expect(statutory.epf?.employee).toBe(1200);
+      expect(statutory.professionalTax?.amount).toBe(200);
+    });
+
+    it('should add employee shares to deductions and reduce net salary', () => {
+      const base = { ...breakup(8000, 4800, 3200), totalDeductions: 500, netSalary: 15500, leaveDeduction: 500 };
+      const statutory = calculateStatutoryDeductions({
+        settings: ENABLED,
+        breakup: base,
+        month: 5,
+        ptState: 'MH',
+        esiCoverageGross: 16000,
+      });
+      const result = applyStatutoryDeductions(base, statutory);
+
+      expect(result.epf).toBe(960);
+      expect(result.esi).toBe(120);
+      expect(result.professionalTax).toBe(200);
+      expect(result.totalDeductions).toBe(500 + 960 + 120 + 200);
+      expect(result.netSalary).toBe(15500 - 960 - 120 - 200);
+      expect(result.leaveDeduction).toBe(500);
+    });
+
+    it('should count arrears of a basic revision as PF and ESI wages', () => {
+      // a 20% revision backdated one month pays 3,200 of arrears on a 16,000 structure
+      const base = applyArrears(breakup(10000, 4000, 2000), 3200);
+      const statutory = calculateStatutoryDeductions({
+        settings: ENABLED,
+        breakup: base,
+        month: 5,
+        ptState: 'MH',
+        esiCoverageGross: 16000,
+      });
+
+      expect(statutory.epf).toEqual({ wages: 12000, employee: 1440, employer: 1440, eps: 1000 });
+      expect(statutory.esi).toEqual({ wages: 19200, employee: 144, employer: 624 });
+      expect(applyStatutoryDeductions(base, statutory).netSalary).toBe(19200 - 1440 - 144 - 200);
+    });
+
+    it('should leave components that do not apply unset', () => {
+      const base = breakup(20000, 12000, 8000);
+      const result = applyStatutoryDeductions(base, { epf: null, esi: null, professionalTax: null });
+      expect(result).toEqual(base);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * TDS Projection Tests
+ *
+ * Tests for annual tax projection under the old and new regimes and the
+ * monthly TDS spread used by payrollAdminService.calculateSalary
+ */
+
+import {
+  calculateHraExemption,
+  formatFinancialYear,
+  getFinancialYear,
+  getOneOffEarnings,
+  getRemainingMonthsInFinancialYear,
+  projectTds,
+  TaxableMonth,
+  toProjectedMonth,
+} from '@/lib/tds';
+import { SalaryBreakup, TaxDeclaration } from '@/types/payroll.types';
+
+function month(gross: number, overrides: Partial<TaxableMonth> = {}): TaxableMonth {
+  return { basic: gross * 0.5, hra: gross * 0.2, special: gross * 0.3, epf: 0, professionalTax: 0, tds: 0, ...overrides };
+}
+
+function declaration(overrides: Partial<TaxDeclaration> = {}): TaxDeclaration {
+  return {
+    employeeId: 'emp-1',
+    financialYear: 2026,
+    regime: 'old',
+    section80C: 0,
+    section80D: 0,
+    metroCity: false,
+    rentReceipts: [],
+    ...overrides,
+  };
+}
+
+function projectAnnual(annualGross: number, decl: TaxDeclaration | null = null) {
+  return projectTds({
+    financialYear: 2026,
+    paid: [],
+    projectedMonth: month(annualGross / 12),
+    monthsRemaining: 12,
+    declaration: decl,
+  });
+}
+
+describe('TDS projection', () => {
+  describe('financial year helpers', () => {
+    it('should start the financial year in April', () => {
+      expect(getFinancialYear(3, 2026)).toBe(2026);
+      expect(getFinancialYear(2, 2027)).toBe(2026);
+      expect(formatFinancialYear(2026)).toBe('2026-27');
+      expect(formatFinancialYear(2099)).toBe('2099-00');
+    });
+
+    it('should count remaining months through March', () => {
+      expect(getRemainingMonthsInFinancialYear(3)).toBe(12);
+      expect(getRemainingMonthsInFinancialYear(11)).toBe(4);
+      expect(getRemainingMonthsInFinancialYear(2)).toBe(1);
+    });
+  });
+
+  describe('new regime', () => {
+    it('should be the default without a declaration', () => {
+      expect(projectAnnual(1200000).regime).toBe('new');
+    });
+
+    it('should owe nothing up to the rebate limit', () => {
+      const projection = projectAnnual(1275000);
+      expect(projection.taxableIncome).toBe(1200000);
+      expect(projection.taxOnIncome).toBe(60000);
+      expect(projection.rebate).toBe(60000);
+      expect(projection.annualTax).toBe(0);
+    });
+
+    it('should apply marginal relief just above the rebate limit', () => {
+      const projection = projectAnnual(1285000);
+      expect(projection.taxOnIncome).toBe(61500);
+      expect(projection.annualTax).toBe(10400);
+    });
+
+    it('should apply slabs and cess', () => {
+      const projection = projectAnnual(1875000);
+      expect(projection.taxableIncome).toBe(1800000);
+      expect(projection.annualTax).toBe(166400);
+    });
+
+    it('should add surcharge above 50 lakh', () => {
+      const projection = projectAnnual(6075000);
+      expect(projection.surcharge).toBe(138000);
+      expect(projection.annualTax).toBe(1578720);
+    });
+
+    it('should ignore old-regime deductions', () => {
+      const projection = projectAnnual(1875000, declaration({ regime: 'new', section80C: 150000, section80D: 25000 }));
+      expect(projection.section80C).toBe(0);
+      expect(projection.annualTax).toBe(166400);
+    });
+  });
+
+  describe('old regime', () => {
+    const OLD_DECLARATION = declaration({
+      section80C: 100000,
+      section80D: 25000,
+      metroCity: true,
+      rentReceipts: Array.from({ length: 12 }, (_, i) => ({
+        month: (i + 3) % 12,
+        year: i < 9 ? 2026 : 2027,
+        amount: 25000,
+      })),
+    });
+    const SALARY = { basic: 50000, hra: 20000, special: 30000, epf: 1800, professionalTax: 200, tds: 0 };
+
+    it('should apply HRA, 80C with EPF, 80D and professional tax', () => {
+      const projection = projectTds({
+        financialYear: 2026,
+        paid: [],
+        projectedMonth: SALARY,
+        monthsRemaining: 12,
+        declaration: OLD_DECLARATION,
+      });
+
+      expect(projection.hraExemption).toBe(240000);
+      expect(projection.section80C).toBe(121600);
+      expect(projection.section80D).toBe(25000);
+      expect(projection.professionalTax).toBe(2400);
+      expect(projection.taxableIncome).toBe(761000);
+      expect(projection.annualTax).toBe(67288);
+      expect(projection.otherRegimeTax).toBe(0);
+    });
+
+    it('should spread the balance over the remaining months', () => {
+      const paid = [1, 2, 3].map(() => ({ ...SALARY, tds: 5000 }));
+      const projection = projectTds({
+        financialYear: 2026,
+        paid,
+        projectedMonth: SALARY,
+        monthsRemaining: 9,
+        declaration: OLD_DECLARATION,
+      });
+
+      expect(projection.monthsPaid).toBe(3);
+      expect(projection.actualGross).toBe(300000);
+      expect(projection.projectedGross).toBe(900000);
+      expect(projection.taxDeducted).toBe(15000);
+      expect(projection.monthlyTds).toBe(5810);
+    });
+
+    it('should not go negative when more tax was deducted than owed', () => {
+      const projection = projectTds({
+        financialYear: 2026,
+        paid: [{ ...SALARY, tds: 100000 }],
+        projectedMonth: SALARY,
+        monthsRemaining: 11,
+        declaration: OLD_DECLARATION,
+      });
+      expect(projection.monthlyTds).toBe(0);
+    });
+  });
+
+  describe('one-off earnings', () => {
+    const BREAKUP: SalaryBreakup = { basic: 50000, hra: 20000, special: 30000, totalDeductions: 0, netSalary: 100000 };
+
+    function projectMonth(breakup: SalaryBreakup) {
+      return projectTds({
+        financialYear: 2026,
+        paid: [],
+        projectedMonth: toProjectedMonth(breakup),
+        monthsRemaining: 12,
+        declaration: null,
+        oneOffEarnings: getOneOffEarnings(breakup),
+      });
+    }
+
+    it('should count one month of arrears once, not every remaining month', () => {
+      const regular = projectMonth(BREAKUP);
+      const withArrears = projectMonth({ ...BREAKUP, arrears: 60000, netSalary: 160000 });
+
+      expect(withArrears.taxableIncome - regular.taxableIncome).toBe(60000);
+      expect(withArrears.actualGross).toBe(60000);
+      expect(withArrears.projectedGross).toBe(regular.projectedGross);
+    });
+
+    it('should count overtime only in the month it is paid', () => {
+      const regular = projectMonth(BREAKUP);
+      const withOvertime = projectMonth({ ...BREAKUP, overtime: 12000, netSalary: 112000 });
+
+      expect(withOvertime.taxableIncome - regular.taxableIncome).toBe(12000);
+      expect(withOvertime.projectedGross).toBe(regular.projectedGross);
+    });
+  });
+
+  describe('HRA exemption', () => {
+    it('should take the least of the three limits', () => {
+      expect(calculateHraExemption(600000, 240000, 300000, true)).toBe(240000);
+      expect(calculateHraExemption(600000, 240000, 150000, true)).toBe(90000);
+      expect(calculateHraExemption(300000, 240000, 300000, false)).toBe(120000);
+    });
+
+    it('should be zero without rent', () => {
+      expect(calculateHraExemption(600000, 240000, 0, true)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { useEnhancedAuth } from '@/contexts/enhanced-auth.context';
+import { TeamAttendanceOverview } from '@/components/attendance/TeamAttendanceOverview';
+import { attendanceAlertService } from '@/services/attendance-alert.service';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import {
+  AlertSeverity,
+  AlertType,
+  AttendanceAlert,
+  PunctualityReportRow,
+  TeamMemberAttendanceStatus,
+} from '@/types/attendance.types';
+import { MONTHS } from '@/types/roster.types';
+
+const ALERT_LABELS: Record<AlertType, string> = {
+  late: 'Late',
+  'early-departure': 'Early departure',
+  'missing-clockout': 'Missing clock-out',
+  'excessive-break': 'Long break',
+  overtime: 'Overtime',
+};
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  low: 'bg-gray-100 text-gray-800',
+  medium: 'bg-orange-100 text-orange-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white text-sm';
+
+export default function AttendanceAlertsPage() {
+  const { isAdmin } = useEnhancedAuth();
+  const now = new Date();
+
+  const [tab, setTab] = useState<'day' | 'punctuality'>('day');
+
+  const [date, setDate] = useState(toAttendanceDate(now));
+  const [team, setTeam] = useState<TeamMemberAttendanceStatus[]>([]);
+  const [alerts, setAlerts] = useState<AttendanceAlert[]>([]);
+  const [selectedEmployeeId, setSelectedEmployeeId] = useState<string | null>(null);
+  const [loadingDay, setLoadingDay] = useState(true);
+  const [checking, setChecking] = useState(false);
+
+  const [month, setMonth] = useState(now.getMonth());
+  const [year, setYear] = useState(now.getFullYear());
+  const [report, setReport] = useState<PunctualityReportRow[]>([]);
+  const [loadingReport, setLoadingReport] = useState(false);
+
+  useEffect(() => {
+    if (tab === 'day') fetchDay();
+  }, [tab, date]);
+
+  useEffect(() => {
+    if (tab === 'punctuality') fetchReport();
+  }, [tab, month, year]);
+
+  const fetchDay = async () => {
+    setLoadingDay(true);
+    setSelectedEmployeeId(null);
+    try {
+      const [teamData, alertData] = await Promise.all([
+        attendanceAlertService.getTeamStatus(date),
+        attendanceAlertService.getAlerts(date, date, 'team'),
+      ]);
+      if (!teamData || !alertData) {
+        toast.error('Failed to load team attendance');
+        return;
+      }
+      setTeam(teamData);
+      setAlerts(alertData);
+    } finally {
+      setLoadingDay(false);
+    }
+  };
+
+  const fetchReport = async () => {
+    setLoadingReport(true);
+    try {
+      const data = await attendanceAlertService.getPunctualityReport(month, year);
+      if (!data) {
+        toast.error('Failed to load the punctuality report');
+        return;
+      }
+      setReport(data);
+    } finally {
+      setLoadingReport(false);
+    }
+  };
+
+  const handleCheckNow = async () => {
+    setChecking(true);
+    try {
+      const created = await attendanceAlertService.evaluateAlerts();
+      toast.success(created === 0 ? 'No new alerts' : `${created} new alert${created === 1 ? '' : 's'}`);
+      fetchDay();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to check attendance');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const shownAlerts = selectedEmployeeId
+    ? alerts.filter((alert) => alert.employeeId === selectedEmployeeId)
+    : alerts;
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="mb-4 sm:mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Attendance Alerts</h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Late arrivals, early departures, missing clock-outs, long breaks and overtime, checked hourly against
+            each employee&apos;s shift and the attendance policy.
+          </p>
+        </div>
+        {isAdmin && tab === 'day' && (
+          <button
+            onClick={handleCheckNow}
+            disabled={checking}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+          >
+            {checking ? 'Checking...' : 'Check Now'}
+          </button>
+        )}
+      </div>
+
+      {/* Tabs */}
+      <div className="mb-4 sm:mb-6 flex gap-2">
+        {([['day', 'Daily'], ['punctuality', 'Monthly Punctuality']] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`px-3 py-1.5 sm:px-4 sm:py-2 rounded-lg font-medium transition-colors text-xs sm:text-base whitespace-nowrap ${
+              tab === value
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'day' ? (
+        <div className="space-y-4">
+          <input
+            type="date"
+            value={date}
+            max={toAttendanceDate(now)}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className={inputClass}
+          />
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+            <TeamAttendanceOverview
+              teamMembers={team}
+              alerts={alerts}
+              loading={loadingDay}
+              onEmployeeClick={(employeeId) =>
+                setSelectedEmployeeId(selectedEmployeeId === employeeId ? null : employeeId)
+              }
+            />
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden self-start">
+              <div className="px-4 sm:px-6 py-3 flex items-center justify-between border-b border-gray-200 dark:border-gray-700">
+                <h2 className="font-semibold text-gray-900 dark:text-white">
+                  {selectedEmployeeId
+                    ? `Alerts for ${team.find((m) => m.employeeId === selectedEmployeeId)?.employeeName ?? 'employee'}`
+                    : 'Alerts'}
+                </h2>
+                {selectedEmployeeId && (
+                  <button onClick={() => setSelectedEmployeeId(null)} className="text-sm text-blue-600 hover:underline">
+                    Show all
+                  </button>
+                )}
+              </div>
+              {loadingDay ? null : shownAlerts.length === 0 ? (
+                <div className="p-8 text-center text-gray-500">No alerts for this day</div>
+              ) : (
+                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {shownAlerts.map((alert) => (
+                    <div key={alert.id} className="p-4 sm:px-6 flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900 dark:text-white">
+                          {alert.employeeName} · {ALERT_LABELS[alert.type]}
+                        </div>
+                        <div className="text-sm text-gray-600 dark:text-gray-400">{alert.message}</div>
+                      </div>
+                      <span
+                        className={`inline-block px-2 py-1 text-xs font-medium rounded-full ${SEVERITY_COLORS[alert.severity]}`}
+                      >
+                        {alert.severity}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <select value={month} onChange={(e) => setMonth(Number(e.target.value))} className={inputClass}>
+              {MONTHS.map((name, index) => (
+                <option key={name} value={index}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <select value={year} onChange={(e) => setYear(Number(e.target.value))} className={inputClass}>
+              {[0, 1, 2].map((offset) => now.getFullYear() - offset).map((y) => (
+                <option key={y} value={y}>
+                  {y}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+            {loadingReport ? (
+              <div className="p-8 text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+              </div>
+            ) : report.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No attendance for {MONTHS[month]} {year}</div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    {['Employee', 'Days Present', 'Late Days', 'Avg. Late', 'Early Departures', 'Missing Clock-outs', 'Long Breaks', 'Overtime Days', 'Punctuality'].map((heading) => (
+                      <th
+                        key={heading}
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase whitespace-nowrap"
+                      >
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                  {report.map((row) => (
+                    <tr key={row.employeeId}>
+                      <td className="px-4 py-3 font-medium whitespace-nowrap">{row.employeeName}</td>
+                      <td className="px-4 py-3">{row.daysPresent}</td>
+                      <td className="px-4 py-3">{row.lateDays}</td>
+                      <td className="px-4 py-3">{row.lateDays > 0 ? `${row.averageLateMinutes} min` : '-'}</td>
+                      <td className="px-4 py-3">{row.earlyDepartures}</td>
+                      <td className="px-4 py-3">{row.missingClockOuts}</td>
+                      <td className="px-4 py-3">{row.excessiveBreaks}</td>
+                      <td className="px-4 py-3">{row.overtimeDays}</td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`font-medium ${
+                            row.punctualityRate >= 90 ? 'text-green-600' : row.punctualityRate >= 75 ? 'text-orange-600' : 'text-red-600'
+                          }`}
+                        >
+                          {row.punctualityRate}%
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,600 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { useEnhancedAuth } from '@/contexts/enhanced-auth.context';
+import { attendancePolicyService } from '@/services/attendance-policy.service';
+import { authenticatedFetch } from '@/lib/api-client';
+import { DEFAULT_ATTENDANCE_POLICY, POLICY_SCOPE_LABELS } from '@/lib/attendance-policy';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import {
+  AttendancePolicy,
+  AttendancePolicyAssignment,
+  AttendancePolicyFormData,
+  PolicyAssignmentFormData,
+  PolicyAssignmentScope,
+  ResolvedAttendancePolicy,
+} from '@/types/attendance.types';
+import { ManagerHierarchy } from '@/types/manager-hierarchy.types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface UserOption {
+  uid: string;
+  name: string;
+}
+
+const EMPTY_POLICY: AttendancePolicyFormData & { isActive: boolean } = {
+  name: '',
+  graceMinutes: DEFAULT_ATTENDANCE_POLICY.graceMinutes,
+  maxBreakMinutes: DEFAULT_ATTENDANCE_POLICY.maxBreakMinutes,
+  autoClockOutTime: DEFAULT_ATTENDANCE_POLICY.autoClockOutTime,
+  geolocationRequired: DEFAULT_ATTENDANCE_POLICY.geolocationRequired,
+  geolocationRadius: DEFAULT_ATTENDANCE_POLICY.geolocationRadius,
+  overtimeMultiplier: DEFAULT_ATTENDANCE_POLICY.overtimeMultiplier,
+  minDailyHours: DEFAULT_ATTENDANCE_POLICY.minDailyHours,
+  maxDailyHours: DEFAULT_ATTENDANCE_POLICY.maxDailyHours,
+  weeklyOffDays: DEFAULT_ATTENDANCE_POLICY.weeklyOffDays,
+  compOffExpiryDays: DEFAULT_ATTENDANCE_POLICY.compOffExpiryDays,
+  isActive: true,
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white';
+
+const labelClass = 'block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1';
+
+function describePolicy(policy: Omit<AttendancePolicyFormData, 'name'>): string {
+  const weeklyOff = policy.weeklyOffDays.length > 0 ? policy.weeklyOffDays.map((day) => WEEKDAYS[day]).join('/') : 'none';
+  return [
+    `Grace ${policy.graceMinutes} min`,
+    `breaks ${policy.maxBreakMinutes || 'unlimited'}${policy.maxBreakMinutes ? ' min' : ''}`,
+    `auto clock-out ${policy.autoClockOutTime}`,
+    `${policy.minDailyHours || 0}-${policy.maxDailyHours || 24} h/day`,
+    `OT ${policy.overtimeMultiplier}x`,
+    `weekly off ${weeklyOff}`,
+    `comp-off valid ${policy.compOffExpiryDays} days`,
+    policy.geolocationRequired ? `geofence ${policy.geolocationRadius} m` : 'no geofence',
+  ].join(' · ');
+}
+
+export default function AttendancePoliciesPage() {
+  const { isAdmin } = useEnhancedAuth();
+
+  const [policies, setPolicies] = useState<AttendancePolicy[]>([]);
+  const [assignments, setAssignments] = useState<AttendancePolicyAssignment[]>([]);
+  const [teams, setTeams] = useState<ManagerHierarchy[]>([]);
+  const [employees, setEmployees] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [editing, setEditing] = useState<AttendancePolicy | 'new' | null>(null);
+  const [policyForm, setPolicyForm] = useState(EMPTY_POLICY);
+  const [assigning, setAssigning] = useState(false);
+  const [assignmentForm, setAssignmentForm] = useState<PolicyAssignmentFormData>({
+    policyId: '',
+    scope: 'company',
+    targetId: null,
+    effectiveFrom: toAttendanceDate(new Date()),
+    effectiveTo: null,
+  });
+  const [saving, setSaving] = useState(false);
+
+  const [lookupEmployeeId, setLookupEmployeeId] = useState('');
+  const [lookupDate, setLookupDate] = useState(toAttendanceDate(new Date()));
+  const [resolved, setResolved] = useState<ResolvedAttendancePolicy | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [policyData, assignmentData, hierarchiesRes, usersRes] = await Promise.all([
+        attendancePolicyService.getPolicies(),
+        attendancePolicyService.getAssignments(),
+        authenticatedFetch('/api/manager-hierarchy'),
+        authenticatedFetch('/api/admin/users'),
+      ]);
+      if (!policyData || !assignmentData) {
+        toast.error('Failed to load attendance policies');
+        return;
+      }
+      setPolicies(policyData);
+      setAssignments(assignmentData);
+      if (hierarchiesRes.ok) {
+        setTeams(await hierarchiesRes.json());
+      }
+      if (usersRes.ok) {
+        const users = await usersRes.json();
+        setEmployees(
+          users
+            .map((u: any) => ({ uid: u.uid, name: u.displayName || u.name || u.email }))
+            .sort((a: UserOption, b: UserOption) => a.name.localeCompare(b.name))
+        );
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openPolicyForm = (policy: AttendancePolicy | 'new') => {
+    setEditing(policy);
+    setPolicyForm(
+      policy === 'new'
+        ? EMPTY_POLICY
+        : {
+            name: policy.name,
+            graceMinutes: policy.graceMinutes,
+            maxBreakMinutes: policy.maxBreakMinutes,
+            autoClockOutTime: policy.autoClockOutTime,
+            geolocationRequired: policy.geolocationRequired,
+            geolocationRadius: policy.geolocationRadius,
+            overtimeMultiplier: policy.overtimeMultiplier,
+            minDailyHours: policy.minDailyHours,
+            maxDailyHours: policy.maxDailyHours,
+            weeklyOffDays: policy.weeklyOffDays ?? DEFAULT_ATTENDANCE_POLICY.weeklyOffDays,
+            compOffExpiryDays: policy.compOffExpiryDays ?? DEFAULT_ATTENDANCE_POLICY.compOffExpiryDays,
+            isActive: policy.isActive,
+          }
+    );
+  };
+
+  const toggleWeeklyOff = (day: number) => {
+    setPolicyForm((f) => ({
+      ...f,
+      weeklyOffDays: f.weeklyOffDays.includes(day)
+        ? f.weeklyOffDays.filter((d) => d !== day)
+        : [...f.weeklyOffDays, day].sort(),
+    }));
+  };
+
+  const handleSavePolicy = async () => {
+    if (!policyForm.name.trim()) {
+      toast.error('Please enter a policy name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const data = { ...policyForm, name: policyForm.name.trim() };
+      if (editing === 'new') {
+        await attendancePolicyService.createPolicy(data);
+        toast.success('Policy created');
+      } else if (editing) {
+        await attendancePolicyService.updatePolicy(editing.id, data);
+        toast.success('Policy updated');
+      }
+      setEditing(null);
+      fetchData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePolicy = async (policy: AttendancePolicy) => {
+    if (!confirm(`Delete ${policy.name}?`)) return;
+    try {
+      await attendancePolicyService.deletePolicy(policy.id);
+      toast.success('Policy deleted');
+      fetchData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete policy');
+    }
+  };
+
+  const handleSaveAssignment = async () => {
+    if (!assignmentForm.policyId) {
+      toast.error('Please select a policy');
+      return;
+    }
+    if (assignmentForm.scope !== 'company' && !assignmentForm.targetId) {
+      toast.error(`Please select the ${assignmentForm.scope}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await attendancePolicyService.createAssignment(assignmentForm);
+      toast.success('Policy assigned');
+      setAssigning(false);
+      fetchData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteAssignment = async (assignment: AttendancePolicyAssignment) => {
+    if (!confirm('Remove this assignment?')) return;
+    try {
+      await attendancePolicyService.deleteAssignment(assignment.id);
+      toast.success('Assignment removed');
+      fetchData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove assignment');
+    }
+  };
+
+  const handleLookup = async () => {
+    if (!lookupEmployeeId) {
+      toast.error('Please select an employee');
+      return;
+    }
+    const data = await attendancePolicyService.resolvePolicy(lookupEmployeeId, lookupDate);
+    if (!data) {
+      toast.error('Failed to look up the policy');
+      return;
+    }
+    setResolved(data);
+  };
+
+  const policyName = (policyId: string) => policies.find((p) => p.id === policyId)?.name ?? 'Deleted policy';
+
+  const setNumber = (field: keyof AttendancePolicyFormData) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setPolicyForm({ ...policyForm, [field]: Number(e.target.value) });
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="mb-4 sm:mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Attendance Policies</h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            A policy assigned to an employee overrides their team&apos;s, which overrides the company&apos;s. Without any
+            assignment, the oldest active policy applies.
+          </p>
+        </div>
+        {isAdmin && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => openPolicyForm('new')}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 whitespace-nowrap"
+            >
+              Add Policy
+            </button>
+            <button
+              onClick={() => {
+                setAssignmentForm({ ...assignmentForm, policyId: '', targetId: null });
+                setAssigning(true);
+              }}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 whitespace-nowrap"
+            >
+              Assign Policy
+            </button>
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+            <h2 className="px-4 sm:px-6 py-3 font-semibold text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700">
+              Policies
+            </h2>
+            {policies.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No policies yet; the defaults apply to everyone</div>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {policies.map((policy) => (
+                  <div key={policy.id} className="p-4 sm:px-6 flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 dark:text-white">
+                        {policy.name}
+                        {!policy.isActive && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {describePolicy({
+                          ...policy,
+                          weeklyOffDays: policy.weeklyOffDays ?? DEFAULT_ATTENDANCE_POLICY.weeklyOffDays,
+                          compOffExpiryDays: policy.compOffExpiryDays ?? DEFAULT_ATTENDANCE_POLICY.compOffExpiryDays,
+                        })}
+                      </div>
+                    </div>
+                    {isAdmin && (
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => openPolicyForm(policy)}
+                          className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDeletePolicy(policy)}
+                          className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+            <h2 className="px-4 sm:px-6 py-3 font-semibold text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700">
+              Assignments
+            </h2>
+            {assignments.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No assignments yet</div>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {assignments.map((assignment) => (
+                  <div key={assignment.id} className="p-4 sm:px-6 flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 dark:text-white">{policyName(assignment.policyId)}</div>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">
+                        {POLICY_SCOPE_LABELS[assignment.scope]}
+                        {assignment.scope === 'team' && ` of ${assignment.targetName ?? 'a manager'}`}
+                        {assignment.scope === 'employee' && `: ${assignment.targetName ?? assignment.targetId}`}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        From {assignment.effectiveFrom}
+                        {assignment.effectiveTo ? ` to ${assignment.effectiveTo}` : ' onwards'}
+                      </div>
+                    </div>
+                    {isAdmin && (
+                      <button
+                        onClick={() => handleDeleteAssignment(assignment)}
+                        className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700 flex-shrink-0"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 sm:p-6 space-y-3">
+            <h2 className="font-semibold text-gray-900 dark:text-white">Effective Policy</h2>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={lookupEmployeeId}
+                onChange={(e) => setLookupEmployeeId(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Select employee</option>
+                {employees.map((employee) => (
+                  <option key={employee.uid} value={employee.uid}>
+                    {employee.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="date"
+                value={lookupDate}
+                onChange={(e) => setLookupDate(e.target.value)}
+                className={`${inputClass} sm:w-48`}
+              />
+              <button
+                onClick={handleLookup}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 whitespace-nowrap"
+              >
+                Look Up
+              </button>
+            </div>
+            {resolved && (
+              <div className="text-sm text-gray-700 dark:text-gray-300">
+                <div className="font-medium">
+                  {resolved.policyName}{' '}
+                  <span className="text-xs text-gray-500">
+                    ({resolved.source === 'default' ? 'default' : `${POLICY_SCOPE_LABELS[resolved.source]} assignment`})
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500">{describePolicy(resolved)}</div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Policy Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4 space-y-3 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+              {editing === 'new' ? 'Add Policy' : `Edit ${editing.name}`}
+            </h3>
+            <input
+              value={policyForm.name}
+              onChange={(e) => setPolicyForm({ ...policyForm, name: e.target.value })}
+              className={inputClass}
+              maxLength={100}
+              placeholder="Policy name, e.g. Field Staff"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Grace period (min)</label>
+                <input type="number" min={0} max={60} value={policyForm.graceMinutes} onChange={setNumber('graceMinutes')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Max break (min, 0 = no limit)</label>
+                <input type="number" min={0} max={480} value={policyForm.maxBreakMinutes} onChange={setNumber('maxBreakMinutes')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Min daily hours (shorter = half day)</label>
+                <input type="number" min={0} max={24} step={0.5} value={policyForm.minDailyHours} onChange={setNumber('minDailyHours')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Max daily hours (0 = no cap)</label>
+                <input type="number" min={0} max={24} step={0.5} value={policyForm.maxDailyHours} onChange={setNumber('maxDailyHours')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Overtime multiplier</label>
+                <input type="number" min={1} max={3} step={0.25} value={policyForm.overtimeMultiplier} onChange={setNumber('overtimeMultiplier')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Comp-off valid for (days)</label>
+                <input type="number" min={1} max={365} value={policyForm.compOffExpiryDays} onChange={setNumber('compOffExpiryDays')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Auto clock-out time</label>
+                <input
+                  type="time"
+                  value={policyForm.autoClockOutTime}
+                  onChange={(e) => setPolicyForm({ ...policyForm, autoClockOutTime: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Weekly off</label>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAYS.map((label, day) => (
+                  <label key={label} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                    <input type="checkbox" checked={policyForm.weeklyOffDays.includes(day)} onChange={() => toggleWeeklyOff(day)} />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={policyForm.geolocationRequired}
+                onChange={(e) => setPolicyForm({ ...policyForm, geolocationRequired: e.target.checked })}
+              />
+              Require clock-in at an attendance site
+            </label>
+            {policyForm.geolocationRequired && (
+              <div>
+                <label className={labelClass}>Default site radius (m)</label>
+                <input type="number" min={0} max={10000} value={policyForm.geolocationRadius} onChange={setNumber('geolocationRadius')} className={inputClass} />
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={policyForm.isActive}
+                onChange={(e) => setPolicyForm({ ...policyForm, isActive: e.target.checked })}
+              />
+              Active
+            </label>
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={handleSavePolicy}
+                disabled={saving}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                onClick={() => setEditing(null)}
+                className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Assignment Modal */}
+      {assigning && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 space-y-3">
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">Assign Policy</h3>
+            <select
+              value={assignmentForm.policyId}
+              onChange={(e) => setAssignmentForm({ ...assignmentForm, policyId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Select policy</option>
+              {policies.filter((policy) => policy.isActive).map((policy) => (
+                <option key={policy.id} value={policy.id}>
+                  {policy.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={assignmentForm.scope}
+              onChange={(e) =>
+                setAssignmentForm({ ...assignmentForm, scope: e.target.value as PolicyAssignmentScope, targetId: null })
+              }
+              className={inputClass}
+            >
+              {(Object.keys(POLICY_SCOPE_LABELS) as PolicyAssignmentScope[]).map((scope) => (
+                <option key={scope} value={scope}>
+                  {POLICY_SCOPE_LABELS[scope]}
+                </option>
+              ))}
+            </select>
+            {assignmentForm.scope === 'team' && (
+              <select
+                value={assignmentForm.targetId ?? ''}
+                onChange={(e) => setAssignmentForm({ ...assignmentForm, targetId: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">Select manager&apos;s team</option>
+                {teams.map((team) => (
+                  <option key={team.managerId} value={team.managerId}>
+                    {team.managerName} ({team.employeeIds.length})
+                  </option>
+                ))}
+              </select>
+            )}
+            {assignmentForm.scope === 'employee' && (
+              <select
+                value={assignmentForm.targetId ?? ''}
+                onChange={(e) => setAssignmentForm({ ...assignmentForm, targetId: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">Select employee</option>
+                {employees.map((employee) => (
+                  <option key={employee.uid} value={employee.uid}>
+                    {employee.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>Effective from</label>
+                <input
+                  type="date"
+                  value={assignmentForm.effectiveFrom}
+                  onChange={(e) => setAssignmentForm({ ...assignmentForm, effectiveFrom: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Effective to (optional)</label>
+                <input
+                  type="date"
+                  value={assignmentForm.effectiveTo ?? ''}
+                  onChange={(e) => setAssignmentForm({ ...assignmentForm, effectiveTo: e.target.value || null })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={handleSaveAssignment}
+                disabled={saving}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Assign'}
+              </button>
+              <button
+                onClick={() => setAssigning(false)}
+                className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -52,6 +52,7 @@ export default function AttendanceRosterPage() {
   const [showEmployeeModal, setShowEmployeeModal] = useState(false);
   const [showHolidayModal, setShowHolidayModal] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [exportingRegister, setExportingRegister] = useState<'pdf' | 'excel' | null>(null);
   const { openModal, closeModal } = useModal();
 
   useEffect(() => {
@@ -103,29 +104,20 @@ export default function AttendanceRosterPage() {
           ? leaveRaw.data
           : [];
 
-      // Fetch holidays using API (Admin SDK on server-side)
-      const holidaysRes = await authenticatedFetch('/api/holidays');
-      const holidaysData = holidaysRes.ok ? await holidaysRes.json() : [];
-      
-      const holidays = new Set<string>();
-      
-      holidaysData.forEach((holiday: any) => {
-        if (holiday.date) {
-          // API returns ISO string, convert to YYYY-MM-DD
-          const holidayDate = new Date(holiday.date);
-          const year = holidayDate.getFullYear();
-          const month = String(holidayDate.getMonth() + 1).padStart(2, '0');
-          const day = String(holidayDate.getDate()).padStart(2, '0');
-          const formattedDate = `${year}-${month}-${day}`;
-          holidays.add(formattedDate);
-        }
-      });
+      // Fetch each employee's holidays under their holiday calendar (YYYY-MM-DD)
+      const monthStartKey = `${year}-${String(month + 1).padStart(2, '0')}-01`;
+      const monthEndKey = `${year}-${String(month + 1).padStart(2, '0')}-${String(endDate.getDate()).padStart(2, '0')}`;
+      const holidaysRes = await authenticatedFetch(
+        `/api/holidays/employees?startDate=${monthStartKey}&endDate=${monthEndKey}`
+      );
+      const holidaysByEmployee: Record<string, { date: string }[]> = holidaysRes.ok ? await holidaysRes.json() : {};
 
       // Build attendance roster
       const daysInMonth = new Date(year, month + 1, 0).getDate();
       const roster: EmployeeAttendance[] = employeesData
         .filter((emp: any) => emp.status !== 'resigned') // Exclude resigned employees
         .map((emp: any) => {
+        const holidays = new Set((holidaysByEmployee[emp.id] ?? []).map((holiday) => holiday.date));
         const days: AttendanceDay[] = [];
         let presentCount = 0;
         let absentCount = 0;
@@ -284,6 +276,35 @@ export default function AttendanceRosterPage() {
     'July', 'August', 'September', 'October', 'November', 'December'
   ];
 
+  // Muster roll: the statutory register, with paid days as payroll computed them
+  const exportMusterRoll = async (exportFormat: 'pdf' | 'excel') => {
+    setExportingRegister(exportFormat);
+    try {
+      const { attendanceRegisterService } = await import('@/services/attendance-register.service');
+      const register = await attendanceRegisterService.getRegister(month, year);
+      if (!register) {
+        toast.error('Failed to load the attendance register');
+        return;
+      }
+      if (register.rows.length === 0) {
+        toast.info('No employees to include in the register');
+        return;
+      }
+
+      const { exportRegisterToExcel, exportRegisterToPDF } = await import('@/utils/attendance-register-export');
+      if (exportFormat === 'pdf') {
+        exportRegisterToPDF(register);
+      } else {
+        exportRegisterToExcel(register);
+      }
+    } catch (error) {
+      console.error('Error exporting muster roll:', error);
+      toast.error('Failed to export the muster roll');
+    } finally {
+      setExportingRegister(null);
+    }
+  };
+
   const openEmployeeModal = (employee: EmployeeAttendance) => {
     setSelectedEmployee(employee);
     setShowEmployeeModal(true);
@@ -339,6 +360,20 @@ export default function AttendanceRosterPage() {
           </svg>
           Export Excel
         </button>
+        <button
+          onClick={() => exportMusterRoll('pdf')}
+          disabled={exportingRegister !== null}
+          className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {exportingRegister === 'pdf' ? 'Exporting...' : 'Muster Roll PDF'}
+        </button>
+        <button
+          onClick={() => exportMusterRoll('excel')}
+          disabled={exportingRegister !== null}
+          className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {exportingRegister === 'excel' ? 'Exporting...' : 'Muster Roll Excel'}
+        </button>
       </div>
 
       {/* Legend */}
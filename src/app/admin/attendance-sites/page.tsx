@@ -0,0 +1,298 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { useEnhancedAuth } from '@/contexts/enhanced-auth.context';
+import { attendanceSiteService } from '@/services/attendance-site.service';
+import { getCurrentPosition } from '@/utils/geolocation';
+import { AttendanceSite } from '@/types/attendance.types';
+
+interface SiteForm {
+  name: string;
+  address: string;
+  latitude: string;
+  longitude: string;
+  radius: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: SiteForm = { name: '', address: '', latitude: '', longitude: '', radius: '', isActive: true };
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white';
+
+export default function AttendanceSitesPage() {
+  const { isAdmin } = useEnhancedAuth();
+
+  const [sites, setSites] = useState<AttendanceSite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<AttendanceSite | 'new' | null>(null);
+  const [form, setForm] = useState<SiteForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    fetchSites();
+  }, []);
+
+  const fetchSites = async () => {
+    setLoading(true);
+    try {
+      const data = await attendanceSiteService.getSites();
+      if (!data) {
+        toast.error('Failed to load attendance sites');
+        return;
+      }
+      setSites(data);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (site: AttendanceSite | 'new') => {
+    setEditing(site);
+    setForm(
+      site === 'new'
+        ? EMPTY_FORM
+        : {
+            name: site.name,
+            address: site.address ?? '',
+            latitude: String(site.latitude),
+            longitude: String(site.longitude),
+            radius: site.radius ? String(site.radius) : '',
+            isActive: site.isActive,
+          }
+    );
+  };
+
+  const pinCurrentLocation = async () => {
+    setLocating(true);
+    try {
+      const position = await getCurrentPosition();
+      setForm((f) => ({ ...f, latitude: position.latitude.toFixed(6), longitude: position.longitude.toFixed(6) }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not get your location');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const latitude = Number(form.latitude);
+    const longitude = Number(form.longitude);
+    if (!form.name.trim()) {
+      toast.error('Please enter a site name');
+      return;
+    }
+    if (!form.latitude || !form.longitude || isNaN(latitude) || isNaN(longitude)) {
+      toast.error('Please enter the latitude and longitude');
+      return;
+    }
+
+    const data = {
+      name: form.name.trim(),
+      address: form.address.trim() || undefined,
+      latitude,
+      longitude,
+      isActive: form.isActive,
+    };
+
+    setSaving(true);
+    try {
+      if (editing === 'new') {
+        await attendanceSiteService.createSite({ ...data, radius: form.radius ? Number(form.radius) : undefined });
+        toast.success('Site added');
+      } else if (editing) {
+        await attendanceSiteService.updateSite(editing.id, { ...data, radius: form.radius ? Number(form.radius) : null });
+        toast.success('Site updated');
+      }
+      setEditing(null);
+      fetchSites();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save site');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (site: AttendanceSite) => {
+    if (!confirm(`Delete ${site.name}? Employees will no longer be able to clock in there.`)) return;
+    try {
+      await attendanceSiteService.deleteSite(site.id);
+      toast.success('Site deleted');
+      fetchSites();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete site');
+    }
+  };
+
+  const offices = sites.filter((site) => site.type === 'office');
+  const clients = sites.filter((site) => site.type === 'client');
+
+  const renderSite = (site: AttendanceSite) => (
+    <div key={site.id} className="p-4 sm:px-6 flex items-start justify-between gap-4">
+      <div className="min-w-0">
+        <div className="font-medium text-gray-900 dark:text-white">
+          {site.name}
+          {!site.isActive && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+        </div>
+        {site.address && <div className="text-sm text-gray-600 dark:text-gray-400 truncate">{site.address}</div>}
+        <div className="text-xs text-gray-500">
+          {site.latitude.toFixed(6)}, {site.longitude.toFixed(6)} · {site.radius ? `${site.radius} m` : 'policy radius'}
+        </div>
+      </div>
+      {isAdmin && site.type === 'office' && (
+        <div className="flex gap-2 flex-shrink-0">
+          <button
+            onClick={() => openForm(site)}
+            className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+          >
+            Edit
+          </button>
+          <button
+            onClick={() => handleDelete(site)}
+            className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
+          >
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="mb-4 sm:mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Attendance Sites</h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Employees can clock in and out at any office, and at the clients they are rostered to visit that day.
+            Each site&apos;s radius defaults to the attendance policy&apos;s.
+          </p>
+        </div>
+        {isAdmin && (
+          <button
+            onClick={() => openForm('new')}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 whitespace-nowrap"
+          >
+            Add Office
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+            <h2 className="px-4 sm:px-6 py-3 font-semibold text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700">
+              Offices
+            </h2>
+            {offices.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No offices yet</div>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">{offices.map(renderSite)}</div>
+            )}
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+            <h2 className="px-4 sm:px-6 py-3 font-semibold text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700">
+              Client Premises
+            </h2>
+            {clients.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                No clients have a pinned location. Add a latitude and longitude to a client&apos;s address on the Clients page.
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">{clients.map(renderSite)}</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Site Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 space-y-3">
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+              {editing === 'new' ? 'Add Office' : `Edit ${editing.name}`}
+            </h3>
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+              maxLength={100}
+              placeholder="Site name, e.g. Head Office"
+            />
+            <input
+              value={form.address}
+              onChange={(e) => setForm({ ...form, address: e.target.value })}
+              className={inputClass}
+              maxLength={300}
+              placeholder="Address (optional)"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="number"
+                step="any"
+                value={form.latitude}
+                onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+                className={inputClass}
+                placeholder="Latitude"
+              />
+              <input
+                type="number"
+                step="any"
+                value={form.longitude}
+                onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                className={inputClass}
+                placeholder="Longitude"
+              />
+            </div>
+            <button
+              onClick={pinCurrentLocation}
+              disabled={locating}
+              className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+            >
+              {locating ? 'Getting location...' : 'Use my current location'}
+            </button>
+            <input
+              type="number"
+              min={10}
+              max={10000}
+              value={form.radius}
+              onChange={(e) => setForm({ ...form, radius: e.target.value })}
+              className={inputClass}
+              placeholder="Radius in meters (blank for the policy's)"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              Active
+            </label>
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                onClick={() => setEditing(null)}
+                className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
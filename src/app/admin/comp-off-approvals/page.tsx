@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { compOffService } from '@/services/comp-off.service';
+import { COMP_OFF_REASON_LABELS } from '@/lib/comp-off';
+import { CompOffCredit, CompOffCreditStatus } from '@/types/attendance.types';
+
+const STATUS_COLORS: Record<CompOffCreditStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export default function CompOffApprovalsPage() {
+  const [credits, setCredits] = useState<CompOffCredit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<CompOffCreditStatus | 'all'>('pending');
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<CompOffCredit | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  useEffect(() => {
+    fetchCredits();
+  }, [filter]);
+
+  const fetchCredits = async () => {
+    setLoading(true);
+    try {
+      const data = await compOffService.getCredits({
+        scope: 'team',
+        status: filter === 'all' ? undefined : filter,
+      });
+      if (!data) {
+        toast.error('Failed to load comp-off credits');
+        return;
+      }
+      setCredits(data);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async (credit: CompOffCredit) => {
+    setDecidingId(credit.id!);
+    try {
+      await compOffService.decideCredit(credit.id!, { action: 'approve' });
+      toast.success('Comp-off approved');
+      fetchCredits();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to approve comp-off');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    if (!rejectionReason.trim()) {
+      toast.error('Please provide a reason for rejecting');
+      return;
+    }
+
+    setDecidingId(rejecting.id!);
+    try {
+      await compOffService.decideCredit(rejecting.id!, { action: 'reject', reason: rejectionReason.trim() });
+      toast.success('Comp-off rejected');
+      setRejecting(null);
+      setRejectionReason('');
+      fetchCredits();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reject comp-off');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="mb-4 sm:mb-6">
+        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Comp-Off Approvals</h1>
+        <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+          Approve comp-off for your team&apos;s work on holidays and weekly offs. Approved days can be taken as
+          comp-off leave until they expire.
+        </p>
+      </div>
+
+      {/* Filter Tabs */}
+      <div className="mb-4 sm:mb-6 overflow-x-auto">
+        <div className="flex gap-2 min-w-max">
+          {(['all', 'pending', 'approved', 'rejected'] as const).map((status) => (
+            <button
+              key={status}
+              onClick={() => setFilter(status)}
+              className={`px-3 py-1.5 sm:px-4 sm:py-2 rounded-lg font-medium transition-colors text-xs sm:text-base whitespace-nowrap ${
+                filter === status
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300'
+              }`}
+            >
+              {status.charAt(0).toUpperCase() + status.slice(1)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : credits.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No comp-off credits found</div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {credits.map((credit) => (
+              <div key={credit.id} className="p-4 sm:px-6 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-medium text-gray-900 dark:text-white">{credit.employeeName}</div>
+                    <div className="text-sm text-gray-700 dark:text-gray-300">
+                      {credit.workDate} · {COMP_OFF_REASON_LABELS[credit.reason]}
+                      {credit.holidayName && ` (${credit.holidayName})`} · {credit.hoursWorked} h worked ·{' '}
+                      {credit.days} day{credit.days === 1 ? '' : 's'}
+                    </div>
+                  </div>
+                  <span className={`inline-block px-2 py-1 text-xs font-medium rounded-full ${STATUS_COLORS[credit.status]}`}>
+                    {credit.status}
+                  </span>
+                </div>
+
+                {credit.status === 'pending' ? (
+                  <div className="flex flex-wrap items-center justify-end gap-2">
+                    <button
+                      onClick={() => handleApprove(credit)}
+                      disabled={decidingId === credit.id}
+                      className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => setRejecting(credit)}
+                      disabled={decidingId === credit.id}
+                      className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                ) : credit.decidedByName && (
+                  <div className="text-sm text-gray-500 text-right">
+                    {credit.status === 'rejected'
+                      ? <>Rejected by {credit.decidedByName}{credit.rejectionReason && <>: {credit.rejectionReason}</>}</>
+                      : <>Approved by {credit.decidedByName}, usable until {credit.expiresOn}</>}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Reject Modal */}
+      {rejecting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-bold mb-4 text-gray-900 dark:text-white">Reject Comp-Off</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Tell {rejecting.employeeName} why their comp-off for {rejecting.workDate} is being rejected:
+            </p>
+            <textarea
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              rows={4}
+              maxLength={500}
+              placeholder="Enter rejection reason..."
+            />
+            <div className="flex gap-2 mt-4">
+              <button
+                onClick={handleReject}
+                disabled={decidingId === rejecting.id}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+              >
+                Reject
+              </button>
+              <button
+                onClick={() => {
+                  setRejecting(null);
+                  setRejectionReason('');
+                }}
+                className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { Paperclip } from 'lucide-react';
+import { expenseService } from '@/services/expense.service';
+import { ExpenseStatusBadge } from '@/components/expenses/ExpenseStatusBadge';
+import { ClientExpenseReport } from '@/components/expenses/ClientExpenseReport';
+import { EXPENSE_CATEGORIES } from '@/lib/expenses';
+import { ExpenseClaim, ExpenseClaimStatus } from '@/types/expense.types';
+
+export default function ExpenseApprovalsPage() {
+  const [activeTab, setActiveTab] = useState<'claims' | 'report'>('claims');
+  const [claims, setClaims] = useState<ExpenseClaim[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<ExpenseClaimStatus | 'all'>('pending');
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<ExpenseClaim | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  useEffect(() => {
+    fetchClaims();
+  }, [filter]);
+
+  const fetchClaims = async () => {
+    setLoading(true);
+    try {
+      const data = await expenseService.getClaims({
+        scope: 'team',
+        status: filter === 'all' ? undefined : filter,
+      });
+      if (!data) {
+        toast.error('Failed to load expense claims');
+        return;
+      }
+      setClaims(data);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async (claim: ExpenseClaim) => {
+    setDecidingId(claim.id!);
+    try {
+      await expenseService.decideClaim(claim.id!, { action: 'approve' });
+      toast.success('Expense claim approved');
+      fetchClaims();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to approve claim');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    if (!rejectionReason.trim()) {
+      toast.error('Please provide a reason for rejecting');
+      return;
+    }
+
+    setDecidingId(rejecting.id!);
+    try {
+      await expenseService.decideClaim(rejecting.id!, { action: 'reject', reason: rejectionReason.trim() });
+      toast.success('Expense claim rejected');
+      setRejecting(null);
+      setRejectionReason('');
+      fetchClaims();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reject claim');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="mb-4 sm:mb-6">
+        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Expense Approvals</h1>
+        <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+          Review your team&apos;s expense claims and report client expenses for rebilling
+        </p>
+      </div>
+
+      {/* Tab Switcher */}
+      <div className="flex gap-2 mb-4">
+        {([['claims', 'Claims'], ['report', 'Client Report']] as const).map(([tab, label]) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              activeTab === tab
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'report' ? (
+        <ClientExpenseReport />
+      ) : (
+        <>
+          {/* Filter Tabs */}
+          <div className="mb-4 sm:mb-6 overflow-x-auto">
+            <div className="flex gap-2 min-w-max">
+              {(['all', 'pending', 'approved', 'paid', 'rejected'] as const).map((status) => (
+                <button
+                  key={status}
+                  onClick={() => setFilter(status)}
+                  className={`px-3 py-1.5 sm:px-4 sm:py-2 rounded-lg font-medium transition-colors text-xs sm:text-base whitespace-nowrap ${
+                    filter === status
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300'
+                  }`}
+                >
+                  {status.charAt(0).toUpperCase() + status.slice(1)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+            {loading ? (
+              <div className="p-8 text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+              </div>
+            ) : claims.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No expense claims found</div>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {claims.map((claim) => (
+                  <div key={claim.id} className="p-4 sm:px-6 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <div className="font-medium text-gray-900 dark:text-white">{claim.employeeName}</div>
+                        <div className="text-sm text-gray-700 dark:text-gray-300">{claim.title}</div>
+                        <div className="text-sm text-gray-500">
+                          Submitted {format(new Date(claim.createdAt), 'dd MMM yyyy')}
+                          {claim.clientName && <> · Client: {claim.clientName}</>}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-semibold text-gray-900 dark:text-white">
+                          ₹{claim.totalAmount.toLocaleString('en-IN')}
+                        </div>
+                        <ExpenseStatusBadge status={claim.status} />
+                      </div>
+                    </div>
+
+                    <table className="w-full text-sm">
+                      <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {claim.items.map((item, index) => (
+                          <tr key={index}>
+                            <td className="py-1 pr-4 text-gray-500 whitespace-nowrap">{format(new Date(item.date), 'dd MMM')}</td>
+                            <td className="py-1 pr-4 text-gray-700 dark:text-gray-300 whitespace-nowrap">{EXPENSE_CATEGORIES[item.category]}</td>
+                            <td className="py-1 pr-4 text-gray-700 dark:text-gray-300 w-full">{item.description}</td>
+                            <td className="py-1 text-right text-gray-900 dark:text-white whitespace-nowrap">
+                              ₹{item.amount.toLocaleString('en-IN')}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div className="flex flex-wrap gap-3">
+                        {claim.receipts.length === 0 && <span className="text-sm text-gray-400">No receipts attached</span>}
+                        {claim.receipts.map((receipt) => (
+                          <a
+                            key={receipt.storagePath}
+                            href={receipt.fileUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                          >
+                            <Paperclip className="h-3.5 w-3.5" />
+                            {receipt.fileName}
+                          </a>
+                        ))}
+                      </div>
+                      {claim.status === 'pending' ? (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleApprove(claim)}
+                            disabled={decidingId === claim.id}
+                            className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => setRejecting(claim)}
+                            disabled={decidingId === claim.id}
+                            className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700 disabled:opacity-50"
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      ) : claim.decidedByName && (
+                        <div className="text-sm text-gray-500">
+                          {claim.status === 'rejected' ? 'Rejected' : 'Approved'} by {claim.decidedByName}
+                          {claim.rejectionReason && <>: {claim.rejectionReason}</>}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Reject Modal */}
+      {rejecting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-bold mb-4 text-gray-900 dark:text-white">Reject Expense Claim</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Tell {rejecting.employeeName} why &ldquo;{rejecting.title}&rdquo; is being rejected:
+            </p>
+            <textarea
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              rows={4}
+              maxLength={500}
+              placeholder="Enter rejection reason..."
+            />
+            <div className="flex gap-2 mt-4">
+              <button
+                onClick={handleReject}
+                disabled={decidingId === rejecting.id}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+              >
+                Reject
+              </button>
+              <button
+                onClick={() => {
+                  setRejecting(null);
+                  setRejectionReason('');
+                }}
+                className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
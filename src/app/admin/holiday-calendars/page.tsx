@@ -0,0 +1,601 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+import { useEnhancedAuth } from '@/contexts/enhanced-auth.context';
+import { holidayCalendarService, HolidayFileFormat } from '@/services/holiday-calendar.service';
+import { authenticatedFetch } from '@/lib/api-client';
+import { DEFAULT_OPTIONAL_HOLIDAY_QUOTA } from '@/lib/holiday-calendar';
+import { Holiday, HolidayCalendar, HolidayCalendarFormData, HolidayFormData } from '@/types/attendance.types';
+import { ManagerHierarchy } from '@/types/manager-hierarchy.types';
+
+interface UserOption {
+  uid: string;
+  name: string;
+}
+
+const EMPTY_CALENDAR: HolidayCalendarFormData = {
+  name: '',
+  location: '',
+  description: '',
+  isDefault: false,
+  optionalHolidayQuota: DEFAULT_OPTIONAL_HOLIDAY_QUOTA,
+  employeeIds: [],
+  teamIds: [],
+};
+
+const EMPTY_HOLIDAY: HolidayFormData = { date: '', name: '', description: '', isOptional: false };
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white';
+
+const labelClass = 'block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1';
+
+function toggle(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+}
+
+export default function HolidayCalendarsPage() {
+  const { isAdmin } = useEnhancedAuth();
+
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [teams, setTeams] = useState<ManagerHierarchy[]>([]);
+  const [employees, setEmployees] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loadingHolidays, setLoadingHolidays] = useState(false);
+
+  const [editing, setEditing] = useState<HolidayCalendar | 'new' | null>(null);
+  const [calendarForm, setCalendarForm] = useState(EMPTY_CALENDAR);
+  const [employeeFilter, setEmployeeFilter] = useState('');
+  const [holidayForm, setHolidayForm] = useState(EMPTY_HOLIDAY);
+  const [saving, setSaving] = useState(false);
+  const [importErrors, setImportErrors] = useState<{ row: number; error: string }[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const selected = calendars.find((calendar) => calendar.id === selectedId) ?? null;
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) fetchHolidays(selectedId);
+  }, [selectedId]);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [calendarData, hierarchiesRes, usersRes] = await Promise.all([
+        holidayCalendarService.getCalendars(),
+        authenticatedFetch('/api/manager-hierarchy'),
+        authenticatedFetch('/api/admin/users'),
+      ]);
+      if (!calendarData) {
+        toast.error('Failed to load holiday calendars');
+        return;
+      }
+      setCalendars(calendarData);
+      setSelectedId((current) =>
+        current && calendarData.some((calendar) => calendar.id === current) ? current : calendarData[0]?.id ?? null
+      );
+      if (hierarchiesRes.ok) {
+        setTeams(await hierarchiesRes.json());
+      }
+      if (usersRes.ok) {
+        const users = await usersRes.json();
+        setEmployees(
+          users
+            .map((u: any) => ({ uid: u.uid, name: u.displayName || u.name || u.email }))
+            .sort((a: UserOption, b: UserOption) => a.name.localeCompare(b.name))
+        );
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHolidays = async (calendarId: string) => {
+    setLoadingHolidays(true);
+    setImportErrors([]);
+    try {
+      const data = await holidayCalendarService.getHolidays(calendarId);
+      if (!data) {
+        toast.error('Failed to load holidays');
+        return;
+      }
+      setHolidays(data);
+    } finally {
+      setLoadingHolidays(false);
+    }
+  };
+
+  const openCalendarForm = (calendar: HolidayCalendar | 'new') => {
+    setEditing(calendar);
+    setEmployeeFilter('');
+    setCalendarForm(
+      calendar === 'new'
+        ? EMPTY_CALENDAR
+        : {
+            name: calendar.name,
+            location: calendar.location,
+            description: calendar.description,
+            isDefault: calendar.isDefault,
+            optionalHolidayQuota: calendar.optionalHolidayQuota,
+            employeeIds: calendar.employeeIds ?? [],
+            teamIds: calendar.teamIds ?? [],
+          }
+    );
+  };
+
+  const handleSaveCalendar = async () => {
+    if (!calendarForm.name.trim()) {
+      toast.error('Please enter a calendar name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const data = { ...calendarForm, name: calendarForm.name.trim(), location: calendarForm.location.trim() };
+      if (editing === 'new') {
+        const created = await holidayCalendarService.createCalendar(data);
+        setSelectedId(created.id);
+        toast.success('Holiday calendar created');
+      } else if (editing) {
+        await holidayCalendarService.updateCalendar(editing.id, data);
+        toast.success('Holiday calendar updated');
+      }
+      setEditing(null);
+      fetchData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save holiday calendar');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteCalendar = async (calendar: HolidayCalendar) => {
+    if (!confirm(`Delete ${calendar.name} and all its holidays? Its employees move to the default calendar.`)) return;
+    try {
+      await holidayCalendarService.deleteCalendar(calendar.id);
+      toast.success('Holiday calendar deleted');
+      fetchData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete holiday calendar');
+    }
+  };
+
+  const handleAddHoliday = async () => {
+    if (!selected) return;
+    if (!holidayForm.date || !holidayForm.name.trim()) {
+      toast.error('Please enter both date and holiday name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await holidayCalendarService.addHoliday(selected.id, { ...holidayForm, name: holidayForm.name.trim() });
+      toast.success('Holiday added');
+      setHolidayForm(EMPTY_HOLIDAY);
+      fetchHolidays(selected.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add holiday');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    if (!selected || !confirm(`Remove ${holiday.name}?`)) return;
+    try {
+      await holidayCalendarService.deleteHoliday(selected.id, holiday.id);
+      toast.success('Holiday removed');
+      fetchHolidays(selected.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove holiday');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selected) return;
+
+    const format: HolidayFileFormat = file.name.toLowerCase().endsWith('.ics') ? 'ics' : 'csv';
+    setSaving(true);
+    setImportErrors([]);
+    try {
+      const result = await holidayCalendarService.importHolidays(selected.id, format, await file.text());
+      if ('errors' in result) {
+        setImportErrors(result.errors);
+        toast.error('Nothing was imported; fix the entries listed and try again');
+        return;
+      }
+      toast.success(
+        `Imported ${result.imported} holiday${result.imported === 1 ? '' : 's'}` +
+          (result.skipped ? `, skipped ${result.skipped} already on the calendar` : '')
+      );
+      fetchHolidays(selected.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import holidays');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = async (format: HolidayFileFormat) => {
+    if (!selected) return;
+    try {
+      const file = await holidayCalendarService.exportHolidays(selected.id, format);
+      if (!file) {
+        toast.error('Failed to export holidays');
+        return;
+      }
+      const url = window.URL.createObjectURL(file.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Failed to export holidays');
+      console.error(error);
+    }
+  };
+
+  const describeCoverage = (calendar: HolidayCalendar) => {
+    const parts = [];
+    if (calendar.isDefault) parts.push('everyone else');
+    if (calendar.teamIds?.length) parts.push(`${calendar.teamIds.length} team${calendar.teamIds.length === 1 ? '' : 's'}`);
+    if (calendar.employeeIds?.length) {
+      parts.push(`${calendar.employeeIds.length} employee${calendar.employeeIds.length === 1 ? '' : 's'}`);
+    }
+    return parts.length > 0 ? parts.join(', ') : 'nobody yet';
+  };
+
+  const filteredEmployees = employees.filter((employee) =>
+    employee.name.toLowerCase().includes(employeeFilter.toLowerCase())
+  );
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="mb-4 sm:mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Holiday Calendars</h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            A calendar listing an employee overrides one listing their team, which overrides the default calendar.
+            Optional holidays are off only for employees who claim them, up to the calendar&apos;s yearly quota.
+          </p>
+        </div>
+        {isAdmin && (
+          <button
+            onClick={() => openCalendarForm('new')}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 whitespace-nowrap"
+          >
+            Add Calendar
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : calendars.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center text-gray-500">
+          No holiday calendars yet; everyone follows the company-wide holiday list
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+            <h2 className="px-4 sm:px-6 py-3 font-semibold text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700">
+              Calendars
+            </h2>
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {calendars.map((calendar) => (
+                <button
+                  key={calendar.id}
+                  onClick={() => setSelectedId(calendar.id)}
+                  className={`w-full text-left p-4 sm:px-6 ${
+                    calendar.id === selectedId ? 'bg-blue-50 dark:bg-gray-700' : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <div className="font-medium text-gray-900 dark:text-white">
+                    {calendar.name}
+                    {calendar.isDefault && (
+                      <span className="ml-2 inline-block px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">Default</span>
+                    )}
+                  </div>
+                  {calendar.location && <div className="text-sm text-gray-600 dark:text-gray-400">{calendar.location}</div>}
+                  <div className="text-xs text-gray-500">
+                    For {describeCoverage(calendar)} · {calendar.optionalHolidayQuota} optional a year
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {selected && (
+            <div className="lg:col-span-2 space-y-4">
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 sm:p-6">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <h2 className="font-semibold text-gray-900 dark:text-white">{selected.name}</h2>
+                    {selected.description && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">{selected.description}</p>
+                    )}
+                    {selected.isDefault && (
+                      <p className="text-xs text-gray-500">Includes the company-wide holiday list.</p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => handleExport('ics')}
+                      className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200"
+                    >
+                      Export .ics
+                    </button>
+                    <button
+                      onClick={() => handleExport('csv')}
+                      className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200"
+                    >
+                      Export CSV
+                    </button>
+                    {isAdmin && (
+                      <>
+                        <button
+                          onClick={() => fileInput.current?.click()}
+                          disabled={saving}
+                          className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                        >
+                          Import
+                        </button>
+                        <input ref={fileInput} type="file" accept=".ics,.csv" onChange={handleImport} className="hidden" />
+                        <button
+                          onClick={() => openCalendarForm(selected)}
+                          className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDeleteCalendar(selected)}
+                          className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {isAdmin && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Import an .ics file or a CSV with Date (YYYY-MM-DD), Name, Description and Optional (Yes/No)
+                    columns. Days already on the calendar are skipped.
+                  </p>
+                )}
+                {importErrors.length > 0 && (
+                  <ul className="mt-3 text-sm text-red-600 list-disc pl-5">
+                    {importErrors.map((error) => (
+                      <li key={`${error.row}-${error.error}`}>
+                        {error.row > 0 ? `Entry ${error.row}: ` : ''}
+                        {error.error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {isAdmin && (
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 sm:p-6">
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Add Holiday</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <input
+                      type="date"
+                      value={holidayForm.date}
+                      onChange={(e) => setHolidayForm({ ...holidayForm, date: e.target.value })}
+                      className={inputClass}
+                    />
+                    <input
+                      value={holidayForm.name}
+                      onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })}
+                      className={`${inputClass} sm:col-span-2`}
+                      maxLength={100}
+                      placeholder="Holiday name, e.g. Gudi Padwa"
+                    />
+                    <input
+                      value={holidayForm.description}
+                      onChange={(e) => setHolidayForm({ ...holidayForm, description: e.target.value })}
+                      className={`${inputClass} sm:col-span-2`}
+                      maxLength={500}
+                      placeholder="Description (optional)"
+                    />
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={holidayForm.isOptional}
+                        onChange={(e) => setHolidayForm({ ...holidayForm, isOptional: e.target.checked })}
+                      />
+                      Optional holiday
+                    </label>
+                  </div>
+                  <button
+                    onClick={handleAddHoliday}
+                    disabled={saving}
+                    className="mt-3 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Add Holiday
+                  </button>
+                </div>
+              )}
+
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+                {loadingHolidays ? (
+                  <div className="p-8 text-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                  </div>
+                ) : holidays.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">No holidays on this calendar yet</div>
+                ) : (
+                  <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {holidays.map((holiday) => (
+                      <div key={holiday.id} className="p-4 sm:px-6 flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-900 dark:text-white">
+                            {holiday.name}
+                            {holiday.isOptional && (
+                              <span className="ml-2 inline-block px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">
+                                Optional
+                              </span>
+                            )}
+                            {!holiday.calendarId && <span className="ml-2 text-xs text-gray-500">(company-wide)</span>}
+                          </div>
+                          <div className="text-sm text-gray-600 dark:text-gray-400">
+                            {new Date(`${holiday.date}T00:00:00`).toLocaleDateString('en-IN', {
+                              weekday: 'short',
+                              day: 'numeric',
+                              month: 'short',
+                              year: 'numeric',
+                            })}
+                          </div>
+                          {holiday.description && <div className="text-xs text-gray-500">{holiday.description}</div>}
+                        </div>
+                        {isAdmin && holiday.calendarId && (
+                          <button
+                            onClick={() => handleDeleteHoliday(holiday)}
+                            className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700 flex-shrink-0"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Calendar Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4 space-y-3 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+              {editing === 'new' ? 'Add Calendar' : `Edit ${editing.name}`}
+            </h3>
+            <input
+              value={calendarForm.name}
+              onChange={(e) => setCalendarForm({ ...calendarForm, name: e.target.value })}
+              className={inputClass}
+              maxLength={100}
+              placeholder="Calendar name, e.g. Maharashtra 2026"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Location / branch</label>
+                <input
+                  value={calendarForm.location}
+                  onChange={(e) => setCalendarForm({ ...calendarForm, location: e.target.value })}
+                  className={inputClass}
+                  maxLength={100}
+                  placeholder="e.g. Pune"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Optional holidays a year</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={30}
+                  value={calendarForm.optionalHolidayQuota}
+                  onChange={(e) => setCalendarForm({ ...calendarForm, optionalHolidayQuota: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <textarea
+              value={calendarForm.description}
+              onChange={(e) => setCalendarForm({ ...calendarForm, description: e.target.value })}
+              className={inputClass}
+              rows={2}
+              maxLength={500}
+              placeholder="Description (optional)"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={calendarForm.isDefault}
+                onChange={(e) => setCalendarForm({ ...calendarForm, isDefault: e.target.checked })}
+              />
+              Default calendar for everyone not on another calendar
+            </label>
+            <div>
+              <label className={labelClass}>Teams (branches)</label>
+              <div className="max-h-32 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg p-2 space-y-1">
+                {teams.length === 0 ? (
+                  <p className="text-sm text-gray-500">No manager teams set up</p>
+                ) : (
+                  teams.map((team) => (
+                    <label key={team.managerId} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={calendarForm.teamIds.includes(team.managerId)}
+                        onChange={() => setCalendarForm({ ...calendarForm, teamIds: toggle(calendarForm.teamIds, team.managerId) })}
+                      />
+                      {team.managerName}&apos;s team ({team.employeeIds.length})
+                    </label>
+                  ))
+                )}
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>
+                Employees ({calendarForm.employeeIds.length} selected)
+              </label>
+              <input
+                value={employeeFilter}
+                onChange={(e) => setEmployeeFilter(e.target.value)}
+                className={`${inputClass} mb-1`}
+                placeholder="Search employees"
+              />
+              <div className="max-h-40 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg p-2 space-y-1">
+                {filteredEmployees.map((employee) => (
+                  <label key={employee.uid} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={calendarForm.employeeIds.includes(employee.uid)}
+                      onChange={() =>
+                        setCalendarForm({ ...calendarForm, employeeIds: toggle(calendarForm.employeeIds, employee.uid) })
+                      }
+                    />
+                    {employee.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={handleSaveCalendar}
+                disabled={saving}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                onClick={() => setEditing(null)}
+                className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { overtimeService } from '@/services/overtime.service';
+import { OvertimeClaim, OvertimeClaimStatus } from '@/types/attendance.types';
+import { MONTHS } from '@/types/roster.types';
+
+const STATUS_COLORS: Record<OvertimeClaimStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export default function OvertimeApprovalsPage() {
+  const [claims, setClaims] = useState<OvertimeClaim[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<OvertimeClaimStatus | 'all'>('pending');
+  const [approvedHours, setApprovedHours] = useState<Record<string, string>>({});
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<OvertimeClaim | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  useEffect(() => {
+    fetchClaims();
+  }, [filter]);
+
+  const fetchClaims = async () => {
+    setLoading(true);
+    try {
+      const data = await overtimeService.getClaims({
+        scope: 'team',
+        status: filter === 'all' ? undefined : filter,
+      });
+      if (!data) {
+        toast.error('Failed to load overtime claims');
+        return;
+      }
+      setClaims(data);
+      setApprovedHours(Object.fromEntries(data.map((claim) => [claim.id!, String(claim.claimedHours)])));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async (claim: OvertimeClaim) => {
+    const hours = parseFloat(approvedHours[claim.id!]);
+    if (!(hours > 0) || hours > claim.claimedHours) {
+      toast.error(`Approve between 0 and ${claim.claimedHours} hours`);
+      return;
+    }
+
+    setDecidingId(claim.id!);
+    try {
+      await overtimeService.decideClaim(claim.id!, { action: 'approve', hours });
+      toast.success('Overtime approved');
+      fetchClaims();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to approve overtime');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    if (!rejectionReason.trim()) {
+      toast.error('Please provide a reason for rejecting');
+      return;
+    }
+
+    setDecidingId(rejecting.id!);
+    try {
+      await overtimeService.decideClaim(rejecting.id!, { action: 'reject', reason: rejectionReason.trim() });
+      toast.success('Overtime rejected');
+      setRejecting(null);
+      setRejectionReason('');
+      fetchClaims();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reject overtime');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="mb-4 sm:mb-6">
+        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Overtime Approvals</h1>
+        <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+          Approve your team&apos;s overtime. Approved hours are paid with that month&apos;s salary.
+        </p>
+      </div>
+
+      {/* Filter Tabs */}
+      <div className="mb-4 sm:mb-6 overflow-x-auto">
+        <div className="flex gap-2 min-w-max">
+          {(['all', 'pending', 'approved', 'rejected'] as const).map((status) => (
+            <button
+              key={status}
+              onClick={() => setFilter(status)}
+              className={`px-3 py-1.5 sm:px-4 sm:py-2 rounded-lg font-medium transition-colors text-xs sm:text-base whitespace-nowrap ${
+                filter === status
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300'
+              }`}
+            >
+              {status.charAt(0).toUpperCase() + status.slice(1)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : claims.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No overtime claims found</div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {claims.map((claim) => (
+              <div key={claim.id} className="p-4 sm:px-6 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-medium text-gray-900 dark:text-white">{claim.employeeName}</div>
+                    <div className="text-sm text-gray-700 dark:text-gray-300">
+                      {MONTHS[claim.month]} {claim.year} · {claim.claimedHours} h claimed of {claim.recordedHours} h recorded
+                    </div>
+                    {claim.notes && <div className="text-sm text-gray-500">{claim.notes}</div>}
+                  </div>
+                  <span className={`inline-block px-2 py-1 text-xs font-medium rounded-full ${STATUS_COLORS[claim.status]}`}>
+                    {claim.status}
+                  </span>
+                </div>
+
+                {claim.status === 'pending' ? (
+                  <div className="flex flex-wrap items-center justify-end gap-2">
+                    <label className="text-sm text-gray-500">Hours</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.25"
+                      max={claim.claimedHours}
+                      value={approvedHours[claim.id!] ?? ''}
+                      onChange={(e) => setApprovedHours({ ...approvedHours, [claim.id!]: e.target.value })}
+                      className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white text-sm"
+                    />
+                    <button
+                      onClick={() => handleApprove(claim)}
+                      disabled={decidingId === claim.id}
+                      className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => setRejecting(claim)}
+                      disabled={decidingId === claim.id}
+                      className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                ) : claim.decidedByName && (
+                  <div className="text-sm text-gray-500 text-right">
+                    {claim.status === 'rejected'
+                      ? <>Rejected by {claim.decidedByName}{claim.rejectionReason && <>: {claim.rejectionReason}</>}</>
+                      : <>{claim.approvedHours} h approved by {claim.decidedByName} at {claim.multiplier}× pay</>}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Reject Modal */}
+      {rejecting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-bold mb-4 text-gray-900 dark:text-white">Reject Overtime</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Tell {rejecting.employeeName} why their {MONTHS[rejecting.month]} {rejecting.year} overtime is being rejected:
+            </p>
+            <textarea
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              rows={4}
+              maxLength={500}
+              placeholder="Enter rejection reason..."
+            />
+            <div className="flex gap-2 mt-4">
+              <button
+                onClick={handleReject}
+                disabled={decidingId === rejecting.id}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+              >
+                Reject
+              </button>
+              <button
+                onClick={() => {
+                  setRejecting(null);
+                  setRejectionReason('');
+                }}
+                className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
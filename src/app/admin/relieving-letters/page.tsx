@@ -17,6 +17,7 @@ import { generateRelievingLetterPDF } from '@/components/relieving-letter/Reliev
 import { RelievingLetterTable } from '@/components/relieving-letter/RelievingLetterTable';
 import { RelievingLetterModal } from '@/components/relieving-letter/RelievingLetterModal';
 import { RelievingLetterPreview } from '@/components/relieving-letter/RelievingLetterPreview';
+import { FnfSettlementDialog } from '@/components/relieving-letter/FnfSettlementDialog';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { FileText, Plus } from 'lucide-react';
 import { RelievingLetterAccessGate } from '@/components/relieving-letter/RelievingLetterAccessGate';
@@ -49,6 +50,9 @@ function AdminRelievingLettersContent() {
   const [previewLetter, setPreviewLetter] = useState<RelievingLetter | null>(null);
   const [downloadingPdf, setDownloadingPdf] = useState(false);
 
+  // Full & final settlement state
+  const [fnfLetter, setFnfLetter] = useState<RelievingLetter | null>(null);
+
   const canAccess = isAdmin || isManager;
 
   useEffect(() => {
@@ -152,6 +156,7 @@ function AdminRelievingLettersContent() {
               letters={letters}
               onEdit={handleEditLetter}
               onView={handleViewLetter}
+              onFnf={setFnfLetter}
               onRefresh={fetchLetters}
               loading={loading}
             />
@@ -187,6 +192,14 @@ function AdminRelievingLettersContent() {
         />
       )}
 
+      {/* Full & Final Settlement Dialog */}
+      <FnfSettlementDialog
+        letter={fnfLetter}
+        onClose={() => setFnfLetter(null)}
+        canEdit={isAdmin}
+        onSettled={fetchLetters}
+      />
+
       {/* Preview Dialog */}
       <Dialog open={!!previewLetter} onOpenChange={() => setPreviewLetter(null)}>
         <DialogContent className="max-w-full sm:max-w-4xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
@@ -9,7 +9,7 @@ import { useState, useEffect } from 'react';
 import { toast } from 'react-toastify';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
-import { PayrollSettings } from '@/types/payroll.types';
+import { EmployeeBankAccount, EmployeeSalaryComponent, PayrollSettings } from '@/types/payroll.types';
 import { payrollService } from '@/services/payroll.service';
 import { authenticatedFetch } from '@/lib/api-client';
 import { SalaryConfigModal } from '@/components/payroll/SalaryConfigModal';
@@ -18,6 +18,10 @@ import { GenerateSlipsPanel } from '@/components/payroll/GenerateSlipsPanel';
 import { TemplateManager } from '@/components/payroll/TemplateManager';
 import { FormulaEditor } from '@/components/payroll/FormulaEditor';
 import { PayrollAccessGate } from '@/components/payroll/PayrollAccessGate';
+import { TaxDeclarationsPanel } from '@/components/payroll/TaxDeclarationsPanel';
+import { LoansPanel } from '@/components/payroll/LoansPanel';
+import { SalaryComponentsManager } from '@/components/payroll/SalaryComponentsManager';
+import { SalaryRevisionsDialog } from '@/components/payroll/SalaryRevisionsDialog';
 import dynamic from 'next/dynamic';
 import {
   Users,
@@ -26,6 +30,9 @@ import {
   Settings,
   FunctionSquare,
   IndianRupee,
+  Receipt,
+  HandCoins,
+  Layers,
 } from 'lucide-react';
 
 // Lazy load the attendance calendar modal (same as used in attendance tray)
@@ -45,6 +52,12 @@ interface Employee {
   doj?: string | null;
   pan?: string | null;
   grossSalary?: number;
+  statutoryDeductions?: boolean;
+  ptState?: string | null;
+  uan?: string | null;
+  esiIpNumber?: string | null;
+  bankAccount?: EmployeeBankAccount | null;
+  salaryComponents?: EmployeeSalaryComponent[];
   status: string;
 }
 
@@ -69,11 +82,26 @@ const TABS = [
     label: 'Payroll Settings',
     icon: Settings,
   },
+  {
+    value: 'components',
+    label: 'Components',
+    icon: Layers,
+  },
   {
     value: 'formula',
     label: 'Logic',
     icon: FunctionSquare,
   },
+  {
+    value: 'tax',
+    label: 'Tax Declarations',
+    icon: Receipt,
+  },
+  {
+    value: 'loans',
+    label: 'Loans & Advances',
+    icon: HandCoins,
+  },
 ] as const;
 
 export default function AdminSalaryConfigPage() {
@@ -84,6 +112,7 @@ export default function AdminSalaryConfigPage() {
   const [modalOpen, setModalOpen] = useState(false);
   const [modalLoading, setModalLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('employees');
+  const [revisionsEmployee, setRevisionsEmployee] = useState<Employee | null>(null);
 
   // Attendance calendar modal state
   const [showAttendanceModal, setShowAttendanceModal] = useState(false);
@@ -135,6 +164,12 @@ export default function AdminSalaryConfigPage() {
     department?: string | null;
     designation: string;
     grossSalary: number;
+    statutoryDeductions: boolean;
+    ptState?: string | null;
+    uan?: string | null;
+    esiIpNumber?: string | null;
+    bankAccount?: { accountNumber?: string; ifsc: string; beneficiaryName: string; bankName?: string };
+    salaryComponents: EmployeeSalaryComponent[];
   }) => {
     if (!selectedEmployee) return;
 
@@ -272,13 +307,23 @@ export default function AdminSalaryConfigPage() {
                           {employee.grossSalary ? `₹${employee.grossSalary.toLocaleString('en-IN', { maximumFractionDigits: 0 })}` : '-'}
                         </td>
                         <td className="px-3 py-3 text-right sticky right-0 bg-white dark:bg-gray-800 z-10 shadow-[-4px_0_6px_-2px_rgba(0,0,0,0.05)]">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleConfigureSalary(employee)}
-                          >
-                            Configure
-                          </Button>
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setRevisionsEmployee(employee)}
+                              disabled={!employee.grossSalary}
+                            >
+                              Revisions
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleConfigureSalary(employee)}
+                            >
+                              Configure
+                            </Button>
+                          </div>
                         </td>
                       </tr>
                     ))}
@@ -316,7 +361,18 @@ export default function AdminSalaryConfigPage() {
           </div>
         </TabsContent>
 
-        {/* Tab 5: Formula */}
+        {/* Tab 5: Salary Components */}
+        <TabsContent value="components">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <h2 className="text-base font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+              <Layers className="h-4 w-4 text-gray-500" />
+              Salary Components
+            </h2>
+            <SalaryComponentsManager />
+          </div>
+        </TabsContent>
+
+        {/* Tab 6: Formula */}
         <TabsContent value="formula">
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
             <FormulaEditor
@@ -325,6 +381,28 @@ export default function AdminSalaryConfigPage() {
             />
           </div>
         </TabsContent>
+
+        {/* Tab 7: Tax Declarations */}
+        <TabsContent value="tax">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <h2 className="text-base font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+              <Receipt className="h-4 w-4 text-gray-500" />
+              Tax Declarations
+            </h2>
+            <TaxDeclarationsPanel employees={employees} />
+          </div>
+        </TabsContent>
+
+        {/* Tab 8: Loans & Advances */}
+        <TabsContent value="loans">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <h2 className="text-base font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+              <HandCoins className="h-4 w-4 text-gray-500" />
+              Loans & Advances
+            </h2>
+            <LoansPanel employees={employees} />
+          </div>
+        </TabsContent>
       </Tabs>
 
       {/* Salary Config Modal */}
@@ -336,6 +414,15 @@ export default function AdminSalaryConfigPage() {
         isLoading={modalLoading}
       />
 
+      {/* Salary Revisions Dialog */}
+      <SalaryRevisionsDialog
+        open={!!revisionsEmployee}
+        onOpenChange={(open) => !open && setRevisionsEmployee(null)}
+        employee={revisionsEmployee}
+        settings={settings}
+        onRevised={fetchEmployees}
+      />
+
       {/* Attendance Calendar Modal */}
       {selectedEmployeeForAttendance && (
         <AttendanceCalendarModal
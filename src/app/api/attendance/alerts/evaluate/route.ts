@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { adminDb } from '@/lib/firebase-admin';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { attendanceAlertAdminService } from '@/services/attendance-alert-admin.service';
+import { regularizationAdminService } from '@/services/regularization-admin.service';
+import { AlertType } from '@/types/attendance.types';
+
+const ALERT_TITLES: Record<AlertType, string> = {
+  late: 'Late clock-in',
+  'early-departure': 'Early clock-out',
+  'missing-clockout': 'Missing clock-out',
+  'excessive-break': 'Long break',
+  overtime: 'Overtime',
+};
+
+/**
+ * GET /api/attendance/alerts/evaluate
+ * Scheduled (Vercel cron, authorized with CRON_SECRET) or run by an admin -
+ * evaluate yesterday's and today's attendance against shifts and the policy,
+ * persist the alerts, and notify the employees and their managers of new ones.
+ * Yesterday is re-run so overnight shifts and late clock-outs are caught.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isCron = !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+    if (!isCron) {
+      const authResult = await verifyAuthToken(request);
+      if (!authResult.success || !authResult.user) {
+        return ErrorResponses.unauthorized();
+      }
+      if (authResult.user.claims.role !== 'admin') {
+        return ErrorResponses.forbidden('Only admins can run the attendance alert check');
+      }
+    }
+
+    const now = new Date();
+    const today = toAttendanceDate(now);
+    const yesterday = toAttendanceDate(new Date(now.getTime() - 24 * 3600000));
+    const created = [
+      ...(await attendanceAlertAdminService.evaluateDate(yesterday, now)),
+      ...(await attendanceAlertAdminService.evaluateDate(today, now)),
+    ];
+
+    if (created.length > 0) {
+      try {
+        const { sendNotification } = await import('@/lib/notifications/send-notification');
+
+        for (const alert of created) {
+          await sendNotification({
+            userIds: [alert.employeeId],
+            title: ALERT_TITLES[alert.type],
+            body: alert.message,
+            data: { url: '/attendance/history', type: 'attendance_alert' },
+          });
+        }
+
+        // One digest per manager (admins for employees without one)
+        const byManager = new Map<string, Set<string>>();
+        let adminIds: string[] | null = null;
+        for (const employeeId of new Set(created.map((alert) => alert.employeeId))) {
+          const manager = await regularizationAdminService.getAssignedManager(employeeId);
+          if (!manager && !adminIds) {
+            adminIds = (await adminDb.collection('users').where('role', '==', 'admin').get()).docs.map((d) => d.id);
+          }
+          for (const id of manager ? [manager.id] : adminIds!) {
+            byManager.set(id, (byManager.get(id) ?? new Set()).add(employeeId));
+          }
+        }
+        for (const [managerId, employeeIds] of byManager) {
+          const alerts = created.filter((alert) => employeeIds.has(alert.employeeId));
+          const names = [...new Set(alerts.map((alert) => alert.employeeName))];
+          await sendNotification({
+            userIds: [managerId],
+            title: `${alerts.length} new attendance alert${alerts.length === 1 ? '' : 's'}`,
+            body: `${names.join(', ')}: ${[...new Set(alerts.map((alert) => ALERT_TITLES[alert.type].toLowerCase()))].join(', ')}.`,
+            data: { url: '/admin/attendance-alerts', type: 'attendance_alert' },
+          });
+        }
+      } catch (notifyError) {
+        console.error('[attendance-alerts] Failed to send notifications:', notifyError);
+      }
+    }
+
+    return NextResponse.json(
+      { created: created.length, alertIds: created.map((alert) => alert.id) },
+      { status: 200 }
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
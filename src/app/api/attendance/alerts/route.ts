@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { getAccessibleEmployeeIds } from '@/lib/manager-access';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { attendanceAlertAdminService } from '@/services/attendance-alert-admin.service';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/attendance/alerts?from=2026-04-01&to=2026-04-30&scope=mine|team
+ * Alerts on attendance days in the range (today by default). Everyone sees
+ * their own (scope=mine, the default); managers see their assigned
+ * employees' alerts and admins everyone's with scope=team.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const today = toAttendanceDate(new Date());
+    const from = searchParams.get('from') || today;
+    const to = searchParams.get('to') || from;
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+      return ErrorResponses.badRequest('Invalid date range');
+    }
+
+    const { uid } = authResult.user;
+    const role = authResult.user.claims.role;
+
+    if (searchParams.get('scope') !== 'team') {
+      const alerts = await attendanceAlertAdminService.getAlerts(from, to, [uid]);
+      return NextResponse.json(alerts, { status: 200 });
+    }
+
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view team alerts');
+    }
+
+    const employeeIds = role === 'admin' ? undefined : await getAccessibleEmployeeIds(uid, role);
+    const alerts = await attendanceAlertAdminService.getAlerts(from, to, employeeIds);
+    return NextResponse.json(alerts, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { adminDb } from '@/lib/firebase-admin';
+import { attendanceAdminService } from '@/services/attendance-admin.service';
+import { regularizationAdminService } from '@/services/regularization-admin.service';
+
+const timeFormatter = new Intl.DateTimeFormat('en-IN', {
+  timeZone: 'Asia/Kolkata',
+  day: '2-digit',
+  month: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+/**
+ * GET /api/attendance/auto-clock-out
+ * Scheduled (Vercel cron, authorized with CRON_SECRET) or run by an admin -
+ * close records left open past the shift end plus grace (or the policy's
+ * autoClockOutTime) as incomplete, and tell the employees and their managers
+ * so the real clock-out is regularized.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isCron = !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+    if (!isCron) {
+      const authResult = await verifyAuthToken(request);
+      if (!authResult.success || !authResult.user) {
+        return ErrorResponses.unauthorized();
+      }
+      if (authResult.user.claims.role !== 'admin') {
+        return ErrorResponses.forbidden('Only admins can run the auto clock-out');
+      }
+    }
+
+    const closed = await attendanceAdminService.autoClockOut();
+
+    if (closed.length > 0) {
+      try {
+        const { sendNotification } = await import('@/lib/notifications/send-notification');
+
+        for (const record of closed) {
+          await sendNotification({
+            userIds: [record.employeeId],
+            title: 'You were clocked out automatically',
+            body: `No clock-out was recorded, so your attendance was closed at ${timeFormatter.format(record.clockOut)} and marked incomplete. Request a regularization with your actual clock-out time.`,
+            data: { url: '/attendance/history', type: 'attendance_auto_clock_out' },
+          });
+        }
+
+        // One message per manager (admins for employees without one)
+        const byManager = new Map<string, string[]>();
+        let adminIds: string[] | null = null;
+        for (const record of closed) {
+          const manager = await regularizationAdminService.getAssignedManager(record.employeeId);
+          if (!manager && !adminIds) {
+            adminIds = (await adminDb.collection('users').where('role', '==', 'admin').get()).docs.map((d) => d.id);
+          }
+          for (const id of manager ? [manager.id] : adminIds!) {
+            byManager.set(id, [...(byManager.get(id) ?? []), record.employeeName]);
+          }
+        }
+        for (const [managerId, names] of byManager) {
+          await sendNotification({
+            userIds: [managerId],
+            title: 'Missing clock-outs',
+            body: `${names.join(', ')} did not clock out and ${names.length === 1 ? 'was' : 'were'} clocked out automatically. Their attendance is marked incomplete until regularized.`,
+            data: { url: '/admin/regularization-approvals', type: 'attendance_auto_clock_out' },
+          });
+        }
+      } catch (notifyError) {
+        console.error('[auto-clock-out] Failed to send notifications:', notifyError);
+      }
+    }
+
+    return NextResponse.json(
+      { closed: closed.length, recordIds: closed.map((record) => record.id) },
+      { status: 200 }
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,9 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { attendanceAdminService } from '@/services/attendance-admin.service';
 import { clockInDataSchema } from '@/lib/attendance-validation';
-import { ErrorResponses } from '@/lib/api-error-handler';
+import { ApiError, ErrorResponses, handleApiError } from '@/lib/api-error-handler';
+import { attendanceSiteAdminService } from '@/services/attendance-site-admin.service';
+import { validateOfflinePunchTime } from '@/lib/offline-punches';
+import { z } from 'zod';
 
+const offlinePunchSchema = z.object({
+  idempotencyKey: z.string().min(1).max(100).optional(),
+  offline: z.boolean().optional(),
+});
+
+/**
+ * POST /api/attendance/clock-in
+ * Clock in, checked against the geofence. A punch replayed from the offline
+ * queue (offline: true) keeps its device time and carries an idempotency key,
+ * so delivering it again returns the record it created.
+ */
 export async function POST(request: NextRequest) {
+  // Reserved for this delivery; freed again unless the punch's record was written
+  let idempotencyKey: string | undefined;
   try {
     const { verifyAuthToken } = await import('@/lib/server-auth');
     const authResult = await verifyAuthToken(request);
@@ -26,9 +42,44 @@ export async function POST(request: NextRequest) {
       notes: body.notes,
     });
 
+    const punch = offlinePunchSchema.parse(body);
+    if (punch.offline) {
+      if (!punch.idempotencyKey) {
+        return ErrorResponses.badRequest('An idempotency key is required for offline punches');
+      }
+      const timeError = validateOfflinePunchTime(validatedData.timestamp);
+      if (timeError) {
+        return ErrorResponses.badRequest(timeError);
+      }
+    }
+
+    if (punch.idempotencyKey) {
+      const replayed = await attendanceAdminService.beginPunch(
+        punch.idempotencyKey,
+        validatedData.employeeId,
+        'clock-in'
+      );
+      if (replayed) {
+        return NextResponse.json(replayed, { status: 200 });
+      }
+      idempotencyKey = punch.idempotencyKey;
+    }
+
+    const geofence = await attendanceSiteAdminService.checkPunch(
+      validatedData.employeeId,
+      'clock in',
+      validatedData.location,
+      validatedData.timestamp
+    );
+
     const record = await attendanceAdminService.clockIn({
       ...validatedData,
+      geofence,
       employeeName: body.employeeName || authResult.user.email || '',
+      ...(punch.offline && {
+        offline: { capturedAt: validatedData.timestamp.toISOString(), syncedAt: new Date().toISOString() },
+      }),
+      idempotencyKey,
     });
 
     if (!record) {
@@ -42,6 +93,10 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     console.error('Clock in error:', error);
 
+    if (error instanceof ApiError) {
+      return handleApiError(error);
+    }
+
     if (error.name === 'ZodError') {
       return NextResponse.json(
         { error: 'Validation Error', message: 'Invalid input data', details: error.errors },
@@ -53,5 +108,9 @@ export async function POST(request: NextRequest) {
       { error: 'Internal Server Error', message: error.message || 'Failed to clock in' },
       { status: 500 }
     );
+  } finally {
+    if (idempotencyKey) {
+      await attendanceAdminService.releasePunch(idempotencyKey).catch(() => undefined);
+    }
   }
 }
@@ -1,11 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { attendanceAdminService } from '@/services/attendance-admin.service';
 import { clockOutDataSchema } from '@/lib/attendance-validation';
-import { ErrorResponses } from '@/lib/api-error-handler';
+import { ApiError, ErrorResponses, handleApiError } from '@/lib/api-error-handler';
+import { attendanceSiteAdminService } from '@/services/attendance-site-admin.service';
+import { compOffAdminService } from '@/services/comp-off-admin.service';
 import { misConfigService } from '@/services/mis-config.service';
 import { formSubmissionService } from '@/services/form-submission.service';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { validateOfflinePunchTime } from '@/lib/offline-punches';
+import { z } from 'zod';
 
+const offlinePunchSchema = z.object({
+  idempotencyKey: z.string().min(1).max(100).optional(),
+  offline: z.boolean().optional(),
+});
+
+/**
+ * POST /api/attendance/clock-out
+ * Clock out, checked against the daily MIS forms and the geofence. A punch
+ * replayed from the offline queue (offline: true) keeps its device time,
+ * carries an idempotency key, may leave out the record when the clock-in was
+ * queued too, and replaces an automatic clock-out.
+ */
 export async function POST(request: NextRequest) {
+  // Reserved for this delivery; freed again unless the punch's record was written
+  let idempotencyKey: string | undefined;
   try {
     const { verifyAuthToken } = await import('@/lib/server-auth');
     const authResult = await verifyAuthToken(request);
@@ -20,10 +39,42 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
+    const timestamp = new Date(body.timestamp || Date.now());
+
+    const punch = offlinePunchSchema.parse(body);
+    if (punch.offline) {
+      if (!punch.idempotencyKey) {
+        return ErrorResponses.badRequest('An idempotency key is required for offline punches');
+      }
+      const timeError = validateOfflinePunchTime(timestamp);
+      if (timeError) {
+        return ErrorResponses.badRequest(timeError);
+      }
+    }
+
+    if (punch.idempotencyKey) {
+      const replayed = await attendanceAdminService.beginPunch(
+        punch.idempotencyKey,
+        authResult.user.uid,
+        'clock-out'
+      );
+      if (replayed) {
+        return NextResponse.json(replayed, { status: 200 });
+      }
+      idempotencyKey = punch.idempotencyKey;
+    }
+
+    // Both punches were queued offline, so the device never learnt the record
+    const recordId = body.recordId ||
+      (punch.offline ? await attendanceAdminService.findRecordToClockOut(authResult.user.uid, timestamp) : null);
+    if (punch.offline && !recordId) {
+      throw new ApiError(409, 'No open attendance record to clock out');
+    }
 
     const validatedData = clockOutDataSchema.parse({
       ...body,
-      timestamp: new Date(body.timestamp || Date.now()),
+      recordId,
+      timestamp,
     });
 
     // Check if daily form submission is required
@@ -39,7 +90,11 @@ export async function POST(request: NextRequest) {
       legacyDailyFormTemplateId: misConfig?.dailyFormTemplateId,
     });
 
-    if (misConfig && authResult.user) {
+    // Forms are checked for today only; a punch synced late from the offline
+    // queue for an earlier day goes through
+    const isToday = toAttendanceDate(validatedData.timestamp) === toAttendanceDate(new Date());
+
+    if (misConfig && authResult.user && isToday) {
       // NEW: Check formToUserMappings for required forms
       if (misConfig.formToUserMappings && misConfig.formToUserMappings.length > 0) {
         const requiredForms = misConfig.formToUserMappings.filter(
@@ -165,16 +220,39 @@ export async function POST(request: NextRequest) {
     console.log('[Clock-out API] Proceeding with clock-out');
     console.log('[Clock-out API] ========================================');
 
+    const geofence = await attendanceSiteAdminService.checkPunch(
+      authResult.user.uid,
+      'clock out',
+      validatedData.location,
+      validatedData.timestamp
+    );
+
     const record = await attendanceAdminService.clockOut(validatedData.recordId, {
       timestamp: validatedData.timestamp,
       location: validatedData.location,
       notes: validatedData.notes,
+      geofence,
+      ...(punch.offline && {
+        offline: { capturedAt: validatedData.timestamp.toISOString(), syncedAt: new Date().toISOString() },
+      }),
+      idempotencyKey,
     });
 
+    // Work on a holiday or weekly off earns comp-off once a manager approves it
+    try {
+      await compOffAdminService.creditWorkedDay(record.employeeId, record.clockIn, record.date);
+    } catch (creditError) {
+      console.error('[Clock-out API] Failed to credit comp-off:', creditError);
+    }
+
     return NextResponse.json(record, { status: 200 });
   } catch (error: any) {
     console.error('Clock out error:', error);
 
+    if (error instanceof ApiError) {
+      return handleApiError(error);
+    }
+
     if (error.name === 'ZodError') {
       return NextResponse.json(
         { error: 'Validation Error', message: 'Invalid input data', details: error.errors },
@@ -186,5 +264,9 @@ export async function POST(request: NextRequest) {
       { error: 'Internal Server Error', message: error.message || 'Failed to clock out' },
       { status: 500 }
     );
+  } finally {
+    if (idempotencyKey) {
+      await attendanceAdminService.releasePunch(idempotencyKey).catch(() => undefined);
+    }
   }
 }
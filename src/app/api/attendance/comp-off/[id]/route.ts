@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { compOffAdminService } from '@/services/comp-off-admin.service';
+import { z } from 'zod';
+
+/**
+ * PATCH /api/attendance/comp-off/[id]
+ * Admins/Managers - approve or reject a pending comp-off credit
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const role = authResult.user.claims.role;
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can approve comp-off');
+    }
+
+    const decisionSchema = z.discriminatedUnion('action', [
+      z.object({ action: z.literal('approve') }),
+      z.object({ action: z.literal('reject'), reason: z.string().trim().min(1, 'Reason is required').max(500) }),
+    ]);
+
+    const { id } = await params;
+    const body = await request.json();
+    const decision = decisionSchema.parse(body);
+
+    const credit = await compOffAdminService.decideCredit(id, decision, { uid: authResult.user.uid, role });
+
+    try {
+      const { sendNotification } = await import('@/lib/notifications/send-notification');
+      await sendNotification({
+        userIds: [credit.employeeId],
+        title: credit.status === 'approved' ? 'Comp-Off Approved' : 'Comp-Off Rejected',
+        body: credit.status === 'approved'
+          ? `${credit.days} day${credit.days === 1 ? '' : 's'} of comp-off for working on ${credit.workDate} can be used until ${credit.expiresOn}`
+          : `Comp-off for working on ${credit.workDate} was rejected: ${credit.rejectionReason}`,
+        data: { url: '/attendance', type: 'comp_off' },
+      });
+    } catch (notifyError) {
+      console.error('[comp-off] Failed to notify employee:', notifyError);
+    }
+
+    return NextResponse.json(credit, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Comp-off credit not found') {
+      return ErrorResponses.notFound('Comp-off credit');
+    }
+    return handleApiError(error);
+  }
+}
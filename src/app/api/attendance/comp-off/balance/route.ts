@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { compOffAdminService } from '@/services/comp-off-admin.service';
+
+/**
+ * GET /api/attendance/comp-off/balance
+ * The signed-in employee's comp-off available to apply for
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const balance = await compOffAdminService.getBalance(authResult.user.uid);
+    return NextResponse.json(balance, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { getAccessibleEmployeeIds } from '@/lib/manager-access';
+import { compOffAdminService } from '@/services/comp-off-admin.service';
+import { CompOffCreditStatus } from '@/types/attendance.types';
+
+/**
+ * GET /api/attendance/comp-off?scope=mine|team&status=pending
+ * Everyone sees their own comp-off credits (scope=mine, the default).
+ * Managers see their assigned employees' credits and admins every credit
+ * with scope=team.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get('scope') === 'team' ? 'team' : 'mine';
+    const status = (searchParams.get('status') || undefined) as CompOffCreditStatus | undefined;
+    const { uid } = authResult.user;
+    const role = authResult.user.claims.role;
+
+    if (scope === 'mine') {
+      const credits = await compOffAdminService.getCredits({ employeeIds: [uid], status });
+      return NextResponse.json(credits, { status: 200 });
+    }
+
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view team comp-off');
+    }
+
+    const employeeIds = role === 'admin' ? undefined : await getAccessibleEmployeeIds(uid, role);
+    const credits = await compOffAdminService.getCredits({ employeeIds, status });
+    return NextResponse.json(credits, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
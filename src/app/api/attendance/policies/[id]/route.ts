@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+import { z } from 'zod';
+
+/**
+ * PATCH /api/attendance/policies/[id]
+ * Admin only - update an attendance policy, e.g. its hours or switch it off
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can update attendance policies');
+    }
+
+    const updateSchema = z.object({
+      name: z.string().trim().min(1, 'Policy name is required').max(100).optional(),
+      graceMinutes: z.number().min(0).max(60, 'Grace period cannot exceed 60 minutes').optional(),
+      maxBreakMinutes: z.number().min(0).max(480, 'Max break duration cannot exceed 8 hours').optional(),
+      autoClockOutTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (use HH:mm)').optional(),
+      geolocationRequired: z.boolean().optional(),
+      geolocationRadius: z.number().min(0).max(10000, 'Radius cannot exceed 10km').optional(),
+      overtimeMultiplier: z.number().min(1).max(3, 'Overtime multiplier cannot exceed 3').optional(),
+      minDailyHours: z.number().min(0).max(24).optional(),
+      maxDailyHours: z.number().min(0).max(24).optional(),
+      weeklyOffDays: z.array(z.number().int().min(0).max(6)).max(6, 'At least one day a week must be a working day').optional(),
+      compOffExpiryDays: z.number().int().min(1).max(365, 'Comp-off expiry cannot exceed a year').optional(),
+      isActive: z.boolean().optional(),
+    });
+
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = updateSchema.parse(body);
+
+    const policy = await attendancePolicyAdminService.updatePolicy(id, validatedData);
+    return NextResponse.json(policy, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Policy not found') {
+      return ErrorResponses.notFound('Policy');
+    }
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/attendance/policies/[id]
+ * Admin only - delete a policy that is not assigned
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can delete attendance policies');
+    }
+
+    const { id } = await params;
+    await attendancePolicyAdminService.deletePolicy(id);
+
+    return NextResponse.json({ message: 'Policy deleted' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Policy not found') {
+      return ErrorResponses.notFound('Policy');
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+
+/**
+ * DELETE /api/attendance/policies/assignments/[id]
+ * Admin only - remove a policy assignment
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can remove policy assignments');
+    }
+
+    const { id } = await params;
+    await attendancePolicyAdminService.deleteAssignment(id);
+
+    return NextResponse.json({ message: 'Assignment removed' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Assignment not found') {
+      return ErrorResponses.notFound('Assignment');
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { policyAssignmentSchema } from '@/lib/attendance-validation';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+
+/**
+ * GET /api/attendance/policies/assignments
+ * Admins/Managers - which policy applies to the company, teams and employees, and when
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view policy assignments');
+    }
+
+    const assignments = await attendancePolicyAdminService.getAssignments();
+    return NextResponse.json(assignments, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/attendance/policies/assignments
+ * Admin only - assign a policy to the company, a manager's team or an employee
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can assign attendance policies');
+    }
+
+    const body = await request.json();
+    const validatedData = policyAssignmentSchema.parse(body);
+
+    const assignment = await attendancePolicyAdminService.createAssignment(validatedData, authResult.user.uid);
+    return NextResponse.json(assignment, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Policy not found') {
+      return ErrorResponses.notFound('Policy');
+    }
+    if (error instanceof Error && error.message === 'Employee not found') {
+      return ErrorResponses.notFound('Employee');
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+
+/**
+ * GET /api/attendance/policies/resolve?employeeId=...&date=YYYY-MM-DD
+ * The attendance policy in force for an employee on a day (today by default).
+ * Employees can only see their own; managers their assigned employees.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const employeeId = searchParams.get('employeeId') || authResult.user.uid;
+    const date = searchParams.get('date');
+    const userRole = authResult.user.claims.role;
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return ErrorResponses.badRequest('Invalid date (use YYYY-MM-DD)');
+    }
+
+    if (employeeId !== authResult.user.uid) {
+      if (!['admin', 'manager'].includes(userRole)) {
+        return ErrorResponses.forbidden('You can only view your own attendance policy');
+      }
+      if (userRole === 'manager') {
+        const { hasAccessToEmployee } = await import('@/lib/manager-access');
+        if (!(await hasAccessToEmployee(authResult.user.uid, userRole, employeeId))) {
+          return ErrorResponses.forbidden('You can only view policies for your assigned employees');
+        }
+      }
+    }
+
+    // Midday IST falls on the requested attendance day
+    const at = date ? new Date(`${date}T12:00:00+05:30`) : new Date();
+    const policy = await attendancePolicyAdminService.resolveForEmployee(employeeId, at);
+    return NextResponse.json(policy, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
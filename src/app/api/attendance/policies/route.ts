@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { attendancePolicySchema } from '@/lib/attendance-validation';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+import { z } from 'zod';
+
+/**
+ * GET /api/attendance/policies
+ * Admins/Managers - attendance policies
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view attendance policies');
+    }
+
+    const policies = await attendancePolicyAdminService.getPolicies();
+    return NextResponse.json(policies, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/attendance/policies
+ * Admin only - create an attendance policy
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can create attendance policies');
+    }
+
+    const body = await request.json();
+    const validatedData = attendancePolicySchema.parse(body);
+    const { isActive } = z.object({ isActive: z.boolean().default(true) }).parse(body);
+
+    const policy = await attendancePolicyAdminService.createPolicy({ ...validatedData, isActive });
+    return NextResponse.json(policy, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { getAccessibleEmployeeIds } from '@/lib/manager-access';
+import { attendanceRegisterAdminService } from '@/services/attendance-register-admin.service';
+
+/**
+ * GET /api/attendance/register?month=3&year=2026
+ * Admins/Managers - the month's (0-11) muster roll: a day-wise
+ * P/A/L/H/WFH/HD code per employee with day counts, hours worked and the
+ * paid days payroll computed. Managers see their team.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const role = authResult.user.claims.role;
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view the attendance register');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const month = Number(searchParams.get('month'));
+    const year = Number(searchParams.get('year'));
+    if (!Number.isInteger(month) || month < 0 || month > 11 || !Number.isInteger(year) || year < 2000) {
+      return ErrorResponses.badRequest('Invalid month or year');
+    }
+
+    const employeeIds = await getAccessibleEmployeeIds(authResult.user.uid, role);
+    const register = await attendanceRegisterAdminService.getRegister(month, year, employeeIds);
+    return NextResponse.json(register, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { regularizationAdminService } from '@/services/regularization-admin.service';
+import { compOffAdminService } from '@/services/comp-off-admin.service';
+import { z } from 'zod';
+
+/**
+ * PATCH /api/attendance/regularizations/[id]
+ * Admins/Managers - approve (patching the attendance record) or reject a pending request
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const role = authResult.user.claims.role;
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can decide regularization requests');
+    }
+
+    const decisionSchema = z.discriminatedUnion('action', [
+      z.object({ action: z.literal('approve') }),
+      z.object({ action: z.literal('reject'), reason: z.string().trim().min(1, 'Reason is required').max(500) }),
+    ]);
+
+    const { id } = await params;
+    const body = await request.json();
+    const decision = decisionSchema.parse(body);
+
+    const decided = await regularizationAdminService.decideRequest(id, decision, { uid: authResult.user.uid, role });
+
+    // A corrected holiday or weekly off earns comp-off like a clock-out does
+    if (decided.status === 'approved' && decided.after?.clockIn && decided.after.clockOut) {
+      try {
+        await compOffAdminService.creditWorkedDay(decided.employeeId, new Date(decided.after.clockIn));
+      } catch (creditError) {
+        console.error('[regularizations] Failed to credit comp-off:', creditError);
+      }
+    }
+
+    try {
+      const { sendNotification } = await import('@/lib/notifications/send-notification');
+      await sendNotification({
+        userIds: [decided.employeeId],
+        title: decided.status === 'approved' ? 'Regularization Approved' : 'Regularization Rejected',
+        body: decided.status === 'approved'
+          ? `Your attendance for ${decided.date} has been corrected`
+          : `Your attendance correction for ${decided.date} was rejected: ${decided.rejectionReason}`,
+        data: { url: '/attendance/history', type: 'attendance_regularization' },
+      });
+    } catch (notifyError) {
+      console.error('[regularizations] Failed to notify employee:', notifyError);
+    }
+
+    return NextResponse.json(decided, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Regularization request not found') {
+      return ErrorResponses.notFound('Regularization request');
+    }
+    if (error instanceof Error && error.message === 'Attendance record not found') {
+      return ErrorResponses.notFound('Attendance record');
+    }
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/attendance/regularizations/[id]
+ * Requester only - withdraw a request that is still pending
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { id } = await params;
+    await regularizationAdminService.withdrawRequest(id, authResult.user.uid);
+
+    return NextResponse.json({ message: 'Request withdrawn' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Regularization request not found') {
+      return ErrorResponses.notFound('Regularization request');
+    }
+    return handleApiError(error);
+  }
+}
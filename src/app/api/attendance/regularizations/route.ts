@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { getAccessibleEmployeeIds } from '@/lib/manager-access';
+import { adminDb } from '@/lib/firebase-admin';
+import { REGULARIZATION_TYPES } from '@/lib/attendance-regularization';
+import { regularizationAdminService } from '@/services/regularization-admin.service';
+import { RegularizationStatus } from '@/types/attendance.types';
+import { z } from 'zod';
+
+/**
+ * GET /api/attendance/regularizations?scope=mine|team&status=pending
+ * Everyone sees their own requests (scope=mine, the default). Managers see
+ * their assigned employees' requests and admins every request with scope=team.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get('scope') === 'team' ? 'team' : 'mine';
+    const status = (searchParams.get('status') || undefined) as RegularizationStatus | undefined;
+    const { uid } = authResult.user;
+    const role = authResult.user.claims.role;
+
+    if (scope === 'mine') {
+      const requests = await regularizationAdminService.getRequests({ employeeIds: [uid], status });
+      return NextResponse.json(requests, { status: 200 });
+    }
+
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view team requests');
+    }
+
+    const employeeIds = role === 'admin' ? undefined : await getAccessibleEmployeeIds(uid, role);
+    const requests = await regularizationAdminService.getRequests({ employeeIds, status });
+    return NextResponse.json(requests, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/attendance/regularizations
+ * Ask the assigned manager (or the admins, without one) to correct a day's attendance
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const requestSchema = z.object({
+      type: z.enum(['missed-clock-in', 'missed-clock-out', 'wrong-times', 'missed-break']),
+      recordId: z.string().min(1).nullable(),
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+      clockIn: z.iso.datetime().optional(),
+      clockOut: z.iso.datetime().optional(),
+      breakStart: z.iso.datetime().optional(),
+      breakEnd: z.iso.datetime().optional(),
+      reason: z.string().trim().min(1, 'Reason is required').max(500),
+    });
+
+    const body = await request.json();
+    const validatedData = requestSchema.parse(body);
+
+    const created = await regularizationAdminService.submitRequest(authResult.user.uid, validatedData);
+
+    try {
+      const { sendNotification } = await import('@/lib/notifications/send-notification');
+      const notifyIds = created.approverId
+        ? [created.approverId]
+        : (await adminDb.collection('users').where('role', '==', 'admin').get()).docs.map((d) => d.id);
+      if (notifyIds.length > 0) {
+        await sendNotification({
+          userIds: notifyIds,
+          title: 'Attendance Regularization Request',
+          body: `${created.employeeName} requested a correction (${REGULARIZATION_TYPES[created.type]}) for ${created.date}`,
+          data: { url: '/admin/regularization-approvals', type: 'attendance_regularization' },
+        });
+      }
+    } catch (notifyError) {
+      console.error('[regularizations] Failed to notify approver:', notifyError);
+    }
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Attendance record not found') {
+      return ErrorResponses.notFound('Attendance record');
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { attendanceSiteAdminService } from '@/services/attendance-site-admin.service';
+import { z } from 'zod';
+
+/**
+ * PATCH /api/attendance/sites/[id]
+ * Admin only - update an office, e.g. move its pin or switch it off
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can update attendance sites');
+    }
+
+    const updateSchema = z.object({
+      name: z.string().trim().min(1, 'Site name is required').max(100).optional(),
+      address: z.string().trim().max(300).optional(),
+      latitude: z.number().min(-90).max(90).optional(),
+      longitude: z.number().min(-180).max(180).optional(),
+      radius: z.number().min(10, 'Radius must be at least 10 m').max(10000, 'Radius cannot exceed 10km').nullable().optional(),
+      isActive: z.boolean().optional(),
+    });
+
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = updateSchema.parse(body);
+
+    const site = await attendanceSiteAdminService.updateOfficeSite(id, validatedData);
+    return NextResponse.json(site, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Site not found') {
+      return ErrorResponses.notFound('Site');
+    }
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/attendance/sites/[id]
+ * Admin only - remove an office
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can delete attendance sites');
+    }
+
+    const { id } = await params;
+    await attendanceSiteAdminService.deleteOfficeSite(id);
+
+    return NextResponse.json({ message: 'Site deleted' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Site not found') {
+      return ErrorResponses.notFound('Site');
+    }
+    return handleApiError(error);
+  }
+}
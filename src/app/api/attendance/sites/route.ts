@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { attendanceSiteAdminService } from '@/services/attendance-site-admin.service';
+import { z } from 'zod';
+
+/**
+ * GET /api/attendance/sites
+ * Admins/Managers - offices and client premises employees can clock in at
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view attendance sites');
+    }
+
+    const sites = await attendanceSiteAdminService.getSites();
+    return NextResponse.json(sites, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/attendance/sites
+ * Admin only - add an office. Client premises come from a client's pinned address.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can add attendance sites');
+    }
+
+    const siteSchema = z.object({
+      name: z.string().trim().min(1, 'Site name is required').max(100),
+      address: z.string().trim().max(300).optional(),
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      radius: z.number().min(10, 'Radius must be at least 10 m').max(10000, 'Radius cannot exceed 10km').optional(),
+      isActive: z.boolean().default(true),
+    });
+
+    const body = await request.json();
+    const validatedData = siteSchema.parse(body);
+
+    const site = await attendanceSiteAdminService.createOfficeSite(validatedData);
+    return NextResponse.json(site, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
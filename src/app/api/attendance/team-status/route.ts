@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { getAccessibleEmployeeIds } from '@/lib/manager-access';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { attendanceAlertAdminService } from '@/services/attendance-alert-admin.service';
+
+/**
+ * GET /api/attendance/team-status?date=2026-04-10
+ * Admins/Managers - where each team member stands on an attendance day
+ * (today by default). Managers see their assigned employees.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const role = authResult.user.claims.role;
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view team attendance');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date') || toAttendanceDate(new Date());
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return ErrorResponses.badRequest('Date must be YYYY-MM-DD');
+    }
+
+    const employeeIds = await getAccessibleEmployeeIds(authResult.user.uid, role);
+    const team = await attendanceAlertAdminService.getTeamStatus(employeeIds, date);
+    return NextResponse.json(team, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
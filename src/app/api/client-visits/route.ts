@@ -3,7 +3,8 @@ import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
 
 /**
  * GET /api/client-visits
- * Get all client visits (admin only)
+ * Get client visits. Admins and managers see all visits; employees only
+ * their own (used to link expense claims to a visit).
  * Uses Admin SDK to bypass Firestore security rules.
  */
 export async function GET(request: NextRequest) {
@@ -16,13 +17,11 @@ export async function GET(request: NextRequest) {
     }
 
     const userRole = authResult.user.claims.role;
-    if (!['admin', 'manager'].includes(userRole)) {
-      return ErrorResponses.forbidden('Only admins and managers can view client visits');
-    }
-
     const { searchParams } = new URL(request.url);
     const clientId = searchParams.get('clientId') || undefined;
-    const employeeId = searchParams.get('employeeId') || undefined;
+    const employeeId = ['admin', 'manager'].includes(userRole)
+      ? searchParams.get('employeeId') || undefined
+      : authResult.user.uid;
     const startDateStr = searchParams.get('startDate');
     const endDateStr = searchParams.get('endDate');
     const search = searchParams.get('search') || undefined;
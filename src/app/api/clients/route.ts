@@ -23,6 +23,8 @@ const createClientSchema = z.object({
     state: z.string().optional(),
     country: z.string().optional(),
     zipCode: z.string().optional(),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
   }).optional(),
   compliance: z.object({
     roc: z.boolean(),
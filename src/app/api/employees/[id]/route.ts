@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { employeeAdminService } from '@/services/employee-admin.service';
 import { z } from 'zod';
 import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { IFSC_PATTERN } from '@/lib/bank-export';
+import { ESI_IP_PATTERN, UAN_PATTERN } from '@/lib/statutory';
 
 // Validation schema for employee update
 const updateEmployeeSchema = z.object({
@@ -17,6 +19,22 @@ const updateEmployeeSchema = z.object({
   pan: z.string().optional().nullable(),
   designation: z.string().optional(),
   grossSalary: z.number().min(0).optional(),
+  statutoryDeductions: z.boolean().optional(),
+  ptState: z.string().optional().nullable(),
+  uan: z.string().trim().regex(UAN_PATTERN, 'UAN must be 12 digits').optional().nullable(),
+  esiIpNumber: z.string().trim().regex(ESI_IP_PATTERN, 'ESIC IP number must be 10 digits').optional().nullable(),
+  // Catalogue components in the salary structure; value overrides the catalogue amount or rate
+  salaryComponents: z.array(z.object({
+    key: z.string().trim().min(1),
+    value: z.number().min(0).nullable(),
+  })).optional(),
+  // Salary bank account; omit accountNumber to keep the one on file, null removes the account
+  bankAccount: z.object({
+    accountNumber: z.string().trim().regex(/^\d{9,18}$/, 'Account number must be 9 to 18 digits').optional(),
+    ifsc: z.string().trim().toUpperCase().regex(IFSC_PATTERN, 'Invalid IFSC (e.g. HDFC0001234)'),
+    beneficiaryName: z.string().trim().min(1, 'Beneficiary name is required').max(100),
+    bankName: z.string().trim().max(100).optional(),
+  }).optional().nullable(),
 });
 
 /**
@@ -100,7 +118,7 @@ export async function PUT(
       );
     }
 
-    const updateData = validationResult.data;
+    const { bankAccount, ...updateData } = validationResult.data;
 
     // Check if employee exists (use Admin SDK)
     const existingEmployee = await employeeAdminService.getById(id);
@@ -133,6 +151,39 @@ export async function PUT(
       }
     }
 
+    if (bankAccount !== undefined && userRole !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can change bank details');
+    }
+    if (bankAccount && !bankAccount.accountNumber && !existingEmployee.bankAccount) {
+      return ErrorResponses.badRequest('Account number is required');
+    }
+
+    if (bankAccount !== undefined) {
+      await employeeAdminService.updateBankAccount(id, bankAccount);
+    }
+
+    // A changed gross on a configured employee goes on the revision timeline,
+    // effective today; backdated revisions are made from the revisions dialog
+    if (
+      updateData.grossSalary !== undefined &&
+      existingEmployee.grossSalary &&
+      updateData.grossSalary > 0 &&
+      updateData.grossSalary !== existingEmployee.grossSalary
+    ) {
+      const { payrollAdminService } = await import('@/services/payroll-admin.service');
+      const { toDateKey } = await import('@/lib/salary-revisions');
+      const today = new Date();
+      await payrollAdminService.createSalaryRevision(
+        {
+          employeeId: id,
+          effectiveDate: toDateKey(today.getFullYear(), today.getMonth(), today.getDate()),
+          grossSalary: updateData.grossSalary,
+          reason: 'Updated from salary configuration',
+        },
+        authResult.user.uid
+      );
+    }
+
     // Update employee using Admin SDK (password update requires separate handling)
     const updatedEmployee = await employeeAdminService.update(id, updateData, password);
 
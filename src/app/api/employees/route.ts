@@ -88,6 +88,11 @@ export async function GET(request: NextRequest) {
             doj: data.doj || null,
             pan: data.pan || null,
             grossSalary: data.grossSalary || 0,
+            statutoryDeductions: data.statutoryDeductions !== false,
+            ptState: data.ptState || null,
+            uan: data.uan || null,
+            esiIpNumber: data.esiIpNumber || null,
+            salaryComponents: data.salaryComponents || [],
             createdAt: data.createdAt?.toDate?.() || new Date(),
             updatedAt: data.updatedAt?.toDate?.() || new Date(),
           };
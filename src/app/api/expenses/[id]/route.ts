@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { hasAccessToEmployee } from '@/lib/manager-access';
+import { expenseAdminService } from '@/services/expense-admin.service';
+import { z } from 'zod';
+
+/**
+ * GET /api/expenses/[id]
+ * The claimant, their manager or an admin - a single claim
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { id } = await params;
+    const claim = await expenseAdminService.getClaimById(id);
+    if (!claim) {
+      return ErrorResponses.notFound('Expense claim');
+    }
+
+    const { uid } = authResult.user;
+    if (claim.employeeId !== uid && !(await hasAccessToEmployee(uid, authResult.user.claims.role, claim.employeeId))) {
+      return ErrorResponses.forbidden('You can only view your own or your assigned employees\' claims');
+    }
+
+    return NextResponse.json(claim, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PATCH /api/expenses/[id]
+ * Admins/Managers - approve or reject a pending claim
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const role = authResult.user.claims.role;
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can approve expense claims');
+    }
+
+    const decisionSchema = z.discriminatedUnion('action', [
+      z.object({ action: z.literal('approve') }),
+      z.object({ action: z.literal('reject'), reason: z.string().trim().min(1, 'Reason is required').max(500) }),
+    ]);
+
+    const { id } = await params;
+    const body = await request.json();
+    const decision = decisionSchema.parse(body);
+
+    const claim = await expenseAdminService.decideClaim(id, decision, { uid: authResult.user.uid, role });
+    return NextResponse.json(claim, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Expense claim not found') {
+      return ErrorResponses.notFound('Expense claim');
+    }
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/expenses/[id]
+ * Claimant only - withdraw a claim that is still pending
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { id } = await params;
+    const claim = await expenseAdminService.withdrawClaim(id, authResult.user.uid);
+
+    return NextResponse.json(claim, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Expense claim not found') {
+      return ErrorResponses.notFound('Expense claim');
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { getAccessibleEmployeeIds } from '@/lib/manager-access';
+import { expenseAdminService } from '@/services/expense-admin.service';
+import { buildClientExpenseCsv } from '@/lib/expenses';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/expenses/client-report?from=2026-04-01&to=2026-04-30&format=csv
+ * Admins/Managers - approved expenses per client for rebilling, as JSON
+ * (default) or a CSV download (format=csv). Managers see their team's claims.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const role = authResult.user.claims.role;
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view expense reports');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') || '';
+    const to = searchParams.get('to') || '';
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+      return ErrorResponses.badRequest('Invalid date range');
+    }
+
+    const employeeIds = role === 'admin' ? undefined : await getAccessibleEmployeeIds(authResult.user.uid, role);
+    const rows = await expenseAdminService.getClientExpenseReport({ from, to }, employeeIds);
+
+    if (searchParams.get('format') !== 'csv') {
+      return NextResponse.json(rows, { status: 200 });
+    }
+
+    return new NextResponse(buildClientExpenseCsv(rows), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv;charset=utf-8;',
+        'Content-Disposition': `attachment; filename="client-expenses-${from}-to-${to}.csv"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { getAccessibleEmployeeIds } from '@/lib/manager-access';
+import { expenseAdminService } from '@/services/expense-admin.service';
+import { EXPENSE_CATEGORIES } from '@/lib/expenses';
+import { ExpenseCategory, ExpenseClaimStatus } from '@/types/expense.types';
+import { z } from 'zod';
+
+/**
+ * GET /api/expenses?scope=mine|team&status=pending
+ * Everyone sees their own claims (scope=mine, the default). Managers see
+ * their assigned employees' claims and admins every claim with scope=team.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get('scope') === 'team' ? 'team' : 'mine';
+    const status = (searchParams.get('status') || undefined) as ExpenseClaimStatus | undefined;
+    const { uid } = authResult.user;
+    const role = authResult.user.claims.role;
+
+    if (scope === 'mine') {
+      const claims = await expenseAdminService.getClaims({ employeeIds: [uid], status });
+      return NextResponse.json(claims, { status: 200 });
+    }
+
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view team claims');
+    }
+
+    const employeeIds = role === 'admin' ? undefined : await getAccessibleEmployeeIds(uid, role);
+    const claims = await expenseAdminService.getClaims({ employeeIds, status });
+    return NextResponse.json(claims, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/expenses
+ * Submit an expense claim for approval
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const claimSchema = z.object({
+      title: z.string().trim().min(1, 'Title is required').max(120),
+      items: z.array(z.object({
+        category: z.enum(Object.keys(EXPENSE_CATEGORIES) as [ExpenseCategory, ...ExpenseCategory[]]),
+        amount: z.number().positive('Amount must be more than zero').max(1000000),
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+        description: z.string().trim().max(200).default(''),
+      })).min(1, 'Add at least one expense'),
+      receipts: z.array(z.object({
+        fileName: z.string(),
+        fileUrl: z.string().url(),
+        storagePath: z.string().startsWith(`expense-receipts/${authResult.user.uid}/`, 'Invalid receipt path'),
+        fileSize: z.number().min(0),
+        mimeType: z.string(),
+      })).max(20).default([]),
+      clientVisitId: z.string().nullable().default(null),
+    });
+
+    const body = await request.json();
+    const validatedData = claimSchema.parse(body);
+
+    const claim = await expenseAdminService.createClaim(validatedData, authResult.user.uid);
+    return NextResponse.json(claim, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { buildHolidayCsv, buildIcs } from '@/lib/holiday-calendar';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+
+/**
+ * GET /api/holidays/calendars/[id]/export?format=ics|csv
+ * Admins/Managers - download a calendar's holidays as iCalendar (default) or CSV
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can export holiday calendars');
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'ics';
+    if (format !== 'ics' && format !== 'csv') {
+      return ErrorResponses.badRequest('format must be ics or csv');
+    }
+
+    const { id } = await params;
+    const calendar = await holidayCalendarAdminService.getCalendarById(id);
+    if (!calendar) {
+      return ErrorResponses.notFound('Holiday calendar');
+    }
+    const holidays = await holidayCalendarAdminService.getHolidays(id);
+
+    const filename = calendar.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'holidays';
+    return new NextResponse(format === 'ics' ? buildIcs(calendar.name, holidays) : buildHolidayCsv(holidays), {
+      status: 200,
+      headers: {
+        'Content-Type': format === 'ics' ? 'text/calendar;charset=utf-8' : 'text/csv;charset=utf-8;',
+        'Content-Disposition': `attachment; filename="${filename}.${format}"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
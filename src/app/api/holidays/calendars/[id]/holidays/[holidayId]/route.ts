@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+
+/**
+ * DELETE /api/holidays/calendars/[id]/holidays/[holidayId]
+ * Admin only - remove a holiday from a calendar, with any claims on it
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; holidayId: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can remove holidays');
+    }
+
+    const { id, holidayId } = await params;
+    await holidayCalendarAdminService.deleteHoliday(id, holidayId);
+
+    return NextResponse.json({ message: 'Holiday removed' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Holiday not found') {
+      return ErrorResponses.notFound('Holiday');
+    }
+    return handleApiError(error);
+  }
+}
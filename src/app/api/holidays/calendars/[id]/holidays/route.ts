@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { holidaySchema } from '@/lib/attendance-validation';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+
+/**
+ * GET /api/holidays/calendars/[id]/holidays
+ * Admins/Managers - a calendar's holidays in date order
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view holiday calendars');
+    }
+
+    const { id } = await params;
+    const holidays = await holidayCalendarAdminService.getHolidays(id);
+    return NextResponse.json(holidays, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Holiday calendar not found') {
+      return ErrorResponses.notFound('Holiday calendar');
+    }
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/holidays/calendars/[id]/holidays
+ * Admin only - add a holiday, fixed or optional, to a calendar
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can add holidays');
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = holidaySchema.parse(body);
+
+    const holiday = await holidayCalendarAdminService.addHoliday(id, validatedData, authResult.user.uid);
+    return NextResponse.json(holiday, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Holiday calendar not found') {
+      return ErrorResponses.notFound('Holiday calendar');
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { parseHolidayCsv, parseIcs } from '@/lib/holiday-calendar';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+import { z } from 'zod';
+
+const importSchema = z.object({
+  format: z.enum(['ics', 'csv']),
+  content: z.string().min(1, 'The file is empty').max(1_000_000, 'The file is too large'),
+});
+
+/**
+ * POST /api/holidays/calendars/[id]/import
+ * Admin only - add holidays from an iCalendar (.ics) or CSV file's content.
+ * Nothing is imported when any entry is invalid; the errors are returned.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can import holidays');
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { format, content } = importSchema.parse(body);
+
+    const { rows, errors } = format === 'ics' ? parseIcs(content) : parseHolidayCsv(content);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Import failed', message: `${errors.length} entr${errors.length === 1 ? 'y' : 'ies'} could not be read`, errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await holidayCalendarAdminService.importHolidays(id, rows, authResult.user.uid);
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Holiday calendar not found') {
+      return ErrorResponses.notFound('Holiday calendar');
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+import { z } from 'zod';
+
+/**
+ * PATCH /api/holidays/calendars/[id]
+ * Admin only - update a calendar, e.g. who follows it or its optional holiday quota
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can update holiday calendars');
+    }
+
+    const updateSchema = z.object({
+      name: z.string().trim().min(1, 'Calendar name is required').max(100).optional(),
+      location: z.string().max(100).optional(),
+      description: z.string().max(500).optional(),
+      isDefault: z.boolean().optional(),
+      optionalHolidayQuota: z.number().int().min(0).max(30, 'Optional holiday quota cannot exceed 30').optional(),
+      employeeIds: z.array(z.string().min(1)).optional(),
+      teamIds: z.array(z.string().min(1)).optional(),
+    });
+
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = updateSchema.parse(body);
+
+    const calendar = await holidayCalendarAdminService.updateCalendar(id, validatedData);
+    return NextResponse.json(calendar, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Holiday calendar not found') {
+      return ErrorResponses.notFound('Holiday calendar');
+    }
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/holidays/calendars/[id]
+ * Admin only - delete a calendar and its holidays
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can delete holiday calendars');
+    }
+
+    const { id } = await params;
+    await holidayCalendarAdminService.deleteCalendar(id);
+
+    return NextResponse.json({ message: 'Holiday calendar deleted' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Holiday calendar not found') {
+      return ErrorResponses.notFound('Holiday calendar');
+    }
+    return handleApiError(error);
+  }
+}
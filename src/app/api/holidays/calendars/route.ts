@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { holidayCalendarSchema } from '@/lib/attendance-validation';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+
+/**
+ * GET /api/holidays/calendars
+ * Admins/Managers - holiday calendars, the default first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view holiday calendars');
+    }
+
+    const calendars = await holidayCalendarAdminService.getCalendars();
+    return NextResponse.json(calendars, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/holidays/calendars
+ * Admin only - create a holiday calendar for employees and teams
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can create holiday calendars');
+    }
+
+    const body = await request.json();
+    const validatedData = holidayCalendarSchema.parse(body);
+
+    const calendar = await holidayCalendarAdminService.createCalendar(validatedData);
+    return NextResponse.json(calendar, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+
+/**
+ * DELETE /api/holidays/claims/[holidayId]
+ * Give back an optional holiday you claimed, before the day
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ holidayId: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { holidayId } = await params;
+    await holidayCalendarAdminService.cancelClaim(authResult.user.uid, holidayId);
+
+    return NextResponse.json({ message: 'Optional holiday given back' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Optional holiday claim not found') {
+      return ErrorResponses.notFound('Optional holiday claim');
+    }
+    return handleApiError(error);
+  }
+}
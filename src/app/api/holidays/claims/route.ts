@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+import { z } from 'zod';
+
+/**
+ * POST /api/holidays/claims
+ * Claim an optional holiday on your calendar, within its yearly quota
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const body = await request.json();
+    const { holidayId } = z.object({ holidayId: z.string().min(1, 'Holiday is required') }).parse(body);
+
+    const claim = await holidayCalendarAdminService.claimOptionalHoliday(authResult.user.uid, holidayId);
+    return NextResponse.json(claim, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
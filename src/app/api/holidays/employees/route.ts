@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { getAccessibleEmployeeIds, hasAccessToEmployee } from '@/lib/manager-access';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+import { Holiday } from '@/types/attendance.types';
+
+/**
+ * GET /api/holidays/employees?employeeId=&startDate=&endDate=
+ * The holidays each employee observes under their calendar, keyed by
+ * employee id, for rosters and attendance calendars. With employeeId, just
+ * that employee (themselves, or one a manager can access). Otherwise admins
+ * get everyone, managers their team and themselves, employees themselves.
+ * startDate and endDate (YYYY-MM-DD) limit the holidays returned.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const employeeId = searchParams.get('employeeId');
+    const startDate = searchParams.get('startDate') || '0000-01-01';
+    const endDate = searchParams.get('endDate') || '9999-12-31';
+    const { uid } = authResult.user;
+    const role = authResult.user.claims.role;
+
+    let employeeIds: string[];
+    if (employeeId) {
+      if (employeeId !== uid && !(await hasAccessToEmployee(uid, role, employeeId))) {
+        return ErrorResponses.forbidden('You can only view holidays for your assigned employees');
+      }
+      employeeIds = [employeeId];
+    } else if (role === 'admin') {
+      employeeIds = (await adminDb.collection('users').select().get()).docs.map((doc) => doc.id);
+    } else {
+      employeeIds = [uid, ...(await getAccessibleEmployeeIds(uid, role))];
+    }
+
+    const resolve = await holidayCalendarAdminService.getResolver();
+    const holidaysByEmployee: Record<string, Holiday[]> = {};
+    for (const id of employeeIds) {
+      holidaysByEmployee[id] = resolve(id).holidays.filter(
+        (holiday) => holiday.date >= startDate && holiday.date <= endDate
+      );
+    }
+
+    return NextResponse.json(holidaysByEmployee, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
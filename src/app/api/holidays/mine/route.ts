@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+
+/**
+ * GET /api/holidays/mine
+ * The current user's holiday calendar: the holidays they observe and the
+ * optional holidays they can claim, with their quota
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const holidays = await holidayCalendarAdminService.getEmployeeHolidays(authResult.user.uid);
+    return NextResponse.json(holidays, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -12,7 +12,9 @@ import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
  * - startDate (optional): ISO date string to filter holidays >= this date
  * - endDate (optional): ISO date string to filter holidays <= this date
  * 
- * Returns: Array of holiday objects with id, date, name, description
+ * Returns: Array of holiday objects with id, date, name, description, calendarId
+ * (null for the company-wide list) and isOptional, across every calendar. For
+ * the holidays a given employee observes use /api/holidays/employees.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -73,6 +75,8 @@ export async function GET(request: NextRequest) {
         date: dateStr,
         name: data.name || '',
         description: data.description || '',
+        calendarId: data.calendarId ?? null,
+        isOptional: data.isOptional === true,
         createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
       };
     });
@@ -3,7 +3,7 @@ import { z } from 'zod';
 import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
 
 const createLeaveSchema = z.object({
-  leaveType: z.enum(['sick', 'casual', 'wfh']),
+  leaveType: z.enum(['sick', 'casual', 'wfh', 'comp-off']),
   startDate: z.string().refine((date) => !isNaN(Date.parse(date))),
   endDate: z.string().refine((date) => !isNaN(Date.parse(date))),
   reason: z.string().min(1).max(500),
@@ -417,13 +417,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Calculate total days - if halfDay is true, set to 0.5, otherwise calculate normally
+    // Calculate total days - if halfDay is true, set to 0.5, otherwise count the
+    // days that are not holidays on the employee's holiday calendar
     let totalDays: number;
     if (halfDay) {
       totalDays = 0.5;
     } else {
-      const diffTime = Math.abs(end.getTime() - start.getTime());
-      totalDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
+      const { holidayCalendarAdminService } = await import('@/services/holiday-calendar-admin.service');
+      const { countLeaveDays } = await import('@/lib/holiday-calendar');
+      const { toAttendanceDate } = await import('@/lib/attendance-regularization');
+      const { holidays } = await holidayCalendarAdminService.getEmployeeHolidays(authResult.user.uid);
+      totalDays = countLeaveDays(
+        toAttendanceDate(start),
+        toAttendanceDate(end),
+        new Set(holidays.map((holiday) => holiday.date))
+      );
+      if (totalDays === 0) {
+        return ErrorResponses.badRequest('Every day in this range is a holiday on your calendar');
+      }
+    }
+
+    // Comp-off is taken from approved, unexpired credits for days worked on holidays and weekly offs
+    if (leaveType === 'comp-off') {
+      const { compOffAdminService } = await import('@/services/comp-off-admin.service');
+      await compOffAdminService.checkLeave(authResult.user.uid, start, totalDays);
     }
 
     const leaveRequestData = {
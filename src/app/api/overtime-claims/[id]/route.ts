@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { overtimeAdminService } from '@/services/overtime-admin.service';
+import { z } from 'zod';
+
+/**
+ * PATCH /api/overtime-claims/[id]
+ * Admins/Managers - approve (optionally fewer hours) or reject a pending claim
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const role = authResult.user.claims.role;
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can approve overtime');
+    }
+
+    const decisionSchema = z.discriminatedUnion('action', [
+      z.object({ action: z.literal('approve'), hours: z.number().min(0).optional() }),
+      z.object({ action: z.literal('reject'), reason: z.string().trim().min(1, 'Reason is required').max(500) }),
+    ]);
+
+    const { id } = await params;
+    const body = await request.json();
+    const decision = decisionSchema.parse(body);
+
+    const claim = await overtimeAdminService.decideClaim(id, decision, { uid: authResult.user.uid, role });
+    return NextResponse.json(claim, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Overtime claim not found') {
+      return ErrorResponses.notFound('Overtime claim');
+    }
+    return handleApiError(error);
+  }
+}
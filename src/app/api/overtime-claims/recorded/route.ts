@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { overtimeAdminService } from '@/services/overtime-admin.service';
+
+/**
+ * GET /api/overtime-claims/recorded?month=3&year=2026
+ * Overtime hours on the current user's attendance records for a month
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const month = parseInt(searchParams.get('month') || '');
+    const year = parseInt(searchParams.get('year') || '');
+    if (isNaN(month) || month < 0 || month > 11 || isNaN(year)) {
+      return ErrorResponses.badRequest('Invalid month or year');
+    }
+
+    const recordedHours = await overtimeAdminService.getRecordedOvertime(authResult.user.uid, month, year);
+    return NextResponse.json({ month, year, recordedHours }, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { getAccessibleEmployeeIds } from '@/lib/manager-access';
+import { overtimeAdminService } from '@/services/overtime-admin.service';
+import { OvertimeClaimStatus } from '@/types/attendance.types';
+import { z } from 'zod';
+
+/**
+ * GET /api/overtime-claims?scope=mine|team&status=pending&month=3&year=2026
+ * Everyone sees their own claims (scope=mine, the default). Managers see
+ * their assigned employees' claims and admins every claim with scope=team.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get('scope') === 'team' ? 'team' : 'mine';
+    const status = (searchParams.get('status') || undefined) as OvertimeClaimStatus | undefined;
+    const month = searchParams.get('month') ? parseInt(searchParams.get('month')!) : undefined;
+    const year = searchParams.get('year') ? parseInt(searchParams.get('year')!) : undefined;
+    const { uid } = authResult.user;
+    const role = authResult.user.claims.role;
+
+    if (scope === 'mine') {
+      const claims = await overtimeAdminService.getClaims({ employeeIds: [uid], status, month, year });
+      return NextResponse.json(claims, { status: 200 });
+    }
+
+    if (!['admin', 'manager'].includes(role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view team overtime');
+    }
+
+    const employeeIds = role === 'admin' ? undefined : await getAccessibleEmployeeIds(uid, role);
+    const claims = await overtimeAdminService.getClaims({ employeeIds, status, month, year });
+    return NextResponse.json(claims, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/overtime-claims
+ * Claim a month's recorded overtime for approval
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const claimSchema = z.object({
+      month: z.number().int().min(0).max(11),
+      year: z.number().int().min(2000).max(2100),
+      hours: z.number().positive('Hours must be more than zero').max(744).optional(),
+      notes: z.string().trim().max(500).default(''),
+    });
+
+    const body = await request.json();
+    const validatedData = claimSchema.parse(body);
+
+    const claim = await overtimeAdminService.submitClaim(authResult.user.uid, validatedData);
+    return NextResponse.json(claim, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { buildForm16PartBCsv } from '@/lib/annual-statement';
+import { formatFinancialYear } from '@/lib/tds';
+
+/**
+ * GET /api/payroll/annual-statement/form16?financialYear=2026&format=csv
+ * Admin only - Form 16 Part B figures for every employee with slips in the
+ * financial year, as a CSV download (default) or JSON (format=json)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can export Form 16 data');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const financialYear = parseInt(searchParams.get('financialYear') || '', 10);
+    if (isNaN(financialYear)) {
+      return ErrorResponses.badRequest('Invalid financial year');
+    }
+
+    const statements = await payrollAdminService.getAnnualStatements(financialYear);
+
+    if (searchParams.get('format') === 'json') {
+      return NextResponse.json(statements, { status: 200 });
+    }
+
+    return new NextResponse(buildForm16PartBCsv(statements), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv;charset=utf-8;',
+        'Content-Disposition': `attachment; filename="form16-part-b-FY${formatFinancialYear(financialYear)}.csv"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { getFinancialYear } from '@/lib/tds';
+
+/**
+ * GET /api/payroll/annual-statement?financialYear=2026
+ * Annual salary statement with Form 16 Part B figures for a financial year.
+ * Employees get their own, built only from slips they have been given access to;
+ * Admins/Managers may pass employeeId to include every slip of that employee.
+ * Returns null when there are no slips for the year.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const now = new Date();
+    const financialYear = parseInt(
+      searchParams.get('financialYear') || String(getFinancialYear(now.getMonth(), now.getFullYear())),
+      10
+    );
+    if (isNaN(financialYear)) {
+      return ErrorResponses.badRequest('Invalid financial year');
+    }
+
+    const userRole = authResult.user.claims.role;
+    const employeeId = searchParams.get('employeeId');
+
+    if (employeeId && employeeId !== authResult.user.uid) {
+      if (!['admin', 'manager'].includes(userRole)) {
+        return ErrorResponses.forbidden('You can only view your own annual statement');
+      }
+      if (userRole === 'manager') {
+        const { hasAccessToEmployee } = await import('@/lib/manager-access');
+        if (!(await hasAccessToEmployee(authResult.user.uid, userRole, employeeId))) {
+          return ErrorResponses.forbidden('You can only view statements for your assigned employees');
+        }
+      }
+      const statement = await payrollAdminService.getAnnualStatement(employeeId, financialYear);
+      return NextResponse.json(statement, { status: 200 });
+    }
+
+    const statement = await payrollAdminService.getAnnualStatement(authResult.user.uid, financialYear, true);
+    return NextResponse.json(statement, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
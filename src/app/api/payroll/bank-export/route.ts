@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { BANK_EXPORT_FORMATS, getBankExportFileName } from '@/lib/bank-export';
+import { BankExportFormatId, BankPaymentSummary } from '@/types/payroll.types';
+import { z } from 'zod';
+
+/**
+ * GET /api/payroll/bank-export?month=3&year=2026
+ * Admin only - validate a locked month's net pay against employee bank
+ * accounts before exporting
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can export bank payments');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const month = parseInt(searchParams.get('month') || '', 10);
+    const year = parseInt(searchParams.get('year') || '', 10);
+    if (isNaN(month) || month < 0 || month > 11 || isNaN(year)) {
+      return ErrorResponses.badRequest('Invalid month or year');
+    }
+
+    const { rows, issues } = await payrollAdminService.getBankPayments(month, year);
+    const summary: BankPaymentSummary = {
+      month,
+      year,
+      payableCount: rows.length,
+      payableAmount: rows.reduce((sum, row) => sum + row.amount, 0),
+      issues,
+    };
+
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/payroll/bank-export
+ * Admin only - download a locked month's net pay as a bank bulk-upload file.
+ * Employees with a missing account or invalid IFSC block the export unless
+ * skipInvalid is set, in which case they are left out of the file.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can export bank payments');
+    }
+
+    const exportSchema = z.object({
+      month: z.number().int().min(0).max(11, 'Month must be 0-11'),
+      year: z.number().int().min(2020).max(2099),
+      format: z.enum(Object.keys(BANK_EXPORT_FORMATS) as [BankExportFormatId, ...BankExportFormatId[]]),
+      paymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(),
+      skipInvalid: z.boolean().optional(),
+    });
+
+    const body = await request.json();
+    const validatedData = exportSchema.parse(body);
+    const { month, year, format } = validatedData;
+
+    const { rows, issues } = await payrollAdminService.getBankPayments(month, year);
+
+    if (issues.length > 0 && !validatedData.skipInvalid) {
+      return ErrorResponses.badRequest(
+        `${issues.length} employee(s) cannot be paid by bank transfer`,
+        Object.fromEntries(issues.map((issue) => [issue.employeeCode, [issue.issue]]))
+      );
+    }
+    if (rows.length === 0) {
+      return ErrorResponses.badRequest('No payments to export');
+    }
+
+    const paymentDate = validatedData.paymentDate ? new Date(`${validatedData.paymentDate}T00:00:00`) : new Date();
+    const exportFormat = BANK_EXPORT_FORMATS[format];
+    const content = exportFormat.build(rows, { month, year, paymentDate });
+
+    await payrollAdminService.recordBankExport(month, year, format, rows, issues.length, authResult.user.uid);
+
+    return new NextResponse(content, {
+      status: 200,
+      headers: {
+        'Content-Type': exportFormat.mimeType,
+        'Content-Disposition': `attachment; filename="${getBankExportFileName(format, month, year)}"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
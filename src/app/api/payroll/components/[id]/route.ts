@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { z } from 'zod';
+
+/**
+ * PUT /api/payroll/components/[id]
+ * Admin only - update a salary component (partial updates supported).
+ * The key is fixed once created.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can manage salary components');
+    }
+
+    const { id } = await params;
+
+    const updateSchema = z.object({
+      name: z.string().trim().min(1).max(60).optional(),
+      type: z.enum(['earning', 'deduction']).optional(),
+      taxable: z.boolean().optional(),
+      calculation: z.enum(['fixed', 'percentage', 'formula']).optional(),
+      amount: z.number().min(0).nullable().optional(),
+      percentage: z.number().min(0).max(1000).nullable().optional(),
+      percentageOf: z.string().nullable().optional(),
+      formula: z.string().nullable().optional(),
+      prorate: z.boolean().optional(),
+      order: z.number().int().min(0).optional(),
+      active: z.boolean().optional(),
+    });
+
+    const body = await request.json();
+    const validated = updateSchema.parse(body);
+
+    const component = await payrollAdminService.updateSalaryComponent(id, validated);
+    return NextResponse.json(component, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Salary component not found') {
+      return ErrorResponses.notFound('Salary component');
+    }
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/payroll/components/[id]
+ * Admin only - remove a salary component from the catalogue
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can manage salary components');
+    }
+
+    const { id } = await params;
+    await payrollAdminService.deleteSalaryComponent(id);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Salary component not found') {
+      return ErrorResponses.notFound('Salary component');
+    }
+    return handleApiError(error);
+  }
+}
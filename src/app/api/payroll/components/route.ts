@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { z } from 'zod';
+
+/**
+ * GET /api/payroll/components
+ * Admins/Managers - the salary component catalogue in calculation order
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view salary components');
+    }
+
+    const components = await payrollAdminService.getSalaryComponents();
+    return NextResponse.json(components, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/payroll/components
+ * Admin only - add an earning or deduction component to the catalogue
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can manage salary components');
+    }
+
+    const componentSchema = z.object({
+      key: z.string().trim().min(1, 'Key is required'),
+      name: z.string().trim().min(1, 'Name is required').max(60),
+      type: z.enum(['earning', 'deduction']),
+      taxable: z.boolean(),
+      calculation: z.enum(['fixed', 'percentage', 'formula']),
+      amount: z.number().min(0).nullable(),
+      percentage: z.number().min(0).max(1000).nullable(),
+      percentageOf: z.string().nullable(),
+      formula: z.string().nullable(),
+      prorate: z.boolean(),
+      active: z.boolean().default(true),
+    });
+
+    const body = await request.json();
+    const validatedData = componentSchema.parse(body);
+
+    const component = await payrollAdminService.createSalaryComponent(validatedData);
+    return NextResponse.json(component, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { checkSalaryFormula } from '@/lib/formula-evaluator';
+import { formatDiagnostic } from '@/lib/formula-parser';
+import { z } from 'zod';
+
+/**
+ * GET /api/payroll/formula-versions
+ * Admin only - salary formula version history, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can view salary formula versions');
+    }
+
+    const versions = await payrollAdminService.getFormulaVersions();
+    return NextResponse.json(versions, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/payroll/formula-versions
+ * Admin only - save the salary formula as a new version effective from a
+ * month, or roll back by passing rollbackOf with the version to restore
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can change the salary formula');
+    }
+
+    const versionSchema = z.object({
+      formula: z.string().optional(),
+      rollbackOf: z.string().min(1).optional(),
+      changeNote: z.string().trim().min(1, 'Change note is required').max(500),
+      effectiveMonth: z.number().int().min(0).max(11),
+      effectiveYear: z.number().int().min(2020).max(2099),
+    }).refine((data) => data.formula !== undefined || data.rollbackOf, {
+      message: 'Formula is required',
+      path: ['formula'],
+    });
+
+    const body = await request.json();
+    const validatedData = versionSchema.parse(body);
+
+    // Reject formulas that would not parse or type-check instead of silently
+    // falling back to the default formula at generation time
+    if (!validatedData.rollbackOf && validatedData.formula) {
+      const diagnostics = checkSalaryFormula(validatedData.formula);
+      if (diagnostics.length > 0) {
+        return ErrorResponses.badRequest('Salary formula has errors', {
+          salaryFormula: diagnostics.map(formatDiagnostic),
+        });
+      }
+    }
+
+    const version = await payrollAdminService.createFormulaVersion(validatedData, authResult.user.uid);
+    return NextResponse.json(version, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Formula version not found') {
+      return ErrorResponses.notFound('Formula version');
+    }
+    return handleApiError(error);
+  }
+}
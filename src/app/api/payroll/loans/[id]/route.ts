@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { buildLoanStatement, comparePeriods, getOutstandingPrincipal } from '@/lib/loans';
+import { z } from 'zod';
+
+/**
+ * PATCH /api/payroll/loans/[id]
+ * Admin only - manage an active loan:
+ *   { action: 'pause' | 'resume' }
+ *   { action: 'skip', month, year }      skip one month's EMI
+ *   { action: 'prepay', amount, note? }  record a prepayment
+ * Returns the updated LoanStatement.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can manage loans');
+    }
+
+    const actionSchema = z.discriminatedUnion('action', [
+      z.object({ action: z.literal('pause') }),
+      z.object({ action: z.literal('resume') }),
+      z.object({
+        action: z.literal('skip'),
+        month: z.number().int().min(0).max(11, 'Month must be 0-11'),
+        year: z.number().int().min(2020).max(2099),
+      }),
+      z.object({
+        action: z.literal('prepay'),
+        amount: z.number().positive('Amount must be greater than 0'),
+        note: z.string().max(500).optional(),
+      }),
+    ]);
+
+    const body = await request.json();
+    const validatedData = actionSchema.parse(body);
+
+    const { id } = await params;
+    const loan = await payrollAdminService.getLoanById(id);
+    if (!loan) {
+      return ErrorResponses.notFound('Loan');
+    }
+    if (loan.status !== 'active') {
+      return ErrorResponses.badRequest('This loan is already closed');
+    }
+
+    switch (validatedData.action) {
+      case 'pause':
+      case 'resume':
+        await payrollAdminService.setLoanPaused(id, validatedData.action === 'pause');
+        break;
+
+      case 'skip': {
+        const period = { month: validatedData.month, year: validatedData.year };
+        const recovered = loan.transactions.some(
+          (tx) => tx.type === 'emi' && tx.month === period.month && tx.year === period.year
+        );
+        if (recovered) {
+          return ErrorResponses.badRequest('The EMI for this month has already been recovered');
+        }
+        if (loan.skippedMonths.some((skipped) => comparePeriods(skipped, period) === 0)) {
+          return ErrorResponses.badRequest('The EMI for this month is already skipped');
+        }
+        await payrollAdminService.skipLoanEmi(loan, period.month, period.year);
+        break;
+      }
+
+      case 'prepay': {
+        const outstanding = getOutstandingPrincipal(loan);
+        if (validatedData.amount > outstanding) {
+          return ErrorResponses.badRequest(`Prepayment cannot exceed the outstanding balance of ₹${outstanding}`);
+        }
+        await payrollAdminService.recordLoanPayment(
+          loan,
+          { type: 'prepayment', amount: validatedData.amount, note: validatedData.note },
+          authResult.user.uid
+        );
+        break;
+      }
+    }
+
+    const updated = await payrollAdminService.getLoanById(id);
+    return NextResponse.json(buildLoanStatement(updated!), { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
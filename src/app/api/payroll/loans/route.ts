@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { buildLoanStatement } from '@/lib/loans';
+import { EmployeeLoan } from '@/types/payroll.types';
+import { z } from 'zod';
+
+/**
+ * GET /api/payroll/loans
+ * Employees get statements for their own loans. Admins/Managers may pass
+ * employeeId, or all=true to list every loan they can access.
+ * Returns LoanStatement[] (loan, ledger, remaining schedule, outstanding).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const employeeId = searchParams.get('employeeId');
+    const listAll = searchParams.get('all') === 'true';
+    const userRole = authResult.user.claims.role;
+    const isPrivileged = ['admin', 'manager'].includes(userRole);
+
+    let loans: EmployeeLoan[];
+
+    if (isPrivileged && listAll) {
+      loans = await payrollAdminService.getLoans();
+      if (userRole === 'manager') {
+        const { getAccessibleEmployeeIds } = await import('@/lib/manager-access');
+        const accessibleIds = await getAccessibleEmployeeIds(authResult.user.uid, userRole);
+        loans = loans.filter((loan) => accessibleIds.includes(loan.employeeId));
+      }
+    } else {
+      let targetId = authResult.user.uid;
+      if (isPrivileged && employeeId) {
+        if (userRole === 'manager' && employeeId !== authResult.user.uid) {
+          const { hasAccessToEmployee } = await import('@/lib/manager-access');
+          if (!(await hasAccessToEmployee(authResult.user.uid, userRole, employeeId))) {
+            return ErrorResponses.forbidden('You can only view loans for your assigned employees');
+          }
+        }
+        targetId = employeeId;
+      }
+      loans = await payrollAdminService.getLoans({ employeeId: targetId });
+    }
+
+    return NextResponse.json(loans.map(buildLoanStatement), { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/payroll/loans
+ * Admin only - sanction a loan or salary advance for an employee
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can sanction loans');
+    }
+
+    const sanctionSchema = z.object({
+      employeeId: z.string().min(1, 'Employee is required'),
+      type: z.enum(['loan', 'advance']),
+      principal: z.number().positive('Amount must be greater than 0'),
+      interestRate: z.number().min(0).max(36).default(0),
+      tenureMonths: z.number().int().min(1).max(120),
+      emiAmount: z.number().positive().optional(),
+      startMonth: z.number().int().min(0).max(11, 'Month must be 0-11'),
+      startYear: z.number().int().min(2020).max(2099),
+      note: z.string().max(500).optional(),
+    });
+
+    const body = await request.json();
+    const validatedData = sanctionSchema.parse(body);
+
+    if (validatedData.type === 'advance' && validatedData.interestRate > 0) {
+      return ErrorResponses.badRequest('Salary advances are interest-free');
+    }
+
+    const loan = await payrollAdminService.sanctionLoan(validatedData, authResult.user.uid);
+    return NextResponse.json(buildLoanStatement(loan), { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Employee not found') {
+      return ErrorResponses.notFound('Employee');
+    }
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { DEFAULT_NET_CHANGE_THRESHOLD } from '@/lib/payroll-preview';
+import { z } from 'zod';
+
+/**
+ * POST /api/payroll/preview
+ * Admin/Manager - dry run of slip generation, diffed against the previous month.
+ * Does not write any salary slips.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can preview payroll runs');
+    }
+
+    const previewSchema = z.object({
+      employeeIds: z.array(z.string()).min(1, 'At least one employee is required'),
+      month: z.number().min(0).max(11, 'Month must be 0-11'),
+      year: z.number().min(2020).max(2099, 'Year must be valid'),
+      netChangeThreshold: z.number().min(0).max(1000).default(DEFAULT_NET_CHANGE_THRESHOLD),
+    });
+
+    const body = await request.json();
+    const validatedData = previewSchema.parse(body);
+
+    const result = await payrollAdminService.previewRun(
+      validatedData.employeeIds,
+      validatedData.month,
+      validatedData.year,
+      validatedData.netChangeThreshold
+    );
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
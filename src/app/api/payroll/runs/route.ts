@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { canTransition, PAYROLL_RUN_STATUS_LABELS } from '@/lib/payroll-run';
+import { z } from 'zod';
+
+/**
+ * GET /api/payroll/runs?month=3&year=2026
+ * Admin/Manager - get a month's payroll run (a draft if it has never moved),
+ * or every saved run when month/year are omitted
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view payroll runs');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const monthParam = searchParams.get('month');
+    const yearParam = searchParams.get('year');
+
+    if (monthParam === null || yearParam === null) {
+      const runs = await payrollAdminService.getPayrollRuns();
+      return NextResponse.json(runs, { status: 200 });
+    }
+
+    const month = parseInt(monthParam, 10);
+    const year = parseInt(yearParam, 10);
+    if (isNaN(month) || month < 0 || month > 11 || isNaN(year)) {
+      return ErrorResponses.badRequest('Invalid month or year');
+    }
+
+    const run = await payrollAdminService.getPayrollRun(month, year);
+    return NextResponse.json(run, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PATCH /api/payroll/runs
+ * Move a month's payroll run through draft → reviewed → approved → locked → paid.
+ * Admins and managers can mark a run reviewed; every other step is admin only.
+ * Re-opening a run returns it to draft and requires a reason.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const transitionSchema = z.object({
+      month: z.number().int().min(0).max(11, 'Month must be 0-11'),
+      year: z.number().int().min(2020).max(2099),
+      action: z.enum(['review', 'approve', 'lock', 'mark-paid', 'reopen']),
+      reason: z.string().trim().max(500).optional(),
+    });
+
+    const body = await request.json();
+    const validatedData = transitionSchema.parse(body);
+
+    const userRole = authResult.user.claims.role;
+    const allowedRoles = validatedData.action === 'review' ? ['admin', 'manager'] : ['admin'];
+    if (!allowedRoles.includes(userRole)) {
+      return ErrorResponses.forbidden(
+        validatedData.action === 'review'
+          ? 'Only admins and managers can review payroll runs'
+          : 'Only admins can approve, lock, pay or re-open payroll runs'
+      );
+    }
+
+    if (validatedData.action === 'reopen' && (validatedData.reason?.length ?? 0) < 10) {
+      return ErrorResponses.badRequest('Give a reason of at least 10 characters for re-opening the run');
+    }
+
+    const run = await payrollAdminService.getPayrollRun(validatedData.month, validatedData.year);
+    if (!canTransition(run.status, validatedData.action)) {
+      return ErrorResponses.badRequest(
+        `Cannot ${validatedData.action.replace('-', ' ')} a run that is ${PAYROLL_RUN_STATUS_LABELS[run.status].toLowerCase()}`
+      );
+    }
+    if (validatedData.action === 'review' && run.totals.employeeCount === 0) {
+      return ErrorResponses.badRequest('Generate salary slips before reviewing the run');
+    }
+
+    const updated = await payrollAdminService.transitionPayrollRun(
+      validatedData.month,
+      validatedData.year,
+      validatedData.action,
+      authResult.user.uid,
+      validatedData.action === 'reopen' ? validatedData.reason : undefined
+    );
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
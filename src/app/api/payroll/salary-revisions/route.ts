@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { z } from 'zod';
+
+/**
+ * GET /api/payroll/salary-revisions
+ * Employees get their own revision timeline. Admins/Managers may pass
+ * employeeId to view an employee's revisions. Oldest first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const employeeId = searchParams.get('employeeId');
+    const userRole = authResult.user.claims.role;
+
+    if (employeeId && employeeId !== authResult.user.uid) {
+      if (!['admin', 'manager'].includes(userRole)) {
+        return ErrorResponses.forbidden('You can only view your own salary revisions');
+      }
+      if (userRole === 'manager') {
+        const { hasAccessToEmployee } = await import('@/lib/manager-access');
+        if (!(await hasAccessToEmployee(authResult.user.uid, userRole, employeeId))) {
+          return ErrorResponses.forbidden('You can only view revisions for your assigned employees');
+        }
+      }
+    }
+
+    const revisions = await payrollAdminService.getSalaryRevisions(employeeId || authResult.user.uid);
+    return NextResponse.json(revisions, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/payroll/salary-revisions
+ * Admin only - revise an employee's gross salary from an effective date.
+ * A backdated revision records arrears for months that already have slips;
+ * they are paid with the next slip generated for the employee.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can revise salaries');
+    }
+
+    const revisionSchema = z.object({
+      employeeId: z.string().min(1, 'Employee is required'),
+      effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD'),
+      grossSalary: z.number().positive('Gross salary must be greater than 0'),
+      reason: z.string().trim().min(1, 'Reason is required').max(500),
+    });
+
+    const body = await request.json();
+    const validatedData = revisionSchema.parse(body);
+
+    const revision = await payrollAdminService.createSalaryRevision(validatedData, authResult.user.uid);
+    return NextResponse.json(revision, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Employee not found') {
+      return ErrorResponses.notFound('Employee');
+    }
+    return handleApiError(error);
+  }
+}
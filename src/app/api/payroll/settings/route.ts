@@ -62,7 +62,8 @@ export async function PATCH(request: NextRequest) {
 
 /**
  * PUT /api/payroll/settings
- * Admin only - update payroll settings
+ * Admin only - update payroll settings. The salary formula is saved as a
+ * version through /api/payroll/formula-versions.
  */
 export async function PUT(request: NextRequest) {
   try {
@@ -85,7 +86,28 @@ export async function PUT(request: NextRequest) {
       allowedPaidLeaves: z.number().min(0).int(),
       includePaidLeavesInPaidDays: z.boolean().default(false),
       footerNote: z.string(),
-      salaryFormula: z.string().optional(),
+      statutory: z.object({
+        epf: z.object({
+          enabled: z.boolean(),
+          wageComponents: z.array(z.enum(['basic', 'hra', 'special'])).min(1, 'Select at least one PF wage component'),
+          wageCeiling: z.number().min(0),
+          restrictToCeiling: z.boolean(),
+          employeeRate: z.number().min(0).max(100),
+          employerRate: z.number().min(0).max(100),
+          epsRate: z.number().min(0).max(100),
+        }),
+        esi: z.object({
+          enabled: z.boolean(),
+          grossThreshold: z.number().min(0),
+          employeeRate: z.number().min(0).max(100),
+          employerRate: z.number().min(0).max(100),
+        }),
+        professionalTax: z.object({
+          enabled: z.boolean(),
+          defaultState: z.string().min(1),
+        }),
+      }).optional(),
+      tdsEnabled: z.boolean().optional(),
     });
 
     const body = await request.json();
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { withAuth, AuthenticatedRequest } from '@/lib/server-auth';
 import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
 import { adminDb } from '@/lib/firebase-admin';
+import { payrollAdminService } from '@/services/payroll-admin.service';
 import { z } from 'zod';
 
 /**
@@ -50,6 +51,9 @@ export const POST = withAuth(async (
 
     const formattedPan = validationResult.data.pan.toUpperCase();
 
+    // Slips can only change while the month's payroll run is a draft
+    await payrollAdminService.assertPayrollRunEditable(slipData.month, slipData.year);
+
     // Update PAN on the salary slip
     await adminDb.collection('salary-slips').doc(id).update({
       pan: formattedPan,
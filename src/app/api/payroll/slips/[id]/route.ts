@@ -128,6 +128,16 @@ export async function PUT(
         loanRecovery: z.number().optional(),
         otherDeduction: z.number().optional(),
         leaveDeduction: z.number().optional(),
+        overtime: z.number().optional(),
+        arrears: z.number().optional(),
+        reimbursement: z.number().optional(),
+        components: z.array(z.object({
+          key: z.string().min(1),
+          name: z.string().min(1),
+          type: z.enum(['earning', 'deduction']),
+          taxable: z.boolean(),
+          amount: z.number(),
+        })).optional(),
       }).optional(),
       attendanceBreakdown: z.object({
         present: z.number(),
@@ -191,6 +201,8 @@ export async function PATCH(
     const month = slipData.month as number;
     const year = slipData.year as number;
 
+    await payrollAdminService.assertPayrollRunEditable(month, year);
+
     await adminDb.collection('salary-slips').doc(id).update({
       accessGranted: validatedData.accessGranted,
     });
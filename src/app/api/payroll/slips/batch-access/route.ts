@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuthToken } from '@/lib/server-auth';
 import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
 import { adminDb } from '@/lib/firebase-admin';
+import { getPayrollRunId } from '@/lib/payroll-run';
+import { payrollAdminService } from '@/services/payroll-admin.service';
 import { z } from 'zod';
 
 /**
@@ -36,17 +38,16 @@ export async function PATCH(request: NextRequest) {
     const body = await request.json();
     const validatedData = batchSchema.parse(body);
 
+    const slipIds = validatedData.updates.map(u => u.slipId);
+    const slipDocs = await Promise.all(
+      slipIds.map(id => adminDb.collection('salary-slips').doc(id).get())
+    );
+
     // For managers: verify all slips belong to their assigned employees
     if (userRole === 'manager') {
       const { getAccessibleEmployeeIds } = await import('@/lib/manager-access');
       const accessibleIds = await getAccessibleEmployeeIds(authResult.user.uid, userRole);
 
-      // Fetch all slips to verify ownership
-      const slipIds = validatedData.updates.map(u => u.slipId);
-      const slipDocs = await Promise.all(
-        slipIds.map(id => adminDb.collection('salary-slips').doc(id).get())
-      );
-
       for (const doc of slipDocs) {
         if (!doc.exists) continue;
         const slipData = doc.data();
@@ -56,6 +57,16 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    // Slips can only change while their month's payroll run is a draft
+    const periods = new Map<string, { month: number; year: number }>();
+    for (const doc of slipDocs) {
+      const slipData = doc.data();
+      if (slipData) periods.set(getPayrollRunId(slipData.month, slipData.year), { month: slipData.month, year: slipData.year });
+    }
+    for (const period of periods.values()) {
+      await payrollAdminService.assertPayrollRunEditable(period.month, period.year);
+    }
+
     // Firestore batch — atomic, single round-trip
     const batch = adminDb.batch();
     for (const update of validatedData.updates) {
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import {
+  buildEcrFile,
+  buildEsiWorkbook,
+  getStatutoryReturnFileName,
+  STATUTORY_RETURN_FILES,
+} from '@/lib/statutory-returns';
+import { StatutoryReturnsSummary } from '@/types/payroll.types';
+import { z } from 'zod';
+
+/**
+ * GET /api/payroll/statutory-returns?month=3&year=2026
+ * Admin only - validate a locked month's EPF and ESI returns and list the
+ * employees missing a UAN / IP number or breaking the column rules
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can generate statutory returns');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const month = parseInt(searchParams.get('month') || '', 10);
+    const year = parseInt(searchParams.get('year') || '', 10);
+    if (isNaN(month) || month < 0 || month > 11 || isNaN(year)) {
+      return ErrorResponses.badRequest('Invalid month or year');
+    }
+
+    const { pf, esi } = await payrollAdminService.getStatutoryReturns(month, year);
+    const summary: StatutoryReturnsSummary = { month, year, pf: pf.totals, esi: esi.totals };
+
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/payroll/statutory-returns
+ * Admin only - download a locked month's EPF ECR text file or ESI monthly
+ * contribution sheet. Employees with issues block the download unless
+ * skipInvalid is set, in which case they are left out of the file.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can generate statutory returns');
+    }
+
+    const exportSchema = z.object({
+      month: z.number().int().min(0).max(11, 'Month must be 0-11'),
+      year: z.number().int().min(2020).max(2099),
+      type: z.enum(['pf-ecr', 'esi']),
+      skipInvalid: z.boolean().optional(),
+    });
+
+    const body = await request.json();
+    const { month, year, type, skipInvalid } = exportSchema.parse(body);
+
+    const returns = await payrollAdminService.getStatutoryReturns(month, year);
+    const { totals } = returns[type === 'pf-ecr' ? 'pf' : 'esi'];
+
+    if (totals.issues.length > 0 && !skipInvalid) {
+      return ErrorResponses.badRequest(
+        `${totals.issues.length} employee(s) cannot be included in the return`,
+        Object.fromEntries(totals.issues.map((issue) => [issue.employeeCode, [issue.issue]]))
+      );
+    }
+    if (totals.memberCount === 0) {
+      return ErrorResponses.badRequest('No contributions to file for this month');
+    }
+
+    const content = type === 'pf-ecr' ? buildEcrFile(returns.pf.rows) : new Uint8Array(buildEsiWorkbook(returns.esi.rows));
+
+    await payrollAdminService.recordStatutoryReturnExport(month, year, type, totals, authResult.user.uid);
+
+    return new NextResponse(content, {
+      status: 200,
+      headers: {
+        'Content-Type': STATUTORY_RETURN_FILES[type].mimeType,
+        'Content-Disposition': `attachment; filename="${getStatutoryReturnFileName(type, month, year)}"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
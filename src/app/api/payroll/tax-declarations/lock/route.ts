@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { z } from 'zod';
+
+/**
+ * PUT /api/payroll/tax-declarations/lock
+ * Admin only - set the proof submission deadline for a financial year and
+ * lock or unlock its declarations. Locking is only allowed once the deadline has passed.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can lock tax declarations');
+    }
+
+    const lockSchema = z.object({
+      financialYear: z.number().int().min(2020).max(2099),
+      proofDeadline: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Deadline must be YYYY-MM-DD').nullable(),
+      locked: z.boolean(),
+    });
+
+    const body = await request.json();
+    const validatedData = lockSchema.parse(body);
+
+    if (validatedData.locked) {
+      if (!validatedData.proofDeadline) {
+        return ErrorResponses.badRequest('Set a proof submission deadline before locking declarations');
+      }
+      const deadlineEnd = new Date(`${validatedData.proofDeadline}T23:59:59`);
+      if (new Date() <= deadlineEnd) {
+        return ErrorResponses.badRequest('Declarations can only be locked after the proof submission deadline');
+      }
+    }
+
+    const window = await payrollAdminService.setTaxDeclarationWindow(
+      validatedData.financialYear,
+      { proofDeadline: validatedData.proofDeadline, locked: validatedData.locked },
+      authResult.user.uid
+    );
+
+    return NextResponse.json(window, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { formatFinancialYear, getFinancialYear } from '@/lib/tds';
+import { TaxDeclaration } from '@/types/payroll.types';
+import { z } from 'zod';
+
+/**
+ * GET /api/payroll/tax-declarations?financialYear=2026
+ * Employees get their own declaration. Admins/Managers may pass employeeId,
+ * or all=true to list every declaration they can access for the year.
+ * Always returns { declarations, window }.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const now = new Date();
+    const financialYear = parseInt(
+      searchParams.get('financialYear') || String(getFinancialYear(now.getMonth(), now.getFullYear())),
+      10
+    );
+    if (isNaN(financialYear)) {
+      return ErrorResponses.badRequest('Invalid financial year');
+    }
+
+    const employeeId = searchParams.get('employeeId');
+    const listAll = searchParams.get('all') === 'true';
+    const userRole = authResult.user.claims.role;
+    const isPrivileged = ['admin', 'manager'].includes(userRole);
+
+    let declarations: TaxDeclaration[];
+
+    if (isPrivileged && listAll) {
+      declarations = await payrollAdminService.getTaxDeclarations(financialYear);
+      if (userRole === 'manager') {
+        const { getAccessibleEmployeeIds } = await import('@/lib/manager-access');
+        const accessibleIds = await getAccessibleEmployeeIds(authResult.user.uid, userRole);
+        declarations = declarations.filter((d) => accessibleIds.includes(d.employeeId));
+      }
+    } else {
+      let targetId = authResult.user.uid;
+      if (isPrivileged && employeeId) {
+        if (userRole === 'manager' && employeeId !== authResult.user.uid) {
+          const { hasAccessToEmployee } = await import('@/lib/manager-access');
+          if (!(await hasAccessToEmployee(authResult.user.uid, userRole, employeeId))) {
+            return ErrorResponses.forbidden('You can only view declarations for your assigned employees');
+          }
+        }
+        targetId = employeeId;
+      }
+      const declaration = await payrollAdminService.getTaxDeclaration(targetId, financialYear);
+      declarations = declaration ? [declaration] : [];
+    }
+
+    const window = await payrollAdminService.getTaxDeclarationWindow(financialYear);
+    return NextResponse.json({ declarations, window }, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PUT /api/payroll/tax-declarations
+ * Authenticated users - save their own declaration for a financial year.
+ * Rejected once the year's declarations are locked.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const declarationSchema = z.object({
+      financialYear: z.number().int().min(2020).max(2099),
+      regime: z.enum(['old', 'new']),
+      section80C: z.number().min(0),
+      section80D: z.number().min(0),
+      metroCity: z.boolean().default(false),
+      rentReceipts: z.array(z.object({
+        month: z.number().int().min(0).max(11),
+        year: z.number().int().min(2020).max(2100),
+        amount: z.number().min(0),
+        landlordName: z.string().max(100).optional(),
+        landlordPan: z.string()
+          .regex(/^[A-Z]{5}[0-9]{4}[A-Z]{1}$/, 'Invalid PAN format (ABCDE1234F)')
+          .optional()
+          .nullable(),
+      })).max(12).default([]),
+    });
+
+    const body = await request.json();
+    const validatedData = declarationSchema.parse(body);
+
+    const outsideYear = validatedData.rentReceipts.filter(
+      (receipt) => getFinancialYear(receipt.month, receipt.year) !== validatedData.financialYear
+    );
+    if (outsideYear.length > 0) {
+      return ErrorResponses.badRequest(
+        `Rent receipts must fall within FY ${formatFinancialYear(validatedData.financialYear)}`
+      );
+    }
+
+    const window = await payrollAdminService.getTaxDeclarationWindow(validatedData.financialYear);
+    if (window.locked) {
+      return ErrorResponses.forbidden(
+        `Tax declarations for FY ${formatFinancialYear(validatedData.financialYear)} are locked`
+      );
+    }
+
+    const declaration = await payrollAdminService.saveTaxDeclaration({
+      ...validatedData,
+      employeeId: authResult.user.uid,
+    });
+
+    return NextResponse.json(declaration, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { getFinancialYear } from '@/lib/tds';
+
+/**
+ * GET /api/payroll/tds-projection?financialYear=2026
+ * Year-to-date TDS worksheet built from generated slips and the current declaration.
+ * Employees get their own, from released slips only; Admins/Managers may pass employeeId.
+ * Returns null when there are no slips for the year.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const now = new Date();
+    const financialYear = parseInt(
+      searchParams.get('financialYear') || String(getFinancialYear(now.getMonth(), now.getFullYear())),
+      10
+    );
+    if (isNaN(financialYear)) {
+      return ErrorResponses.badRequest('Invalid financial year');
+    }
+
+    const userRole = authResult.user.claims.role;
+    const employeeId = searchParams.get('employeeId');
+    let targetId = authResult.user.uid;
+
+    if (employeeId && employeeId !== authResult.user.uid) {
+      if (!['admin', 'manager'].includes(userRole)) {
+        return ErrorResponses.forbidden('You can only view your own TDS projection');
+      }
+      if (userRole === 'manager') {
+        const { hasAccessToEmployee } = await import('@/lib/manager-access');
+        if (!(await hasAccessToEmployee(authResult.user.uid, userRole, employeeId))) {
+          return ErrorResponses.forbidden('You can only view projections for your assigned employees');
+        }
+      }
+      targetId = employeeId;
+    }
+
+    // Employees only see the slips released to them
+    const accessGrantedOnly = targetId === authResult.user.uid && userRole !== 'admin';
+    const projection = await payrollAdminService.getTdsProjection(targetId, financialYear, accessGrantedOnly);
+    return NextResponse.json(projection, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Relieving Letters API - Full & Final Settlement
+ * GET: Get the letter's F&F settlement
+ * POST: Compute the draft settlement (admin only)
+ * PATCH: Mark the settlement settled (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { adminDb } from '@/lib/firebase-admin';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { z } from 'zod';
+
+/**
+ * GET /api/relieving-letters/[id]/fnf
+ * Admins/Managers get the settlement in any state; employees only once it is
+ * settled and their relieving letter has been released. Returns null when
+ * no settlement has been computed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { id } = await params;
+    const letterDoc = await adminDb.collection('relieving-letters').doc(id).get();
+    if (!letterDoc.exists) {
+      return ErrorResponses.notFound('Letter');
+    }
+    const letter = letterDoc.data()!;
+    const settlement = await payrollAdminService.getFnfSettlement(id);
+    const userRole = authResult.user.claims.role;
+
+    if (userRole === 'employee') {
+      if (letter.employeeId !== authResult.user.uid || letter.accessGranted !== true) {
+        return ErrorResponses.forbidden('Access denied');
+      }
+      return NextResponse.json(settlement?.status === 'settled' ? settlement : null, { status: 200 });
+    }
+
+    if (userRole === 'manager' && letter.employeeId !== authResult.user.uid) {
+      const { hasAccessToEmployee } = await import('@/lib/manager-access');
+      if (!(await hasAccessToEmployee(authResult.user.uid, userRole, letter.employeeId))) {
+        return ErrorResponses.forbidden('You can only view settlements for your assigned employees');
+      }
+    }
+
+    return NextResponse.json(settlement, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/relieving-letters/[id]/fnf
+ * Admin only - compute the draft settlement from the letter's dateOfLeaving.
+ * leaveBalanceDays is estimated from payroll when omitted.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can compute full and final settlements');
+    }
+
+    const computeSchema = z.object({
+      noticePeriodDays: z.number().int().min(0).max(365),
+      noticeDaysServed: z.number().int().min(0).max(365),
+      leaveBalanceDays: z.number().min(0).max(365).optional(),
+      otherEarnings: z.number().min(0).optional(),
+      otherDeductions: z.number().min(0).optional(),
+      remarks: z.string().max(500).optional(),
+    });
+
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = computeSchema.parse(body);
+
+    const settlement = await payrollAdminService.computeFnfSettlement(id, validatedData, authResult.user.uid);
+    return NextResponse.json(settlement, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Letter not found') {
+      return ErrorResponses.notFound('Letter');
+    }
+    if (error instanceof Error && error.message === 'Employee not found') {
+      return ErrorResponses.notFound('Employee');
+    }
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PATCH /api/relieving-letters/[id]/fnf
+ * Admin only - mark the settlement settled ({ action: 'settle' }). Outstanding
+ * loans are closed against it and the relieving letter can then be released.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (authResult.user.claims.role !== 'admin') {
+      return ErrorResponses.forbidden('Only admins can settle full and final settlements');
+    }
+
+    const actionSchema = z.object({ action: z.literal('settle') });
+
+    const { id } = await params;
+    const body = await request.json();
+    actionSchema.parse(body);
+
+    const settlement = await payrollAdminService.settleFnfSettlement(id, authResult.user.uid);
+    return NextResponse.json(settlement, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
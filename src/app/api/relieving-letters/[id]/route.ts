@@ -12,6 +12,8 @@ import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
 import { adminDb, adminMessaging } from '@/lib/firebase-admin';
 import { Timestamp } from 'firebase-admin/firestore';
 import { RelievingLetter } from '@/types/relieving-letter.types';
+import { resolveEmployeeUid } from '@/lib/relieving-letter-utils';
+import { payrollAdminService } from '@/services/payroll-admin.service';
 
 /**
  * GET /api/relieving-letters/[id]
@@ -89,6 +91,14 @@ export async function PUT(
       return NextResponse.json({ error: 'Letter not found' }, { status: 404 });
     }
 
+    // The letter is only released once its full and final settlement is settled
+    if (body.accessGranted === true && doc.data()?.accessGranted !== true) {
+      const settlement = await payrollAdminService.getFnfSettlement(id);
+      if (settlement?.status !== 'settled') {
+        return ErrorResponses.conflict('Settle full and final before releasing the relieving letter');
+      }
+    }
+
     // Update document
     await adminDb.collection('relieving-letters').doc(id).update({
       ...body,
@@ -131,6 +141,7 @@ export async function DELETE(
     }
 
     await adminDb.collection('relieving-letters').doc(id).delete();
+    await adminDb.collection('fnf-settlements').doc(id).delete();
 
     console.log(`[API /api/relieving-letters/${id}] DELETE - Deleted successfully`);
     return NextResponse.json({ success: true }, { status: 200 });
@@ -139,41 +150,6 @@ export async function DELETE(
   }
 }
 
-/**
- * Resolve a user's real Auth UID from a stored employeeId value.
- *
- * The letter's employeeId may be an employee number (e.g. "EMP001") rather than
- * the Firestore user doc id (uid). Notifications and FCM tokens are keyed by the
- * uid, so the actual user doc must be resolved before writing anything.
- *
- * Returns the users doc id (uid), or null if no matching user is found.
- */
-async function resolveEmployeeUid(employeeId: string): Promise<string | null> {
-  if (!employeeId) return null;
-
-  // Case 1: employeeId is already the user doc id (uid)
-  const directDoc = await adminDb.collection('users').doc(employeeId).get();
-  if (directDoc.exists) return employeeId;
-
-  // Case 2: employeeId is the employee number — find the user doc by that field
-  const byEmployeeId = await adminDb
-    .collection('users')
-    .where('employeeId', '==', employeeId)
-    .limit(1)
-    .get();
-  if (!byEmployeeId.empty) return byEmployeeId.docs[0].id;
-
-  // Case 3: fall back to the stored uid field
-  const byUid = await adminDb
-    .collection('users')
-    .where('uid', '==', employeeId)
-    .limit(1)
-    .get();
-  if (!byUid.empty) return byUid.docs[0].id;
-
-  return null;
-}
-
 /**
  * PATCH /api/relieving-letters/[id]
  * Toggle access granted (admin only)
@@ -213,6 +189,14 @@ export async function PATCH(
     const letterData = doc.data() as Record<string, unknown>;
     const previousAccessGranted = letterData.accessGranted as boolean;
 
+    // The letter is only released once its full and final settlement is settled
+    if (body.accessGranted && !previousAccessGranted) {
+      const settlement = await payrollAdminService.getFnfSettlement(id);
+      if (settlement?.status !== 'settled') {
+        return ErrorResponses.conflict('Settle full and final before releasing the relieving letter');
+      }
+    }
+
     // Update accessGranted field
     await adminDb.collection('relieving-letters').doc(id).update({
       accessGranted: body.accessGranted,
@@ -137,6 +137,11 @@ export const POST = withManagerAuth(async (request: AuthenticatedRequest) => {
       );
     }
 
+    // A new letter has no full and final settlement yet, so it cannot be released
+    if (validation.data.accessGranted) {
+      return ErrorResponses.conflict('Settle full and final before releasing the relieving letter');
+    }
+
     // Generate letter number
     const letterNumber = await generateLetterNumber();
 
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { shiftAssignmentSchema } from '@/lib/attendance-validation';
+import { shiftAdminService } from '@/services/shift-admin.service';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/shifts/assignments?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD&employeeId=...
+ * Admins/Managers - per-date shift assignments, generated from rotations or
+ * set by hand
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view shift assignments');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('startDate') || '';
+    const endDate = searchParams.get('endDate') || '';
+    const employeeId = searchParams.get('employeeId') || undefined;
+
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate) || endDate < startDate) {
+      return ErrorResponses.badRequest('Valid startDate and endDate (YYYY-MM-DD) are required');
+    }
+
+    const assignments = await shiftAdminService.getAssignments(startDate, endDate, employeeId);
+    return NextResponse.json(assignments, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PUT /api/shifts/assignments
+ * Admins/Managers - set an employee's shift for one day by hand (shiftId
+ * null for a day off), overriding their rotation or weekly shift
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can assign shifts');
+    }
+
+    const body = await request.json();
+    const { employeeId, date, shiftId } = shiftAssignmentSchema.parse(body);
+
+    const assignment = await shiftAdminService.setAssignment(employeeId, date, shiftId);
+    return NextResponse.json(assignment, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/shifts/assignments?employeeId=...&date=YYYY-MM-DD
+ * Admins/Managers - remove a day's assignment, so the employee's rotation or
+ * weekly shift applies again
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can remove shift assignments');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const employeeId = searchParams.get('employeeId');
+    const date = searchParams.get('date') || '';
+
+    if (!employeeId || !DATE_PATTERN.test(date)) {
+      return ErrorResponses.badRequest('employeeId and date (YYYY-MM-DD) are required');
+    }
+
+    await shiftAdminService.deleteAssignment(employeeId, date);
+    return NextResponse.json({ message: 'Shift assignment removed' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Shift assignment not found') {
+      return ErrorResponses.notFound('Shift assignment');
+    }
+    return handleApiError(error);
+  }
+}
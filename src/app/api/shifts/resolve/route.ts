@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { shiftAdminService } from '@/services/shift-admin.service';
+
+/**
+ * GET /api/shifts/resolve?employeeId=...&date=YYYY-MM-DD
+ * The shift an employee works on a day (today by default), through their
+ * assignments, rotation and weekly shift; null on a day off.
+ * Employees can only see their own; managers their assigned employees.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const employeeId = searchParams.get('employeeId') || authResult.user.uid;
+    const date = searchParams.get('date') || toAttendanceDate(new Date());
+    const userRole = authResult.user.claims.role;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return ErrorResponses.badRequest('Invalid date (use YYYY-MM-DD)');
+    }
+
+    if (employeeId !== authResult.user.uid) {
+      if (!['admin', 'manager'].includes(userRole)) {
+        return ErrorResponses.forbidden('You can only view your own shift');
+      }
+      if (userRole === 'manager') {
+        const { hasAccessToEmployee } = await import('@/lib/manager-access');
+        if (!(await hasAccessToEmployee(authResult.user.uid, userRole, employeeId))) {
+          return ErrorResponses.forbidden('You can only view shifts for your assigned employees');
+        }
+      }
+    }
+
+    const shift = await shiftAdminService.getEmployeeShift(employeeId, date);
+    return NextResponse.json({ date, shift }, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
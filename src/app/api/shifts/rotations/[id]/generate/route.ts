@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { shiftAdminService } from '@/services/shift-admin.service';
+import { z } from 'zod';
+
+/** Assignments are generated a year at a time at most */
+const MAX_GENERATE_DAYS = 366;
+
+/**
+ * POST /api/shifts/rotations/[id]/generate
+ * Admins/Managers - write the rotation's per-date shift assignments from
+ * startDate to endDate. Days set by hand are kept.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can generate shift assignments');
+    }
+
+    const generateSchema = z.object({
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date is required'),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date is required'),
+    }).refine(
+      (data) => data.endDate >= data.startDate,
+      { message: 'End date must be on or after start date', path: ['endDate'] }
+    ).refine(
+      (data) => Date.parse(data.endDate) - Date.parse(data.startDate) < MAX_GENERATE_DAYS * 24 * 3600000,
+      { message: `Generate at most ${MAX_GENERATE_DAYS} days at a time`, path: ['endDate'] }
+    );
+
+    const { id } = await params;
+    const body = await request.json();
+    const { startDate, endDate } = generateSchema.parse(body);
+
+    const result = await shiftAdminService.generateAssignments(id, startDate, endDate);
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Shift rotation not found') {
+      return ErrorResponses.notFound('Shift rotation');
+    }
+    return handleApiError(error);
+  }
+}
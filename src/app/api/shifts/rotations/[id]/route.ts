@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { MAX_ROTATION_DAYS } from '@/lib/shift-rotation';
+import { shiftAdminService } from '@/services/shift-admin.service';
+import { z } from 'zod';
+
+/**
+ * PATCH /api/shifts/rotations/[id]
+ * Admins/Managers - update a rotation's pattern, dates or employees, or
+ * deactivate it. Generate its assignments again to apply the change.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can update shift rotations');
+    }
+
+    const updateSchema = z.object({
+      name: z.string().trim().min(1, 'Rotation name is required').max(100).optional(),
+      pattern: z
+        .array(z.string().min(1).nullable())
+        .min(1, 'Add at least one day to the rotation')
+        .max(MAX_ROTATION_DAYS, `A rotation can repeat every ${MAX_ROTATION_DAYS} days at most`)
+        .refine((pattern) => pattern.some((shiftId) => shiftId !== null), 'Pick a shift for at least one day')
+        .optional(),
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid start date').optional(),
+      endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid end date').nullable().optional(),
+      employeeIds: z.array(z.string().min(1)).optional(),
+      isActive: z.boolean().optional(),
+    }).refine(
+      (data) => !data.startDate || !data.endDate || data.endDate >= data.startDate,
+      { message: 'End date must be on or after start date', path: ['endDate'] }
+    );
+
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = updateSchema.parse(body);
+
+    const rotation = await shiftAdminService.updateRotation(id, validatedData);
+    return NextResponse.json(rotation, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Shift rotation not found') {
+      return ErrorResponses.notFound('Shift rotation');
+    }
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/shifts/rotations/[id]
+ * Admins/Managers - delete a rotation and its assignments from today on
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can delete shift rotations');
+    }
+
+    const { id } = await params;
+    await shiftAdminService.deleteRotation(id, toAttendanceDate(new Date()));
+
+    return NextResponse.json({ message: 'Shift rotation deleted' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Shift rotation not found') {
+      return ErrorResponses.notFound('Shift rotation');
+    }
+    return handleApiError(error);
+  }
+}
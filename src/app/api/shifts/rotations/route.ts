@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/server-auth';
+import { handleApiError, ErrorResponses } from '@/lib/api-error-handler';
+import { shiftRotationSchema } from '@/lib/attendance-validation';
+import { shiftAdminService } from '@/services/shift-admin.service';
+
+/**
+ * GET /api/shifts/rotations
+ * Admins/Managers - rotating shift patterns
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can view shift rotations');
+    }
+
+    const rotations = await shiftAdminService.getRotations();
+    return NextResponse.json(rotations, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/shifts/rotations
+ * Admins/Managers - create a rotation, e.g. a two-week cycle with alternate
+ * Saturdays off
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult.success || !authResult.user) {
+      return ErrorResponses.unauthorized();
+    }
+
+    if (!['admin', 'manager'].includes(authResult.user.claims.role)) {
+      return ErrorResponses.forbidden('Only admins and managers can create shift rotations');
+    }
+
+    const body = await request.json();
+    const validatedData = shiftRotationSchema.parse(body);
+
+    const rotation = await shiftAdminService.createRotation(validatedData);
+    return NextResponse.json(rotation, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
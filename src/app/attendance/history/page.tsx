@@ -16,6 +16,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { LocationMapModal } from '@/components/attendance/LocationMapModal';
+import { RegularizationRequestModal } from '@/components/attendance/RegularizationRequestModal';
+import { RegularizationRequestList } from '@/components/attendance/RegularizationRequestList';
+import { regularizationService } from '@/services/regularization.service';
+import { toRegularizationInput } from '@/lib/attendance-regularization';
+import { RegularizationFormData, RegularizationRequest } from '@/types/attendance.types';
+import { toast } from 'react-toastify';
 import { 
   Clock, 
   MapPin, 
@@ -26,7 +32,8 @@ import {
   Trash2,
   AlertTriangle,
   X,
-  Check
+  Check,
+  Pencil
 } from 'lucide-react';
 
 interface AttendanceRecord {
@@ -41,6 +48,11 @@ interface AttendanceRecord {
   };
   totalHours: number;
   status: 'active' | 'completed' | 'incomplete';
+  autoClockedOut?: boolean;
+  offline?: {
+    clockIn?: { capturedAt: string; syncedAt: string };
+    clockOut?: { capturedAt: string; syncedAt: string };
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -63,6 +75,52 @@ export default function AttendanceHistoryPage() {
   const [showMapModal, setShowMapModal] = useState(false);
   const [selectedLocation, setSelectedLocation] = useState<{ latitude: number; longitude: number; title: string } | null>(null);
 
+  // State for regularization requests
+  const [showRegularizeModal, setShowRegularizeModal] = useState(false);
+  const [recordToRegularize, setRecordToRegularize] = useState<AttendanceRecord | null>(null);
+  const [submittingRegularization, setSubmittingRegularization] = useState(false);
+  const [regularizations, setRegularizations] = useState<RegularizationRequest[]>([]);
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+
+  const openRegularize = (record: AttendanceRecord | null) => {
+    setRecordToRegularize(record);
+    setShowRegularizeModal(true);
+  };
+
+  const fetchRegularizations = async () => {
+    const data = await regularizationService.getRequests({ scope: 'mine' });
+    if (data) setRegularizations(data);
+  };
+
+  const submitRegularization = async (data: RegularizationFormData) => {
+    setSubmittingRegularization(true);
+    try {
+      await regularizationService.submitRequest(
+        toRegularizationInput(data, recordToRegularize?.id ?? null, recordToRegularize?.clockIn)
+      );
+      toast.success('Regularization request sent for approval');
+      fetchRegularizations();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit request');
+      throw error;
+    } finally {
+      setSubmittingRegularization(false);
+    }
+  };
+
+  const withdrawRegularization = async (request: RegularizationRequest) => {
+    setWithdrawingId(request.id!);
+    try {
+      await regularizationService.withdrawRequest(request.id!);
+      toast.success('Request withdrawn');
+      fetchRegularizations();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to withdraw request');
+    } finally {
+      setWithdrawingId(null);
+    }
+  };
+
   // Delete functions
   const confirmDelete = (record: AttendanceRecord) => {
     setRecordToDelete(record);
@@ -208,6 +266,7 @@ export default function AttendanceHistoryPage() {
   useEffect(() => {
     if (user?.uid) {
       fetchAttendanceHistory();
+      fetchRegularizations();
     }
   }, [user?.uid, fetchAttendanceHistory]);
 
@@ -288,8 +347,23 @@ export default function AttendanceHistoryPage() {
 
   // Get status badge
   const getStatusBadge = (record: AttendanceRecord) => {
+    const badge = getRecordStatusBadge(record);
+    if (!record.offline?.clockIn && !record.offline?.clockOut) return badge;
+    // Punches captured without a connection and synced later
+    return (
+      <span className="inline-flex items-center gap-1">
+        {badge}
+        <Badge variant="default" className="bg-gray-100 text-gray-800 hover:bg-gray-100">Synced Offline</Badge>
+      </span>
+    );
+  };
+
+  const getRecordStatusBadge = (record: AttendanceRecord) => {
     if (!record.clockIn) {
       return <Badge variant="secondary">Not Clocked In</Badge>;
+    } else if (record.autoClockedOut && record.status === 'incomplete') {
+      // Closed by the scheduled auto clock-out; regularize the real clock-out
+      return <Badge variant="default" className="bg-orange-100 text-orange-800 hover:bg-orange-100">Auto Clocked Out</Badge>;
     } else if (record.clockOut) {
       return <Badge variant="default" className="bg-green-100 text-green-800 hover:bg-green-100">Completed</Badge>;
     } else {
@@ -330,11 +404,20 @@ export default function AttendanceHistoryPage() {
         <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
           <div>
             <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">Attendance History</h1>
-            <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 mt-1 sm:mt-2">View your historical attendance records</p>
+            <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 mt-1 sm:mt-2">View your attendance records and request corrections</p>
           </div>
           
           {/* Action Buttons - Mobile Responsive */}
           <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => openRegularize(null)}
+              className="flex items-center gap-1"
+            >
+              <Pencil className="h-4 w-4" />
+              <span className="hidden sm:inline">Missed Clock-in</span>
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -357,6 +440,16 @@ export default function AttendanceHistoryPage() {
         </div>
       </div>
 
+      {regularizations.length > 0 && (
+        <div className="mb-4 sm:mb-6">
+          <RegularizationRequestList
+            requests={regularizations}
+            onWithdraw={withdrawRegularization}
+            withdrawingId={withdrawingId}
+          />
+        </div>
+      )}
+
       {attendances.length === 0 && !loading && !isInitialLoad ? (
         <Card className="text-center py-12">
           <CardContent>
@@ -474,8 +567,19 @@ export default function AttendanceHistoryPage() {
                         {getStatusBadge(record)}
                       </div>
                     </div>
-                    <div className="hidden sm:block text-[8px] sm:text-xs text-gray-400">
-                      Updated: {formatDateTime(record.updatedAt)}
+                    <div className="flex items-center justify-between sm:justify-end gap-3">
+                      <div className="hidden sm:block text-[8px] sm:text-xs text-gray-400">
+                        Updated: {formatDateTime(record.updatedAt)}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openRegularize(record)}
+                        className="flex items-center gap-1 text-blue-600 hover:text-blue-700 h-7 px-2 text-xs"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                        Regularize
+                      </Button>
                     </div>
                   </div>
                 </div>
@@ -584,6 +688,15 @@ export default function AttendanceHistoryPage() {
         </div>
       )}
 
+      {/* Regularization Request Modal */}
+      <RegularizationRequestModal
+        open={showRegularizeModal}
+        onOpenChange={setShowRegularizeModal}
+        onSubmit={submitRegularization}
+        loading={submittingRegularization}
+        record={recordToRegularize}
+      />
+
       {/* Location Map Modal */}
       {selectedLocation && (
         <LocationMapModal
@@ -0,0 +1,216 @@
+/**
+ * Overtime Page (Employee Self-Service)
+ * Employees claim the overtime recorded on a month's attendance. Approved
+ * hours are paid with that month's salary.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { useEnhancedAuth } from '@/contexts/enhanced-auth.context';
+import { overtimeService } from '@/services/overtime.service';
+import { OvertimeClaim, OvertimeClaimStatus } from '@/types/attendance.types';
+import { MONTHS } from '@/types/roster.types';
+
+const STATUS_COLORS: Record<OvertimeClaimStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white';
+
+export default function OvertimePage() {
+  const { user } = useEnhancedAuth();
+  const now = new Date();
+  const [month, setMonth] = useState(now.getMonth());
+  const [year, setYear] = useState(now.getFullYear());
+  const [recordedHours, setRecordedHours] = useState<number | null>(null);
+  const [hours, setHours] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [claims, setClaims] = useState<OvertimeClaim[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const years = [now.getFullYear(), now.getFullYear() - 1];
+
+  useEffect(() => {
+    if (user?.uid) {
+      fetchClaims();
+    }
+  }, [user?.uid]);
+
+  useEffect(() => {
+    if (user?.uid) {
+      fetchRecorded();
+    }
+  }, [user?.uid, month, year]);
+
+  const fetchClaims = async () => {
+    setLoading(true);
+    try {
+      const data = await overtimeService.getClaims({ scope: 'mine' });
+      if (!data) {
+        toast.error('Failed to load overtime claims');
+        return;
+      }
+      setClaims(data);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRecorded = async () => {
+    setRecordedHours(null);
+    const data = await overtimeService.getRecordedOvertime(month, year);
+    if (data === null) {
+      toast.error('Failed to load recorded overtime');
+      return;
+    }
+    setRecordedHours(data);
+    setHours(data > 0 ? String(data) : '');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const claimedHours = parseFloat(hours);
+    if (!(claimedHours > 0)) {
+      toast.error('Enter the overtime hours to claim');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await overtimeService.submitClaim({ month, year, hours: claimedHours, notes: notes.trim() });
+      toast.success('Overtime submitted for approval');
+      setNotes('');
+      fetchClaims();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit overtime');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const existing = claims.find((claim) => claim.month === month && claim.year === year);
+
+  return (
+    <div className="p-4 sm:p-6 space-y-6">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Overtime</h1>
+        <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+          Claim the overtime on your attendance. Approved hours are paid with that month&apos;s salary.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 sm:p-6 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Month</label>
+            <select value={month} onChange={(e) => setMonth(parseInt(e.target.value))} className={inputClass}>
+              {MONTHS.map((name, index) => (
+                <option key={name} value={index}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Year</label>
+            <select value={year} onChange={(e) => setYear(parseInt(e.target.value))} className={inputClass}>
+              {years.map((y) => (
+                <option key={y} value={y}>{y}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Hours to claim</label>
+            <input
+              type="number"
+              min="0"
+              step="0.25"
+              max={recordedHours ?? undefined}
+              value={hours}
+              onChange={(e) => setHours(e.target.value)}
+              className={inputClass}
+              disabled={!recordedHours}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              {recordedHours === null ? 'Loading recorded overtime...' : `${recordedHours} hours recorded on your attendance`}
+            </p>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Notes</label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className={inputClass}
+            rows={2}
+            maxLength={500}
+            placeholder="What was the overtime for?"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm text-gray-500">
+            {existing?.status === 'approved'
+              ? 'Overtime for this month is already approved'
+              : existing
+                ? 'Submitting replaces your existing claim for this month'
+                : ''}
+          </span>
+          <Button type="submit" loading={submitting} disabled={!recordedHours || existing?.status === 'approved'}>
+            Submit Overtime
+          </Button>
+        </div>
+      </form>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <h2 className="px-4 sm:px-6 pt-4 text-lg font-semibold text-gray-900 dark:text-white">My Claims</h2>
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : claims.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No overtime claims yet</div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {claims.map((claim) => (
+              <div key={claim.id} className="px-4 sm:px-6 py-4 space-y-1">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-medium text-gray-900 dark:text-white">
+                      {MONTHS[claim.month]} {claim.year}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      Submitted {format(new Date(claim.updatedAt), 'dd MMM yyyy')}
+                      {claim.notes && <> · {claim.notes}</>}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-semibold text-gray-900 dark:text-white">{claim.claimedHours} h</div>
+                    <span className={`inline-block px-2 py-1 text-xs font-medium rounded-full ${STATUS_COLORS[claim.status]}`}>
+                      {claim.status}
+                    </span>
+                  </div>
+                </div>
+                {claim.status === 'approved' && (
+                  <div className="text-sm text-gray-500">
+                    {claim.approvedHours} h approved by {claim.decidedByName} at {claim.multiplier}× pay
+                  </div>
+                )}
+                {claim.status === 'rejected' && claim.rejectionReason && (
+                  <div className="text-sm text-red-600 dark:text-red-400">
+                    Rejected by {claim.decidedByName}: {claim.rejectionReason}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,7 +9,11 @@ import { History, ArrowRight, Calendar as CalendarIcon, CheckCircle, XCircle, Cl
 import { useEnhancedAuth } from '@/contexts/enhanced-auth.context';
 import { ClockIcon, PlayIcon, MapPinIcon, HomeIcon } from '@heroicons/react/24/outline';
 import { leaveService } from '@/services/leave.service';
-import { LeaveRequest, LeaveType, LeaveBalance, LeaveRequestFormData, WfhRequestFormData } from '@/types/attendance.types';
+import { compOffService } from '@/services/comp-off.service';
+import { COMP_OFF_LEAVE_TYPE } from '@/lib/comp-off';
+import { holidayCalendarService } from '@/services/holiday-calendar.service';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { EmployeeHolidays, LeaveRequest, LeaveType, LeaveBalance, LeaveRequestFormData, WfhRequestFormData } from '@/types/attendance.types';
 import { toast } from 'react-toastify';
 
 export default function AttendancePage() {
@@ -34,6 +38,10 @@ export default function AttendancePage() {
   const [myWfhRequests, setMyWfhRequests] = useState<LeaveRequest[]>([]);
   const [pendingWfhRequests, setPendingWfhRequests] = useState<LeaveRequest[]>([]);
 
+  // Holiday State
+  const [myHolidays, setMyHolidays] = useState<EmployeeHolidays | null>(null);
+  const [claimingHolidayId, setClaimingHolidayId] = useState<string | null>(null);
+
   // Auto-open leave modal if query parameter is present
   useEffect(() => {
     if (searchParams?.get('openLeaveModal') === 'true') {
@@ -57,12 +65,42 @@ export default function AttendancePage() {
       console.log('Fetching leave types...');
       const types = await leaveService.getLeaveTypes();
       console.log('Leave types received:', types);
-      setLeaveTypes(types);
 
       // Fetch balances
       const balances = await leaveService.getLeaveBalances(user.uid);
+
+      // Comp-off can be applied for only while approved credits are left
+      const compOff = await compOffService.getBalance();
+      if (compOff && compOff.available > 0) {
+        types.push({
+          id: COMP_OFF_LEAVE_TYPE,
+          name: 'Comp Off',
+          code: 'COMP-OFF',
+          isPaid: true,
+          requiresApproval: true,
+          maxDaysPerYear: 0,
+          accrualRate: 0,
+          carryOverAllowed: false,
+          color: '#8b5cf6',
+          isActive: true,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+        balances.push({
+          leaveTypeId: COMP_OFF_LEAVE_TYPE,
+          leaveTypeName: 'Comp Off',
+          totalDays: compOff.available,
+          usedDays: 0,
+          remainingDays: compOff.available,
+          accrualRate: 0,
+          updatedAt: new Date(),
+        });
+      }
+      setLeaveTypes(types);
       setLeaveBalances(balances);
 
+      setMyHolidays(await holidayCalendarService.getMyHolidays());
+
       // Fetch my leaves
       const requests = await leaveService.getLeaveRequests({ employeeId: user.uid });
       // Split: non-WFH → myLeaves, WFH → myWfhRequests
@@ -88,6 +126,24 @@ export default function AttendancePage() {
     fetchData();
   }, [fetchData]);
 
+  const handleOptionalHoliday = async (holidayId: string, claimed: boolean) => {
+    try {
+      setClaimingHolidayId(holidayId);
+      if (claimed) {
+        await holidayCalendarService.cancelClaim(holidayId);
+        toast.success('Optional holiday given back');
+      } else {
+        await holidayCalendarService.claimOptionalHoliday(holidayId);
+        toast.success('Optional holiday claimed');
+      }
+      setMyHolidays(await holidayCalendarService.getMyHolidays());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update optional holiday');
+    } finally {
+      setClaimingHolidayId(null);
+    }
+  };
+
   const handleApplyLeave = async (data: LeaveRequestFormData) => {
     if (!user || !userProfile) return;
 
@@ -103,7 +159,7 @@ export default function AttendancePage() {
       fetchData(); // Refresh data
     } catch (error) {
       console.error('Error submitting leave:', error);
-      toast.error('Failed to submit leave request');
+      toast.error(error instanceof Error ? error.message : 'Failed to submit leave request');
       // Keep modal open on error so user can retry
     } finally {
       setLoadingLeaves(false);
@@ -509,6 +565,60 @@ export default function AttendancePage() {
           </CardContent>
         </Card>
 
+        {/* Optional Holidays Section */}
+        {myHolidays && myHolidays.optionalHolidays.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Optional Holidays</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {myHolidays.calendarName} · you can take up to {myHolidays.optionalHolidayQuota} a year
+              </p>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {myHolidays.optionalHolidays.map((holiday) => {
+                  const year = holiday.date.slice(0, 4);
+                  const claimedInYear = myHolidays.optionalHolidays.filter(
+                    (h) => h.claimed && h.date.startsWith(year)
+                  ).length;
+                  const isPast = holiday.date < toAttendanceDate(new Date());
+                  return (
+                    <div key={holiday.id} className="flex flex-col sm:flex-row items-start sm:items-center justify-between p-4 border rounded-lg">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-medium">{holiday.name}</span>
+                          {holiday.claimed && (
+                            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Claimed</Badge>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <CalendarIcon className="h-3 w-3" />
+                          {new Date(`${holiday.date}T00:00:00`).toLocaleDateString()}
+                          <span>· {claimedInYear} of {myHolidays.optionalHolidayQuota} used in {year}</span>
+                        </div>
+                      </div>
+                      {!isPast && (
+                        <Button
+                          variant={holiday.claimed ? 'ghost' : 'outline'}
+                          size="sm"
+                          className="mt-2 sm:mt-0"
+                          disabled={
+                            claimingHolidayId === holiday.id ||
+                            (!holiday.claimed && claimedInYear >= myHolidays.optionalHolidayQuota)
+                          }
+                          onClick={() => handleOptionalHoliday(holiday.id, holiday.claimed)}
+                        >
+                          {holiday.claimed ? 'Give Back' : 'Claim'}
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* My WFH History Section */}
         <Card>
           <CardHeader>
@@ -248,12 +248,14 @@ export default function ClientsPage() {
           email: data.email || undefined,
           phone: data.phone || undefined,
         } : undefined,
-        address: (data.address || data.city || data.state || data.country || data.zipCode) ? {
+        address: (data.address || data.city || data.state || data.country || data.zipCode || data.latitude) ? {
           line1: data.address || undefined,
           city: data.city || undefined,
           state: data.state || undefined,
           country: data.country || undefined,
           zipCode: data.zipCode || undefined,
+          latitude: data.latitude && data.longitude ? Number(data.latitude) : undefined,
+          longitude: data.latitude && data.longitude ? Number(data.longitude) : undefined,
         } : undefined,
         compliance: {
           roc: data.complianceRoc ?? false,
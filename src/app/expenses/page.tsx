@@ -0,0 +1,149 @@
+/**
+ * Expense Claims Page (Employee Self-Service)
+ * Employees submit reimbursement claims and follow them through approval
+ * and payout. Approved claims are paid with the next salary slip.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { Paperclip } from 'lucide-react';
+import { useEnhancedAuth } from '@/contexts/enhanced-auth.context';
+import { expenseService } from '@/services/expense.service';
+import { ExpenseClaimForm } from '@/components/expenses/ExpenseClaimForm';
+import { ExpenseStatusBadge } from '@/components/expenses/ExpenseStatusBadge';
+import { ExpenseClaim } from '@/types/expense.types';
+import { MONTHS } from '@/types/roster.types';
+
+export default function ExpensesPage() {
+  const { user } = useEnhancedAuth();
+  const [claims, setClaims] = useState<ExpenseClaim[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user?.uid) {
+      fetchClaims();
+    }
+  }, [user?.uid]);
+
+  const fetchClaims = async () => {
+    setLoading(true);
+    try {
+      const data = await expenseService.getClaims({ scope: 'mine' });
+      if (!data) {
+        toast.error('Failed to load expense claims');
+        return;
+      }
+      setClaims(data);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWithdraw = async (claim: ExpenseClaim) => {
+    if (!confirm(`Withdraw "${claim.title}"?`)) return;
+    setWithdrawingId(claim.id!);
+    try {
+      await expenseService.withdrawClaim(claim.id!);
+      toast.success('Claim withdrawn');
+      fetchClaims();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to withdraw claim');
+    } finally {
+      setWithdrawingId(null);
+    }
+  };
+
+  return (
+    <div className="p-4 sm:p-6 space-y-6">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Expense Claims</h1>
+        <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+          Claim work expenses. Approved claims are reimbursed with your next salary.
+        </p>
+      </div>
+
+      {user?.uid && <ExpenseClaimForm employeeId={user.uid} onSubmitted={fetchClaims} />}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <h2 className="px-4 sm:px-6 pt-4 text-lg font-semibold text-gray-900 dark:text-white">My Claims</h2>
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : claims.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No expense claims yet</div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {claims.map((claim) => (
+              <div key={claim.id} className="px-4 sm:px-6 py-4 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-medium text-gray-900 dark:text-white">{claim.title}</div>
+                    <div className="text-sm text-gray-500">
+                      {format(new Date(claim.createdAt), 'dd MMM yyyy')}
+                      {claim.clientName && <> · {claim.clientName}</>}
+                      {' · '}
+                      {claim.items.length} {claim.items.length === 1 ? 'expense' : 'expenses'}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-semibold text-gray-900 dark:text-white">
+                      ₹{claim.totalAmount.toLocaleString('en-IN')}
+                    </div>
+                    <ExpenseStatusBadge status={claim.status} />
+                  </div>
+                </div>
+
+                {claim.status === 'rejected' && claim.rejectionReason && (
+                  <div className="text-sm text-red-600 dark:text-red-400">
+                    Rejected by {claim.decidedByName}: {claim.rejectionReason}
+                  </div>
+                )}
+                {claim.status === 'approved' && (
+                  <div className="text-sm text-gray-500">
+                    Approved by {claim.decidedByName}, to be paid with your next salary
+                  </div>
+                )}
+                {claim.paidIn && (
+                  <div className="text-sm text-gray-500">
+                    Paid with the {MONTHS[claim.paidIn.month]} {claim.paidIn.year} salary
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <div className="flex flex-wrap gap-3">
+                    {claim.receipts.map((receipt) => (
+                      <a
+                        key={receipt.storagePath}
+                        href={receipt.fileUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                      >
+                        <Paperclip className="h-3.5 w-3.5" />
+                        {receipt.fileName}
+                      </a>
+                    ))}
+                  </div>
+                  {claim.status === 'pending' && (
+                    <button
+                      onClick={() => handleWithdraw(claim)}
+                      disabled={withdrawingId === claim.id}
+                      className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      Withdraw
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,11 +8,16 @@
 
 import { useState, useEffect } from 'react';
 import { toast } from 'react-toastify';
-import { EmployeeSalary, PayrollSettings, SalarySlipTemplate } from '@/types/payroll.types';
+import { EmployeeSalary, LoanStatement, PayrollSettings, SalarySlipTemplate, TdsProjection } from '@/types/payroll.types';
 import { payrollService } from '@/services/payroll.service';
 import { authenticatedFetch } from '@/lib/api-client';
 import { SalarySlipPreview } from '@/components/payroll/SalarySlipPreview';
 import { generateSalarySlipPDF } from '@/components/payroll/SalarySlipPDF';
+import { generateAnnualStatementPDF } from '@/components/payroll/AnnualStatementPDF';
+import { TaxDeclarationForm } from '@/components/payroll/TaxDeclarationForm';
+import { TdsWorksheet } from '@/components/payroll/TdsWorksheet';
+import { LoanStatementView } from '@/components/payroll/LoanStatementView';
+import { formatFinancialYear, getFinancialYear } from '@/lib/tds';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { useEnhancedAuth } from '@/contexts/enhanced-auth.context';
@@ -46,6 +51,12 @@ export default function SalarySlipPage() {
   const [pendingSlip, setPendingSlip] = useState<EmployeeSalary | null>(null);
   const [panError, setPanError] = useState('');
   const [savingPan, setSavingPan] = useState(false);
+  const currentFinancialYear = getFinancialYear(new Date().getMonth(), new Date().getFullYear());
+  const [financialYear, setFinancialYear] = useState(currentFinancialYear);
+  const [tdsProjection, setTdsProjection] = useState<TdsProjection | null>(null);
+  const [tdsLoading, setTdsLoading] = useState(false);
+  const [loanStatements, setLoanStatements] = useState<LoanStatement[]>([]);
+  const [downloadingStatement, setDownloadingStatement] = useState(false);
 
   const monthNames = [
     'January', 'February', 'March', 'April', 'May', 'June',
@@ -58,10 +69,18 @@ export default function SalarySlipPage() {
       fetchAllSlips();
       fetchSettings();
       fetchTemplate();
+      fetchLoans();
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user?.uid]);
 
+  useEffect(() => {
+    if (user?.uid) {
+      fetchTdsProjection();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.uid, financialYear]);
+
   // Apply month/year filter to already-loaded slips
   useEffect(() => {
     if (month !== undefined && year !== undefined) {
@@ -180,6 +199,25 @@ export default function SalarySlipPage() {
     }
   };
 
+  const fetchTdsProjection = async () => {
+    setTdsLoading(true);
+    try {
+      setTdsProjection(await payrollService.getTdsProjection(financialYear));
+    } catch (error) {
+      console.error('[SalarySlipPage] Failed to fetch TDS projection:', error);
+    } finally {
+      setTdsLoading(false);
+    }
+  };
+
+  const fetchLoans = async () => {
+    try {
+      setLoanStatements((await payrollService.getLoans()) ?? []);
+    } catch (error) {
+      console.error('[SalarySlipPage] Failed to fetch loans:', error);
+    }
+  };
+
   const fetchSettings = async () => {
     const data = await payrollService.getSettings();
     if (data) {
@@ -244,6 +282,31 @@ export default function SalarySlipPage() {
     }
   };
 
+  const handleDownloadAnnualStatement = async () => {
+    setDownloadingStatement(true);
+    try {
+      const [statement, currentSettings] = await Promise.all([
+        payrollService.getAnnualStatement(financialYear),
+        settings ? Promise.resolve(settings) : payrollService.getSettings(),
+      ]);
+      if (!currentSettings) {
+        toast.error('Payroll settings not configured');
+        return;
+      }
+      if (!statement) {
+        toast.error(`No salary slips for FY ${formatFinancialYear(financialYear)}`);
+        return;
+      }
+      await generateAnnualStatementPDF(statement, currentSettings);
+      toast.success('Annual statement downloaded');
+    } catch (error) {
+      toast.error('Failed to generate annual statement');
+      console.error(error);
+    } finally {
+      setDownloadingStatement(false);
+    }
+  };
+
   const handlePanSubmit = async () => {
     const panRegex = /^[A-Z]{5}[0-9]{4}[A-Z]{1}$/i;
     if (!panRegex.test(panInput)) {
@@ -479,6 +542,60 @@ export default function SalarySlipPage() {
         )}
       </div>
 
+      {/* Income Tax */}
+      <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow p-4 sm:p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Income Tax</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Declare investments and rent to see how your monthly TDS is worked out</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {allSlips.some((slip) => getFinancialYear(slip.month, slip.year) === financialYear) && (
+              <Button variant="outline" size="sm" loading={downloadingStatement} onClick={handleDownloadAnnualStatement}>
+                Annual Statement
+              </Button>
+            )}
+            <select
+              value={financialYear}
+              onChange={(e) => setFinancialYear(parseInt(e.target.value, 10))}
+              className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+            >
+              {[currentFinancialYear, currentFinancialYear - 1].map((fy) => (
+                <option key={fy} value={fy}>FY {formatFinancialYear(fy)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Declaration</h3>
+            <TaxDeclarationForm financialYear={financialYear} onSaved={fetchTdsProjection} />
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Projection Worksheet</h3>
+            <TdsWorksheet projection={tdsProjection} loading={tdsLoading} />
+          </div>
+        </div>
+      </div>
+
+      {/* Loans & Advances */}
+      {loanStatements.length > 0 && (
+        <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow p-4 sm:p-6">
+          <div className="mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Loans & Advances</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Outstanding balance: ₹{loanStatements.reduce((sum, s) => sum + s.outstanding, 0).toLocaleString('en-IN')}
+            </p>
+          </div>
+          <div className="space-y-8">
+            {loanStatements.map((statement) => (
+              <LoanStatementView key={statement.loan.id} statement={statement} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Preview Dialog */}
       <Dialog open={!!selectedSlip} onOpenChange={() => setSelectedSlip(null)}>
         <DialogContent className="max-w-full sm:max-w-4xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
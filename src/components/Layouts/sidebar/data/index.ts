@@ -110,6 +110,18 @@ export const NAV_DATA = [
         items: [],
         dynamicVisibility: true, // Hidden if employee has no accessible letters
       },
+      {
+        title: "Expense Claims",
+        url: "/expenses",
+        icon: Icons.InvoiceIcon,
+        items: [],
+      },
+      {
+        title: "Overtime",
+        url: "/attendance/overtime",
+        icon: Icons.ClockIcon,
+        items: [],
+      },
       {
         title: "Attendance Tray",
         url: "/attendance/tray",
@@ -169,6 +181,62 @@ export const NAV_DATA = [
         items: [],
         requiresRole: ['admin', 'manager'], // Managers see their assigned employees' requests
       },
+      {
+        title: "Expense Approvals",
+        url: "/admin/expense-approvals",
+        icon: Icons.InvoiceIcon,
+        items: [],
+        requiresRole: ['admin', 'manager'], // Managers see their assigned employees' claims
+      },
+      {
+        title: "Overtime Approvals",
+        url: "/admin/overtime-approvals",
+        icon: Icons.ClockIcon,
+        items: [],
+        requiresRole: ['admin', 'manager'], // Managers see their assigned employees' overtime
+      },
+      {
+        title: "Comp-Off Approvals",
+        url: "/admin/comp-off-approvals",
+        icon: Icons.ClockIcon,
+        items: [],
+        requiresRole: ['admin', 'manager'], // Managers see their assigned employees' credits
+      },
+      {
+        title: "Regularizations",
+        url: "/admin/regularization-approvals",
+        icon: Icons.ClockIcon,
+        items: [],
+        requiresRole: ['admin', 'manager'], // Managers see their assigned employees' requests
+      },
+      {
+        title: "Attendance Sites",
+        url: "/admin/attendance-sites",
+        icon: Icons.ClockIcon,
+        items: [],
+        requiresRole: ['admin', 'manager'], // Only admins can add or edit offices
+      },
+      {
+        title: "Attendance Policies",
+        url: "/admin/attendance-policies",
+        icon: Icons.ClockIcon,
+        items: [],
+        requiresRole: ['admin', 'manager'], // Only admins can edit or assign policies
+      },
+      {
+        title: "Holiday Calendars",
+        url: "/admin/holiday-calendars",
+        icon: Icons.Calendar,
+        items: [],
+        requiresRole: ['admin', 'manager'], // Only admins can edit calendars or import holidays
+      },
+      {
+        title: "Attendance Alerts",
+        url: "/admin/attendance-alerts",
+        icon: Icons.ReportsIcon,
+        items: [],
+        requiresRole: ['admin', 'manager'], // Managers see their assigned employees' alerts
+      },
       {
         title: "Attendance Sheet",
         url: "/admin/attendance-roster",
@@ -45,25 +45,12 @@ export function AttendanceCalendarModal({
 
   const fetchHolidays = async () => {
     try {
-      const snapshot = await getDocs(collection(db, 'holidays'));
-      const holidayDates = new Set<string>();
-      snapshot.docs.forEach(doc => {
-        const data = doc.data();
-        let dateStr = '';
-        if (data.date && typeof data.date.toDate === 'function') {
-          const d = data.date.toDate();
-          dateStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-        } else if (typeof data.date === 'string') {
-          dateStr = data.date.includes('T')
-            ? (() => { const d = new Date(data.date); return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`; })()
-            : data.date;
-        } else if (data.date?.seconds) {
-          const d = new Date(data.date.seconds * 1000);
-          dateStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-        }
-        if (dateStr) holidayDates.add(dateStr);
-      });
-      setHolidays(holidayDates);
+      // The employee's holidays under their holiday calendar (YYYY-MM-DD)
+      const { authenticatedFetch } = await import('@/lib/api-client');
+      const response = await authenticatedFetch(`/api/holidays/employees?employeeId=${employeeId}`);
+      if (!response.ok) throw new Error('Failed to fetch holidays');
+      const holidaysByEmployee: Record<string, { date: string }[]> = await response.json();
+      setHolidays(new Set((holidaysByEmployee[employeeId] ?? []).map((holiday) => holiday.date)));
     } catch (error) {
       console.error('Error fetching holidays:', error);
     }
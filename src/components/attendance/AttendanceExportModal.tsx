@@ -9,6 +9,8 @@ import { employeeService } from '@/services/employee.service';
 import { collection, query, where, getDocs, Timestamp, orderBy } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import * as XLSX from 'xlsx';
+import { formatDistance } from '@/lib/geofence';
+import { GeofenceMatch } from '@/types/attendance.types';
 
 interface Employee {
   id?: string;
@@ -31,6 +33,10 @@ interface AttendanceRecord {
     clockIn?: { latitude: number; longitude: number };
     clockOut?: { latitude: number; longitude: number };
   };
+  geofence?: {
+    clockIn?: GeofenceMatch;
+    clockOut?: GeofenceMatch;
+  };
   totalHours: number;
   status: 'active' | 'completed' | 'incomplete';
 }
@@ -46,6 +52,8 @@ interface DetailRow {
   hoursWorked: number | string;
   clockInLocation: string;
   clockOutLocation: string;
+  clockInSite: string;
+  clockOutSite: string;
   leaveType: string;
   leaveStatus: string;
   leaveReason: string;
@@ -109,6 +117,13 @@ export function AttendanceExportModal({
     return status;
   };
 
+  // The geofence site a punch matched, e.g. "Head Office" or "Outside (350 m from Head Office)"
+  const siteLabel = (match?: GeofenceMatch): string => {
+    if (!match?.siteName) return '';
+    if (match.withinFence) return match.siteName;
+    return `Outside (${formatDistance(match.distance ?? 0)} from ${match.siteName})`;
+  };
+
   // Geocoding cache and functions
   const geocodeCache = new Map<string, string>();
 
@@ -297,6 +312,7 @@ export function AttendanceExportModal({
           clockIn: convertTimestamp(data.clockIn)!,
           clockOut: convertTimestamp(data.clockOut),
           location: data.location,
+          geofence: data.geofence,
           totalHours: data.totalHours || 0,
           status: data.status || 'completed',
         });
@@ -408,6 +424,8 @@ export function AttendanceExportModal({
         hoursWorked: hoursWorked,
         clockInLocation: includeLocation ? getAddress(rec, 'clockIn') : '',
         clockOutLocation: includeLocation ? getAddress(rec, 'clockOut') : '',
+        clockInSite: siteLabel(rec.geofence?.clockIn),
+        clockOutSite: siteLabel(rec.geofence?.clockOut),
         leaveType: matchedLeave?.leaveType ?? '',
         leaveStatus: matchedLeave?.status ?? '',
         leaveReason: matchedLeave?.reason ?? '',
@@ -448,6 +466,8 @@ export function AttendanceExportModal({
           'Clock In': r.clockIn,
           'Clock Out': r.clockOut,
           'Hours Worked': r.hoursWorked,
+          'Clock In Site': r.clockInSite,
+          'Clock Out Site': r.clockOutSite,
         };
         if (includeLocation) {
           row['Clock In Location'] = r.clockInLocation;
@@ -465,6 +485,7 @@ export function AttendanceExportModal({
       const detailCols: XLSX.ColInfo[] = [
         { wch: 22 }, { wch: 26 }, { wch: 12 }, { wch: 5 },
         { wch: 18 }, { wch: 10 }, { wch: 14 }, { wch: 13 },
+        { wch: 30 }, { wch: 30 },
       ];
       if (includeLocation) {
         detailCols.push({ wch: 55 }, { wch: 55 });
@@ -565,7 +586,12 @@ export function AttendanceExportModal({
       headers.push('Leave Type', 'Leave Status');
 
       const body = detailRows.map((r) => {
-        const row = [r.employeeName, r.date, r.day, r.status, r.clockIn, r.clockOut, String(r.hoursWorked)];
+        // The matched site goes under each punch time
+        const withSite = (time: string, site: string) => (site ? `${time}\n${site}` : time);
+        const row = [
+          r.employeeName, r.date, r.day, r.status,
+          withSite(r.clockIn, r.clockInSite), withSite(r.clockOut, r.clockOutSite), String(r.hoursWorked),
+        ];
         if (includeLocation) {
           row.push(r.clockInLocation, r.clockOutLocation);
         }
@@ -952,6 +978,7 @@ export function AttendanceExportModal({
             <p className="font-medium text-xs sm:text-sm">Export includes:</p>
             <ul className="list-disc list-inside space-y-0.5 text-[11px] sm:text-xs pl-1">
               <li>Daily status, clock-in/out times (IST), hours worked</li>
+              <li>The office or client site each clock-in/out matched</li>
               {includeLocation && <li>Full address for clock-in/out locations</li>}
               <li>Leave type, status, and reason</li>
               {includeStats && <li>Summary {exportFormat === 'excel' ? 'sheet' : 'page'} with per-employee totals</li>}
@@ -10,7 +10,10 @@ import {
   AttendanceRecord,
 } from '@/types/attendance.types';
 import { formatDuration } from '@/utils/time-calculations';
-import { Clock, Coffee, LogIn, LogOut } from 'lucide-react';
+import { useEnhancedAuth } from '@/contexts/enhanced-auth.context';
+import { PunchSyncResult, useOfflinePunches } from '@/hooks/use-offline-punches';
+import { isNetworkError } from '@/lib/offline-punches';
+import { Clock, CloudOff, Coffee, LogIn, LogOut } from 'lucide-react';
 
 interface ClockInOutWidgetProps {
   currentStatus: CurrentAttendanceStatus | null;
@@ -19,6 +22,7 @@ interface ClockInOutWidgetProps {
   onStartBreak: () => Promise<void>;
   onEndBreak: () => Promise<void>;
   loading: boolean;
+  onOfflineSynced?: (result: PunchSyncResult) => void; // refresh the status after queued punches sync
 }
 
 export function ClockInOutWidget({
@@ -28,45 +32,76 @@ export function ClockInOutWidget({
   onStartBreak,
   onEndBreak,
   loading,
+  onOfflineSynced,
 }: ClockInOutWidgetProps) {
+  const { user, userProfile } = useEnhancedAuth();
   const [elapsedTime, setElapsedTime] = useState(0);
   const [breakTime, setBreakTime] = useState(0);
+  const [syncErrors, setSyncErrors] = useState<string[]>([]);
+
+  const { queued, syncing, queuePunch, sync } = useOfflinePunches(user?.uid, (result) => {
+    setSyncErrors(result.rejected.map(({ punch, message }) =>
+      `${punch.type === 'clock-in' ? 'Clock in' : 'Clock out'} at ${new Date(punch.timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}: ${message}`
+    ));
+    onOfflineSynced?.(result);
+  });
+
+  // Punches waiting to sync decide what the employee sees until they do
+  const lastQueued = queued[queued.length - 1];
+  const isClockedIn = lastQueued ? lastQueued.type === 'clock-in' : !!currentStatus?.isClockedIn;
+  const isOnBreak = !lastQueued && !!currentStatus?.isOnBreak;
+  const clockInMs = lastQueued
+    ? (lastQueued.type === 'clock-in' ? new Date(lastQueued.timestamp).getTime() : undefined)
+    : currentStatus?.clockInTime?.getTime();
 
   // Update elapsed time every second
   useEffect(() => {
-    if (!currentStatus?.isClockedIn) {
+    if (!isClockedIn || clockInMs === undefined) {
       setElapsedTime(0);
       setBreakTime(0);
       return;
     }
 
     const interval = setInterval(() => {
-      if (currentStatus.clockInTime) {
-        const now = new Date();
-        const totalSeconds =
-          (now.getTime() - currentStatus.clockInTime.getTime()) / 1000;
-        
-        // Calculate break time
-        let currentBreakTime = currentStatus.breakDuration;
-        if (currentStatus.isOnBreak && currentStatus.breakStartTime) {
-          const breakElapsed =
-            (now.getTime() - currentStatus.breakStartTime.getTime()) / 1000;
-          currentBreakTime += breakElapsed;
-        }
-
-        setElapsedTime(totalSeconds - currentBreakTime);
-        setBreakTime(currentBreakTime);
+      const now = new Date();
+      const totalSeconds =
+        (now.getTime() - clockInMs) / 1000;
+      
+      // Calculate break time
+      let currentBreakTime = lastQueued ? 0 : currentStatus?.breakDuration ?? 0;
+      if (isOnBreak && currentStatus?.breakStartTime) {
+        const breakElapsed =
+          (now.getTime() - currentStatus.breakStartTime.getTime()) / 1000;
+        currentBreakTime += breakElapsed;
       }
+
+      setElapsedTime(totalSeconds - currentBreakTime);
+      setBreakTime(currentBreakTime);
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [currentStatus]);
+  }, [currentStatus, isClockedIn, isOnBreak, clockInMs, lastQueued]);
+
+  // Keep a punch on the device when there is no connection to send it over
+  const queueOfflinePunch = async (type: 'clock-in' | 'clock-out', timestamp: Date) => {
+    await queuePunch(type, {
+      timestamp,
+      employeeName: userProfile?.displayName || user?.email || '',
+      recordId: type === 'clock-out' ? currentStatus?.currentRecordId ?? null : null,
+    });
+  };
 
   const handleClockIn = async () => {
+    const timestamp = new Date();
+    if (!navigator.onLine) {
+      await queueOfflinePunch('clock-in', timestamp);
+      return;
+    }
+
     try {
       console.log('Attempting to clock in...');
       const result = await onClockIn({
-        timestamp: new Date(),
+        timestamp,
       });
       
       console.log('Clock in result:', result);
@@ -77,17 +112,31 @@ export function ClockInOutWidget({
         console.log('User was already clocked in');
       }
     } catch (error) {
+      if (isNetworkError(error)) {
+        await queueOfflinePunch('clock-in', timestamp);
+        return;
+      }
       console.error('Clock in error:', error);
       console.error('Full error details:', JSON.stringify(error, Object.getOwnPropertyNames(error), 2));
     }
   };
 
   const handleClockOut = async () => {
+    const timestamp = new Date();
+    if (!navigator.onLine) {
+      await queueOfflinePunch('clock-out', timestamp);
+      return;
+    }
+
     try {
       await onClockOut({
-        timestamp: new Date(),
+        timestamp,
       });
     } catch (error) {
+      if (isNetworkError(error)) {
+        await queueOfflinePunch('clock-out', timestamp);
+        return;
+      }
       console.error('Clock out error:', error);
     }
   };
@@ -100,15 +149,15 @@ export function ClockInOutWidget({
           <div className="flex items-center justify-center gap-2 mb-2">
             <Clock className="h-5 w-5 text-muted-foreground" />
             <h3 className="text-lg font-semibold">
-              {currentStatus?.isClockedIn
-                ? currentStatus.isOnBreak
+              {isClockedIn
+                ? isOnBreak
                   ? 'On Break'
                   : 'Clocked In'
                 : 'Not Clocked In'}
             </h3>
           </div>
 
-          {currentStatus?.isClockedIn && (
+          {isClockedIn && (
             <div className="space-y-2">
               <div className="text-4xl font-bold text-primary">
                 {formatDuration(elapsedTime)}
@@ -127,7 +176,7 @@ export function ClockInOutWidget({
 
         {/* Action Buttons */}
         <div className="grid grid-cols-1 gap-3">
-          {!currentStatus?.isClockedIn ? (
+          {!isClockedIn ? (
             <Button
               onClick={handleClockIn}
               disabled={loading}
@@ -140,11 +189,11 @@ export function ClockInOutWidget({
             </Button>
           ) : (
             <>
-              {!currentStatus.isOnBreak ? (
+              {!isOnBreak ? (
                 <>
                   <Button
                     onClick={onStartBreak}
-                    disabled={loading}
+                    disabled={loading || queued.length > 0}
                     variant="outline"
                     size="lg"
                     className="h-14 text-lg"
@@ -181,15 +230,33 @@ export function ClockInOutWidget({
         </div>
 
         {/* Clock In Time */}
-        {currentStatus?.clockInTime && (
+        {isClockedIn && clockInMs !== undefined && (
           <div className="text-center text-sm text-muted-foreground">
             Clocked in at{' '}
-            {currentStatus.clockInTime.toLocaleTimeString('en-US', {
+            {new Date(clockInMs).toLocaleTimeString('en-US', {
               hour: '2-digit',
               minute: '2-digit',
             })}
           </div>
         )}
+
+        {/* Offline Queue */}
+        {queued.length > 0 && (
+          <div className="flex items-center justify-between gap-3 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+            <div className="flex items-center gap-2">
+              <CloudOff className="h-4 w-4" />
+              {queued.length} punch{queued.length === 1 ? '' : 'es'} saved offline, waiting to sync
+            </div>
+            <Button onClick={() => sync()} disabled={syncing} variant="outline" size="sm">
+              {syncing ? 'Syncing...' : 'Sync Now'}
+            </Button>
+          </div>
+        )}
+        {syncErrors.map((message) => (
+          <div key={message} className="rounded-md bg-red-50 p-3 text-sm text-red-800">
+            {message}
+          </div>
+        ))}
       </div>
     </Card>
   );
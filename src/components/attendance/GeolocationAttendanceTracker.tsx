@@ -6,6 +6,10 @@ import { Button } from '@/components/ui/button';
 import { useEnhancedAuth } from '@/contexts/enhanced-auth.context';
 import { attendanceService } from '@/services/attendance.service';
 import { apiPost, authenticatedFetch } from '@/lib/api-client';
+import { formatDistance } from '@/lib/geofence';
+import { isNetworkError } from '@/lib/offline-punches';
+import { useOfflinePunches } from '@/hooks/use-offline-punches';
+import { AttendanceRecord } from '@/types/attendance.types';
 import { 
   Clock, 
   MapPin, 
@@ -17,7 +21,8 @@ import {
   Coffee,
   RotateCcw,
   ShieldAlert,
-  Wifi
+  Wifi,
+  CloudOff
 } from 'lucide-react';
 
 interface LocationData {
@@ -34,7 +39,7 @@ interface AttendanceStatus {
 
 export function GeolocationAttendanceTracker() {
   const auth = useEnhancedAuth();
-  const [status, setStatus] = useState<AttendanceStatus>(() => {
+  const [loadedStatus, setStatus] = useState<AttendanceStatus>(() => {
     // Always initialize as loading - we'll fetch the real status from backend
     // Don't rely on localStorage for initial state to ensure we get current data
     return { 
@@ -53,6 +58,26 @@ export function GeolocationAttendanceTracker() {
   const [permissionStatus, setPermissionStatus] = useState<'granted' | 'denied' | 'prompt' | 'unknown'>('unknown');
   const [showLocationDeniedModal, setShowLocationDeniedModal] = useState(false);
 
+  // Punches saved offline show as done until they sync
+  const { queued, syncing, queuePunch, sync } = useOfflinePunches(auth.user?.uid, (result) => {
+    if (result.rejected.length > 0) {
+      setError(result.rejected.map(({ punch, message }) =>
+        `Your offline ${punch.type.replace('-', ' ')} at ${formatClockInTime(punch.timestamp)} was not recorded: ${message}`
+      ).join(' '));
+    }
+    loadStatus();
+  });
+  const lastQueued = queued[queued.length - 1];
+  const status: AttendanceStatus = lastQueued
+    ? {
+        status: lastQueued.type === 'clock-in' ? 'CLOCKED_IN' : 'CLOCKED_OUT',
+        data: {
+          ...loadedStatus.data,
+          clockInTime: lastQueued.type === 'clock-in' ? lastQueued.timestamp : loadedStatus.data?.clockInTime,
+        },
+      }
+    : loadedStatus;
+
   // Form submission tracking
   const [formSubmissionRequired, setFormSubmissionRequired] = useState(false);
   const [formSubmitted, setFormSubmitted] = useState(false);
@@ -345,12 +370,38 @@ export function GeolocationAttendanceTracker() {
       console.log('Captured location: Lat', loc.lat, ', Lng', loc.lng);
       console.log('Difference: Lat', Math.abs(28.637959 - loc.lat).toFixed(6), ', Lng', Math.abs(77.285334 - loc.lng).toFixed(6));
       
-      const record = await attendanceService.clockIn({
-        employeeId: auth.user.uid,
-        employeeName: auth.userProfile?.displayName || auth.user.email || 'User',
-        timestamp: new Date(),
-        location: locationData
-      });
+      const timestamp = new Date();
+      const employeeName = auth.userProfile?.displayName || auth.user.email || 'User';
+      const queueOffline = async () => {
+        await queuePunch('clock-in', { timestamp, employeeName, recordId: null, location: locationData });
+        setError('You are offline. Your clock-in was saved on this device and will sync when you reconnect.');
+      };
+      if (!navigator.onLine) {
+        await queueOffline();
+        return;
+      }
+
+      // Clock in through the API so the location is checked against the geofence
+      let response: Response;
+      try {
+        response = await authenticatedFetch('/api/attendance/clock-in', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            employeeName,
+            location: locationData,
+          }),
+        });
+      } catch (fetchError) {
+        if (!isNetworkError(fetchError)) throw fetchError;
+        await queueOffline();
+        return;
+      }
+      const result = await response.json().catch(() => null);
+      if (!response.ok && response.status !== 409) {
+        throw new Error(result?.message || 'Failed to clock in');
+      }
+      const record: AttendanceRecord | null = response.status === 409 ? null : result;
       
       console.log('Clock in result:', record);
       
@@ -360,6 +411,10 @@ export function GeolocationAttendanceTracker() {
         setError('You are already clocked in for today');
         await loadStatus();
       } else {
+        const match = record.geofence?.clockIn;
+        if (match && !match.withinFence && match.distance !== null) {
+          setError(`Clocked in ${formatDistance(match.distance)} from ${match.siteName}, outside the geofence. This punch is flagged for review.`);
+        }
         // Successfully clocked in, wait a bit for Firestore to propagate, then refresh
         console.log('Clock in successful, waiting for Firestore propagation...');
         await new Promise(resolve => setTimeout(resolve, 500)); // Wait 500ms for Firestore
@@ -400,9 +455,11 @@ export function GeolocationAttendanceTracker() {
   const handleClockOut = async () => {
     if (!auth.user) return;
 
-    // Get current record ID from status or fetch it via API (never use client SDK)
+    // Get current record ID from status or fetch it via API (never use client SDK).
+    // Offline, the server finds the open record when the punch syncs.
+    const offline = !navigator.onLine || lastQueued?.type === 'clock-in';
     let recordId = status.data?.currentRecordId;
-    if (!recordId) {
+    if (!recordId && !offline) {
       try {
         const resp = await authenticatedFetch('/api/attendance/status');
         if (resp.ok) {
@@ -415,7 +472,7 @@ export function GeolocationAttendanceTracker() {
       }
     }
 
-    if (!recordId) {
+    if (!recordId && !offline) {
       setError('No active attendance record found');
       return;
     }
@@ -442,10 +499,42 @@ export function GeolocationAttendanceTracker() {
       
       console.log('Sending clock out location data to service:', locationData);
       
-      await attendanceService.clockOut(recordId, {
-        timestamp: new Date(),
-        location: locationData
-      });
+      const timestamp = new Date();
+      const queueOffline = async () => {
+        await queuePunch('clock-out', {
+          timestamp,
+          employeeName: auth.userProfile?.displayName || auth.user?.email || 'User',
+          recordId: recordId ?? null,
+          location: locationData,
+        });
+        setError('You are offline. Your clock-out was saved on this device and will sync when you reconnect.');
+      };
+      if (offline) {
+        await queueOffline();
+        return;
+      }
+
+      let response: Response;
+      try {
+        response = await authenticatedFetch('/api/attendance/clock-out', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ recordId, location: locationData }),
+        });
+      } catch (fetchError) {
+        if (!isNetworkError(fetchError)) throw fetchError;
+        await queueOffline();
+        return;
+      }
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(result?.message || 'Failed to clock out');
+      }
+      
+      const match = (result as AttendanceRecord).geofence?.clockOut;
+      if (match && !match.withinFence && match.distance !== null) {
+        setError(`Clocked out ${formatDistance(match.distance)} from ${match.siteName}, outside the geofence. This punch is flagged for review.`);
+      }
       
       // Refresh status to ensure UI is in sync with backend
       await loadStatus();
@@ -693,6 +782,19 @@ export function GeolocationAttendanceTracker() {
           )}
         </div>
 
+        {/* Offline Queue */}
+        {queued.length > 0 && (
+          <div className="flex items-center justify-between gap-3 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+            <div className="flex items-center gap-2 text-sm text-yellow-800">
+              <CloudOff className="h-4 w-4 flex-shrink-0" />
+              {queued.length} punch{queued.length === 1 ? '' : 'es'} saved offline, waiting to sync
+            </div>
+            <Button onClick={() => sync()} disabled={syncing} variant="outline" size="sm">
+              {syncing ? 'Syncing...' : 'Sync Now'}
+            </Button>
+          </div>
+        )}
+
         {/* Location Info - Hidden as per user request */}
 
         {/* Action Buttons */}
@@ -64,7 +64,8 @@ export function HolidayManagementModal({ isOpen, onClose, managerId, isManager,
       const globalQuery = query(collection(db, 'holidays'), orderBy('date', 'asc'));
       const globalSnapshot = await getDocs(globalQuery);
 
-      const allDocs = globalSnapshot.docs;
+      // Holidays on named calendars are managed from the Holiday Calendars page
+      const allDocs = globalSnapshot.docs.filter(doc => !doc.data().calendarId);
 
       const holidayList: Holiday[] = allDocs
         .map(doc => {
@@ -190,6 +191,10 @@ export function HolidayManagementModal({ isOpen, onClose, managerId, isManager,
             <Calendar className="w-5 h-5" />
             Manage Holidays
           </DialogTitle>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            The company-wide list, used by the default holiday calendar and by anyone without a calendar. Branch
+            calendars and optional holidays are managed under Holiday Calendars.
+          </p>
         </DialogHeader>
 
         <div className="space-y-6 py-4">
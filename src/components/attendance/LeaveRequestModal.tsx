@@ -4,6 +4,7 @@ import React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { leaveRequestSchema } from '@/lib/attendance-validation';
+import { COMP_OFF_LEAVE_TYPE } from '@/lib/comp-off';
 import {
   LeaveRequestFormData,
   LeaveType,
@@ -89,6 +90,11 @@ export function LeaveRequestModal({
                 </option>
               ))}
             </select>
+            {selectedLeaveTypeId === COMP_OFF_LEAVE_TYPE && selectedBalance && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                {selectedBalance.remainingDays} day{selectedBalance.remainingDays === 1 ? '' : 's'} of comp-off available
+              </p>
+            )}
             {errors.leaveTypeId && (
               <p className="text-sm text-red-600 mt-1">
                 {errors.leaveTypeId.message}
@@ -0,0 +1,87 @@
+'use client';
+
+import React from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { REGULARIZATION_TYPES } from '@/lib/attendance-regularization';
+import { RegularizationRequest, RegularizationStatus } from '@/types/attendance.types';
+
+const STATUS_COLORS: Record<RegularizationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-100',
+  approved: 'bg-green-100 text-green-800 hover:bg-green-100',
+  rejected: 'bg-red-100 text-red-800 hover:bg-red-100',
+};
+
+const formatTime = (iso: string | null) => (iso ? format(new Date(iso), 'hh:mm a') : '—');
+
+/** What a request asks to change, e.g. "Clock out 06:30 PM" */
+export function describeRegularization(request: RegularizationRequest): string {
+  const { requested } = request;
+  if (request.type === 'missed-break') {
+    return `Break ${formatTime(requested.breakStart)} – ${formatTime(requested.breakEnd)}`;
+  }
+  return [
+    requested.clockIn && `Clock in ${formatTime(requested.clockIn)}`,
+    requested.clockOut && `Clock out ${formatTime(requested.clockOut)}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+interface RegularizationRequestListProps {
+  requests: RegularizationRequest[];
+  onWithdraw: (request: RegularizationRequest) => void;
+  withdrawingId: string | null;
+}
+
+export function RegularizationRequestList({ requests, onWithdraw, withdrawingId }: RegularizationRequestListProps) {
+  return (
+    <Card>
+      <CardHeader className="px-3 sm:px-6 py-3 sm:py-4">
+        <CardTitle className="text-base sm:text-lg">Regularization Requests</CardTitle>
+      </CardHeader>
+      <CardContent className="px-3 sm:px-6 divide-y divide-gray-200 dark:divide-gray-700">
+        {requests.map((request) => (
+          <div key={request.id} className="py-3 flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="font-medium text-sm text-gray-900 dark:text-white">
+                {format(new Date(`${request.date}T00:00:00`), 'EEE, dd MMM yyyy')} · {REGULARIZATION_TYPES[request.type]}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">{describeRegularization(request)}</div>
+              <div className="text-xs text-gray-500 truncate">{request.reason}</div>
+              {request.status === 'pending' && (
+                <div className="text-xs text-gray-500">
+                  Waiting for {request.approverName ?? 'an admin'}
+                </div>
+              )}
+              {request.status !== 'pending' && request.decidedByName && (
+                <div className={`text-xs ${request.status === 'rejected' ? 'text-red-600 dark:text-red-400' : 'text-gray-500'}`}>
+                  {request.status === 'approved' ? 'Approved' : 'Rejected'} by {request.decidedByName}
+                  {request.rejectionReason && `: ${request.rejectionReason}`}
+                </div>
+              )}
+            </div>
+            <div className="flex flex-col items-end gap-2 flex-shrink-0">
+              <Badge variant="default" className={STATUS_COLORS[request.status]}>
+                {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+              </Badge>
+              {request.status === 'pending' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onWithdraw(request)}
+                  disabled={withdrawingId === request.id}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50 h-7 px-2 text-xs"
+                >
+                  Withdraw
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { regularizationRequestSchema } from '@/lib/attendance-validation';
+import { REGULARIZATION_TYPES, toAttendanceDate } from '@/lib/attendance-regularization';
+import { RegularizationFormData, RegularizationType } from '@/types/attendance.types';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface RegularizationRequestModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: RegularizationFormData) => Promise<void>;
+  loading: boolean;
+  // The record being corrected; without one the request is for a missed clock-in
+  record?: { clockIn: Date; clockOut?: Date } | null;
+}
+
+const toTime = (date?: Date) =>
+  date ? date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }) : '';
+
+export function RegularizationRequestModal({
+  open,
+  onOpenChange,
+  onSubmit,
+  loading,
+  record,
+}: RegularizationRequestModalProps) {
+  const types: RegularizationType[] = record
+    ? [...(record.clockOut ? [] : ['missed-clock-out' as const]), 'wrong-times', 'missed-break']
+    : ['missed-clock-in'];
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+    reset,
+  } = useForm<RegularizationFormData>({
+    resolver: zodResolver(regularizationRequestSchema),
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        type: types[0],
+        date: toAttendanceDate(record?.clockIn ?? new Date()),
+        clockIn: toTime(record?.clockIn),
+        clockOut: toTime(record?.clockOut),
+        breakStart: '',
+        breakEnd: '',
+        reason: '',
+      });
+    }
+  }, [open, record]);
+
+  const type = watch('type');
+
+  const onSubmitForm = async (data: RegularizationFormData) => {
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } catch (error) {
+      // Error handling is done in parent component
+      // Keep modal open so user can retry
+      console.error('Regularization form submission error:', error);
+    }
+  };
+
+  const fieldError = (message?: string) =>
+    message && <p className="text-sm text-red-600 mt-1">{message}</p>;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Request Regularization</DialogTitle>
+          <DialogDescription>
+            Ask your manager to correct this day&apos;s attendance. A clock-out earlier than the
+            clock-in is taken as the next morning.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmitForm)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="reg-type">What needs correcting</Label>
+              <select
+                id="reg-type"
+                {...register('type')}
+                className="w-full h-10 px-3 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-sm"
+              >
+                {types.map((t) => (
+                  <option key={t} value={t}>{REGULARIZATION_TYPES[t]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="reg-date">Date</Label>
+              <Input id="reg-date" type="date" {...register('date')} readOnly={!!record} />
+              {fieldError(errors.date?.message)}
+            </div>
+          </div>
+
+          {type === 'missed-break' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="reg-breakStart">Break Started</Label>
+                <Input id="reg-breakStart" type="time" {...register('breakStart')} />
+                {fieldError(errors.breakStart?.message)}
+              </div>
+              <div>
+                <Label htmlFor="reg-breakEnd">Break Ended</Label>
+                <Input id="reg-breakEnd" type="time" {...register('breakEnd')} />
+                {fieldError(errors.breakEnd?.message)}
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="reg-clockIn">Clock In</Label>
+                <Input
+                  id="reg-clockIn"
+                  type="time"
+                  {...register('clockIn')}
+                  disabled={type === 'missed-clock-out'}
+                />
+                {fieldError(errors.clockIn?.message)}
+              </div>
+              <div>
+                <Label htmlFor="reg-clockOut">Clock Out</Label>
+                <Input id="reg-clockOut" type="time" {...register('clockOut')} />
+                {fieldError(errors.clockOut?.message)}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="reg-reason">Reason</Label>
+            <Textarea
+              id="reg-reason"
+              {...register('reason')}
+              rows={3}
+              placeholder="e.g. Forgot to clock out after the client meeting"
+            />
+            {fieldError(errors.reason?.message)}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting || loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || loading} className="text-white">
+              {isSubmitting || loading ? 'Submitting...' : 'Submit Request'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -185,18 +185,17 @@ export function RosterExportModal({
       authenticatedFetch('/api/employees'),
       authenticatedFetch(`/api/attendance/records?startDate=${startD.toISOString()}&endDate=${endD.toISOString()}`),
       authenticatedFetch(`/api/leave-requests?startDate=${startD.toISOString()}&endDate=${endD.toISOString()}&includeAll=true`),
-      authenticatedFetch('/api/holidays'),
+      authenticatedFetch(`/api/holidays/employees?startDate=${startDate}&endDate=${endDate}`),
     ]);
 
     const employeesRaw = employeesRes.ok ? await employeesRes.json() : [];
     const attRaw = attRes.ok ? await attRes.json() : [];
     const leaveRaw = leaveRes.ok ? await leaveRes.json() : [];
-    const holidaysRaw = holidaysRes.ok ? await holidaysRes.json() : [];
+    const holidaysByEmployee: Record<string, { date: string }[]> = holidaysRes.ok ? await holidaysRes.json() : {};
 
     const allEmployees: any[] = Array.isArray(employeesRaw) ? employeesRaw : employeesRaw?.data ?? [];
     const attRecords: any[] = Array.isArray(attRaw) ? attRaw : attRaw?.data ?? [];
     const leaveRecords: any[] = Array.isArray(leaveRaw) ? leaveRaw : leaveRaw?.data ?? [];
-    const holidays: any[] = Array.isArray(holidaysRaw) ? holidaysRaw : holidaysRaw?.data ?? [];
 
     console.log(`[buildEmployeeAttendanceData] Fetched ${allEmployees.length} employees, ${attRecords.length} attendance records, ${leaveRecords.length} leave records`);
 
@@ -225,16 +224,10 @@ export function RosterExportModal({
       leaveMap.get(lr.employeeId)!.push(lr);
     });
 
-    // Build holiday set (YYYY-MM-DD format)
-    const holidaySet = new Set<string>();
-    holidays.forEach((h) => {
-      const hDate = new Date(h.date);
-      const dateStr = `${hDate.getFullYear()}-${String(hDate.getMonth() + 1).padStart(2, '0')}-${String(hDate.getDate()).padStart(2, '0')}`;
-      holidaySet.add(dateStr);
-    });
-
     // Build employee attendance data
     const employeeAttendanceData: EmployeeAttendance[] = filteredEmployees.map((emp) => {
+      // The employee's holidays under their holiday calendar (YYYY-MM-DD)
+      const holidaySet = new Set((holidaysByEmployee[emp.id] ?? []).map((holiday) => holiday.date));
       const days: AttendanceDay[] = [];
       const stats = {
         present: 0,
@@ -3,19 +3,33 @@
 import React from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { TeamMemberAttendanceStatus } from '@/types/attendance.types';
+import { AlertType, AttendanceAlert, TeamMemberAttendanceStatus } from '@/types/attendance.types';
 import { Clock, Coffee, Plane, AlertCircle } from 'lucide-react';
 
 interface TeamAttendanceOverviewProps {
   teamMembers: TeamMemberAttendanceStatus[];
   onEmployeeClick: (employeeId: string) => void;
   loading?: boolean;
+  alerts?: AttendanceAlert[]; // the day's alerts; late/early are already flagged on the member
 }
 
+const ALERT_LABELS: Partial<Record<AlertType, string>> = {
+  'missing-clockout': 'No clock-out',
+  'excessive-break': 'Long break',
+  overtime: 'Overtime',
+};
+
+const SEVERITY_COLORS = {
+  low: 'bg-gray-100 text-gray-800',
+  medium: 'bg-orange-100 text-orange-800',
+  high: 'bg-red-100 text-red-800',
+};
+
 export function TeamAttendanceOverview({
   teamMembers,
   onEmployeeClick,
   loading,
+  alerts = [],
 }: TeamAttendanceOverviewProps) {
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -79,6 +93,13 @@ export function TeamAttendanceOverview({
                   {member.isEarlyDeparture && (
                     <Badge className="bg-orange-100 text-orange-800">Early</Badge>
                   )}
+                  {alerts
+                    .filter((alert) => alert.employeeId === member.employeeId && ALERT_LABELS[alert.type])
+                    .map((alert) => (
+                      <Badge key={alert.id} className={SEVERITY_COLORS[alert.severity]} title={alert.message}>
+                        {ALERT_LABELS[alert.type]}
+                      </Badge>
+                    ))}
                 </div>
               </div>
             </div>
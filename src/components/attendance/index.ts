@@ -3,6 +3,7 @@ export { AttendanceRecordCard } from './AttendanceRecordCard';
 export { AttendanceStatsCard } from './AttendanceStatsCard';
 export { LeaveRequestModal } from './LeaveRequestModal';
 export { WfhRequestModal } from './WfhRequestModal';
+export { RegularizationRequestModal } from './RegularizationRequestModal';
 export { AttendanceCalendar } from './AttendanceCalendar';
 export { TeamAttendanceOverview } from './TeamAttendanceOverview';
 export { ShiftManagementModal } from './ShiftManagementModal';
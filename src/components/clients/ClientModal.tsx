@@ -32,6 +32,15 @@ const clientFormSchema = z.object({
   state: z.string().optional(),
   country: z.string().optional(),
   zipCode: z.string().optional(),
+  // Pinned location for geofenced attendance at the client's premises
+  latitude: z.string().optional().refine(
+    (v) => !v || (!isNaN(Number(v)) && Math.abs(Number(v)) <= 90),
+    'Latitude must be between -90 and 90'
+  ),
+  longitude: z.string().optional().refine(
+    (v) => !v || (!isNaN(Number(v)) && Math.abs(Number(v)) <= 180),
+    'Longitude must be between -180 and 180'
+  ),
   complianceRoc: z.boolean().optional(),
   complianceGstr1: z.boolean().optional(),
   complianceGst3b: z.boolean().optional(),
@@ -97,6 +106,8 @@ export function ClientModal({
       state: '',
       country: '',
       zipCode: '',
+      latitude: '',
+      longitude: '',
       complianceRoc: false,
       complianceGstr1: false,
       complianceGst3b: false,
@@ -142,6 +153,8 @@ export function ClientModal({
         state: client.address?.state || '',
         country: client.address?.country || '',
         zipCode: client.address?.zipCode || '',
+        latitude: client.address?.latitude?.toString() ?? '',
+        longitude: client.address?.longitude?.toString() ?? '',
         complianceRoc: client.compliance?.roc,
         complianceGstr1: client.compliance?.gstr1,
         complianceGst3b: client.compliance?.gst3b,
@@ -174,6 +187,8 @@ export function ClientModal({
         state: '',
         country: '',
         zipCode: '',
+        latitude: '',
+        longitude: '',
         complianceRoc: false,
         complianceGstr1: false,
         complianceGst3b: false,
@@ -422,6 +437,26 @@ export function ClientModal({
                 disabled={isLoading}
               />
             </div>
+            <div>
+              <Input
+                id="latitude"
+                label="Latitude"
+                {...register('latitude')}
+                placeholder="e.g. 28.637959 (for geofenced attendance)"
+                error={errors.latitude?.message}
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <Input
+                id="longitude"
+                label="Longitude"
+                {...register('longitude')}
+                placeholder="e.g. 77.285334"
+                error={errors.longitude?.message}
+                disabled={isLoading}
+              />
+            </div>
           </div>
 
           {/* Compliance */}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { expenseService } from '@/services/expense.service';
+import { EXPENSE_CATEGORIES } from '@/lib/expenses';
+import { ClientExpenseReportRow, ExpenseCategory } from '@/types/expense.types';
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white text-sm';
+
+function monthStart(): string {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).toLocaleDateString('en-CA');
+}
+
+/**
+ * Approved expenses per client over a date range, for rebilling clients
+ */
+export function ClientExpenseReport() {
+  const [from, setFrom] = useState(monthStart());
+  const [to, setTo] = useState(new Date().toLocaleDateString('en-CA'));
+  const [rows, setRows] = useState<ClientExpenseReportRow[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  const categories = Object.keys(EXPENSE_CATEGORIES) as ExpenseCategory[];
+
+  const runReport = async () => {
+    setLoading(true);
+    try {
+      const data = await expenseService.getClientReport(from, to);
+      if (!data) {
+        toast.error('Failed to load the client expense report');
+        return;
+      }
+      setRows(data);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadCsv = async () => {
+    setDownloading(true);
+    try {
+      const file = await expenseService.downloadClientReport(from, to);
+      if (!file) {
+        toast.error('Failed to export the client expense report');
+        return;
+      }
+      const url = window.URL.createObjectURL(file.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Failed to export the client expense report');
+      console.error(error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 sm:p-6 space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">From</label>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">To</label>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </div>
+        <Button onClick={runReport} loading={loading} disabled={!from || !to || from > to}>
+          Run Report
+        </Button>
+        <Button variant="outline" onClick={downloadCsv} loading={downloading} disabled={!from || !to || from > to}>
+          <Download className="h-4 w-4 mr-1" />
+          CSV
+        </Button>
+      </div>
+
+      {rows && (rows.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">No approved client expenses in this period</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Client</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Claims</th>
+                {categories.map((category) => (
+                  <th key={category} className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">
+                    {EXPENSE_CATEGORIES[category]}
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {rows.map((row) => (
+                <tr key={row.clientId}>
+                  <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">{row.clientName}</td>
+                  <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">{row.claimCount}</td>
+                  {categories.map((category) => (
+                    <td key={category} className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">
+                      {row.byCategory[category] ? `₹${row.byCategory[category].toLocaleString('en-IN')}` : '—'}
+                    </td>
+                  ))}
+                  <td className="px-4 py-3 text-right font-semibold text-gray-900 dark:text-white">
+                    ₹{row.totalAmount.toLocaleString('en-IN')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { expenseService } from '@/services/expense.service';
+import { expenseReceiptUploadService } from '@/services/expense-receipt-upload.service';
+import { EXPENSE_CATEGORIES, RECEIPT_ACCEPTED_TYPES, getClaimTotal } from '@/lib/expenses';
+import { ExpenseCategory, ExpenseLineItem, ExpenseReceipt } from '@/types/expense.types';
+import { ClientVisit } from '@/types/client-visit.types';
+
+interface ExpenseClaimFormProps {
+  employeeId: string;
+  onSubmitted: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white text-sm';
+
+function emptyItem(): ExpenseLineItem {
+  return { category: 'travel', amount: 0, date: new Date().toISOString().split('T')[0], description: '' };
+}
+
+export function ExpenseClaimForm({ employeeId, onSubmitted }: ExpenseClaimFormProps) {
+  const [title, setTitle] = useState('');
+  const [items, setItems] = useState<ExpenseLineItem[]>([emptyItem()]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [clientVisitId, setClientVisitId] = useState('');
+  const [visits, setVisits] = useState<ClientVisit[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    expenseService.getMyClientVisits().then((data) => setVisits((data || []).slice(0, 50)));
+  }, []);
+
+  const updateItem = (index: number, patch: Partial<ExpenseLineItem>) => {
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  };
+
+  const handleFiles = (selected: FileList | null) => {
+    if (!selected) return;
+    const valid: File[] = [];
+    for (const file of Array.from(selected)) {
+      const result = expenseReceiptUploadService.validateReceipt(file);
+      if (result.valid) {
+        valid.push(file);
+      } else {
+        toast.error(`${file.name}: ${result.error}`);
+      }
+    }
+    setFiles((prev) => [...prev, ...valid]);
+  };
+
+  const reset = () => {
+    setTitle('');
+    setItems([emptyItem()]);
+    setFiles([]);
+    setClientVisitId('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) {
+      toast.error('Please enter a title for the claim');
+      return;
+    }
+    if (items.some((item) => !(item.amount > 0))) {
+      toast.error('Every expense needs an amount');
+      return;
+    }
+
+    setSubmitting(true);
+    const receipts: ExpenseReceipt[] = [];
+    try {
+      receipts.push(...(await expenseReceiptUploadService.uploadReceipts(employeeId, files)));
+      await expenseService.createClaim({
+        title: title.trim(),
+        items,
+        receipts,
+        clientVisitId: clientVisitId || null,
+      });
+      toast.success('Expense claim submitted for approval');
+      reset();
+      onSubmitted();
+    } catch (error) {
+      // Don't leave orphaned receipts behind when the claim was not saved
+      await expenseReceiptUploadService.deleteReceipts(receipts);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit claim');
+      console.error(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 sm:p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">New Claim</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Title</label>
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className={inputClass}
+            placeholder="e.g. Client audit trip, Pune"
+            maxLength={120}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Client Visit <span className="text-gray-400">(optional)</span>
+          </label>
+          <select value={clientVisitId} onChange={(e) => setClientVisitId(e.target.value)} className={inputClass}>
+            <option value="">Not linked to a client</option>
+            {visits.map((visit) => (
+              <option key={visit.id} value={visit.id}>
+                {visit.clientName} — {new Date(visit.visitDate).toLocaleDateString()}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-gray-700 dark:text-gray-300">Expenses</div>
+        {items.map((item, index) => (
+          <div key={index} className="grid grid-cols-2 sm:grid-cols-12 gap-2 items-center">
+            <select
+              value={item.category}
+              onChange={(e) => updateItem(index, { category: e.target.value as ExpenseCategory })}
+              className={`${inputClass} sm:col-span-3`}
+            >
+              {Object.entries(EXPENSE_CATEGORIES).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={item.date}
+              onChange={(e) => updateItem(index, { date: e.target.value })}
+              className={`${inputClass} sm:col-span-2`}
+            />
+            <input
+              value={item.description}
+              onChange={(e) => updateItem(index, { description: e.target.value })}
+              className={`${inputClass} col-span-2 sm:col-span-4`}
+              placeholder="Description"
+              maxLength={200}
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={item.amount || ''}
+              onChange={(e) => updateItem(index, { amount: Number(e.target.value) })}
+              className={`${inputClass} sm:col-span-2`}
+              placeholder="Amount"
+            />
+            <button
+              type="button"
+              onClick={() => setItems((prev) => prev.filter((_, i) => i !== index))}
+              disabled={items.length === 1}
+              className="justify-self-start p-2 text-red-600 hover:text-red-700 disabled:opacity-30"
+              title="Remove"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => setItems((prev) => [...prev, emptyItem()])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Expense
+        </Button>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Receipts</label>
+        <label className="inline-flex items-center gap-2 px-3 py-2 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700">
+          <Upload className="h-4 w-4" />
+          Attach images or PDFs (up to 10MB each)
+          <input
+            type="file"
+            multiple
+            accept={RECEIPT_ACCEPTED_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {files.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {files.map((file, index) => (
+              <li key={`${file.name}-${index}`} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                {file.name}
+                <button
+                  type="button"
+                  onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:text-red-700"
+                  title="Remove"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between pt-2 border-t border-gray-200 dark:border-gray-700">
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          Total: <span className="font-semibold text-gray-900 dark:text-white">₹{getClaimTotal(items).toLocaleString('en-IN')}</span>
+        </div>
+        <Button type="submit" loading={submitting} disabled={submitting}>
+          Submit Claim
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,16 @@
+import { ExpenseClaimStatus } from '@/types/expense.types';
+
+const STATUS_COLORS: Record<ExpenseClaimStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  paid: 'bg-blue-100 text-blue-800',
+};
+
+export function ExpenseStatusBadge({ status }: { status: ExpenseClaimStatus }) {
+  return (
+    <span className={`inline-block px-2 py-1 text-xs font-medium rounded-full ${STATUS_COLORS[status]}`}>
+      {status}
+    </span>
+  );
+}
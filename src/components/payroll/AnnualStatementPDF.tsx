@@ -0,0 +1,23 @@
+/**
+ * AnnualStatementPDF Generator
+ * Captures the AnnualStatementPreview letterhead and saves it as a PDF, the
+ * same way salary slips are exported
+ */
+
+import { AnnualSalaryStatement, PayrollSettings } from '@/types/payroll.types';
+import { exportPreviewToPDF } from '@/components/payroll/SalarySlipPDF';
+import { formatFinancialYear } from '@/lib/tds';
+
+export async function generateAnnualStatementPDF(
+  statement: AnnualSalaryStatement,
+  settings: PayrollSettings
+): Promise<void> {
+  await exportPreviewToPDF(
+    async (React) => {
+      const { AnnualStatementPreview } = await import('@/components/payroll/AnnualStatementPreview');
+      return React.createElement(AnnualStatementPreview, { statement, settings });
+    },
+    '#annual-statement-preview',
+    `AnnualSalaryStatement_${statement.employeeCode}_FY${formatFinancialYear(statement.financialYear)}.pdf`
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * AnnualStatementPreview Component
+ * Letterhead view of a financial year's salary statement: month-wise
+ * components, yearly totals and the Form 16 Part B tax computation
+ */
+
+'use client';
+
+import { AnnualSalaryStatement, PayrollSettings } from '@/types/payroll.types';
+import { formatFinancialYear } from '@/lib/tds';
+
+interface AnnualStatementPreviewProps {
+  statement: AnnualSalaryStatement;
+  settings: PayrollSettings;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export function AnnualStatementPreview({ statement, settings }: AnnualStatementPreviewProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return '-';
+    return new Date(dateStr).toLocaleDateString('en-IN', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+    });
+  };
+
+  const { totals, form16PartB: partB } = statement;
+  const fy = formatFinancialYear(statement.financialYear);
+
+  const columns: { key: keyof typeof totals; label: string }[] = [
+    { key: 'basic', label: 'Basic' },
+    { key: 'hra', label: 'HRA' },
+    { key: 'special', label: 'Special' },
+    { key: 'arrears', label: 'Arrears' },
+    { key: 'overtime', label: 'Overtime' },
+    { key: 'otherEarnings', label: 'Allowances' },
+    { key: 'gross', label: 'Gross' },
+    { key: 'epf', label: 'EPF' },
+    { key: 'esi', label: 'ESI' },
+    { key: 'professionalTax', label: 'PT' },
+    { key: 'tds', label: 'TDS' },
+    { key: 'loanRecovery', label: 'Loan' },
+    { key: 'otherDeductions', label: 'Other' },
+    { key: 'netSalary', label: 'Net Pay' },
+  ];
+
+  const computation: { label: string; value: number; bold?: boolean; indent?: boolean }[] = [
+    { label: 'Gross salary u/s 17(1)', value: partB.grossSalary },
+    { label: 'Less: HRA exemption u/s 10(13A)', value: partB.hraExemption, indent: true },
+    ...(partB.exemptAllowances > 0
+      ? [{ label: 'Less: Exempt allowances u/s 10', value: partB.exemptAllowances, indent: true }]
+      : []),
+    { label: 'Salary after exemptions', value: partB.salaryAfterExemptions },
+    { label: 'Less: Standard deduction u/s 16(ia)', value: partB.standardDeduction, indent: true },
+    { label: 'Less: Professional tax u/s 16(iii)', value: partB.professionalTax, indent: true },
+    { label: 'Income chargeable under the head Salaries', value: partB.incomeChargeableUnderSalaries, bold: true },
+    { label: 'Less: Deduction u/s 80C', value: partB.section80C, indent: true },
+    { label: 'Less: Deduction u/s 80D', value: partB.section80D, indent: true },
+    { label: 'Total taxable income', value: partB.totalTaxableIncome, bold: true },
+    { label: 'Tax on total income', value: partB.taxOnTotalIncome },
+    { label: 'Less: Rebate u/s 87A', value: partB.rebate87A, indent: true },
+    { label: 'Add: Surcharge', value: partB.surcharge, indent: true },
+    { label: 'Add: Health & education cess', value: partB.healthAndEducationCess, indent: true },
+    { label: 'Tax payable', value: partB.taxPayable, bold: true },
+    { label: 'Tax deducted at source', value: partB.taxDeducted },
+  ];
+
+  return (
+    <div
+      id="annual-statement-preview"
+      className="text-black"
+      style={{
+        width: '210mm',
+        minHeight: '297mm',
+        fontFamily: 'Arial, sans-serif',
+        backgroundImage: "url('/images/letter-head.jpeg')",
+        backgroundSize: '100% 100%',
+        backgroundRepeat: 'no-repeat',
+        backgroundPosition: 'center',
+        // Padding to keep text in the blank middle area (below header, above footer)
+        paddingTop: '180px',
+        paddingBottom: '120px',
+        paddingLeft: '60px',
+        paddingRight: '60px',
+      }}
+    >
+      {/* Title */}
+      <div className="border-b-2 border-gray-800 pb-2 mb-4">
+        <h2 className="text-lg font-bold text-center">ANNUAL SALARY STATEMENT</h2>
+        <p className="text-center text-xs">Financial Year {fy} (April {statement.financialYear} – March {statement.financialYear + 1})</p>
+      </div>
+
+      {/* Employee Details */}
+      <div className="grid grid-cols-2 gap-x-8 gap-y-1 mb-4 text-xs">
+        <div className="flex justify-between">
+          <span className="text-gray-700">Name:</span>
+          <span className="font-semibold">{statement.name}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">PAN:</span>
+          <span className="font-semibold">{statement.pan || '-'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">Employee ID:</span>
+          <span className="font-semibold">{statement.employeeCode}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">Designation:</span>
+          <span className="font-semibold">{statement.designation || '-'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">Department:</span>
+          <span className="font-semibold">{statement.department || '-'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">Date of Joining:</span>
+          <span className="font-semibold">{formatDate(statement.doj)}</span>
+        </div>
+      </div>
+
+      {/* Month-wise Components */}
+      <div className="border-t border-gray-300 pt-3 mb-4">
+        <h3 className="font-bold mb-2 text-sm">Month-wise Salary</h3>
+        <table className="w-full text-[10px]">
+          <thead>
+            <tr className="border-b border-gray-400">
+              <th className="text-left py-1">Month</th>
+              {columns.map((column) => (
+                <th key={column.key} className="text-right py-1">{column.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {statement.months.map((month) => (
+              <tr key={month.slipNumber} className="border-b border-gray-200">
+                <td className="py-1">{MONTH_NAMES[month.month]} {month.year}</td>
+                {columns.map((column) => (
+                  <td key={column.key} className="text-right py-1">{month[column.key].toLocaleString('en-IN')}</td>
+                ))}
+              </tr>
+            ))}
+            <tr className="font-bold border-t border-gray-400">
+              <td className="py-1">Total</td>
+              {columns.map((column) => (
+                <td key={column.key} className="text-right py-1">{totals[column.key].toLocaleString('en-IN')}</td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Allowances and deductions from the salary component catalogue */}
+      {statement.componentTotals.length > 0 && (
+        <div className="border-t border-gray-300 pt-3 mb-4">
+          <h3 className="font-bold mb-2 text-sm">Other Components</h3>
+          <div className="grid grid-cols-2 gap-x-8 gap-y-1 text-xs">
+            {statement.componentTotals.map((line) => (
+              <div key={line.key} className="flex justify-between">
+                <span>
+                  {line.name}
+                  <span className="text-gray-500">
+                    {line.type === 'deduction' ? ' (deduction)' : line.taxable ? '' : ' (exempt)'}
+                  </span>
+                </span>
+                <span>{formatCurrency(line.amount)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Tax Computation (Form 16 Part B) */}
+      <div className="border-t border-gray-300 pt-3 mb-4">
+        <h3 className="font-bold mb-1 text-sm">Tax Computation</h3>
+        <p className="text-[10px] text-gray-600 mb-2">
+          {partB.regime === 'new' ? 'New tax regime (section 115BAC)' : 'Old tax regime'}, as reported in Part B of Form 16
+        </p>
+        <div className="space-y-1 text-xs">
+          {computation.map((line) => (
+            <div key={line.label} className={`flex justify-between ${line.bold ? 'font-bold' : ''} ${line.indent ? 'pl-4' : ''}`}>
+              <span>{line.label}</span>
+              <span>{formatCurrency(line.value)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Balance Box */}
+      <div className="bg-gray-200 p-3 rounded mb-4">
+        <div className="flex justify-between items-center">
+          <span className="text-sm font-bold">{partB.balanceTax >= 0 ? 'Balance Tax Payable' : 'Excess Tax Deducted'}</span>
+          <span className="text-base font-bold">{formatCurrency(Math.abs(partB.balanceTax))}</span>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="text-[10px] text-gray-600 italic mt-6 pt-3 border-t border-gray-300">
+        {settings.footerNote || 'This is a computer generated statement, does not require signature.'}
+      </div>
+      <div className="text-[10px] text-gray-500 mt-2">
+        Generated on {new Date(statement.generatedAt).toLocaleDateString('en-IN')} from {statement.months.length} salary slip(s)
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * BankExportDialog
+ * Validates a locked month's net pay against employee bank accounts and
+ * downloads it as a bank bulk-upload file
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { payrollService } from '@/services/payroll.service';
+import { BankExportFormatId, BankPaymentSummary } from '@/types/payroll.types';
+import { BANK_EXPORT_FORMATS } from '@/lib/bank-export';
+import { AlertTriangle, Download } from 'lucide-react';
+
+interface BankExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  month: number;
+  year: number;
+  periodLabel: string;
+}
+
+function formatAmount(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+}
+
+export function BankExportDialog({ open, onOpenChange, month, year, periodLabel }: BankExportDialogProps) {
+  const [summary, setSummary] = useState<BankPaymentSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [format, setFormat] = useState<BankExportFormatId>('generic-neft');
+  const [paymentDate, setPaymentDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSkipInvalid(false);
+    setLoading(true);
+    payrollService
+      .getBankPaymentSummary(month, year)
+      .then((result) => {
+        setSummary(result);
+        if (!result) toast.error('Failed to check bank accounts');
+      })
+      .finally(() => setLoading(false));
+  }, [open, month, year]);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const file = await payrollService.downloadBankFile({ month, year, format, paymentDate, skipInvalid });
+      if (!file) {
+        toast.error('Failed to export bank file');
+        return;
+      }
+
+      const url = window.URL.createObjectURL(file.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      toast.success('Bank file downloaded');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Failed to export bank file');
+      console.error(error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const issues = summary?.issues ?? [];
+  const canDownload = !!summary && summary.payableCount > 0 && (issues.length === 0 || skipInvalid);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-full sm:max-w-lg max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">Bank Payment File — {periodLabel}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Checking bank accounts...</p>
+        ) : summary ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Payments</p>
+                <p className="text-sm font-semibold text-gray-900 dark:text-white">{summary.payableCount}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Total</p>
+                <p className="text-sm font-semibold text-gray-900 dark:text-white">{formatAmount(summary.payableAmount)}</p>
+              </div>
+            </div>
+
+            {issues.length > 0 && (
+              <div className="rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-3 space-y-2">
+                <p className="text-sm font-medium text-amber-800 dark:text-amber-300 flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  {issues.length} employee(s) cannot be paid by bank transfer
+                </p>
+                <ul className="text-xs text-amber-800 dark:text-amber-300 space-y-1">
+                  {issues.map((issue) => (
+                    <li key={issue.employeeId}>
+                      <span className="font-medium">{issue.name}</span> ({issue.employeeCode}, {formatAmount(issue.amount)}): {issue.issue}
+                    </li>
+                  ))}
+                </ul>
+                <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={skipInvalid}
+                    onChange={(e) => setSkipInvalid(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Leave them out of the file and pay them separately
+                </label>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="bankFormat">File Format</Label>
+              <select
+                id="bankFormat"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as BankExportFormatId)}
+                className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+              >
+                {Object.values(BANK_EXPORT_FORMATS).map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <Label htmlFor="paymentDate">Payment Date</Label>
+              <Input id="paymentDate" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button loading={downloading} disabled={!canDownload || !paymentDate} onClick={handleDownload}>
+                <Download className="h-4 w-4 mr-1" />
+                Download
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Bank payments could not be loaded.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,7 +15,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { EmployeeSalary, SalarySlipTemplate } from '@/types/payroll.types';
+import { EmployeeSalary, SalaryComponentType, SalarySlipTemplate } from '@/types/payroll.types';
+import { getComponentTotal } from '@/lib/salary-components';
 
 interface EditSalarySlipModalProps {
   isOpen: boolean;
@@ -114,10 +115,18 @@ export function EditSalarySlipModal({
   const otherDeduction = watch('otherDeduction');
   const leaveDeduction = watch('leaveDeduction');
 
-  const totalEarnings = (basic || 0) + (hra || 0) + (special || 0);
+  // Overtime, arrears, reimbursements and catalogue component lines are not editable here but count towards the totals
+  const overtime = slip?.salaryBreakup?.overtime || 0;
+  const arrears = slip?.salaryBreakup?.arrears || 0;
+  const reimbursement = slip?.salaryBreakup?.reimbursement || 0;
+  const componentLines = slip?.salaryBreakup?.components ?? [];
+  const totalEarnings =
+    (basic || 0) + (hra || 0) + (special || 0) + overtime + arrears + reimbursement +
+    getComponentTotal({ components: componentLines }, 'earning');
   const totalDeductions =
     (epf || 0) + (esi || 0) + (professionalTax || 0) +
-    (tds || 0) + (loanRecovery || 0) + (otherDeduction || 0) + (leaveDeduction || 0);
+    (tds || 0) + (loanRecovery || 0) + (otherDeduction || 0) + (leaveDeduction || 0) +
+    getComponentTotal({ components: componentLines }, 'deduction');
   const netSalary = totalEarnings - totalDeductions;
 
   // Auto-set paidDays = present + wfh + paidLeave + (halfDay * 0.5) when attendance changes
@@ -240,6 +249,17 @@ export function EditSalarySlipModal({
     );
   };
 
+  /** Catalogue component lines, shown read-only */
+  const renderComponentLines = (type: SalaryComponentType) =>
+    componentLines
+      .filter((line) => line.type === type)
+      .map((line) => (
+        <div key={line.key} className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+          <span>{line.name}</span>
+          <span>{formatCurrency(line.amount)}</span>
+        </div>
+      ));
+
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[950px] max-h-[90vh] overflow-y-auto">
@@ -424,6 +444,19 @@ export function EditSalarySlipModal({
                       .filter((f) => visibleFieldKeys.has(f.key))
                       .map((f) => renderNumberField(f.key, 'earnings', f.label));
                   })()}
+                  {renderComponentLines('earning')}
+                  {overtime > 0 && (
+                    <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+                      <span>Overtime</span>
+                      <span>{formatCurrency(overtime)}</span>
+                    </div>
+                  )}
+                  {reimbursement > 0 && (
+                    <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+                      <span>Reimbursements</span>
+                      <span>{formatCurrency(reimbursement)}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -454,6 +487,7 @@ export function EditSalarySlipModal({
                       .filter((f) => visibleFieldKeys.has(f.key))
                       .map((f) => renderNumberField(f.key, 'deductions', f.label));
                   })()}
+                  {renderComponentLines('deduction')}
                 </div>
               </div>
             )}
@@ -7,6 +7,7 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { FormulaDiagnostic } from '@/lib/formula-parser';
 
 interface SuggestionItem {
   name: string;
@@ -33,6 +34,8 @@ const SUGGESTION_LIBRARY: SuggestionItem[] = [
   { name: 'holidays', description: 'Number of holidays in the month', category: 'Variable', type: 'variable' },
   { name: 'approvedLeave', description: 'Approved leave days taken', category: 'Variable', type: 'variable' },
   { name: 'unapprovedLeave', description: 'Unapproved leave days taken', category: 'Variable', type: 'variable' },
+  { name: 'overtimeHours', description: 'Approved overtime hours for the month', category: 'Variable', type: 'variable' },
+  { name: 'overtimeMultiplier', description: 'Overtime rate from the attendance policy', category: 'Variable', type: 'variable' },
 
   // Components — Calculated values
   { name: 'totalWorkingDays', description: 'Total working days (total days minus holidays)', category: 'Component', type: 'component' },
@@ -42,6 +45,7 @@ const SUGGESTION_LIBRARY: SuggestionItem[] = [
   { name: 'hra', description: 'House Rent Allowance', category: 'Component', type: 'component' },
   { name: 'special', description: 'Special allowance component', category: 'Component', type: 'component' },
   { name: 'totalDeductions', description: 'PF, PT, TDS, etc.', category: 'Component', type: 'component' },
+  { name: 'overtime', description: 'Overtime pay, added to net pay by payroll', category: 'Component', type: 'component' },
   { name: 'netSalary', description: 'Final take-home salary', category: 'Component', type: 'component' },
 
   // Functions — Logical
@@ -150,6 +154,7 @@ interface FormulaAutocompleteProps {
   onConfirm: (index: number) => void;
   onDismiss: () => void;
   forceShow?: boolean;
+  diagnostic?: FormulaDiagnostic | null;
 }
 
 export function FormulaAutocomplete({
@@ -161,6 +166,7 @@ export function FormulaAutocomplete({
   onConfirm,
   onDismiss,
   forceShow = false,
+  diagnostic = null,
 }: FormulaAutocompleteProps) {
   const [visibleSuggestions, setVisibleSuggestions] = useState<SuggestionItem[]>([]);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -233,6 +239,11 @@ export function FormulaAutocomplete({
         <p className="text-[10px] font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
           More matches ({displaySuggestions.length})
         </p>
+        {diagnostic && (
+          <p className="mt-1 text-[11px] text-red-600 dark:text-red-400 normal-case">
+            <span className="font-mono">Col {diagnostic.column}:</span> {diagnostic.message}
+          </p>
+        )}
       </div>
       {displaySuggestions.map((item, index) => {
         const colors = TYPE_COLORS[item.type];
@@ -5,13 +5,16 @@
 
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { toast } from 'react-toastify';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { payrollService } from '@/services/payroll.service';
-import { PayrollSettings } from '@/types/payroll.types';
+import { PayrollSettings, SalaryFormulaVersion } from '@/types/payroll.types';
+import { checkSalaryFormula } from '@/lib/formula-evaluator';
+import { FormulaDiagnostic } from '@/lib/formula-parser';
 import { FormulaAutocomplete, SUGGESTION_LIBRARY } from './FormulaAutocomplete';
+import { FormulaVersionsPanel } from './FormulaVersionsPanel';
 import {
   Save,
   RotateCcw,
@@ -22,6 +25,7 @@ import {
   X,
   Plus,
   Sigma,
+  AlertCircle,
 } from 'lucide-react';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
@@ -53,6 +57,8 @@ const LINE_KEYS = [
   'halfDay',
   'holidays',
   'approvedLeave',
+  'overtimeHours',
+  'overtimeMultiplier',
   // Calculated components (order matters - dependencies first)
   'totalWorkingDays',        // depends on: totalDaysInMonth, holidays
   'unapprovedLeave',         // depends on: totalWorkingDays, present, wfh, approvedLeave, halfDay
@@ -65,6 +71,7 @@ const LINE_KEYS = [
   'hra',                     // depends on: proratedGross, hraPercentage
   'special',                 // depends on: proratedGross, specialPercentage
   'totalDeductions',
+  'overtime',                // depends on: grossSalary, overtimeHours, overtimeMultiplier
   'netSalary',               // depends on: basic, hra, special, totalDeductions
 ] as const;
 
@@ -85,6 +92,8 @@ const LINE_META: Record<string, { label: string; description: string }> = {
   holidays: { label: 'Holidays', description: 'Number of holidays in the month' },
   approvedLeave: { label: 'Approved Leave', description: 'Approved leave days taken' },
   unapprovedLeave: { label: 'Unapproved Leave', description: 'Unapproved leave days taken' },
+  overtimeHours: { label: 'Overtime Hours', description: 'Approved overtime hours for the month' },
+  overtimeMultiplier: { label: 'Overtime Multiplier', description: 'Overtime rate from the attendance policy' },
   // Calculated components
   totalWorkingDays: { label: 'Total Working Days', description: 'Total days minus holidays' },
   paidDays: { label: 'Paid Days', description: 'Total paid days for the month' },
@@ -93,6 +102,7 @@ const LINE_META: Record<string, { label: string; description: string }> = {
   hra: { label: 'HRA', description: 'House Rent Allowance' },
   special: { label: 'Special Allowance', description: 'Special allowance component' },
   totalDeductions: { label: 'Total Deductions', description: 'PF, PT, TDS, etc.' },
+  overtime: { label: 'Overtime', description: 'Overtime pay, added to net pay by payroll' },
   netSalary: { label: 'Net Salary', description: 'Final take-home salary' },
 };
 
@@ -113,6 +123,8 @@ const INPUT_VARIABLES = new Set([
   'holidays',
   'approvedLeave',
   'unapprovedLeave',
+  'overtimeHours',
+  'overtimeMultiplier',
 ]);
 
 const VARIABLES = [
@@ -131,6 +143,8 @@ const VARIABLES = [
   { value: 'holidays', label: 'Holidays', desc: 'Number of holidays in the month' },
   { value: 'approvedLeave', label: 'Approved Leave', desc: 'Approved leave days taken' },
   { value: 'unapprovedLeave', label: 'Unapproved Leave', desc: 'Unapproved leave days taken' },
+  { value: 'overtimeHours', label: 'Overtime Hours', desc: 'Approved overtime hours for the month' },
+  { value: 'overtimeMultiplier', label: 'OT Multiplier', desc: 'Overtime rate from the attendance policy' },
 ];
 
 const COMPONENTS = [
@@ -141,6 +155,7 @@ const COMPONENTS = [
   { value: 'hra', label: 'HRA' },
   { value: 'special', label: 'Special' },
   { value: 'totalDeductions', label: 'Deductions' },
+  { value: 'overtime', label: 'Overtime' },
   { value: 'netSalary', label: 'Net Salary' },
 ];
 
@@ -163,6 +178,8 @@ const DEFAULT_EXPRESSIONS: Record<string, string> = {
   unpaidLeave: 'MAX(0, approvedLeave + unapprovedLeave - allowedPaidLeaves)',
   holidays: 'holidays',
   approvedLeave: 'approvedLeave',
+  overtimeHours: 'overtimeHours',
+  overtimeMultiplier: 'overtimeMultiplier',
   unapprovedLeave: 'totalWorkingDays - present - wfh - approvedLeave - (halfDay * 0.5)',
   // Calculated components
   totalWorkingDays: 'totalDaysInMonth - holidays',
@@ -172,6 +189,7 @@ const DEFAULT_EXPRESSIONS: Record<string, string> = {
   hra: 'proratedGross * (hraPercentage / 100)',
   special: 'proratedGross * (specialPercentage / 100)',
   totalDeductions: '0',
+  overtime: '(grossSalary / 26 / 8) * overtimeHours * overtimeMultiplier',
   netSalary: 'basic + hra + special - totalDeductions',
 };
 
@@ -198,34 +216,64 @@ function parseFormulaToExpressions(formulaString: string): Record<string, string
   return result;
 }
 
-// ── Code Generator: expressions → JavaScript formula string ───────────────────
+// ── Code Generator: expressions → formula source ──────────────────────────────
 
-function generateFormulaString(expressions: Record<string, string>): string {
-  const lines: string[] = [];
+interface GeneratedLine {
+  key: string | null;   // formula line key, or null for the trailing return statement
+  prefix: string;       // text emitted before the expression, e.g. "const basic = "
+  code: string;
+}
 
-  // Variables passed as function parameters to evaluateSalaryFormula — use plain assignment
+function generateFormulaLines(expressions: Record<string, string>): GeneratedLine[] {
+  const lines: GeneratedLine[] = [];
+
+  // Variables passed in by evaluateSalaryFormula — use plain assignment
   const paramVars = new Set([
     'grossSalary', 'totalDaysInMonth', 'basicPercentage', 'hraPercentage',
     'specialPercentage', 'allowedPaidLeaves', 'present', 'wfh', 'halfDay',
     'holidays', 'approvedLeave', 'unapprovedLeave', 'paidLeave', 'leaveTaken',
-    'unpaidLeave', 'totalWorkingDays',
+    'unpaidLeave', 'totalWorkingDays', 'overtimeHours', 'overtimeMultiplier',
   ]);
 
   LINE_KEYS.forEach((key) => {
     const expr = expressions[key] || '';
     // Skip self-referencing (input variables that use their value as-is)
     if (expr === key) return;
-    if (paramVars.has(key)) {
-      // Already a function parameter — use plain assignment to avoid redeclaration error
-      lines.push(`${key} = ${expr};`);
-    } else {
-      // Not a parameter — declare with const
-      lines.push(`const ${key} = ${expr};`);
-    }
+    const prefix = paramVars.has(key) ? `${key} = ` : `const ${key} = `;
+    lines.push({ key, prefix, code: `${prefix}${expr};` });
+  });
+
+  lines.push({ key: null, prefix: '', code: 'return { paidDays, basic, hra, special, totalDeductions, overtime, netSalary };' });
+  return lines;
+}
+
+function generateFormulaString(expressions: Record<string, string>): string {
+  return generateFormulaLines(expressions).map((line) => line.code).join('\n');
+}
+
+/**
+ * Type-check the formula the editor would save and attach each diagnostic to
+ * the line it belongs to, with columns relative to the expression input.
+ * Empty lines are checked as 0 so they don't hide errors elsewhere.
+ */
+function checkFormulaLines(expressions: Record<string, string>): Record<string, FormulaDiagnostic[]> {
+  const byLine: Record<string, FormulaDiagnostic[]> = {};
+  const filled: Record<string, string> = {};
+  LINE_KEYS.forEach((key) => {
+    filled[key] = expressions[key]?.trim() ? expressions[key] : '0';
   });
 
-  lines.push('return { paidDays, basic, hra, special, totalDeductions, netSalary };');
-  return lines.join('\n');
+  const lines = generateFormulaLines(filled);
+  const diagnostics = checkSalaryFormula(lines.map((line) => line.code).join('\n'));
+
+  diagnostics.forEach((diagnostic) => {
+    const line = lines[diagnostic.line - 1];
+    const key = line?.key ?? '__return';
+    const column = Math.max(1, diagnostic.column - (line?.prefix.length ?? 0));
+    (byLine[key] ??= []).push({ ...diagnostic, column });
+  });
+
+  return byLine;
 }
 
 // ── Main Component ────────────────────────────────────────────────────────────
@@ -240,8 +288,21 @@ export function FormulaEditor({ settings, onSaveSuccess }: FormulaEditorProps) {
   const [showAutocomplete, setShowAutocomplete] = useState(false);
   const [ghostText, setGhostText] = useState('');
   const [ghostTextStart, setGhostTextStart] = useState(0);
+  const [changeNote, setChangeNote] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(() => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+  });
+  const [versionsRefreshKey, setVersionsRefreshKey] = useState(0);
   const inputRefs = useRef<Record<string, HTMLInputElement | null>>({});
 
+  // Inline type errors, recomputed as the admin types
+  const lineDiagnostics = useMemo(
+    () => (isInitialized ? checkFormulaLines(expressions) : {}),
+    [expressions, isInitialized]
+  );
+  const errorCount = Object.values(lineDiagnostics).reduce((sum, list) => sum + list.length, 0);
+
   // ── Ghost Text Computation ──────────────────────────────────────────────────
 
   /** Compute inline ghost text suggestion for a given expression value */
@@ -261,12 +322,10 @@ export function FormulaEditor({ settings, onSaveSuccess }: FormulaEditorProps) {
     };
   }, []);
 
-  // Initialize expressions from settings or defaults
-  useEffect(() => {
-    if (isInitialized) return;
-
-    if (settings?.salaryFormula) {
-      const parsed = parseFormulaToExpressions(settings.salaryFormula);
+  /** Fill the editor from a saved formula, defaulting lines it does not set */
+  const loadFormula = useCallback((formula: string | undefined) => {
+    if (formula) {
+      const parsed = parseFormulaToExpressions(formula);
       const merged: Record<string, string> = {};
       LINE_KEYS.forEach((key) => {
         merged[key] = parsed[key] ?? DEFAULT_EXPRESSIONS[key] ?? '';
@@ -275,9 +334,23 @@ export function FormulaEditor({ settings, onSaveSuccess }: FormulaEditorProps) {
     } else {
       setExpressions({ ...DEFAULT_EXPRESSIONS });
     }
+  }, []);
 
+  // Initialize expressions from settings or defaults
+  useEffect(() => {
+    if (isInitialized) return;
+
+    loadFormula(settings?.salaryFormula);
     setIsInitialized(true);
-  }, [settings, isInitialized]);
+  }, [settings, isInitialized, loadFormula]);
+
+  const handleRolledBack = useCallback(
+    (version: SalaryFormulaVersion) => {
+      loadFormula(version.formula);
+      onSaveSuccess?.();
+    },
+    [loadFormula, onSaveSuccess]
+  );
 
   // ── Expression Actions ──────────────────────────────────────────────────────
 
@@ -355,20 +428,40 @@ export function FormulaEditor({ settings, onSaveSuccess }: FormulaEditorProps) {
       return;
     }
 
+    if (errorCount > 0) {
+      toast.error(`Formula has ${errorCount} error${errorCount === 1 ? '' : 's'}. Fix the highlighted fields before saving.`);
+      return;
+    }
+
     if (!settings) {
       toast.error('Please save payroll settings first');
       return;
     }
 
+    if (!changeNote.trim()) {
+      toast.error('Add a change note describing this formula change');
+      return;
+    }
+
+    const [effectiveYear, effectiveMonth] = effectiveFrom.split('-').map(Number);
+    if (!effectiveYear || !effectiveMonth) {
+      toast.error('Choose the month this formula takes effect from');
+      return;
+    }
+
     setIsLoading(true);
     try {
-      const formulaString = generateFormulaString(expressions);
-      const updatedSettings = { ...settings, salaryFormula: formulaString };
-      const { id, updatedAt, ...settingsToSave } = updatedSettings;
-      const success = await payrollService.saveSettings(settingsToSave);
+      const version = await payrollService.createFormulaVersion({
+        formula: generateFormulaString(expressions),
+        changeNote: changeNote.trim(),
+        effectiveMonth: effectiveMonth - 1,
+        effectiveYear,
+      });
 
-      if (success) {
+      if (version) {
         toast.success('Formula saved successfully!');
+        setChangeNote('');
+        setVersionsRefreshKey((key) => key + 1);
         onSaveSuccess?.();
       } else {
         toast.error('Failed to save formula');
@@ -681,6 +774,7 @@ export function FormulaEditor({ settings, onSaveSuccess }: FormulaEditorProps) {
               const meta = LINE_META[key];
               const expr = expressions[key] || '';
               const isFocused = focusedLineKey === key;
+              const errors = expr.trim() ? lineDiagnostics[key] ?? [] : [];
 
               // Compute current suggestions for this expression (for dropdown & keyboard)
               const partialMatch = expr.match(/(?:^|[\s+\-*/(,])([A-Za-z]{1,})\s*$/);
@@ -695,9 +789,11 @@ export function FormulaEditor({ settings, onSaveSuccess }: FormulaEditorProps) {
                 <tr
                   key={key}
                   className={`transition-colors ${
-                    isFocused
-                      ? 'bg-blue-50 dark:bg-blue-900/20'
-                      : 'hover:bg-gray-50 dark:hover:bg-gray-700/30'
+                    errors.length > 0
+                      ? 'bg-red-50 dark:bg-red-900/20'
+                      : isFocused
+                        ? 'bg-blue-50 dark:bg-blue-900/20'
+                        : 'hover:bg-gray-50 dark:hover:bg-gray-700/30'
                   }`}
                 >
                   <td className="px-4 py-3 align-middle border-r border-gray-200 dark:border-gray-700">
@@ -843,9 +939,25 @@ export function FormulaEditor({ settings, onSaveSuccess }: FormulaEditorProps) {
                           onNavigate={handleAutocompleteNavigate}
                           onConfirm={handleAutocompleteConfirm}
                           onDismiss={handleAutocompleteDismiss}
+                          diagnostic={errors[0] ?? null}
                         />
                       )}
                     </div>
+                    {errors.length > 0 && (
+                      <ul className="px-3 pb-2 space-y-0.5">
+                        {errors.map((error, i) => (
+                          <li
+                            key={i}
+                            className="flex items-start gap-1.5 text-xs text-red-600 dark:text-red-400"
+                          >
+                            <AlertCircle className="h-3.5 w-3.5 mt-px shrink-0" />
+                            <span>
+                              <span className="font-mono">Col {error.column}:</span> {error.message}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </td>
                   <td className="px-2 py-3 align-middle text-center">
                     <Button
@@ -866,9 +978,50 @@ export function FormulaEditor({ settings, onSaveSuccess }: FormulaEditorProps) {
         </table>
       </div>
 
+      {/* Errors not tied to a single field (e.g. in the generated return statement) */}
+      {lineDiagnostics.__return && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 space-y-1">
+          {lineDiagnostics.__return.map((error, i) => (
+            <p key={i} className="flex items-start gap-1.5 text-xs text-red-600 dark:text-red-400">
+              <AlertCircle className="h-3.5 w-3.5 mt-px shrink-0" />
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Change Note & Effective Month */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 pt-2 border-t border-gray-100 dark:border-gray-700">
+        <div className="sm:col-span-2">
+          <label htmlFor="formulaChangeNote" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Change Note
+          </label>
+          <Input
+            id="formulaChangeNote"
+            placeholder="e.g., Count half days as 0.5 paid days"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            maxLength={500}
+            disabled={isLoading}
+          />
+        </div>
+        <div>
+          <label htmlFor="formulaEffectiveFrom" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Effective From
+          </label>
+          <Input
+            id="formulaEffectiveFrom"
+            type="month"
+            value={effectiveFrom}
+            onChange={(e) => setEffectiveFrom(e.target.value)}
+            disabled={isLoading}
+          />
+        </div>
+      </div>
+
       {/* Action Buttons */}
-      <div className="flex flex-wrap gap-3 pt-2 border-t border-gray-100 dark:border-gray-700">
-        <Button onClick={handleSave} disabled={isLoading} size="lg" className="gap-2">
+      <div className="flex flex-wrap gap-3">
+        <Button onClick={handleSave} disabled={isLoading || errorCount > 0} size="lg" className="gap-2">
           <Save className="h-4 w-4" />
           {isLoading ? 'Saving...' : 'Save Formula'}
         </Button>
@@ -881,6 +1034,8 @@ export function FormulaEditor({ settings, onSaveSuccess }: FormulaEditorProps) {
           Clear All
         </Button>
       </div>
+
+      <FormulaVersionsPanel refreshKey={versionsRefreshKey} onRolledBack={handleRolledBack} />
     </div>
   );
 }
@@ -0,0 +1,197 @@
+/**
+ * FormulaVersionsPanel
+ * Salary formula version history with a side-by-side diff against the
+ * version saved before it and one-click rollback
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { payrollService } from '@/services/payroll.service';
+import { SalaryFormulaVersion } from '@/types/payroll.types';
+import { diffFormulas, FormulaDiffRow, getEffectiveFormulaVersion } from '@/lib/formula-versions';
+
+interface FormulaVersionsPanelProps {
+  refreshKey: number;
+  onRolledBack: (version: SalaryFormulaVersion) => void;
+}
+
+const DIFF_CELL_STYLES: Record<FormulaDiffRow['type'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-50 dark:bg-red-900/20', right: 'bg-gray-50 dark:bg-gray-800/50' },
+  added: { left: 'bg-gray-50 dark:bg-gray-800/50', right: 'bg-green-50 dark:bg-green-900/20' },
+  changed: { left: 'bg-red-50 dark:bg-red-900/20', right: 'bg-green-50 dark:bg-green-900/20' },
+};
+
+function formatEffectiveMonth(version: SalaryFormulaVersion): string {
+  return new Date(version.effectiveYear, version.effectiveMonth).toLocaleString('en-IN', {
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+export function FormulaVersionsPanel({ refreshKey, onRolledBack }: FormulaVersionsPanelProps) {
+  const [versions, setVersions] = useState<SalaryFormulaVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await payrollService.getFormulaVersions();
+      setVersions(result ?? []);
+      setSelectedId((current) => current ?? result?.[0]?.id ?? null);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions, refreshKey]);
+
+  const now = new Date();
+  const inEffect = getEffectiveFormulaVersion(versions, now.getMonth(), now.getFullYear());
+
+  const selectedIndex = versions.findIndex((version) => version.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  // Versions are newest first, so the one saved before sits next in the list
+  const previous = selectedIndex >= 0 ? versions[selectedIndex + 1] ?? null : null;
+
+  const diff = useMemo(
+    () => (selected ? diffFormulas(previous?.formula ?? '', selected.formula) : []),
+    [selected, previous]
+  );
+
+  const handleRollback = async (version: SalaryFormulaVersion) => {
+    setRollingBackId(version.id!);
+    try {
+      const restored = await payrollService.createFormulaVersion({
+        rollbackOf: version.id,
+        changeNote: `Rolled back to the formula saved on ${new Date(version.createdAt).toLocaleDateString('en-IN')}`,
+        effectiveMonth: now.getMonth(),
+        effectiveYear: now.getFullYear(),
+      });
+
+      if (restored) {
+        toast.success('Formula rolled back');
+        setSelectedId(restored.id ?? null);
+        onRolledBack(restored);
+        fetchVersions();
+      } else {
+        toast.error('Failed to roll back formula');
+      }
+    } catch (error) {
+      toast.error('Failed to roll back formula');
+      console.error(error);
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-xl overflow-hidden">
+      <div className="flex items-center gap-2 px-5 py-3 bg-gray-50 dark:bg-gray-800/80">
+        <History className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Version History</span>
+        <span className="text-xs text-gray-400 dark:text-gray-500">
+          Each month is calculated with the version in effect for it
+        </span>
+      </div>
+
+      {isLoading && versions.length === 0 ? (
+        <p className="px-5 py-4 text-sm text-gray-500 dark:text-gray-400">Loading versions...</p>
+      ) : versions.length === 0 ? (
+        <p className="px-5 py-4 text-sm text-gray-500 dark:text-gray-400">
+          No versions yet. Saving the formula records the first version.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 divide-y lg:divide-y-0 lg:divide-x divide-gray-200 dark:divide-gray-700">
+          {/* Version list */}
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700/50">
+            {versions.map((version) => (
+              <li
+                key={version.id}
+                onClick={() => setSelectedId(version.id ?? null)}
+                className={`px-4 py-3 cursor-pointer transition-colors ${
+                  version.id === selectedId
+                    ? 'bg-blue-50 dark:bg-blue-900/20'
+                    : 'hover:bg-gray-50 dark:hover:bg-gray-800/50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">
+                    From {formatEffectiveMonth(version)}
+                  </span>
+                  {version.id === inEffect?.id && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                      In effect
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-600 dark:text-gray-300 mt-1 line-clamp-2">{version.changeNote}</p>
+                <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                  {version.createdByName} · {new Date(version.createdAt).toLocaleString('en-IN')}
+                </p>
+              </li>
+            ))}
+          </ul>
+
+          {/* Side-by-side diff */}
+          <div className="lg:col-span-2 min-w-0">
+            {selected && (
+              <>
+                <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-gray-100 dark:border-gray-700/50">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {previous
+                      ? `Changes from the version saved on ${new Date(previous.createdAt).toLocaleDateString('en-IN')}`
+                      : 'First version'}
+                  </p>
+                  {selected.id !== inEffect?.id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRollback(selected)}
+                      loading={rollingBackId === selected.id}
+                      disabled={rollingBackId !== null}
+                      className="gap-1.5"
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                      Roll back to this version
+                    </Button>
+                  )}
+                </div>
+                <div className="max-h-96 overflow-auto">
+                  <table className="w-full text-xs font-mono">
+                    <tbody>
+                      {diff.map((row, i) => (
+                        <tr key={i} className="align-top">
+                          <td className="w-8 px-2 py-0.5 text-right text-gray-400 select-none">{row.leftLine ?? ''}</td>
+                          <td className={`w-1/2 px-2 py-0.5 whitespace-pre-wrap break-all text-gray-700 dark:text-gray-300 ${DIFF_CELL_STYLES[row.type].left}`}>
+                            {row.left ?? ''}
+                          </td>
+                          <td className="w-8 px-2 py-0.5 text-right text-gray-400 select-none border-l border-gray-100 dark:border-gray-700/50">
+                            {row.rightLine ?? ''}
+                          </td>
+                          <td className={`w-1/2 px-2 py-0.5 whitespace-pre-wrap break-all text-gray-700 dark:text-gray-300 ${DIFF_CELL_STYLES[row.type].right}`}>
+                            {row.right ?? ''}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,11 +8,16 @@
 import { useState, useEffect, useRef } from 'react';
 import { toast } from 'react-toastify';
 import { Button } from '@/components/ui/button';
-import { EmployeeSalary, PayrollSettings, SalaryCalculationResult, SalarySlipTemplate } from '@/types/payroll.types';
+import { EmployeeSalary, PayrollPreviewResult, PayrollRun, PayrollSettings, SalaryCalculationResult, SalarySlipTemplate } from '@/types/payroll.types';
 import { payrollService } from '@/services/payroll.service';
 import { authenticatedFetch } from '@/lib/api-client';
 import { SalarySlipPreview } from '@/components/payroll/SalarySlipPreview';
 import { EditSalarySlipModal } from '@/components/payroll/EditSalarySlipModal';
+import { PayrollPreviewDialog } from '@/components/payroll/PayrollPreviewDialog';
+import { PayrollRunCard } from '@/components/payroll/PayrollRunCard';
+import { isPayrollRunEditable } from '@/lib/payroll-run';
+import { getComponentTotal } from '@/lib/salary-components';
+import { DEFAULT_NET_CHANGE_THRESHOLD } from '@/lib/payroll-preview';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertTriangle } from 'lucide-react';
 import dynamic from 'next/dynamic';
@@ -66,6 +71,11 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
   const [editLoading, setEditLoading] = useState(false);
   const [templates, setTemplates] = useState<SalarySlipTemplate[]>([]);
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
+  const [showPreviewRun, setShowPreviewRun] = useState(false);
+  const [previewRun, setPreviewRun] = useState<PayrollPreviewResult | null>(null);
+  const [previewRunLoading, setPreviewRunLoading] = useState(false);
+  const [netChangeThreshold, setNetChangeThreshold] = useState(DEFAULT_NET_CHANGE_THRESHOLD);
+  const [payrollRun, setPayrollRun] = useState<PayrollRun | null>(null);
 
   // Local access config state (avoids stale prop issue)
   const [localAccessConfig, setLocalAccessConfig] = useState<Record<string, Record<string, boolean>>>({});
@@ -100,9 +110,10 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
     appliedConfigKey.current = null;
   }, [month, year]);
 
-  // Re-fetch existing slips when period changes
+  // Re-fetch existing slips and the payroll run when period changes
   useEffect(() => {
     fetchExistingSlips();
+    fetchPayrollRun();
   }, [month, year]);
 
   // Apply saved access config when period changes (race-condition-safe)
@@ -187,6 +198,14 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
     }
   };
 
+  const fetchPayrollRun = async () => {
+    try {
+      setPayrollRun(await payrollService.getPayrollRun(month, year));
+    } catch (error) {
+      console.error('Failed to fetch payroll run:', error);
+    }
+  };
+
   const handleCalculateAll = async () => {
     if (!settings) {
       toast.error('Please configure payroll settings first. Go to the Payroll Settings tab.');
@@ -300,7 +319,7 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
 
       // Merge saved Firestore data into the calculation so manual edits survive refresh
       let calculation: SalaryCalculationResult = result;
-      let grossSalary = employee.grossSalary;
+      let grossSalary = result.grossSalary ?? employee.grossSalary;
       let designation = employee.designation;
       let department = employee.department;
       try {
@@ -574,8 +593,14 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
       const totalDeductions =
         data.epf + data.esi + data.professionalTax +
         data.tds + data.loanRecovery + data.otherDeduction + (data.leaveDeduction || 0);
-      const totalEarnings = data.basic + data.hra + data.special;
-      const netSalary = totalEarnings - totalDeductions;
+      // Overtime, revision arrears, reimbursements and catalogue component lines are not editable here; keep them on the slip
+      const overtime = editSlip.salaryBreakup?.overtime || 0;
+      const arrears = editSlip.salaryBreakup?.arrears || 0;
+      const reimbursement = editSlip.salaryBreakup?.reimbursement || 0;
+      const components = editSlip.salaryBreakup?.components ?? [];
+      const totalEarnings =
+        data.basic + data.hra + data.special + overtime + arrears + reimbursement + getComponentTotal({ components }, 'earning');
+      const netSalary = totalEarnings - totalDeductions - getComponentTotal({ components }, 'deduction');
 
       const slipId = editSlip.id;
 
@@ -592,6 +617,10 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
             basic: data.basic,
             hra: data.hra,
             special: data.special,
+            ...(overtime ? { overtime } : {}),
+            ...(arrears ? { arrears } : {}),
+            ...(reimbursement ? { reimbursement } : {}),
+            ...(components.length > 0 ? { components } : {}),
             totalDeductions,
             netSalary,
             epf: data.epf,
@@ -633,6 +662,10 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
                   basic: data.basic,
                   hra: data.hra,
                   special: data.special,
+                  ...(overtime ? { overtime } : {}),
+                  ...(arrears ? { arrears } : {}),
+                  ...(reimbursement ? { reimbursement } : {}),
+                  ...(components.length > 0 ? { components } : {}),
                   totalDeductions,
                   netSalary,
                   epf: data.epf,
@@ -689,6 +722,10 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
             basic: data.basic,
             hra: data.hra,
             special: data.special,
+            ...(overtime ? { overtime } : {}),
+            ...(arrears ? { arrears } : {}),
+            ...(reimbursement ? { reimbursement } : {}),
+            ...(components.length > 0 ? { components } : {}),
             totalDeductions,
             netSalary,
             leaveDeduction: data.leaveDeduction ?? 0,
@@ -723,6 +760,10 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
                   basic: data.basic,
                   hra: data.hra,
                   special: data.special,
+                  ...(overtime ? { overtime } : {}),
+                  ...(arrears ? { arrears } : {}),
+                  ...(reimbursement ? { reimbursement } : {}),
+                  ...(components.length > 0 ? { components } : {}),
                   totalDeductions,
                   netSalary,
                   leaveDeduction: data.leaveDeduction ?? 0,
@@ -744,6 +785,7 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
           })
         );
       }
+      fetchPayrollRun();
     } catch (error) {
       throw error;
     } finally {
@@ -751,6 +793,31 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
     }
   };
 
+  const handlePreviewRun = async () => {
+    const employeeIds = employees.filter(emp => emp.selected).map(emp => emp.id);
+
+    if (employeeIds.length === 0) {
+      toast.error('Please enable access for at least one employee to preview');
+      return;
+    }
+
+    setShowPreviewRun(true);
+    setPreviewRunLoading(true);
+    try {
+      const result = await payrollService.previewRun(employeeIds, month, year, netChangeThreshold);
+      if (result) {
+        setPreviewRun(result);
+      } else {
+        toast.error('Failed to preview payroll run');
+      }
+    } catch (error) {
+      toast.error('Failed to preview payroll run');
+      console.error(error);
+    } finally {
+      setPreviewRunLoading(false);
+    }
+  };
+
   const handleGenerate = async () => {
     const selectedEmployees = employees.filter(emp => emp.selected && emp.calculation);
     const selectedWithoutCalculation = employees.filter(emp => emp.selected && !emp.calculation);
@@ -792,7 +859,10 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
         const slips = data.slips;
         toast.success(`Successfully generated ${slips.length} salary slip(s)`);
         onGenerationComplete?.();
+        fetchPayrollRun();
         setEmployees(prev => prev.map(emp => ({ ...emp, selected: false })));
+        setShowPreviewRun(false);
+        setPreviewRun(null);
       } else {
         toast.error('Failed to generate salary slips');
       }
@@ -830,6 +900,7 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
         const data = await response.json();
         toast.success(`Successfully deleted ${data.deletedCount} salary slip(s)`);
         onGenerationComplete?.();
+        fetchPayrollRun();
         // Reset selections and clear slip IDs
         setEmployees(prev => prev.map(emp => ({ ...emp, selected: false, slipId: undefined })));
       } else {
@@ -869,6 +940,7 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
           )
         );
         onGenerationComplete?.();
+        fetchPayrollRun();
       } else {
         toast.error(`Failed to delete salary slip for ${employee.name}`);
       }
@@ -880,6 +952,9 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
     }
   };
 
+  // Slips only change while the run is a draft; re-open a reviewed or later run first
+  const runLocked = !!payrollRun && !isPayrollRunEditable(payrollRun.status);
+
   return (
     <div className="space-y-6">
       {/* Settings not configured warning */}
@@ -945,6 +1020,13 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
         </div>
       </div>
 
+      {/* Payroll Run Status */}
+      <PayrollRunCard
+        run={payrollRun}
+        periodLabel={`${monthNames[month]} ${year}`}
+        onChange={setPayrollRun}
+      />
+
       {/* Calculation Progress Bar */}
       {calculating && calculationProgress && (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
@@ -998,7 +1080,7 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
               Employees ({employees.length})
             </h3>
-            <Button variant="outline" size="sm" onClick={handleToggleAll}>
+            <Button variant="outline" size="sm" onClick={handleToggleAll} disabled={runLocked}>
               {employees.every(emp => emp.selected) ? 'Disable All' : 'Enable All'}
             </Button>
           </div>
@@ -1049,7 +1131,8 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
                   <td className="px-4 py-3">
                     <button
                       onClick={() => handleToggleAccess(employee.id)}
-                      className={`w-10 h-6 rounded-full transition-colors relative ${
+                      disabled={runLocked}
+                      className={`w-10 h-6 rounded-full transition-colors relative disabled:opacity-50 disabled:cursor-not-allowed ${
                         employee.selected
                           ? 'bg-green-500'
                           : 'bg-gray-300 dark:bg-gray-600'
@@ -1111,7 +1194,7 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
                         variant="outline"
                         size="sm"
                         onClick={() => handleEdit(employee)}
-                        disabled={employee.loading}
+                        disabled={employee.loading || runLocked}
                       >
                         Edit
                       </Button>
@@ -1127,7 +1210,7 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
                         variant={employee.slipId ? 'destructive' : 'outline'}
                         size="sm"
                         onClick={() => handleDeleteSingleSlip(employee)}
-                        disabled={!employee.slipId || cleaningSlipId === employee.slipId}
+                        disabled={!employee.slipId || cleaningSlipId === employee.slipId || runLocked}
                         className={employee.slipId
                           ? 'bg-red-600 hover:bg-red-700 text-white dark:bg-red-500 dark:hover:bg-red-600'
                           : 'disabled:opacity-50 disabled:pointer-events-none text-gray-400 border-gray-200 dark:text-gray-600 dark:border-gray-700'
@@ -1151,22 +1234,47 @@ export function GenerateSlipsPanel({ settings, onGenerationComplete, onNavigateT
           loading={cleaning}
           size="lg"
           variant="destructive"
-          disabled={generating || calculating}
+          disabled={generating || calculating || runLocked}
           className="bg-red-600 hover:bg-red-700 text-white"
         >
           {cleaning ? 'Cleaning Up...' : 'Clean Up Slips'}
         </Button>
         
-        <Button
-          onClick={handleGenerate}
-          loading={generating}
-          size="lg"
-          disabled={!employees.some(emp => emp.selected)}
-        >
-          {generating ? 'Generating...' : `Generate & Save (${employees.filter(emp => emp.selected).length} slips)`}
-        </Button>
+        <div className="flex items-center gap-3">
+          <Button
+            onClick={handlePreviewRun}
+            loading={previewRunLoading && !showPreviewRun}
+            size="lg"
+            variant="outline"
+            disabled={generating || !employees.some(emp => emp.selected)}
+          >
+            Preview Run
+          </Button>
+
+          <Button
+            onClick={handleGenerate}
+            loading={generating}
+            size="lg"
+            disabled={!employees.some(emp => emp.selected) || runLocked}
+          >
+            {generating ? 'Generating...' : `Generate & Save (${employees.filter(emp => emp.selected).length} slips)`}
+          </Button>
+        </div>
       </div>
 
+      {/* Payroll Preview Run Dialog */}
+      <PayrollPreviewDialog
+        isOpen={showPreviewRun}
+        onClose={() => setShowPreviewRun(false)}
+        result={previewRun}
+        loading={previewRunLoading}
+        threshold={netChangeThreshold}
+        onThresholdChange={setNetChangeThreshold}
+        onRerun={handlePreviewRun}
+        onGenerate={handleGenerate}
+        generating={generating}
+      />
+
       {/* Preview Dialog */}
       <Dialog open={!!previewSlip} onOpenChange={() => setPreviewSlip(null)}>
         <DialogContent className="max-w-full sm:max-w-4xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
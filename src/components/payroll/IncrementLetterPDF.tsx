@@ -0,0 +1,24 @@
+/**
+ * IncrementLetterPDF Generator
+ * Captures the IncrementLetterPreview letterhead for a salary revision and
+ * saves it as a PDF
+ */
+
+import { PayrollSettings, SalaryRevision } from '@/types/payroll.types';
+import { exportPreviewToPDF } from '@/components/payroll/SalarySlipPDF';
+
+export async function generateIncrementLetterPDF(
+  revision: SalaryRevision,
+  employee: { name: string; employeeCode: string; designation: string },
+  settings: PayrollSettings
+): Promise<void> {
+  const issueDate = new Date().toISOString().split('T')[0];
+  await exportPreviewToPDF(
+    async (React) => {
+      const { IncrementLetterPreview } = await import('@/components/payroll/IncrementLetterPreview');
+      return React.createElement(IncrementLetterPreview, { revision, employee, settings, issueDate });
+    },
+    '#increment-letter-preview',
+    `IncrementLetter_${employee.employeeCode}_${revision.effectiveDate}.pdf`
+  );
+}
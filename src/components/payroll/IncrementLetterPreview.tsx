@@ -0,0 +1,157 @@
+/**
+ * IncrementLetterPreview Component
+ * Letterhead view of a salary revision: the old and revised gross, the new
+ * monthly breakup and any arrears due on months already paid
+ */
+
+'use client';
+
+import { format } from 'date-fns';
+import { PayrollSettings, SalaryRevision } from '@/types/payroll.types';
+
+interface IncrementLetterPreviewProps {
+  revision: SalaryRevision;
+  employee: { name: string; employeeCode: string; designation: string };
+  settings: PayrollSettings;
+  issueDate: string;
+}
+
+export function IncrementLetterPreview({ revision, employee, settings, issueDate }: IncrementLetterPreviewProps) {
+  const formatDate = (dateStr: string) => {
+    try {
+      return format(new Date(dateStr), 'dd MMMM yyyy');
+    } catch {
+      return dateStr;
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const increase = revision.grossSalary - revision.previousGrossSalary;
+  const increasePercent = revision.previousGrossSalary > 0
+    ? ((increase / revision.previousGrossSalary) * 100).toFixed(1)
+    : null;
+  const arrearsTotal = revision.arrears.reduce((sum, line) => sum + line.amount, 0);
+
+  const components = [
+    { label: 'Basic Wage', percentage: settings.basicPercentage },
+    { label: 'HRA', percentage: settings.hraPercentage },
+    { label: 'Special Allowances', percentage: settings.specialPercentage },
+  ];
+
+  return (
+    <div
+      id="increment-letter-preview"
+      className="text-black"
+      style={{
+        width: '210mm',
+        minHeight: '297mm',
+        fontFamily: 'Times New Roman, serif',
+        fontSize: '12pt',
+        lineHeight: '1.6',
+        backgroundImage: "url('/images/letter-head.jpeg')",
+        backgroundSize: '100% 100%',
+        backgroundRepeat: 'no-repeat',
+        backgroundPosition: 'center',
+        // Padding to keep text in the blank middle area (below header, above footer)
+        paddingTop: '180px',
+        paddingBottom: '120px',
+        paddingLeft: '60px',
+        paddingRight: '60px',
+      }}
+    >
+      {/* Date */}
+      <div className="mb-6">
+        <p>Date: <strong>{formatDate(issueDate)}</strong></p>
+      </div>
+
+      {/* Addressee */}
+      <div className="mb-6">
+        <p><strong>{employee.name}</strong></p>
+        <p>{employee.designation}</p>
+        <p>Employee ID: {employee.employeeCode}</p>
+      </div>
+
+      <p className="mb-4 font-semibold">Subject: Revision of Salary</p>
+
+      {/* Main Content */}
+      <div className="space-y-4 text-justify">
+        <p>Dear {employee.name},</p>
+
+        <p>
+          We are pleased to inform you that your gross monthly salary has been revised from{' '}
+          <strong>{formatCurrency(revision.previousGrossSalary)}</strong> to{' '}
+          <strong>{formatCurrency(revision.grossSalary)}</strong> with effect from{' '}
+          <strong>{formatDate(revision.effectiveDate)}</strong>
+          {increasePercent !== null && <>, an increase of {increasePercent}%</>}.
+        </p>
+
+        {revision.reason && <p>Reason for revision: {revision.reason}.</p>}
+
+        <table className="w-full text-sm border border-gray-400">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="text-left px-3 py-1 border-b border-gray-400">Component</th>
+              <th className="text-right px-3 py-1 border-b border-gray-400">Monthly</th>
+              <th className="text-right px-3 py-1 border-b border-gray-400">Annual</th>
+            </tr>
+          </thead>
+          <tbody>
+            {components.map((component) => {
+              const monthly = (revision.grossSalary * component.percentage) / 100;
+              return (
+                <tr key={component.label}>
+                  <td className="px-3 py-1">{component.label}</td>
+                  <td className="text-right px-3 py-1">{formatCurrency(monthly)}</td>
+                  <td className="text-right px-3 py-1">{formatCurrency(monthly * 12)}</td>
+                </tr>
+              );
+            })}
+            <tr className="font-bold border-t border-gray-400">
+              <td className="px-3 py-1">Gross Salary</td>
+              <td className="text-right px-3 py-1">{formatCurrency(revision.grossSalary)}</td>
+              <td className="text-right px-3 py-1">{formatCurrency(revision.grossSalary * 12)}</td>
+            </tr>
+          </tbody>
+        </table>
+
+        {arrearsTotal > 0 && (
+          <p>
+            As the revision applies from an earlier date, arrears of{' '}
+            <strong>{formatCurrency(arrearsTotal)}</strong> for the salary already paid will be
+            credited with your next salary.
+          </p>
+        )}
+
+        <p>
+          All other terms and conditions of your employment remain unchanged. We appreciate your
+          contribution and look forward to your continued association with us.
+        </p>
+      </div>
+
+      {/* Closing */}
+      <div className="mt-4">
+        <p className="mb-2">Sincerely,</p>
+        <p>For <strong>{settings.companyName}</strong></p>
+      </div>
+
+      {/* Signature Block */}
+      <div>
+        <img
+          src="/images/sign.png"
+          alt="Digital Signature"
+          className="h-20 w-auto -rotate-6"
+        />
+        <div className="border-t border-black w-64 mb-2"></div>
+        <p className="font-semibold">Authorised Signatory</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * LoanStatementView
+ * Outstanding-balance statement for one loan: summary, transaction ledger
+ * with running balance and the remaining EMI schedule
+ */
+
+'use client';
+
+import { LoanStatement, LoanTransactionType } from '@/types/payroll.types';
+
+interface LoanStatementViewProps {
+  statement: LoanStatement;
+}
+
+const MONTH_NAMES = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+  'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+];
+
+const TRANSACTION_LABELS: Record<LoanTransactionType, string> = {
+  disbursement: 'Disbursed',
+  emi: 'EMI',
+  prepayment: 'Prepayment',
+  settlement: 'Final settlement',
+};
+
+function formatAmount(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+}
+
+export function LoanStatementView({ statement }: LoanStatementViewProps) {
+  const { loan, ledger, schedule, outstanding } = statement;
+  const recovered = ledger
+    .filter((entry) => entry.type !== 'disbursement')
+    .reduce((sum, entry) => sum + entry.amount, 0);
+
+  const summary = [
+    { label: 'Sanctioned', value: formatAmount(loan.principal) },
+    { label: 'EMI', value: formatAmount(loan.emiAmount) },
+    { label: 'Recovered', value: formatAmount(recovered) },
+    { label: 'Outstanding', value: formatAmount(outstanding) },
+  ];
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {summary.map((item) => (
+          <div key={item.label} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{item.label}</p>
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">{item.value}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {loan.type === 'advance' ? 'Salary advance' : `Loan at ${loan.interestRate}% p.a.`}
+        {' · '}recovery from {MONTH_NAMES[loan.startMonth]} {loan.startYear}
+        {loan.paused && ' · EMIs paused'}
+        {loan.status === 'closed' && ' · Closed'}
+      </p>
+
+      {/* Ledger */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Ledger</h3>
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Entry</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Amount</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Interest</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              {ledger.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-3 py-2 text-gray-900 dark:text-white">
+                    {new Date(entry.createdAt).toLocaleDateString('en-IN')}
+                  </td>
+                  <td className="px-3 py-2 text-gray-900 dark:text-white">
+                    {TRANSACTION_LABELS[entry.type]}
+                    {entry.type === 'emi' && entry.month !== undefined && (
+                      <span className="text-gray-500 dark:text-gray-400"> — {MONTH_NAMES[entry.month]} {entry.year} salary</span>
+                    )}
+                    {entry.note && <p className="text-xs text-gray-500 dark:text-gray-400">{entry.note}</p>}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatAmount(entry.amount)}</td>
+                  <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{entry.interest ? formatAmount(entry.interest) : '—'}</td>
+                  <td className="px-3 py-2 text-right font-medium text-gray-900 dark:text-white">{formatAmount(entry.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Remaining Schedule */}
+      {schedule.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+            Remaining Schedule ({schedule.length} EMI{schedule.length === 1 ? '' : 's'})
+          </h3>
+          <div className="overflow-x-auto max-h-64 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Month</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">EMI</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Principal</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Interest</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                {schedule.map((installment) => (
+                  <tr key={`${installment.month}-${installment.year}`}>
+                    <td className="px-3 py-2 text-gray-900 dark:text-white">{MONTH_NAMES[installment.month]} {installment.year}</td>
+                    <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatAmount(installment.amount)}</td>
+                    <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatAmount(installment.principal)}</td>
+                    <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatAmount(installment.interest)}</td>
+                    <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatAmount(installment.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
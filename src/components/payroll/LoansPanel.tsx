@@ -0,0 +1,470 @@
+/**
+ * LoansPanel
+ * Admin view of employee loans and salary advances: sanction with an EMI
+ * schedule, pause/resume recovery, skip an EMI, record prepayments and view
+ * each loan's outstanding-balance statement
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LoanStatementView } from '@/components/payroll/LoanStatementView';
+import { payrollService } from '@/services/payroll.service';
+import { LoanStatement, LoanType } from '@/types/payroll.types';
+import { calculateEmi } from '@/lib/loans';
+import { Pause, Play, Plus, SkipForward } from 'lucide-react';
+
+interface LoansPanelProps {
+  employees: { id: string; employeeId: string; name: string }[];
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+function formatAmount(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+}
+
+function nextMonth(): { month: number; year: number } {
+  const now = new Date();
+  return now.getMonth() === 11
+    ? { month: 0, year: now.getFullYear() + 1 }
+    : { month: now.getMonth() + 1, year: now.getFullYear() };
+}
+
+function emptySanction() {
+  const { month, year } = nextMonth();
+  return {
+    employeeId: '',
+    type: 'advance' as LoanType,
+    principal: 0,
+    interestRate: 0,
+    tenureMonths: 3,
+    startMonth: month,
+    startYear: year,
+    note: '',
+  };
+}
+
+export function LoansPanel({ employees }: LoansPanelProps) {
+  const [statements, setStatements] = useState<LoanStatement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showClosed, setShowClosed] = useState(false);
+  const [sanctionOpen, setSanctionOpen] = useState(false);
+  const [sanction, setSanction] = useState(emptySanction);
+  const [sanctioning, setSanctioning] = useState(false);
+  const [selected, setSelected] = useState<LoanStatement | null>(null);
+  const [skipPeriod, setSkipPeriod] = useState('');
+  const [prepayAmount, setPrepayAmount] = useState(0);
+  const [prepayNote, setPrepayNote] = useState('');
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    fetchLoans();
+  }, []);
+
+  const fetchLoans = async () => {
+    setLoading(true);
+    try {
+      const data = await payrollService.getLoans({ all: true });
+      if (data) {
+        setStatements(data);
+      } else {
+        toast.error('Failed to fetch loans');
+      }
+    } catch (error) {
+      toast.error('Failed to fetch loans');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openStatement = (statement: LoanStatement) => {
+    setSelected(statement);
+    const first = statement.schedule[0];
+    setSkipPeriod(first ? `${first.month}-${first.year}` : '');
+    setPrepayAmount(0);
+    setPrepayNote('');
+  };
+
+  const replaceStatement = (updated: LoanStatement) => {
+    setStatements((prev) => prev.map((s) => (s.loan.id === updated.loan.id ? updated : s)));
+    openStatement(updated);
+  };
+
+  const handleSanction = async () => {
+    if (!sanction.employeeId) {
+      toast.error('Select an employee');
+      return;
+    }
+    if (sanction.principal <= 0) {
+      toast.error('Enter the amount to sanction');
+      return;
+    }
+
+    setSanctioning(true);
+    try {
+      const created = await payrollService.sanctionLoan({
+        ...sanction,
+        interestRate: sanction.type === 'advance' ? 0 : sanction.interestRate,
+        note: sanction.note || undefined,
+      });
+      if (created) {
+        toast.success(`${sanction.type === 'advance' ? 'Advance' : 'Loan'} sanctioned`);
+        setStatements((prev) => [created, ...prev]);
+        setSanctionOpen(false);
+        setSanction(emptySanction());
+      } else {
+        toast.error('Failed to sanction loan');
+      }
+    } catch (error) {
+      toast.error('Failed to sanction loan');
+      console.error(error);
+    } finally {
+      setSanctioning(false);
+    }
+  };
+
+  const runAction = async (
+    action: Parameters<typeof payrollService.updateLoan>[1],
+    successMessage: string
+  ) => {
+    if (!selected?.loan.id) return;
+    setUpdating(true);
+    try {
+      const updated = await payrollService.updateLoan(selected.loan.id, action);
+      if (updated) {
+        toast.success(successMessage);
+        replaceStatement(updated);
+      } else {
+        toast.error('Failed to update loan');
+      }
+    } catch (error) {
+      toast.error('Failed to update loan');
+      console.error(error);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleSkip = () => {
+    const [month, year] = skipPeriod.split('-').map(Number);
+    runAction({ action: 'skip', month, year }, `EMI for ${MONTH_NAMES[month]} ${year} skipped`);
+  };
+
+  const handlePrepay = () => {
+    if (!selected) return;
+    if (prepayAmount <= 0 || prepayAmount > selected.outstanding) {
+      toast.error(`Enter an amount up to ${formatAmount(selected.outstanding)}`);
+      return;
+    }
+    runAction({ action: 'prepay', amount: prepayAmount, note: prepayNote || undefined }, 'Prepayment recorded');
+  };
+
+  const visible = statements.filter((s) => showClosed || s.loan.status === 'active');
+  const totalOutstanding = statements.reduce((sum, s) => sum + s.outstanding, 0);
+  const estimatedEmi = calculateEmi(
+    sanction.principal,
+    sanction.type === 'advance' ? 0 : sanction.interestRate,
+    sanction.tenureMonths
+  );
+  const { year: currentYear } = nextMonth();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            EMIs are deducted automatically as Loan Recovery when salary slips are generated.
+          </p>
+          <p className="text-sm font-medium text-gray-900 dark:text-white mt-1">
+            Total outstanding: {formatAmount(totalOutstanding)}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showClosed}
+              onChange={(e) => setShowClosed(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Show closed
+          </label>
+          <Button onClick={() => setSanctionOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Sanction Loan
+          </Button>
+        </div>
+      </div>
+
+      {/* Loans Table */}
+      {loading ? (
+        <div className="p-8 text-center text-gray-500">Loading...</div>
+      ) : visible.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">No loans or advances</div>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Employee</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Type</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Sanctioned</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">EMI</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Outstanding</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              {visible.map((statement) => {
+                const { loan } = statement;
+                const status = loan.status === 'closed' ? 'Closed' : loan.paused ? 'Paused' : 'Active';
+                return (
+                  <tr key={loan.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">{loan.employeeName}</td>
+                    <td className="px-3 py-2 text-gray-900 dark:text-white">
+                      {loan.type === 'advance' ? 'Advance' : `Loan (${loan.interestRate}%)`}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatAmount(loan.principal)}</td>
+                    <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatAmount(loan.emiAmount)}</td>
+                    <td className="px-3 py-2 text-right font-medium text-gray-900 dark:text-white">{formatAmount(statement.outstanding)}</td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                          status === 'Active'
+                            ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                            : status === 'Paused'
+                              ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'
+                              : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                        }`}
+                      >
+                        {status}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <Button variant="outline" size="sm" onClick={() => openStatement(statement)}>
+                        Statement
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Sanction Dialog */}
+      <Dialog open={sanctionOpen} onOpenChange={setSanctionOpen}>
+        <DialogContent className="max-w-full sm:max-w-lg max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">Sanction Loan / Advance</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="loanEmployee">Employee</Label>
+              <select
+                id="loanEmployee"
+                value={sanction.employeeId}
+                onChange={(e) => setSanction({ ...sanction, employeeId: e.target.value })}
+                className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+              >
+                <option value="">Select employee</option>
+                {employees.map((employee) => (
+                  <option key={employee.id} value={employee.id}>
+                    {employee.name} ({employee.employeeId})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex gap-4">
+              {(['advance', 'loan'] as const).map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="loanType"
+                    checked={sanction.type === option}
+                    onChange={() => setSanction({ ...sanction, type: option })}
+                    className="h-4 w-4 border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {option === 'advance' ? 'Salary advance' : 'Loan'}
+                </label>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="loanPrincipal">Amount (₹)</Label>
+                <Input
+                  id="loanPrincipal"
+                  type="number"
+                  min={0}
+                  value={sanction.principal}
+                  onChange={(e) => setSanction({ ...sanction, principal: Number(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="loanRate">Interest (% p.a.)</Label>
+                <Input
+                  id="loanRate"
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={sanction.type === 'advance' ? 0 : sanction.interestRate}
+                  onChange={(e) => setSanction({ ...sanction, interestRate: Number(e.target.value) || 0 })}
+                  disabled={sanction.type === 'advance'}
+                />
+              </div>
+              <div>
+                <Label htmlFor="loanTenure">Tenure (months)</Label>
+                <Input
+                  id="loanTenure"
+                  type="number"
+                  min={1}
+                  value={sanction.tenureMonths}
+                  onChange={(e) => setSanction({ ...sanction, tenureMonths: Math.max(1, Number(e.target.value) || 1) })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>First EMI from</Label>
+              <div className="flex gap-2">
+                <select
+                  value={sanction.startMonth}
+                  onChange={(e) => setSanction({ ...sanction, startMonth: parseInt(e.target.value, 10) })}
+                  className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+                >
+                  {MONTH_NAMES.map((name, index) => (
+                    <option key={name} value={index}>{name}</option>
+                  ))}
+                </select>
+                <select
+                  value={sanction.startYear}
+                  onChange={(e) => setSanction({ ...sanction, startYear: parseInt(e.target.value, 10) })}
+                  className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+                >
+                  {[currentYear - 1, currentYear, currentYear + 1].map((y) => (
+                    <option key={y} value={y}>{y}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="loanNote">Note</Label>
+              <Input
+                id="loanNote"
+                value={sanction.note}
+                onChange={(e) => setSanction({ ...sanction, note: e.target.value })}
+                placeholder="Purpose or approval reference"
+              />
+            </div>
+
+            <div className="flex items-center justify-between p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800">
+              <span className="text-sm font-medium text-blue-900 dark:text-blue-200">Monthly EMI</span>
+              <span className="text-lg font-semibold text-blue-900 dark:text-blue-100">{formatAmount(estimatedEmi)}</span>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setSanctionOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSanction} loading={sanctioning}>
+                Sanction
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Statement Dialog */}
+      <Dialog open={!!selected} onOpenChange={() => setSelected(null)}>
+        <DialogContent className="max-w-full sm:max-w-3xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">Loan Statement — {selected?.loan.employeeName}</DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-6">
+              <LoanStatementView statement={selected} />
+
+              {selected.loan.status === 'active' && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+                  <div className="space-y-2">
+                    <Label>Recovery</Label>
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      loading={updating}
+                      onClick={() =>
+                        runAction(
+                          { action: selected.loan.paused ? 'resume' : 'pause' },
+                          selected.loan.paused ? 'EMI recovery resumed' : 'EMI recovery paused'
+                        )
+                      }
+                    >
+                      {selected.loan.paused ? <Play className="h-4 w-4 mr-1" /> : <Pause className="h-4 w-4 mr-1" />}
+                      {selected.loan.paused ? 'Resume EMIs' : 'Pause EMIs'}
+                    </Button>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Skip one EMI</Label>
+                    <div className="flex gap-2">
+                      <select
+                        value={skipPeriod}
+                        onChange={(e) => setSkipPeriod(e.target.value)}
+                        className="flex-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-2 text-sm"
+                      >
+                        {selected.schedule.slice(0, 12).map((installment) => (
+                          <option key={`${installment.month}-${installment.year}`} value={`${installment.month}-${installment.year}`}>
+                            {MONTH_NAMES[installment.month].slice(0, 3)} {installment.year}
+                          </option>
+                        ))}
+                      </select>
+                      <Button variant="outline" onClick={handleSkip} loading={updating} disabled={!skipPeriod} title="Skip">
+                        <SkipForward className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="prepayAmount">Prepayment (₹)</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="prepayAmount"
+                        type="number"
+                        min={0}
+                        value={prepayAmount}
+                        onChange={(e) => setPrepayAmount(Number(e.target.value) || 0)}
+                      />
+                      <Button onClick={handlePrepay} loading={updating} disabled={prepayAmount <= 0}>
+                        Record
+                      </Button>
+                    </div>
+                    <Input
+                      value={prepayNote}
+                      onChange={(e) => setPrepayNote(e.target.value)}
+                      placeholder="Reference (optional)"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
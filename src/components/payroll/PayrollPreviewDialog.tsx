@@ -0,0 +1,310 @@
+/**
+ * PayrollPreviewDialog
+ * Shows a dry-run payroll preview diffed against the previous month's slips,
+ * with outliers highlighted, before slips are generated
+ */
+
+'use client';
+
+import { Fragment, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DEFAULT_SALARY_SLIP_TEMPLATE,
+  PayrollPreviewResult,
+  PayrollPreviewRow,
+  SalaryValueDiff,
+} from '@/types/payroll.types';
+import { isOutlierFlag } from '@/lib/payroll-preview';
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface PayrollPreviewDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  result: PayrollPreviewResult | null;
+  loading: boolean;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onRerun: () => void;
+  onGenerate: () => void;
+  generating: boolean;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Component labels come from the default slip template so both stay consistent
+const COMPONENT_LABELS: Record<string, string> = Object.fromEntries(
+  DEFAULT_SALARY_SLIP_TEMPLATE.sections
+    .filter((section) => section.key === 'earnings' || section.key === 'deductions')
+    .flatMap((section) => section.fields.map((field) => [field.key, field.label]))
+);
+COMPONENT_LABELS.totalDeductions = 'Total Deductions';
+COMPONENT_LABELS.reimbursement = 'Reimbursements';
+
+function formatCurrency(value: number | null): string {
+  if (value === null) return '—';
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+}
+
+function formatChange(diff: SalaryValueDiff, isCurrency: boolean): string {
+  if (diff.previous === null || diff.current === null) return '—';
+  if (diff.change === 0) return '0';
+  const sign = diff.change > 0 ? '+' : '−';
+  const amount = isCurrency
+    ? formatCurrency(Math.abs(diff.change))
+    : Math.abs(diff.change).toLocaleString('en-IN', { maximumFractionDigits: 1 });
+  const percent = diff.changePercent !== null ? ` (${sign}${Math.abs(diff.changePercent).toFixed(1)}%)` : '';
+  return `${sign}${amount}${percent}`;
+}
+
+function changeClass(diff: SalaryValueDiff): string {
+  if (diff.previous === null || diff.current === null || diff.change === 0) {
+    return 'text-gray-500 dark:text-gray-400';
+  }
+  return diff.change > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+}
+
+export function PayrollPreviewDialog({
+  isOpen,
+  onClose,
+  result,
+  loading,
+  threshold,
+  onThresholdChange,
+  onRerun,
+  onGenerate,
+  generating,
+}: PayrollPreviewDialogProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [showOutliersOnly, setShowOutliersOnly] = useState(false);
+
+  const toggleExpanded = (employeeId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(employeeId)) {
+        next.delete(employeeId);
+      } else {
+        next.add(employeeId);
+      }
+      return next;
+    });
+  };
+
+  const isOutlier = (row: PayrollPreviewRow) => row.flags.some(isOutlierFlag);
+  const rows = (result?.rows ?? []).filter((row) => !showOutliersOnly || isOutlier(row));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-full sm:max-w-6xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">
+            Preview Run
+            {result && (
+              <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                {MONTH_NAMES[result.month]} {result.year} vs {MONTH_NAMES[result.previousMonth]} {result.previousYear}
+              </span>
+            )}
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Salaries are calculated with the current formula and attendance. Nothing is saved until you generate.
+        </p>
+
+        {/* Controls */}
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Flag net change above (%)
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={threshold}
+              onChange={(e) => onThresholdChange(Number(e.target.value) || 0)}
+              className="w-28 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={onRerun} loading={loading}>
+            {loading ? 'Calculating...' : 'Re-run Preview'}
+          </Button>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showOutliersOnly}
+              onChange={(e) => setShowOutliersOnly(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Show outliers only
+          </label>
+        </div>
+
+        {/* Summary */}
+        {result && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+              <p className="text-xs text-gray-500 dark:text-gray-400">Employees</p>
+              <p className="text-lg font-semibold text-gray-900 dark:text-white">{result.rows.length}</p>
+            </div>
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+              <p className="text-xs text-gray-500 dark:text-gray-400">Total Net (this month)</p>
+              <p className="text-lg font-semibold text-gray-900 dark:text-white">{formatCurrency(result.totalNetSalary)}</p>
+            </div>
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+              <p className="text-xs text-gray-500 dark:text-gray-400">Total Net (last month)</p>
+              <p className="text-lg font-semibold text-gray-900 dark:text-white">{formatCurrency(result.previousTotalNetSalary)}</p>
+            </div>
+            <div
+              className={`rounded-lg border p-3 ${
+                result.flaggedCount > 0
+                  ? 'border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/20'
+                  : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <p className="text-xs text-gray-500 dark:text-gray-400">Outliers</p>
+              <p className="text-lg font-semibold text-gray-900 dark:text-white">{result.flaggedCount}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Diff Table */}
+        {loading && !result ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-3 py-2 w-8" />
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Employee</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Paid Days</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Change</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Net (Last)</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Net (This)</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Change</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Flags</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-3 py-6 text-center text-gray-500 dark:text-gray-400">
+                      {showOutliersOnly ? 'No outliers found' : 'No employees in preview'}
+                    </td>
+                  </tr>
+                )}
+                {rows.map((row) => {
+                  const outlier = isOutlier(row);
+                  const isExpanded = expanded.has(row.employeeId);
+                  return (
+                    <Fragment key={row.employeeId}>
+                      <tr
+                        className={`cursor-pointer ${
+                          outlier
+                            ? 'bg-amber-50 hover:bg-amber-100 dark:bg-amber-900/20 dark:hover:bg-amber-900/30'
+                            : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                        }`}
+                        onClick={() => toggleExpanded(row.employeeId)}
+                      >
+                        <td className="px-3 py-2 text-gray-400">
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </td>
+                        <td className="px-3 py-2">
+                          <p className="font-medium text-gray-900 dark:text-white">{row.name}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{row.employeeCode}</p>
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-900 dark:text-white">
+                          {row.paidDays.previous ?? '—'} → {row.paidDays.current ?? '—'}
+                        </td>
+                        <td className={`px-3 py-2 text-right whitespace-nowrap ${changeClass(row.paidDays)}`}>
+                          {formatChange(row.paidDays, false)}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-900 dark:text-white">
+                          {formatCurrency(row.netSalary.previous)}
+                        </td>
+                        <td className="px-3 py-2 text-right font-semibold text-gray-900 dark:text-white">
+                          {formatCurrency(row.netSalary.current)}
+                        </td>
+                        <td className={`px-3 py-2 text-right whitespace-nowrap ${changeClass(row.netSalary)}`}>
+                          {formatChange(row.netSalary, true)}
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className="flex flex-wrap gap-1">
+                            {row.flags.map((flag) => (
+                              <span
+                                key={flag.type}
+                                title={flag.message}
+                                className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs ${
+                                  isOutlierFlag(flag)
+                                    ? 'bg-amber-100 text-amber-800 dark:bg-amber-800/40 dark:text-amber-200'
+                                    : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                                }`}
+                              >
+                                {isOutlierFlag(flag) && <AlertTriangle className="h-3 w-3" />}
+                                {flag.message}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-gray-50/50 dark:bg-gray-800/50">
+                          <td />
+                          <td colSpan={7} className="px-3 py-2">
+                            {row.components.length === 0 ? (
+                              <p className="text-xs text-gray-500 dark:text-gray-400">No salary components to compare</p>
+                            ) : (
+                              <table className="w-full max-w-2xl text-xs">
+                                <thead>
+                                  <tr className="text-gray-500 dark:text-gray-400">
+                                    <th className="py-1 text-left font-medium">Component</th>
+                                    <th className="py-1 text-right font-medium">Last Month</th>
+                                    <th className="py-1 text-right font-medium">This Month</th>
+                                    <th className="py-1 text-right font-medium">Change</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {row.components.map((diff) => (
+                                    <tr key={diff.key}>
+                                      <td className="py-1 text-gray-700 dark:text-gray-300">
+                                        {COMPONENT_LABELS[diff.key] ??
+                                          row.calculation?.salaryBreakup.components?.find((line) => line.key === diff.key)?.name ??
+                                          diff.key}
+                                      </td>
+                                      <td className="py-1 text-right text-gray-900 dark:text-white">{formatCurrency(diff.previous)}</td>
+                                      <td className="py-1 text-right text-gray-900 dark:text-white">{formatCurrency(diff.current)}</td>
+                                      <td className={`py-1 text-right ${changeClass(diff)}`}>{formatChange(diff, true)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={onGenerate} loading={generating} disabled={!result || loading}>
+            {generating ? 'Generating...' : 'Looks Good — Generate & Save'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
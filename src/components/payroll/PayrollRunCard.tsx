@@ -0,0 +1,250 @@
+/**
+ * PayrollRunCard
+ * Status of a month's payroll run with its totals snapshot and the actions to
+ * move it through review, approval, lock and payment, or re-open it. Locked
+ * runs can be exported as a bank payment file and EPF / ESI returns.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { payrollService } from '@/services/payroll.service';
+import { PayrollRun, PayrollRunAction, PayrollRunStatus } from '@/types/payroll.types';
+import { isPayrollRunLocked, PAYROLL_RUN_STATUS_LABELS } from '@/lib/payroll-run';
+import { BankExportDialog } from '@/components/payroll/BankExportDialog';
+import { StatutoryReturnsDialog } from '@/components/payroll/StatutoryReturnsDialog';
+import { CheckCircle2, FileSpreadsheet, History, Landmark, Lock, RotateCcw } from 'lucide-react';
+
+interface PayrollRunCardProps {
+  run: PayrollRun | null;
+  periodLabel: string;
+  onChange: (run: PayrollRun) => void;
+}
+
+const STATUS_ORDER: PayrollRunStatus[] = ['draft', 'reviewed', 'approved', 'locked', 'paid'];
+
+// The forward action available from each status
+const NEXT_ACTION: Partial<Record<PayrollRunStatus, { action: PayrollRunAction; label: string; confirm: string }>> = {
+  draft: { action: 'review', label: 'Mark Reviewed', confirm: 'Mark this payroll run as reviewed? Slips cannot be generated, edited or deleted until it is re-opened.' },
+  reviewed: { action: 'approve', label: 'Approve', confirm: 'Approve this payroll run?' },
+  approved: { action: 'lock', label: 'Lock Run', confirm: 'Lock this payroll run?' },
+  locked: { action: 'mark-paid', label: 'Mark Paid', confirm: 'Mark salaries for this run as paid?' },
+};
+
+function formatAmount(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+}
+
+export function PayrollRunCard({ run, periodLabel, onChange }: PayrollRunCardProps) {
+  const [updating, setUpdating] = useState(false);
+  const [showReopen, setShowReopen] = useState(false);
+  const [reopenReason, setReopenReason] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [showBankExport, setShowBankExport] = useState(false);
+  const [showStatutoryReturns, setShowStatutoryReturns] = useState(false);
+
+  if (!run) return null;
+
+  const transition = async (action: PayrollRunAction, reason?: string) => {
+    setUpdating(true);
+    try {
+      const updated = await payrollService.transitionPayrollRun(run.month, run.year, action, reason);
+      if (updated) {
+        toast.success(`Payroll run ${PAYROLL_RUN_STATUS_LABELS[updated.status].toLowerCase()}`);
+        onChange(updated);
+        setShowReopen(false);
+        setReopenReason('');
+      } else {
+        toast.error('Failed to update payroll run');
+      }
+    } catch (error) {
+      toast.error('Failed to update payroll run');
+      console.error(error);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const next = NEXT_ACTION[run.status];
+  const currentIndex = STATUS_ORDER.indexOf(run.status);
+  const totals = [
+    { label: 'Employees', value: String(run.totals.employeeCount) },
+    { label: 'Gross Earnings', value: formatAmount(run.totals.grossEarnings) },
+    { label: 'Deductions', value: formatAmount(run.totals.totalDeductions) },
+    { label: 'Net Pay', value: formatAmount(run.totals.netSalary) },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            Payroll Run — {periodLabel}
+            {isPayrollRunLocked(run.status) && <Lock className="h-4 w-4 text-gray-500" />}
+          </h3>
+          {run.approvedByName && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Approved by {run.approvedByName}
+              {run.approvedAt && ` on ${new Date(run.approvedAt).toLocaleDateString('en-IN')}`}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {run.history.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+              <History className="h-4 w-4 mr-1" />
+              History
+            </Button>
+          )}
+          {isPayrollRunLocked(run.status) && (
+            <Button variant="outline" size="sm" onClick={() => setShowBankExport(true)}>
+              <Landmark className="h-4 w-4 mr-1" />
+              Bank File
+            </Button>
+          )}
+          {isPayrollRunLocked(run.status) && (
+            <Button variant="outline" size="sm" onClick={() => setShowStatutoryReturns(true)}>
+              <FileSpreadsheet className="h-4 w-4 mr-1" />
+              PF / ESI Returns
+            </Button>
+          )}
+          {run.status !== 'draft' && (
+            <Button variant="outline" size="sm" onClick={() => setShowReopen(true)} disabled={updating}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Re-open
+            </Button>
+          )}
+          {next && (
+            <Button
+              size="sm"
+              loading={updating}
+              onClick={() => {
+                if (confirm(next.confirm)) transition(next.action);
+              }}
+            >
+              {next.label}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Status Steps */}
+      <div className="flex items-center gap-1">
+        {STATUS_ORDER.map((status, index) => (
+          <div key={status} className="flex-1">
+            <div
+              className={`h-1.5 rounded-full ${
+                index <= currentIndex ? 'bg-blue-600 dark:bg-blue-500' : 'bg-gray-200 dark:bg-gray-700'
+              }`}
+            />
+            <p
+              className={`mt-1 text-xs flex items-center gap-1 ${
+                index === currentIndex ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'
+              }`}
+            >
+              {index < currentIndex && <CheckCircle2 className="h-3 w-3 text-blue-600 dark:text-blue-400" />}
+              {PAYROLL_RUN_STATUS_LABELS[status]}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {totals.map((item) => (
+          <div key={item.label} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{item.label}</p>
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">{item.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {isPayrollRunLocked(run.status) && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          This run is {run.status}. Slips for {periodLabel} cannot be generated, edited or deleted until it is re-opened.
+        </p>
+      )}
+
+      {/* Re-open Dialog */}
+      <Dialog open={showReopen} onOpenChange={setShowReopen}>
+        <DialogContent className="max-w-full sm:max-w-md mx-2 sm:mx-auto">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">Re-open Payroll Run</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              The run returns to draft and must be reviewed and approved again. The reason is recorded in the audit log.
+            </p>
+            <div>
+              <Label htmlFor="reopenReason">Reason</Label>
+              <Textarea
+                id="reopenReason"
+                value={reopenReason}
+                onChange={(e) => setReopenReason(e.target.value)}
+                placeholder="What needs to be corrected?"
+                rows={3}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setShowReopen(false)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                loading={updating}
+                disabled={reopenReason.trim().length < 10}
+                onClick={() => transition('reopen', reopenReason.trim())}
+              >
+                Re-open
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <BankExportDialog
+        open={showBankExport}
+        onOpenChange={setShowBankExport}
+        month={run.month}
+        year={run.year}
+        periodLabel={periodLabel}
+      />
+
+      <StatutoryReturnsDialog
+        open={showStatutoryReturns}
+        onOpenChange={setShowStatutoryReturns}
+        month={run.month}
+        year={run.year}
+        periodLabel={periodLabel}
+      />
+
+      {/* History Dialog */}
+      <Dialog open={showHistory} onOpenChange={setShowHistory}>
+        <DialogContent className="max-w-full sm:max-w-lg max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">Run History — {periodLabel}</DialogTitle>
+          </DialogHeader>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {[...run.history].reverse().map((event, index) => (
+              <li key={index} className="py-2 text-sm">
+                <p className="text-gray-900 dark:text-white">
+                  <span className="font-medium">{event.byName}</span>
+                  {' '}moved the run from {PAYROLL_RUN_STATUS_LABELS[event.from]} to {PAYROLL_RUN_STATUS_LABELS[event.to]}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(event.at).toLocaleString('en-IN')}</p>
+                {event.reason && (
+                  <p className="text-xs text-gray-700 dark:text-gray-300 mt-1">Reason: {event.reason}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
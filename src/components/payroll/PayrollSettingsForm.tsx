@@ -15,7 +15,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { payrollService } from '@/services/payroll.service';
-import { PayrollSettings } from '@/types/payroll.types';
+import { DEFAULT_STATUTORY_SETTINGS } from '@/types/payroll.types';
+import { PROFESSIONAL_TAX_STATES } from '@/lib/statutory';
 
 interface PayrollSettingsFormProps {
   onSaveSuccess?: () => void;
@@ -31,8 +32,36 @@ const schema = z.object({
   allowedPaidLeaves: z.number().min(0).int('Must be a whole number'),
   includePaidLeavesInPaidDays: z.boolean(),
   footerNote: z.string(),
+  statutory: z.object({
+    epf: z.object({
+      enabled: z.boolean(),
+      wageComponents: z.array(z.enum(['basic', 'hra', 'special'])).min(1, 'Select at least one component'),
+      wageCeiling: z.number().min(0),
+      restrictToCeiling: z.boolean(),
+      employeeRate: z.number().min(0).max(100, 'Cannot exceed 100'),
+      employerRate: z.number().min(0).max(100, 'Cannot exceed 100'),
+      epsRate: z.number().min(0).max(100, 'Cannot exceed 100'),
+    }),
+    esi: z.object({
+      enabled: z.boolean(),
+      grossThreshold: z.number().min(0),
+      employeeRate: z.number().min(0).max(100, 'Cannot exceed 100'),
+      employerRate: z.number().min(0).max(100, 'Cannot exceed 100'),
+    }),
+    professionalTax: z.object({
+      enabled: z.boolean(),
+      defaultState: z.string().min(1),
+    }),
+  }),
+  tdsEnabled: z.boolean(),
 });
 
+const PF_WAGE_COMPONENTS = [
+  { key: 'basic', label: 'Basic' },
+  { key: 'hra', label: 'HRA' },
+  { key: 'special', label: 'Special' },
+] as const;
+
 type FormData = z.infer<typeof schema>;
 
 export function PayrollSettingsForm({ onSaveSuccess }: PayrollSettingsFormProps) {
@@ -48,6 +77,8 @@ export function PayrollSettingsForm({ onSaveSuccess }: PayrollSettingsFormProps)
       allowedPaidLeaves: 0,
       includePaidLeavesInPaidDays: false,
       footerNote: 'This is a computer generated statement, does not require signature.',
+      statutory: DEFAULT_STATUTORY_SETTINGS,
+      tdsEnabled: false,
     },
   });
 
@@ -55,6 +86,9 @@ export function PayrollSettingsForm({ onSaveSuccess }: PayrollSettingsFormProps)
   const hraPercentage = watch('hraPercentage');
   const specialPercentage = watch('specialPercentage');
   const totalPercentage = (basicPercentage || 0) + (hraPercentage || 0) + (specialPercentage || 0);
+  const epfEnabled = watch('statutory.epf.enabled');
+  const esiEnabled = watch('statutory.esi.enabled');
+  const ptEnabled = watch('statutory.professionalTax.enabled');
 
   useEffect(() => {
     fetchSettings();
@@ -73,6 +107,8 @@ export function PayrollSettingsForm({ onSaveSuccess }: PayrollSettingsFormProps)
         allowedPaidLeaves: settings.allowedPaidLeaves || 0,
         includePaidLeavesInPaidDays: settings.includePaidLeavesInPaidDays ?? false,
         footerNote: settings.footerNote || 'This is a computer generated statement, does not require signature.',
+        statutory: settings.statutory ?? DEFAULT_STATUTORY_SETTINGS,
+        tdsEnabled: settings.tdsEnabled ?? false,
       });
     }
   };
@@ -215,6 +251,219 @@ export function PayrollSettingsForm({ onSaveSuccess }: PayrollSettingsFormProps)
         </p>
       </div>
 
+      {/* Statutory Deductions */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Statutory Deductions</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2">
+          Calculated on earned salary after the salary formula runs. Remove any EPF, ESI or PT already coded into the formula to avoid deducting twice.
+          Individual employees can be opted out from Configure Salary.
+        </p>
+
+        {/* EPF */}
+        <div className="space-y-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="epfEnabled"
+              {...register('statutory.epf.enabled')}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <Label htmlFor="epfEnabled" className="cursor-pointer text-sm font-medium text-gray-700 dark:text-gray-300">
+              Employees&apos; Provident Fund (EPF)
+            </Label>
+          </div>
+
+          {epfEnabled && (
+            <>
+              <div>
+                <Label>PF Wages</Label>
+                <div className="flex gap-4 mt-1">
+                  {PF_WAGE_COMPONENTS.map((component) => (
+                    <label key={component.key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        value={component.key}
+                        {...register('statutory.epf.wageComponents')}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      {component.label}
+                    </label>
+                  ))}
+                </div>
+                {errors.statutory?.epf?.wageComponents && (
+                  <p className="text-sm text-red-600 mt-1">{errors.statutory.epf.wageComponents.message}</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="epfWageCeiling">Wage Ceiling (₹)</Label>
+                  <Input
+                    id="epfWageCeiling"
+                    type="number"
+                    {...register('statutory.epf.wageCeiling', { valueAsNumber: true })}
+                    error={errors.statutory?.epf?.wageCeiling?.message}
+                  />
+                </div>
+                <div className="flex items-end gap-3 pb-2">
+                  <input
+                    type="checkbox"
+                    id="epfRestrictToCeiling"
+                    {...register('statutory.epf.restrictToCeiling')}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <Label htmlFor="epfRestrictToCeiling" className="cursor-pointer text-sm text-gray-700 dark:text-gray-300">
+                    Restrict contribution to ceiling
+                  </Label>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="epfEmployeeRate">Employee (%)</Label>
+                  <Input
+                    id="epfEmployeeRate"
+                    type="number"
+                    step="0.01"
+                    {...register('statutory.epf.employeeRate', { valueAsNumber: true })}
+                    error={errors.statutory?.epf?.employeeRate?.message}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="epfEmployerRate">Employer (%)</Label>
+                  <Input
+                    id="epfEmployerRate"
+                    type="number"
+                    step="0.01"
+                    {...register('statutory.epf.employerRate', { valueAsNumber: true })}
+                    error={errors.statutory?.epf?.employerRate?.message}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="epfEpsRate">of which EPS (%)</Label>
+                  <Input
+                    id="epfEpsRate"
+                    type="number"
+                    step="0.01"
+                    {...register('statutory.epf.epsRate', { valueAsNumber: true })}
+                    error={errors.statutory?.epf?.epsRate?.message}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* ESI */}
+        <div className="space-y-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="esiEnabled"
+              {...register('statutory.esi.enabled')}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <Label htmlFor="esiEnabled" className="cursor-pointer text-sm font-medium text-gray-700 dark:text-gray-300">
+              Employees&apos; State Insurance (ESI)
+            </Label>
+          </div>
+
+          {esiEnabled && (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="esiGrossThreshold">Gross Threshold (₹)</Label>
+                  <Input
+                    id="esiGrossThreshold"
+                    type="number"
+                    {...register('statutory.esi.grossThreshold', { valueAsNumber: true })}
+                    error={errors.statutory?.esi?.grossThreshold?.message}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="esiEmployeeRate">Employee (%)</Label>
+                  <Input
+                    id="esiEmployeeRate"
+                    type="number"
+                    step="0.01"
+                    {...register('statutory.esi.employeeRate', { valueAsNumber: true })}
+                    error={errors.statutory?.esi?.employeeRate?.message}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="esiEmployerRate">Employer (%)</Label>
+                  <Input
+                    id="esiEmployerRate"
+                    type="number"
+                    step="0.01"
+                    {...register('statutory.esi.employerRate', { valueAsNumber: true })}
+                    error={errors.statutory?.esi?.employerRate?.message}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Coverage is decided by gross salary at the start of each contribution period (April–September, October–March).
+              </p>
+            </>
+          )}
+        </div>
+
+        {/* Professional Tax */}
+        <div className="space-y-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="ptEnabled"
+              {...register('statutory.professionalTax.enabled')}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <Label htmlFor="ptEnabled" className="cursor-pointer text-sm font-medium text-gray-700 dark:text-gray-300">
+              Professional Tax (PT)
+            </Label>
+          </div>
+
+          {ptEnabled && (
+            <div>
+              <Label htmlFor="ptDefaultState">Default State</Label>
+              <select
+                id="ptDefaultState"
+                {...register('statutory.professionalTax.defaultState')}
+                className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+              >
+                {Object.entries(PROFESSIONAL_TAX_STATES).map(([code, state]) => (
+                  <option key={code} value={code}>
+                    {state.name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Used for employees without a PT state of their own.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Income Tax */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Income Tax (TDS)</h3>
+
+        <div className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <input
+            type="checkbox"
+            id="tdsEnabled"
+            {...register('tdsEnabled')}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <Label htmlFor="tdsEnabled" className="cursor-pointer text-sm font-medium text-gray-700 dark:text-gray-300">
+            Deduct monthly TDS from projected annual tax
+          </Label>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2 ml-1">
+          Uses each employee&apos;s tax declaration for the financial year. Employees without a declaration are taxed under the new regime.
+        </p>
+      </div>
+
       {/* Footer Note */}
       <div className="space-y-4">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Footer Note</h3>
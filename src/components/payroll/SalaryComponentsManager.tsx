@@ -0,0 +1,484 @@
+/**
+ * SalaryComponentsManager
+ * Admin catalogue of earnings and deductions paid on top of the salary
+ * formula's basic, HRA and special allowance: fixed amounts, percentages of
+ * another component or a formula, worked out in catalogue order
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { payrollService } from '@/services/payroll.service';
+import { SalaryComponent, SalaryComponentCalculation, SalaryComponentType } from '@/types/payroll.types';
+import {
+  BUILT_IN_SALARY_COMPONENTS,
+  COMPONENT_BASE_VARIABLES,
+  validateSalaryComponent,
+} from '@/lib/salary-components';
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from 'lucide-react';
+
+type ComponentDraft = Omit<SalaryComponent, 'id' | 'order' | 'createdAt' | 'updatedAt'>;
+
+const BASE_LABELS: Record<string, string> = {
+  grossSalary: 'Gross Salary',
+  paidDays: 'Paid Days',
+  totalDaysInMonth: 'Days in Month',
+  basic: 'Basic Wage',
+  hra: 'HRA',
+  special: 'Special Allowances',
+};
+
+function emptyDraft(): ComponentDraft {
+  return {
+    key: '',
+    name: '',
+    type: 'earning',
+    taxable: true,
+    calculation: 'fixed',
+    amount: 0,
+    percentage: null,
+    percentageOf: null,
+    formula: null,
+    prorate: true,
+    active: true,
+  };
+}
+
+function describeCalculation(component: SalaryComponent, catalogue: SalaryComponent[]): string {
+  switch (component.calculation) {
+    case 'fixed':
+      return `₹${(component.amount ?? 0).toLocaleString('en-IN')} per month`;
+    case 'percentage': {
+      const base = component.percentageOf ?? '';
+      const baseName = BASE_LABELS[base] ?? catalogue.find((other) => other.key === base)?.name ?? base;
+      return `${component.percentage ?? 0}% of ${baseName}`;
+    }
+    case 'formula':
+      return component.formula ?? '';
+  }
+}
+
+export function SalaryComponentsManager() {
+  const [components, setComponents] = useState<SalaryComponent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ComponentDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchComponents();
+  }, []);
+
+  const fetchComponents = async () => {
+    setLoading(true);
+    try {
+      const data = await payrollService.getSalaryComponents();
+      if (data) {
+        setComponents(data);
+      } else {
+        toast.error('Failed to fetch salary components');
+      }
+    } catch (error) {
+      toast.error('Failed to fetch salary components');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(emptyDraft());
+    setEditorOpen(true);
+  };
+
+  const openEdit = (component: SalaryComponent) => {
+    setEditingId(component.id ?? null);
+    setDraft({
+      key: component.key,
+      name: component.name,
+      type: component.type,
+      taxable: component.taxable,
+      calculation: component.calculation,
+      amount: component.amount,
+      percentage: component.percentage,
+      percentageOf: component.percentageOf,
+      formula: component.formula,
+      prorate: component.prorate,
+      active: component.active,
+    });
+    setEditorOpen(true);
+  };
+
+  const editing = editingId ? components.find((component) => component.id === editingId) : undefined;
+  // A new component goes to the end of the catalogue, so it may use every existing one
+  const draftOrder = editing?.order ?? components.reduce((max, other) => Math.max(max, other.order), -1) + 1;
+  const otherComponents = components.filter((component) => component.id !== editingId);
+  const draftErrors = validateSalaryComponent({ ...draft, order: draftOrder }, otherComponents);
+  const percentageBases = [
+    ...Object.keys(COMPONENT_BASE_VARIABLES).map((key) => ({ key, name: BASE_LABELS[key] ?? key })),
+    ...otherComponents.filter((component) => component.order < draftOrder),
+  ];
+
+  const setCalculation = (calculation: SalaryComponentCalculation) => {
+    setDraft({
+      ...draft,
+      calculation,
+      amount: calculation === 'fixed' ? draft.amount ?? 0 : null,
+      percentage: calculation === 'percentage' ? draft.percentage ?? 0 : null,
+      percentageOf: calculation === 'percentage' ? draft.percentageOf ?? 'basic' : null,
+      formula: calculation === 'formula' ? draft.formula ?? '' : null,
+      prorate: calculation === 'formula' ? false : draft.prorate,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      toast.error('Enter a name');
+      return;
+    }
+    if (draftErrors.length > 0) {
+      toast.error(draftErrors[0]);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        const updated = await payrollService.updateSalaryComponent(editingId, draft);
+        setComponents((prev) => prev.map((component) => (component.id === editingId ? updated : component)));
+        toast.success('Salary component updated');
+      } else {
+        const created = await payrollService.createSalaryComponent(draft);
+        setComponents((prev) => [...prev, created]);
+        toast.success('Salary component added');
+      }
+      setEditorOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save salary component');
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (component: SalaryComponent) => {
+    if (!component.id) return;
+    if (!confirm(`Delete "${component.name}"? Slips already generated keep their amounts.`)) return;
+
+    try {
+      await payrollService.deleteSalaryComponent(component.id);
+      setComponents((prev) => prev.filter((other) => other.id !== component.id));
+      toast.success('Salary component deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete salary component');
+      console.error(error);
+    }
+  };
+
+  // Swap calculation order with the neighbouring component
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const current = components[index];
+    const neighbour = components[index + direction];
+    if (!current?.id || !neighbour?.id) return;
+
+    try {
+      await payrollService.updateSalaryComponent(current.id, { order: neighbour.order });
+      await payrollService.updateSalaryComponent(neighbour.id, { order: current.order });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reorder salary components');
+      console.error(error);
+    }
+    await fetchComponents();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400 max-w-2xl">
+          Basic, HRA and special allowance come from the salary formula. Components here are added on
+          top, in the order listed, for employees whose salary structure includes them.
+        </p>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Component
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center text-gray-500">Loading...</div>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Component</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Type</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Calculation</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Status</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              {BUILT_IN_SALARY_COMPONENTS.map((builtIn) => (
+                <tr key={builtIn.key} className="bg-gray-50/50 dark:bg-gray-800/50">
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900 dark:text-white">{builtIn.name}</div>
+                    <div className="text-xs text-gray-500 font-mono">{builtIn.key}</div>
+                  </td>
+                  <td className="px-3 py-2 text-gray-900 dark:text-white">Earning · Taxable</td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400">Salary formula</td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400">Built in</td>
+                  <td className="px-3 py-2" />
+                </tr>
+              ))}
+              {components.map((component, index) => (
+                <tr key={component.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900 dark:text-white">{component.name}</div>
+                    <div className="text-xs text-gray-500 font-mono">{component.key}</div>
+                  </td>
+                  <td className="px-3 py-2 text-gray-900 dark:text-white">
+                    {component.type === 'earning'
+                      ? `Earning · ${component.taxable ? 'Taxable' : 'Exempt'}`
+                      : 'Deduction'}
+                  </td>
+                  <td className="px-3 py-2 text-gray-900 dark:text-white">
+                    <span className={component.calculation === 'formula' ? 'font-mono text-xs' : ''}>
+                      {describeCalculation(component, components)}
+                    </span>
+                    {component.prorate && (
+                      <span className="ml-2 text-xs text-gray-500">prorated</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        component.active
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                          : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                      }`}
+                    >
+                      {component.active ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => handleMove(index, -1)} disabled={index === 0} title="Move up">
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === components.length - 1}
+                        title="Move down"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(component)} title="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(component)} title="Delete">
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {components.length === 0 && (
+            <div className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+              No components yet. Add allowances such as conveyance or deductions such as canteen charges.
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Component Editor */}
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-full sm:max-w-lg max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">
+              {editingId ? 'Edit Salary Component' : 'Add Salary Component'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="componentName">Name</Label>
+                <Input
+                  id="componentName"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Conveyance Allowance"
+                />
+              </div>
+              <div>
+                <Label htmlFor="componentKey">Key</Label>
+                <Input
+                  id="componentKey"
+                  value={draft.key}
+                  onChange={(e) => setDraft({ ...draft, key: e.target.value.trim() })}
+                  placeholder="conveyance"
+                  className="font-mono"
+                  disabled={!!editingId}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              {(['earning', 'deduction'] as SalaryComponentType[]).map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="componentType"
+                    checked={draft.type === option}
+                    onChange={() => setDraft({ ...draft, type: option, taxable: option === 'earning' })}
+                    className="h-4 w-4 border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {option === 'earning' ? 'Earning' : 'Deduction'}
+                </label>
+              ))}
+              {draft.type === 'earning' && (
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.taxable}
+                    onChange={(e) => setDraft({ ...draft, taxable: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Taxable
+                </label>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="componentCalculation">Calculation</Label>
+              <select
+                id="componentCalculation"
+                value={draft.calculation}
+                onChange={(e) => setCalculation(e.target.value as SalaryComponentCalculation)}
+                className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+              >
+                <option value="fixed">Fixed amount</option>
+                <option value="percentage">Percentage of another component</option>
+                <option value="formula">Formula</option>
+              </select>
+            </div>
+
+            {draft.calculation === 'fixed' && (
+              <div>
+                <Label htmlFor="componentAmount">Monthly amount (₹)</Label>
+                <Input
+                  id="componentAmount"
+                  type="number"
+                  min={0}
+                  value={draft.amount ?? 0}
+                  onChange={(e) => setDraft({ ...draft, amount: Number(e.target.value) || 0 })}
+                />
+              </div>
+            )}
+
+            {draft.calculation === 'percentage' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="componentPercentage">Rate (%)</Label>
+                  <Input
+                    id="componentPercentage"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={draft.percentage ?? 0}
+                    onChange={(e) => setDraft({ ...draft, percentage: Number(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="componentBase">Of</Label>
+                  <select
+                    id="componentBase"
+                    value={draft.percentageOf ?? ''}
+                    onChange={(e) => setDraft({ ...draft, percentageOf: e.target.value })}
+                    className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+                  >
+                    {percentageBases.map((base) => (
+                      <option key={base.key} value={base.key}>{base.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {draft.calculation === 'formula' && (
+              <div>
+                <Label htmlFor="componentFormula">Formula</Label>
+                <Input
+                  id="componentFormula"
+                  value={draft.formula ?? ''}
+                  onChange={(e) => setDraft({ ...draft, formula: e.target.value })}
+                  placeholder="MIN(basic * 0.1, 1600)"
+                  className="font-mono"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Can use {Object.keys(COMPONENT_BASE_VARIABLES).join(', ')}
+                  {percentageBases.length > Object.keys(COMPONENT_BASE_VARIABLES).length &&
+                    ` and components above it (${percentageBases
+                      .slice(Object.keys(COMPONENT_BASE_VARIABLES).length)
+                      .map((base) => base.key)
+                      .join(', ')})`}
+                </p>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-4">
+              {draft.calculation !== 'formula' && (
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.prorate}
+                    onChange={(e) => setDraft({ ...draft, prorate: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Reduce for unpaid leave
+                </label>
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.active}
+                  onChange={(e) => setDraft({ ...draft, active: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Active
+              </label>
+            </div>
+
+            {draftErrors.length > 0 && draft.key && (
+              <ul className="text-xs text-red-600 dark:text-red-400 space-y-1">
+                {draftErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEditorOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} loading={saving}>
+                {editingId ? 'Save' : 'Add'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 /**
  * SalaryConfigModal
- * Dialog for setting employee payroll details (DOJ, PAN, Designation, Gross Salary)
+ * Dialog for setting employee payroll details (DOJ, PAN, Designation, Gross Salary, Statutory, UAN / ESIC IP,
+ * Salary Structure, Bank Account)
  */
 
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -14,6 +15,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { ESI_IP_PATTERN, PROFESSIONAL_TAX_STATES, UAN_PATTERN } from '@/lib/statutory';
+import { IFSC_PATTERN } from '@/lib/bank-export';
+import { EmployeeBankAccount, EmployeeSalaryComponent, SalaryComponent } from '@/types/payroll.types';
+import { payrollService } from '@/services/payroll.service';
 
 interface Employee {
   id: string;
@@ -26,6 +31,12 @@ interface Employee {
   doj?: string | null;
   pan?: string | null;
   grossSalary?: number;
+  statutoryDeductions?: boolean;
+  ptState?: string | null;
+  uan?: string | null;
+  esiIpNumber?: string | null;
+  bankAccount?: EmployeeBankAccount | null;
+  salaryComponents?: EmployeeSalaryComponent[];
 }
 
 interface SalaryConfigModalProps {
@@ -48,9 +59,42 @@ const schema = z.object({
   department: z.string().optional().nullable(),
   designation: z.string().min(1, 'Designation is required'),
   grossSalary: z.number().min(0, 'Gross salary must be positive'),
+  statutoryDeductions: z.boolean(),
+  ptState: z.string().optional().nullable(),
+  uan: z.string()
+    .optional()
+    .nullable()
+    .refine((val) => !val || UAN_PATTERN.test(val), 'UAN must be 12 digits'),
+  esiIpNumber: z.string()
+    .optional()
+    .nullable()
+    .refine((val) => !val || ESI_IP_PATTERN.test(val), 'ESIC IP number must be 10 digits'),
+  accountNumber: z.string()
+    .optional()
+    .refine((val) => !val || /^\d{9,18}$/.test(val), 'Account number must be 9 to 18 digits'),
+  ifsc: z.string()
+    .optional()
+    .refine((val) => !val || IFSC_PATTERN.test(val.toUpperCase()), 'Invalid IFSC format (HDFC0001234)'),
+  beneficiaryName: z.string().optional(),
+  bankName: z.string().optional(),
+}).refine((data) => !(data.accountNumber || data.ifsc || data.beneficiaryName) || (data.ifsc && data.beneficiaryName), {
+  message: 'IFSC and beneficiary name are required for a bank account',
+  path: ['beneficiaryName'],
 });
 
-type SalaryConfigData = z.infer<typeof schema>;
+type SalaryConfigFormData = z.infer<typeof schema>;
+
+type SalaryConfigData = Omit<SalaryConfigFormData, 'accountNumber' | 'ifsc' | 'beneficiaryName' | 'bankName'> & {
+  bankAccount?: { accountNumber?: string; ifsc: string; beneficiaryName: string; bankName?: string };
+  salaryComponents: EmployeeSalaryComponent[];
+};
+
+// Placeholder for a component's override field, showing the catalogue amount or rate
+function catalogueValueLabel(component: SalaryComponent): string {
+  if (component.calculation === 'fixed') return `₹${component.amount ?? 0}`;
+  if (component.calculation === 'percentage') return `${component.percentage ?? 0}%`;
+  return 'Formula';
+}
 
 export function SalaryConfigModal({
   isOpen,
@@ -59,7 +103,10 @@ export function SalaryConfigModal({
   employee,
   isLoading,
 }: SalaryConfigModalProps) {
-  const { register, handleSubmit, reset, formState: { errors } } = useForm<SalaryConfigData>({
+  const [catalogue, setCatalogue] = useState<SalaryComponent[]>([]);
+  // Assigned component keys mapped to the override typed in (blank uses the catalogue value)
+  const [structure, setStructure] = useState<Record<string, string>>({});
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<SalaryConfigFormData>({
     resolver: zodResolver(schema),
     defaultValues: {
       doj: null,
@@ -67,9 +114,29 @@ export function SalaryConfigModal({
       department: '',
       designation: '',
       grossSalary: 0,
+      statutoryDeductions: true,
+      ptState: '',
+      uan: '',
+      esiIpNumber: '',
+      accountNumber: '',
+      ifsc: '',
+      beneficiaryName: '',
+      bankName: '',
     },
   });
 
+  useEffect(() => {
+    if (!isOpen) return;
+    payrollService.getSalaryComponents().then((components) => {
+      setCatalogue((components ?? []).filter((component) => component.active));
+    });
+    setStructure(
+      Object.fromEntries(
+        (employee?.salaryComponents ?? []).map((entry) => [entry.key, entry.value === null ? '' : String(entry.value)])
+      )
+    );
+  }, [isOpen, employee]);
+
   useEffect(() => {
     if (isOpen && employee) {
       reset({
@@ -78,6 +145,14 @@ export function SalaryConfigModal({
         department: employee.department || '',
         designation: employee.designation || '',
         grossSalary: employee.grossSalary || 0,
+        statutoryDeductions: employee.statutoryDeductions !== false,
+        ptState: employee.ptState || '',
+        uan: employee.uan || '',
+        esiIpNumber: employee.esiIpNumber || '',
+        accountNumber: '',
+        ifsc: employee.bankAccount?.ifsc || '',
+        beneficiaryName: employee.bankAccount?.beneficiaryName || '',
+        bankName: employee.bankAccount?.bankName || '',
       });
     } else if (isOpen) {
       reset({
@@ -86,13 +161,42 @@ export function SalaryConfigModal({
         department: '',
         designation: '',
         grossSalary: 0,
+        statutoryDeductions: true,
+        ptState: '',
+        uan: '',
+        esiIpNumber: '',
+        accountNumber: '',
+        ifsc: '',
+        beneficiaryName: '',
+        bankName: '',
       });
     }
   }, [isOpen, employee, reset]);
 
-  const onSubmit = async (data: SalaryConfigData) => {
+  const onSubmit = async (data: SalaryConfigFormData) => {
+    const { accountNumber, ifsc, beneficiaryName, bankName, ...rest } = data;
     try {
-      await onSave(data);
+      await onSave({
+        ...rest,
+        ptState: data.ptState || null,
+        uan: data.uan || null,
+        esiIpNumber: data.esiIpNumber || null,
+        salaryComponents: Object.entries(structure).map(([key, value]) => ({
+          key,
+          value: value.trim() === '' ? null : Math.max(0, Number(value) || 0),
+        })),
+        // A blank account number keeps the one on file
+        ...(ifsc && beneficiaryName
+          ? {
+              bankAccount: {
+                accountNumber: accountNumber || undefined,
+                ifsc: ifsc.toUpperCase(),
+                beneficiaryName,
+                bankName: bankName || undefined,
+              },
+            }
+          : {}),
+      });
       toast.success('Employee payroll details updated');
       onClose();
     } catch (error) {
@@ -178,6 +282,164 @@ export function SalaryConfigModal({
             />
           </div>
 
+          {/* Statutory Deductions */}
+          <div className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+            <input
+              type="checkbox"
+              id="statutoryDeductions"
+              {...register('statutoryDeductions')}
+              disabled={isLoading}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <Label htmlFor="statutoryDeductions" className="cursor-pointer text-sm font-medium text-gray-700 dark:text-gray-300">
+              Apply statutory deductions (EPF, ESI, PT)
+            </Label>
+          </div>
+
+          {/* Professional Tax State */}
+          <div>
+            <Label htmlFor="ptState">Professional Tax State</Label>
+            <select
+              id="ptState"
+              {...register('ptState')}
+              disabled={isLoading}
+              className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+            >
+              <option value="">Company default</option>
+              {Object.entries(PROFESSIONAL_TAX_STATES).map(([code, state]) => (
+                <option key={code} value={code}>
+                  {state.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* UAN / ESIC IP Number */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="uan">UAN</Label>
+              <Input
+                id="uan"
+                inputMode="numeric"
+                placeholder="12 digit UAN"
+                {...register('uan')}
+                error={errors.uan?.message}
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <Label htmlFor="esiIpNumber">ESIC IP Number</Label>
+              <Input
+                id="esiIpNumber"
+                inputMode="numeric"
+                placeholder="10 digit IP number"
+                {...register('esiIpNumber')}
+                error={errors.esiIpNumber?.message}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          {/* Salary Structure */}
+          {catalogue.length > 0 && (
+            <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 pt-2">Salary Structure</p>
+              <p className="text-xs text-gray-500">
+                Components paid or deducted on top of basic, HRA and special allowance. Leave the amount blank to use the catalogue value.
+              </p>
+              {catalogue.map((component) => {
+                const assigned = component.key in structure;
+                return (
+                  <div key={component.key} className="flex items-center gap-3">
+                    <label className="flex flex-1 items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={assigned}
+                        onChange={(e) => {
+                          const next = { ...structure };
+                          if (e.target.checked) next[component.key] = '';
+                          else delete next[component.key];
+                          setStructure(next);
+                        }}
+                        disabled={isLoading}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      {component.name}
+                      <span className="text-xs text-gray-500">
+                        {component.type === 'deduction' ? 'deduction' : component.taxable ? 'taxable' : 'exempt'}
+                      </span>
+                    </label>
+                    {component.calculation !== 'formula' && (
+                      <Input
+                        type="number"
+                        min={0}
+                        className="w-28"
+                        placeholder={catalogueValueLabel(component)}
+                        value={structure[component.key] ?? ''}
+                        onChange={(e) => setStructure({ ...structure, [component.key]: e.target.value })}
+                        disabled={isLoading || !assigned}
+                        aria-label={`${component.name} override`}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Bank Account */}
+          <div className="space-y-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 pt-2">Salary Bank Account</p>
+            <div>
+              <Label htmlFor="accountNumber">Account Number</Label>
+              <Input
+                id="accountNumber"
+                inputMode="numeric"
+                autoComplete="off"
+                placeholder={employee?.bankAccount?.accountNumberMasked || 'e.g., 50100012345678'}
+                {...register('accountNumber')}
+                error={errors.accountNumber?.message}
+                disabled={isLoading}
+              />
+              {employee?.bankAccount && (
+                <p className="text-xs text-gray-500 mt-1">
+                  On file: {employee.bankAccount.accountNumberMasked}. Leave blank to keep it.
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="ifsc">IFSC</Label>
+                <Input
+                  id="ifsc"
+                  placeholder="HDFC0001234"
+                  {...register('ifsc')}
+                  error={errors.ifsc?.message}
+                  disabled={isLoading}
+                />
+              </div>
+              <div>
+                <Label htmlFor="bankName">Bank Name</Label>
+                <Input
+                  id="bankName"
+                  placeholder="e.g., HDFC Bank"
+                  {...register('bankName')}
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="beneficiaryName">Beneficiary Name</Label>
+              <Input
+                id="beneficiaryName"
+                placeholder="Name as per bank records"
+                {...register('beneficiaryName')}
+                error={errors.beneficiaryName?.message}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
           <DialogFooter className="pt-2">
             <Button variant="outline" onClick={handleClose} type="button">
               Cancel
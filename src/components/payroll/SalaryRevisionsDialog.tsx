@@ -0,0 +1,234 @@
+/**
+ * SalaryRevisionsDialog
+ * An employee's salary revision timeline with arrears status, a form to add
+ * a (possibly backdated) revision, and increment letters for each raise
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { payrollService } from '@/services/payroll.service';
+import { PayrollSettings, SalaryRevision } from '@/types/payroll.types';
+import { FileDown, Plus } from 'lucide-react';
+
+interface SalaryRevisionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employee: { id: string; employeeId: string; name: string; designation?: string; grossSalary?: number } | null;
+  settings: PayrollSettings | null;
+  onRevised: () => void;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function formatAmount(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+}
+
+function emptyRevision(grossSalary = 0) {
+  return {
+    effectiveDate: new Date().toISOString().split('T')[0],
+    grossSalary,
+    reason: '',
+  };
+}
+
+export function SalaryRevisionsDialog({ open, onOpenChange, employee, settings, onRevised }: SalaryRevisionsDialogProps) {
+  const [revisions, setRevisions] = useState<SalaryRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState(emptyRevision);
+  const [saving, setSaving] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !employee) return;
+    setForm(emptyRevision(employee.grossSalary || 0));
+    setLoading(true);
+    payrollService
+      .getSalaryRevisions(employee.id)
+      .then((result) => {
+        setRevisions(result ?? []);
+        if (!result) toast.error('Failed to fetch salary revisions');
+      })
+      .finally(() => setLoading(false));
+  }, [open, employee]);
+
+  const handleSave = async () => {
+    if (!employee) return;
+    if (form.grossSalary <= 0) {
+      toast.error('Enter the revised gross salary');
+      return;
+    }
+    if (!form.reason.trim()) {
+      toast.error('Enter the reason for the revision');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const created = await payrollService.createSalaryRevision({ employeeId: employee.id, ...form });
+      if (created) {
+        const arrears = created.arrears.reduce((sum, line) => sum + line.amount, 0);
+        toast.success(
+          arrears > 0
+            ? `Salary revised. Arrears of ${formatAmount(arrears)} will be paid with the next slip`
+            : 'Salary revised'
+        );
+        setRevisions((prev) => [...prev, created].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate)));
+        onRevised();
+      } else {
+        toast.error('Failed to revise salary. Backdated reductions are not allowed on months with slips.');
+      }
+    } catch (error) {
+      toast.error('Failed to revise salary');
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownloadLetter = async (revision: SalaryRevision) => {
+    if (!employee || !settings) return;
+    setDownloadingId(revision.id ?? null);
+    try {
+      const { generateIncrementLetterPDF } = await import('@/components/payroll/IncrementLetterPDF');
+      await generateIncrementLetterPDF(
+        revision,
+        { name: employee.name, employeeCode: employee.employeeId, designation: employee.designation || '' },
+        settings
+      );
+    } catch (error) {
+      toast.error('Failed to generate increment letter');
+      console.error(error);
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-full sm:max-w-2xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">Salary Revisions — {employee?.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading revisions...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No revisions recorded yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-3">Effective</th>
+                    <th className="py-2 pr-3 text-right">From</th>
+                    <th className="py-2 pr-3 text-right">To</th>
+                    <th className="py-2 pr-3">Reason</th>
+                    <th className="py-2 pr-3">Arrears</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...revisions].reverse().map((revision) => {
+                    const arrears = revision.arrears.reduce((sum, line) => sum + line.amount, 0);
+                    return (
+                      <tr key={revision.id} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-white">
+                        <td className="py-2 pr-3 whitespace-nowrap">
+                          {new Date(revision.effectiveDate).toLocaleDateString('en-IN')}
+                        </td>
+                        <td className="py-2 pr-3 text-right">{formatAmount(revision.previousGrossSalary)}</td>
+                        <td className="py-2 pr-3 text-right font-medium">{formatAmount(revision.grossSalary)}</td>
+                        <td className="py-2 pr-3 text-gray-600 dark:text-gray-300">{revision.reason}</td>
+                        <td className="py-2 pr-3 text-xs">
+                          {arrears > 0 ? (
+                            <span title={revision.arrears.map((line) => `${MONTH_NAMES[line.month]} ${line.year}: ${formatAmount(line.amount)}`).join('\n')}>
+                              {formatAmount(arrears)}{' '}
+                              <span className={revision.arrearsPaidIn ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}>
+                                {revision.arrearsPaidIn
+                                  ? `paid ${MONTH_NAMES[revision.arrearsPaidIn.month]} ${revision.arrearsPaidIn.year}`
+                                  : 'pending'}
+                              </span>
+                            </span>
+                          ) : (
+                            '-'
+                          )}
+                        </td>
+                        <td className="py-2 text-right">
+                          {revision.grossSalary > revision.previousGrossSalary && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={!settings}
+                              loading={downloadingId === revision.id}
+                              onClick={() => handleDownloadLetter(revision)}
+                            >
+                              <FileDown className="h-4 w-4 mr-1" />
+                              Letter
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-3">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">New Revision</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="revisionDate">Effective From</Label>
+                <Input
+                  id="revisionDate"
+                  type="date"
+                  value={form.effectiveDate}
+                  onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="revisionGross">Revised Gross (₹/month)</Label>
+                <Input
+                  id="revisionGross"
+                  type="number"
+                  min={0}
+                  value={form.grossSalary}
+                  onChange={(e) => setForm({ ...form, grossSalary: Number(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="revisionReason">Reason</Label>
+              <Input
+                id="revisionReason"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                placeholder="e.g. Annual appraisal 2026"
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              A backdated revision adds arrears for months that already have slips; they are paid with the next slip generated.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              <Button onClick={handleSave} loading={saving} disabled={!form.effectiveDate}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Revision
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,14 +3,47 @@
  * Uses html2canvas to capture the SalarySlipPreview HTML and convert to PDF,
  * ensuring the downloaded PDF looks identical to the on-screen view.
  * The Calculation Breakdown section is excluded from the PDF via the forPDF prop.
+ * exportPreviewToPDF is shared with the other letterhead documents (annual statement).
  */
 
+import type { ReactElement } from 'react';
 import { EmployeeSalary, PayrollSettings, SalarySlipTemplate } from '@/types/payroll.types';
 
 export async function generateSalarySlipPDF(
   slip: EmployeeSalary,
   settings: PayrollSettings,
   template?: SalarySlipTemplate | null
+): Promise<void> {
+  const monthNames = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+  ];
+
+  await exportPreviewToPDF(
+    async (React) => {
+      // Dynamically import the SalarySlipPreview component
+      const { SalarySlipPreview } = await import('@/components/payroll/SalarySlipPreview');
+      // forPDF=true hides the Calculation Breakdown
+      return React.createElement(SalarySlipPreview, {
+        slip,
+        settings,
+        template: template ?? null,
+        forPDF: true,
+      });
+    },
+    '#salary-slip-preview',
+    `SalarySlip_${slip.employeeCode}_${monthNames[slip.month]}_${slip.year}.pdf`
+  );
+}
+
+/**
+ * Render a letterhead preview offscreen, capture the element matching
+ * contentSelector and save it as an A4 PDF, split across pages if needed
+ */
+export async function exportPreviewToPDF(
+  renderPreview: (react: typeof import('react')) => Promise<ReactElement>,
+  contentSelector: string,
+  fileName: string
 ): Promise<void> {
   const [html2canvasModule, jsPDFModule] = await Promise.all([
     import('html2canvas'),
@@ -36,39 +69,31 @@ export async function generateSalarySlipPDF(
   document.body.appendChild(container);
 
   try {
-    // Dynamically import the SalarySlipPreview component
-    const { SalarySlipPreview } = await import('@/components/payroll/SalarySlipPreview');
+    const element = await renderPreview(React);
 
-    // Render the preview offscreen with forPDF=true (hides Calculation Breakdown)
+    // Render the preview offscreen
     const root = ReactDOMClient.createRoot(container);
     await new Promise<void>((resolve) => {
-      root.render(
-        React.createElement(SalarySlipPreview, {
-          slip,
-          settings,
-          template: template ?? null,
-          forPDF: true,
-        })
-      );
+      root.render(element);
       // Wait for rendering to complete
       setTimeout(resolve, 500);
     });
 
-    // Get the rendered slip content
-    const slipContent = container.querySelector('#salary-slip-preview') || container.querySelector('.text-black');
-    if (!slipContent) {
-      throw new Error('Failed to find slip content for PDF capture');
+    // Get the rendered content
+    const content = container.querySelector(contentSelector) || container.querySelector('.text-black');
+    if (!content) {
+      throw new Error('Failed to find preview content for PDF capture');
     }
 
     // Capture the HTML as a canvas
-    const canvas = await html2canvas(slipContent as HTMLElement, {
+    const canvas = await html2canvas(content as HTMLElement, {
       scale: 2,
       useCORS: true,
       allowTaint: true,
       backgroundColor: null,
       logging: false,
-      width: slipContent.scrollWidth,
-      height: slipContent.scrollHeight,
+      width: content.scrollWidth,
+      height: content.scrollHeight,
     });
 
     // Convert canvas to PDF
@@ -118,11 +143,7 @@ export async function generateSalarySlipPDF(
     }
 
     // Save the PDF
-    const monthNames = [
-      'January', 'February', 'March', 'April', 'May', 'June',
-      'July', 'August', 'September', 'October', 'November', 'December'
-    ];
-    pdf.save(`SalarySlip_${slip.employeeCode}_${monthNames[slip.month]}_${slip.year}.pdf`);
+    pdf.save(fileName);
 
     // Clean up
     root.unmount();
@@ -7,7 +7,8 @@
 'use client';
 
 import { useMemo, useState } from 'react';
-import { EmployeeSalary, PayrollSettings, SalarySlipTemplate } from '@/types/payroll.types';
+import { EmployeeSalary, PayrollSettings, SalaryComponentType, SalarySlipTemplate } from '@/types/payroll.types';
+import { getComponentTotal } from '@/lib/salary-components';
 
 interface SalarySlipPreviewProps {
   slip: EmployeeSalary;
@@ -60,6 +61,21 @@ export function SalarySlipPreview({ slip, settings, template, forPDF = false, hi
     return fields.find((f) => f.key === fieldKey)?.label ?? null;
   };
 
+  // Overtime on slips whose template predates the overtime field is listed after the fields
+  const templateHasField = (sectionKey: string, fieldKey: string) =>
+    !!template?.sections.find((s) => s.key === sectionKey)?.fields.some((f) => f.key === fieldKey);
+
+  // Catalogue component lines the template has no field for are listed after its fields
+  const componentAmount = (key: string) =>
+    slip.salaryBreakup.components?.find((line) => line.key === key)?.amount ?? 0;
+
+  const extraComponentLines = (sectionKey: string, type: SalaryComponentType) => {
+    const section = template?.sections.find((s) => s.key === sectionKey);
+    return (slip.salaryBreakup.components ?? []).filter(
+      (line) => line.type === type && !section?.fields.some((f) => f.key === line.key)
+    );
+  };
+
   const earningsFields = getSectionFields('earnings');
   const deductionsFields = getSectionFields('deductions');
   const empFields = getSectionFields('employeeDetails');
@@ -200,6 +216,7 @@ export function SalarySlipPreview({ slip, settings, template, forPDF = false, hi
                   case 'approvedLeave':    value = slip.attendanceBreakdown.approvedLeave; break;
                   case 'unapprovedLeave':  value = slip.attendanceBreakdown.unapprovedLeave; break;
                   case 'halfDay':          value = slip.attendanceBreakdown.halfDay; break;
+                  case 'overtimeHours':    value = slip.attendanceBreakdown.overtimeHours ?? 0; break;
                   default:                 value = '-';
                 }
                 return (
@@ -257,6 +274,12 @@ export function SalarySlipPreview({ slip, settings, template, forPDF = false, hi
                 <span className="text-gray-700">Half Day:</span>
                 <span className="font-semibold ml-2">{slip.attendanceBreakdown.halfDay}</span>
               </div>
+              {(slip.attendanceBreakdown.overtimeHours ?? 0) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-700">Overtime Hours:</span>
+                  <span className="font-semibold ml-2">{slip.attendanceBreakdown.overtimeHours}</span>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -375,7 +398,8 @@ export function SalarySlipPreview({ slip, settings, template, forPDF = false, hi
                         case 'basic':   value = slip.salaryBreakup.basic; break;
                         case 'hra':     value = slip.salaryBreakup.hra; break;
                         case 'special': value = slip.salaryBreakup.special; break;
-                        default:        value = 0;
+                        case 'overtime': value = slip.salaryBreakup.overtime || 0; break;
+                        default:        value = componentAmount(f.key);
                       }
                       return (
                         <div key={f.key} className="flex justify-between">
@@ -401,9 +425,33 @@ export function SalarySlipPreview({ slip, settings, template, forPDF = false, hi
                       </div>
                     </>
                   )}
+                  {extraComponentLines('earnings', 'earning').map((line) => (
+                    <div key={line.key} className="flex justify-between">
+                      <span>{line.name}</span>
+                      <span>{formatCurrency(line.amount)}</span>
+                    </div>
+                  ))}
+                  {(slip.salaryBreakup.overtime || 0) > 0 && !templateHasField('earnings', 'overtime') && (
+                    <div className="flex justify-between">
+                      <span>Overtime</span>
+                      <span>{formatCurrency(slip.salaryBreakup.overtime!)}</span>
+                    </div>
+                  )}
+                  {(slip.salaryBreakup.arrears || 0) > 0 && (
+                    <div className="flex justify-between">
+                      <span>Arrears</span>
+                      <span>{formatCurrency(slip.salaryBreakup.arrears!)}</span>
+                    </div>
+                  )}
+                  {(slip.salaryBreakup.reimbursement || 0) > 0 && (
+                    <div className="flex justify-between">
+                      <span>Reimbursements</span>
+                      <span>{formatCurrency(slip.salaryBreakup.reimbursement!)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between font-bold border-t border-gray-400 pt-2 mt-2">
                     <span>Total Earnings</span>
-                    <span>{formatCurrency(slip.salaryBreakup.basic + slip.salaryBreakup.hra + slip.salaryBreakup.special)}</span>
+                    <span>{formatCurrency(slip.salaryBreakup.basic + slip.salaryBreakup.hra + slip.salaryBreakup.special + (slip.salaryBreakup.overtime || 0) + (slip.salaryBreakup.arrears || 0) + (slip.salaryBreakup.reimbursement || 0) + getComponentTotal(slip.salaryBreakup, 'earning'))}</span>
                   </div>
                 </div>
               </div>
@@ -427,7 +475,7 @@ export function SalarySlipPreview({ slip, settings, template, forPDF = false, hi
                         case 'loanRecovery':    value = slip.salaryBreakup?.loanRecovery ?? 0; break;
                         case 'otherDeduction':  value = slip.salaryBreakup?.otherDeduction ?? 0; break;
                         case 'leaveDeduction':  value = slip.salaryBreakup?.leaveDeduction ?? calcData.leaveDeduction ?? 0; break;
-                        default:                value = 0;
+                        default:                value = componentAmount(f.key);
                       }
                       return (
                         <div key={f.key} className="flex justify-between">
@@ -465,6 +513,12 @@ export function SalarySlipPreview({ slip, settings, template, forPDF = false, hi
                       </div>
                     </>
                   )}
+                  {extraComponentLines('deductions', 'deduction').map((line) => (
+                    <div key={line.key} className="flex justify-between">
+                      <span>{line.name}</span>
+                      <span>{formatCurrency(line.amount)}</span>
+                    </div>
+                  ))}
                   <div className="flex justify-between font-bold border-t border-gray-400 pt-2 mt-2">
                     <span>Total Deductions</span>
                     <span>{formatCurrency(slip.salaryBreakup.totalDeductions)}</span>
@@ -0,0 +1,166 @@
+/**
+ * StatutoryReturnsDialog
+ * Validates a locked month's EPF and ESI contributions and downloads the
+ * EPFO ECR file and ESIC monthly contribution sheet
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { payrollService } from '@/services/payroll.service';
+import { StatutoryReturnsSummary, StatutoryReturnTotals, StatutoryReturnType } from '@/types/payroll.types';
+import { STATUTORY_RETURN_FILES } from '@/lib/statutory-returns';
+import { AlertTriangle, Download } from 'lucide-react';
+
+interface StatutoryReturnsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  month: number;
+  year: number;
+  periodLabel: string;
+}
+
+function formatAmount(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+}
+
+export function StatutoryReturnsDialog({ open, onOpenChange, month, year, periodLabel }: StatutoryReturnsDialogProps) {
+  const [summary, setSummary] = useState<StatutoryReturnsSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState<StatutoryReturnType | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState<Record<StatutoryReturnType, boolean>>({ 'pf-ecr': false, esi: false });
+
+  useEffect(() => {
+    if (!open) return;
+    setSkipInvalid({ 'pf-ecr': false, esi: false });
+    setLoading(true);
+    payrollService
+      .getStatutoryReturnsSummary(month, year)
+      .then((result) => {
+        setSummary(result);
+        if (!result) toast.error('Failed to check statutory returns');
+      })
+      .finally(() => setLoading(false));
+  }, [open, month, year]);
+
+  const handleDownload = async (type: StatutoryReturnType) => {
+    setDownloading(type);
+    try {
+      const file = await payrollService.downloadStatutoryReturn({ month, year, type, skipInvalid: skipInvalid[type] });
+      if (!file) {
+        toast.error(`Failed to generate ${STATUTORY_RETURN_FILES[type].label} file`);
+        return;
+      }
+
+      const url = window.URL.createObjectURL(file.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      toast.success(`${STATUTORY_RETURN_FILES[type].label} file downloaded`);
+    } catch (error) {
+      toast.error(`Failed to generate ${STATUTORY_RETURN_FILES[type].label} file`);
+      console.error(error);
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const renderReturn = (type: StatutoryReturnType, totals: StatutoryReturnTotals, idLabel: string) => {
+    const canDownload = totals.memberCount > 0 && (totals.issues.length === 0 || skipInvalid[type]);
+
+    return (
+      <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold text-gray-900 dark:text-white">{STATUTORY_RETURN_FILES[type].label}</p>
+          <Button
+            size="sm"
+            loading={downloading === type}
+            disabled={!canDownload || downloading !== null}
+            onClick={() => handleDownload(type)}
+          >
+            <Download className="h-4 w-4 mr-1" />
+            .{STATUTORY_RETURN_FILES[type].extension}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-700">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Members</p>
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">{totals.memberCount}</p>
+          </div>
+          <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-700">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Wages</p>
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">{formatAmount(totals.wages)}</p>
+          </div>
+          <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-700">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Employee</p>
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">{formatAmount(totals.employeeContribution)}</p>
+          </div>
+          <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-700">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Employer</p>
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">{formatAmount(totals.employerContribution)}</p>
+          </div>
+        </div>
+
+        {totals.issues.length > 0 && (
+          <div className="rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-3 space-y-2">
+            <p className="text-sm font-medium text-amber-800 dark:text-amber-300 flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              {totals.issues.length} employee(s) cannot be included
+            </p>
+            <ul className="text-xs text-amber-800 dark:text-amber-300 space-y-1">
+              {totals.issues.map((issue) => (
+                <li key={issue.employeeId}>
+                  <span className="font-medium">{issue.name}</span> ({issue.employeeCode}): {issue.issue}
+                </li>
+              ))}
+            </ul>
+            <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={skipInvalid[type]}
+                onChange={(e) => setSkipInvalid((prev) => ({ ...prev, [type]: e.target.checked }))}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Leave them out and add them on the portal once their {idLabel} is on file
+            </label>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-full sm:max-w-xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">Statutory Returns — {periodLabel}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Checking contributions...</p>
+        ) : summary ? (
+          <div className="space-y-4">
+            {renderReturn('pf-ecr', summary.pf, 'UAN')}
+            {renderReturn('esi', summary.esi, 'IP number')}
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Statutory returns could not be loaded.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
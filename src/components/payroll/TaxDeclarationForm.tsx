@@ -0,0 +1,329 @@
+/**
+ * TaxDeclarationForm
+ * Self-service income tax declaration for a financial year: regime choice,
+ * 80C / 80D investments and HRA rent receipts
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { payrollService } from '@/services/payroll.service';
+import { RentReceipt, TaxDeclarationWindow, TaxRegime } from '@/types/payroll.types';
+import { formatFinancialYear, SECTION_80C_LIMIT, SECTION_80D_LIMIT } from '@/lib/tds';
+import { Lock, Plus, Trash2 } from 'lucide-react';
+
+interface TaxDeclarationFormProps {
+  financialYear: number;
+  onSaved?: () => void;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Financial year months in order, April to March
+function getFinancialYearMonths(financialYear: number): { month: number; year: number }[] {
+  return Array.from({ length: 12 }, (_, i) => {
+    const month = (i + 3) % 12;
+    return { month, year: month >= 3 ? financialYear : financialYear + 1 };
+  });
+}
+
+export function TaxDeclarationForm({ financialYear, onSaved }: TaxDeclarationFormProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [declarationWindow, setDeclarationWindow] = useState<TaxDeclarationWindow | null>(null);
+  const [regime, setRegime] = useState<TaxRegime>('new');
+  const [section80C, setSection80C] = useState(0);
+  const [section80D, setSection80D] = useState(0);
+  const [metroCity, setMetroCity] = useState(false);
+  const [rentReceipts, setRentReceipts] = useState<RentReceipt[]>([]);
+  const [submitted, setSubmitted] = useState(false);
+
+  const fyMonths = getFinancialYearMonths(financialYear);
+  const locked = declarationWindow?.locked ?? false;
+
+  useEffect(() => {
+    fetchDeclaration();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [financialYear]);
+
+  const fetchDeclaration = async () => {
+    setLoading(true);
+    try {
+      const data = await payrollService.getTaxDeclarations(financialYear);
+      const declaration = data?.declarations[0];
+      setDeclarationWindow(data?.window ?? null);
+      setRegime(declaration?.regime ?? 'new');
+      setSection80C(declaration?.section80C ?? 0);
+      setSection80D(declaration?.section80D ?? 0);
+      setMetroCity(declaration?.metroCity ?? false);
+      setRentReceipts(declaration?.rentReceipts ?? []);
+      setSubmitted(!!declaration);
+    } catch (error) {
+      console.error('[TaxDeclarationForm] Failed to fetch declaration:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addRentReceipt = () => {
+    const used = new Set(rentReceipts.map((r) => `${r.month}-${r.year}`));
+    const next = fyMonths.find((m) => !used.has(`${m.month}-${m.year}`));
+    if (!next) return;
+    const previous = rentReceipts[rentReceipts.length - 1];
+    setRentReceipts([
+      ...rentReceipts,
+      {
+        ...next,
+        amount: previous?.amount ?? 0,
+        landlordName: previous?.landlordName ?? '',
+        landlordPan: previous?.landlordPan ?? null,
+      },
+    ]);
+  };
+
+  const updateRentReceipt = (index: number, changes: Partial<RentReceipt>) => {
+    setRentReceipts((prev) => prev.map((receipt, i) => (i === index ? { ...receipt, ...changes } : receipt)));
+  };
+
+  const removeRentReceipt = (index: number) => {
+    setRentReceipts((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    const invalidPan = rentReceipts.find(
+      (r) => r.landlordPan && !/^[A-Z]{5}[0-9]{4}[A-Z]{1}$/.test(r.landlordPan)
+    );
+    if (invalidPan) {
+      toast.error('Invalid landlord PAN format (ABCDE1234F)');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await payrollService.saveTaxDeclaration({
+        financialYear,
+        regime,
+        section80C,
+        section80D,
+        metroCity,
+        rentReceipts: rentReceipts.map((r) => ({ ...r, landlordPan: r.landlordPan || null })),
+      });
+      if (saved) {
+        toast.success('Tax declaration saved');
+        setSubmitted(true);
+        onSaved?.();
+      } else {
+        toast.error('Failed to save tax declaration');
+      }
+    } catch (error) {
+      toast.error('Failed to save tax declaration');
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-4 text-center text-gray-500">Loading...</div>;
+  }
+
+  const totalRent = rentReceipts.reduce((sum, r) => sum + (r.amount || 0), 0);
+
+  return (
+    <div className="space-y-5">
+      {locked ? (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-gray-100 dark:bg-gray-700 text-sm text-gray-700 dark:text-gray-300">
+          <Lock className="h-4 w-4" />
+          Declarations for FY {formatFinancialYear(financialYear)} are locked. Contact your administrator for changes.
+        </div>
+      ) : declarationWindow?.proofDeadline ? (
+        <p className="text-sm text-amber-700 dark:text-amber-400">
+          Submit proofs by {new Date(`${declarationWindow.proofDeadline}T00:00:00`).toLocaleDateString('en-IN')}.
+          Declarations will be locked after this date.
+        </p>
+      ) : null}
+
+      {/* Regime */}
+      <div>
+        <Label>Tax Regime</Label>
+        <div className="flex gap-4 mt-1">
+          {(['new', 'old'] as const).map((option) => (
+            <label key={option} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+              <input
+                type="radio"
+                name="regime"
+                value={option}
+                checked={regime === option}
+                onChange={() => setRegime(option)}
+                disabled={locked}
+                className="h-4 w-4 border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              {option === 'new' ? 'New regime' : 'Old regime'}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Deductions below only reduce tax under the old regime.
+        </p>
+      </div>
+
+      {/* Investments */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="section80C">Section 80C (₹)</Label>
+          <Input
+            id="section80C"
+            type="number"
+            min={0}
+            value={section80C}
+            onChange={(e) => setSection80C(Number(e.target.value) || 0)}
+            disabled={locked}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            PPF, ELSS, life insurance, etc. EPF is added automatically. Limit ₹{SECTION_80C_LIMIT.toLocaleString('en-IN')}.
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="section80D">Section 80D (₹)</Label>
+          <Input
+            id="section80D"
+            type="number"
+            min={0}
+            value={section80D}
+            onChange={(e) => setSection80D(Number(e.target.value) || 0)}
+            disabled={locked}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Health insurance premiums. Limit ₹{SECTION_80D_LIMIT.toLocaleString('en-IN')}.
+          </p>
+        </div>
+      </div>
+
+      {/* Rent Receipts */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>HRA Rent Receipts</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addRentReceipt}
+            disabled={locked || rentReceipts.length >= 12}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Month
+          </Button>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={metroCity}
+            onChange={(e) => setMetroCity(e.target.checked)}
+            disabled={locked}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          I live in a metro city (Delhi, Mumbai, Kolkata, Chennai)
+        </label>
+
+        {rentReceipts.length > 0 && (
+          <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Month</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Rent (₹)</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Landlord</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Landlord PAN</th>
+                  <th className="px-3 py-2 w-10" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                {rentReceipts.map((receipt, index) => (
+                  <tr key={index}>
+                    <td className="px-3 py-2">
+                      <select
+                        value={`${receipt.month}-${receipt.year}`}
+                        onChange={(e) => {
+                          const [month, year] = e.target.value.split('-').map(Number);
+                          updateRentReceipt(index, { month, year });
+                        }}
+                        disabled={locked}
+                        className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-sm"
+                      >
+                        {fyMonths.map((m) => (
+                          <option key={`${m.month}-${m.year}`} value={`${m.month}-${m.year}`}>
+                            {MONTH_NAMES[m.month]} {m.year}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min={0}
+                        value={receipt.amount}
+                        onChange={(e) => updateRentReceipt(index, { amount: Number(e.target.value) || 0 })}
+                        disabled={locked}
+                        className="w-28 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-sm"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={receipt.landlordName ?? ''}
+                        onChange={(e) => updateRentReceipt(index, { landlordName: e.target.value })}
+                        disabled={locked}
+                        className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-sm"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={receipt.landlordPan ?? ''}
+                        onChange={(e) => updateRentReceipt(index, { landlordPan: e.target.value.toUpperCase() })}
+                        placeholder="ABCDE1234F"
+                        maxLength={10}
+                        disabled={locked}
+                        className="w-32 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-sm uppercase"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <button
+                        type="button"
+                        onClick={() => removeRentReceipt(index)}
+                        disabled={locked}
+                        className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                        title="Remove"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {totalRent > 100000 && rentReceipts.some((r) => !r.landlordPan) && (
+          <p className="text-xs text-amber-700 dark:text-amber-400">
+            Landlord PAN is required when annual rent exceeds ₹1,00,000.
+          </p>
+        )}
+      </div>
+
+      {!locked && (
+        <Button onClick={handleSave} loading={saving}>
+          {saving ? 'Saving...' : submitted ? 'Update Declaration' : 'Submit Declaration'}
+        </Button>
+      )}
+    </div>
+  );
+}
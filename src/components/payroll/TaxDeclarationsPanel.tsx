@@ -0,0 +1,283 @@
+/**
+ * TaxDeclarationsPanel
+ * Admin view of employee tax declarations for a financial year, with the
+ * proof submission deadline, declaration lock, per-employee TDS worksheet and
+ * annual statement, and the Form 16 Part B export
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { TdsWorksheet } from '@/components/payroll/TdsWorksheet';
+import { generateAnnualStatementPDF } from '@/components/payroll/AnnualStatementPDF';
+import { payrollService } from '@/services/payroll.service';
+import { TaxDeclaration, TaxDeclarationWindow, TdsProjection } from '@/types/payroll.types';
+import { formatFinancialYear, getFinancialYear } from '@/lib/tds';
+import { Download, Lock, Unlock } from 'lucide-react';
+
+interface TaxDeclarationsPanelProps {
+  employees: { id: string; employeeId: string; name: string }[];
+}
+
+function formatAmount(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+}
+
+export function TaxDeclarationsPanel({ employees }: TaxDeclarationsPanelProps) {
+  const currentFinancialYear = getFinancialYear(new Date().getMonth(), new Date().getFullYear());
+  const [financialYear, setFinancialYear] = useState(currentFinancialYear);
+  const [declarations, setDeclarations] = useState<TaxDeclaration[]>([]);
+  const [declarationWindow, setDeclarationWindow] = useState<TaxDeclarationWindow>({ proofDeadline: null, locked: false });
+  const [proofDeadline, setProofDeadline] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [savingWindow, setSavingWindow] = useState(false);
+  const [worksheetEmployee, setWorksheetEmployee] = useState<{ id: string; name: string } | null>(null);
+  const [projection, setProjection] = useState<TdsProjection | null>(null);
+  const [projectionLoading, setProjectionLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [statementEmployeeId, setStatementEmployeeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDeclarations();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [financialYear]);
+
+  const fetchDeclarations = async () => {
+    setLoading(true);
+    try {
+      const data = await payrollService.getTaxDeclarations(financialYear, { all: true });
+      if (data) {
+        setDeclarations(data.declarations);
+        setDeclarationWindow(data.window);
+        setProofDeadline(data.window.proofDeadline ?? '');
+      } else {
+        toast.error('Failed to fetch tax declarations');
+      }
+    } catch (error) {
+      toast.error('Failed to fetch tax declarations');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveWindow = async (locked: boolean) => {
+    setSavingWindow(true);
+    try {
+      const saved = await payrollService.setTaxDeclarationWindow(financialYear, proofDeadline || null, locked);
+      if (saved) {
+        setDeclarationWindow(saved);
+        toast.success(locked ? 'Declarations locked' : declarationWindow.locked ? 'Declarations unlocked' : 'Proof deadline saved');
+      } else {
+        toast.error('Failed to update declaration window');
+      }
+    } catch (error) {
+      toast.error('Failed to update declaration window');
+      console.error(error);
+    } finally {
+      setSavingWindow(false);
+    }
+  };
+
+  const openWorksheet = async (employee: { id: string; name: string }) => {
+    setWorksheetEmployee(employee);
+    setProjection(null);
+    setProjectionLoading(true);
+    try {
+      setProjection(await payrollService.getTdsProjection(financialYear, employee.id));
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setProjectionLoading(false);
+    }
+  };
+
+  const exportForm16 = async () => {
+    setExporting(true);
+    try {
+      const file = await payrollService.downloadForm16PartB(financialYear);
+      if (!file) {
+        toast.error('Failed to export Form 16 data');
+        return;
+      }
+      const url = window.URL.createObjectURL(file.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Failed to export Form 16 data');
+      console.error(error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const downloadStatement = async (employee: { id: string; name: string }) => {
+    setStatementEmployeeId(employee.id);
+    try {
+      const [statement, settings] = await Promise.all([
+        payrollService.getAnnualStatement(financialYear, employee.id),
+        payrollService.getSettings(),
+      ]);
+      if (!settings) {
+        toast.error('Payroll settings not configured');
+      } else if (!statement) {
+        toast.error(`${employee.name} has no salary slips in FY ${formatFinancialYear(financialYear)}`);
+      } else {
+        await generateAnnualStatementPDF(statement, settings);
+      }
+    } catch (error) {
+      toast.error('Failed to generate annual statement');
+      console.error(error);
+    } finally {
+      setStatementEmployeeId(null);
+    }
+  };
+
+  // Locking is only allowed once the deadline day has passed (enforced by the API too)
+  const deadlinePassed = !!proofDeadline && new Date() > new Date(`${proofDeadline}T23:59:59`);
+  const declarationsByEmployee = new Map(declarations.map((d) => [d.employeeId, d]));
+
+  return (
+    <div className="space-y-6">
+      {/* Financial Year & Window */}
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Financial Year</label>
+          <select
+            value={financialYear}
+            onChange={(e) => setFinancialYear(parseInt(e.target.value, 10))}
+            className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+          >
+            {[currentFinancialYear + 1, currentFinancialYear, currentFinancialYear - 1, currentFinancialYear - 2].map((fy) => (
+              <option key={fy} value={fy}>FY {formatFinancialYear(fy)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Proof Submission Deadline</label>
+          <input
+            type="date"
+            value={proofDeadline}
+            onChange={(e) => setProofDeadline(e.target.value)}
+            disabled={declarationWindow.locked}
+            className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+          />
+        </div>
+        {!declarationWindow.locked && (
+          <Button
+            variant="outline"
+            onClick={() => saveWindow(false)}
+            loading={savingWindow}
+            disabled={proofDeadline === (declarationWindow.proofDeadline ?? '')}
+          >
+            Save Deadline
+          </Button>
+        )}
+        {declarationWindow.locked ? (
+          <Button variant="outline" onClick={() => saveWindow(false)} loading={savingWindow}>
+            <Unlock className="h-4 w-4 mr-1" />
+            Unlock Declarations
+          </Button>
+        ) : (
+          <Button
+            onClick={() => saveWindow(true)}
+            loading={savingWindow}
+            disabled={!deadlinePassed}
+            title={deadlinePassed ? undefined : 'Available after the proof submission deadline'}
+          >
+            <Lock className="h-4 w-4 mr-1" />
+            Lock Declarations
+          </Button>
+        )}
+        <Button variant="outline" className="ml-auto" onClick={exportForm16} loading={exporting}>
+          <Download className="h-4 w-4 mr-1" />
+          Form 16 Part B (CSV)
+        </Button>
+      </div>
+
+      {declarationWindow.locked && (
+        <p className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          Declarations are locked. Employees can no longer edit them.
+        </p>
+      )}
+
+      {/* Declarations Table */}
+      {loading ? (
+        <div className="p-8 text-center text-gray-500">Loading...</div>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Employee</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Regime</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">80C</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">80D</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Rent</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              {employees.map((employee) => {
+                const declaration = declarationsByEmployee.get(employee.id);
+                const rent = declaration?.rentReceipts.reduce((sum, r) => sum + r.amount, 0) ?? 0;
+                return (
+                  <tr key={employee.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-3 py-2">
+                      <p className="font-medium text-gray-900 dark:text-white">{employee.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{employee.employeeId}</p>
+                    </td>
+                    {declaration ? (
+                      <>
+                        <td className="px-3 py-2 text-gray-900 dark:text-white">{declaration.regime === 'old' ? 'Old' : 'New'}</td>
+                        <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatAmount(declaration.section80C)}</td>
+                        <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatAmount(declaration.section80D)}</td>
+                        <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatAmount(rent)}</td>
+                      </>
+                    ) : (
+                      <td colSpan={4} className="px-3 py-2 text-gray-500 dark:text-gray-400">
+                        Not submitted (new regime applies)
+                      </td>
+                    )}
+                    <td className="px-3 py-2 text-right space-x-2 whitespace-nowrap">
+                      <Button variant="outline" size="sm" onClick={() => openWorksheet(employee)}>
+                        Worksheet
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        loading={statementEmployeeId === employee.id}
+                        onClick={() => downloadStatement(employee)}
+                      >
+                        Statement
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Worksheet Dialog */}
+      <Dialog open={!!worksheetEmployee} onOpenChange={() => setWorksheetEmployee(null)}>
+        <DialogContent className="max-w-full sm:max-w-lg max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">TDS Worksheet — {worksheetEmployee?.name}</DialogTitle>
+          </DialogHeader>
+          <TdsWorksheet projection={projection} loading={projectionLoading} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
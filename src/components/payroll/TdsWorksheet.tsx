@@ -0,0 +1,89 @@
+/**
+ * TdsWorksheet
+ * Line-by-line income tax projection for a financial year
+ */
+
+'use client';
+
+import { TdsProjection } from '@/types/payroll.types';
+import { formatFinancialYear } from '@/lib/tds';
+
+interface TdsWorksheetProps {
+  projection: TdsProjection | null;
+  loading?: boolean;
+}
+
+function formatAmount(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+}
+
+export function TdsWorksheet({ projection, loading }: TdsWorksheetProps) {
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!projection) {
+    return (
+      <p className="p-4 text-sm text-center text-gray-500 dark:text-gray-400">
+        The projection appears once a salary slip has been generated for this financial year.
+      </p>
+    );
+  }
+
+  const isOld = projection.regime === 'old';
+  const lines: { label: string; value: number; sign?: '+' | '−'; bold?: boolean; hidden?: boolean }[] = [
+    { label: `Salary paid (${projection.monthsPaid} month${projection.monthsPaid === 1 ? '' : 's'})`, value: projection.actualGross },
+    { label: `Projected salary (${projection.monthsRemaining} month${projection.monthsRemaining === 1 ? '' : 's'})`, value: projection.projectedGross, sign: '+' },
+    { label: 'Annual gross salary', value: projection.annualGross, bold: true },
+    { label: 'Standard deduction', value: projection.standardDeduction, sign: '−' },
+    { label: 'HRA exemption', value: projection.hraExemption, sign: '−', hidden: !isOld },
+    { label: 'Section 80C (incl. EPF)', value: projection.section80C, sign: '−', hidden: !isOld },
+    { label: 'Section 80D', value: projection.section80D, sign: '−', hidden: !isOld },
+    { label: 'Professional tax', value: projection.professionalTax, sign: '−', hidden: !isOld },
+    { label: 'Taxable income', value: projection.taxableIncome, bold: true },
+    { label: 'Tax on income', value: projection.taxOnIncome },
+    { label: 'Rebate u/s 87A', value: projection.rebate, sign: '−', hidden: projection.rebate === 0 },
+    { label: 'Surcharge', value: projection.surcharge, sign: '+', hidden: projection.surcharge === 0 },
+    { label: 'Health & education cess', value: projection.cess, sign: '+' },
+    { label: 'Annual tax', value: projection.annualTax, bold: true },
+    { label: 'TDS already deducted', value: projection.taxDeducted, sign: '−' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          FY {formatFinancialYear(projection.financialYear)} · {isOld ? 'Old' : 'New'} regime
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {isOld ? 'New' : 'Old'} regime would be {formatAmount(projection.otherRegimeTax)} for the year
+        </p>
+      </div>
+
+      <table className="w-full text-sm">
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+          {lines.filter((line) => !line.hidden).map((line) => (
+            <tr key={line.label}>
+              <td className={`py-1.5 text-gray-700 dark:text-gray-300 ${line.bold ? 'font-semibold' : ''}`}>
+                {line.label}
+              </td>
+              <td className={`py-1.5 text-right text-gray-900 dark:text-white ${line.bold ? 'font-semibold' : ''}`}>
+                {line.sign && <span className="text-gray-400 mr-1">{line.sign}</span>}
+                {formatAmount(line.value)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex items-center justify-between p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800">
+        <span className="text-sm font-medium text-blue-900 dark:text-blue-200">Monthly TDS for remaining months</span>
+        <span className="text-lg font-semibold text-blue-900 dark:text-blue-100">{formatAmount(projection.monthlyTds)}</span>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,9 @@
  *   - Edit a template (rename, toggle sections/fields, rename field labels)
  *   - Delete a template
  *   - View a preview of the template
+ *
+ * Catalogue salary components are offered as earnings/deductions fields, so
+ * new allowances can be labelled or hidden like the built-in ones.
  */
 
 'use client';
@@ -21,6 +24,7 @@ import { Textarea } from '@/components/ui/textarea';
 import * as Dialog from '@radix-ui/react-dialog';
 import { payrollService } from '@/services/payroll.service';
 import {
+  SalaryComponent,
   SalarySlipTemplate,
   SalarySlipTemplateSection,
   SalarySlipTemplateField,
@@ -61,8 +65,38 @@ const emptyDraft = (): DraftTemplate => ({
   footerNote: '',
 });
 
+/**
+ * Add a field for every active catalogue component the template does not list
+ * yet, and for built-in fields added to the default layout after it was saved
+ */
+const withComponentFields = (
+  sections: SalarySlipTemplateSection[],
+  components: SalaryComponent[]
+): SalarySlipTemplateSection[] =>
+  sections.map((section) => {
+    const builtIn = (DEFAULT_SALARY_SLIP_TEMPLATE.sections.find((s) => s.key === section.key)?.fields ?? []).filter(
+      (field) => !section.fields.some((f) => f.key === field.key)
+    );
+    const type = section.key === 'earnings' ? 'earning' : section.key === 'deductions' ? 'deduction' : null;
+    const missing = type
+      ? components.filter(
+          (component) => component.active && component.type === type && !section.fields.some((f) => f.key === component.key)
+        )
+      : [];
+    if (builtIn.length === 0 && missing.length === 0) return section;
+    return {
+      ...section,
+      fields: [
+        ...section.fields,
+        ...builtIn.map((field) => ({ ...field })),
+        ...missing.map((component) => ({ key: component.key, label: component.name, visible: true })),
+      ],
+    };
+  });
+
 export function TemplateManager() {
   const [templates, setTemplates] = useState<SalarySlipTemplate[]>([]);
+  const [components, setComponents] = useState<SalaryComponent[]>([]);
   const [loading, setLoading] = useState(true);
 
   const [editorOpen, setEditorOpen] = useState(false);
@@ -80,8 +114,12 @@ export function TemplateManager() {
   const fetchTemplates = async () => {
     setLoading(true);
     try {
-      const list = await payrollService.getTemplates();
+      const [list, catalogue] = await Promise.all([
+        payrollService.getTemplates(),
+        payrollService.getSalaryComponents(),
+      ]);
       setTemplates(list);
+      setComponents(catalogue ?? []);
     } catch (err) {
       console.error(err);
       toast.error('Failed to load salary slip templates');
@@ -94,19 +132,22 @@ export function TemplateManager() {
 
   const openCreate = () => {
     setEditingId(null);
-    setDraft(emptyDraft());
+    const draft = emptyDraft();
+    setDraft({ ...draft, sections: withComponentFields(draft.sections, components) });
     setEditorOpen(true);
   };
 
   const openEdit = (tpl: SalarySlipTemplate) => {
     setEditingId(tpl.id ?? null);
-    setDraft(toDraft(tpl));
+    const draft = toDraft(tpl);
+    setDraft({ ...draft, sections: withComponentFields(draft.sections, components) });
     setEditorOpen(true);
   };
 
   const openDuplicate = (tpl: SalarySlipTemplate) => {
     setEditingId(null);
-    setDraft({ ...toDraft(tpl), title: `${tpl.title} (Copy)` });
+    const draft = toDraft(tpl);
+    setDraft({ ...draft, title: `${tpl.title} (Copy)`, sections: withComponentFields(draft.sections, components) });
     setEditorOpen(true);
   };
 
@@ -479,7 +520,12 @@ export function TemplateManager() {
                 </Dialog.Close>
               </div>
               <div className="p-6">
-                {previewTemplate && <TemplatePreview template={previewTemplate} />}
+                {previewTemplate && (
+                  <TemplatePreview
+                    template={{ ...previewTemplate, sections: withComponentFields(previewTemplate.sections, components) }}
+                    components={components}
+                  />
+                )}
               </div>
             </div>
           </Dialog.Content>
@@ -493,7 +539,7 @@ export function TemplateManager() {
 // Renders a mini salary slip honouring the template's visibility/labels.
 // Uses mock data so admins can see the layout before any slips exist.
 
-function TemplatePreview({ template }: { template: SalarySlipTemplate }) {
+function TemplatePreview({ template, components }: { template: SalarySlipTemplate; components: SalaryComponent[] }) {
   const visibleField = (sectionKey: string, fieldKey: string) => {
     const section = template.sections.find((s) => s.key === sectionKey);
     if (!section || !section.visible) return null;
@@ -521,17 +567,28 @@ function TemplatePreview({ template }: { template: SalarySlipTemplate }) {
     approvedLeave: 0,
     unapprovedLeave: 0,
     halfDay: 0,
+    overtimeHours: 6,
     basic: 40000,
     hra: 20000,
     special: 40000,
+    overtime: 2500,
     epf: 0,
     esi: 0,
     professionalTax: 0,
     tds: 0,
     loanRecovery: 0,
     otherDeduction: 0,
+    // Catalogue components: their fixed amount, or a sample figure
+    ...Object.fromEntries(
+      components.map((component) => [component.key, component.calculation === 'fixed' ? component.amount ?? 0 : 1000])
+    ),
   };
 
+  const componentTotal = (type: SalaryComponent['type']) =>
+    components
+      .filter((component) => component.active && component.type === type)
+      .reduce((sum, component) => sum + ((mock as any)[component.key] ?? 0), 0);
+
   const fmt = (n: number) =>
     new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -663,7 +720,10 @@ function TemplatePreview({ template }: { template: SalarySlipTemplate }) {
           {fmt(
             (mock.basic ?? 0) +
               (mock.hra ?? 0) +
-              (mock.special ?? 0) -
+              (mock.special ?? 0) +
+              (mock.overtime ?? 0) +
+              componentTotal('earning') -
+              componentTotal('deduction') -
               (mock.epf ?? 0) -
               (mock.esi ?? 0) -
               (mock.professionalTax ?? 0) -
@@ -0,0 +1,279 @@
+/**
+ * FnfSettlementDialog
+ * Compute, review and settle the full and final settlement for a relieving
+ * letter. The letter can only be released to the employee once it is settled.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { relievingLetterService } from '@/services/relieving-letter.service';
+import { RelievingLetter } from '@/types/relieving-letter.types';
+import { FnfSettlement } from '@/types/payroll.types';
+import { FnfStatementPreview } from '@/components/relieving-letter/FnfStatementPreview';
+import { Calculator, CheckCircle, FileDown } from 'lucide-react';
+
+interface FnfSettlementDialogProps {
+  letter: RelievingLetter | null;
+  onClose: () => void;
+  canEdit: boolean;
+  onSettled: () => void;
+}
+
+interface FnfForm {
+  noticePeriodDays: number;
+  noticeDaysServed: number;
+  // Blank leaves the balance to be estimated from payroll
+  leaveBalanceDays: string;
+  otherEarnings: number;
+  otherDeductions: number;
+  remarks: string;
+}
+
+function formFromSettlement(settlement: FnfSettlement | null): FnfForm {
+  return {
+    noticePeriodDays: settlement?.noticePeriodDays ?? 30,
+    noticeDaysServed: settlement?.noticeDaysServed ?? 30,
+    leaveBalanceDays: settlement ? String(settlement.leaveBalanceDays) : '',
+    otherEarnings: settlement?.otherEarnings ?? 0,
+    otherDeductions: settlement?.otherDeductions ?? 0,
+    remarks: settlement?.remarks ?? '',
+  };
+}
+
+export function FnfSettlementDialog({ letter, onClose, canEdit, onSettled }: FnfSettlementDialogProps) {
+  const [settlement, setSettlement] = useState<FnfSettlement | null>(null);
+  const [form, setForm] = useState<FnfForm>(() => formFromSettlement(null));
+  const [loading, setLoading] = useState(false);
+  const [computing, setComputing] = useState(false);
+  const [settling, setSettling] = useState(false);
+  const [confirmSettle, setConfirmSettle] = useState(false);
+  const [downloadingPdf, setDownloadingPdf] = useState(false);
+
+  useEffect(() => {
+    if (!letter?.id) return;
+    setSettlement(null);
+    setConfirmSettle(false);
+    setLoading(true);
+    relievingLetterService
+      .getFnfSettlement(letter.id)
+      .then((result) => {
+        setSettlement(result);
+        setForm(formFromSettlement(result));
+      })
+      .finally(() => setLoading(false));
+  }, [letter]);
+
+  const isSettled = settlement?.status === 'settled';
+
+  const handleCompute = async () => {
+    if (!letter?.id) return;
+    if (form.noticeDaysServed > form.noticePeriodDays) {
+      toast.error('Days served cannot exceed the notice period');
+      return;
+    }
+
+    setComputing(true);
+    try {
+      const result = await relievingLetterService.computeFnfSettlement(letter.id, {
+        noticePeriodDays: form.noticePeriodDays,
+        noticeDaysServed: form.noticeDaysServed,
+        leaveBalanceDays: form.leaveBalanceDays === '' ? undefined : Number(form.leaveBalanceDays),
+        otherEarnings: form.otherEarnings,
+        otherDeductions: form.otherDeductions,
+        remarks: form.remarks.trim() || undefined,
+      });
+      if (result) {
+        setSettlement(result);
+        setForm(formFromSettlement(result));
+        setConfirmSettle(false);
+        toast.success('Settlement computed');
+      } else {
+        toast.error('Failed to compute settlement. Check the employee has a salary configured.');
+      }
+    } catch (error) {
+      toast.error('Failed to compute settlement');
+      console.error(error);
+    } finally {
+      setComputing(false);
+    }
+  };
+
+  const handleSettle = async () => {
+    if (!letter?.id) return;
+    setSettling(true);
+    try {
+      const result = await relievingLetterService.settleFnfSettlement(letter.id);
+      if (result) {
+        setSettlement(result);
+        toast.success('Settlement marked settled. The relieving letter can now be released.');
+        onSettled();
+      } else {
+        toast.error('Failed to settle. Loan balances may have changed — recompute and try again.');
+      }
+    } catch (error) {
+      toast.error('Failed to settle');
+      console.error(error);
+    } finally {
+      setSettling(false);
+      setConfirmSettle(false);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!settlement) return;
+    setDownloadingPdf(true);
+    try {
+      const { generateFnfStatementPDF } = await import('@/components/relieving-letter/FnfStatementPDF');
+      await generateFnfStatementPDF(settlement);
+      toast.success('PDF downloaded successfully');
+    } catch (error) {
+      toast.error('Failed to generate PDF');
+      console.error(error);
+    } finally {
+      setDownloadingPdf(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!letter} onOpenChange={() => onClose()}>
+      <DialogContent className="max-w-full sm:max-w-4xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">
+            Full &amp; Final Settlement — {letter?.employeeName}
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading settlement...</p>
+        ) : (
+          <div className="space-y-4">
+            {canEdit && !isSettled && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <Label htmlFor="fnf-notice">Notice Period (days)</Label>
+                  <Input
+                    id="fnf-notice"
+                    type="number"
+                    min={0}
+                    value={form.noticePeriodDays}
+                    onChange={(e) => setForm({ ...form, noticePeriodDays: Number(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="fnf-served">Notice Days Served</Label>
+                  <Input
+                    id="fnf-served"
+                    type="number"
+                    min={0}
+                    value={form.noticeDaysServed}
+                    onChange={(e) => setForm({ ...form, noticeDaysServed: Number(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="fnf-leave">Leave Balance (days)</Label>
+                  <Input
+                    id="fnf-leave"
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    placeholder="Estimate from payroll"
+                    value={form.leaveBalanceDays}
+                    onChange={(e) => setForm({ ...form, leaveBalanceDays: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="fnf-other-earnings">Other Earnings</Label>
+                  <Input
+                    id="fnf-other-earnings"
+                    type="number"
+                    min={0}
+                    value={form.otherEarnings}
+                    onChange={(e) => setForm({ ...form, otherEarnings: Number(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="fnf-other-deductions">Other Deductions</Label>
+                  <Input
+                    id="fnf-other-deductions"
+                    type="number"
+                    min={0}
+                    value={form.otherDeductions}
+                    onChange={(e) => setForm({ ...form, otherDeductions: Number(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="fnf-remarks">Remarks</Label>
+                  <Input
+                    id="fnf-remarks"
+                    value={form.remarks}
+                    maxLength={500}
+                    onChange={(e) => setForm({ ...form, remarks: e.target.value })}
+                  />
+                </div>
+                <div className="sm:col-span-3 flex justify-end">
+                  <Button onClick={handleCompute} loading={computing} className="flex items-center gap-2">
+                    <Calculator className="h-4 w-4" />
+                    {settlement ? 'Recompute' : 'Compute'}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {settlement ? (
+              <>
+                <div className="overflow-x-auto">
+                  <FnfStatementPreview settlement={settlement} />
+                </div>
+
+                {confirmSettle && (
+                  <div className="rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-900/20 p-3 text-sm text-amber-800 dark:text-amber-200">
+                    Settling closes the employee&apos;s outstanding loans against this settlement and cannot be undone.
+                  </div>
+                )}
+
+                <div className="flex flex-col-reverse sm:flex-row justify-end gap-2">
+                  <Button variant="outline" onClick={onClose} className="w-full sm:w-auto">
+                    Close
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleDownloadPdf}
+                    loading={downloadingPdf}
+                    className="w-full sm:w-auto flex items-center gap-2"
+                  >
+                    <FileDown className="h-4 w-4" />
+                    Download PDF
+                  </Button>
+                  {canEdit && !isSettled && (
+                    confirmSettle ? (
+                      <Button onClick={handleSettle} loading={settling} className="w-full sm:w-auto">
+                        Confirm Settle
+                      </Button>
+                    ) : (
+                      <Button onClick={() => setConfirmSettle(true)} className="w-full sm:w-auto flex items-center gap-2">
+                        <CheckCircle className="h-4 w-4" />
+                        Mark Settled
+                      </Button>
+                    )
+                  )}
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {canEdit
+                  ? 'No settlement computed yet. Enter the notice details and compute it from the last working day.'
+                  : 'No settlement has been computed for this letter yet.'}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,19 @@
+/**
+ * FnfStatementPDF Generator
+ * Captures the FnfStatementPreview letterhead and saves it as a PDF, the same
+ * way salary slips are exported
+ */
+
+import { FnfSettlement } from '@/types/payroll.types';
+import { exportPreviewToPDF } from '@/components/payroll/SalarySlipPDF';
+
+export async function generateFnfStatementPDF(settlement: FnfSettlement): Promise<void> {
+  await exportPreviewToPDF(
+    async (React) => {
+      const { FnfStatementPreview } = await import('@/components/relieving-letter/FnfStatementPreview');
+      return React.createElement(FnfStatementPreview, { settlement });
+    },
+    '#fnf-statement-preview',
+    `FnF_${settlement.letterNumber}_${settlement.employeeName.replace(/\s+/g, '_')}.pdf`
+  );
+}
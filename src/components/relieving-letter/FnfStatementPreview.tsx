@@ -0,0 +1,189 @@
+/**
+ * FnfStatementPreview Component
+ * Letterhead view of a full and final settlement: amounts payable to the
+ * employee, recoveries against them and the net settlement
+ */
+
+'use client';
+
+import { format } from 'date-fns';
+import { FnfSettlement } from '@/types/payroll.types';
+
+interface FnfStatementPreviewProps {
+  settlement: FnfSettlement;
+}
+
+export function FnfStatementPreview({ settlement }: FnfStatementPreviewProps) {
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return '-';
+    try {
+      return format(new Date(dateStr), 'dd MMM yyyy');
+    } catch {
+      return dateStr;
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const s = settlement;
+
+  const earnings: { label: string; detail: string; value: number }[] = [
+    {
+      label: 'Salary for the leaving month',
+      detail: s.finalMonthPaidBySlip ? 'Paid through the salary slip' : `${s.finalMonthDays} day(s) at ${formatCurrency(s.monthlyGross)} per month`,
+      value: s.finalMonthSalary,
+    },
+    {
+      label: 'Leave encashment',
+      detail: `${s.leaveBalanceDays} day(s) at basic ${formatCurrency(s.lastDrawnBasic)} ÷ 26`,
+      value: s.leaveEncashment,
+    },
+    {
+      label: 'Gratuity',
+      detail: s.gratuityEligible
+        ? `15 ÷ 26 × basic ${formatCurrency(s.lastDrawnBasic)} × ${s.gratuityYears} year(s)`
+        : `Not eligible (${s.serviceYears} completed year(s) of service)`,
+      value: s.gratuity,
+    },
+    { label: 'Other earnings', detail: '', value: s.otherEarnings },
+  ];
+
+  const deductions: { label: string; detail: string; value: number }[] = [
+    {
+      label: 'Notice period shortfall',
+      detail: `${s.noticeShortfallDays} of ${s.noticePeriodDays} day(s) at gross ÷ 30`,
+      value: s.noticeRecovery,
+    },
+    { label: 'Outstanding loans & advances', detail: '', value: s.loanRecovery },
+    { label: 'Other deductions', detail: '', value: s.otherDeductions },
+  ];
+
+  return (
+    <div
+      id="fnf-statement-preview"
+      className="text-black"
+      style={{
+        width: '210mm',
+        minHeight: '297mm',
+        fontFamily: 'Arial, sans-serif',
+        backgroundImage: "url('/images/letter-head.jpeg')",
+        backgroundSize: '100% 100%',
+        backgroundRepeat: 'no-repeat',
+        backgroundPosition: 'center',
+        // Padding to keep text in the blank middle area (below header, above footer)
+        paddingTop: '180px',
+        paddingBottom: '120px',
+        paddingLeft: '60px',
+        paddingRight: '60px',
+      }}
+    >
+      {/* Title */}
+      <div className="border-b-2 border-gray-800 pb-2 mb-4">
+        <h2 className="text-lg font-bold text-center">FULL AND FINAL SETTLEMENT</h2>
+        <p className="text-center text-xs">{s.companyName} · Ref. {s.letterNumber}</p>
+      </div>
+
+      {/* Employee Details */}
+      <div className="grid grid-cols-2 gap-x-8 gap-y-1 mb-4 text-xs">
+        <div className="flex justify-between">
+          <span className="text-gray-700">Name:</span>
+          <span className="font-semibold">{s.employeeName}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">Employee ID:</span>
+          <span className="font-semibold">{s.employeeCode}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">Designation:</span>
+          <span className="font-semibold">{s.designation || '-'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">Department:</span>
+          <span className="font-semibold">{s.department || '-'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">Date of Joining:</span>
+          <span className="font-semibold">{formatDate(s.dateOfJoining)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">Last Working Day:</span>
+          <span className="font-semibold">{formatDate(s.dateOfLeaving)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">Monthly Gross:</span>
+          <span className="font-semibold">{formatCurrency(s.monthlyGross)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-700">Service:</span>
+          <span className="font-semibold">{s.serviceYears} year(s)</span>
+        </div>
+      </div>
+
+      {/* Earnings */}
+      <div className="border-t border-gray-300 pt-3 mb-4">
+        <h3 className="font-bold mb-2 text-sm">Payable to Employee</h3>
+        <div className="space-y-1 text-xs">
+          {earnings.map((line) => (
+            <div key={line.label} className="flex justify-between">
+              <span>
+                {line.label}
+                {line.detail && <span className="text-gray-600"> — {line.detail}</span>}
+              </span>
+              <span>{formatCurrency(line.value)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-bold border-t border-gray-400 pt-1">
+            <span>Total Payable</span>
+            <span>{formatCurrency(s.totalEarnings)}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Deductions */}
+      <div className="border-t border-gray-300 pt-3 mb-4">
+        <h3 className="font-bold mb-2 text-sm">Recoveries</h3>
+        <div className="space-y-1 text-xs">
+          {deductions.map((line) => (
+            <div key={line.label} className="flex justify-between">
+              <span>
+                {line.label}
+                {line.detail && <span className="text-gray-600"> — {line.detail}</span>}
+              </span>
+              <span>{formatCurrency(line.value)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-bold border-t border-gray-400 pt-1">
+            <span>Total Recoveries</span>
+            <span>{formatCurrency(s.totalDeductions)}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Net Settlement Box */}
+      <div className="bg-gray-200 p-3 rounded mb-4">
+        <div className="flex justify-between items-center">
+          <span className="text-sm font-bold">{s.netPayable >= 0 ? 'Net Amount Payable' : 'Net Amount Recoverable'}</span>
+          <span className="text-base font-bold">{formatCurrency(Math.abs(s.netPayable))}</span>
+        </div>
+      </div>
+
+      {s.remarks && (
+        <p className="text-xs mb-4"><span className="font-semibold">Remarks:</span> {s.remarks}</p>
+      )}
+
+      {/* Footer */}
+      <div className="text-[10px] text-gray-600 italic mt-6 pt-3 border-t border-gray-300">
+        {s.status === 'settled'
+          ? `Settled on ${formatDate(s.settledAt)}. This is a computer generated statement, does not require signature.`
+          : 'Draft — subject to final approval.'}
+      </div>
+    </div>
+  );
+}
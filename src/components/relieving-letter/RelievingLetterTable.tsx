@@ -18,12 +18,13 @@ import {
 } from '@/components/ui/dialog';
 import { RelievingLetter } from '@/types/relieving-letter.types';
 import { format } from 'date-fns';
-import { Search, Edit, Trash2, Eye, FileText } from 'lucide-react';
+import { Search, Edit, Trash2, Eye, FileText, Calculator } from 'lucide-react';
 
 interface RelievingLetterTableProps {
   letters: RelievingLetter[];
   onEdit: (letter: RelievingLetter) => void;
   onView: (letter: RelievingLetter) => void;
+  onFnf?: (letter: RelievingLetter) => void;
   onRefresh: () => void;
   loading: boolean;
 }
@@ -32,6 +33,7 @@ export function RelievingLetterTable({
   letters,
   onEdit,
   onView,
+  onFnf,
   onRefresh,
   loading,
 }: RelievingLetterTableProps) {
@@ -90,6 +92,8 @@ export function RelievingLetterTable({
           toast.success(`Access ${!letter.accessGranted ? 'granted' : 'revoked'}.`);
         }
         onRefresh();
+      } else if (!letter.accessGranted) {
+        toast.error('Failed to grant access. Full and final settlement must be settled first.');
       } else {
         toast.error('Failed to toggle access');
       }
@@ -204,6 +208,16 @@ export function RelievingLetterTable({
                       >
                         <Eye className="h-4 w-4" />
                       </Button>
+                      {onFnf && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onFnf(letter)}
+                          title="Full & Final Settlement"
+                        >
+                          <Calculator className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
@@ -0,0 +1,157 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { authenticatedFetch } from '@/lib/api-client';
+import { useBackgroundSync } from '@/hooks/use-background-sync';
+import {
+  PUNCH_IN_PROGRESS_RETRY_MS,
+  PUNCH_IN_PROGRESS_STATUS,
+  PUNCH_SYNC_TAG,
+  createQueuedPunch,
+  getQueuedPunches,
+  isNetworkError,
+  removePunch,
+  savePunch,
+  shouldRetryPunch,
+} from '@/lib/offline-punches';
+import { PunchType, QueuedPunch } from '@/types/attendance.types';
+
+export interface PunchSyncResult {
+  synced: number;
+  rejected: { punch: QueuedPunch; message: string }[];
+}
+
+/**
+ * The employee's clock-ins/outs queued while offline, and their replay: on
+ * mount, when the browser comes back online, and when the service worker's
+ * background sync fires. `onSynced` runs after a replay that changed anything.
+ */
+export function useOfflinePunches(employeeId: string | undefined, onSynced?: (result: PunchSyncResult) => void) {
+  const { registerSync } = useBackgroundSync();
+  const [queued, setQueued] = useState<QueuedPunch[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refresh = useCallback(async () => {
+    if (!employeeId || typeof indexedDB === 'undefined') return;
+    try {
+      setQueued(await getQueuedPunches(employeeId));
+    } catch (error) {
+      console.error('[Offline Punches] Failed to read the queue:', error);
+    }
+  }, [employeeId]);
+
+  // Queue a punch captured offline and ask for a background sync
+  const queuePunch = useCallback(async (
+    type: PunchType,
+    data: Omit<Parameters<typeof createQueuedPunch>[1], 'employeeId'>
+  ) => {
+    if (!employeeId) return null;
+    const punch = createQueuedPunch(type, { ...data, employeeId });
+    await savePunch(punch);
+    await refresh();
+    await registerSync(PUNCH_SYNC_TAG);
+    return punch;
+  }, [employeeId, refresh, registerSync]);
+
+  // Replay the queue in order, stopping at the first punch that cannot be
+  // delivered yet so a clock-out never lands before its clock-in
+  const sync = useCallback(async (): Promise<PunchSyncResult> => {
+    const result: PunchSyncResult = { synced: 0, rejected: [] };
+    if (!employeeId || syncingRef.current || typeof indexedDB === 'undefined') return result;
+
+    syncingRef.current = true;
+    setSyncing(true);
+    let inProgressElsewhere = false;
+    try {
+      for (const punch of await getQueuedPunches(employeeId)) {
+        let response: Response;
+        try {
+          response = await authenticatedFetch(`/api/attendance/${punch.type}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              idempotencyKey: punch.id,
+              offline: true,
+              timestamp: punch.timestamp,
+              employeeName: punch.employeeName,
+              recordId: punch.recordId ?? undefined,
+              location: punch.location,
+              notes: punch.notes,
+            }),
+          });
+        } catch (error) {
+          if (isNetworkError(error)) break;
+          await savePunch({ ...punch, attempts: punch.attempts + 1, lastError: String(error) });
+          break;
+        }
+
+        if (response.ok) {
+          await removePunch(punch.id);
+          result.synced++;
+          continue;
+        }
+
+        const error = await response.json().catch(() => null);
+        const message = error?.message || `Failed to sync ${punch.type.replace('-', ' ')}`;
+        if (shouldRetryPunch(response.status)) {
+          await savePunch({ ...punch, attempts: punch.attempts + 1, lastError: message });
+          inProgressElsewhere = response.status === PUNCH_IN_PROGRESS_STATUS;
+          break;
+        }
+
+        await removePunch(punch.id);
+        result.rejected.push({ punch, message });
+      }
+    } catch (error) {
+      console.error('[Offline Punches] Sync failed:', error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      await refresh();
+    }
+
+    // Another delivery (the other sync trigger, or a second tab) is applying a
+    // punch; replay again shortly to pick up its result
+    if (inProgressElsewhere && !retryTimerRef.current) {
+      retryTimerRef.current = setTimeout(() => {
+        retryTimerRef.current = null;
+        syncRef.current();
+      }, PUNCH_IN_PROGRESS_RETRY_MS);
+    }
+
+    if (result.synced > 0 || result.rejected.length > 0) {
+      onSyncedRef.current?.(result);
+    }
+    return result;
+  }, [employeeId, refresh]);
+  const syncRef = useRef(sync);
+  syncRef.current = sync;
+
+  useEffect(() => {
+    if (!employeeId) return;
+    refresh();
+    if (navigator.onLine) sync();
+
+    const handleOnline = () => sync();
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'SYNC_ATTENDANCE_PUNCHES') sync();
+    };
+
+    window.addEventListener('online', handleOnline);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
+      }
+    };
+  }, [employeeId, refresh, sync]);
+
+  return { queued, syncing, queuePunch, sync };
+}
@@ -0,0 +1,221 @@
+/**
+ * Annual Salary Statement
+ * Totals a financial year's slips per component and works out the year's
+ * final tax on actual figures (no projection), laid out as Part B of Form 16.
+ */
+
+import {
+  AnnualComponentTotals,
+  AnnualSalaryStatement,
+  AnnualStatementMonth,
+  EmployeeSalary,
+  Form16PartB,
+  SalaryComponentLine,
+  TaxDeclaration,
+} from '@/types/payroll.types';
+import { formatFinancialYear, getFinancialYearMonthIndex, projectTds, toTaxableMonth } from '@/lib/tds';
+import { getComponentTotal } from '@/lib/salary-components';
+
+const EMPTY_TOTALS: AnnualComponentTotals = {
+  basic: 0,
+  hra: 0,
+  special: 0,
+  arrears: 0,
+  overtime: 0,
+  otherEarnings: 0,
+  gross: 0,
+  epf: 0,
+  esi: 0,
+  professionalTax: 0,
+  tds: 0,
+  loanRecovery: 0,
+  otherDeductions: 0,
+  totalDeductions: 0,
+  netSalary: 0,
+};
+
+function toStatementMonth(slip: EmployeeSalary): AnnualStatementMonth {
+  const b = slip.salaryBreakup;
+  const basic = b.basic || 0;
+  const hra = b.hra || 0;
+  const special = b.special || 0;
+  const arrears = b.arrears || 0;
+  const overtime = b.overtime || 0;
+  const otherEarnings = getComponentTotal(b, 'earning');
+  return {
+    month: slip.month,
+    year: slip.year,
+    slipNumber: slip.slipNumber,
+    paidDays: slip.paidDays,
+    basic,
+    hra,
+    special,
+    arrears,
+    overtime,
+    otherEarnings,
+    gross: basic + hra + special + arrears + overtime + otherEarnings,
+    epf: b.epf || 0,
+    esi: b.esi || 0,
+    professionalTax: b.professionalTax || 0,
+    tds: b.tds || 0,
+    loanRecovery: b.loanRecovery || 0,
+    otherDeductions: (b.otherDeduction || 0) + (b.leaveDeduction || 0) + getComponentTotal(b, 'deduction'),
+    totalDeductions: b.totalDeductions || 0,
+    netSalary: b.netSalary || 0,
+  };
+}
+
+export function sumComponents(months: AnnualComponentTotals[]): AnnualComponentTotals {
+  return months.reduce<AnnualComponentTotals>(
+    (sum, month) => {
+      const next = { ...sum };
+      for (const key of Object.keys(EMPTY_TOTALS) as (keyof AnnualComponentTotals)[]) {
+        next[key] = sum[key] + month[key];
+      }
+      return next;
+    },
+    { ...EMPTY_TOTALS }
+  );
+}
+
+/** Year's total per catalogue component, in the order they first appear */
+export function sumComponentLines(slips: EmployeeSalary[]): SalaryComponentLine[] {
+  const totals = new Map<string, SalaryComponentLine>();
+  slips.forEach((slip) => {
+    (slip.salaryBreakup.components ?? []).forEach((line) => {
+      const total = totals.get(line.key);
+      totals.set(line.key, total ? { ...total, amount: total.amount + line.amount } : { ...line });
+    });
+  });
+  return Array.from(totals.values());
+}
+
+/**
+ * Final tax computation for the year from the slips actually generated.
+ * Without a declaration the new regime applies, as it does for monthly TDS.
+ */
+export function buildForm16PartB(
+  financialYear: number,
+  slips: EmployeeSalary[],
+  declaration: TaxDeclaration | null
+): Form16PartB {
+  const tax = projectTds({
+    financialYear,
+    paid: slips.map((slip) => toTaxableMonth(slip.salaryBreakup)),
+    projectedMonth: null,
+    monthsRemaining: 0,
+    declaration,
+  });
+
+  // Exempt catalogue allowances are left out of the projection; Form 16 shows them as section 10 exemptions
+  const exemptAllowances = slips.reduce(
+    (sum, slip) => sum + getComponentTotal(slip.salaryBreakup, 'earning') - getComponentTotal(slip.salaryBreakup, 'earning', { taxableOnly: true }),
+    0
+  );
+  const salaryAfterExemptions = tax.annualGross - tax.hraExemption;
+  const incomeChargeableUnderSalaries = Math.max(
+    0,
+    salaryAfterExemptions - tax.standardDeduction - tax.professionalTax
+  );
+
+  return {
+    regime: tax.regime,
+    grossSalary: tax.annualGross + exemptAllowances,
+    hraExemption: tax.hraExemption,
+    exemptAllowances,
+    totalExemptions: tax.hraExemption + exemptAllowances,
+    salaryAfterExemptions,
+    standardDeduction: tax.standardDeduction,
+    professionalTax: tax.professionalTax,
+    incomeChargeableUnderSalaries,
+    section80C: tax.section80C,
+    section80D: tax.section80D,
+    totalChapterVIA: tax.section80C + tax.section80D,
+    totalTaxableIncome: tax.taxableIncome,
+    taxOnTotalIncome: tax.taxOnIncome,
+    rebate87A: tax.rebate,
+    surcharge: tax.surcharge,
+    healthAndEducationCess: tax.cess,
+    taxPayable: tax.annualTax,
+    taxDeducted: tax.taxDeducted,
+    balanceTax: tax.annualTax - tax.taxDeducted,
+  };
+}
+
+/**
+ * Statement for one employee's slips in a financial year. Employee details
+ * come from the latest slip. Returns null when there are no slips.
+ */
+export function buildAnnualStatement(
+  financialYear: number,
+  slips: EmployeeSalary[],
+  declaration: TaxDeclaration | null,
+  generatedAt: string
+): AnnualSalaryStatement | null {
+  if (slips.length === 0) return null;
+
+  const sorted = [...slips].sort(
+    (a, b) => getFinancialYearMonthIndex(a.month) - getFinancialYearMonthIndex(b.month)
+  );
+  const latest = sorted[sorted.length - 1];
+  const months = sorted.map(toStatementMonth);
+
+  return {
+    financialYear,
+    employeeId: latest.employeeId,
+    name: latest.name,
+    employeeCode: latest.employeeCode,
+    pan: latest.pan,
+    designation: latest.designation,
+    department: latest.department,
+    doj: latest.doj,
+    months,
+    totals: sumComponents(months),
+    componentTotals: sumComponentLines(sorted),
+    form16PartB: buildForm16PartB(financialYear, sorted, declaration),
+    generatedAt,
+  };
+}
+
+// ── Form 16 Part B Export ────────────────────────────────────────────────────
+
+const FORM16_COLUMNS: { label: string; value: (s: AnnualSalaryStatement) => string | number }[] = [
+  { label: 'Employee Code', value: (s) => s.employeeCode },
+  { label: 'Employee Name', value: (s) => s.name },
+  { label: 'PAN', value: (s) => s.pan || '' },
+  { label: 'Financial Year', value: (s) => formatFinancialYear(s.financialYear) },
+  { label: 'Tax Regime', value: (s) => s.form16PartB.regime === 'new' ? 'New (115BAC)' : 'Old' },
+  { label: 'Months Paid', value: (s) => s.months.length },
+  { label: 'Gross Salary 17(1)', value: (s) => s.form16PartB.grossSalary },
+  { label: 'HRA Exemption 10(13A)', value: (s) => s.form16PartB.hraExemption },
+  { label: 'Exempt Allowances u/s 10', value: (s) => s.form16PartB.exemptAllowances },
+  { label: 'Total Exemptions u/s 10', value: (s) => s.form16PartB.totalExemptions },
+  { label: 'Standard Deduction 16(ia)', value: (s) => s.form16PartB.standardDeduction },
+  { label: 'Professional Tax 16(iii)', value: (s) => s.form16PartB.professionalTax },
+  { label: 'Income Chargeable under Salaries', value: (s) => s.form16PartB.incomeChargeableUnderSalaries },
+  { label: 'Deduction 80C', value: (s) => s.form16PartB.section80C },
+  { label: 'Deduction 80D', value: (s) => s.form16PartB.section80D },
+  { label: 'Total Chapter VI-A', value: (s) => s.form16PartB.totalChapterVIA },
+  { label: 'Total Taxable Income', value: (s) => s.form16PartB.totalTaxableIncome },
+  { label: 'Tax on Total Income', value: (s) => s.form16PartB.taxOnTotalIncome },
+  { label: 'Rebate 87A', value: (s) => s.form16PartB.rebate87A },
+  { label: 'Surcharge', value: (s) => s.form16PartB.surcharge },
+  { label: 'Health & Education Cess', value: (s) => s.form16PartB.healthAndEducationCess },
+  { label: 'Tax Payable', value: (s) => s.form16PartB.taxPayable },
+  { label: 'TDS Deducted', value: (s) => s.form16PartB.taxDeducted },
+  { label: 'Balance Tax Payable/(Refundable)', value: (s) => s.form16PartB.balanceTax },
+];
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per employee, ready to fill Part B of Form 16 from */
+export function buildForm16PartBCsv(statements: AnnualSalaryStatement[]): string {
+  const header = FORM16_COLUMNS.map((column) => csvCell(column.label)).join(',');
+  const rows = statements.map((statement) =>
+    FORM16_COLUMNS.map((column) => csvCell(column.value(statement))).join(',')
+  );
+  return [header, ...rows].join('\r\n');
+}
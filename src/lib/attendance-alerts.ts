@@ -0,0 +1,175 @@
+/**
+ * Attendance Alerts
+ * Checks a day's attendance record against the employee's shift and the
+ * attendance policy: late arrival and early departure beyond the grace period,
+ * a missing clock-out, breaks over the allowance, and overtime beyond the
+ * shift's threshold. Without a shift only breaks, clock-outs and overtime
+ * over a standard day are checked.
+ */
+
+import { getAutoClockOutAt, getShiftWindow } from '@/lib/auto-clock-out';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { STANDARD_HOURS_PER_DAY } from '@/lib/overtime';
+import {
+  AlertSeverity,
+  AlertType,
+  AttendanceAlert,
+  AttendancePolicy,
+  AttendanceRecord,
+  PunctualityReportRow,
+  Shift,
+} from '@/types/attendance.types';
+
+export type AlertPolicy = Pick<AttendancePolicy, 'graceMinutes' | 'maxBreakMinutes' | 'maxDailyHours' | 'autoClockOutTime'>;
+
+export type AlertRecord = Pick<
+  AttendanceRecord,
+  'id' | 'employeeId' | 'employeeName' | 'clockIn' | 'clockOut' | 'breaks' | 'totalHours' | 'autoClockedOut' | 'date'
+>;
+
+export type AlertShift = Pick<Shift, 'startTime' | 'endTime' | 'overtimeThreshold'>;
+
+/** Alerts are keyed per record and type, so re-evaluating a day is idempotent */
+export function getAlertId(recordId: string, type: AlertType): string {
+  return `${recordId}_${type}`;
+}
+
+/** Severity of a late arrival or early departure by minutes past the grace period */
+function severityForMinutes(minutes: number): AlertSeverity {
+  if (minutes > 60) return 'high';
+  if (minutes > 30) return 'medium';
+  return 'low';
+}
+
+function minutesBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / 60000);
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Kolkata' });
+}
+
+/** Minutes on break, counting an open break up to `now` */
+export function getBreakMinutes(breaks: AlertRecord['breaks'], now: Date): number {
+  return Math.round(
+    (breaks || []).reduce(
+      (sum, b) => sum + ((b.endTime ?? now).getTime() - new Date(b.startTime).getTime()) / 60000,
+      0
+    )
+  );
+}
+
+/** The alerts a record raises as of `now` */
+export function evaluateRecordAlerts(
+  record: AlertRecord,
+  shift: AlertShift | null,
+  policy: AlertPolicy,
+  now: Date = new Date()
+): AttendanceAlert[] {
+  const alerts: AttendanceAlert[] = [];
+  const grace = policy.graceMinutes || 0;
+  const day = record.date ?? toAttendanceDate(record.clockIn);
+  const window = shift ? getShiftWindow(day, shift) : null;
+
+  const add = (type: AlertType, severity: AlertSeverity, message: string, minutes?: number) => {
+    alerts.push({
+      id: getAlertId(record.id, type),
+      type,
+      employeeId: record.employeeId,
+      employeeName: record.employeeName,
+      message,
+      timestamp: now,
+      severity,
+      recordId: record.id,
+      date: day,
+      ...(minutes !== undefined && { minutes }),
+    });
+  };
+
+  if (window) {
+    const late = minutesBetween(window.start, record.clockIn);
+    if (late > grace) {
+      add('late', severityForMinutes(late - grace),
+        `Clocked in ${late} min late (shift starts ${shift!.startTime})`, late);
+    }
+  }
+
+  if (record.autoClockedOut) {
+    add('missing-clockout', 'medium', 'Did not clock out; the record was closed automatically');
+  } else if (!record.clockOut && now >= getAutoClockOutAt(record.clockIn, shift, policy, day)) {
+    add('missing-clockout', 'medium', `Still clocked in since ${formatTime(record.clockIn)}`);
+  }
+
+  // A closed-by-system clock-out says nothing about when they actually left
+  const clockedOut = record.clockOut && !record.autoClockedOut ? record.clockOut : null;
+
+  if (window && clockedOut) {
+    const early = minutesBetween(clockedOut, window.end);
+    if (early > grace) {
+      add('early-departure', severityForMinutes(early - grace),
+        `Clocked out ${early} min early (shift ends ${shift!.endTime})`, early);
+    }
+  }
+
+  if (policy.maxBreakMinutes > 0) {
+    const breakMinutes = getBreakMinutes(record.breaks, clockedOut ?? now);
+    const excess = breakMinutes - policy.maxBreakMinutes;
+    if (excess > 0) {
+      add('excessive-break', excess > 30 ? 'high' : excess > 15 ? 'medium' : 'low',
+        `${breakMinutes} min on break, ${excess} min over the ${policy.maxBreakMinutes} min allowance`, excess);
+    }
+  }
+
+  if (clockedOut) {
+    const expectedMinutes = window ? minutesBetween(window.start, window.end) : STANDARD_HOURS_PER_DAY * 60;
+    const over = Math.round(record.totalHours * 60) - expectedMinutes;
+    if (over > (shift?.overtimeThreshold || 0)) {
+      const overMax = policy.maxDailyHours > 0 && record.totalHours > policy.maxDailyHours;
+      add('overtime', overMax ? 'high' : 'low',
+        overMax
+          ? `Worked ${record.totalHours.toFixed(1)} h, over the ${policy.maxDailyHours} h daily maximum`
+          : `Worked ${over} min beyond the scheduled day`,
+        over);
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * A month's punctuality per employee from the days they clocked in and the
+ * alerts raised on them. Employees with no attendance are left out.
+ */
+export function buildPunctualityReport(
+  employees: { id: string; name: string }[],
+  records: { employeeId: string; clockIn: Date; date?: string }[],
+  alerts: Pick<AttendanceAlert, 'employeeId' | 'type' | 'date' | 'minutes'>[]
+): PunctualityReportRow[] {
+  return employees
+    .map((employee) => {
+      const days = new Set(
+        records.filter((r) => r.employeeId === employee.id).map((r) => r.date ?? toAttendanceDate(r.clockIn))
+      );
+      const own = alerts.filter((a) => a.employeeId === employee.id);
+      const count = (type: AlertType) => own.filter((a) => a.type === type).length;
+      const late = own.filter((a) => a.type === 'late');
+      const lateDays = new Set(late.map((a) => a.date)).size;
+      const lateMinutes = late.reduce((sum, a) => sum + (a.minutes || 0), 0);
+
+      return {
+        employeeId: employee.id,
+        employeeName: employee.name,
+        daysPresent: days.size,
+        lateDays,
+        lateMinutes,
+        averageLateMinutes: lateDays > 0 ? Math.round(lateMinutes / lateDays) : 0,
+        earlyDepartures: count('early-departure'),
+        missingClockOuts: count('missing-clockout'),
+        excessiveBreaks: count('excessive-break'),
+        overtimeDays: count('overtime'),
+        punctualityRate: days.size > 0 ? Math.round(((days.size - lateDays) / days.size) * 100) : 100,
+      };
+    })
+    .filter((row) => row.daysPresent > 0)
+    .sort((a, b) => a.punctualityRate - b.punctualityRate || a.employeeName.localeCompare(b.employeeName));
+}
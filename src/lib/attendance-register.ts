@@ -0,0 +1,221 @@
+/**
+ * Attendance Register
+ * Classifies each day of a month for one employee from their attendance
+ * records, approved leaves, their holiday calendar and their attendance policy.
+ * Payroll's AttendanceBreakdown and the statutory muster roll both count days
+ * with this, so the register always agrees with the salary slip.
+ */
+
+import { AttendanceBreakdown } from '@/types/payroll.types';
+import { AttendanceRegisterRow, RegisterDayCode, ResolvedAttendancePolicy } from '@/types/attendance.types';
+import { DEFAULT_ATTENDANCE_POLICY } from '@/lib/attendance-policy';
+import { COMP_OFF_LEAVE_TYPE } from '@/lib/comp-off';
+import { toDateKey } from '@/lib/salary-revisions';
+
+type DateLike = Date | string | { toDate(): Date };
+
+export interface RegisterLeave {
+  startDate: DateLike;
+  endDate: DateLike;
+  leaveType?: string;
+  halfDay?: boolean;
+}
+
+export interface RegisterRecord {
+  clockIn: DateLike;
+  /** The attendance day (YYYY-MM-DD) when it is not the clock-in's, as for a night shift */
+  date?: string;
+  clockOut?: DateLike | null;
+  totalHours?: number;
+}
+
+/** The paid-day rules of the employee's attendance policy on a day */
+export type DayPolicy = Pick<ResolvedAttendancePolicy, 'minDailyHours' | 'weeklyOffDays'>;
+
+export interface AttendanceMonthInput {
+  /** The employee's attendance records */
+  records: RegisterRecord[];
+  /** The employee's approved leave requests */
+  leaves: RegisterLeave[];
+  /** The employee's holidays, as attendance days (YYYY-MM-DD) or dates */
+  holidays: DateLike[];
+}
+
+export type AttendanceDayCounts = Pick<
+  AttendanceBreakdown,
+  'present' | 'wfh' | 'approvedLeave' | 'unapprovedLeave' | 'halfDay' | 'holiday'
+>;
+
+export const REGISTER_DAY_CODES: Record<Exclude<RegisterDayCode, ''>, string> = {
+  P: 'Present',
+  A: 'Absent',
+  L: 'Leave',
+  H: 'Holiday / Weekly off',
+  CO: 'Comp off',
+  WFH: 'Work from home',
+  HD: 'Half day',
+};
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+function toDate(value: DateLike): Date {
+  return typeof value === 'object' && 'toDate' in value ? value.toDate() : new Date(value);
+}
+
+/** YYYY-MM-DD of a date in the server's local time, as payroll counts days */
+function localDateKey(date: Date): string {
+  return toDateKey(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** A record's attendance day (YYYY-MM-DD): its stored day, else its clock-in's */
+export function getRecordDay(record: RegisterRecord): string {
+  return record.date && DATE_KEY.test(record.date) ? record.date : localDateKey(toDate(record.clockIn));
+}
+
+/**
+ * The clock-in window to fetch a month's (0-11) records in: a day wider on
+ * each side, as a night shift can be clocked into on the calendar day before
+ * or after its attendance day. Keep the month's with `getMonthRecords`.
+ */
+export function getAttendanceMonthWindow(month: number, year: number): { start: Date; end: Date } {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  return {
+    start: new Date(year, month, 0),
+    end: new Date(year, month, daysInMonth + 1, 23, 59, 59),
+  };
+}
+
+/** The records whose attendance day is in the month (0-11) */
+export function getMonthRecords<T extends RegisterRecord>(records: T[], month: number, year: number): T[] {
+  const monthKey = toDateKey(year, month, 1).slice(0, 7);
+  return records.filter((record) => record.clockIn && getRecordDay(record).startsWith(monthKey));
+}
+
+/**
+ * The day-wise register codes and day counts of a month (0-11). Days are
+ * checked in order: worked (P, even on a holiday; HD when the completed day
+ * is shorter than the policy's minDailyHours), WFH, comp-off (CO, paid and
+ * counted like a holiday), half-day leave (HD), full-day leave (L), holiday
+ * or the policy's weekly off (H), otherwise
+ * absent (A). Days still to come in the current month are left blank and not
+ * counted. `policyFor` gives the employee's policy on a day.
+ */
+export function classifyAttendanceMonth(
+  input: AttendanceMonthInput,
+  month: number,
+  year: number,
+  options: { today?: Date; policyFor?: (date: Date) => DayPolicy } = {}
+): { days: RegisterDayCode[]; counts: AttendanceDayCounts } {
+  const { today = new Date(), policyFor = () => DEFAULT_ATTENDANCE_POLICY } = options;
+  const holidayDates = new Set(
+    input.holidays.map((holiday) =>
+      typeof holiday === 'string' && DATE_KEY.test(holiday) ? holiday : localDateKey(toDate(holiday))
+    )
+  );
+
+  // Hours worked per day, and whether every record of the day is closed
+  const worked = new Map<string, { hours: number; complete: boolean }>();
+  for (const record of input.records) {
+    const dateStr = getRecordDay(record);
+    const day = worked.get(dateStr) ?? { hours: 0, complete: true };
+    worked.set(dateStr, {
+      hours: day.hours + (record.totalHours || 0),
+      complete: day.complete && !!record.clockOut,
+    });
+  }
+
+  // Approved full-day, half-day, WFH and comp-off leave dates within the month
+  const wfhDates = new Set<string>();
+  const compOffDates = new Set<string>();
+  const halfDayLeaveDates = new Set<string>();
+  const leaveDates = new Set<string>();
+  for (const leave of input.leaves) {
+    const isHalfDay = leave.halfDay === true || leave.leaveType === 'half-day';
+    const targetSet =
+      leave.leaveType === 'wfh'
+        ? wfhDates
+        : leave.leaveType === COMP_OFF_LEAVE_TYPE
+          ? compOffDates
+          : isHalfDay
+            ? halfDayLeaveDates
+            : leaveDates;
+    const end = toDate(leave.endDate);
+    for (let d = toDate(leave.startDate); d <= end; d.setDate(d.getDate() + 1)) {
+      if (d.getFullYear() === year && d.getMonth() === month) {
+        targetSet.add(localDateKey(d));
+      }
+    }
+  }
+
+  const counts: AttendanceDayCounts = {
+    present: 0,
+    wfh: 0,
+    approvedLeave: 0,
+    unapprovedLeave: 0,
+    halfDay: 0,
+    holiday: 0,
+  };
+  const isCurrentMonth = year === today.getFullYear() && month === today.getMonth();
+  const totalDaysInMonth = new Date(year, month + 1, 0).getDate();
+  const days: RegisterDayCode[] = [];
+
+  for (let day = 1; day <= totalDaysInMonth; day++) {
+    const date = new Date(year, month, day);
+    const dateStr = localDateKey(date);
+    const policy = policyFor(new Date(year, month, day, 12));
+    const workedDay = worked.get(dateStr);
+
+    if (workedDay && workedDay.complete && policy.minDailyHours > 0 && workedDay.hours < policy.minDailyHours) {
+      // A completed day short of the policy's minimum is paid as a half day
+      counts.halfDay++;
+      days.push('HD');
+    } else if (workedDay) {
+      counts.present++;
+      days.push('P');
+    } else if (wfhDates.has(dateStr)) {
+      counts.wfh++;
+      days.push('WFH');
+    } else if (compOffDates.has(dateStr)) {
+      // A day off in lieu of a worked holiday, paid like one
+      counts.holiday++;
+      days.push('CO');
+    } else if (halfDayLeaveDates.has(dateStr)) {
+      counts.halfDay++;
+      days.push('HD');
+    } else if (leaveDates.has(dateStr)) {
+      counts.approvedLeave++;
+      days.push('L');
+    } else if (holidayDates.has(dateStr) || policy.weeklyOffDays.includes(date.getDay())) {
+      // Official holidays, and the policy's weekly off
+      counts.holiday++;
+      days.push('H');
+    } else if (isCurrentMonth && date > today) {
+      days.push('');
+    } else {
+      // Unapproved absence (LOP)
+      counts.unapprovedLeave++;
+      days.push('A');
+    }
+  }
+
+  return { days, counts };
+}
+
+/**
+ * Whether a slip's attendance counts differ from the register's, i.e.
+ * attendance changed after the month's payroll was generated
+ */
+export function hasPayrollMismatch(row: AttendanceDayCounts, breakdown: AttendanceBreakdown): boolean {
+  return (['present', 'wfh', 'approvedLeave', 'unapprovedLeave', 'halfDay', 'holiday'] as const).some(
+    (key) => row[key] !== breakdown[key]
+  );
+}
+
+/** Register rows ordered by employee code, then name */
+export function sortRegisterRows(rows: AttendanceRegisterRow[]): AttendanceRegisterRow[] {
+  return [...rows].sort(
+    (a, b) =>
+      a.employeeCode.localeCompare(b.employeeCode, undefined, { numeric: true }) ||
+      a.employeeName.localeCompare(b.employeeName)
+  );
+}
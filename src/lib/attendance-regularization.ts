@@ -0,0 +1,176 @@
+/**
+ * Attendance Regularization
+ * Checks an employee's correction to a day's attendance and works out the
+ * record it produces. Days are calendar days in IST, as on clock-in.
+ */
+
+import { STANDARD_HOURS_PER_DAY } from '@/lib/overtime';
+import {
+  AttendanceSnapshot,
+  RegularizationFormData,
+  RegularizationRequest,
+  RegularizationRequestInput,
+  RegularizationType,
+} from '@/types/attendance.types';
+
+export const REGULARIZATION_TYPES: Record<RegularizationType, string> = {
+  'missed-clock-in': 'Missed clock-in',
+  'missed-clock-out': 'Missed clock-out',
+  'wrong-times': 'Wrong clock-in/out time',
+  'missed-break': 'Forgotten break',
+};
+
+const dayFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'Asia/Kolkata',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+/** The attendance day (YYYY-MM-DD, IST) a moment falls on */
+export function toAttendanceDate(date: Date): string {
+  return dayFormatter.format(date);
+}
+
+/**
+ * Whether a clock-in belongs to the attendance day. A record that stores its
+ * day (a night shift clocked into after midnight, say) keeps it, with the
+ * clock-in within a calendar day of it.
+ */
+function isClockInOnDay(clockIn: Date, date: string, record: AttendanceSnapshot | null): boolean {
+  const clockInDay = toAttendanceDate(clockIn);
+  if (!record?.date) return clockInDay === date;
+  return record.date === date && Math.abs(Date.parse(clockInDay) - Date.parse(date)) <= 24 * 3600000;
+}
+
+/** Worked, regular and overtime hours for a day, breaks excluded */
+export function summarizeHours(
+  clockIn: string | null,
+  clockOut: string | null,
+  breaks: AttendanceSnapshot['breaks']
+): Pick<AttendanceSnapshot, 'totalHours' | 'regularHours' | 'overtimeHours'> {
+  if (!clockIn || !clockOut) return { totalHours: 0, regularHours: 0, overtimeHours: 0 };
+  const breakMs = breaks.reduce(
+    (sum, b) => sum + (b.endTime ? new Date(b.endTime).getTime() - new Date(b.startTime).getTime() : 0),
+    0
+  );
+  const totalHours = Math.max(0, (new Date(clockOut).getTime() - new Date(clockIn).getTime() - breakMs) / 3600000);
+  const overtimeHours = Math.max(0, totalHours - STANDARD_HOURS_PER_DAY);
+  return { totalHours, regularHours: totalHours - overtimeHours, overtimeHours };
+}
+
+/** The record as it would be with the requested times applied */
+export function applyRegularization(
+  record: AttendanceSnapshot | null,
+  requested: RegularizationRequest['requested']
+): AttendanceSnapshot {
+  const clockIn = requested.clockIn ?? record?.clockIn ?? null;
+  const clockOut = requested.clockOut ?? record?.clockOut ?? null;
+  const breaks = [
+    ...(record?.breaks ?? []),
+    ...(requested.breakStart && requested.breakEnd
+      ? [{ startTime: requested.breakStart, endTime: requested.breakEnd }]
+      : []),
+  ];
+  return {
+    ...(record?.date ? { date: record.date } : {}),
+    clockIn,
+    clockOut,
+    breaks,
+    ...summarizeHours(clockIn, clockOut, breaks),
+  };
+}
+
+/**
+ * Why a request cannot be applied to the record, or null when it can.
+ * record is the day's attendance record (null when there is none).
+ */
+export function validateRegularization(
+  type: RegularizationType,
+  date: string,
+  record: AttendanceSnapshot | null,
+  requested: RegularizationRequest['requested'],
+  now: Date = new Date()
+): string | null {
+  if (date > toAttendanceDate(now)) return 'Attendance cannot be regularized for a future date';
+
+  switch (type) {
+    case 'missed-clock-in':
+      if (record) return 'There is already a record for this day; request a time correction instead';
+      if (!requested.clockIn || !requested.clockOut) return 'Enter both the clock-in and clock-out time';
+      break;
+    case 'missed-clock-out':
+      if (!record) return 'There is no record for this day; request a missed clock-in instead';
+      if (record.clockOut) return 'This record already has a clock-out; request a time correction instead';
+      if (!requested.clockOut) return 'Enter the clock-out time';
+      break;
+    case 'wrong-times':
+      if (!record) return 'There is no record for this day; request a missed clock-in instead';
+      if (!requested.clockIn && !requested.clockOut) return 'Enter the corrected clock-in or clock-out time';
+      break;
+    case 'missed-break':
+      if (!record) return 'There is no record for this day';
+      if (!requested.breakStart || !requested.breakEnd) return 'Enter when the break started and ended';
+      if (new Date(requested.breakEnd) <= new Date(requested.breakStart)) return 'The break must end after it starts';
+      break;
+  }
+
+  const after = applyRegularization(record, requested);
+  const clockIn = new Date(after.clockIn!);
+  const clockOut = after.clockOut ? new Date(after.clockOut) : null;
+
+  if (!isClockInOnDay(clockIn, date, record)) return 'Clock-in must be on the day being regularized';
+  if (clockIn > now || (clockOut && clockOut > now)) return 'Times cannot be in the future';
+  if (clockOut && clockOut <= clockIn) return 'Clock-out must be after clock-in';
+  if (clockOut && clockOut.getTime() - clockIn.getTime() > 24 * 3600000) {
+    return 'A day cannot be longer than 24 hours';
+  }
+
+  if (requested.breakStart && requested.breakEnd) {
+    const start = new Date(requested.breakStart);
+    const end = new Date(requested.breakEnd);
+    if (start < clockIn || (clockOut && end > clockOut)) return 'The break must be within the working hours';
+    const overlaps = (record?.breaks ?? []).some(
+      (b) => b.endTime && start < new Date(b.endTime) && end > new Date(b.startTime)
+    );
+    if (overlaps) return 'The break overlaps a break already recorded';
+  }
+
+  return null;
+}
+
+/**
+ * The API request for a form filled in local time. A time earlier than the
+ * day's clock-in (the form's, else the record's) is taken to be after midnight.
+ */
+export function toRegularizationInput(
+  form: RegularizationFormData,
+  recordId: string | null,
+  recordClockIn?: Date
+): RegularizationRequestInput {
+  const at = (time: string | undefined, notBefore?: Date) => {
+    if (!time) return undefined;
+    const date = new Date(`${form.date}T${time.padStart(5, '0')}:00`);
+    if (notBefore && date < notBefore) date.setDate(date.getDate() + 1);
+    return date;
+  };
+
+  // Only the times the request type corrects are sent
+  const clockIn = form.type === 'missed-clock-in' || form.type === 'wrong-times' ? at(form.clockIn) : undefined;
+  const dayStart = clockIn ?? recordClockIn;
+  const clockOut = form.type !== 'missed-break' ? at(form.clockOut, dayStart) : undefined;
+  const breakStart = form.type === 'missed-break' ? at(form.breakStart, dayStart) : undefined;
+  const breakEnd = at(form.breakEnd, breakStart);
+
+  return {
+    type: form.type,
+    recordId,
+    date: form.date,
+    ...(clockIn ? { clockIn: clockIn.toISOString() } : {}),
+    ...(clockOut ? { clockOut: clockOut.toISOString() } : {}),
+    ...(breakStart && breakEnd
+      ? { breakStart: breakStart.toISOString(), breakEnd: breakEnd.toISOString() }
+      : {}),
+    reason: form.reason.trim(),
+  };
+}
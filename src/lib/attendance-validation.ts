@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { AttendancePolicy } from '@/types/attendance.types';
+import { MAX_ROTATION_DAYS } from '@/lib/shift-rotation';
 
 // Geolocation Coordinates Schema
 export const geolocationCoordinatesSchema = z.object({
@@ -85,6 +87,37 @@ export const wfhRequestSchema = z.object({
   }
 );
 
+// Regularization Request Schema (times are HH:mm on the request date)
+const optionalTime = z
+  .string()
+  .regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (use HH:mm)')
+  .or(z.literal(''))
+  .optional();
+
+export const regularizationRequestSchema = z.object({
+  type: z.enum(['missed-clock-in', 'missed-clock-out', 'wrong-times', 'missed-break']),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date is required'),
+  clockIn: optionalTime,
+  clockOut: optionalTime,
+  breakStart: optionalTime,
+  breakEnd: optionalTime,
+  reason: z.string()
+    .min(10, 'Reason must be at least 10 characters')
+    .max(500, 'Reason must be 500 characters or less'),
+}).refine(
+  (data) => data.type !== 'missed-clock-in' || (data.clockIn && data.clockOut),
+  { message: 'Enter both the clock-in and clock-out time', path: ['clockOut'] }
+).refine(
+  (data) => data.type !== 'missed-clock-out' || data.clockOut,
+  { message: 'Enter the clock-out time', path: ['clockOut'] }
+).refine(
+  (data) => data.type !== 'wrong-times' || data.clockIn || data.clockOut,
+  { message: 'Enter the corrected clock-in or clock-out time', path: ['clockIn'] }
+).refine(
+  (data) => data.type !== 'missed-break' || (data.breakStart && data.breakEnd),
+  { message: 'Enter when the break started and ended', path: ['breakEnd'] }
+);
+
 // Shift Schema
 export const shiftSchema = z.object({
   name: z.string().min(1, 'Shift name is required').max(100, 'Shift name must be 100 characters or less'),
@@ -96,6 +129,29 @@ export const shiftSchema = z.object({
   color: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid color format (use #RRGGBB)'),
 });
 
+// Shift Rotation Schema: the shift for each day of the cycle from startDate, null for a day off
+export const shiftRotationSchema = z.object({
+  name: z.string().trim().min(1, 'Rotation name is required').max(100, 'Rotation name must be 100 characters or less'),
+  pattern: z
+    .array(z.string().min(1).nullable())
+    .min(1, 'Add at least one day to the rotation')
+    .max(MAX_ROTATION_DAYS, `A rotation can repeat every ${MAX_ROTATION_DAYS} days at most`)
+    .refine((pattern) => pattern.some((shiftId) => shiftId !== null), 'Pick a shift for at least one day'),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date is required'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid end date').nullable().default(null),
+  employeeIds: z.array(z.string().min(1)).default([]),
+}).refine(
+  (data) => !data.endDate || data.endDate >= data.startDate,
+  { message: 'End date must be on or after start date', path: ['endDate'] }
+);
+
+// Shift Assignment Schema: one employee's shift on one day, null for a day off
+export const shiftAssignmentSchema = z.object({
+  employeeId: z.string().min(1, 'Employee ID is required'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date is required'),
+  shiftId: z.string().min(1).nullable(),
+});
+
 // Leave Type Schema
 export const leaveTypeSchema = z.object({
   name: z.string().min(1, 'Leave type name is required').max(100, 'Leave type name must be 100 characters or less'),
@@ -119,14 +175,65 @@ export const attendancePolicySchema = z.object({
   overtimeMultiplier: z.number().min(1, 'Overtime multiplier must be at least 1').max(3, 'Overtime multiplier cannot exceed 3'),
   minDailyHours: z.number().min(0, 'Min daily hours cannot be negative').max(24, 'Min daily hours cannot exceed 24'),
   maxDailyHours: z.number().min(0, 'Max daily hours cannot be negative').max(24, 'Max daily hours cannot exceed 24'),
+  weeklyOffDays: z.array(z.number().int().min(0).max(6)).max(6, 'At least one day a week must be a working day').default([0]),
+  compOffExpiryDays: z.number().int().min(1, 'Comp-off must stay usable for at least a day').max(365, 'Comp-off expiry cannot exceed a year').default(90),
 }).refine(
-  (data) => data.maxDailyHours >= data.minDailyHours,
+  (data) => !data.maxDailyHours || data.maxDailyHours >= data.minDailyHours,
   {
     message: 'Max daily hours must be greater than or equal to min daily hours',
     path: ['maxDailyHours']
   }
 );
 
+// Attendance Policy Assignment Schema (dates are YYYY-MM-DD attendance days)
+export const policyAssignmentSchema = z.object({
+  policyId: z.string().min(1, 'Policy is required'),
+  scope: z.enum(['company', 'team', 'employee']),
+  targetId: z.string().min(1).nullable().default(null),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective from date is required'),
+  effectiveTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid effective to date').nullable().default(null),
+}).refine(
+  (data) => data.scope === 'company' || data.targetId,
+  { message: 'Select the team or employee the policy applies to', path: ['targetId'] }
+).refine(
+  (data) => !data.effectiveTo || data.effectiveTo >= data.effectiveFrom,
+  { message: 'Effective to date must be on or after the effective from date', path: ['effectiveTo'] }
+);
+
+// Holiday Calendar Schema
+export const holidayCalendarSchema = z.object({
+  name: z.string().min(1, 'Calendar name is required').max(100, 'Calendar name must be 100 characters or less'),
+  location: z.string().max(100, 'Location must be 100 characters or less').default(''),
+  description: z.string().max(500, 'Description must be 500 characters or less').default(''),
+  isDefault: z.boolean().default(false),
+  optionalHolidayQuota: z.number().int().min(0, 'Optional holiday quota cannot be negative').max(30, 'Optional holiday quota cannot exceed 30').default(2),
+  employeeIds: z.array(z.string().min(1)).default([]),
+  teamIds: z.array(z.string().min(1)).default([]),
+});
+
+// Holiday Schema (date is a YYYY-MM-DD attendance day)
+export const holidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Holiday date is required'),
+  name: z.string().trim().min(1, 'Holiday name is required').max(100, 'Holiday name must be 100 characters or less'),
+  description: z.string().max(500, 'Description must be 500 characters or less').default(''),
+  isOptional: z.boolean().default(false),
+});
+
+// Worked Day Schema, checked against the employee's resolved attendance policy
+export function createWorkDaySchema(policy: Pick<AttendancePolicy, 'maxDailyHours'>) {
+  return z.object({
+    clockIn: z.date(),
+    clockOut: z.date().optional(),
+    totalHours: z.number().min(0),
+  }).refine(
+    (data) => !data.clockOut || data.clockOut > data.clockIn,
+    { message: 'Clock out time must be after clock in time', path: ['clockOut'] }
+  ).refine(
+    (data) => !policy.maxDailyHours || data.totalHours <= policy.maxDailyHours,
+    { message: `Working hours cannot exceed the ${policy.maxDailyHours} hours a day your attendance policy allows`, path: ['totalHours'] }
+  );
+}
+
 // Attendance Filters Schema
 export const attendanceFiltersSchema = z.object({
   employeeId: z.string().optional(),
@@ -187,9 +294,15 @@ export type ClockOutDataInput = z.infer<typeof clockOutDataSchema>;
 export type AttendanceRecordInput = z.infer<typeof attendanceRecordSchema>;
 export type LeaveRequestInput = z.infer<typeof leaveRequestSchema>;
 export type WfhRequestInput = z.infer<typeof wfhRequestSchema>;
+export type RegularizationRequestFormInput = z.infer<typeof regularizationRequestSchema>;
 export type ShiftInput = z.infer<typeof shiftSchema>;
+export type ShiftRotationInput = z.infer<typeof shiftRotationSchema>;
+export type ShiftAssignmentInput = z.infer<typeof shiftAssignmentSchema>;
 export type LeaveTypeInput = z.infer<typeof leaveTypeSchema>;
 export type AttendancePolicyInput = z.infer<typeof attendancePolicySchema>;
+export type PolicyAssignmentInput = z.infer<typeof policyAssignmentSchema>;
+export type HolidayCalendarInput = z.infer<typeof holidayCalendarSchema>;
+export type HolidayInput = z.infer<typeof holidaySchema>;
 export type AttendanceFiltersInput = z.infer<typeof attendanceFiltersSchema>;
 export type LeaveFiltersInput = z.infer<typeof leaveFiltersSchema>;
 export type ReportConfigInput = z.infer<typeof reportConfigSchema>;
@@ -0,0 +1,90 @@
+/**
+ * Auto Clock-out
+ * When an attendance record left open gets closed: at the employee's shift end
+ * plus the policy's grace period, or at the policy's auto clock-out time when
+ * they have no shift that day. Times are IST, as on clock-in.
+ */
+
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { AttendancePolicy, Shift } from '@/types/attendance.types';
+
+/** Used when no active attendance policy sets a time */
+export const DEFAULT_AUTO_CLOCK_OUT_TIME = '23:59';
+
+export type AutoClockOutPolicy = Pick<AttendancePolicy, 'graceMinutes' | 'autoClockOutTime'>;
+
+const DAY_MS = 24 * 3600000;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** The moment an HH:mm time falls on an attendance day (YYYY-MM-DD, IST) */
+function atIstTime(date: string, time: string): Date {
+  return new Date(new Date(`${date}T00:00:00+05:30`).getTime() + toMinutes(time) * 60000);
+}
+
+/** An attendance day, or the attendance day of a moment */
+function toDay(date: Date | string): string {
+  return typeof date === 'string' ? date : toAttendanceDate(date);
+}
+
+/**
+ * The employee's fixed weekly shift on the attendance day of `date` (or on
+ * the attendance day `date`), if any
+ */
+export function getShiftForDay<T extends Pick<Shift, 'assignedEmployees' | 'daysOfWeek'>>(
+  shifts: T[],
+  employeeId: string,
+  date: Date | string
+): T | null {
+  const weekday = new Date(`${toDay(date)}T12:00:00Z`).getUTCDay();
+  return shifts.find(
+    (shift) => shift.assignedEmployees?.includes(employeeId) && shift.daysOfWeek?.includes(weekday)
+  ) ?? null;
+}
+
+/** Whether a shift ends at or before its start, running overnight into the next day */
+export function isOvernightShift(shift: Pick<Shift, 'startTime' | 'endTime'>): boolean {
+  return toMinutes(shift.endTime) <= toMinutes(shift.startTime);
+}
+
+/**
+ * Start and end of a shift on the attendance day of `date` (or on the
+ * attendance day `date`). An overnight shift ends the next day.
+ */
+export function getShiftWindow(
+  date: Date | string,
+  shift: Pick<Shift, 'startTime' | 'endTime'>
+): { start: Date; end: Date } {
+  const day = toDay(date);
+  return {
+    start: atIstTime(day, shift.startTime),
+    end: new Date(atIstTime(day, shift.endTime).getTime() + (isOvernightShift(shift) ? DAY_MS : 0)),
+  };
+}
+
+/**
+ * When a record clocked in at `clockIn` is closed automatically. Clocking in
+ * after the shift (plus grace) has ended falls back to the policy time.
+ * `date` is the record's attendance day when it differs from the clock-in's,
+ * as for a night shift clocked into after midnight.
+ */
+export function getAutoClockOutAt(
+  clockIn: Date,
+  shift: Pick<Shift, 'startTime' | 'endTime'> | null,
+  policy: AutoClockOutPolicy,
+  date: string = toAttendanceDate(clockIn)
+): Date {
+  const day = toAttendanceDate(clockIn);
+
+  if (shift) {
+    const { end } = getShiftWindow(date, shift);
+    const cutoff = new Date(end.getTime() + (policy.graceMinutes || 0) * 60000);
+    if (cutoff > clockIn) return cutoff;
+  }
+
+  const cutoff = atIstTime(day, policy.autoClockOutTime || DEFAULT_AUTO_CLOCK_OUT_TIME);
+  return cutoff > clockIn ? cutoff : new Date(cutoff.getTime() + DAY_MS);
+}
@@ -0,0 +1,218 @@
+/**
+ * Bank Bulk-Payment Export
+ * Validation of employee salary accounts and the bulk-upload file formats a
+ * locked month's net pay can be exported in. Each format is an entry in
+ * BANK_EXPORT_FORMATS; adding a bank means adding a builder there.
+ */
+
+import {
+  BankExportFormatId,
+  BankPaymentIssue,
+  BankPaymentMode,
+  BankPaymentRow,
+} from '@/types/payroll.types';
+
+/** 4 letter bank code, a zero, then a 6 character branch code, e.g. HDFC0001234 */
+export const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+/** RBI minimum for RTGS; smaller transfers go by NEFT */
+export const RTGS_MIN_AMOUNT = 200000;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+export function normalizeIfsc(ifsc: string): string {
+  return ifsc.trim().toUpperCase();
+}
+
+export function isValidIfsc(ifsc: string): boolean {
+  return IFSC_PATTERN.test(normalizeIfsc(ifsc));
+}
+
+/** Indian bank account numbers are 9 to 18 digits */
+export function isValidAccountNumber(accountNumber: string): boolean {
+  return /^\d{9,18}$/.test(accountNumber);
+}
+
+/** Only the last four digits are ever shown, e.g. "XXXXXX4321" */
+export function maskAccountNumber(accountNumber: string): string {
+  return `XXXXXX${accountNumber.slice(-4)}`;
+}
+
+export interface BankPaymentInput {
+  employeeId: string;
+  employeeCode: string;
+  name: string;
+  amount: number;
+  slipNumber: string;
+  account: { accountNumber: string; ifsc: string; beneficiaryName: string } | null;
+}
+
+/**
+ * Split a month's payments into rows that can go into a bank file and issues
+ * that must be fixed (or paid outside the file). Slips with no net pay are
+ * left out without an issue.
+ */
+export function prepareBankPayments(inputs: BankPaymentInput[]): {
+  rows: BankPaymentRow[];
+  issues: BankPaymentIssue[];
+} {
+  const rows: BankPaymentRow[] = [];
+  const issues: BankPaymentIssue[] = [];
+
+  for (const input of inputs) {
+    if (input.amount <= 0) continue;
+
+    const issue = (text: string) =>
+      issues.push({
+        employeeId: input.employeeId,
+        employeeCode: input.employeeCode,
+        name: input.name,
+        amount: input.amount,
+        issue: text,
+      });
+
+    if (!input.account?.accountNumber) {
+      issue('No bank account on file');
+      continue;
+    }
+    if (!isValidAccountNumber(input.account.accountNumber)) {
+      issue('Account number must be 9 to 18 digits');
+      continue;
+    }
+    if (!isValidIfsc(input.account.ifsc || '')) {
+      issue(`Invalid IFSC "${input.account.ifsc || ''}"`);
+      continue;
+    }
+
+    rows.push({
+      employeeId: input.employeeId,
+      employeeCode: input.employeeCode,
+      name: input.name,
+      beneficiaryName: input.account.beneficiaryName || input.name,
+      accountNumber: input.account.accountNumber,
+      ifsc: normalizeIfsc(input.account.ifsc),
+      amount: input.amount,
+      slipNumber: input.slipNumber,
+    });
+  }
+
+  return { rows, issues };
+}
+
+export function getPaymentMode(amount: number): BankPaymentMode {
+  return amount >= RTGS_MIN_AMOUNT ? 'RTGS' : 'NEFT';
+}
+
+// ── File Formats ─────────────────────────────────────────────────────────────
+
+export interface BankExportContext {
+  month: number;                // 0-11
+  year: number;
+  paymentDate: Date;
+}
+
+export interface BankExportFormat {
+  id: BankExportFormatId;
+  label: string;
+  fileExtension: 'csv' | 'txt';
+  mimeType: string;
+  build: (rows: BankPaymentRow[], context: BankExportContext) => string;
+}
+
+function formatDate(date: Date): string {
+  const dd = String(date.getDate()).padStart(2, '0');
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  return `${dd}/${mm}/${date.getFullYear()}`;
+}
+
+function narration({ month, year }: BankExportContext): string {
+  return `SALARY ${MONTHS[month]} ${year}`;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Bank upload files reject commas and most punctuation inside fields
+function plainText(value: string, maxLength: number): string {
+  return value.replace(/[^A-Za-z0-9 .-]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, maxLength);
+}
+
+const genericNeft: BankExportFormat = {
+  id: 'generic-neft',
+  label: 'Generic NEFT/RTGS (CSV)',
+  fileExtension: 'csv',
+  mimeType: 'text/csv;charset=utf-8;',
+  build(rows, context) {
+    const header = [
+      'Payment Mode',
+      'Beneficiary Name',
+      'Beneficiary Account Number',
+      'IFSC',
+      'Amount',
+      'Value Date',
+      'Narration',
+      'Employee Code',
+      'Reference',
+    ];
+    const lines = rows.map((row) =>
+      [
+        getPaymentMode(row.amount),
+        row.beneficiaryName,
+        row.accountNumber,
+        row.ifsc,
+        row.amount.toFixed(2),
+        formatDate(context.paymentDate),
+        narration(context),
+        row.employeeCode,
+        row.slipNumber,
+      ]
+        .map(csvCell)
+        .join(',')
+    );
+    return [header.join(','), ...lines].join('\r\n');
+  },
+};
+
+/**
+ * HDFC Bank ENet bulk upload: 28 comma-separated fields per payment, no
+ * header. Transfers to HDFC accounts go as 'I' (within bank), the rest as
+ * 'N' (NEFT) or 'R' (RTGS).
+ */
+const hdfcEnet: BankExportFormat = {
+  id: 'hdfc-enet',
+  label: 'HDFC Bank ENet',
+  fileExtension: 'txt',
+  mimeType: 'text/plain;charset=utf-8;',
+  build(rows, context) {
+    return rows
+      .map((row) => {
+        const type = row.ifsc.startsWith('HDFC') ? 'I' : getPaymentMode(row.amount) === 'RTGS' ? 'R' : 'N';
+        const fields = new Array<string>(28).fill('');
+        fields[0] = type;
+        fields[1] = plainText(row.employeeCode, 13).replace(/[ .-]/g, '');
+        fields[2] = row.accountNumber;
+        fields[3] = row.amount.toFixed(2);
+        fields[4] = plainText(row.beneficiaryName, 40);
+        fields[12] = plainText(row.slipNumber, 20);
+        fields[13] = plainText(row.slipNumber, 20);
+        fields[14] = narration(context);
+        fields[22] = formatDate(context.paymentDate);
+        fields[24] = type === 'I' ? '' : row.ifsc;
+        return fields.join(',');
+      })
+      .join('\r\n');
+  },
+};
+
+export const BANK_EXPORT_FORMATS: Record<BankExportFormatId, BankExportFormat> = {
+  'generic-neft': genericNeft,
+  'hdfc-enet': hdfcEnet,
+};
+
+/** e.g. "salary-2026-04-hdfc-enet.txt" */
+export function getBankExportFileName(formatId: BankExportFormatId, month: number, year: number): string {
+  const format = BANK_EXPORT_FORMATS[formatId];
+  return `salary-${year}-${String(month + 1).padStart(2, '0')}-${format.id}.${format.fileExtension}`;
+}
@@ -0,0 +1,106 @@
+/**
+ * Compensatory Off
+ * Works out whether a worked day earns comp-off (a holiday, or a weekly off
+ * under the employee's shift), how much, until when, and the balance left
+ * once comp-off leave is set against the credits. Days are attendance days
+ * (YYYY-MM-DD, IST).
+ */
+
+import { CompOffBalance, CompOffCredit, CompOffReason } from '@/types/attendance.types';
+
+/** The leave type comp-off is applied for and taken as */
+export const COMP_OFF_LEAVE_TYPE = 'comp-off';
+
+export const COMP_OFF_REASON_LABELS: Record<CompOffReason, string> = {
+  holiday: 'Holiday',
+  'weekly-off': 'Weekly off',
+};
+
+/** A comp-off leave request, with its start as an attendance day */
+export interface CompOffLeave {
+  startDate: string;
+  totalDays: number;
+  status: string;
+}
+
+function weekday(date: string): number {
+  return new Date(`${date}T12:00:00Z`).getUTCDay();
+}
+
+/** The attendance day `days` after `date` */
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T12:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Why working on `date` earns comp-off, or null when it is a working day. A
+ * holiday always does; otherwise the weekly off is the days outside the
+ * employee's shifts, or the policy's weekly off when they have no shift.
+ */
+export function getCompOffReason(
+  date: string,
+  holidays: { date: string; name: string }[],
+  shiftDays: number[] | null,
+  weeklyOffDays: number[]
+): { reason: CompOffReason; holidayName: string | null } | null {
+  const holiday = holidays.find((h) => h.date === date);
+  if (holiday) return { reason: 'holiday', holidayName: holiday.name || null };
+
+  const isWeeklyOff = shiftDays ? !shiftDays.includes(weekday(date)) : weeklyOffDays.includes(weekday(date));
+  return isWeeklyOff ? { reason: 'weekly-off', holidayName: null } : null;
+}
+
+/**
+ * Days of comp-off a day's hours earn: a full day, or half a day when the
+ * policy sets a minimum and the day falls short of it, as payroll pays it
+ */
+export function getCompOffDays(hoursWorked: number, minDailyHours: number): number {
+  if (hoursWorked <= 0) return 0;
+  return minDailyHours > 0 && hoursWorked < minDailyHours ? 0.5 : 1;
+}
+
+/**
+ * Set comp-off leave against approved credits and work out what is left on
+ * `today`. Leave (approved or still pending) is taken in date order from the
+ * credits earned before it and not expired on its start, earliest expiry
+ * first. `uncovered` is the leave no credit could cover.
+ */
+export function calculateCompOffBalance(
+  credits: CompOffCredit[],
+  leaves: CompOffLeave[],
+  today: string
+): CompOffBalance & { uncovered: number } {
+  const usable = credits
+    .filter((credit) => credit.status === 'approved' && credit.expiresOn)
+    .sort((a, b) => a.expiresOn!.localeCompare(b.expiresOn!) || a.workDate.localeCompare(b.workDate))
+    .map((credit) => ({ ...credit, remainingDays: credit.days }));
+
+  let uncovered = 0;
+  const taken = leaves
+    .filter((leave) => leave.status === 'approved' || leave.status === 'pending')
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  for (const leave of taken) {
+    let due = leave.totalDays;
+    for (const credit of usable) {
+      if (due <= 0) break;
+      if (credit.remainingDays <= 0 || credit.workDate >= leave.startDate || credit.expiresOn! < leave.startDate) continue;
+      const used = Math.min(due, credit.remainingDays);
+      credit.remainingDays -= used;
+      due -= used;
+    }
+    uncovered += due;
+  }
+
+  const open = usable.filter((credit) => credit.remainingDays > 0 && credit.expiresOn! >= today);
+  return {
+    available: open.reduce((sum, credit) => sum + credit.remainingDays, 0),
+    pendingCredit: credits
+      .filter((credit) => credit.status === 'pending')
+      .reduce((sum, credit) => sum + credit.days, 0),
+    credits: open,
+    nextExpiry: open[0]?.expiresOn ?? null,
+    uncovered,
+  };
+}
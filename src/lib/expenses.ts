@@ -0,0 +1,109 @@
+/**
+ * Expense Claims
+ * Claim totals, the reimbursement paid through payroll and the per-client
+ * report of approved expenses used for rebilling.
+ */
+
+import {
+  ClientExpenseReportRow,
+  ExpenseCategory,
+  ExpenseClaim,
+  ExpenseLineItem,
+} from '@/types/expense.types';
+import { SalaryBreakup } from '@/types/payroll.types';
+
+export const EXPENSE_CATEGORIES: Record<ExpenseCategory, string> = {
+  travel: 'Travel',
+  conveyance: 'Local Conveyance',
+  food: 'Food',
+  lodging: 'Lodging',
+  communication: 'Phone & Internet',
+  other: 'Other',
+};
+
+/** Receipts larger than this are rejected before upload */
+export const MAX_RECEIPT_SIZE = 10 * 1024 * 1024;
+export const RECEIPT_ACCEPTED_TYPES = 'image/*,application/pdf';
+
+/** Claim total in rupees, rounded to the paisa */
+export function getClaimTotal(items: Pick<ExpenseLineItem, 'amount'>[]): number {
+  return Math.round(items.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+}
+
+/** Approved claims not yet reimbursed through a salary slip */
+export function getUnpaidApprovedClaims<T extends Pick<ExpenseClaim, 'status' | 'paidIn'>>(claims: T[]): T[] {
+  return claims.filter((claim) => claim.status === 'approved' && !claim.paidIn);
+}
+
+/**
+ * Add reimbursed expenses to net pay. Reimbursements are not wages, so they
+ * stay out of gross, statutory wages and taxable salary.
+ */
+export function applyReimbursement(breakup: SalaryBreakup, amount: number): SalaryBreakup {
+  return {
+    ...breakup,
+    reimbursement: (breakup.reimbursement || 0) + amount,
+    netSalary: breakup.netSalary + amount,
+  };
+}
+
+function emptyByCategory(): Record<ExpenseCategory, number> {
+  return Object.fromEntries(
+    Object.keys(EXPENSE_CATEGORIES).map((category) => [category, 0])
+  ) as Record<ExpenseCategory, number>;
+}
+
+/**
+ * Approved and paid claims linked to a client, grouped per client with
+ * category totals. Only line items dated within the range count.
+ */
+export function buildClientExpenseReport(
+  claims: ExpenseClaim[],
+  range: { from: string; to: string }
+): ClientExpenseReportRow[] {
+  const rows = new Map<string, ClientExpenseReportRow>();
+
+  for (const claim of claims) {
+    if (!claim.clientId || (claim.status !== 'approved' && claim.status !== 'paid')) continue;
+
+    const items = claim.items.filter((item) => item.date >= range.from && item.date <= range.to);
+    if (items.length === 0) continue;
+
+    const row = rows.get(claim.clientId) ?? {
+      clientId: claim.clientId,
+      clientName: claim.clientName || claim.clientId,
+      claimCount: 0,
+      byCategory: emptyByCategory(),
+      totalAmount: 0,
+    };
+    row.claimCount += 1;
+    for (const item of items) {
+      row.byCategory[item.category] += item.amount;
+      row.totalAmount += item.amount;
+    }
+    rows.set(claim.clientId, row);
+  }
+
+  return [...rows.values()]
+    .map((row) => ({ ...row, totalAmount: Math.round(row.totalAmount * 100) / 100 }))
+    .sort((a, b) => b.totalAmount - a.totalAmount);
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per client with a column per expense category */
+export function buildClientExpenseCsv(rows: ClientExpenseReportRow[]): string {
+  const categories = Object.keys(EXPENSE_CATEGORIES) as ExpenseCategory[];
+  const header = ['Client', 'Claims', ...categories.map((category) => EXPENSE_CATEGORIES[category]), 'Total']
+    .map(csvCell)
+    .join(',');
+  const lines = rows.map((row) =>
+    [row.clientName, row.claimCount, ...categories.map((category) => row.byCategory[category]), row.totalAmount]
+      .map(csvCell)
+      .join(',')
+  );
+  return [header, ...lines].join('\r\n');
+}
@@ -0,0 +1,154 @@
+/**
+ * Full & Final Settlement
+ * Works out what is owed either way when an employee leaves: salary for the
+ * days worked in the leaving month, leave encashment and gratuity, less the
+ * notice-period shortfall and loans still outstanding. All amounts are in INR,
+ * rounded to the rupee.
+ */
+
+import { EmployeeSalary, FnfComputation } from '@/types/payroll.types';
+import { getFinancialYear, getFinancialYearMonthIndex } from '@/lib/tds';
+
+export const GRATUITY_MIN_YEARS = 5;
+export const GRATUITY_CAP = 2000000; // ₹20 lakh, Payment of Gratuity Act ceiling
+
+function parseDate(dateStr: string): { year: number; month: number; day: number } {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return { year, month: month - 1, day };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * Completed years of service up to and including the last working day, and
+ * the years gratuity is paid for: a final part-year of more than six months
+ * counts as a full year.
+ */
+export function getServiceYears(dateOfJoining: string, dateOfLeaving: string): {
+  serviceYears: number;
+  gratuityYears: number;
+} {
+  const start = parseDate(dateOfJoining);
+  const left = parseDate(dateOfLeaving);
+  // Service runs to the end of the last working day
+  const endDate = new Date(left.year, left.month, left.day + 1);
+  const end = { year: endDate.getFullYear(), month: endDate.getMonth(), day: endDate.getDate() };
+
+  const months = Math.max(
+    0,
+    (end.year - start.year) * 12 + (end.month - start.month) - (end.day < start.day ? 1 : 0)
+  );
+  const serviceYears = Math.floor(months / 12);
+  const remainder = months % 12;
+  const partMonth = end.day !== start.day;
+  const roundsUp = remainder > 6 || (remainder === 6 && partMonth);
+
+  return { serviceYears, gratuityYears: serviceYears + (roundsUp ? 1 : 0) };
+}
+
+/** Statutory gratuity: 15 days' last drawn basic (26 working days a month) per year of service */
+export function calculateGratuity(lastDrawnBasic: number, gratuityYears: number): number {
+  return Math.min(GRATUITY_CAP, Math.round((lastDrawnBasic * 15 * gratuityYears) / 26));
+}
+
+/** Days worked in the leaving month, counted from the joining day if they joined that month */
+export function getFinalMonthDays(dateOfJoining: string, dateOfLeaving: string): number {
+  const joined = parseDate(dateOfJoining);
+  const left = parseDate(dateOfLeaving);
+  const joinedSameMonth = joined.year === left.year && joined.month === left.month;
+  return Math.max(0, left.day - (joinedSameMonth ? joined.day - 1 : 0));
+}
+
+/**
+ * Paid leave still available in the leaving financial year: the monthly
+ * allowance accrued for each month served in the year, less paid leave
+ * already taken on slips.
+ */
+export function estimateLeaveBalance(params: {
+  allowedPaidLeaves: number;
+  dateOfJoining: string;
+  dateOfLeaving: string;
+  slips: EmployeeSalary[];
+}): number {
+  const left = parseDate(params.dateOfLeaving);
+  const joined = parseDate(params.dateOfJoining);
+  const financialYear = getFinancialYear(left.month, left.year);
+
+  let months = getFinancialYearMonthIndex(left.month) + 1;
+  if (getFinancialYear(joined.month, joined.year) === financialYear) {
+    months -= getFinancialYearMonthIndex(joined.month);
+  }
+
+  const taken = params.slips
+    .filter((slip) => getFinancialYear(slip.month, slip.year) === financialYear)
+    .reduce((sum, slip) => sum + (slip.attendanceBreakdown?.paidLeave || 0), 0);
+
+  return Math.max(0, params.allowedPaidLeaves * months - taken);
+}
+
+export function computeFnf(params: {
+  dateOfJoining: string;
+  dateOfLeaving: string;
+  monthlyGross: number;
+  basicPercentage: number;
+  noticePeriodDays: number;
+  noticeDaysServed: number;
+  leaveBalanceDays: number;
+  outstandingLoan: number;
+  finalMonthPaidBySlip: boolean;
+  otherEarnings?: number;
+  otherDeductions?: number;
+}): FnfComputation {
+  const { monthlyGross } = params;
+  const lastDrawnBasic = Math.round((monthlyGross * params.basicPercentage) / 100);
+  const left = parseDate(params.dateOfLeaving);
+
+  const finalMonthDays = getFinalMonthDays(params.dateOfJoining, params.dateOfLeaving);
+  const finalMonthSalary = params.finalMonthPaidBySlip
+    ? 0
+    : Math.round((monthlyGross * finalMonthDays) / daysInMonth(left.year, left.month));
+
+  // Encashment at basic for 26 working days a month, as for gratuity
+  const leaveEncashment = Math.round((lastDrawnBasic * params.leaveBalanceDays) / 26);
+
+  const { serviceYears, gratuityYears } = getServiceYears(params.dateOfJoining, params.dateOfLeaving);
+  const gratuityEligible = serviceYears >= GRATUITY_MIN_YEARS;
+  const gratuity = gratuityEligible ? calculateGratuity(lastDrawnBasic, gratuityYears) : 0;
+
+  // Notice is served in calendar days, so the shortfall is recovered at gross / 30
+  const noticeShortfallDays = Math.max(0, params.noticePeriodDays - params.noticeDaysServed);
+  const noticeRecovery = Math.round((monthlyGross * noticeShortfallDays) / 30);
+
+  const otherEarnings = params.otherEarnings || 0;
+  const otherDeductions = params.otherDeductions || 0;
+  const loanRecovery = Math.round(params.outstandingLoan);
+
+  const totalEarnings = finalMonthSalary + leaveEncashment + gratuity + otherEarnings;
+  const totalDeductions = noticeRecovery + loanRecovery + otherDeductions;
+
+  return {
+    monthlyGross,
+    lastDrawnBasic,
+    serviceYears,
+    gratuityYears,
+    gratuityEligible,
+    finalMonthDays,
+    finalMonthPaidBySlip: params.finalMonthPaidBySlip,
+    finalMonthSalary,
+    leaveBalanceDays: params.leaveBalanceDays,
+    leaveEncashment,
+    gratuity,
+    noticePeriodDays: params.noticePeriodDays,
+    noticeDaysServed: params.noticeDaysServed,
+    noticeShortfallDays,
+    noticeRecovery,
+    loanRecovery,
+    otherEarnings,
+    otherDeductions,
+    totalEarnings,
+    totalDeductions,
+    netPayable: totalEarnings - totalDeductions,
+  };
+}
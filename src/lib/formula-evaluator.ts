@@ -0,0 +1,521 @@
+/**
+ * Salary Formula Evaluator
+ * Type checker and AST interpreter for formulas parsed by formula-parser.ts.
+ *
+ * Formulas run in a closed scope: they can only read the variables passed in
+ * and call the functions registered in FUNCTION_SIGNATURES, which are backed by
+ * the formula-functions library. Nothing else from the host is reachable.
+ */
+
+import * as FormulaFunctions from '@/lib/formula-functions';
+import {
+  Expression,
+  FormulaDiagnostic,
+  FormulaError,
+  FormulaProgram,
+  SourcePosition,
+  parseFormula,
+} from '@/lib/formula-parser';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type FormulaType = 'number' | 'boolean' | 'string' | 'date' | 'array' | 'any';
+
+export type FormulaValue = number | boolean | string | Date | FormulaValue[] | null;
+
+interface FunctionSignature {
+  params: FormulaType[];
+  /** Number of leading params that must be supplied (defaults to params.length) */
+  required?: number;
+  /** Type of any additional arguments; the last param repeats when set */
+  rest?: FormulaType;
+  returns: FormulaType;
+  /** Arguments evaluated on demand instead of up front */
+  lazy?: boolean;
+}
+
+// Aggregates accept numbers and arrays of numbers, e.g. SUM(basic, hra) or SUM([basic, hra])
+const NUMBERS: FunctionSignature = { params: [], rest: 'any', returns: 'number' };
+
+export const FUNCTION_SIGNATURES: Record<string, FunctionSignature> = {
+  // Logical
+  IF: { params: ['boolean', 'any', 'any'], required: 2, returns: 'any', lazy: true },
+  IFS: { params: [], rest: 'any', returns: 'any', lazy: true },
+  AND: { params: ['boolean'], rest: 'boolean', returns: 'boolean' },
+  OR: { params: ['boolean'], rest: 'boolean', returns: 'boolean' },
+  NOT: { params: ['boolean'], returns: 'boolean' },
+  IFERROR: { params: ['any', 'any'], returns: 'any', lazy: true },
+
+  // Math
+  SUM: NUMBERS,
+  AVERAGE: NUMBERS,
+  MIN: NUMBERS,
+  MAX: NUMBERS,
+  COUNT: NUMBERS,
+  COUNTA: NUMBERS,
+  COUNTBLANK: NUMBERS,
+  PRODUCT: NUMBERS,
+  ABS: { params: ['number'], returns: 'number' },
+  ROUND: { params: ['number', 'number'], required: 1, returns: 'number' },
+  ROUNDUP: { params: ['number', 'number'], required: 1, returns: 'number' },
+  ROUNDDOWN: { params: ['number', 'number'], required: 1, returns: 'number' },
+  CEILING: { params: ['number', 'number'], returns: 'number' },
+  FLOOR: { params: ['number', 'number'], returns: 'number' },
+  MOD: { params: ['number', 'number'], returns: 'number' },
+  INT: { params: ['number'], returns: 'number' },
+  SQRT: { params: ['number'], returns: 'number' },
+  POWER: { params: ['number', 'number'], returns: 'number' },
+  RAND: { params: [], returns: 'number' },
+  RANDBETWEEN: { params: ['number', 'number'], returns: 'number' },
+
+  // Text
+  CONCAT: { params: [], rest: 'any', returns: 'string' },
+  TEXTJOIN: { params: ['string', 'boolean'], rest: 'any', returns: 'string' },
+  LEFT: { params: ['string', 'number'], returns: 'string' },
+  RIGHT: { params: ['string', 'number'], returns: 'string' },
+  MID: { params: ['string', 'number', 'number'], returns: 'string' },
+  LEN: { params: ['string'], returns: 'number' },
+  TRIM: { params: ['string'], returns: 'string' },
+  UPPER: { params: ['string'], returns: 'string' },
+  LOWER: { params: ['string'], returns: 'string' },
+  PROPER: { params: ['string'], returns: 'string' },
+  REPLACE: { params: ['string', 'number', 'number', 'string'], returns: 'string' },
+  SUBSTITUTE: { params: ['string', 'string', 'string', 'number'], required: 3, returns: 'string' },
+  FIND: { params: ['string', 'string', 'number'], required: 2, returns: 'number' },
+  SEARCH: { params: ['string', 'string', 'number'], required: 2, returns: 'number' },
+  TEXT: { params: ['number', 'string'], returns: 'string' },
+
+  // Date
+  TODAY: { params: [], returns: 'date' },
+  NOW: { params: [], returns: 'date' },
+  DATE: { params: ['number', 'number', 'number'], returns: 'date' },
+  YEAR: { params: ['date'], returns: 'number' },
+  MONTH: { params: ['date'], returns: 'number' },
+  DAY: { params: ['date'], returns: 'number' },
+  WEEKDAY: { params: ['date'], returns: 'number' },
+  EDATE: { params: ['date', 'number'], returns: 'date' },
+  DATEDIF: { params: ['date', 'date', 'string'], returns: 'number' },
+  NETWORKDAYS: { params: ['date', 'date'], returns: 'number' },
+  WORKDAY: { params: ['date', 'number'], returns: 'date' },
+
+  // Statistical
+  MEDIAN: NUMBERS,
+  MODE: NUMBERS,
+  LARGE: NUMBERS,
+  SMALL: NUMBERS,
+  RANK: { params: ['number', 'array', 'number'], required: 2, returns: 'number' },
+  PERCENTILE: { params: ['array', 'number'], returns: 'number' },
+  STDEV: NUMBERS,
+  VAR: NUMBERS,
+
+  // Conditional
+  SUMIF: { params: ['array', 'string', 'array'], required: 2, returns: 'number' },
+  SUMIFS: { params: ['array'], rest: 'any', returns: 'number' },
+  COUNTIF: { params: ['array', 'string'], returns: 'number' },
+  COUNTIFS: { params: [], rest: 'any', returns: 'number' },
+  AVERAGEIF: { params: ['array', 'string', 'array'], required: 2, returns: 'number' },
+  AVERAGEIFS: { params: ['array'], rest: 'any', returns: 'number' },
+};
+
+const FUNCTION_IMPLEMENTATIONS = FormulaFunctions as unknown as Record<string, (...args: unknown[]) => FormulaValue>;
+
+function getSignature(name: string): FunctionSignature | undefined {
+  return Object.prototype.hasOwnProperty.call(FUNCTION_SIGNATURES, name) ? FUNCTION_SIGNATURES[name] : undefined;
+}
+
+/**
+ * Variables available to the payroll salary formula, with their types.
+ * Keep in sync with the variables passed by payrollAdminService.evaluateSalaryFormula.
+ */
+export const SALARY_FORMULA_VARIABLES: Record<string, FormulaType> = {
+  grossSalary: 'number',
+  totalDaysInMonth: 'number',
+  totalWorkingDays: 'number',
+  basicPercentage: 'number',
+  hraPercentage: 'number',
+  specialPercentage: 'number',
+  allowedPaidLeaves: 'number',
+  includePaidLeavesInPaidDays: 'boolean',
+  present: 'number',
+  wfh: 'number',
+  halfDay: 'number',
+  paidLeave: 'number',
+  leaveTaken: 'number',
+  unpaidLeave: 'number',
+  holidays: 'number',
+  approvedLeave: 'number',
+  unapprovedLeave: 'number',
+  overtimeHours: 'number',
+  overtimeMultiplier: 'number',
+};
+
+// ── Type Checking ─────────────────────────────────────────────────────────────
+
+/** Whether a value of type `actual` can be used where `expected` is required */
+function isAssignable(actual: FormulaType, expected: FormulaType): boolean {
+  if (actual === 'any' || expected === 'any' || actual === expected) return true;
+  // Excel semantics: TRUE/FALSE count as 1/0 and numbers are truthy
+  if (expected === 'number' && actual === 'boolean') return true;
+  if (expected === 'boolean' && actual === 'number') return true;
+  // Text functions stringify numbers, date functions parse date strings
+  if (expected === 'string' && actual === 'number') return true;
+  if (expected === 'date' && actual === 'string') return true;
+  return false;
+}
+
+function typeName(type: FormulaType): string {
+  return type === 'any' ? 'a value' : type === 'array' ? 'an array' : `a ${type}`;
+}
+
+class TypeChecker {
+  readonly diagnostics: FormulaDiagnostic[] = [];
+  private scope: Map<string, FormulaType>;
+
+  constructor(variables: Record<string, FormulaType>) {
+    this.scope = new Map(Object.entries(variables));
+  }
+
+  private report(message: string, pos: SourcePosition, length: number) {
+    this.diagnostics.push({ message, line: pos.line, column: pos.column, length: Math.max(1, length) });
+  }
+
+  private expect(expr: Expression, expected: FormulaType, context: string): FormulaType {
+    const actual = this.check(expr);
+    if (!isAssignable(actual, expected)) {
+      this.report(`${context} must be ${typeName(expected)}, got ${typeName(actual)}`, expr.pos, expr.length);
+    }
+    return actual;
+  }
+
+  checkProgram(program: FormulaProgram, endPos: SourcePosition): void {
+    let hasReturn = false;
+
+    for (const statement of program.statements) {
+      if (hasReturn) {
+        this.report('Statements after return are never evaluated', statement.pos, 1);
+        break;
+      }
+
+      if (statement.kind === 'assignment') {
+        this.scope.set(statement.name, this.check(statement.value));
+        continue;
+      }
+
+      hasReturn = true;
+      const seen = new Set<string>();
+      for (const field of statement.fields) {
+        if (seen.has(field.name)) {
+          this.report(`Result field '${field.name}' is returned more than once`, field.pos, field.name.length);
+        }
+        seen.add(field.name);
+        this.expect(field.value, 'number', `Result field '${field.name}'`);
+      }
+    }
+
+    if (!hasReturn) {
+      this.report('Formula must end with a return statement, e.g. return { basic, hra, special, netSalary };', endPos, 1);
+    }
+  }
+
+  check(expr: Expression): FormulaType {
+    switch (expr.kind) {
+      case 'number':
+        return 'number';
+      case 'string':
+        return 'string';
+      case 'boolean':
+        return 'boolean';
+
+      case 'identifier': {
+        const type = this.scope.get(expr.name);
+        if (type === undefined) {
+          const hint = getSignature(expr.name) ? ` (did you mean ${expr.name}(...)?)` : '';
+          this.report(`Unknown variable '${expr.name}'${hint}`, expr.pos, expr.length);
+          return 'any';
+        }
+        return type;
+      }
+
+      case 'array':
+        expr.elements.forEach((element) => this.check(element));
+        return 'array';
+
+      case 'unary':
+        if (expr.operator === '!') {
+          this.expect(expr.operand, 'boolean', "Operand of '!'");
+          return 'boolean';
+        }
+        this.expect(expr.operand, 'number', `Operand of unary '${expr.operator}'`);
+        return 'number';
+
+      case 'binary':
+        return this.checkBinary(expr);
+
+      case 'conditional': {
+        this.expect(expr.test, 'boolean', 'Condition');
+        const consequent = this.check(expr.consequent);
+        const alternate = this.check(expr.alternate);
+        return consequent === alternate ? consequent : 'any';
+      }
+
+      case 'call':
+        return this.checkCall(expr);
+    }
+  }
+
+  private checkBinary(expr: Extract<Expression, { kind: 'binary' }>): FormulaType {
+    switch (expr.operator) {
+      case '&&':
+      case '||':
+        this.expect(expr.left, 'boolean', `Left side of '${expr.operator}'`);
+        this.expect(expr.right, 'boolean', `Right side of '${expr.operator}'`);
+        return 'boolean';
+
+      case '==':
+      case '!=':
+        this.check(expr.left);
+        this.check(expr.right);
+        return 'boolean';
+
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        this.expect(expr.left, 'number', `Left side of '${expr.operator}'`);
+        this.expect(expr.right, 'number', `Right side of '${expr.operator}'`);
+        return 'boolean';
+
+      default:
+        this.expect(expr.left, 'number', `Left side of '${expr.operator}'`);
+        this.expect(expr.right, 'number', `Right side of '${expr.operator}'`);
+        return 'number';
+    }
+  }
+
+  private checkCall(expr: Extract<Expression, { kind: 'call' }>): FormulaType {
+    const signature = getSignature(expr.callee);
+    if (!signature) {
+      const upper = expr.callee.toUpperCase();
+      const hint = getSignature(upper) ? ` (did you mean ${upper}?)` : '';
+      this.report(`Unknown function '${expr.callee}'${hint}`, expr.pos, expr.callee.length);
+      expr.args.forEach((arg) => this.check(arg));
+      return 'any';
+    }
+
+    const required = signature.required ?? signature.params.length;
+    const max = signature.rest ? Infinity : signature.params.length;
+    if (expr.args.length < required || expr.args.length > max) {
+      const expected = required === max
+        ? `${required}`
+        : max === Infinity ? `at least ${required}` : `${required} to ${max}`;
+      this.report(
+        `${expr.callee} expects ${expected} argument${required === 1 && max === 1 ? '' : 's'}, got ${expr.args.length}`,
+        expr.pos,
+        expr.length
+      );
+    }
+
+    const argTypes = expr.args.map((arg, i) => {
+      const expected = signature.params[i] ?? signature.rest ?? 'any';
+      return this.expect(arg, expected, `Argument ${i + 1} of ${expr.callee}`);
+    });
+
+    // IF returns whichever branch was taken; keep the type when both agree
+    if (expr.callee === 'IF' && argTypes.length === 3 && argTypes[1] === argTypes[2]) {
+      return argTypes[1];
+    }
+    return signature.returns;
+  }
+}
+
+/**
+ * Parse and type-check a formula without running it.
+ * Returns every problem found, with 1-based line/column positions.
+ */
+export function checkFormula(source: string, variables: Record<string, FormulaType>): FormulaDiagnostic[] {
+  const { program, diagnostics } = parseFormula(source);
+  if (diagnostics.length > 0) return diagnostics;
+
+  const lines = source.split('\n');
+  const endPos: SourcePosition = {
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1,
+    offset: source.length,
+  };
+
+  const checker = new TypeChecker(variables);
+  checker.checkProgram(program, endPos);
+  return checker.diagnostics;
+}
+
+/**
+ * Check a payroll salary formula against the salary variable scope
+ */
+export function checkSalaryFormula(source: string): FormulaDiagnostic[] {
+  return checkFormula(source, SALARY_FORMULA_VARIABLES);
+}
+
+// ── Evaluation ────────────────────────────────────────────────────────────────
+
+function runtimeError(message: string, expr: Expression): FormulaError {
+  return new FormulaError([
+    { message, line: expr.pos.line, column: expr.pos.column, length: expr.length },
+  ]);
+}
+
+function toNumber(value: FormulaValue, expr: Expression): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  throw runtimeError(`Expected a number, got ${value === null ? 'nothing' : typeof value}`, expr);
+}
+
+class Interpreter {
+  private scope: Map<string, FormulaValue>;
+
+  constructor(variables: Record<string, FormulaValue>) {
+    this.scope = new Map(Object.entries(variables));
+  }
+
+  run(program: FormulaProgram): Record<string, number> {
+    for (const statement of program.statements) {
+      if (statement.kind === 'assignment') {
+        this.scope.set(statement.name, this.evaluate(statement.value));
+        continue;
+      }
+
+      const result: Record<string, number> = {};
+      for (const field of statement.fields) {
+        const value = toNumber(this.evaluate(field.value), field.value);
+        if (!Number.isFinite(value)) {
+          throw runtimeError(`Result field '${field.name}' is not a finite number`, field.value);
+        }
+        result[field.name] = value;
+      }
+      return result;
+    }
+    throw new FormulaError([{ message: 'Formula did not return a result', line: 1, column: 1, length: 1 }]);
+  }
+
+  evaluate(expr: Expression): FormulaValue {
+    switch (expr.kind) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return expr.value;
+
+      case 'identifier':
+        if (!this.scope.has(expr.name)) {
+          throw runtimeError(`Unknown variable '${expr.name}'`, expr);
+        }
+        return this.scope.get(expr.name)!;
+
+      case 'array':
+        return expr.elements.map((element) => this.evaluate(element));
+
+      case 'unary': {
+        const operand = this.evaluate(expr.operand);
+        if (expr.operator === '!') return !operand;
+        const n = toNumber(operand, expr.operand);
+        return expr.operator === '-' ? -n : n;
+      }
+
+      case 'conditional':
+        return this.evaluate(expr.test) ? this.evaluate(expr.consequent) : this.evaluate(expr.alternate);
+
+      case 'binary':
+        return this.evaluateBinary(expr);
+
+      case 'call':
+        return this.evaluateCall(expr);
+    }
+  }
+
+  private evaluateBinary(expr: Extract<Expression, { kind: 'binary' }>): FormulaValue {
+    // Short-circuit so the untaken side can't raise (e.g. x > 0 && y / x > 1)
+    if (expr.operator === '&&') return !!this.evaluate(expr.left) && !!this.evaluate(expr.right);
+    if (expr.operator === '||') return !!this.evaluate(expr.left) || !!this.evaluate(expr.right);
+
+    const left = this.evaluate(expr.left);
+    const right = this.evaluate(expr.right);
+
+    if (expr.operator === '==') return valuesEqual(left, right);
+    if (expr.operator === '!=') return !valuesEqual(left, right);
+
+    const a = toNumber(left, expr.left);
+    const b = toNumber(right, expr.right);
+    switch (expr.operator) {
+      case '+': return a + b;
+      case '-': return a - b;
+      case '*': return a * b;
+      case '/':
+        if (b === 0) throw runtimeError('Division by zero', expr.right);
+        return a / b;
+      case '%':
+        if (b === 0) throw runtimeError('Division by zero', expr.right);
+        return a % b;
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '>': return a > b;
+      case '>=': return a >= b;
+    }
+  }
+
+  private evaluateCall(expr: Extract<Expression, { kind: 'call' }>): FormulaValue {
+    const signature = getSignature(expr.callee);
+    if (!signature) {
+      throw runtimeError(`Unknown function '${expr.callee}'`, expr);
+    }
+
+    if (signature.lazy) {
+      return this.evaluateLazyCall(expr);
+    }
+
+    const args = expr.args.map((arg) => this.evaluate(arg));
+    return FUNCTION_IMPLEMENTATIONS[expr.callee](...args);
+  }
+
+  /** IF, IFS and IFERROR only evaluate the branch they return */
+  private evaluateLazyCall(expr: Extract<Expression, { kind: 'call' }>): FormulaValue {
+    const { args } = expr;
+
+    if (expr.callee === 'IF') {
+      if (this.evaluate(args[0])) return this.evaluate(args[1]);
+      return args.length > 2 ? this.evaluate(args[2]) : false;
+    }
+
+    if (expr.callee === 'IFS') {
+      for (let i = 0; i < args.length - 1; i += 2) {
+        if (this.evaluate(args[i])) return this.evaluate(args[i + 1]);
+      }
+      return args.length % 2 === 1 ? this.evaluate(args[args.length - 1]) : null;
+    }
+
+    // IFERROR: FormulaFunctions.IFERROR accepts a thunk and catches its errors
+    return FormulaFunctions.IFERROR(() => this.evaluate(args[0]), this.evaluate(args[1]));
+  }
+}
+
+function valuesEqual(a: FormulaValue, b: FormulaValue): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (typeof a === 'boolean' && typeof b === 'number') return (a ? 1 : 0) === b;
+  if (typeof a === 'number' && typeof b === 'boolean') return a === (b ? 1 : 0);
+  return a === b;
+}
+
+/**
+ * Check and evaluate a formula, returning the numeric fields of its return object.
+ * Throws FormulaError (with positions) if the formula is invalid or fails at runtime.
+ */
+export function evaluateFormula(
+  source: string,
+  variables: Record<string, FormulaValue>,
+  types: Record<string, FormulaType>
+): Record<string, number> {
+  const diagnostics = checkFormula(source, types);
+  if (diagnostics.length > 0) {
+    throw new FormulaError(diagnostics);
+  }
+
+  const { program } = parseFormula(source);
+  return new Interpreter(variables).run(program);
+}
@@ -0,0 +1,512 @@
+/**
+ * Salary Formula Parser
+ * Tokenizer and recursive-descent parser for the salary formula language.
+ *
+ * The language is a small, side-effect free subset of the syntax admins already
+ * write in the Formula Editor:
+ *
+ *   unpaidLeave = MAX(0, leaveTaken - allowedPaidLeaves);
+ *   const proratedGross = grossSalary - (grossSalary * unpaidLeave) / 26;
+ *   return { paidDays, basic, hra, special, totalDeductions, netSalary };
+ *
+ * There are no loops, member access or user-defined functions, so a parsed
+ * formula can only read the variables and call the functions the evaluator
+ * exposes (see formula-evaluator.ts).
+ */
+
+// ── Diagnostics ───────────────────────────────────────────────────────────────
+
+export interface SourcePosition {
+  line: number;    // 1-based
+  column: number;  // 1-based
+  offset: number;  // 0-based index into the source
+}
+
+export interface FormulaDiagnostic {
+  message: string;
+  line: number;
+  column: number;
+  length: number;
+}
+
+/** Thrown when a formula cannot be parsed, type-checked or evaluated */
+export class FormulaError extends Error {
+  constructor(public diagnostics: FormulaDiagnostic[]) {
+    super(diagnostics.map(formatDiagnostic).join('\n'));
+    this.name = 'FormulaError';
+  }
+}
+
+/** Format a diagnostic as "Line 2, column 14: message" */
+export function formatDiagnostic(diagnostic: FormulaDiagnostic): string {
+  return `Line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`;
+}
+
+function diagnosticAt(message: string, pos: SourcePosition, length = 1): FormulaDiagnostic {
+  return { message, line: pos.line, column: pos.column, length: Math.max(1, length) };
+}
+
+// ── Tokens ────────────────────────────────────────────────────────────────────
+
+type TokenType = 'number' | 'string' | 'identifier' | 'punct' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  pos: SourcePosition;
+}
+
+// Longest operators first so "===" wins over "==" and "="
+const PUNCTUATORS = [
+  '===', '!==',
+  '==', '!=', '<>', '<=', '>=', '&&', '||',
+  '(', ')', '[', ']', '{', '}', ',', ';', ':', '?', '=',
+  '+', '-', '*', '/', '%', '!', '<', '>',
+];
+
+function tokenize(source: string): { tokens: Token[]; diagnostics: FormulaDiagnostic[] } {
+  const tokens: Token[] = [];
+  const diagnostics: FormulaDiagnostic[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const here = (): SourcePosition => ({ line, column, offset });
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  while (offset < source.length) {
+    const ch = source[offset];
+    const rest = source.slice(offset);
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      advance(1);
+      continue;
+    }
+
+    // Comments
+    if (rest.startsWith('//')) {
+      const end = source.indexOf('\n', offset);
+      advance((end === -1 ? source.length : end) - offset);
+      continue;
+    }
+    if (rest.startsWith('/*')) {
+      const start = here();
+      const end = source.indexOf('*/', offset + 2);
+      if (end === -1) {
+        diagnostics.push(diagnosticAt('Unterminated comment', start, 2));
+        advance(source.length - offset);
+      } else {
+        advance(end + 2 - offset);
+      }
+      continue;
+    }
+
+    // Numbers: 12, 0.5, .5, 1e3
+    const numberMatch = rest.match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/);
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: numberMatch[0], pos: here() });
+      advance(numberMatch[0].length);
+      continue;
+    }
+
+    // Identifiers and keywords
+    const identMatch = rest.match(/^[A-Za-z_$][\w$]*/);
+    if (identMatch) {
+      tokens.push({ type: 'identifier', value: identMatch[0], pos: here() });
+      advance(identMatch[0].length);
+      continue;
+    }
+
+    // Strings: '...' or "..."
+    if (ch === '"' || ch === "'") {
+      const start = here();
+      let value = '';
+      let i = offset + 1;
+      let closed = false;
+      while (i < source.length && source[i] !== '\n') {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const escaped = source[i + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+          continue;
+        }
+        if (source[i] === ch) {
+          closed = true;
+          break;
+        }
+        value += source[i];
+        i++;
+      }
+      if (!closed) {
+        diagnostics.push(diagnosticAt('Unterminated string', start, i - offset));
+        advance(i - offset);
+        continue;
+      }
+      tokens.push({ type: 'string', value, pos: start });
+      advance(i + 1 - offset);
+      continue;
+    }
+
+    const punct = PUNCTUATORS.find((p) => rest.startsWith(p));
+    if (punct) {
+      tokens.push({ type: 'punct', value: punct, pos: here() });
+      advance(punct.length);
+      continue;
+    }
+
+    diagnostics.push(diagnosticAt(`Unexpected character '${ch}'`, here()));
+    advance(1);
+  }
+
+  tokens.push({ type: 'eof', value: '', pos: here() });
+  return { tokens, diagnostics };
+}
+
+// ── AST ───────────────────────────────────────────────────────────────────────
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '<' | '<=' | '>' | '>='
+  | '==' | '!='
+  | '&&' | '||';
+
+export type Expression =
+  | { kind: 'number'; value: number; pos: SourcePosition; length: number }
+  | { kind: 'string'; value: string; pos: SourcePosition; length: number }
+  | { kind: 'boolean'; value: boolean; pos: SourcePosition; length: number }
+  | { kind: 'identifier'; name: string; pos: SourcePosition; length: number }
+  | { kind: 'array'; elements: Expression[]; pos: SourcePosition; length: number }
+  | { kind: 'call'; callee: string; args: Expression[]; pos: SourcePosition; length: number }
+  | { kind: 'unary'; operator: '-' | '+' | '!'; operand: Expression; pos: SourcePosition; length: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression; pos: SourcePosition; length: number }
+  | { kind: 'conditional'; test: Expression; consequent: Expression; alternate: Expression; pos: SourcePosition; length: number };
+
+export interface AssignmentStatement {
+  kind: 'assignment';
+  name: string;
+  value: Expression;
+  pos: SourcePosition;
+}
+
+export interface ReturnField {
+  name: string;
+  value: Expression;
+  pos: SourcePosition;
+}
+
+export interface ReturnStatement {
+  kind: 'return';
+  fields: ReturnField[];
+  pos: SourcePosition;
+}
+
+export type Statement = AssignmentStatement | ReturnStatement;
+
+export interface FormulaProgram {
+  statements: Statement[];
+}
+
+// ── Parser ────────────────────────────────────────────────────────────────────
+
+const DECLARATION_KEYWORDS = new Set(['const', 'let', 'var']);
+const RESERVED_WORDS = new Set([
+  'const', 'let', 'var', 'return', 'true', 'false', 'TRUE', 'FALSE',
+  'function', 'new', 'this', 'import', 'delete', 'typeof', 'while', 'for',
+]);
+
+/** Internal signal used to abort parsing after the first syntax error */
+class ParseAbort extends Error {}
+
+class Parser {
+  private index = 0;
+  readonly diagnostics: FormulaDiagnostic[] = [];
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private isPunct(value: string, ahead = 0): boolean {
+    const token = this.peek(ahead);
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    this.diagnostics.push(diagnosticAt(message, token.pos, token.value.length));
+    throw new ParseAbort(message);
+  }
+
+  private expectPunct(value: string, context: string): Token {
+    if (!this.isPunct(value)) {
+      this.fail(`Expected '${value}' ${context} but found ${describe(this.peek())}`);
+    }
+    return this.next();
+  }
+
+  /** Distance in characters from `start` to the end of the previously consumed token */
+  private lengthFrom(start: SourcePosition): number {
+    const last = this.tokens[Math.max(0, this.index - 1)];
+    const lastEnd = last.pos.offset + tokenSourceLength(last, this.source);
+    return Math.max(1, lastEnd - start.offset);
+  }
+
+  parseProgram(): FormulaProgram {
+    const statements: Statement[] = [];
+    try {
+      while (this.peek().type !== 'eof') {
+        if (this.isPunct(';')) {
+          this.next();
+          continue;
+        }
+        statements.push(this.parseStatement());
+        if (this.isPunct(';')) this.next();
+      }
+    } catch (error) {
+      if (!(error instanceof ParseAbort)) throw error;
+    }
+    return { statements };
+  }
+
+  private parseStatement(): Statement {
+    const token = this.peek();
+
+    if (token.type === 'identifier' && token.value === 'return') {
+      return this.parseReturn();
+    }
+
+    if (token.type === 'identifier' && DECLARATION_KEYWORDS.has(token.value)) {
+      this.next();
+    }
+
+    const nameToken = this.next();
+    if (nameToken.type !== 'identifier' || RESERVED_WORDS.has(nameToken.value)) {
+      this.fail(`Expected a variable name but found ${describe(nameToken)}`, nameToken);
+    }
+    this.expectPunct('=', `after '${nameToken.value}'`);
+    const value = this.parseExpression();
+    return { kind: 'assignment', name: nameToken.value, value, pos: nameToken.pos };
+  }
+
+  private parseReturn(): ReturnStatement {
+    const returnToken = this.next();
+    this.expectPunct('{', "after 'return'");
+    const fields: ReturnField[] = [];
+
+    while (!this.isPunct('}')) {
+      const nameToken = this.next();
+      if (nameToken.type !== 'identifier') {
+        this.fail(`Expected a result field name but found ${describe(nameToken)}`, nameToken);
+      }
+
+      if (this.isPunct(':')) {
+        this.next();
+        fields.push({ name: nameToken.value, value: this.parseExpression(), pos: nameToken.pos });
+      } else {
+        // Shorthand { basic } means { basic: basic }
+        fields.push({
+          name: nameToken.value,
+          value: { kind: 'identifier', name: nameToken.value, pos: nameToken.pos, length: nameToken.value.length },
+          pos: nameToken.pos,
+        });
+      }
+
+      if (this.isPunct(',')) {
+        this.next();
+      } else if (!this.isPunct('}')) {
+        this.fail(`Expected ',' or '}' in return object but found ${describe(this.peek())}`);
+      }
+    }
+    this.next(); // consume '}'
+
+    return { kind: 'return', fields, pos: returnToken.pos };
+  }
+
+  parseExpression(): Expression {
+    return this.parseConditional();
+  }
+
+  private parseConditional(): Expression {
+    const test = this.parseBinary(0);
+    if (!this.isPunct('?')) return test;
+    this.next();
+    const consequent = this.parseConditional();
+    this.expectPunct(':', "in conditional expression");
+    const alternate = this.parseConditional();
+    return { kind: 'conditional', test, consequent, alternate, pos: test.pos, length: this.lengthFrom(test.pos) };
+  }
+
+  private parseBinary(level: number): Expression {
+    if (level >= BINARY_PRECEDENCE.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'punct' || !BINARY_PRECEDENCE[level].includes(token.value)) break;
+      this.next();
+      const right = this.parseBinary(level + 1);
+      left = {
+        kind: 'binary',
+        operator: normalizeOperator(token.value),
+        left,
+        right,
+        pos: left.pos,
+        length: this.lengthFrom(left.pos),
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (token.type === 'punct' && (token.value === '-' || token.value === '+' || token.value === '!')) {
+      this.next();
+      const operand = this.parseUnary();
+      return {
+        kind: 'unary',
+        operator: token.value as '-' | '+' | '!',
+        operand,
+        pos: token.pos,
+        length: this.lengthFrom(token.pos),
+      };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: Number(token.value), pos: token.pos, length: token.value.length };
+
+      case 'string':
+        return { kind: 'string', value: token.value, pos: token.pos, length: this.lengthFrom(token.pos) };
+
+      case 'identifier': {
+        if (token.value === 'true' || token.value === 'TRUE') {
+          return { kind: 'boolean', value: true, pos: token.pos, length: token.value.length };
+        }
+        if (token.value === 'false' || token.value === 'FALSE') {
+          return { kind: 'boolean', value: false, pos: token.pos, length: token.value.length };
+        }
+        if (RESERVED_WORDS.has(token.value)) {
+          this.fail(`'${token.value}' is not allowed in a formula`, token);
+        }
+        if (this.isPunct('(')) {
+          this.next();
+          const args = this.parseList(')', 'function arguments');
+          return { kind: 'call', callee: token.value, args, pos: token.pos, length: this.lengthFrom(token.pos) };
+        }
+        return { kind: 'identifier', name: token.value, pos: token.pos, length: token.value.length };
+      }
+
+      case 'punct':
+        if (token.value === '(') {
+          const inner = this.parseExpression();
+          this.expectPunct(')', 'to close the parenthesis');
+          return inner;
+        }
+        if (token.value === '[') {
+          const elements = this.parseList(']', 'array');
+          return { kind: 'array', elements, pos: token.pos, length: this.lengthFrom(token.pos) };
+        }
+        return this.fail(`Unexpected ${describe(token)}`, token);
+
+      default:
+        return this.fail('Unexpected end of formula', token);
+    }
+  }
+
+  private parseList(close: string, context: string): Expression[] {
+    const items: Expression[] = [];
+    if (this.isPunct(close)) {
+      this.next();
+      return items;
+    }
+    for (;;) {
+      items.push(this.parseExpression());
+      if (this.isPunct(',')) {
+        this.next();
+        continue;
+      }
+      this.expectPunct(close, `to close ${context}`);
+      return items;
+    }
+  }
+}
+
+// Lowest precedence first
+const BINARY_PRECEDENCE: string[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '===', '!=', '!==', '<>'],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+function normalizeOperator(op: string): BinaryOperator {
+  if (op === '===') return '==';
+  if (op === '!==' || op === '<>') return '!=';
+  return op as BinaryOperator;
+}
+
+function tokenSourceLength(token: Token, source: string): number {
+  if (token.type !== 'string') return token.value.length;
+  // Strings may contain escapes, so measure the raw source up to the closing quote
+  const quote = source[token.pos.offset];
+  let i = token.pos.offset + 1;
+  while (i < source.length && source[i] !== quote) {
+    i += source[i] === '\\' ? 2 : 1;
+  }
+  return i + 1 - token.pos.offset;
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'eof':
+      return 'end of formula';
+    case 'string':
+      return 'a string';
+    case 'number':
+      return `number ${token.value}`;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a formula into an AST.
+ * Syntax errors are reported as diagnostics; the program is only usable when
+ * the diagnostics list is empty.
+ */
+export function parseFormula(source: string): { program: FormulaProgram; diagnostics: FormulaDiagnostic[] } {
+  const { tokens, diagnostics } = tokenize(source);
+  if (diagnostics.length > 0) {
+    return { program: { statements: [] }, diagnostics };
+  }
+
+  const parser = new Parser(tokens, source);
+  const program = parser.parseProgram();
+  return { program, diagnostics: parser.diagnostics };
+}
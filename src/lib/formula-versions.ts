@@ -0,0 +1,101 @@
+/**
+ * Salary Formula Versions
+ * Picks the formula version in effect for a payroll month and diffs two
+ * formulas line by line for the side-by-side history view.
+ */
+
+import { SalaryFormulaVersion } from '@/types/payroll.types';
+
+export interface FormulaDiffRow {
+  type: 'same' | 'removed' | 'added' | 'changed';
+  left: string | null;          // line in the older formula
+  right: string | null;         // line in the newer formula
+  leftLine: number | null;      // 1-based line numbers
+  rightLine: number | null;
+}
+
+function periodIndex(month: number, year: number): number {
+  return year * 12 + month;
+}
+
+/** Oldest effective month first; versions saved later win ties */
+export function sortFormulaVersions(versions: SalaryFormulaVersion[]): SalaryFormulaVersion[] {
+  return [...versions].sort(
+    (a, b) =>
+      periodIndex(a.effectiveMonth, a.effectiveYear) - periodIndex(b.effectiveMonth, b.effectiveYear) ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+/**
+ * The version in effect for a month (0-11): the latest effective-from month
+ * not after it. Null when every version takes effect later.
+ */
+export function getEffectiveFormulaVersion(
+  versions: SalaryFormulaVersion[],
+  month: number,
+  year: number
+): SalaryFormulaVersion | null {
+  const target = periodIndex(month, year);
+  const inEffect = sortFormulaVersions(versions).filter(
+    (version) => periodIndex(version.effectiveMonth, version.effectiveYear) <= target
+  );
+  return inEffect[inEffect.length - 1] ?? null;
+}
+
+/**
+ * Line diff of two formulas (longest common subsequence). Runs of removed
+ * lines followed by added lines are paired up as 'changed' rows so they sit
+ * side by side.
+ */
+export function diffFormulas(before: string, after: string): FormulaDiffRow[] {
+  const left = before ? before.split('\n') : [];
+  const right = after ? after.split('\n') : [];
+
+  // lcs[i][j] = common lines between left[i..] and right[j..]
+  const lcs: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lcs[i][j] = left[i] === right[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: FormulaDiffRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const l = k < removed.length ? removed[k] : null;
+      const r = k < added.length ? added[k] : null;
+      rows.push({
+        type: k < paired ? 'changed' : l !== null ? 'removed' : 'added',
+        left: l !== null ? left[l] : null,
+        right: r !== null ? right[r] : null,
+        leftLine: l !== null ? l + 1 : null,
+        rightLine: r !== null ? r + 1 : null,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      flush();
+      rows.push({ type: 'same', left: left[i], right: right[j], leftLine: i + 1, rightLine: j + 1 });
+      i++;
+      j++;
+    } else if (j >= right.length || (i < left.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flush();
+
+  return rows;
+}
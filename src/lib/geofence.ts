@@ -0,0 +1,83 @@
+/**
+ * Geofenced Attendance
+ * Matches a clock-in/out location to the sites an employee may punch at and
+ * decides whether the punch goes through. Under a policy that requires
+ * geolocation, punches outside every fence are refused; otherwise they are
+ * recorded with the distance to the nearest site.
+ */
+
+import { calculateDistance } from '@/utils/geolocation';
+import { AttendancePolicy, AttendanceSite, GeofenceMatch, GeolocationCoordinates } from '@/types/attendance.types';
+
+/** Used when no active attendance policy sets a radius */
+export const DEFAULT_GEOFENCE_RADIUS = 200;
+
+export type GeofencePolicy = Pick<AttendancePolicy, 'geolocationRequired' | 'geolocationRadius'>;
+
+/**
+ * The site a location falls within (the nearest, when fences overlap), or
+ * the nearest site when it is outside them all
+ */
+export function matchSite(
+  location: GeolocationCoordinates,
+  sites: AttendanceSite[],
+  defaultRadius: number
+): GeofenceMatch {
+  let nearest: { site: AttendanceSite; distance: number; within: boolean } | null = null;
+
+  for (const site of sites) {
+    const distance = calculateDistance(location, site);
+    const within = distance <= (site.radius ?? defaultRadius);
+    const better = !nearest
+      || (within && !nearest.within)
+      || (within === nearest.within && distance < nearest.distance);
+    if (better) nearest = { site, distance, within };
+  }
+
+  if (!nearest) {
+    return { siteId: null, siteName: null, siteType: null, distance: null, withinFence: false };
+  }
+  return {
+    siteId: nearest.site.id,
+    siteName: nearest.site.name,
+    siteType: nearest.site.type,
+    distance: Math.round(nearest.distance),
+    withinFence: nearest.within,
+  };
+}
+
+/** e.g. "350 m" or "2.4 km" */
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+/**
+ * Check a punch against the employee's sites for the day. Returns the match
+ * to record on the attendance record (null when there is nothing to match),
+ * or the reason the punch is refused.
+ */
+export function evaluatePunch(
+  punch: 'clock in' | 'clock out',
+  location: GeolocationCoordinates | undefined,
+  sites: AttendanceSite[],
+  policy: GeofencePolicy
+): { match: GeofenceMatch | null; error: string | null } {
+  // Geofencing starts once sites are set up
+  if (sites.length === 0) return { match: null, error: null };
+
+  if (!location) {
+    return {
+      match: null,
+      error: policy.geolocationRequired ? `Your location is required to ${punch}` : null,
+    };
+  }
+
+  const match = matchSite(location, sites, policy.geolocationRadius);
+  if (match.withinFence || !policy.geolocationRequired) return { match, error: null };
+
+  return {
+    match,
+    error: `You are ${formatDistance(match.distance!)} from ${match.siteName}. `
+      + `You can only ${punch} at an office or a client you are rostered at today.`,
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Holiday Calendars
+ * Works out which holiday calendar an employee follows, the holidays they
+ * observe under it (fixed ones and the optional ones they claimed), leave
+ * days net of those holidays, and reads and writes calendars as iCalendar
+ * (.ics) and CSV. Days are attendance days (YYYY-MM-DD, IST).
+ */
+
+import { addDays } from '@/lib/comp-off';
+import { PolicyTarget } from '@/lib/attendance-policy';
+import { parseCSV } from '@/utils/csv-parser';
+import {
+  EmployeeHolidays,
+  Holiday,
+  HolidayCalendar,
+  HolidayImportRow,
+  OptionalHolidayClaim,
+} from '@/types/attendance.types';
+
+/** Optional holidays an employee may claim a year when a calendar does not say */
+export const DEFAULT_OPTIONAL_HOLIDAY_QUOTA = 2;
+
+/** Shown for employees on the original company-wide list */
+export const COMPANY_HOLIDAY_LIST_NAME = 'Company holidays';
+
+export interface HolidayImportResult {
+  rows: HolidayImportRow[];
+  errors: { row: number; error: string }[];
+}
+
+function isValidDate(date: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && new Date(`${date}T12:00:00Z`).toISOString().slice(0, 10) === date;
+}
+
+function byLatestUpdate(a: HolidayCalendar, b: HolidayCalendar): number {
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
+
+/**
+ * The calendar an employee follows: one listing them, else one listing a
+ * team they are in, else the default calendar; null when none applies and the
+ * company-wide list is used. The latest updated wins when several match.
+ */
+export function resolveHolidayCalendar(calendars: HolidayCalendar[], target: PolicyTarget): HolidayCalendar | null {
+  const sorted = [...calendars].sort(byLatestUpdate);
+  return (
+    sorted.find((calendar) => calendar.employeeIds?.includes(target.employeeId)) ??
+    sorted.find((calendar) => calendar.teamIds?.some((teamId) => target.teamIds.includes(teamId))) ??
+    sorted.find((calendar) => calendar.isDefault) ??
+    null
+  );
+}
+
+/** A calendar's holidays in date order; the default calendar (or none) includes the company-wide list */
+export function getCalendarHolidays(calendar: HolidayCalendar | null, holidays: Holiday[]): Holiday[] {
+  return holidays
+    .filter((holiday) =>
+      holiday.calendarId ? holiday.calendarId === calendar?.id : !calendar || calendar.isDefault
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name));
+}
+
+/**
+ * The holidays an employee observes under `calendar`: its fixed holidays and
+ * the optional ones among `claims` (the employee's own)
+ */
+export function buildEmployeeHolidays(
+  calendar: HolidayCalendar | null,
+  holidays: Holiday[],
+  claims: OptionalHolidayClaim[]
+): EmployeeHolidays {
+  const claimed = new Set(claims.map((claim) => claim.holidayId));
+  const calendarHolidays = getCalendarHolidays(calendar, holidays);
+  return {
+    calendarId: calendar?.id ?? null,
+    calendarName: calendar?.name ?? COMPANY_HOLIDAY_LIST_NAME,
+    optionalHolidayQuota: calendar?.optionalHolidayQuota ?? DEFAULT_OPTIONAL_HOLIDAY_QUOTA,
+    holidays: calendarHolidays.filter((holiday) => !holiday.isOptional || claimed.has(holiday.id)),
+    optionalHolidays: calendarHolidays
+      .filter((holiday) => holiday.isOptional)
+      .map((holiday) => ({ ...holiday, claimed: claimed.has(holiday.id) })),
+  };
+}
+
+/**
+ * Why an employee cannot claim an optional holiday on `today`, or null when
+ * they can: it must be optional on their calendar, not yet claimed, still to
+ * come, and within the calendar's quota for its year
+ */
+export function getOptionalHolidayClaimError(
+  employeeHolidays: EmployeeHolidays,
+  holidayId: string,
+  today: string
+): string | null {
+  const holiday = employeeHolidays.optionalHolidays.find((h) => h.id === holidayId);
+  if (!holiday) return 'This is not an optional holiday on your calendar';
+  if (holiday.claimed) return 'You have already claimed this holiday';
+  if (holiday.date < today) return 'Optional holidays can only be claimed before the day';
+
+  const year = holiday.date.slice(0, 4);
+  const quota = employeeHolidays.optionalHolidayQuota;
+  const claimedInYear = employeeHolidays.optionalHolidays.filter(
+    (h) => h.claimed && h.date.startsWith(year)
+  ).length;
+  if (claimedInYear >= quota) {
+    return `You have already claimed ${quota} optional holiday${quota === 1 ? '' : 's'} for ${year}`;
+  }
+  return null;
+}
+
+/** Days of leave from startDate to endDate (inclusive) that are not holidays */
+export function countLeaveDays(startDate: string, endDate: string, holidayDates: Set<string>): number {
+  let days = 0;
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    if (!holidayDates.has(date)) days++;
+  }
+  return days;
+}
+
+// ============================================================================
+// iCalendar
+// ============================================================================
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Lines longer than 75 characters continue on the next line after a space */
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i === 0 ? 75 : i + 74));
+  }
+  return parts.join('\r\n ');
+}
+
+function toIcsDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function fromIcsDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return isValidDate(date) ? date : null;
+}
+
+/**
+ * Read holidays from iCalendar content. Each VEVENT's SUMMARY is the name;
+ * an all-day event spanning several days becomes one holiday a day. Events
+ * with an "Optional" or "Restricted" category are optional holidays.
+ */
+export function parseIcs(content: string): HolidayImportResult {
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const rows: HolidayImportRow[] = [];
+  const errors: HolidayImportResult['errors'] = [];
+
+  let event: Record<string, { params: string; value: string }> | null = null;
+  let eventCount = 0;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      eventCount++;
+      continue;
+    }
+    if (line === 'END:VEVENT' && event) {
+      const start = event.DTSTART ? fromIcsDate(event.DTSTART.value) : null;
+      const name = event.SUMMARY ? unescapeIcsText(event.SUMMARY.value).trim() : '';
+      if (!start) {
+        errors.push({ row: eventCount, error: 'Event has no valid start date' });
+      } else if (!name) {
+        errors.push({ row: eventCount, error: `Event on ${start} has no name` });
+      } else {
+        const allDayEnd =
+          event.DTEND && event.DTSTART.params.includes('VALUE=DATE') ? fromIcsDate(event.DTEND.value) : null;
+        const categories = event.CATEGORIES ? unescapeIcsText(event.CATEGORIES.value).toLowerCase() : '';
+        const holiday = {
+          name: name.slice(0, 100),
+          description: event.DESCRIPTION ? unescapeIcsText(event.DESCRIPTION.value).trim() : '',
+          isOptional: /optional|restricted/.test(categories),
+        };
+        // An all-day DTEND is the day after the last day
+        const last = allDayEnd && allDayEnd > start ? addDays(allDayEnd, -1) : start;
+        for (let date = start; date <= last; date = addDays(date, 1)) {
+          rows.push({ date, ...holiday });
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const match = line.match(/^([A-Z-]+)((?:;[^:]*)?):(.*)$/);
+    if (match) event[match[1]] = { params: match[2], value: match[3] };
+  }
+
+  if (eventCount === 0) errors.push({ row: 0, error: 'No events found in the calendar file' });
+  return { rows, errors };
+}
+
+/** A calendar's holidays as iCalendar content, one all-day event per holiday */
+export function buildIcs(calendarName: string, holidays: Holiday[], now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Attendance//Holiday Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+  ];
+  for (const holiday of holidays) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:holiday-${holiday.id}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(holiday.date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(addDays(holiday.date, 1))}`,
+      `SUMMARY:${escapeIcsText(holiday.name)}`
+    );
+    if (holiday.description) lines.push(`DESCRIPTION:${escapeIcsText(holiday.description)}`);
+    if (holiday.isOptional) lines.push('CATEGORIES:Optional');
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+export const HOLIDAY_CSV_HEADERS = ['Date', 'Name', 'Description', 'Optional'];
+
+function escapeCsvValue(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** DD-MM-YYYY and DD/MM/YYYY are read too, as spreadsheets often write them */
+function parseCsvDate(value: string): string | null {
+  const dayFirst = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  const date = dayFirst ? `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}` : value;
+  return isValidDate(date) ? date : null;
+}
+
+/**
+ * Read holidays from CSV content with Date, Name, Description and Optional
+ * columns (header names are not case sensitive; Optional is yes/true/1)
+ */
+export function parseHolidayCsv(content: string): HolidayImportResult {
+  const parsed = parseCSV<Record<string, string>>(content.replace(/^\uFEFF/, '').replace(/\r/g, ''));
+  const rows: HolidayImportRow[] = [];
+  const errors = [...parsed.errors];
+
+  parsed.data.forEach((raw, index) => {
+    const row = Object.fromEntries(Object.entries(raw).map(([key, value]) => [key.trim().toLowerCase(), value]));
+    const rowNumber = index + 2;
+    const date = parseCsvDate(row.date || '');
+    const name = (row.name || '').trim();
+    if (!date) {
+      errors.push({ row: rowNumber, error: `Invalid date "${row.date || ''}"; use YYYY-MM-DD` });
+    } else if (!name) {
+      errors.push({ row: rowNumber, error: 'Holiday name is required' });
+    } else {
+      rows.push({
+        date,
+        name: name.slice(0, 100),
+        description: (row.description || '').trim(),
+        isOptional: /^(yes|y|true|1)$/i.test((row.optional || '').trim()),
+      });
+    }
+  });
+
+  return { rows, errors };
+}
+
+/** A calendar's holidays as CSV, in the columns parseHolidayCsv reads */
+export function buildHolidayCsv(holidays: Holiday[]): string {
+  return [
+    HOLIDAY_CSV_HEADERS.join(','),
+    ...holidays.map((holiday) =>
+      [holiday.date, holiday.name, holiday.description, holiday.isOptional ? 'Yes' : 'No'].map(escapeCsvValue).join(',')
+    ),
+  ].join('\n');
+}
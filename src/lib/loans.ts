@@ -0,0 +1,164 @@
+/**
+ * Employee Loans & Salary Advances
+ * EMI calculation, the EMI due in a payroll month and the outstanding-balance
+ * statement for a loan. Everything is derived from the loan's transaction
+ * ledger: interest is charged monthly on the reducing balance when an EMI is
+ * recovered, so paused or skipped months simply push the schedule out and
+ * prepayments shorten it while the EMI stays the same.
+ */
+
+import {
+  EmployeeLoan,
+  LoanInstallment,
+  LoanLedgerEntry,
+  LoanPeriod,
+  LoanRecovery,
+  LoanStatement,
+  SalaryBreakup,
+} from '@/types/payroll.types';
+
+// Guards schedule projection against an EMI that never covers the interest
+const MAX_SCHEDULE_MONTHS = 600;
+
+/** Equated monthly instalment on the reducing balance, rounded up to the rupee */
+export function calculateEmi(principal: number, annualRate: number, tenureMonths: number): number {
+  if (principal <= 0 || tenureMonths <= 0) return 0;
+  const rate = annualRate / 1200;
+  if (rate === 0) return Math.ceil(principal / tenureMonths);
+  const factor = Math.pow(1 + rate, tenureMonths);
+  return Math.ceil((principal * rate * factor) / (factor - 1));
+}
+
+export function comparePeriods(a: LoanPeriod, b: LoanPeriod): number {
+  return a.year !== b.year ? a.year - b.year : a.month - b.month;
+}
+
+export function nextPeriod({ month, year }: LoanPeriod): LoanPeriod {
+  return month === 11 ? { month: 0, year: year + 1 } : { month: month + 1, year };
+}
+
+function monthlyInterest(balance: number, annualRate: number): number {
+  return Math.round((balance * annualRate) / 1200);
+}
+
+/** Principal still owed: disbursed amounts less every recovery, prepayment and settlement */
+export function getOutstandingPrincipal(loan: EmployeeLoan): number {
+  const outstanding = loan.transactions.reduce(
+    (balance, tx) => (tx.type === 'disbursement' ? balance + tx.principal : balance - tx.principal),
+    0
+  );
+  return Math.max(0, outstanding);
+}
+
+function isSkipped(loan: EmployeeLoan, period: LoanPeriod): boolean {
+  return loan.skippedMonths.some((skipped) => comparePeriods(skipped, period) === 0);
+}
+
+function hasEmiFor(loan: EmployeeLoan, period: LoanPeriod): boolean {
+  return loan.transactions.some(
+    (tx) => tx.type === 'emi' && tx.month === period.month && tx.year === period.year
+  );
+}
+
+/** Split one EMI on the given balance into interest and principal */
+function splitEmi(balance: number, loan: EmployeeLoan): Omit<LoanRecovery, 'loanId'> {
+  const interest = monthlyInterest(balance, loan.interestRate);
+  const principal = Math.max(0, Math.min(balance, loan.emiAmount - interest));
+  return { amount: principal + interest, principal, interest };
+}
+
+/**
+ * EMI to recover from a loan in a payroll month (0-11), or null when nothing
+ * is due: the loan is closed or paused, the month is before the start or
+ * skipped, or an EMI has already been recovered for the month.
+ */
+export function getDueEmi(loan: EmployeeLoan, month: number, year: number): LoanRecovery | null {
+  const period = { month, year };
+  if (loan.status !== 'active' || loan.paused) return null;
+  if (comparePeriods(period, { month: loan.startMonth, year: loan.startYear }) < 0) return null;
+  if (isSkipped(loan, period) || hasEmiFor(loan, period)) return null;
+
+  const balance = getOutstandingPrincipal(loan);
+  if (balance <= 0) return null;
+
+  const emi = splitEmi(balance, loan);
+  return emi.amount > 0 ? { loanId: loan.id!, ...emi } : null;
+}
+
+/** First month the remaining schedule can start from: the start month or the month after the last EMI */
+function getScheduleStart(loan: EmployeeLoan): LoanPeriod {
+  let start: LoanPeriod = { month: loan.startMonth, year: loan.startYear };
+  for (const tx of loan.transactions) {
+    if (tx.type !== 'emi' || tx.month === undefined || tx.year === undefined) continue;
+    const after = nextPeriod({ month: tx.month, year: tx.year });
+    if (comparePeriods(after, start) > 0) start = after;
+  }
+  return start;
+}
+
+/** Projected EMIs until the balance is cleared, leaving out skipped months */
+export function buildSchedule(loan: EmployeeLoan): LoanInstallment[] {
+  const schedule: LoanInstallment[] = [];
+  if (loan.status !== 'active') return schedule;
+
+  let balance = getOutstandingPrincipal(loan);
+  let period = getScheduleStart(loan);
+
+  for (let i = 0; balance > 0 && i < MAX_SCHEDULE_MONTHS; i++, period = nextPeriod(period)) {
+    if (isSkipped(loan, period)) continue;
+    const emi = splitEmi(balance, loan);
+    if (emi.principal <= 0) break;
+    balance -= emi.principal;
+    schedule.push({ ...period, ...emi, balance });
+  }
+  return schedule;
+}
+
+/** Transactions in order with the outstanding principal after each */
+export function buildLedger(loan: EmployeeLoan): LoanLedgerEntry[] {
+  let balance = 0;
+  return loan.transactions.map((tx) => {
+    balance = tx.type === 'disbursement' ? balance + tx.principal : balance - tx.principal;
+    return { ...tx, balance: Math.max(0, balance) };
+  });
+}
+
+export function buildLoanStatement(loan: EmployeeLoan): LoanStatement {
+  return {
+    loan,
+    ledger: buildLedger(loan),
+    schedule: buildSchedule(loan),
+    outstanding: getOutstandingPrincipal(loan),
+  };
+}
+
+/**
+ * Limit the month's EMIs to the net pay available, in the order given. A
+ * partly recovered EMI takes its interest first; the principal left unpaid
+ * stays on the balance and is recovered by later EMIs. EMIs nothing could be
+ * recovered for are dropped.
+ */
+export function capLoanRecoveries(recoveries: LoanRecovery[], available: number): LoanRecovery[] {
+  const capped: LoanRecovery[] = [];
+  let remaining = Math.max(0, Math.floor(available));
+
+  for (const recovery of recoveries) {
+    const amount = Math.min(recovery.amount, remaining);
+    if (amount <= 0) break;
+    const interest = Math.min(recovery.interest, amount);
+    capped.push({ ...recovery, amount, interest, principal: amount - interest });
+    remaining -= amount;
+  }
+  return capped;
+}
+
+/** Put the month's EMIs on the breakup as loanRecovery and take them out of net salary */
+export function applyLoanRecoveries(breakup: SalaryBreakup, recoveries: LoanRecovery[]): SalaryBreakup {
+  const total = recoveries.reduce((sum, recovery) => sum + recovery.amount, 0);
+  return {
+    ...breakup,
+    loanRecovery: total,
+    totalDeductions: breakup.totalDeductions + total,
+    netSalary: breakup.netSalary - total,
+  };
+}
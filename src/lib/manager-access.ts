@@ -65,3 +65,20 @@ export async function hasAccessToEmployee(
 
   return false;
 }
+
+/**
+ * Managers' uids keyed by the employees in their team, for resolving what
+ * applies to an employee through their team (attendance policies, holiday
+ * calendars)
+ */
+export async function getTeamsByEmployee(): Promise<Map<string, string[]>> {
+  const snapshot = await adminDb.collection('manager-hierarchies').get();
+  const teams = new Map<string, string[]>();
+  for (const doc of snapshot.docs) {
+    const { managerId, employeeIds = [] } = doc.data();
+    for (const employeeId of employeeIds as string[]) {
+      teams.set(employeeId, [...(teams.get(employeeId) ?? []), managerId]);
+    }
+  }
+  return teams;
+}
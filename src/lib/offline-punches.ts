@@ -0,0 +1,144 @@
+/**
+ * Offline Punches
+ * Clock-ins/outs captured without connectivity are kept in IndexedDB and
+ * replayed with their original device time and location once the device is
+ * back online (on the `online` event, or when the service worker's background
+ * sync fires). The server applies each idempotency key once.
+ */
+
+import { PunchType, QueuedPunch } from '@/types/attendance.types';
+
+/** Background sync tag the service worker relays to open pages */
+export const PUNCH_SYNC_TAG = 'sync-attendance-punches';
+
+/** Punches older than this are refused on replay; the day is regularized instead */
+export const OFFLINE_PUNCH_MAX_AGE_HOURS = 72;
+
+/**
+ * Status for a punch whose idempotency key another delivery (the `online`
+ * event and a background sync, or a second tab) is still applying
+ */
+export const PUNCH_IN_PROGRESS_STATUS = 425;
+
+/** How long to wait before replaying a punch another delivery is applying */
+export const PUNCH_IN_PROGRESS_RETRY_MS = 3000;
+
+/**
+ * A delivery that reserved a punch's idempotency key and neither applied nor
+ * freed it within this time died part way (timeout, crash); its reservation
+ * is taken over by the next delivery
+ */
+export const PUNCH_RESERVATION_LEASE_MS = 5 * 60000;
+
+/** Device clocks may run a little ahead of the server */
+const MAX_CLOCK_SKEW_MS = 5 * 60000;
+
+const DB_NAME = 'attendance-offline';
+const STORE = 'punches';
+
+// ─── Rules ──────────────────────────────────────────────────────────────────
+
+/** Why the server refuses an offline punch's device time, or null when it is acceptable */
+export function validateOfflinePunchTime(timestamp: Date, now: Date = new Date()): string | null {
+  if (isNaN(timestamp.getTime())) return 'Invalid punch time';
+  if (timestamp.getTime() - now.getTime() > MAX_CLOCK_SKEW_MS) {
+    return 'The punch time is in the future. Check the device clock.';
+  }
+  if (now.getTime() - timestamp.getTime() > OFFLINE_PUNCH_MAX_AGE_HOURS * 3600000) {
+    return `Offline punches older than ${OFFLINE_PUNCH_MAX_AGE_HOURS} hours cannot be synced. Request a regularization instead.`;
+  }
+  return null;
+}
+
+/**
+ * Whether a failed replay should stay queued. Server errors, an expired
+ * sign-in and a punch still being applied by another delivery are retried; a
+ * rejected punch (validation, geofence, an already clocked-in day) never
+ * succeeds and is dropped.
+ */
+export function shouldRetryPunch(status: number): boolean {
+  return status === 401 || status === 408 || status === PUNCH_IN_PROGRESS_STATUS || status === 429 || status >= 500;
+}
+
+/** What a delivery does with an idempotency key an earlier delivery reserved */
+export type PunchReservationState = 'mismatch' | 'applied' | 'in-progress' | 'abandoned';
+
+/**
+ * The state of an existing reservation for a punch of `type` by `employeeId`:
+ * a different punch's key, applied to a record, still being applied, or
+ * abandoned past its lease
+ */
+export function getPunchReservationState(
+  reservation: { employeeId: string; type: PunchType; recordId: string | null; createdAt: Date },
+  employeeId: string,
+  type: PunchType,
+  now: Date = new Date()
+): PunchReservationState {
+  if (reservation.employeeId !== employeeId || reservation.type !== type) return 'mismatch';
+  if (reservation.recordId) return 'applied';
+  return now.getTime() - reservation.createdAt.getTime() > PUNCH_RESERVATION_LEASE_MS ? 'abandoned' : 'in-progress';
+}
+
+/** A fetch that failed for lack of a connection rather than with a response */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine);
+}
+
+/** A new queue entry; its id doubles as the idempotency key */
+export function createQueuedPunch(
+  type: PunchType,
+  data: Pick<QueuedPunch, 'employeeId' | 'employeeName' | 'recordId' | 'location' | 'notes'> & { timestamp: Date }
+): QueuedPunch {
+  return {
+    ...data,
+    id: crypto.randomUUID(),
+    type,
+    timestamp: data.timestamp.toISOString(),
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+}
+
+// ─── IndexedDB Queue ────────────────────────────────────────────────────────
+
+function openQueue(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openQueue();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function savePunch(punch: QueuedPunch): Promise<void> {
+  await withStore('readwrite', (store) => store.put(punch));
+}
+
+export async function removePunch(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/** The employee's queued punches, oldest first, so they replay in order */
+export async function getQueuedPunches(employeeId: string): Promise<QueuedPunch[]> {
+  const punches = await withStore<QueuedPunch[]>('readonly', (store) => store.getAll());
+  return punches
+    .filter((punch) => punch.employeeId === employeeId)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
@@ -0,0 +1,68 @@
+/**
+ * Overtime Pay
+ * Monthly overtime hours from attendance records and the pay for approved
+ * hours. Overtime is an earning: it counts towards ESI wages and taxable
+ * salary, but not PF wages.
+ */
+
+import { OvertimeClaim } from '@/types/attendance.types';
+import { SalaryBreakup } from '@/types/payroll.types';
+
+/** Used when no active attendance policy sets a multiplier (twice the ordinary rate) */
+export const DEFAULT_OVERTIME_MULTIPLIER = 2;
+
+/** Working hours in a day; attendance counts anything beyond this as overtime */
+export const STANDARD_HOURS_PER_DAY = 8;
+
+/** Overtime claims are keyed per employee-month; month is 0-11 */
+export function getOvertimeClaimId(employeeId: string, month: number, year: number): string {
+  return `${employeeId}_${year}_${month}`;
+}
+
+/** Overtime hours on records clocked in during the month, to two decimals */
+export function sumMonthlyOvertime(
+  records: { clockIn: Date; overtimeHours?: number }[],
+  month: number,
+  year: number
+): number {
+  const hours = records
+    .filter((record) => record.clockIn.getFullYear() === year && record.clockIn.getMonth() === month)
+    .reduce((sum, record) => sum + (record.overtimeHours || 0), 0);
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Overtime pay at the multiplier on the hourly rate, where the hourly rate is
+ * the day's pay (gross / 26, as in the default formula) over a standard day.
+ */
+export function calculateOvertimePay(grossSalary: number, hours: number, multiplier: number): number {
+  if (hours <= 0) return 0;
+  const hourlyRate = grossSalary / 26 / STANDARD_HOURS_PER_DAY;
+  return Math.round(hourlyRate * hours * multiplier);
+}
+
+/**
+ * Approved hours for the month and the multiplier they are paid at (fixed when
+ * the claim was approved). Without an approved claim, zero hours at the policy rate.
+ */
+export function getApprovedOvertime(
+  claim: Pick<OvertimeClaim, 'status' | 'approvedHours' | 'multiplier'> | null,
+  policyMultiplier: number = DEFAULT_OVERTIME_MULTIPLIER
+): { hours: number; multiplier: number } {
+  if (!claim || claim.status !== 'approved') {
+    return { hours: 0, multiplier: policyMultiplier };
+  }
+  return {
+    hours: claim.approvedHours ?? 0,
+    multiplier: claim.multiplier ?? policyMultiplier,
+  };
+}
+
+/** Add overtime pay to the slip's earnings and net pay */
+export function applyOvertime(breakup: SalaryBreakup, amount: number): SalaryBreakup {
+  return {
+    ...breakup,
+    overtime: (breakup.overtime || 0) + amount,
+    netSalary: breakup.netSalary + amount,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Payroll Preview Utilities
+ * Compares a dry-run salary calculation with the previous month's slip and
+ * flags outliers before any slips are generated.
+ */
+
+import {
+  EmployeeSalary,
+  PayrollPreviewFlag,
+  PayrollPreviewRow,
+  SalaryBreakup,
+  SalaryCalculationResult,
+  SalaryValueDiff,
+} from '@/types/payroll.types';
+
+/** Default net salary change (percent) above which a row is flagged */
+export const DEFAULT_NET_CHANGE_THRESHOLD = 20;
+
+/** Salary breakup keys in display order; unknown keys are appended after these */
+const COMPONENT_ORDER: string[] = [
+  'basic', 'hra', 'special',
+  'epf', 'esi', 'professionalTax', 'tds', 'loanRecovery', 'otherDeduction', 'leaveDeduction',
+  'totalDeductions', 'netSalary',
+];
+
+/** Get the month/year before the given one (month is 0-11) */
+export function getPreviousPeriod(month: number, year: number): { month: number; year: number } {
+  return month === 0 ? { month: 11, year: year - 1 } : { month: month - 1, year };
+}
+
+/** Build a diff between a previous and current value */
+export function diffValue(key: string, previous: number | null, current: number | null): SalaryValueDiff {
+  const change = (current ?? 0) - (previous ?? 0);
+  const changePercent =
+    previous === null || current === null || previous === 0
+      ? null
+      : (change / Math.abs(previous)) * 100;
+  return { key, previous, current, change, changePercent };
+}
+
+/** Numeric breakup fields plus one entry per catalogue component line */
+function flattenBreakup(breakup: SalaryBreakup): Record<string, number> {
+  const values: Record<string, number> = {};
+  Object.entries(breakup).forEach(([key, value]) => {
+    if (typeof value === 'number') values[key] = value;
+  });
+  (breakup.components ?? []).forEach((line) => {
+    values[line.key] = (values[line.key] ?? 0) + line.amount;
+  });
+  return values;
+}
+
+/**
+ * Diff every numeric component present on either breakup.
+ * Works for any breakup shape, so new components show up without code changes.
+ */
+export function diffSalaryBreakup(
+  current: SalaryBreakup | null,
+  previous: SalaryBreakup | null
+): SalaryValueDiff[] {
+  const flatCurrent = current ? flattenBreakup(current) : null;
+  const flatPrevious = previous ? flattenBreakup(previous) : null;
+  const keys = new Set<string>();
+  [flatCurrent, flatPrevious].forEach((values) => {
+    if (values) Object.keys(values).forEach((key) => keys.add(key));
+  });
+
+  const ordered = [
+    ...COMPONENT_ORDER.filter((key) => keys.has(key)),
+    ...Array.from(keys).filter((key) => !COMPONENT_ORDER.includes(key)).sort(),
+  ];
+
+  const read = (values: Record<string, number> | null, key: string): number | null =>
+    values ? values[key] ?? 0 : null;
+
+  return ordered.map((key) => diffValue(key, read(flatPrevious, key), read(flatCurrent, key)));
+}
+
+/** Determine which outlier flags apply to a preview row */
+export function getPreviewFlags(
+  row: Pick<PayrollPreviewRow, 'paidDays' | 'netSalary' | 'error'>,
+  netChangeThreshold: number
+): PayrollPreviewFlag[] {
+  const flags: PayrollPreviewFlag[] = [];
+
+  if (row.error) {
+    flags.push({ type: 'calculation-failed', message: row.error });
+    return flags;
+  }
+
+  if (row.paidDays.current === 0) {
+    flags.push({ type: 'zero-paid-days', message: 'No paid days this month' });
+  }
+
+  if ((row.netSalary.current ?? 0) < 0) {
+    flags.push({ type: 'negative-net', message: 'Net salary is negative' });
+  }
+
+  if (row.netSalary.previous === null) {
+    flags.push({ type: 'no-previous-slip', message: 'No slip last month to compare against' });
+  } else if (
+    row.netSalary.changePercent !== null &&
+    Math.abs(row.netSalary.changePercent) > netChangeThreshold
+  ) {
+    const direction = row.netSalary.change > 0 ? 'up' : 'down';
+    flags.push({
+      type: 'net-change',
+      message: `Net salary ${direction} ${Math.abs(row.netSalary.changePercent).toFixed(1)}% from last month`,
+    });
+  }
+
+  return flags;
+}
+
+/** Build a complete preview row for one employee */
+export function buildPreviewRow(
+  employee: { employeeId: string; name: string; employeeCode: string },
+  calculation: SalaryCalculationResult | null,
+  previousSlip: EmployeeSalary | null,
+  netChangeThreshold: number,
+  error?: string
+): PayrollPreviewRow {
+  const currentBreakup = calculation?.salaryBreakup ?? null;
+  const previousBreakup = previousSlip?.salaryBreakup ?? null;
+
+  const paidDays = diffValue('paidDays', previousSlip?.paidDays ?? null, calculation?.paidDays ?? null);
+  const netSalary = diffValue('netSalary', previousBreakup?.netSalary ?? null, currentBreakup?.netSalary ?? null);
+  const components = diffSalaryBreakup(currentBreakup, previousBreakup).filter((diff) => diff.key !== 'netSalary');
+
+  const row = {
+    ...employee,
+    calculation,
+    previousSlipId: previousSlip?.id ?? null,
+    paidDays,
+    netSalary,
+    components,
+    ...(error ? { error } : {}),
+  };
+
+  return { ...row, flags: getPreviewFlags(row, netChangeThreshold) };
+}
+
+/** Whether a flag should count as an outlier (informational flags excluded) */
+export function isOutlierFlag(flag: PayrollPreviewFlag): boolean {
+  return flag.type !== 'no-previous-slip';
+}
@@ -0,0 +1,163 @@
+/**
+ * Payroll Run Lifecycle
+ * Status transitions for a month's payroll run (draft → reviewed → approved →
+ * locked → paid, and re-open back to draft) and the totals snapshot taken from
+ * its slips.
+ */
+
+import {
+  EmployeeSalary,
+  PayrollRun,
+  PayrollRunAction,
+  PayrollRunStatus,
+  PayrollRunTotals,
+} from '@/types/payroll.types';
+import { getComponentTotal } from '@/lib/salary-components';
+
+/** Statuses each action may be taken from, and the status it moves the run to */
+export const PAYROLL_RUN_TRANSITIONS: Record<PayrollRunAction, { from: PayrollRunStatus[]; to: PayrollRunStatus }> = {
+  review: { from: ['draft'], to: 'reviewed' },
+  approve: { from: ['reviewed'], to: 'approved' },
+  lock: { from: ['approved'], to: 'locked' },
+  'mark-paid': { from: ['locked'], to: 'paid' },
+  reopen: { from: ['reviewed', 'approved', 'locked', 'paid'], to: 'draft' },
+};
+
+export const PAYROLL_RUN_STATUS_LABELS: Record<PayrollRunStatus, string> = {
+  draft: 'Draft',
+  reviewed: 'Reviewed',
+  approved: 'Approved',
+  locked: 'Locked',
+  paid: 'Paid',
+};
+
+/** Document ID for a month's run, e.g. "2026-04" for April 2026 (month is 0-11) */
+export function getPayrollRunId(month: number, year: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+/** A locked or paid run is final: its bank file and statutory returns can be exported */
+export function isPayrollRunLocked(status: PayrollRunStatus): boolean {
+  return status === 'locked' || status === 'paid';
+}
+
+/**
+ * Slips can only be generated, edited or deleted while the run is a draft, so
+ * the totals reviewed and approved are the ones that get locked
+ */
+export function isPayrollRunEditable(status: PayrollRunStatus): boolean {
+  return status === 'draft';
+}
+
+export function canTransition(status: PayrollRunStatus, action: PayrollRunAction): boolean {
+  return PAYROLL_RUN_TRANSITIONS[action].from.includes(status);
+}
+
+export function summarizeSlips(slips: EmployeeSalary[]): PayrollRunTotals {
+  return slips.reduce<PayrollRunTotals>(
+    (totals, slip) => {
+      const breakup = slip.salaryBreakup;
+      return {
+        employeeCount: totals.employeeCount + 1,
+        grossEarnings:
+          totals.grossEarnings +
+          (breakup.basic || 0) + (breakup.hra || 0) + (breakup.special || 0) + (breakup.arrears || 0) +
+          (breakup.overtime || 0) + getComponentTotal(breakup, 'earning'),
+        totalDeductions: totals.totalDeductions + (breakup.totalDeductions || 0),
+        netSalary: totals.netSalary + (breakup.netSalary || 0),
+        epf: totals.epf + (breakup.epf || 0),
+        esi: totals.esi + (breakup.esi || 0),
+        professionalTax: totals.professionalTax + (breakup.professionalTax || 0),
+        tds: totals.tds + (breakup.tds || 0),
+        loanRecovery: totals.loanRecovery + (breakup.loanRecovery || 0),
+      };
+    },
+    {
+      employeeCount: 0,
+      grossEarnings: 0,
+      totalDeductions: 0,
+      netSalary: 0,
+      epf: 0,
+      esi: 0,
+      professionalTax: 0,
+      tds: 0,
+      loanRecovery: 0,
+    }
+  );
+}
+
+/** A month that has no run document yet is an open draft */
+export function createDraftRun(month: number, year: number, slips: EmployeeSalary[] = []): PayrollRun {
+  return {
+    id: getPayrollRunId(month, year),
+    month,
+    year,
+    status: 'draft',
+    totals: summarizeSlips(slips),
+    reviewedBy: null,
+    reviewedByName: null,
+    approvedBy: null,
+    approvedByName: null,
+    approvedAt: null,
+    paidAt: null,
+    history: [],
+  };
+}
+
+/**
+ * Apply an action to a run, snapshotting totals from its current slips.
+ * Re-opening clears the review and approval so the run goes through them again.
+ * Throws if the action is not allowed from the run's status.
+ */
+export function transitionRun(
+  run: PayrollRun,
+  action: PayrollRunAction,
+  slips: EmployeeSalary[],
+  actor: { uid: string; name: string },
+  at: string,
+  reason?: string
+): PayrollRun {
+  if (!canTransition(run.status, action)) {
+    throw new Error(`Cannot ${action.replace('-', ' ')} a ${run.status} payroll run`);
+  }
+
+  const to = PAYROLL_RUN_TRANSITIONS[action].to;
+  const next: PayrollRun = {
+    ...run,
+    status: to,
+    totals: summarizeSlips(slips),
+    history: [
+      ...run.history,
+      {
+        action,
+        from: run.status,
+        to,
+        by: actor.uid,
+        byName: actor.name,
+        at,
+        ...(reason ? { reason } : {}),
+      },
+    ],
+  };
+
+  switch (action) {
+    case 'review':
+      return { ...next, reviewedBy: actor.uid, reviewedByName: actor.name };
+    case 'approve':
+      return { ...next, approvedBy: actor.uid, approvedByName: actor.name, approvedAt: at };
+    case 'mark-paid':
+      return { ...next, paidAt: at };
+    case 'reopen':
+      return {
+        ...next,
+        reviewedBy: null,
+        reviewedByName: null,
+        approvedBy: null,
+        approvedByName: null,
+        approvedAt: null,
+        paidAt: null,
+      };
+    default:
+      return next;
+  }
+}
@@ -84,3 +84,38 @@ export async function previewNextLetterNumber(year?: number): Promise<string> {
     return `RL-${targetYear}-001`;
   }
 }
+
+/**
+ * Resolve a user's real Auth UID from a stored employeeId value.
+ *
+ * The letter's employeeId may be an employee number (e.g. "EMP001") rather than
+ * the Firestore user doc id (uid). Notifications and FCM tokens are keyed by the
+ * uid, so the actual user doc must be resolved before writing anything.
+ *
+ * Returns the users doc id (uid), or null if no matching user is found.
+ */
+export async function resolveEmployeeUid(employeeId: string): Promise<string | null> {
+  if (!employeeId) return null;
+
+  // Case 1: employeeId is already the user doc id (uid)
+  const directDoc = await adminDb.collection('users').doc(employeeId).get();
+  if (directDoc.exists) return employeeId;
+
+  // Case 2: employeeId is the employee number — find the user doc by that field
+  const byEmployeeId = await adminDb
+    .collection('users')
+    .where('employeeId', '==', employeeId)
+    .limit(1)
+    .get();
+  if (!byEmployeeId.empty) return byEmployeeId.docs[0].id;
+
+  // Case 3: fall back to the stored uid field
+  const byUid = await adminDb
+    .collection('users')
+    .where('uid', '==', employeeId)
+    .limit(1)
+    .get();
+  if (!byUid.empty) return byUid.docs[0].id;
+
+  return null;
+}
@@ -0,0 +1,206 @@
+/**
+ * Salary Components
+ * Works out the catalogue earnings and deductions in an employee's salary
+ * structure for a month. Basic, HRA and special allowance stay with the
+ * salary formula; catalogue components are worked out in catalogue order on
+ * top of them and carried on the slip as lines.
+ */
+
+import {
+  EmployeeSalaryComponent,
+  SalaryBreakup,
+  SalaryComponent,
+  SalaryComponentLine,
+  SalaryComponentType,
+} from '@/types/payroll.types';
+import { checkFormula, evaluateFormula, FormulaType, SALARY_FORMULA_VARIABLES } from '@/lib/formula-evaluator';
+import { FormulaDiagnostic, FormulaError, formatDiagnostic } from '@/lib/formula-parser';
+
+/** Components worked out by the salary formula itself */
+export const BUILT_IN_SALARY_COMPONENTS: { key: 'basic' | 'hra' | 'special'; name: string }[] = [
+  { key: 'basic', name: 'Basic Wage' },
+  { key: 'hra', name: 'HRA' },
+  { key: 'special', name: 'Special Allowances' },
+];
+
+/** Names a percentage or formula component can use besides the components above it */
+export const COMPONENT_BASE_VARIABLES: Record<string, FormulaType> = {
+  grossSalary: 'number',
+  paidDays: 'number',
+  totalDaysInMonth: 'number',
+  basic: 'number',
+  hra: 'number',
+  special: 'number',
+};
+
+export const SALARY_COMPONENT_KEY_PATTERN = /^[a-z][A-Za-z0-9]{1,31}$/;
+
+// Salary breakup fields and formula variables cannot be reused as component keys
+const RESERVED_KEYS = new Set([
+  ...Object.keys(SALARY_FORMULA_VARIABLES),
+  ...Object.keys(COMPONENT_BASE_VARIABLES),
+  'totalDeductions', 'netSalary', 'epf', 'esi', 'professionalTax', 'tds',
+  'loanRecovery', 'otherDeduction', 'leaveDeduction', 'arrears', 'overtime', 'reimbursement', 'components',
+]);
+
+// A component formula is a single expression returned as the amount
+const FORMULA_PREFIX = 'return { amount: ';
+
+function componentsAbove(component: Pick<SalaryComponent, 'key' | 'order'>, catalogue: SalaryComponent[]): SalaryComponent[] {
+  return catalogue.filter((other) => other.key !== component.key && other.order < component.order);
+}
+
+/** Check a component formula against the names it may use; positions refer to the expression */
+export function checkComponentFormula(
+  expression: string,
+  component: Pick<SalaryComponent, 'key' | 'order'>,
+  catalogue: SalaryComponent[]
+): FormulaDiagnostic[] {
+  const variables = { ...COMPONENT_BASE_VARIABLES };
+  componentsAbove(component, catalogue).forEach((other) => {
+    variables[other.key] = 'number';
+  });
+
+  return checkFormula(`${FORMULA_PREFIX}${expression} }`, variables).map((diagnostic) => ({
+    ...diagnostic,
+    column: diagnostic.line === 1 ? Math.max(1, diagnostic.column - FORMULA_PREFIX.length) : diagnostic.column,
+  }));
+}
+
+/** Problems that stop a component from being saved into the catalogue */
+export function validateSalaryComponent(
+  component: Omit<SalaryComponent, 'id' | 'createdAt' | 'updatedAt'>,
+  catalogue: SalaryComponent[]
+): string[] {
+  const errors: string[] = [];
+
+  if (!SALARY_COMPONENT_KEY_PATTERN.test(component.key)) {
+    errors.push('Key must start with a lowercase letter and contain only letters and digits');
+  } else if (RESERVED_KEYS.has(component.key)) {
+    errors.push(`'${component.key}' is reserved for the salary formula`);
+  }
+
+  switch (component.calculation) {
+    case 'fixed':
+      if (component.amount === null || component.amount < 0) errors.push('Fixed components need an amount');
+      break;
+    case 'percentage': {
+      const bases = [
+        ...Object.keys(COMPONENT_BASE_VARIABLES),
+        ...componentsAbove(component, catalogue).map((other) => other.key),
+      ];
+      if (component.percentage === null || component.percentage < 0) errors.push('Percentage components need a rate');
+      if (!component.percentageOf || !bases.includes(component.percentageOf)) {
+        errors.push('Percentage must be of the gross, basic, HRA, special allowance or a component above this one');
+      }
+      break;
+    }
+    case 'formula': {
+      if (!component.formula?.trim()) {
+        errors.push('Formula components need a formula');
+        break;
+      }
+      errors.push(...checkComponentFormula(component.formula, component, catalogue).map(formatDiagnostic));
+      break;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The month's amount for every component in an employee's structure, in
+ * catalogue order. Inactive or unknown components are skipped, as are lines
+ * that work out to zero.
+ */
+export function calculateComponentLines(input: {
+  catalogue: SalaryComponent[];
+  structure: EmployeeSalaryComponent[];
+  breakup: SalaryBreakup;
+  grossSalary: number;
+  paidDays: number;
+  totalDaysInMonth: number;
+}): SalaryComponentLine[] {
+  const { breakup } = input;
+  const assigned = new Map(input.structure.map((entry) => [entry.key, entry.value]));
+  const components = input.catalogue
+    .filter((component) => component.active && assigned.has(component.key))
+    .sort((a, b) => a.order - b.order);
+  if (components.length === 0) return [];
+
+  // Prorated components lose pay in the same proportion as the core salary
+  const earnedGross = breakup.basic + breakup.hra + breakup.special;
+  const earnedRatio = earnedGross > 0 ? Math.max(0, 1 - (breakup.leaveDeduction || 0) / earnedGross) : 1;
+
+  const values: Record<string, number> = {
+    grossSalary: input.grossSalary,
+    paidDays: input.paidDays,
+    totalDaysInMonth: input.totalDaysInMonth,
+    basic: breakup.basic,
+    hra: breakup.hra,
+    special: breakup.special,
+  };
+
+  const lines: SalaryComponentLine[] = [];
+  for (const component of components) {
+    const override = assigned.get(component.key) ?? null;
+    let amount = 0;
+
+    if (component.calculation === 'fixed') {
+      amount = override ?? component.amount ?? 0;
+    } else if (component.calculation === 'percentage') {
+      amount = (values[component.percentageOf ?? ''] ?? 0) * ((override ?? component.percentage ?? 0) / 100);
+    } else if (component.formula) {
+      const types = Object.fromEntries(Object.keys(values).map((key) => [key, 'number' as FormulaType]));
+      try {
+        amount = evaluateFormula(`${FORMULA_PREFIX}${component.formula} }`, values, types).amount;
+      } catch (error) {
+        const message = error instanceof FormulaError ? error.diagnostics[0]?.message : String(error);
+        throw new Error(`Salary component '${component.name}' could not be calculated: ${message}`);
+      }
+    }
+
+    if (component.prorate && component.calculation !== 'formula') {
+      amount *= earnedRatio;
+    }
+
+    amount = Math.max(0, Math.round(amount));
+    values[component.key] = amount;
+    if (amount === 0) continue;
+
+    lines.push({
+      key: component.key,
+      name: component.name,
+      type: component.type,
+      taxable: component.type === 'earning' && component.taxable,
+      amount,
+    });
+  }
+
+  return lines;
+}
+
+/** Total of a breakup's component lines of one type, optionally only the taxable ones */
+export function getComponentTotal(
+  breakup: Pick<SalaryBreakup, 'components'>,
+  type: SalaryComponentType,
+  options: { taxableOnly?: boolean } = {}
+): number {
+  return (breakup.components ?? [])
+    .filter((line) => line.type === type && (!options.taxableOnly || line.taxable))
+    .reduce((sum, line) => sum + line.amount, 0);
+}
+
+/** Add component earnings to net pay and take component deductions off it */
+export function applySalaryComponents(breakup: SalaryBreakup, lines: SalaryComponentLine[]): SalaryBreakup {
+  if (lines.length === 0) return breakup;
+
+  const earnings = getComponentTotal({ components: lines }, 'earning');
+  const deductions = getComponentTotal({ components: lines }, 'deduction');
+  return {
+    ...breakup,
+    components: [...(breakup.components ?? []), ...lines],
+    totalDeductions: breakup.totalDeductions + deductions,
+    netSalary: breakup.netSalary + earnings - deductions,
+  };
+}
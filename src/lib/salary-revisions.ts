@@ -0,0 +1,126 @@
+/**
+ * Salary Revisions
+ * Works out an employee's gross salary on any day from their revision
+ * timeline, pro-rates a month's gross by day across the revisions in force,
+ * and calculates arrears owed on slips generated before a backdated revision.
+ */
+
+import {
+  ArrearsLine,
+  EmployeeSalary,
+  SalaryBreakup,
+  SalaryRevision,
+  SalarySegment,
+} from '@/types/payroll.types';
+
+/** "YYYY-MM-DD" for a calendar day; month is 0-11 */
+export function toDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** Oldest first; revisions effective on the same day keep their recorded order */
+export function sortRevisions(revisions: SalaryRevision[]): SalaryRevision[] {
+  return [...revisions].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+}
+
+/**
+ * Gross salary in force on a day. Before the first revision the gross it
+ * replaced applies; without any revisions the employee's current gross does.
+ */
+export function getGrossOn(revisions: SalaryRevision[], fallbackGross: number, dateKey: string): number {
+  const sorted = sortRevisions(revisions);
+  if (sorted.length === 0) return fallbackGross;
+
+  let gross = sorted[0].previousGrossSalary;
+  for (const revision of sorted) {
+    if (revision.effectiveDate > dateKey) break;
+    gross = revision.grossSalary;
+  }
+  return gross;
+}
+
+/** Runs of days in a month paid at the same gross */
+export function getMonthSegments(
+  revisions: SalaryRevision[],
+  fallbackGross: number,
+  month: number,
+  year: number
+): SalarySegment[] {
+  const totalDays = new Date(year, month + 1, 0).getDate();
+  const segments: SalarySegment[] = [];
+
+  for (let day = 1; day <= totalDays; day++) {
+    const grossSalary = getGrossOn(revisions, fallbackGross, toDateKey(year, month, day));
+    const last = segments[segments.length - 1];
+    if (last && last.grossSalary === grossSalary) {
+      last.toDay = day;
+    } else {
+      segments.push({ fromDay: day, toDay: day, grossSalary });
+    }
+  }
+  return segments;
+}
+
+/** A month's gross weighted by the days each revision was in force, rounded to the rupee */
+export function getMonthlyGross(
+  revisions: SalaryRevision[],
+  fallbackGross: number,
+  month: number,
+  year: number
+): { grossSalary: number; segments: SalarySegment[] } {
+  const segments = getMonthSegments(revisions, fallbackGross, month, year);
+  const totalDays = new Date(year, month + 1, 0).getDate();
+  const weighted = segments.reduce(
+    (sum, segment) => sum + segment.grossSalary * (segment.toDay - segment.fromDay + 1),
+    0
+  );
+  return { grossSalary: Math.round(weighted / totalDays), segments };
+}
+
+/**
+ * Arrears a new revision creates on slips already generated. Each slip's
+ * earnings (after leave deductions) are scaled by how much the revision
+ * changes that month's pro-rated gross relative to the gross the slip was
+ * paid on, so attendance is honoured as it was paid and arrears of several
+ * backdated revisions add up. Months the revision does not change are left out.
+ */
+export function calculateArrears(
+  slips: EmployeeSalary[],
+  revisionsBefore: SalaryRevision[],
+  revisionsAfter: SalaryRevision[],
+  fallbackGross: number
+): ArrearsLine[] {
+  const lines: ArrearsLine[] = [];
+
+  for (const slip of slips) {
+    const previousGross = getMonthlyGross(revisionsBefore, fallbackGross, slip.month, slip.year).grossSalary;
+    const revisedGross = getMonthlyGross(revisionsAfter, fallbackGross, slip.month, slip.year).grossSalary;
+    const paidGross = slip.grossSalary || previousGross;
+    if (paidGross <= 0 || revisedGross === previousGross) continue;
+
+    const b = slip.salaryBreakup;
+    const earned = (b.basic || 0) + (b.hra || 0) + (b.special || 0) - (b.leaveDeduction || 0);
+    const amount = Math.round((earned * (revisedGross - previousGross)) / paidGross);
+    if (amount === 0) continue;
+
+    lines.push({
+      month: slip.month,
+      year: slip.year,
+      slipId: slip.id!,
+      slipNumber: slip.slipNumber,
+      previousGross,
+      revisedGross,
+      amount,
+    });
+  }
+
+  return lines.sort((a, b) => (a.year !== b.year ? a.year - b.year : a.month - b.month));
+}
+
+export function applyArrears(breakup: SalaryBreakup, amount: number): SalaryBreakup {
+  return {
+    ...breakup,
+    arrears: (breakup.arrears || 0) + amount,
+    netSalary: breakup.netSalary + amount,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Shift Rotations
+ * Rotating shift patterns (e.g. a two-week cycle with alternate Saturdays
+ * off) and the per-date shift assignments generated from them, the shift an
+ * employee works on a day, and which attendance day a punch belongs to when
+ * shifts run past midnight. Days are attendance days (YYYY-MM-DD, IST).
+ */
+
+import { addDays } from '@/lib/comp-off';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { getShiftForDay, getShiftWindow } from '@/lib/auto-clock-out';
+import { Shift, ShiftAssignment, ShiftRotation } from '@/types/attendance.types';
+
+/** Longest cycle a rotation can have: eight weeks */
+export const MAX_ROTATION_DAYS = 56;
+
+/** How long before a shift starts a clock-in still counts for it */
+export const EARLY_CLOCK_IN_MINUTES = 120;
+
+type ScheduledShift = Pick<Shift, 'id' | 'startTime' | 'endTime' | 'assignedEmployees' | 'daysOfWeek'>;
+
+/** What an employee's shift on a day is worked out from */
+export interface ShiftSchedule<T extends ScheduledShift = Shift> {
+  /** Active shifts */
+  shifts: T[];
+  /** Active rotations */
+  rotations: ShiftRotation[];
+  /** Assignments for the days being resolved */
+  assignments: ShiftAssignment[];
+}
+
+/** The employee's shift on an attendance day, null when they have none or are off */
+export type ShiftResolver<T extends ScheduledShift = Shift> = (employeeId: string, date: string) => T | null;
+
+export function getAssignmentId(employeeId: string, date: string): string {
+  return `${employeeId}_${date}`;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 3600000));
+}
+
+/**
+ * The shift a rotation puts its employees on for `date`: a shift ID, null
+ * for a day off, or undefined when the rotation is not running that day
+ */
+export function getRotationShiftId(
+  rotation: Pick<ShiftRotation, 'pattern' | 'startDate' | 'endDate'>,
+  date: string
+): string | null | undefined {
+  if (rotation.pattern.length === 0 || date < rotation.startDate) return undefined;
+  if (rotation.endDate && date > rotation.endDate) return undefined;
+  return rotation.pattern[daysBetween(rotation.startDate, date) % rotation.pattern.length];
+}
+
+/**
+ * The assignments a rotation generates for its employees from startDate to
+ * endDate (inclusive), limited to the days the rotation runs
+ */
+export function buildShiftAssignments(
+  rotation: ShiftRotation,
+  startDate: string,
+  endDate: string,
+  now: Date = new Date()
+): ShiftAssignment[] {
+  const from = startDate > rotation.startDate ? startDate : rotation.startDate;
+  const to = rotation.endDate && rotation.endDate < endDate ? rotation.endDate : endDate;
+  const timestamp = now.toISOString();
+
+  const assignments: ShiftAssignment[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const shiftId = getRotationShiftId(rotation, date);
+    if (shiftId === undefined) continue;
+    for (const employeeId of rotation.employeeIds) {
+      assignments.push({
+        id: getAssignmentId(employeeId, date),
+        employeeId,
+        date,
+        shiftId,
+        rotationId: rotation.id,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+    }
+  }
+  return assignments;
+}
+
+/**
+ * The shift scheduled for an employee on an attendance day by their
+ * assignment for the day, else by the rotation they are on (for days not
+ * generated yet; the latest updated wins): a shift ID, null for a day off,
+ * or undefined when neither covers the day
+ */
+export function getScheduledShiftId(
+  schedule: Pick<ShiftSchedule<ScheduledShift>, 'rotations' | 'assignments'>,
+  employeeId: string,
+  date: string
+): string | null | undefined {
+  const assignment = schedule.assignments.find((a) => a.employeeId === employeeId && a.date === date);
+  if (assignment) return assignment.shiftId;
+
+  const rotation = schedule.rotations
+    .filter((r) => r.isActive && r.employeeIds.includes(employeeId) && getRotationShiftId(r, date) !== undefined)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+  return rotation ? getRotationShiftId(rotation, date) : undefined;
+}
+
+/**
+ * The employee's shift on an attendance day: the one scheduled for them
+ * (getScheduledShiftId), else the fixed weekly shift assigned to them. Null
+ * when they have none or the day is off.
+ */
+export function resolveShiftForDay<T extends ScheduledShift>(
+  schedule: ShiftSchedule<T>,
+  employeeId: string,
+  date: string
+): T | null {
+  const scheduled = getScheduledShiftId(schedule, employeeId, date);
+  if (scheduled !== undefined) return schedule.shifts.find((shift) => shift.id === scheduled) ?? null;
+  return getShiftForDay(schedule.shifts, employeeId, date);
+}
+
+/**
+ * The attendance day a punch at `at` counts for: the day of the shift whose
+ * window it falls in, from EARLY_CLOCK_IN_MINUTES before the start to the
+ * end, so a night shift clocked into after midnight counts for the day it
+ * started. The nearest start wins when windows overlap; outside any shift
+ * the punch counts for its calendar day.
+ */
+export function getShiftAttendanceDate(
+  at: Date,
+  shiftFor: (date: string) => Pick<Shift, 'startTime' | 'endTime'> | null
+): string {
+  const today = toAttendanceDate(at);
+
+  let nearest: { date: string; distance: number } | null = null;
+  for (const date of [addDays(today, -1), today, addDays(today, 1)]) {
+    const shift = shiftFor(date);
+    if (!shift) continue;
+    const { start, end } = getShiftWindow(date, shift);
+    if (at.getTime() < start.getTime() - EARLY_CLOCK_IN_MINUTES * 60000 || at >= end) continue;
+    const distance = Math.abs(at.getTime() - start.getTime());
+    if (!nearest || distance < nearest.distance) nearest = { date, distance };
+  }
+  return nearest?.date ?? today;
+}
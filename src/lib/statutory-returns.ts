@@ -0,0 +1,234 @@
+/**
+ * Statutory Returns
+ * Builds the monthly EPF and ESI return files from a locked month's slips:
+ * the EPFO ECR text upload (11 `#~#` delimited fields per member, no header)
+ * and the ESIC monthly contribution sheet. Rows that break the portals'
+ * column rules are reported as issues instead of being put in the file.
+ */
+
+import * as XLSX from 'xlsx';
+import {
+  EcrRow,
+  EmployeeSalary,
+  EsiReturnRow,
+  StatutoryReturnIssue,
+  StatutoryReturnTotals,
+  StatutoryReturnType,
+} from '@/types/payroll.types';
+import { ESI_IP_PATTERN, getEarnedGross, UAN_PATTERN } from '@/lib/statutory';
+
+/** EPS and EDLI wages are always capped at the statutory wage ceiling */
+export const ECR_WAGE_CEILING = 15000;
+
+export const ECR_DELIMITER = '#~#';
+
+const EPF_RATE = 12;
+const EPS_RATE = 8.33;
+
+// ECR member names: letters, spaces and dots, at most 85 characters
+const ECR_NAME_MAX_LENGTH = 85;
+
+export const ESI_RETURN_COLUMNS = [
+  'IP Number (10 Digits)',
+  'IP Name( Only alphabets and space )',
+  'No of Days for which wages paid/payable during the month',
+  'Total Monthly Wages',
+  'Reason Code for Zero workings days(numeric only; provide 0 for all other reasons- Click on the link for reference)',
+  'Last Working Day( Format DD/MM/YYYY  or DD-MM-YYYY)',
+];
+
+export interface StatutoryReturnInput {
+  slip: EmployeeSalary;
+  uan: string | null;
+  esiIpNumber: string | null;
+}
+
+function cleanName(name: string, pattern: RegExp, maxLength: number): string {
+  return name.replace(pattern, ' ').replace(/\s+/g, ' ').trim().slice(0, maxLength);
+}
+
+function emptyTotals(): StatutoryReturnTotals {
+  return { memberCount: 0, wages: 0, employeeContribution: 0, employerContribution: 0, issues: [] };
+}
+
+function toIssue(slip: EmployeeSalary, issue: string): StatutoryReturnIssue {
+  return { employeeId: slip.employeeId, employeeCode: slip.employeeCode, name: slip.name, issue };
+}
+
+// ── EPF: Electronic Challan cum Return ───────────────────────────────────────
+
+/** Column rules the EPFO portal applies to each ECR line */
+export function validateEcrRow(row: EcrRow, daysInMonth: number): string[] {
+  const errors: string[] = [];
+  const ceilingWages = Math.min(row.epfWages, ECR_WAGE_CEILING);
+
+  if (!UAN_PATTERN.test(row.uan)) errors.push('UAN must be 12 digits');
+  if (!row.memberName) errors.push('Member name is required');
+  if (row.epfWages > row.grossWages) errors.push('EPF wages cannot exceed gross wages');
+  if (row.epsWages > ceilingWages) errors.push(`EPS wages cannot exceed ${ECR_WAGE_CEILING} or EPF wages`);
+  if (row.edliWages > ceilingWages) errors.push(`EDLI wages cannot exceed ${ECR_WAGE_CEILING} or EPF wages`);
+  if (row.epfContribution < Math.round((row.epfWages * EPF_RATE) / 100) - 1) {
+    errors.push(`EPF contribution is below ${EPF_RATE}% of EPF wages`);
+  }
+  if (Math.abs(row.epsContribution - Math.round((row.epsWages * EPS_RATE) / 100)) > 1) {
+    errors.push(`EPS contribution must be ${EPS_RATE}% of EPS wages`);
+  }
+  if (row.epfEpsDiff < 0) errors.push('EPS contribution cannot exceed the employer share');
+  if (row.ncpDays < 0 || row.ncpDays > daysInMonth) errors.push(`NCP days must be between 0 and ${daysInMonth}`);
+
+  return errors;
+}
+
+/**
+ * ECR lines for every slip that carries EPF. Members without a valid UAN or
+ * whose figures break the column rules are returned as issues.
+ */
+export function prepareEcr(inputs: StatutoryReturnInput[]): { rows: EcrRow[]; totals: StatutoryReturnTotals } {
+  const rows: EcrRow[] = [];
+  const totals = emptyTotals();
+
+  for (const { slip, uan } of inputs) {
+    const epf = slip.statutory?.epf;
+    if (!epf) continue;
+
+    if (!uan) {
+      totals.issues.push(toIssue(slip, 'No UAN on file'));
+      continue;
+    }
+
+    const epfWages = Math.round(epf.wages);
+    const row: EcrRow = {
+      uan: uan.trim(),
+      memberName: cleanName(slip.name, /[^A-Za-z .]/g, ECR_NAME_MAX_LENGTH).toUpperCase(),
+      grossWages: Math.round(getEarnedGross(slip.salaryBreakup) + (slip.salaryBreakup.arrears || 0)),
+      epfWages,
+      epsWages: Math.min(epfWages, ECR_WAGE_CEILING),
+      edliWages: Math.min(epfWages, ECR_WAGE_CEILING),
+      epfContribution: epf.employee,
+      epsContribution: epf.eps,
+      epfEpsDiff: epf.employer - epf.eps,
+      ncpDays: Math.max(0, Math.round(slip.totalDaysInMonth - slip.paidDays)),
+      refundOfAdvances: 0,
+    };
+
+    const errors = validateEcrRow(row, slip.totalDaysInMonth);
+    if (errors.length > 0) {
+      totals.issues.push(toIssue(slip, errors.join('; ')));
+      continue;
+    }
+
+    rows.push(row);
+    totals.memberCount += 1;
+    totals.wages += row.epfWages;
+    totals.employeeContribution += row.epfContribution;
+    totals.employerContribution += row.epsContribution + row.epfEpsDiff;
+  }
+
+  return { rows, totals };
+}
+
+export function buildEcrFile(rows: EcrRow[]): string {
+  return rows
+    .map((row) =>
+      [
+        row.uan,
+        row.memberName,
+        row.grossWages,
+        row.epfWages,
+        row.epsWages,
+        row.edliWages,
+        row.epfContribution,
+        row.epsContribution,
+        row.epfEpsDiff,
+        row.ncpDays,
+        row.refundOfAdvances,
+      ].join(ECR_DELIMITER)
+    )
+    .join('\n');
+}
+
+// ── ESI: Monthly Contribution ────────────────────────────────────────────────
+
+/** Column rules the ESIC portal applies to each contribution row */
+export function validateEsiRow(row: EsiReturnRow, daysInMonth: number): string[] {
+  const errors: string[] = [];
+
+  if (!ESI_IP_PATTERN.test(row.ipNumber)) errors.push('IP number must be 10 digits');
+  if (!row.ipName) errors.push('IP name is required');
+  if (row.paidDays < 0 || row.paidDays > daysInMonth) errors.push(`Days must be between 0 and ${daysInMonth}`);
+  if (row.wages > 0 && row.paidDays === 0) errors.push('Days cannot be 0 when wages are paid');
+  if (row.paidDays === 0 && row.reasonCode === 0) errors.push('A reason code is required for zero working days');
+
+  return errors;
+}
+
+/**
+ * ESIC contribution rows for every slip that carries ESI. IPs without a
+ * valid IP number or whose figures break the column rules are returned as
+ * issues.
+ */
+export function prepareEsiReturn(inputs: StatutoryReturnInput[]): { rows: EsiReturnRow[]; totals: StatutoryReturnTotals } {
+  const rows: EsiReturnRow[] = [];
+  const totals = emptyTotals();
+
+  for (const { slip, esiIpNumber } of inputs) {
+    const esi = slip.statutory?.esi;
+    if (!esi) continue;
+
+    if (!esiIpNumber) {
+      totals.issues.push(toIssue(slip, 'No ESIC IP number on file'));
+      continue;
+    }
+
+    const row: EsiReturnRow = {
+      ipNumber: esiIpNumber.trim(),
+      ipName: cleanName(slip.name, /[^A-Za-z ]/g, 100),
+      paidDays: Math.round(slip.paidDays),
+      wages: Math.round(esi.wages),
+      reasonCode: 0,
+      lastWorkingDay: '',
+    };
+
+    const errors = validateEsiRow(row, slip.totalDaysInMonth);
+    if (errors.length > 0) {
+      totals.issues.push(toIssue(slip, errors.join('; ')));
+      continue;
+    }
+
+    rows.push(row);
+    totals.memberCount += 1;
+    totals.wages += row.wages;
+    totals.employeeContribution += esi.employee;
+    totals.employerContribution += esi.employer;
+  }
+
+  return { rows, totals };
+}
+
+/** The ESIC upload template is an Excel 97-2003 workbook with a single sheet */
+export function buildEsiWorkbook(rows: EsiReturnRow[]): Buffer {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ESI_RETURN_COLUMNS,
+    ...rows.map((row) => [row.ipNumber, row.ipName, row.paidDays, row.wages, row.reasonCode, row.lastWorkingDay]),
+  ]);
+  // IP numbers are text so leading zeros survive
+  rows.forEach((_, index) => {
+    const cell = sheet[XLSX.utils.encode_cell({ r: index + 1, c: 0 })];
+    if (cell) cell.t = 's';
+  });
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Sheet1');
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'biff8' });
+}
+
+export const STATUTORY_RETURN_FILES: Record<StatutoryReturnType, { label: string; extension: 'txt' | 'xls'; mimeType: string }> = {
+  'pf-ecr': { label: 'EPF ECR', extension: 'txt', mimeType: 'text/plain;charset=utf-8;' },
+  esi: { label: 'ESI Monthly Contribution', extension: 'xls', mimeType: 'application/vnd.ms-excel' },
+};
+
+/** e.g. "ecr-2026-04.txt", "esi-2026-04.xls" */
+export function getStatutoryReturnFileName(type: StatutoryReturnType, month: number, year: number): string {
+  const prefix = type === 'pf-ecr' ? 'ecr' : 'esi';
+  return `${prefix}-${year}-${String(month + 1).padStart(2, '0')}.${STATUTORY_RETURN_FILES[type].extension}`;
+}
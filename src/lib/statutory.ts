@@ -0,0 +1,200 @@
+/**
+ * Statutory Deductions
+ * EPF, ESI and state Professional Tax calculations applied on top of the
+ * salary formula result. All amounts are monthly and in INR.
+ */
+
+import {
+  EpfSettings,
+  EsiSettings,
+  ProfessionalTaxSettings,
+  SalaryBreakup,
+  StatutoryBreakdown,
+  StatutorySettings,
+} from '@/types/payroll.types';
+import { getComponentTotal } from '@/lib/salary-components';
+
+/** EPFO Universal Account Number */
+export const UAN_PATTERN = /^\d{12}$/;
+
+/** ESIC Insurance Person number */
+export const ESI_IP_PATTERN = /^\d{10}$/;
+
+export interface ProfessionalTaxSlab {
+  from: number;          // lowest monthly gross (inclusive) this slab applies to
+  amount: number;
+  februaryAmount?: number; // states that collect the annual balance in February
+}
+
+export interface ProfessionalTaxState {
+  name: string;
+  slabs: ProfessionalTaxSlab[]; // ascending by `from`; wages below the first slab pay nothing
+}
+
+/**
+ * Monthly Professional Tax slabs by state code.
+ * States that levy PT half-yearly or annually are not listed.
+ */
+export const PROFESSIONAL_TAX_STATES: Record<string, ProfessionalTaxState> = {
+  MH: {
+    name: 'Maharashtra',
+    slabs: [
+      { from: 7501, amount: 175 },
+      { from: 10001, amount: 200, februaryAmount: 300 },
+    ],
+  },
+  KA: {
+    name: 'Karnataka',
+    slabs: [{ from: 25000, amount: 200, februaryAmount: 300 }],
+  },
+  GJ: {
+    name: 'Gujarat',
+    slabs: [{ from: 12000, amount: 200 }],
+  },
+  WB: {
+    name: 'West Bengal',
+    slabs: [
+      { from: 10001, amount: 110 },
+      { from: 15001, amount: 130 },
+      { from: 25001, amount: 150 },
+      { from: 40001, amount: 200 },
+    ],
+  },
+  TS: {
+    name: 'Telangana',
+    slabs: [
+      { from: 15001, amount: 150 },
+      { from: 20001, amount: 200 },
+    ],
+  },
+  AP: {
+    name: 'Andhra Pradesh',
+    slabs: [
+      { from: 15001, amount: 150 },
+      { from: 20001, amount: 200 },
+    ],
+  },
+};
+
+/** Earned gross for the month (sum of earnings on the breakup) */
+export function getEarnedGross(breakup: SalaryBreakup): number {
+  return breakup.basic + breakup.hra + breakup.special + (breakup.overtime || 0) + getComponentTotal(breakup, 'earning');
+}
+
+/**
+ * ESI contribution periods run April–September and October–March.
+ * Returns the first month of the period the given month falls in (month is 0-11).
+ */
+export function getEsiContributionPeriodStart(month: number, year: number): { month: number; year: number } {
+  if (month >= 3 && month <= 8) return { month: 3, year };
+  if (month >= 9) return { month: 9, year };
+  return { month: 9, year: year - 1 };
+}
+
+/**
+ * Earned PF wages for the month. Revision arrears scale basic, HRA and special
+ * alike, so the PF wage components' share of the month's structure is their
+ * share of the arrears too.
+ */
+export function getPfWages(settings: EpfSettings, breakup: SalaryBreakup): number {
+  const wages = settings.wageComponents.reduce((sum, key) => sum + (breakup[key] || 0), 0);
+  const structure = breakup.basic + breakup.hra + breakup.special;
+  if (!breakup.arrears || structure <= 0) return wages;
+  return Math.round(wages + (breakup.arrears * wages) / structure);
+}
+
+/** EPF on earned PF wages; the EPS share is always capped at the wage ceiling */
+export function calculateEpf(
+  settings: EpfSettings,
+  breakup: SalaryBreakup
+): StatutoryBreakdown['epf'] {
+  const pfWages = getPfWages(settings, breakup);
+  if (pfWages <= 0) return null;
+
+  const wages = settings.restrictToCeiling ? Math.min(pfWages, settings.wageCeiling) : pfWages;
+  const employee = Math.round((wages * settings.employeeRate) / 100);
+  const employer = Math.round((wages * settings.employerRate) / 100);
+  const eps = Math.min(employer, Math.round((Math.min(pfWages, settings.wageCeiling) * settings.epsRate) / 100));
+
+  return { wages, employee, employer, eps };
+}
+
+/**
+ * ESI on earned gross plus any revision arrears paid in the month. Coverage is decided by the gross salary at the start of
+ * the contribution period, so an employee who crosses the threshold mid-period
+ * keeps contributing until the period ends. Contributions round up to the rupee.
+ */
+export function calculateEsi(
+  settings: EsiSettings,
+  breakup: SalaryBreakup,
+  coverageGross: number
+): StatutoryBreakdown['esi'] {
+  if (coverageGross > settings.grossThreshold) return null;
+
+  const wages = getEarnedGross(breakup) + (breakup.arrears || 0);
+  if (wages <= 0) return null;
+
+  return {
+    wages,
+    employee: Math.ceil((wages * settings.employeeRate) / 100),
+    employer: Math.ceil((wages * settings.employerRate) / 100),
+  };
+}
+
+/** Professional Tax for the employee's state; month is 0-11 */
+export function calculateProfessionalTax(
+  settings: ProfessionalTaxSettings,
+  breakup: SalaryBreakup,
+  state: string | null | undefined,
+  month: number
+): StatutoryBreakdown['professionalTax'] {
+  const stateCode = state || settings.defaultState;
+  const config = PROFESSIONAL_TAX_STATES[stateCode];
+  if (!config) return null;
+
+  const gross = getEarnedGross(breakup);
+  const slab = [...config.slabs].reverse().find((s) => gross >= s.from);
+  if (!slab) return { state: stateCode, amount: 0 };
+
+  const amount = month === 1 && slab.februaryAmount !== undefined ? slab.februaryAmount : slab.amount;
+  return { state: stateCode, amount };
+}
+
+/** Compute every enabled statutory deduction for one employee-month */
+export function calculateStatutoryDeductions(params: {
+  settings: StatutorySettings;
+  breakup: SalaryBreakup;
+  month: number;
+  ptState?: string | null;
+  esiCoverageGross: number;
+}): StatutoryBreakdown {
+  const { settings, breakup, month, ptState, esiCoverageGross } = params;
+
+  return {
+    epf: settings.epf.enabled ? calculateEpf(settings.epf, breakup) : null,
+    esi: settings.esi.enabled ? calculateEsi(settings.esi, breakup, esiCoverageGross) : null,
+    professionalTax: settings.professionalTax.enabled
+      ? calculateProfessionalTax(settings.professionalTax, breakup, ptState, month)
+      : null,
+  };
+}
+
+/**
+ * Write the employee shares onto the breakup and take them out of net salary.
+ * Employer shares are not deductions and stay on the StatutoryBreakdown only.
+ */
+export function applyStatutoryDeductions(breakup: SalaryBreakup, statutory: StatutoryBreakdown): SalaryBreakup {
+  const epf = statutory.epf?.employee ?? 0;
+  const esi = statutory.esi?.employee ?? 0;
+  const professionalTax = statutory.professionalTax?.amount ?? 0;
+  const total = epf + esi + professionalTax;
+
+  return {
+    ...breakup,
+    ...(statutory.epf ? { epf } : {}),
+    ...(statutory.esi ? { esi } : {}),
+    ...(statutory.professionalTax ? { professionalTax } : {}),
+    totalDeductions: breakup.totalDeductions + total,
+    netSalary: breakup.netSalary - total,
+  };
+}
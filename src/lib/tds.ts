@@ -0,0 +1,288 @@
+/**
+ * TDS Projection
+ * Estimates annual taxable salary from generated slips plus the months left in
+ * the financial year, computes tax under the old or new regime and spreads the
+ * balance evenly into the remaining months' `salaryBreakup.tds`.
+ */
+
+import { SalaryBreakup, TaxDeclaration, TaxRegime, TdsProjection } from '@/types/payroll.types';
+import { getComponentTotal } from '@/lib/salary-components';
+
+interface TaxSlab {
+  upTo: number | null; // upper bound of taxable income for this rate; null = no limit
+  rate: number;        // percent
+}
+
+interface RegimeRules {
+  slabs: TaxSlab[];
+  standardDeduction: number;
+  rebateLimit: number;  // section 87A: taxable income up to this pays no tax
+  maxRebate: number;
+  marginalRelief: boolean; // tax just above the rebate limit cannot exceed the excess income
+  maxSurchargeRate: number;
+}
+
+export const TAX_REGIMES: Record<TaxRegime, RegimeRules> = {
+  new: {
+    slabs: [
+      { upTo: 400000, rate: 0 },
+      { upTo: 800000, rate: 5 },
+      { upTo: 1200000, rate: 10 },
+      { upTo: 1600000, rate: 15 },
+      { upTo: 2000000, rate: 20 },
+      { upTo: 2400000, rate: 25 },
+      { upTo: null, rate: 30 },
+    ],
+    standardDeduction: 75000,
+    rebateLimit: 1200000,
+    maxRebate: 60000,
+    marginalRelief: true,
+    maxSurchargeRate: 25,
+  },
+  old: {
+    slabs: [
+      { upTo: 250000, rate: 0 },
+      { upTo: 500000, rate: 5 },
+      { upTo: 1000000, rate: 20 },
+      { upTo: null, rate: 30 },
+    ],
+    standardDeduction: 50000,
+    rebateLimit: 500000,
+    maxRebate: 12500,
+    marginalRelief: false,
+    maxSurchargeRate: 37,
+  },
+};
+
+export const SECTION_80C_LIMIT = 150000;
+export const SECTION_80D_LIMIT = 75000; // self/family plus senior-citizen parents
+export const PROFESSIONAL_TAX_LIMIT = 2500;
+const CESS_RATE = 4;
+
+const SURCHARGE_SLABS: { above: number; rate: number }[] = [
+  { above: 50000000, rate: 37 },
+  { above: 20000000, rate: 25 },
+  { above: 10000000, rate: 15 },
+  { above: 5000000, rate: 10 },
+];
+
+/** Salary figures from one month that feed the tax projection */
+export interface TaxableMonth {
+  basic: number;
+  hra: number;
+  special: number;
+  epf: number;
+  professionalTax: number;
+  tds: number;
+}
+
+export function toTaxableMonth(breakup: SalaryBreakup): TaxableMonth {
+  return {
+    basic: breakup.basic || 0,
+    hra: breakup.hra || 0,
+    // arrears, overtime and taxable catalogue earnings are fully taxable, like special allowance
+    special:
+      (breakup.special || 0) + (breakup.arrears || 0) + (breakup.overtime || 0) +
+      getComponentTotal(breakup, 'earning', { taxableOnly: true }),
+    epf: breakup.epf || 0,
+    professionalTax: breakup.professionalTax || 0,
+    tds: breakup.tds || 0,
+  };
+}
+
+/** Earnings paid once in a month rather than every month: revision arrears and overtime */
+export function getOneOffEarnings(breakup: SalaryBreakup): number {
+  return (breakup.arrears || 0) + (breakup.overtime || 0);
+}
+
+/** A month's recurring salary to repeat over the months ahead, without its one-off earnings */
+export function toProjectedMonth(breakup: SalaryBreakup): TaxableMonth {
+  const month = toTaxableMonth(breakup);
+  return { ...month, special: month.special - getOneOffEarnings(breakup), tds: 0 };
+}
+
+/** Financial year (starting calendar year) that a month falls in; month is 0-11 */
+export function getFinancialYear(month: number, year: number): number {
+  return month >= 3 ? year : year - 1;
+}
+
+/** "2026-27" style label */
+export function formatFinancialYear(financialYear: number): string {
+  return `${financialYear}-${String((financialYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/** Months from the given month through March, inclusive (April = 12, March = 1) */
+export function getRemainingMonthsInFinancialYear(month: number): number {
+  return month >= 3 ? 15 - month : 3 - month;
+}
+
+/** Position of a month within its financial year (April = 0, March = 11) */
+export function getFinancialYearMonthIndex(month: number): number {
+  return (month + 9) % 12;
+}
+
+/** Tax on income using the regime's slabs, before rebate, surcharge and cess */
+export function calculateSlabTax(taxableIncome: number, regime: TaxRegime): number {
+  let tax = 0;
+  let lower = 0;
+  for (const slab of TAX_REGIMES[regime].slabs) {
+    const upper = slab.upTo ?? Infinity;
+    if (taxableIncome > lower) {
+      tax += ((Math.min(taxableIncome, upper) - lower) * slab.rate) / 100;
+    }
+    lower = upper;
+  }
+  return tax;
+}
+
+/**
+ * HRA exemption for the year: the least of HRA received, rent paid over 10% of
+ * basic, and 50% (metro) / 40% of basic
+ */
+export function calculateHraExemption(annualBasic: number, annualHra: number, rentPaid: number, metroCity: boolean): number {
+  if (rentPaid <= 0 || annualHra <= 0) return 0;
+  return Math.max(0, Math.min(
+    annualHra,
+    rentPaid - annualBasic * 0.1,
+    annualBasic * (metroCity ? 0.5 : 0.4)
+  ));
+}
+
+interface AnnualTax {
+  standardDeduction: number;
+  hraExemption: number;
+  section80C: number;
+  section80D: number;
+  professionalTax: number;
+  taxableIncome: number;
+  taxOnIncome: number;
+  rebate: number;
+  surcharge: number;
+  cess: number;
+  annualTax: number;
+}
+
+function calculateAnnualTax(
+  regime: TaxRegime,
+  totals: TaxableMonth,
+  declaration: TaxDeclaration | null
+): AnnualTax {
+  const rules = TAX_REGIMES[regime];
+  const annualGross = totals.basic + totals.hra + totals.special;
+
+  // Chapter VI-A deductions, HRA and PT are only available under the old regime
+  let hraExemption = 0;
+  let section80C = 0;
+  let section80D = 0;
+  let professionalTax = 0;
+  if (regime === 'old') {
+    const rentPaid = (declaration?.rentReceipts ?? []).reduce((sum, receipt) => sum + receipt.amount, 0);
+    hraExemption = calculateHraExemption(totals.basic, totals.hra, rentPaid, declaration?.metroCity ?? false);
+    section80C = Math.min(SECTION_80C_LIMIT, (declaration?.section80C ?? 0) + totals.epf);
+    section80D = Math.min(SECTION_80D_LIMIT, declaration?.section80D ?? 0);
+    professionalTax = Math.min(PROFESSIONAL_TAX_LIMIT, totals.professionalTax);
+  }
+
+  const standardDeduction = Math.min(rules.standardDeduction, annualGross);
+  const taxableIncome = Math.max(
+    0,
+    Math.round(annualGross - standardDeduction - hraExemption - section80C - section80D - professionalTax)
+  );
+
+  const taxOnIncome = calculateSlabTax(taxableIncome, regime);
+  let rebate = 0;
+  if (taxableIncome <= rules.rebateLimit) {
+    rebate = Math.min(taxOnIncome, rules.maxRebate);
+  } else if (rules.marginalRelief) {
+    rebate = Math.max(0, taxOnIncome - (taxableIncome - rules.rebateLimit));
+  }
+  const taxAfterRebate = taxOnIncome - rebate;
+
+  const surchargeSlab = SURCHARGE_SLABS.find((slab) => taxableIncome > slab.above);
+  const surchargeRate = surchargeSlab ? Math.min(surchargeSlab.rate, rules.maxSurchargeRate) : 0;
+  const surcharge = (taxAfterRebate * surchargeRate) / 100;
+  const cess = ((taxAfterRebate + surcharge) * CESS_RATE) / 100;
+
+  return {
+    standardDeduction,
+    hraExemption: Math.round(hraExemption),
+    section80C,
+    section80D,
+    professionalTax,
+    taxableIncome,
+    taxOnIncome: Math.round(taxOnIncome),
+    rebate: Math.round(rebate),
+    surcharge: Math.round(surcharge),
+    cess: Math.round(cess),
+    annualTax: Math.round(taxAfterRebate + surcharge + cess),
+  };
+}
+
+function sumMonths(months: TaxableMonth[]): TaxableMonth {
+  return months.reduce(
+    (sum, month) => ({
+      basic: sum.basic + month.basic,
+      hra: sum.hra + month.hra,
+      special: sum.special + month.special,
+      epf: sum.epf + month.epf,
+      professionalTax: sum.professionalTax + month.professionalTax,
+      tds: sum.tds + month.tds,
+    }),
+    { basic: 0, hra: 0, special: 0, epf: 0, professionalTax: 0, tds: 0 }
+  );
+}
+
+/**
+ * Project annual tax for an employee and the TDS to deduct in each remaining month.
+ * `paid` are months with generated slips; `projectedMonth` is repeated for
+ * `monthsRemaining` months. `oneOffEarnings` (arrears and overtime of the
+ * month being calculated) count once, as actual income. Without a declaration
+ * the new regime applies.
+ */
+export function projectTds(params: {
+  financialYear: number;
+  paid: TaxableMonth[];
+  projectedMonth: TaxableMonth | null;
+  monthsRemaining: number;
+  declaration: TaxDeclaration | null;
+  oneOffEarnings?: number;
+}): TdsProjection {
+  const { financialYear, paid, projectedMonth, declaration, oneOffEarnings = 0 } = params;
+  const monthsRemaining = projectedMonth ? params.monthsRemaining : 0;
+  const regime: TaxRegime = declaration?.regime ?? 'new';
+
+  const paidTotals = sumMonths(paid);
+  const actual = { ...paidTotals, special: paidTotals.special + oneOffEarnings };
+  const projected = sumMonths(Array.from({ length: monthsRemaining }, () => projectedMonth!));
+  const totals = sumMonths([actual, projected]);
+
+  const tax = calculateAnnualTax(regime, totals, declaration);
+  const otherRegimeTax = calculateAnnualTax(regime === 'new' ? 'old' : 'new', totals, declaration).annualTax;
+
+  const balance = Math.max(0, tax.annualTax - actual.tds);
+  const monthlyTds = monthsRemaining > 0 ? Math.round(balance / monthsRemaining) : 0;
+
+  return {
+    financialYear,
+    regime,
+    monthsPaid: paid.length,
+    monthsRemaining,
+    actualGross: actual.basic + actual.hra + actual.special,
+    projectedGross: projected.basic + projected.hra + projected.special,
+    annualGross: totals.basic + totals.hra + totals.special,
+    ...tax,
+    taxDeducted: actual.tds,
+    monthlyTds,
+    otherRegimeTax,
+  };
+}
+
+/** Put the month's TDS on the breakup and take it out of net salary */
+export function applyTds(breakup: SalaryBreakup, tds: number): SalaryBreakup {
+  return {
+    ...breakup,
+    tds,
+    totalDeductions: breakup.totalDeductions + tds,
+    netSalary: breakup.netSalary - tds,
+  };
+}
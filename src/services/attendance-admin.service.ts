@@ -6,8 +6,19 @@
 
 import { adminDb } from '@/lib/firebase-admin';
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
+import { ApiError } from '@/lib/api-error-handler';
+import { getAutoClockOutAt, isOvernightShift } from '@/lib/auto-clock-out';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { getPunchReservationState, PUNCH_IN_PROGRESS_STATUS } from '@/lib/offline-punches';
+import { addDays } from '@/lib/comp-off';
+import { getShiftAttendanceDate } from '@/lib/shift-rotation';
+import { calculateOvertimeHours } from '@/utils/time-calculations';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+import { shiftAdminService } from '@/services/shift-admin.service';
+import { GeofenceMatch, OfflinePunchInfo, PunchType } from '@/types/attendance.types';
 
 const COLLECTION = 'attendance-records';
+const PUNCH_KEYS = 'attendance-punch-keys';
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
@@ -34,6 +45,11 @@ function convertTimestamps(data: any, id: string) {
     };
 }
 
+/** The attendance day a record counts for; records from before it was stored use the clock-in's */
+function recordDay(record: { date?: string; clockIn: Date }): string {
+    return record.date ?? toAttendanceDate(record.clockIn);
+}
+
 function validateLocation(location: any) {
     if (!location) return undefined;
     const lat = location.latitude ?? location.lat;
@@ -61,10 +77,6 @@ function calculateWorkHours(clockIn: Date, clockOut: Date, breaks: any[]): numbe
     return Math.max(0, (totalMs - breakMs) / (1000 * 60 * 60));
 }
 
-function calculateOvertimeHours(totalHours: number, standardHours = 8): number {
-    return Math.max(0, totalHours - standardHours);
-}
-
 function calculateRegularHours(totalHours: number, overtimeHours: number): number {
     return Math.max(0, totalHours - overtimeHours);
 }
@@ -102,16 +114,20 @@ function calculateTotalBreakDuration(breaks: any[]): number {
 
 export const attendanceAdminService = {
     /**
-     * Check if employee has already clocked in today
+     * Check if employee has already clocked in today (or on the day of `at`,
+     * for a punch replayed from the offline queue). `date` is the punch's
+     * attendance day when its shift started the day before.
      */
-    async hasClockedInToday(employeeId: string): Promise<boolean> {
-        // Use a 30-hour lookback window to safely catch clock-ins across timezones
-        const cutoff = new Date(Date.now() - 30 * 60 * 60 * 1000);
+    async hasClockedInToday(employeeId: string, at: Date = new Date(), date?: string): Promise<boolean> {
+        // Use a 30-hour window either side to safely catch clock-ins across timezones
+        const cutoff = new Date(at.getTime() - 30 * 60 * 60 * 1000);
+        const until = new Date(at.getTime() + 30 * 60 * 60 * 1000);
 
         const snapshot = await adminDb
             .collection(COLLECTION)
             .where('employeeId', '==', employeeId)
             .where('clockIn', '>=', Timestamp.fromDate(cutoff))
+            .where('clockIn', '<=', Timestamp.fromDate(until))
             .get();
 
         if (snapshot.empty) return false;
@@ -123,13 +139,13 @@ export const attendanceAdminService = {
             month: '2-digit',
             day: '2-digit'
         });
-        const todayStr = formatter.format(new Date());
+        const todayStr = date ?? formatter.format(at);
 
         return snapshot.docs.some((doc) => {
             const data = doc.data();
             const clockIn = data.clockIn?.toDate ? data.clockIn.toDate() : new Date(data.clockIn);
             if (!clockIn || isNaN(clockIn.getTime())) return false;
-            return formatter.format(clockIn) === todayStr;
+            return (data.date ?? formatter.format(clockIn)) === todayStr;
         });
     },
 
@@ -155,15 +171,21 @@ export const attendanceAdminService = {
         });
         const todayStr = formatter.format(new Date());
 
-        const todayRecords = snapshot.docs
-            .map((doc) => convertTimestamps(doc.data(), doc.id))
-            .filter((record) => {
-                const clockIn = record.clockIn instanceof Date ? record.clockIn : new Date(record.clockIn);
-                if (isNaN(clockIn.getTime())) return false;
-                return formatter.format(clockIn) === todayStr;
-            });
+        const records = snapshot.docs.map((doc) => convertTimestamps(doc.data(), doc.id));
+        const todayRecords = records.filter((record) => {
+            const clockIn = record.clockIn instanceof Date ? record.clockIn : new Date(record.clockIn);
+            if (isNaN(clockIn.getTime())) return false;
+            return (record.date ?? formatter.format(clockIn)) === todayStr;
+        });
 
-        const activeRecord = todayRecords.find((r) => !r.clockOut);
+        let activeRecord = todayRecords.find((r) => !r.clockOut);
+        if (!activeRecord) {
+            // A night shift started yesterday is still current until it is clocked out
+            const yesterday = addDays(todayStr, -1);
+            const overnight = records.find((r) => !r.clockOut && r.shiftId && recordDay(r) === yesterday);
+            const shift = overnight ? await shiftAdminService.getShift(overnight.shiftId) : null;
+            if (shift && isOvernightShift(shift)) activeRecord = overnight;
+        }
 
         if (!activeRecord) {
             return { isClockedIn: false, isOnBreak: false, elapsedTime: 0, breakDuration: 0 };
@@ -186,7 +208,8 @@ export const attendanceAdminService = {
     },
 
     /**
-     * Clock in an employee
+     * Clock in an employee. With an idempotency key, the key is marked applied
+     * in the same write as the record.
      */
     async clockIn(data: {
         employeeId: string;
@@ -194,8 +217,17 @@ export const attendanceAdminService = {
         timestamp: Date;
         location?: any;
         notes?: string;
+        geofence?: GeofenceMatch | null;
+        offline?: OfflinePunchInfo;
+        idempotencyKey?: string;
     }) {
-        const alreadyClockedIn = await this.hasClockedInToday(data.employeeId);
+        // A night shift clocked into after midnight counts for the day it started
+        const calendarDay = toAttendanceDate(data.timestamp);
+        const resolveShift = await shiftAdminService.getResolver(addDays(calendarDay, -1), addDays(calendarDay, 1));
+        const date = getShiftAttendanceDate(data.timestamp, (day) => resolveShift(data.employeeId, day));
+        const shift = resolveShift(data.employeeId, date);
+
+        const alreadyClockedIn = await this.hasClockedInToday(data.employeeId, data.timestamp, date);
         if (alreadyClockedIn) return null;
 
         const status = await this.getCurrentStatus(data.employeeId);
@@ -208,28 +240,48 @@ export const attendanceAdminService = {
             employeeId: data.employeeId,
             employeeName: data.employeeName,
             clockIn: Timestamp.fromDate(data.timestamp),
+            date,
+            shiftId: shift?.id ?? null,
             breaks: [],
             totalHours: 0,
             regularHours: 0,
             overtimeHours: 0,
             status: 'active',
             location: validatedLocation ? { clockIn: validatedLocation } : null,
+            geofence: data.geofence ? { clockIn: data.geofence } : null,
             notes: data.notes ? { clockIn: data.notes } : null,
+            ...(data.offline && { offline: { clockIn: data.offline } }),
             createdAt: now,
             updatedAt: now,
         };
 
-        const docRef = await adminDb.collection(COLLECTION).add(record);
+        const docRef = adminDb.collection(COLLECTION).doc();
+        const batch = adminDb.batch();
+        batch.set(docRef, record);
+        if (data.idempotencyKey) {
+            batch.update(adminDb.collection(PUNCH_KEYS).doc(data.idempotencyKey), { recordId: docRef.id });
+        }
+        await batch.commit();
         const created = await docRef.get();
         return convertTimestamps(created.data()!, docRef.id);
     },
 
     /**
-     * Clock out an employee
+     * Clock out an employee. A clock-out replayed from the offline queue
+     * replaces an automatic clock-out, since it records when they really left.
+     * With an idempotency key, the key is marked applied in the same write as
+     * the record.
      */
     async clockOut(
         recordId: string,
-        data: { timestamp: Date; location?: any; notes?: string }
+        data: {
+            timestamp: Date;
+            location?: any;
+            notes?: string;
+            geofence?: GeofenceMatch | null;
+            offline?: OfflinePunchInfo;
+            idempotencyKey?: string;
+        }
     ) {
         const docRef = adminDb.collection(COLLECTION).doc(recordId);
         const doc = await docRef.get();
@@ -238,10 +290,22 @@ export const attendanceAdminService = {
 
         const record = convertTimestamps(doc.data()!, doc.id);
 
-        if (record.clockOut) throw new Error('Employee is already clocked out');
+        if (record.clockOut && !(data.offline && record.autoClockedOut)) {
+            throw new ApiError(409, 'Employee is already clocked out');
+        }
+        if (data.timestamp <= record.clockIn) {
+            throw new ApiError(400, 'Clock-out time must be after the clock-in time');
+        }
 
+        // Overtime past the shift, or the employee's policy day when they have none
+        const day = recordDay(record);
+        const [resolveShift, policy] = await Promise.all([
+            shiftAdminService.getResolver(day, day),
+            attendancePolicyAdminService.resolveForEmployee(record.employeeId, record.clockIn),
+        ]);
+        const shift = resolveShift(record.employeeId, day);
         const totalHours = calculateWorkHours(record.clockIn, data.timestamp, record.breaks);
-        const overtimeHours = calculateOvertimeHours(totalHours);
+        const overtimeHours = calculateOvertimeHours(totalHours, shift, policy);
         const regularHours = calculateRegularHours(totalHours, overtimeHours);
         const validatedLocation = validateLocation(data.location);
 
@@ -254,6 +318,16 @@ export const attendanceAdminService = {
             updatedAt: Timestamp.now(),
         };
 
+        if (data.offline) {
+            updates.offline = { ...(record.offline || {}), clockOut: data.offline };
+            if (record.autoClockedOut) {
+                updates.autoClockedOut = false;
+                updates.notes = Object.fromEntries(
+                    Object.entries(record.notes || {}).filter(([key]) => key !== 'clockOut')
+                );
+            }
+        }
+
         if (validatedLocation) {
             updates.location = {
                 ...(record.location || {}),
@@ -261,11 +335,23 @@ export const attendanceAdminService = {
             };
         }
 
+        if (data.geofence) {
+            updates.geofence = {
+                ...(record.geofence || {}),
+                clockOut: data.geofence,
+            };
+        }
+
         if (data.notes) {
             updates.notes = { ...(record.notes || {}), clockOut: data.notes };
         }
 
-        await docRef.update(updates);
+        const batch = adminDb.batch();
+        batch.update(docRef, updates);
+        if (data.idempotencyKey) {
+            batch.update(adminDb.collection(PUNCH_KEYS).doc(data.idempotencyKey), { recordId });
+        }
+        await batch.commit();
         const updated = await docRef.get();
         return convertTimestamps(updated.data()!, docRef.id);
     },
@@ -340,6 +426,144 @@ export const attendanceAdminService = {
         return convertTimestamps(updated.data()!, docRef.id);
     },
 
+    /**
+     * Close records still open past their auto clock-out time (shift end plus
+     * grace, or the policy's autoClockOutTime) and mark them incomplete, so the
+     * employee regularizes the real clock-out. Returns the records closed.
+     */
+    async autoClockOut(now: Date = new Date()) {
+        const [snapshot, resolvePolicy] = await Promise.all([
+            adminDb.collection(COLLECTION).where('status', '==', 'active').get(),
+            attendancePolicyAdminService.getResolver(),
+        ]);
+        const days = snapshot.docs.map((doc) => recordDay(convertTimestamps(doc.data(), doc.id))).sort();
+        if (days.length === 0) return [];
+        const resolveShift = await shiftAdminService.getResolver(days[0], days[days.length - 1]);
+
+        const closed = [];
+        for (const doc of snapshot.docs) {
+            const record = convertTimestamps(doc.data(), doc.id);
+            if (record.clockOut) continue;
+
+            const day = recordDay(record);
+            const shift = resolveShift(record.employeeId, day);
+            const policy = resolvePolicy(record.employeeId, record.clockIn);
+            const clockOut = getAutoClockOutAt(record.clockIn, shift, policy, day);
+            if (clockOut > now) continue;
+
+            // A break still running ends with the day
+            const breaks = record.breaks.map((b: any) => ({
+                ...b,
+                endTime: b.endTime ?? (b.startTime < clockOut ? clockOut : b.startTime),
+            }));
+            const totalHours = calculateWorkHours(record.clockIn, clockOut, breaks);
+            const overtimeHours = calculateOvertimeHours(totalHours, shift, policy);
+
+            await doc.ref.update({
+                clockOut: Timestamp.fromDate(clockOut),
+                breaks: breaks.map((b: any) => ({
+                    ...b,
+                    startTime: Timestamp.fromDate(b.startTime),
+                    endTime: Timestamp.fromDate(b.endTime),
+                })),
+                totalHours,
+                regularHours: calculateRegularHours(totalHours, overtimeHours),
+                overtimeHours,
+                status: 'incomplete',
+                autoClockedOut: true,
+                notes: { ...(record.notes || {}), clockOut: 'Auto clock-out: no clock-out was recorded' },
+                updatedAt: Timestamp.now(),
+            });
+            closed.push({ ...record, clockOut, status: 'incomplete' });
+        }
+
+        return closed;
+    },
+
+    /**
+     * The record a clock-out at `at` closes when the device did not know it
+     * (both punches were queued offline): the latest one clocked in before,
+     * still open or closed automatically
+     */
+    async findRecordToClockOut(employeeId: string, at: Date): Promise<string | null> {
+        const snapshot = await adminDb
+            .collection(COLLECTION)
+            .where('employeeId', '==', employeeId)
+            .where('clockIn', '>=', Timestamp.fromDate(new Date(at.getTime() - 30 * 60 * 60 * 1000)))
+            .where('clockIn', '<', Timestamp.fromDate(at))
+            .get();
+
+        const record = snapshot.docs
+            .map((doc) => convertTimestamps(doc.data(), doc.id))
+            .sort((a, b) => b.clockIn.getTime() - a.clockIn.getTime())[0];
+        return record && (!record.clockOut || record.autoClockedOut) ? record.id : null;
+    },
+
+    // ─── Offline Punch Idempotency ──────────────────────────────────────────
+
+    /**
+     * Reserve an offline punch's idempotency key before applying it. Returns
+     * the record an earlier delivery of the same punch produced, or null when
+     * this delivery should apply it. Throws a retryable 425 while another
+     * delivery is still applying it; a reservation left past its lease by a
+     * delivery that died is taken over.
+     */
+    async beginPunch(key: string, employeeId: string, type: PunchType) {
+        const keyRef = adminDb.collection(PUNCH_KEYS).doc(key);
+        try {
+            await keyRef.create({ employeeId, type, recordId: null, createdAt: Timestamp.now() });
+            return null;
+        } catch (error: any) {
+            // 6 = ALREADY_EXISTS
+            if (error?.code !== 6) throw error;
+        }
+
+        const recordId = await adminDb.runTransaction(async (transaction) => {
+            const existing = (await transaction.get(keyRef)).data();
+            if (!existing) {
+                // Freed by the other delivery since; reserve it for this one
+                transaction.create(keyRef, { employeeId, type, recordId: null, createdAt: Timestamp.now() });
+                return null;
+            }
+
+            const reservation = {
+                employeeId: existing.employeeId,
+                type: existing.type,
+                recordId: existing.recordId ?? null,
+                createdAt: existing.createdAt.toDate(),
+            };
+            const state = getPunchReservationState(reservation, employeeId, type);
+            if (state === 'mismatch') {
+                throw new ApiError(409, 'This idempotency key was used for a different punch');
+            }
+            if (state === 'in-progress') {
+                throw new ApiError(PUNCH_IN_PROGRESS_STATUS, 'This punch is already being processed');
+            }
+            if (state === 'abandoned') {
+                transaction.update(keyRef, { createdAt: Timestamp.now() });
+                return null;
+            }
+            return existing.recordId as string;
+        });
+        if (!recordId) return null;
+
+        const doc = await adminDb.collection(COLLECTION).doc(recordId).get();
+        if (!doc.exists) throw new Error('Attendance record not found');
+        return convertTimestamps(doc.data()!, doc.id);
+    },
+
+    /**
+     * Free the key of a punch that was not applied, so the device can retry
+     * it. A key whose record was written (see clockIn and clockOut) is kept.
+     */
+    async releasePunch(key: string): Promise<void> {
+        const keyRef = adminDb.collection(PUNCH_KEYS).doc(key);
+        await adminDb.runTransaction(async (transaction) => {
+            const existing = (await transaction.get(keyRef)).data();
+            if (existing && !existing.recordId) transaction.delete(keyRef);
+        });
+    },
+
     /**
      * Delete an attendance record
      */
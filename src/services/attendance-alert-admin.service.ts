@@ -0,0 +1,289 @@
+/**
+ * Attendance Alert Admin Service
+ * Server-side service using Firebase Admin SDK for attendance alerts, the
+ * team's attendance status for a day and the monthly punctuality report
+ * This bypasses Firestore security rules and should only be used in API routes
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { AlertRecord, buildPunctualityReport, evaluateRecordAlerts } from '@/lib/attendance-alerts';
+import { getShiftWindow } from '@/lib/auto-clock-out';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+import { shiftAdminService } from '@/services/shift-admin.service';
+import {
+  AttendanceAlert,
+  PunctualityReportRow,
+  TeamMemberAttendanceStatus,
+} from '@/types/attendance.types';
+
+const COLLECTION = 'attendance-alerts';
+
+const DAY_MS = 24 * 3600000;
+
+/** Start of an attendance day (YYYY-MM-DD, IST) */
+function dayStart(date: string): Date {
+  return new Date(`${date}T00:00:00+05:30`);
+}
+
+function toDate(value: any): Date | undefined {
+  if (!value) return undefined;
+  return value.toDate ? value.toDate() : new Date(value);
+}
+
+function toRecord(data: FirebaseFirestore.DocumentData, id: string): AlertRecord & { status: string } {
+  return {
+    id,
+    employeeId: data.employeeId,
+    employeeName: data.employeeName,
+    clockIn: toDate(data.clockIn)!,
+    clockOut: toDate(data.clockOut),
+    breaks: (data.breaks ?? []).map((b: any) => ({
+      ...b,
+      startTime: toDate(b.startTime)!,
+      endTime: toDate(b.endTime),
+    })),
+    totalHours: data.totalHours ?? 0,
+    autoClockedOut: data.autoClockedOut ?? false,
+    date: data.date,
+    status: data.status,
+  };
+}
+
+function toAlert(data: FirebaseFirestore.DocumentData, id: string): AttendanceAlert {
+  return {
+    ...(data as AttendanceAlert),
+    id,
+    timestamp: toDate(data.timestamp) ?? new Date(),
+  };
+}
+
+async function getRecordsBetween(start: Date, end: Date) {
+  const snapshot = await adminDb
+    .collection('attendance-records')
+    .where('clockIn', '>=', Timestamp.fromDate(start))
+    .where('clockIn', '<', Timestamp.fromDate(end))
+    .get();
+  return snapshot.docs.map((doc) => toRecord(doc.data(), doc.id));
+}
+
+/**
+ * The records of an attendance day. A night shift's record can be clocked
+ * into the next calendar day, or just before the day starts.
+ */
+async function getRecordsForDay(date: string) {
+  const start = dayStart(date);
+  const records = await getRecordsBetween(new Date(start.getTime() - DAY_MS), new Date(start.getTime() + 2 * DAY_MS));
+  return records.filter((record) => (record.date ?? toAttendanceDate(record.clockIn)) === date);
+}
+
+async function getUserNames(userIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  if (userIds.length === 0) return names;
+  const docs = await adminDb.getAll(...userIds.map((id) => adminDb.collection('users').doc(id)));
+  for (const doc of docs) {
+    const user = doc.data();
+    names.set(doc.id, user?.displayName || user?.name || user?.email || doc.id);
+  }
+  return names;
+}
+
+export const attendanceAlertAdminService = {
+  // ============================================================================
+  // ALERT ENGINE
+  // ============================================================================
+
+  /**
+   * Evaluate the records of an attendance day (YYYY-MM-DD) and persist their
+   * alerts. Existing alerts are refreshed, and ones a record no longer raises
+   * (e.g. after a regularization) are removed. Returns the alerts raised for
+   * the first time.
+   */
+  async evaluateDate(date: string, now: Date = new Date()): Promise<AttendanceAlert[]> {
+    try {
+      const [records, resolveShift, resolvePolicy, existingSnapshot] = await Promise.all([
+        getRecordsForDay(date),
+        shiftAdminService.getResolver(date, date),
+        attendancePolicyAdminService.getResolver(),
+        adminDb.collection(COLLECTION).where('date', '==', date).get(),
+      ]);
+
+      const existing = new Map(existingSnapshot.docs.map((doc) => [doc.id, doc]));
+      const raised = new Set<string>();
+      const created: AttendanceAlert[] = [];
+      const batch = adminDb.batch();
+
+      for (const record of records) {
+        const shift = resolveShift(record.employeeId, date);
+        const policy = resolvePolicy(record.employeeId, record.clockIn);
+        for (const alert of evaluateRecordAlerts(record, shift, policy, now)) {
+          raised.add(alert.id);
+          const { id, timestamp, ...data } = alert;
+          const current = existing.get(id);
+          if (current) {
+            batch.update(current.ref, {
+              message: data.message,
+              severity: data.severity,
+              minutes: data.minutes ?? null,
+            });
+          } else {
+            batch.set(adminDb.collection(COLLECTION).doc(id), {
+              ...data,
+              minutes: data.minutes ?? null,
+              timestamp: Timestamp.fromDate(timestamp),
+            });
+            created.push(alert);
+          }
+        }
+      }
+
+      for (const [id, doc] of existing) {
+        if (!raised.has(id)) batch.delete(doc.ref);
+      }
+
+      await batch.commit();
+      return created;
+    } catch (error) {
+      console.error('[AttendanceAlertAdminService] Error evaluating alerts:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // ALERT QUERIES
+  // ============================================================================
+
+  /**
+   * Alerts on attendance days from startDate to endDate (YYYY-MM-DD, inclusive),
+   * latest first. employeeIds limits the result to those employees.
+   */
+  async getAlerts(startDate: string, endDate: string, employeeIds?: string[]): Promise<AttendanceAlert[]> {
+    try {
+      const snapshot = await adminDb
+        .collection(COLLECTION)
+        .where('date', '>=', startDate)
+        .where('date', '<=', endDate)
+        .get();
+
+      const allowed = employeeIds ? new Set(employeeIds) : null;
+      return snapshot.docs
+        .map((doc) => toAlert(doc.data(), doc.id))
+        .filter((alert) => !allowed || allowed.has(alert.employeeId))
+        .sort((a, b) => (b.date ?? '').localeCompare(a.date ?? '') || a.employeeName.localeCompare(b.employeeName));
+    } catch (error) {
+      console.error('[AttendanceAlertAdminService] Error getting alerts:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // TEAM STATUS & REPORTS
+  // ============================================================================
+
+  /**
+   * Where each employee stands on an attendance day: clocked in, on break,
+   * clocked out, on approved leave or absent, with late/early flags from
+   * their shift
+   */
+  async getTeamStatus(
+    employeeIds: string[],
+    date: string,
+    now: Date = new Date()
+  ): Promise<TeamMemberAttendanceStatus[]> {
+    try {
+      const start = dayStart(date);
+      const [names, records, resolveShift, resolvePolicy, leaveSnapshot] = await Promise.all([
+        getUserNames(employeeIds),
+        getRecordsForDay(date),
+        shiftAdminService.getResolver(date, date),
+        attendancePolicyAdminService.getResolver(),
+        adminDb.collection('leave-requests').where('status', '==', 'approved').get(),
+      ]);
+
+      const onLeave = new Set(
+        leaveSnapshot.docs
+          .map((doc) => doc.data())
+          .filter((leave) => leave.leaveType !== 'wfh')
+          .filter((leave) => {
+            const from = toDate(leave.startDate);
+            const to = toDate(leave.endDate);
+            return from && to && from < new Date(start.getTime() + DAY_MS) && to >= start;
+          })
+          .map((leave) => leave.employeeId as string)
+      );
+
+      return employeeIds
+        .map((employeeId): TeamMemberAttendanceStatus => {
+          const employeeName = names.get(employeeId) ?? employeeId;
+          const shift = resolveShift(employeeId, date);
+          const expectedClockIn = shift ? getShiftWindow(date, shift).start : undefined;
+          const record = records
+            .filter((r) => r.employeeId === employeeId)
+            .sort((a, b) => b.clockIn.getTime() - a.clockIn.getTime())[0];
+
+          if (!record) {
+            return {
+              employeeId,
+              employeeName,
+              status: onLeave.has(employeeId) ? 'on-leave' : 'absent',
+              expectedClockIn,
+              isLate: false,
+              isEarlyDeparture: false,
+              currentHours: 0,
+            };
+          }
+
+          const alerts = evaluateRecordAlerts(record, shift, resolvePolicy(employeeId, record.clockIn), now);
+          const onBreak = !record.clockOut && record.breaks.some((b) => !b.endTime);
+          const currentHours = record.clockOut
+            ? record.totalHours
+            : Math.max(0, (now.getTime() - record.clockIn.getTime()) / 3600000 -
+                record.breaks.reduce((sum, b) => sum + ((b.endTime ?? now).getTime() - b.startTime.getTime()), 0) / 3600000);
+
+          return {
+            employeeId,
+            employeeName: record.employeeName || employeeName,
+            status: record.clockOut ? 'clocked-out' : onBreak ? 'on-break' : 'clocked-in',
+            clockInTime: record.clockIn,
+            expectedClockIn,
+            isLate: alerts.some((a) => a.type === 'late'),
+            isEarlyDeparture: alerts.some((a) => a.type === 'early-departure'),
+            currentHours: Math.round(currentHours * 100) / 100,
+          };
+        })
+        .sort((a, b) => a.employeeName.localeCompare(b.employeeName));
+    } catch (error) {
+      console.error('[AttendanceAlertAdminService] Error getting team status:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * A month's punctuality (month 0-11) per employee, from their attendance
+   * records and the alerts raised on them
+   */
+  async getPunctualityReport(month: number, year: number, employeeIds: string[]): Promise<PunctualityReportRow[]> {
+    try {
+      const prefix = `${year}-${String(month + 1).padStart(2, '0')}`;
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      const first = `${prefix}-01`;
+      const last = `${prefix}-${String(daysInMonth).padStart(2, '0')}`;
+
+      const [names, records, alerts] = await Promise.all([
+        getUserNames(employeeIds),
+        getRecordsBetween(dayStart(first), new Date(dayStart(last).getTime() + DAY_MS)),
+        this.getAlerts(first, last, employeeIds),
+      ]);
+
+      return buildPunctualityReport(
+        employeeIds.map((id) => ({ id, name: names.get(id) ?? id })),
+        records,
+        alerts
+      );
+    } catch (error) {
+      console.error('[AttendanceAlertAdminService] Error getting punctuality report:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,63 @@
+/**
+ * Attendance Alert Service
+ * Client-side service using authenticatedFetch for attendance alerts, team
+ * attendance status and the monthly punctuality report
+ */
+
+import { authenticatedFetch } from '@/lib/api-client';
+import { AttendanceAlert, PunctualityReportRow, TeamMemberAttendanceStatus } from '@/types/attendance.types';
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  const error = await response.json().catch(() => null);
+  return error?.message || fallback;
+}
+
+export const attendanceAlertService = {
+  /**
+   * Alerts on attendance days from `from` to `to` (YYYY-MM-DD); the team's
+   * with scope 'team' (admins/managers), otherwise the user's own
+   */
+  async getAlerts(from: string, to: string, scope: 'mine' | 'team' = 'mine'): Promise<AttendanceAlert[] | null> {
+    const params = new URLSearchParams({ from, to, scope });
+    const response = await authenticatedFetch(`/api/attendance/alerts?${params}`);
+    if (!response.ok) return null;
+    const alerts = await response.json();
+    return alerts.map((alert: any) => ({ ...alert, timestamp: new Date(alert.timestamp) }));
+  },
+
+  /**
+   * Where each team member stands on an attendance day (admins/managers)
+   */
+  async getTeamStatus(date: string): Promise<TeamMemberAttendanceStatus[] | null> {
+    const response = await authenticatedFetch(`/api/attendance/team-status?date=${date}`);
+    if (!response.ok) return null;
+    const team = await response.json();
+    return team.map((member: any) => ({
+      ...member,
+      clockInTime: member.clockInTime ? new Date(member.clockInTime) : undefined,
+      expectedClockIn: member.expectedClockIn ? new Date(member.expectedClockIn) : undefined,
+    }));
+  },
+
+  /**
+   * The team's punctuality for a month (0-11) (admins/managers)
+   */
+  async getPunctualityReport(month: number, year: number): Promise<PunctualityReportRow[] | null> {
+    const response = await authenticatedFetch(`/api/attendance/alerts/punctuality?month=${month}&year=${year}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Run the alert check for yesterday and today now (admins). Returns how
+   * many new alerts were raised.
+   */
+  async evaluateAlerts(): Promise<number> {
+    const response = await authenticatedFetch('/api/attendance/alerts/evaluate');
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to check attendance'));
+    }
+    const result = await response.json();
+    return result.created;
+  },
+};
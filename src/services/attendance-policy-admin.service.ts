@@ -0,0 +1,223 @@
+/**
+ * Attendance Policy Admin Service
+ * Server-side service using Firebase Admin SDK for attendance policies, their
+ * assignment to the company, teams and employees, and the policy in force
+ * for an employee on a day
+ * This bypasses Firestore security rules and should only be used in API routes
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { ApiError } from '@/lib/api-error-handler';
+import { getTeamsByEmployee } from '@/lib/manager-access';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { resolveAttendancePolicy } from '@/lib/attendance-policy';
+import { PolicyAssignmentInput } from '@/lib/attendance-validation';
+import {
+  AttendancePolicy,
+  AttendancePolicyAssignment,
+  AttendancePolicyFormData,
+  ResolvedAttendancePolicy,
+} from '@/types/attendance.types';
+
+const COLLECTION = 'attendance-policies';
+const ASSIGNMENTS = 'attendance-policy-assignments';
+
+/** The policy in force for an employee at a moment */
+export type AttendancePolicyResolver = (employeeId: string, at: Date) => ResolvedAttendancePolicy;
+
+function toPolicy(data: FirebaseFirestore.DocumentData, id: string): AttendancePolicy {
+  return {
+    ...(data as AttendancePolicy),
+    id,
+    isActive: data.isActive ?? true,
+    createdAt: data.createdAt?.toDate?.() ?? new Date(0),
+    updatedAt: data.updatedAt?.toDate?.() ?? new Date(0),
+  };
+}
+
+export const attendancePolicyAdminService = {
+  // ============================================================================
+  // POLICIES
+  // ============================================================================
+
+  async getPolicies(): Promise<AttendancePolicy[]> {
+    try {
+      const snapshot = await adminDb.collection(COLLECTION).get();
+      return snapshot.docs
+        .map((doc) => toPolicy(doc.data(), doc.id))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('[AttendancePolicyAdminService] Error getting policies:', error);
+      throw error;
+    }
+  },
+
+  async createPolicy(data: AttendancePolicyFormData & { isActive: boolean }): Promise<AttendancePolicy> {
+    try {
+      const now = Timestamp.now();
+      const docRef = await adminDb.collection(COLLECTION).add({ ...data, createdAt: now, updatedAt: now });
+      const created = await docRef.get();
+      return toPolicy(created.data()!, docRef.id);
+    } catch (error) {
+      console.error('[AttendancePolicyAdminService] Error creating policy:', error);
+      throw error;
+    }
+  },
+
+  async updatePolicy(
+    policyId: string,
+    data: Partial<AttendancePolicyFormData & { isActive: boolean }>
+  ): Promise<AttendancePolicy> {
+    try {
+      const docRef = adminDb.collection(COLLECTION).doc(policyId);
+      const doc = await docRef.get();
+      if (!doc.exists) throw new Error('Policy not found');
+
+      const merged = { ...doc.data(), ...data };
+      if (merged.maxDailyHours && merged.maxDailyHours < (merged.minDailyHours ?? 0)) {
+        throw new ApiError(400, 'Max daily hours must be greater than or equal to min daily hours');
+      }
+
+      await docRef.update({ ...data, updatedAt: Timestamp.now() });
+      const updated = await docRef.get();
+      return toPolicy(updated.data()!, policyId);
+    } catch (error) {
+      console.error('[AttendancePolicyAdminService] Error updating policy:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a policy that is not assigned. Assigned policies are switched off
+   * instead, so past days keep resolving to the policy they were worked under.
+   */
+  async deletePolicy(policyId: string): Promise<void> {
+    try {
+      const docRef = adminDb.collection(COLLECTION).doc(policyId);
+      const doc = await docRef.get();
+      if (!doc.exists) throw new Error('Policy not found');
+
+      const assigned = await adminDb.collection(ASSIGNMENTS).where('policyId', '==', policyId).limit(1).get();
+      if (!assigned.empty) {
+        throw new ApiError(409, 'This policy is assigned. Remove its assignments or deactivate it instead.');
+      }
+      await docRef.delete();
+    } catch (error) {
+      console.error('[AttendancePolicyAdminService] Error deleting policy:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // ASSIGNMENTS
+  // ============================================================================
+
+  /**
+   * Assignments, latest effective first
+   */
+  async getAssignments(): Promise<AttendancePolicyAssignment[]> {
+    try {
+      const snapshot = await adminDb.collection(ASSIGNMENTS).get();
+      return snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as AttendancePolicyAssignment)
+        .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      console.error('[AttendancePolicyAdminService] Error getting assignments:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Assign a policy to the company, a manager's team or an employee
+   */
+  async createAssignment(input: PolicyAssignmentInput, createdBy: string): Promise<AttendancePolicyAssignment> {
+    try {
+      const policy = await adminDb.collection(COLLECTION).doc(input.policyId).get();
+      if (!policy.exists) throw new Error('Policy not found');
+      if (policy.data()!.isActive === false) {
+        throw new ApiError(400, 'Only active policies can be assigned');
+      }
+
+      let targetName: string | null = null;
+      if (input.scope === 'team') {
+        const team = await adminDb
+          .collection('manager-hierarchies')
+          .where('managerId', '==', input.targetId)
+          .limit(1)
+          .get();
+        if (team.empty) throw new ApiError(400, 'The selected manager has no team');
+        targetName = team.docs[0].data().managerName || null;
+      } else if (input.scope === 'employee') {
+        const user = await adminDb.collection('users').doc(input.targetId!).get();
+        if (!user.exists) throw new Error('Employee not found');
+        const data = user.data()!;
+        targetName = data.displayName || data.name || data.email || null;
+      }
+
+      const assignment: Omit<AttendancePolicyAssignment, 'id'> = {
+        policyId: input.policyId,
+        scope: input.scope,
+        targetId: input.scope === 'company' ? null : input.targetId,
+        targetName,
+        effectiveFrom: input.effectiveFrom,
+        effectiveTo: input.effectiveTo,
+        createdBy,
+        createdAt: new Date().toISOString(),
+      };
+      const docRef = await adminDb.collection(ASSIGNMENTS).add(assignment);
+      return { id: docRef.id, ...assignment };
+    } catch (error) {
+      console.error('[AttendancePolicyAdminService] Error creating assignment:', error);
+      throw error;
+    }
+  },
+
+  async deleteAssignment(assignmentId: string): Promise<void> {
+    try {
+      const docRef = adminDb.collection(ASSIGNMENTS).doc(assignmentId);
+      const doc = await docRef.get();
+      if (!doc.exists) throw new Error('Assignment not found');
+      await docRef.delete();
+    } catch (error) {
+      console.error('[AttendancePolicyAdminService] Error deleting assignment:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // RESOLUTION
+  // ============================================================================
+
+  /**
+   * Load policies, assignments and teams once, for resolving many employees
+   * or days (payroll, alerts, auto clock-out)
+   */
+  async getResolver(): Promise<AttendancePolicyResolver> {
+    try {
+      const [policies, assignments, teams] = await Promise.all([
+        this.getPolicies(),
+        this.getAssignments(),
+        getTeamsByEmployee(),
+      ]);
+      return (employeeId, at) =>
+        resolveAttendancePolicy(
+          policies,
+          assignments,
+          { employeeId, teamIds: teams.get(employeeId) ?? [] },
+          toAttendanceDate(at)
+        );
+    } catch (error) {
+      console.error('[AttendancePolicyAdminService] Error loading policy resolver:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * The policy in force for an employee on the attendance day of `at`
+   */
+  async resolveForEmployee(employeeId: string, at: Date = new Date()): Promise<ResolvedAttendancePolicy> {
+    const resolve = await this.getResolver();
+    return resolve(employeeId, at);
+  },
+};
@@ -0,0 +1,110 @@
+/**
+ * Attendance Policy Service
+ * Client-side service using authenticatedFetch for attendance policies and
+ * their assignment to the company, teams and employees
+ */
+
+import { authenticatedFetch } from '@/lib/api-client';
+import {
+  AttendancePolicy,
+  AttendancePolicyAssignment,
+  AttendancePolicyFormData,
+  PolicyAssignmentFormData,
+  ResolvedAttendancePolicy,
+} from '@/types/attendance.types';
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  const error = await response.json().catch(() => null);
+  return error?.message || fallback;
+}
+
+export const attendancePolicyService = {
+  /**
+   * All attendance policies (admins/managers)
+   */
+  async getPolicies(): Promise<AttendancePolicy[] | null> {
+    const response = await authenticatedFetch('/api/attendance/policies');
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Create a policy (admins). Throws with the server's message when rejected.
+   */
+  async createPolicy(data: AttendancePolicyFormData & { isActive: boolean }): Promise<AttendancePolicy> {
+    const response = await authenticatedFetch('/api/attendance/policies', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to create policy'));
+    }
+    return response.json();
+  },
+
+  async updatePolicy(
+    policyId: string,
+    data: Partial<AttendancePolicyFormData & { isActive: boolean }>
+  ): Promise<AttendancePolicy> {
+    const response = await authenticatedFetch(`/api/attendance/policies/${policyId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to update policy'));
+    }
+    return response.json();
+  },
+
+  async deletePolicy(policyId: string): Promise<void> {
+    const response = await authenticatedFetch(`/api/attendance/policies/${policyId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to delete policy'));
+    }
+  },
+
+  /**
+   * Policy assignments, latest effective first (admins/managers)
+   */
+  async getAssignments(): Promise<AttendancePolicyAssignment[] | null> {
+    const response = await authenticatedFetch('/api/attendance/policies/assignments');
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  async createAssignment(data: PolicyAssignmentFormData): Promise<AttendancePolicyAssignment> {
+    const response = await authenticatedFetch('/api/attendance/policies/assignments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to assign policy'));
+    }
+    return response.json();
+  },
+
+  async deleteAssignment(assignmentId: string): Promise<void> {
+    const response = await authenticatedFetch(`/api/attendance/policies/assignments/${assignmentId}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to remove assignment'));
+    }
+  },
+
+  /**
+   * The policy in force for an employee (default: the signed-in user) on a
+   * day (YYYY-MM-DD, default: today)
+   */
+  async resolvePolicy(employeeId?: string, date?: string): Promise<ResolvedAttendancePolicy | null> {
+    const params = new URLSearchParams();
+    if (employeeId) params.set('employeeId', employeeId);
+    if (date) params.set('date', date);
+    const response = await authenticatedFetch(`/api/attendance/policies/resolve?${params.toString()}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+};
@@ -0,0 +1,135 @@
+/**
+ * Attendance Register Admin Service
+ * Server-side service using Firebase Admin SDK for the monthly muster roll /
+ * attendance register, with paid days taken from payroll
+ * This bypasses Firestore security rules and should only be used in API routes
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  classifyAttendanceMonth,
+  getAttendanceMonthWindow,
+  getMonthRecords,
+  hasPayrollMismatch,
+  RegisterLeave,
+  RegisterRecord,
+  sortRegisterRows,
+} from '@/lib/attendance-register';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+import { payrollAdminService } from '@/services/payroll-admin.service';
+import { AttendanceRegister, AttendanceRegisterRow } from '@/types/attendance.types';
+
+function groupByEmployee<T extends { employeeId?: string }>(items: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    if (!item.employeeId) continue;
+    groups.set(item.employeeId, [...(groups.get(item.employeeId) ?? []), item]);
+  }
+  return groups;
+}
+
+export const attendanceRegisterAdminService = {
+  // ============================================================================
+  // MUSTER ROLL
+  // ============================================================================
+
+  /**
+   * The month's (0-11) register for the given employees: a P/A/L/H/WFH/HD
+   * code per day, the day counts and hours worked, and the paid days payroll
+   * computed. Paid days come from the month's salary slip when one was
+   * generated, otherwise from a payroll calculation that is not saved.
+   */
+  async getRegister(month: number, year: number, employeeIds: string[]): Promise<AttendanceRegister> {
+    try {
+      // Same month window as payroll
+      const daysInMonth = new Date(year, month + 1, 0).getDate();
+      const monthWindow = getAttendanceMonthWindow(month, year);
+
+      const [userDocs, attendanceSnapshot, leaveSnapshot, resolveHolidays, slips, resolvePolicy] = await Promise.all([
+        employeeIds.length > 0
+          ? adminDb.getAll(...employeeIds.map((id) => adminDb.collection('users').doc(id)))
+          : Promise.resolve([]),
+        adminDb
+          .collection('attendance-records')
+          .where('clockIn', '>=', Timestamp.fromDate(monthWindow.start))
+          .where('clockIn', '<=', Timestamp.fromDate(monthWindow.end))
+          .get(),
+        adminDb.collection('leave-requests').where('status', '==', 'approved').get(),
+        holidayCalendarAdminService.getResolver(),
+        payrollAdminService.getSlips({ month, year }),
+        attendancePolicyAdminService.getResolver(),
+      ]);
+
+      const recordsByEmployee = groupByEmployee(
+        getMonthRecords(
+          attendanceSnapshot.docs.map((doc) => doc.data() as RegisterRecord & { employeeId?: string }),
+          month,
+          year
+        )
+      );
+      const leavesByEmployee = groupByEmployee(
+        leaveSnapshot.docs
+          .map((doc) => doc.data() as RegisterLeave & { employeeId?: string })
+          .filter((leave) => leave.startDate && leave.endDate)
+      );
+      const slipsByEmployee = new Map(slips.map((slip) => [slip.employeeId, slip]));
+
+      const rows: AttendanceRegisterRow[] = [];
+      for (const userDoc of userDocs) {
+        if (!userDoc.exists) continue;
+        const employee = userDoc.data()!;
+        const records = recordsByEmployee.get(userDoc.id) ?? [];
+
+        const { days, counts } = classifyAttendanceMonth(
+          {
+            records,
+            leaves: leavesByEmployee.get(userDoc.id) ?? [],
+            holidays: resolveHolidays(userDoc.id).holidays.map((holiday) => holiday.date),
+          },
+          month,
+          year,
+          { policyFor: (date) => resolvePolicy(userDoc.id, date) }
+        );
+
+        let paidDays: number | null = null;
+        let paidDaysSource: AttendanceRegisterRow['paidDaysSource'] = null;
+        let payrollMismatch = false;
+        const slip = slipsByEmployee.get(userDoc.id);
+        if (slip) {
+          paidDays = slip.attendanceBreakdown.paidDays;
+          paidDaysSource = 'slip';
+          payrollMismatch = hasPayrollMismatch(counts, slip.attendanceBreakdown);
+        } else {
+          try {
+            const calculation = await payrollAdminService.calculateSalary(userDoc.id, month, year);
+            paidDays = calculation.attendanceBreakdown.paidDays;
+            paidDaysSource = 'calculated';
+          } catch (error) {
+            // Payroll not configured, or the employee has no salary set up
+            console.warn(`[AttendanceRegisterAdminService] No paid days for ${userDoc.id}:`, error);
+          }
+        }
+
+        rows.push({
+          employeeId: userDoc.id,
+          employeeCode: employee.employeeId || userDoc.id,
+          employeeName: employee.displayName || employee.name || employee.email || userDoc.id,
+          designation: employee.designation || '',
+          days,
+          ...counts,
+          totalHours: Math.round(records.reduce((sum, record) => sum + (record.totalHours || 0), 0) * 100) / 100,
+          paidDays,
+          paidDaysSource,
+          payrollMismatch,
+        });
+      }
+
+      return { month, year, daysInMonth, rows: sortRegisterRows(rows), generatedAt: new Date() };
+    } catch (error) {
+      console.error('[AttendanceRegisterAdminService] Error building attendance register:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,20 @@
+/**
+ * Attendance Register Service
+ * Client-side service using authenticatedFetch for the monthly muster roll /
+ * attendance register
+ */
+
+import { authenticatedFetch } from '@/lib/api-client';
+import { AttendanceRegister } from '@/types/attendance.types';
+
+export const attendanceRegisterService = {
+  /**
+   * The team's register for a month (0-11) (admins/managers)
+   */
+  async getRegister(month: number, year: number): Promise<AttendanceRegister | null> {
+    const response = await authenticatedFetch(`/api/attendance/register?month=${month}&year=${year}`);
+    if (!response.ok) return null;
+    const register = await response.json();
+    return { ...register, generatedAt: new Date(register.generatedAt) };
+  },
+};
@@ -0,0 +1,207 @@
+/**
+ * Attendance Site Admin Service
+ * Server-side service using Firebase Admin SDK for geofenced clock-in/out sites
+ * This bypasses Firestore security rules and should only be used in API routes
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { ApiError } from '@/lib/api-error-handler';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { GeofencePolicy, evaluatePunch } from '@/lib/geofence';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+import { rosterAdminService } from '@/services/roster-admin.service';
+import {
+  AttendanceSite,
+  AttendanceSiteFormData,
+  GeofenceMatch,
+  GeolocationCoordinates,
+} from '@/types/attendance.types';
+
+const COLLECTION = 'attendance-sites';
+
+function toOfficeSite(data: FirebaseFirestore.DocumentData, id: string): AttendanceSite {
+  return {
+    id,
+    name: data.name,
+    type: 'office',
+    latitude: data.latitude,
+    longitude: data.longitude,
+    radius: data.radius ?? undefined,
+    address: data.address ?? undefined,
+    isActive: data.isActive ?? true,
+    createdAt: data.createdAt?.toDate?.() ?? undefined,
+    updatedAt: data.updatedAt?.toDate?.() ?? undefined,
+  };
+}
+
+/** A client's premises, once its address has a pinned latitude/longitude */
+function toClientSite(data: FirebaseFirestore.DocumentData, id: string): AttendanceSite | null {
+  const { latitude, longitude } = data.address ?? {};
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') return null;
+  return {
+    id: `client_${id}`,
+    name: data.clientName,
+    type: 'client',
+    latitude,
+    longitude,
+    address: [data.address.line1, data.address.city, data.address.state].filter(Boolean).join(', ') || undefined,
+    clientId: id,
+    isActive: data.status !== 'inactive',
+  };
+}
+
+export const attendanceSiteAdminService = {
+  // ============================================================================
+  // SITES
+  // ============================================================================
+
+  /**
+   * Offices, then clients with a pinned location, each sorted by name
+   */
+  async getSites(): Promise<AttendanceSite[]> {
+    try {
+      const [offices, clients] = await Promise.all([
+        adminDb.collection(COLLECTION).get(),
+        adminDb.collection('clients').get(),
+      ]);
+      const byName = (a: AttendanceSite, b: AttendanceSite) => a.name.localeCompare(b.name);
+      return [
+        ...offices.docs.map((doc) => toOfficeSite(doc.data(), doc.id)).sort(byName),
+        ...clients.docs
+          .map((doc) => toClientSite(doc.data(), doc.id))
+          .filter((site): site is AttendanceSite => site !== null)
+          .sort(byName),
+      ];
+    } catch (error) {
+      console.error('[AttendanceSiteAdminService] Error getting sites:', error);
+      throw error;
+    }
+  },
+
+  async createOfficeSite(data: AttendanceSiteFormData): Promise<AttendanceSite> {
+    try {
+      const now = Timestamp.now();
+      const docRef = await adminDb.collection(COLLECTION).add({
+        ...data,
+        radius: data.radius ?? null,
+        address: data.address ?? null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      const created = await docRef.get();
+      return toOfficeSite(created.data()!, docRef.id);
+    } catch (error) {
+      console.error('[AttendanceSiteAdminService] Error creating site:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update an office; a null radius falls back to the policy's radius
+   */
+  async updateOfficeSite(
+    siteId: string,
+    data: Partial<Omit<AttendanceSiteFormData, 'radius'>> & { radius?: number | null }
+  ): Promise<AttendanceSite> {
+    try {
+      const docRef = adminDb.collection(COLLECTION).doc(siteId);
+      const doc = await docRef.get();
+      if (!doc.exists) throw new Error('Site not found');
+
+      await docRef.update({ ...data, updatedAt: Timestamp.now() });
+      const updated = await docRef.get();
+      return toOfficeSite(updated.data()!, siteId);
+    } catch (error) {
+      console.error('[AttendanceSiteAdminService] Error updating site:', error);
+      throw error;
+    }
+  },
+
+  async deleteOfficeSite(siteId: string): Promise<void> {
+    try {
+      const docRef = adminDb.collection(COLLECTION).doc(siteId);
+      const doc = await docRef.get();
+      if (!doc.exists) throw new Error('Site not found');
+      await docRef.delete();
+    } catch (error) {
+      console.error('[AttendanceSiteAdminService] Error deleting site:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // GEOFENCE CHECKS
+  // ============================================================================
+
+  /**
+   * Sites the employee may punch at on the day of `at`: every active office,
+   * plus the clients they are rostered to visit that day (IST)
+   */
+  async getAllowedSites(employeeId: string, at: Date): Promise<AttendanceSite[]> {
+    try {
+      const day = toAttendanceDate(at);
+      const [offices, rosterEntries] = await Promise.all([
+        adminDb.collection(COLLECTION).where('isActive', '==', true).get(),
+        rosterAdminService.getRosterEntries({ userId: employeeId }),
+      ]);
+
+      const clientIds = new Set(
+        rosterEntries
+          .filter((entry: any) => entry.taskType === 'single' && entry.clientId && entry.timeStart)
+          .filter((entry: any) => toAttendanceDate(new Date(entry.timeStart)) === day)
+          .map((entry: any) => entry.clientId as string)
+      );
+      const clients = await Promise.all(
+        [...clientIds].map((id) => adminDb.collection('clients').doc(id).get())
+      );
+
+      return [
+        ...offices.docs.map((doc) => toOfficeSite(doc.data(), doc.id)),
+        ...clients
+          .filter((doc) => doc.exists)
+          .map((doc) => toClientSite(doc.data()!, doc.id))
+          .filter((site): site is AttendanceSite => site !== null && site.isActive),
+      ];
+    } catch (error) {
+      console.error('[AttendanceSiteAdminService] Error getting allowed sites:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Geolocation settings of the employee's attendance policy on the day of `at`
+   */
+  async getGeofencePolicy(employeeId: string, at: Date): Promise<GeofencePolicy> {
+    try {
+      const policy = await attendancePolicyAdminService.resolveForEmployee(employeeId, at);
+      return {
+        geolocationRequired: policy.geolocationRequired,
+        geolocationRadius: policy.geolocationRadius,
+      };
+    } catch (error) {
+      console.error('[AttendanceSiteAdminService] Error getting geofence policy:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Match a clock-in/out to the employee's sites for the day. Throws a 403
+   * when the policy requires geolocation and the punch is outside every fence.
+   */
+  async checkPunch(
+    employeeId: string,
+    punch: 'clock in' | 'clock out',
+    location: GeolocationCoordinates | undefined,
+    at: Date
+  ): Promise<GeofenceMatch | null> {
+    const [sites, policy] = await Promise.all([
+      this.getAllowedSites(employeeId, at),
+      this.getGeofencePolicy(employeeId, at),
+    ]);
+
+    const { match, error } = evaluatePunch(punch, location, sites, policy);
+    if (error) throw new ApiError(403, error);
+    return match;
+  },
+};
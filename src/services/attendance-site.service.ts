@@ -0,0 +1,63 @@
+/**
+ * Attendance Site Service
+ * Client-side service using authenticatedFetch for geofenced clock-in/out sites
+ */
+
+import { authenticatedFetch } from '@/lib/api-client';
+import { AttendanceSite, AttendanceSiteFormData } from '@/types/attendance.types';
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  const error = await response.json().catch(() => null);
+  return error?.message || fallback;
+}
+
+export const attendanceSiteService = {
+  /**
+   * Offices and client premises with a pinned location (admins/managers)
+   */
+  async getSites(): Promise<AttendanceSite[] | null> {
+    const response = await authenticatedFetch('/api/attendance/sites');
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Add an office (admins). Throws with the server's message when rejected.
+   */
+  async createSite(data: AttendanceSiteFormData): Promise<AttendanceSite> {
+    const response = await authenticatedFetch('/api/attendance/sites', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to add site'));
+    }
+    return response.json();
+  },
+
+  /**
+   * Update an office (admins); a null radius uses the policy's radius
+   */
+  async updateSite(
+    siteId: string,
+    data: Partial<Omit<AttendanceSiteFormData, 'radius'>> & { radius?: number | null }
+  ): Promise<AttendanceSite> {
+    const response = await authenticatedFetch(`/api/attendance/sites/${siteId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to update site'));
+    }
+    return response.json();
+  },
+
+  async deleteSite(siteId: string): Promise<void> {
+    const response = await authenticatedFetch(`/api/attendance/sites/${siteId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to delete site'));
+    }
+  },
+};
@@ -26,6 +26,8 @@ export interface Client {
     state?: string;
     country?: string;
     zipCode?: string;
+    latitude?: number; // pinned for geofenced attendance at the client's premises
+    longitude?: number;
   };
   compliance?: {
     roc: boolean;
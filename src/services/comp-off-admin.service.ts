@@ -0,0 +1,302 @@
+/**
+ * Comp-Off Admin Service
+ * Server-side service using Firebase Admin SDK for compensatory off credits
+ * earned by working on holidays and weekly offs, and the comp-off balance
+ * This bypasses Firestore security rules and should only be used in API routes
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { ApiError } from '@/lib/api-error-handler';
+import { hasAccessToEmployee } from '@/lib/manager-access';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import {
+  addDays,
+  calculateCompOffBalance,
+  COMP_OFF_LEAVE_TYPE,
+  CompOffLeave,
+  getCompOffDays,
+  getCompOffReason,
+} from '@/lib/comp-off';
+import { getScheduledShiftId } from '@/lib/shift-rotation';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+import { shiftAdminService } from '@/services/shift-admin.service';
+import { CompOffBalance, CompOffCredit, CompOffCreditStatus, CompOffDecision } from '@/types/attendance.types';
+
+const COLLECTION = 'comp-off-credits';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function getUserName(uid: string): Promise<string> {
+  const user = (await adminDb.collection('users').doc(uid).get()).data();
+  return user?.displayName || user?.name || user?.email || uid;
+}
+
+function toDate(value: any): Date {
+  return value?.toDate ? value.toDate() : new Date(value);
+}
+
+export const compOffAdminService = {
+  // ============================================================================
+  // CREDIT QUERIES
+  // ============================================================================
+
+  /**
+   * Get credits, latest day worked first. employeeIds limits the result to
+   * those employees (used for a manager's team).
+   */
+  async getCredits(
+    filters: { employeeIds?: string[]; status?: CompOffCreditStatus } = {}
+  ): Promise<CompOffCredit[]> {
+    try {
+      if (filters.employeeIds && filters.employeeIds.length === 0) return [];
+
+      const credits: CompOffCredit[] = [];
+      // Firestore 'in' queries take at most 30 values
+      const groups = filters.employeeIds
+        ? Array.from({ length: Math.ceil(filters.employeeIds.length / 30) }, (_, i) =>
+            filters.employeeIds!.slice(i * 30, i * 30 + 30)
+          )
+        : [null];
+
+      for (const group of groups) {
+        let query: FirebaseFirestore.Query = adminDb.collection(COLLECTION);
+        if (group) query = query.where('employeeId', 'in', group);
+        if (filters.status) query = query.where('status', '==', filters.status);
+        const snapshot = await query.get();
+        credits.push(...snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as CompOffCredit));
+      }
+
+      return credits.sort(
+        (a, b) => b.workDate.localeCompare(a.workDate) || a.employeeName.localeCompare(b.employeeName)
+      );
+    } catch (error) {
+      console.error('[CompOffAdminService] Error getting credits:', error);
+      throw error;
+    }
+  },
+
+  async getCreditById(creditId: string): Promise<CompOffCredit | null> {
+    try {
+      const doc = await adminDb.collection(COLLECTION).doc(creditId).get();
+      if (!doc.exists) return null;
+      return { id: doc.id, ...doc.data() } as CompOffCredit;
+    } catch (error) {
+      console.error('[CompOffAdminService] Error getting credit:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // CREDITING & APPROVAL
+  // ============================================================================
+
+  /**
+   * Raise (or update) the pending credit for the attendance day of `at` (or
+   * `date`, a record's attendance day) when the employee worked a holiday on
+   * their calendar or a weekly off. Hours are the day's completed records.
+   * Decided credits are left as they are.
+   */
+  async creditWorkedDay(employeeId: string, at: Date, date?: string): Promise<CompOffCredit | null> {
+    try {
+      const workDate = date ?? toAttendanceDate(at);
+      const creditId = `${employeeId}_${workDate}`;
+      const existing = await this.getCreditById(creditId);
+      if (existing && existing.status !== 'pending') return existing;
+
+      const dayStart = new Date(`${workDate}T00:00:00+05:30`);
+      const [employeeHolidays, schedule, policy, recordsSnapshot] = await Promise.all([
+        holidayCalendarAdminService.getEmployeeHolidays(employeeId),
+        shiftAdminService.getSchedule(workDate, workDate),
+        attendancePolicyAdminService.resolveForEmployee(employeeId, at),
+        adminDb
+          .collection('attendance-records')
+          .where('employeeId', '==', employeeId)
+          // A night shift's record can be clocked into either side of the day
+          .where('clockIn', '>=', Timestamp.fromDate(new Date(dayStart.getTime() - DAY_MS)))
+          .where('clockIn', '<', Timestamp.fromDate(new Date(dayStart.getTime() + 2 * DAY_MS)))
+          .get(),
+      ]);
+
+      // A rotation or assignment decides the day directly; a day off there is the weekly off
+      const scheduled = getScheduledShiftId(schedule, employeeId, workDate);
+      const employeeShifts = schedule.shifts.filter((shift) => shift.assignedEmployees?.includes(employeeId));
+      const shiftDays =
+        scheduled !== undefined
+          ? scheduled
+            ? [new Date(`${workDate}T12:00:00Z`).getUTCDay()]
+            : []
+          : employeeShifts.length > 0
+            ? employeeShifts.flatMap((shift) => shift.daysOfWeek ?? [])
+            : null;
+
+      const earned = getCompOffReason(workDate, employeeHolidays.holidays, shiftDays, policy.weeklyOffDays);
+      if (!earned) return null;
+
+      const hoursWorked =
+        Math.round(
+          recordsSnapshot.docs
+            .map((doc) => doc.data())
+            .filter((record) => (record.date ?? toAttendanceDate(record.clockIn.toDate())) === workDate)
+            .filter((record) => record.clockOut)
+            .reduce((sum, record) => sum + (record.totalHours || 0), 0) * 100
+        ) / 100;
+      const days = getCompOffDays(hoursWorked, policy.minDailyHours);
+      if (days === 0) return null;
+
+      const now = new Date().toISOString();
+      const credit: Omit<CompOffCredit, 'id'> = {
+        employeeId,
+        employeeName: existing?.employeeName ?? (await getUserName(employeeId)),
+        workDate,
+        reason: earned.reason,
+        holidayName: earned.holidayName,
+        hoursWorked,
+        days,
+        status: 'pending',
+        expiresOn: null,
+        decidedBy: null,
+        decidedByName: null,
+        decidedAt: null,
+        rejectionReason: null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+
+      await adminDb.collection(COLLECTION).doc(creditId).set(credit);
+      return { id: creditId, ...credit };
+    } catch (error) {
+      console.error('[CompOffAdminService] Error crediting worked day:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Approve or reject a pending credit. Managers decide credits from their
+   * assigned employees only, and nobody decides their own. An approved
+   * credit expires the policy's compOffExpiryDays after the day worked.
+   */
+  async decideCredit(
+    creditId: string,
+    decision: CompOffDecision,
+    approver: { uid: string; role: string }
+  ): Promise<CompOffCredit> {
+    try {
+      const credit = await this.getCreditById(creditId);
+      if (!credit) {
+        throw new Error('Comp-off credit not found');
+      }
+      if (credit.employeeId === approver.uid) {
+        throw new ApiError(403, 'You cannot approve or reject your own comp-off');
+      }
+      if (!(await hasAccessToEmployee(approver.uid, approver.role, credit.employeeId))) {
+        throw new ApiError(403, 'You can only decide comp-off for your assigned employees');
+      }
+      if (credit.status !== 'pending') {
+        throw new ApiError(409, `This credit has already been ${credit.status}`);
+      }
+
+      let expiresOn: string | null = null;
+      if (decision.action === 'approve') {
+        const policy = await attendancePolicyAdminService.resolveForEmployee(
+          credit.employeeId,
+          new Date(`${credit.workDate}T12:00:00+05:30`)
+        );
+        expiresOn = addDays(credit.workDate, policy.compOffExpiryDays);
+        if (expiresOn < toAttendanceDate(new Date())) {
+          throw new ApiError(409, `This credit expired on ${expiresOn} and can no longer be approved`);
+        }
+      }
+
+      const now = new Date().toISOString();
+      const update: Partial<CompOffCredit> = {
+        status: decision.action === 'approve' ? 'approved' : 'rejected',
+        expiresOn,
+        decidedBy: approver.uid,
+        decidedByName: await getUserName(approver.uid),
+        decidedAt: now,
+        rejectionReason: decision.action === 'reject' ? decision.reason : null,
+        updatedAt: now,
+      };
+      await adminDb.collection(COLLECTION).doc(creditId).update(update);
+
+      await adminDb.collection('audit_logs').add({
+        action: decision.action === 'approve' ? 'comp_off_credit_approved' : 'comp_off_credit_rejected',
+        performedBy: approver.uid,
+        details: {
+          creditId,
+          employeeId: credit.employeeId,
+          workDate: credit.workDate,
+          days: credit.days,
+          ...(decision.action === 'approve' ? { expiresOn } : { reason: decision.reason }),
+        },
+        timestamp: Timestamp.now(),
+      });
+
+      return { ...credit, ...update };
+    } catch (error) {
+      console.error('[CompOffAdminService] Error deciding credit:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // BALANCE
+  // ============================================================================
+
+  /**
+   * Approved credits and comp-off leave (approved or pending) set against them
+   */
+  async getBalanceInputs(employeeId: string): Promise<{ credits: CompOffCredit[]; leaves: CompOffLeave[] }> {
+    try {
+      const [credits, leaveSnapshot] = await Promise.all([
+        this.getCredits({ employeeIds: [employeeId] }),
+        adminDb
+          .collection('leave-requests')
+          .where('employeeId', '==', employeeId)
+          .where('leaveType', '==', COMP_OFF_LEAVE_TYPE)
+          .get(),
+      ]);
+      const leaves = leaveSnapshot.docs.map((doc) => {
+        const data = doc.data();
+        return { startDate: toAttendanceDate(toDate(data.startDate)), totalDays: data.totalDays || 0, status: data.status };
+      });
+      return { credits, leaves };
+    } catch (error) {
+      console.error('[CompOffAdminService] Error getting balance:', error);
+      throw error;
+    }
+  },
+
+  async getBalance(employeeId: string): Promise<CompOffBalance> {
+    const { credits, leaves } = await this.getBalanceInputs(employeeId);
+    const { available, pendingCredit, credits: open, nextExpiry } = calculateCompOffBalance(
+      credits,
+      leaves,
+      toAttendanceDate(new Date())
+    );
+    return { available, pendingCredit, credits: open, nextExpiry };
+  },
+
+  /**
+   * Reject comp-off leave from `startDate` that the employee's credits cannot
+   * cover alongside the comp-off they have already taken or applied for
+   */
+  async checkLeave(employeeId: string, startDate: Date, totalDays: number): Promise<void> {
+    const { credits, leaves } = await this.getBalanceInputs(employeeId);
+    const today = toAttendanceDate(new Date());
+    const before = calculateCompOffBalance(credits, leaves, today);
+    const after = calculateCompOffBalance(
+      credits,
+      [...leaves, { startDate: toAttendanceDate(startDate), totalDays, status: 'pending' }],
+      today
+    );
+    if (after.uncovered > before.uncovered) {
+      throw new ApiError(
+        400,
+        `Not enough comp-off to cover these dates: you have ${before.available} day${before.available === 1 ? '' : 's'} available`
+      );
+    }
+  },
+};
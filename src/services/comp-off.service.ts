@@ -0,0 +1,52 @@
+/**
+ * Comp-Off Service
+ * Client-side service using authenticatedFetch for comp-off credits and balance
+ */
+
+import { authenticatedFetch } from '@/lib/api-client';
+import { CompOffBalance, CompOffCredit, CompOffCreditStatus, CompOffDecision } from '@/types/attendance.types';
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  const error = await response.json().catch(() => null);
+  return error?.message || fallback;
+}
+
+export const compOffService = {
+  /**
+   * Get the current user's own credits, or the team's credits (managers/admins)
+   */
+  async getCredits(
+    options: { scope?: 'mine' | 'team'; status?: CompOffCreditStatus } = {}
+  ): Promise<CompOffCredit[] | null> {
+    const params = new URLSearchParams();
+    if (options.scope) params.set('scope', options.scope);
+    if (options.status) params.set('status', options.status);
+    const response = await authenticatedFetch(`/api/attendance/comp-off?${params.toString()}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * The current user's comp-off available to apply for
+   */
+  async getBalance(): Promise<CompOffBalance | null> {
+    const response = await authenticatedFetch('/api/attendance/comp-off/balance');
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Approve or reject a pending credit (managers/admins)
+   */
+  async decideCredit(creditId: string, decision: CompOffDecision): Promise<CompOffCredit> {
+    const response = await authenticatedFetch(`/api/attendance/comp-off/${creditId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(decision),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to update comp-off'));
+    }
+    return response.json();
+  },
+};
@@ -6,6 +6,9 @@
 
 import { adminDb } from '@/lib/firebase-admin';
 import { UserRole } from '@/types/auth.types';
+import { EmployeeBankAccount, EmployeeSalaryComponent } from '@/types/payroll.types';
+import { encrypt } from '@/lib/encryption';
+import { maskAccountNumber, normalizeIfsc } from '@/lib/bank-export';
 
 export interface Employee {
   id?: string; // Firebase Auth UID
@@ -21,10 +24,36 @@ export interface Employee {
   pan?: string | null; // PAN number
   designation?: string; // Job title/position
   grossSalary?: number; // Monthly gross salary in INR
+  statutoryDeductions?: boolean; // EPF/ESI/PT applied during payroll; false opts the employee out
+  ptState?: string | null; // Professional Tax state code (falls back to payroll settings)
+  uan?: string | null; // EPFO Universal Account Number (12 digits)
+  esiIpNumber?: string | null; // ESIC Insurance Person number (10 digits)
+  bankAccount?: EmployeeBankAccount | null; // Salary account; the number is stored encrypted and only returned masked
+  salaryComponents?: EmployeeSalaryComponent[]; // Catalogue components in the salary structure, with optional overrides
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export interface BankAccountInput {
+  accountNumber?: string; // omitted to keep the account number already on file
+  ifsc: string;
+  beneficiaryName: string;
+  bankName?: string;
+}
+
+/**
+ * Masked view of the bankAccount stored on a user document
+ */
+function toBankAccount(stored: any): EmployeeBankAccount | null {
+  if (!stored?.accountNumber) return null;
+  return {
+    accountNumberMasked: stored.accountNumberMasked || '',
+    ifsc: stored.ifsc || '',
+    beneficiaryName: stored.beneficiaryName || '',
+    ...(stored.bankName ? { bankName: stored.bankName } : {}),
+  };
+}
+
 /**
  * Employee Admin Service - Server-side only
  * Uses Firebase Admin SDK to bypass security rules
@@ -69,6 +98,12 @@ export const employeeAdminService = {
           pan: data.pan || null,
           designation: data.designation || '',
           grossSalary: data.grossSalary || 0,
+          statutoryDeductions: data.statutoryDeductions !== false,
+          ptState: data.ptState || null,
+          uan: data.uan || null,
+          esiIpNumber: data.esiIpNumber || null,
+          salaryComponents: data.salaryComponents || [],
+          bankAccount: toBankAccount(data.bankAccount),
           createdAt: data.createdAt?.toDate?.() || new Date(),
           updatedAt: data.updatedAt?.toDate?.() || new Date(),
         });
@@ -142,6 +177,12 @@ export const employeeAdminService = {
         pan: data.pan || null,
         designation: data.designation || '',
         grossSalary: data.grossSalary || 0,
+        statutoryDeductions: data.statutoryDeductions !== false,
+        ptState: data.ptState || null,
+        uan: data.uan || null,
+        esiIpNumber: data.esiIpNumber || null,
+        salaryComponents: data.salaryComponents || [],
+        bankAccount: toBankAccount(data.bankAccount),
         createdAt: data.createdAt?.toDate?.() || new Date(),
         updatedAt: data.updatedAt?.toDate?.() || new Date(),
       };
@@ -182,6 +223,12 @@ export const employeeAdminService = {
         pan: data.pan || null,
         designation: data.designation || '',
         grossSalary: data.grossSalary || 0,
+        statutoryDeductions: data.statutoryDeductions !== false,
+        ptState: data.ptState || null,
+        uan: data.uan || null,
+        esiIpNumber: data.esiIpNumber || null,
+        salaryComponents: data.salaryComponents || [],
+        bankAccount: toBankAccount(data.bankAccount),
         createdAt: data.createdAt?.toDate?.() || new Date(),
         updatedAt: data.updatedAt?.toDate?.() || new Date(),
       };
@@ -263,6 +310,21 @@ export const employeeAdminService = {
       if (data.grossSalary !== undefined) {
         updatePayload.grossSalary = data.grossSalary;
       }
+      if (data.statutoryDeductions !== undefined) {
+        updatePayload.statutoryDeductions = data.statutoryDeductions;
+      }
+      if (data.ptState !== undefined) {
+        updatePayload.ptState = data.ptState;
+      }
+      if (data.uan !== undefined) {
+        updatePayload.uan = data.uan;
+      }
+      if (data.esiIpNumber !== undefined) {
+        updatePayload.esiIpNumber = data.esiIpNumber;
+      }
+      if (data.salaryComponents !== undefined) {
+        updatePayload.salaryComponents = data.salaryComponents;
+      }
 
       // Update user document
       await userRef.update(updatePayload);
@@ -277,6 +339,44 @@ export const employeeAdminService = {
     }
   },
 
+  /**
+   * Save or clear an employee's salary bank account. The account number is
+   * encrypted at rest; when it is omitted the number already on file is kept.
+   */
+  async updateBankAccount(id: string, input: BankAccountInput | null): Promise<void> {
+    try {
+      const userRef = adminDb.collection('users').doc(id);
+
+      if (!input) {
+        await userRef.update({ bankAccount: null, updatedAt: new Date() });
+        return;
+      }
+
+      const userDoc = await userRef.get();
+      const existing = userDoc.data()?.bankAccount;
+      if (!input.accountNumber && !existing?.accountNumber) {
+        throw new Error('Account number is required');
+      }
+
+      await userRef.update({
+        bankAccount: {
+          accountNumber: input.accountNumber ? encrypt(input.accountNumber) : existing.accountNumber,
+          accountNumberMasked: input.accountNumber
+            ? maskAccountNumber(input.accountNumber)
+            : existing.accountNumberMasked,
+          ifsc: normalizeIfsc(input.ifsc),
+          beneficiaryName: input.beneficiaryName.trim(),
+          ...(input.bankName ? { bankName: input.bankName.trim() } : {}),
+        },
+        updatedAt: new Date(),
+      });
+      console.log('[EmployeeAdminService] Bank account updated:', id);
+    } catch (error) {
+      console.error('[EmployeeAdminService] Error updating bank account:', error);
+      throw error;
+    }
+  },
+
   /**
    * Create a new employee using Firebase Admin Auth + Firestore
    */
@@ -0,0 +1,220 @@
+/**
+ * Expense Admin Service
+ * Server-side service using Firebase Admin SDK for expense claims
+ * This bypasses Firestore security rules and should only be used in API routes
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { ApiError } from '@/lib/api-error-handler';
+import { hasAccessToEmployee } from '@/lib/manager-access';
+import { buildClientExpenseReport, getClaimTotal } from '@/lib/expenses';
+import {
+  ClientExpenseReportRow,
+  CreateExpenseClaimInput,
+  ExpenseClaim,
+  ExpenseClaimDecision,
+  ExpenseClaimStatus,
+} from '@/types/expense.types';
+
+const COLLECTION = 'expense-claims';
+
+async function getUserName(uid: string): Promise<string> {
+  const user = (await adminDb.collection('users').doc(uid).get()).data();
+  return user?.displayName || user?.name || user?.email || uid;
+}
+
+export const expenseAdminService = {
+  // ============================================================================
+  // CLAIM QUERIES
+  // ============================================================================
+
+  /**
+   * Get claims, newest first. employeeIds limits the result to those
+   * claimants (used for a manager's team).
+   */
+  async getClaims(filters: { employeeIds?: string[]; status?: ExpenseClaimStatus } = {}): Promise<ExpenseClaim[]> {
+    try {
+      if (filters.employeeIds && filters.employeeIds.length === 0) return [];
+
+      const claims: ExpenseClaim[] = [];
+      // Firestore 'in' queries take at most 30 values
+      const groups = filters.employeeIds
+        ? Array.from({ length: Math.ceil(filters.employeeIds.length / 30) }, (_, i) =>
+            filters.employeeIds!.slice(i * 30, i * 30 + 30)
+          )
+        : [null];
+
+      for (const group of groups) {
+        let query: FirebaseFirestore.Query = adminDb.collection(COLLECTION);
+        if (group) query = query.where('employeeId', 'in', group);
+        if (filters.status) query = query.where('status', '==', filters.status);
+        const snapshot = await query.get();
+        claims.push(...snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as ExpenseClaim));
+      }
+
+      return claims.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      console.error('[ExpenseAdminService] Error getting claims:', error);
+      throw error;
+    }
+  },
+
+  async getClaimById(claimId: string): Promise<ExpenseClaim | null> {
+    try {
+      const doc = await adminDb.collection(COLLECTION).doc(claimId).get();
+      if (!doc.exists) return null;
+      return { id: doc.id, ...doc.data() } as ExpenseClaim;
+    } catch (error) {
+      console.error('[ExpenseAdminService] Error getting claim:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // SUBMISSION & APPROVAL
+  // ============================================================================
+
+  /**
+   * Submit a claim for approval. A linked client visit must be the
+   * claimant's own; its client is copied onto the claim for rebilling.
+   */
+  async createClaim(
+    input: CreateExpenseClaimInput,
+    employeeId: string
+  ): Promise<ExpenseClaim> {
+    try {
+      let client: { clientId: string | null; clientName: string | null } = { clientId: null, clientName: null };
+      if (input.clientVisitId) {
+        const visitDoc = await adminDb.collection('client-visits').doc(input.clientVisitId).get();
+        const visit = visitDoc.data();
+        if (!visit || visit.employeeId !== employeeId) {
+          throw new ApiError(400, 'The linked client visit was not found among your visits');
+        }
+        client = { clientId: visit.clientId || null, clientName: visit.clientName || null };
+      }
+
+      const now = new Date().toISOString();
+      const claim: Omit<ExpenseClaim, 'id'> = {
+        employeeId,
+        employeeName: await getUserName(employeeId),
+        title: input.title,
+        items: input.items,
+        receipts: input.receipts,
+        totalAmount: getClaimTotal(input.items),
+        clientVisitId: input.clientVisitId,
+        ...client,
+        status: 'pending',
+        decidedBy: null,
+        decidedByName: null,
+        decidedAt: null,
+        rejectionReason: null,
+        paidIn: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const ref = await adminDb.collection(COLLECTION).add(claim);
+      return { id: ref.id, ...claim };
+    } catch (error) {
+      console.error('[ExpenseAdminService] Error creating claim:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Approve or reject a pending claim. Managers decide claims from their
+   * assigned employees only, and nobody decides their own claim.
+   */
+  async decideClaim(
+    claimId: string,
+    decision: ExpenseClaimDecision,
+    approver: { uid: string; role: string }
+  ): Promise<ExpenseClaim> {
+    try {
+      const claim = await this.getClaimById(claimId);
+      if (!claim) {
+        throw new Error('Expense claim not found');
+      }
+      if (claim.employeeId === approver.uid) {
+        throw new ApiError(403, 'You cannot approve or reject your own claim');
+      }
+      if (!(await hasAccessToEmployee(approver.uid, approver.role, claim.employeeId))) {
+        throw new ApiError(403, 'You can only decide claims from your assigned employees');
+      }
+      if (claim.status !== 'pending') {
+        throw new ApiError(409, `This claim has already been ${claim.status}`);
+      }
+
+      const now = new Date().toISOString();
+      const update: Partial<ExpenseClaim> = {
+        status: decision.action === 'approve' ? 'approved' : 'rejected',
+        decidedBy: approver.uid,
+        decidedByName: await getUserName(approver.uid),
+        decidedAt: now,
+        rejectionReason: decision.action === 'reject' ? decision.reason : null,
+        updatedAt: now,
+      };
+      await adminDb.collection(COLLECTION).doc(claimId).update(update);
+
+      await adminDb.collection('audit_logs').add({
+        action: decision.action === 'approve' ? 'expense_claim_approved' : 'expense_claim_rejected',
+        performedBy: approver.uid,
+        details: {
+          claimId,
+          employeeId: claim.employeeId,
+          totalAmount: claim.totalAmount,
+          ...(decision.action === 'reject' ? { reason: decision.reason } : {}),
+        },
+        timestamp: Timestamp.now(),
+      });
+
+      return { ...claim, ...update };
+    } catch (error) {
+      console.error('[ExpenseAdminService] Error deciding claim:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Withdraw a claim that has not been decided yet (claimant only)
+   */
+  async withdrawClaim(claimId: string, uid: string): Promise<ExpenseClaim> {
+    try {
+      const claim = await this.getClaimById(claimId);
+      if (!claim || claim.employeeId !== uid) {
+        throw new Error('Expense claim not found');
+      }
+      if (claim.status !== 'pending') {
+        throw new ApiError(409, 'Only pending claims can be withdrawn');
+      }
+
+      await adminDb.collection(COLLECTION).doc(claimId).delete();
+      return claim;
+    } catch (error) {
+      console.error('[ExpenseAdminService] Error withdrawing claim:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // REPORTS
+  // ============================================================================
+
+  /**
+   * Approved expenses per client between two dates (YYYY-MM-DD, inclusive),
+   * optionally limited to a manager's team
+   */
+  async getClientExpenseReport(
+    range: { from: string; to: string },
+    employeeIds?: string[]
+  ): Promise<ClientExpenseReportRow[]> {
+    try {
+      const claims = await this.getClaims({ employeeIds });
+      return buildClientExpenseReport(claims, range);
+    } catch (error) {
+      console.error('[ExpenseAdminService] Error building client expense report:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,62 @@
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { storage } from '@/lib/firebase';
+import { formFileUploadService } from '@/services/form-file-upload.service';
+import { MAX_RECEIPT_SIZE, RECEIPT_ACCEPTED_TYPES } from '@/lib/expenses';
+import type { ExpenseReceipt } from '@/types/expense.types';
+
+export const expenseReceiptUploadService = {
+  /**
+   * Upload a receipt to Firebase Storage under the employee's folder
+   */
+  async uploadReceipt(employeeId: string, file: File): Promise<ExpenseReceipt> {
+    const timestamp = Date.now();
+    const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
+    const path = `expense-receipts/${employeeId}/${timestamp}_${sanitizedFileName}`;
+    const storageRef = ref(storage, path);
+
+    await uploadBytes(storageRef, file, {
+      contentType: file.type,
+      customMetadata: {
+        originalName: file.name,
+        uploadedAt: new Date().toISOString(),
+      },
+    });
+
+    const url = await getDownloadURL(storageRef);
+
+    return {
+      fileName: file.name,
+      fileUrl: url,
+      storagePath: path,
+      fileSize: file.size,
+      mimeType: file.type,
+    };
+  },
+
+  /**
+   * Upload several receipts in parallel
+   */
+  async uploadReceipts(employeeId: string, files: File[]): Promise<ExpenseReceipt[]> {
+    return Promise.all(files.map((file) => this.uploadReceipt(employeeId, file)));
+  },
+
+  /**
+   * Delete receipts that are no longer attached to a claim (withdrawn or removed before submitting)
+   */
+  async deleteReceipts(receipts: ExpenseReceipt[]): Promise<void> {
+    await Promise.all(
+      receipts.map((receipt) =>
+        formFileUploadService.deleteFile(receipt.storagePath).catch((err) => {
+          console.error(`Failed to delete receipt ${receipt.storagePath}:`, err);
+        })
+      )
+    );
+  },
+
+  /**
+   * Validate a receipt before upload (images or PDF, up to 10MB)
+   */
+  validateReceipt(file: File): { valid: boolean; error?: string } {
+    return formFileUploadService.validateFile(file, MAX_RECEIPT_SIZE, RECEIPT_ACCEPTED_TYPES);
+  },
+};
@@ -0,0 +1,105 @@
+/**
+ * Expense Service
+ * Client-side service using authenticatedFetch for expense claims
+ */
+
+import { authenticatedFetch } from '@/lib/api-client';
+import {
+  ClientExpenseReportRow,
+  CreateExpenseClaimInput,
+  ExpenseClaim,
+  ExpenseClaimDecision,
+  ExpenseClaimStatus,
+} from '@/types/expense.types';
+import { ClientVisit } from '@/types/client-visit.types';
+import { expenseReceiptUploadService } from '@/services/expense-receipt-upload.service';
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  const error = await response.json().catch(() => null);
+  return error?.message || fallback;
+}
+
+export const expenseService = {
+  /**
+   * Get the current user's own claims, or the team's claims (managers/admins)
+   */
+  async getClaims(options: { scope?: 'mine' | 'team'; status?: ExpenseClaimStatus } = {}): Promise<ExpenseClaim[] | null> {
+    const params = new URLSearchParams();
+    if (options.scope) params.set('scope', options.scope);
+    if (options.status) params.set('status', options.status);
+    const response = await authenticatedFetch(`/api/expenses?${params.toString()}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Submit a claim for approval. Throws with the server's message when rejected.
+   */
+  async createClaim(input: CreateExpenseClaimInput): Promise<ExpenseClaim> {
+    const response = await authenticatedFetch('/api/expenses', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to submit claim'));
+    }
+    return response.json();
+  },
+
+  /**
+   * Approve or reject a pending claim (managers/admins)
+   */
+  async decideClaim(claimId: string, decision: ExpenseClaimDecision): Promise<ExpenseClaim> {
+    const response = await authenticatedFetch(`/api/expenses/${claimId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(decision),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to update claim'));
+    }
+    return response.json();
+  },
+
+  /**
+   * Withdraw one of the current user's pending claims and delete its receipts
+   */
+  async withdrawClaim(claimId: string): Promise<ExpenseClaim> {
+    const response = await authenticatedFetch(`/api/expenses/${claimId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to withdraw claim'));
+    }
+    const claim: ExpenseClaim = await response.json();
+    await expenseReceiptUploadService.deleteReceipts(claim.receipts);
+    return claim;
+  },
+
+  /**
+   * The current user's recent client visits, to link a claim to
+   */
+  async getMyClientVisits(): Promise<ClientVisit[] | null> {
+    const response = await authenticatedFetch('/api/client-visits');
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Approved expenses per client between two dates (YYYY-MM-DD)
+   */
+  async getClientReport(from: string, to: string): Promise<ClientExpenseReportRow[] | null> {
+    const response = await authenticatedFetch(`/api/expenses/client-report?from=${from}&to=${to}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Download the per-client expense report as CSV
+   */
+  async downloadClientReport(from: string, to: string): Promise<{ blob: Blob; fileName: string } | null> {
+    const response = await authenticatedFetch(`/api/expenses/client-report?from=${from}&to=${to}&format=csv`);
+    if (!response.ok) return null;
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'client-expenses.csv';
+    return { blob: await response.blob(), fileName };
+  },
+};
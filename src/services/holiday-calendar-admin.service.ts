@@ -0,0 +1,347 @@
+/**
+ * Holiday Calendar Admin Service
+ * Server-side service using Firebase Admin SDK for holiday calendars, their
+ * holidays, employees' optional holiday claims, and the holidays an employee
+ * observes
+ * This bypasses Firestore security rules and should only be used in API routes
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { ApiError } from '@/lib/api-error-handler';
+import { getTeamsByEmployee } from '@/lib/manager-access';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import {
+  buildEmployeeHolidays,
+  getCalendarHolidays,
+  getOptionalHolidayClaimError,
+  resolveHolidayCalendar,
+} from '@/lib/holiday-calendar';
+import {
+  EmployeeHolidays,
+  Holiday,
+  HolidayCalendar,
+  HolidayCalendarFormData,
+  HolidayFormData,
+  HolidayImportRow,
+  OptionalHolidayClaim,
+} from '@/types/attendance.types';
+
+const CALENDARS = 'holiday-calendars';
+const HOLIDAYS = 'holidays';
+const CLAIMS = 'optional-holiday-claims';
+
+// Firestore batches take at most 500 writes
+const BATCH_SIZE = 500;
+
+/** The holidays an employee observes under their calendar */
+export type HolidayResolver = (employeeId: string) => EmployeeHolidays;
+
+function toHoliday(data: FirebaseFirestore.DocumentData, id: string): Holiday {
+  const date = data.date?.toDate ? data.date.toDate() : new Date(data.date);
+  return {
+    id,
+    calendarId: data.calendarId ?? null,
+    date: toAttendanceDate(date),
+    name: data.name || '',
+    description: data.description || '',
+    isOptional: data.isOptional === true,
+  };
+}
+
+async function getUserName(uid: string): Promise<string> {
+  const user = (await adminDb.collection('users').doc(uid).get()).data();
+  return user?.displayName || user?.name || user?.email || uid;
+}
+
+async function deleteInBatches(refs: FirebaseFirestore.DocumentReference[]): Promise<void> {
+  for (let i = 0; i < refs.length; i += BATCH_SIZE) {
+    const batch = adminDb.batch();
+    refs.slice(i, i + BATCH_SIZE).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+}
+
+/** Only one calendar is the default; making one the default unsets the rest */
+async function clearOtherDefaults(calendarId: string | null): Promise<void> {
+  const defaults = await adminDb.collection(CALENDARS).where('isDefault', '==', true).get();
+  const others = defaults.docs.filter((doc) => doc.id !== calendarId);
+  if (others.length === 0) return;
+  const batch = adminDb.batch();
+  others.forEach((doc) => batch.update(doc.ref, { isDefault: false }));
+  await batch.commit();
+}
+
+export const holidayCalendarAdminService = {
+  // ============================================================================
+  // CALENDARS
+  // ============================================================================
+
+  async getCalendars(): Promise<HolidayCalendar[]> {
+    try {
+      const snapshot = await adminDb.collection(CALENDARS).get();
+      return snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as HolidayCalendar)
+        .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error getting calendars:', error);
+      throw error;
+    }
+  },
+
+  async getCalendarById(calendarId: string): Promise<HolidayCalendar | null> {
+    try {
+      const doc = await adminDb.collection(CALENDARS).doc(calendarId).get();
+      if (!doc.exists) return null;
+      return { id: doc.id, ...doc.data() } as HolidayCalendar;
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error getting calendar:', error);
+      throw error;
+    }
+  },
+
+  async createCalendar(data: HolidayCalendarFormData): Promise<HolidayCalendar> {
+    try {
+      if (data.isDefault) await clearOtherDefaults(null);
+
+      const now = new Date().toISOString();
+      const calendar: Omit<HolidayCalendar, 'id'> = { ...data, createdAt: now, updatedAt: now };
+      const docRef = await adminDb.collection(CALENDARS).add(calendar);
+      return { id: docRef.id, ...calendar };
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error creating calendar:', error);
+      throw error;
+    }
+  },
+
+  async updateCalendar(calendarId: string, data: Partial<HolidayCalendarFormData>): Promise<HolidayCalendar> {
+    try {
+      const docRef = adminDb.collection(CALENDARS).doc(calendarId);
+      const doc = await docRef.get();
+      if (!doc.exists) throw new Error('Holiday calendar not found');
+
+      if (data.isDefault) await clearOtherDefaults(calendarId);
+      await docRef.update({ ...data, updatedAt: new Date().toISOString() });
+      const updated = await docRef.get();
+      return { id: calendarId, ...updated.data() } as HolidayCalendar;
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error updating calendar:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a calendar with its holidays and the claims on them. Its
+   * employees and teams fall back to the default calendar.
+   */
+  async deleteCalendar(calendarId: string): Promise<void> {
+    try {
+      const docRef = adminDb.collection(CALENDARS).doc(calendarId);
+      const doc = await docRef.get();
+      if (!doc.exists) throw new Error('Holiday calendar not found');
+
+      const [holidays, claims] = await Promise.all([
+        adminDb.collection(HOLIDAYS).where('calendarId', '==', calendarId).get(),
+        adminDb.collection(CLAIMS).where('calendarId', '==', calendarId).get(),
+      ]);
+      await deleteInBatches([...holidays.docs, ...claims.docs].map((d) => d.ref));
+      await docRef.delete();
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error deleting calendar:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // HOLIDAYS
+  // ============================================================================
+
+  /**
+   * Every holiday, across calendars and the company-wide list
+   */
+  async getAllHolidays(): Promise<Holiday[]> {
+    try {
+      const snapshot = await adminDb.collection(HOLIDAYS).get();
+      return snapshot.docs.filter((doc) => doc.data().date).map((doc) => toHoliday(doc.data(), doc.id));
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error getting holidays:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * A calendar's holidays in date order, including the company-wide list for
+   * the default calendar
+   */
+  async getHolidays(calendarId: string): Promise<Holiday[]> {
+    const [calendar, holidays] = await Promise.all([this.getCalendarById(calendarId), this.getAllHolidays()]);
+    if (!calendar) throw new Error('Holiday calendar not found');
+    return getCalendarHolidays(calendar, holidays);
+  },
+
+  async addHoliday(calendarId: string, data: HolidayFormData, createdBy: string): Promise<Holiday> {
+    try {
+      const calendar = await this.getCalendarById(calendarId);
+      if (!calendar) throw new Error('Holiday calendar not found');
+
+      const existing = getCalendarHolidays(calendar, await this.getAllHolidays()).find(
+        (holiday) => holiday.date === data.date
+      );
+      if (existing) {
+        throw new ApiError(409, `${existing.name} is already a holiday on ${data.date} in this calendar`);
+      }
+
+      const docRef = await adminDb.collection(HOLIDAYS).add({
+        ...data,
+        date: Timestamp.fromDate(new Date(`${data.date}T00:00:00+05:30`)),
+        calendarId,
+        createdBy,
+        createdAt: Timestamp.now(),
+      });
+      return { id: docRef.id, calendarId, ...data };
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error adding holiday:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete one of a calendar's own holidays and the claims on it
+   */
+  async deleteHoliday(calendarId: string, holidayId: string): Promise<void> {
+    try {
+      const docRef = adminDb.collection(HOLIDAYS).doc(holidayId);
+      const doc = await docRef.get();
+      if (!doc.exists || doc.data()!.calendarId !== calendarId) throw new Error('Holiday not found');
+
+      const claims = await adminDb.collection(CLAIMS).where('holidayId', '==', holidayId).get();
+      await deleteInBatches([...claims.docs.map((d) => d.ref), docRef]);
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error deleting holiday:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Add imported holidays to a calendar. Days the calendar already has a
+   * holiday on are skipped, so importing the same file twice adds nothing.
+   */
+  async importHolidays(
+    calendarId: string,
+    rows: HolidayImportRow[],
+    createdBy: string
+  ): Promise<{ imported: number; skipped: number }> {
+    try {
+      const calendar = await this.getCalendarById(calendarId);
+      if (!calendar) throw new Error('Holiday calendar not found');
+
+      const taken = new Set(getCalendarHolidays(calendar, await this.getAllHolidays()).map((h) => h.date));
+      const fresh = rows.filter((row) => {
+        if (taken.has(row.date)) return false;
+        taken.add(row.date);
+        return true;
+      });
+
+      const now = Timestamp.now();
+      for (let i = 0; i < fresh.length; i += BATCH_SIZE) {
+        const batch = adminDb.batch();
+        for (const row of fresh.slice(i, i + BATCH_SIZE)) {
+          batch.set(adminDb.collection(HOLIDAYS).doc(), {
+            ...row,
+            date: Timestamp.fromDate(new Date(`${row.date}T00:00:00+05:30`)),
+            calendarId,
+            createdBy,
+            createdAt: now,
+          });
+        }
+        await batch.commit();
+      }
+
+      return { imported: fresh.length, skipped: rows.length - fresh.length };
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error importing holidays:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // EMPLOYEE HOLIDAYS
+  // ============================================================================
+
+  /**
+   * Load calendars, holidays, claims and teams once, for resolving many
+   * employees (payroll, the register, rosters)
+   */
+  async getResolver(): Promise<HolidayResolver> {
+    try {
+      const [calendars, holidays, claimsSnapshot, teams] = await Promise.all([
+        this.getCalendars(),
+        this.getAllHolidays(),
+        adminDb.collection(CLAIMS).get(),
+        getTeamsByEmployee(),
+      ]);
+      const claims = claimsSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as OptionalHolidayClaim);
+
+      return (employeeId) =>
+        buildEmployeeHolidays(
+          resolveHolidayCalendar(calendars, { employeeId, teamIds: teams.get(employeeId) ?? [] }),
+          holidays,
+          claims.filter((claim) => claim.employeeId === employeeId)
+        );
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error loading holiday resolver:', error);
+      throw error;
+    }
+  },
+
+  async getEmployeeHolidays(employeeId: string): Promise<EmployeeHolidays> {
+    const resolve = await this.getResolver();
+    return resolve(employeeId);
+  },
+
+  /**
+   * Claim an optional holiday on the employee's calendar, within its quota
+   */
+  async claimOptionalHoliday(employeeId: string, holidayId: string): Promise<OptionalHolidayClaim> {
+    try {
+      const employeeHolidays = await this.getEmployeeHolidays(employeeId);
+      const error = getOptionalHolidayClaimError(employeeHolidays, holidayId, toAttendanceDate(new Date()));
+      if (error) throw new ApiError(400, error);
+
+      const holiday = employeeHolidays.optionalHolidays.find((h) => h.id === holidayId)!;
+      const claim: Omit<OptionalHolidayClaim, 'id'> = {
+        employeeId,
+        employeeName: await getUserName(employeeId),
+        calendarId: holiday.calendarId,
+        holidayId,
+        holidayName: holiday.name,
+        date: holiday.date,
+        createdAt: new Date().toISOString(),
+      };
+      const claimId = `${employeeId}_${holidayId}`;
+      await adminDb.collection(CLAIMS).doc(claimId).set(claim);
+      return { id: claimId, ...claim };
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error claiming optional holiday:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Give back a claimed optional holiday that has not yet come
+   */
+  async cancelClaim(employeeId: string, holidayId: string): Promise<void> {
+    try {
+      const docRef = adminDb.collection(CLAIMS).doc(`${employeeId}_${holidayId}`);
+      const doc = await docRef.get();
+      if (!doc.exists) throw new Error('Optional holiday claim not found');
+      if ((doc.data() as OptionalHolidayClaim).date < toAttendanceDate(new Date())) {
+        throw new ApiError(400, 'An optional holiday that has passed cannot be given back');
+      }
+      await docRef.delete();
+    } catch (error) {
+      console.error('[HolidayCalendarAdminService] Error cancelling optional holiday claim:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,171 @@
+/**
+ * Holiday Calendar Service
+ * Client-side service using authenticatedFetch for holiday calendars, their
+ * import and export, and employees' optional holiday claims
+ */
+
+import { authenticatedFetch } from '@/lib/api-client';
+import {
+  EmployeeHolidays,
+  Holiday,
+  HolidayCalendar,
+  HolidayCalendarFormData,
+  HolidayFormData,
+  OptionalHolidayClaim,
+} from '@/types/attendance.types';
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  const error = await response.json().catch(() => null);
+  return error?.message || fallback;
+}
+
+export type HolidayFileFormat = 'ics' | 'csv';
+
+export interface HolidayImportError {
+  row: number;
+  error: string;
+}
+
+export const holidayCalendarService = {
+  // ============================================================================
+  // CALENDARS (admins/managers)
+  // ============================================================================
+
+  async getCalendars(): Promise<HolidayCalendar[] | null> {
+    const response = await authenticatedFetch('/api/holidays/calendars');
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Create a calendar (admins). Throws with the server's message when rejected.
+   */
+  async createCalendar(data: HolidayCalendarFormData): Promise<HolidayCalendar> {
+    const response = await authenticatedFetch('/api/holidays/calendars', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to create holiday calendar'));
+    }
+    return response.json();
+  },
+
+  async updateCalendar(calendarId: string, data: Partial<HolidayCalendarFormData>): Promise<HolidayCalendar> {
+    const response = await authenticatedFetch(`/api/holidays/calendars/${calendarId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to update holiday calendar'));
+    }
+    return response.json();
+  },
+
+  async deleteCalendar(calendarId: string): Promise<void> {
+    const response = await authenticatedFetch(`/api/holidays/calendars/${calendarId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to delete holiday calendar'));
+    }
+  },
+
+  // ============================================================================
+  // HOLIDAYS
+  // ============================================================================
+
+  async getHolidays(calendarId: string): Promise<Holiday[] | null> {
+    const response = await authenticatedFetch(`/api/holidays/calendars/${calendarId}/holidays`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  async addHoliday(calendarId: string, data: HolidayFormData): Promise<Holiday> {
+    const response = await authenticatedFetch(`/api/holidays/calendars/${calendarId}/holidays`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to add holiday'));
+    }
+    return response.json();
+  },
+
+  async deleteHoliday(calendarId: string, holidayId: string): Promise<void> {
+    const response = await authenticatedFetch(`/api/holidays/calendars/${calendarId}/holidays/${holidayId}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to remove holiday'));
+    }
+  },
+
+  /**
+   * Import holidays from an .ics or .csv file's content. Returns the entries
+   * that could not be read instead when the file has any.
+   */
+  async importHolidays(
+    calendarId: string,
+    format: HolidayFileFormat,
+    content: string
+  ): Promise<{ imported: number; skipped: number } | { errors: HolidayImportError[] }> {
+    const response = await authenticatedFetch(`/api/holidays/calendars/${calendarId}/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ format, content }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      if (Array.isArray(error?.errors)) return { errors: error.errors };
+      throw new Error(error?.message || 'Failed to import holidays');
+    }
+    return response.json();
+  },
+
+  /**
+   * Download a calendar's holidays as iCalendar or CSV
+   */
+  async exportHolidays(
+    calendarId: string,
+    format: HolidayFileFormat
+  ): Promise<{ blob: Blob; fileName: string } | null> {
+    const response = await authenticatedFetch(`/api/holidays/calendars/${calendarId}/export?format=${format}`);
+    if (!response.ok) return null;
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `holidays.${format}`;
+    return { blob: await response.blob(), fileName };
+  },
+
+  // ============================================================================
+  // MY HOLIDAYS
+  // ============================================================================
+
+  /**
+   * The current user's calendar, with the optional holidays they can claim
+   */
+  async getMyHolidays(): Promise<EmployeeHolidays | null> {
+    const response = await authenticatedFetch('/api/holidays/mine');
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  async claimOptionalHoliday(holidayId: string): Promise<OptionalHolidayClaim> {
+    const response = await authenticatedFetch('/api/holidays/claims', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ holidayId }),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to claim optional holiday'));
+    }
+    return response.json();
+  },
+
+  async cancelClaim(holidayId: string): Promise<void> {
+    const response = await authenticatedFetch(`/api/holidays/claims/${holidayId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to give back optional holiday'));
+    }
+  },
+};
@@ -428,7 +428,7 @@ export const leaveService = {
 
       if (!response.ok) {
         const err = await response.json().catch(() => ({}));
-        throw new Error(err.error || 'Failed to create leave request');
+        throw new Error(err.message || err.error || 'Failed to create leave request');
       }
 
       const created = await response.json();
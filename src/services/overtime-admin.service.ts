@@ -0,0 +1,248 @@
+/**
+ * Overtime Admin Service
+ * Server-side service using Firebase Admin SDK for overtime claims
+ * This bypasses Firestore security rules and should only be used in API routes
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { ApiError } from '@/lib/api-error-handler';
+import { hasAccessToEmployee } from '@/lib/manager-access';
+import { getOvertimeClaimId, sumMonthlyOvertime } from '@/lib/overtime';
+import { getPayrollRunId, isPayrollRunLocked } from '@/lib/payroll-run';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+import { OvertimeClaim, OvertimeClaimDecision, OvertimeClaimStatus } from '@/types/attendance.types';
+
+const COLLECTION = 'overtime-claims';
+
+async function getUserName(uid: string): Promise<string> {
+  const user = (await adminDb.collection('users').doc(uid).get()).data();
+  return user?.displayName || user?.name || user?.email || uid;
+}
+
+export const overtimeAdminService = {
+  // ============================================================================
+  // CLAIM QUERIES
+  // ============================================================================
+
+  /**
+   * Get claims, latest month first. employeeIds limits the result to those
+   * employees (used for a manager's team).
+   */
+  async getClaims(
+    filters: { employeeIds?: string[]; status?: OvertimeClaimStatus; month?: number; year?: number } = {}
+  ): Promise<OvertimeClaim[]> {
+    try {
+      if (filters.employeeIds && filters.employeeIds.length === 0) return [];
+
+      const claims: OvertimeClaim[] = [];
+      // Firestore 'in' queries take at most 30 values
+      const groups = filters.employeeIds
+        ? Array.from({ length: Math.ceil(filters.employeeIds.length / 30) }, (_, i) =>
+            filters.employeeIds!.slice(i * 30, i * 30 + 30)
+          )
+        : [null];
+
+      for (const group of groups) {
+        let query: FirebaseFirestore.Query = adminDb.collection(COLLECTION);
+        if (group) query = query.where('employeeId', 'in', group);
+        if (filters.status) query = query.where('status', '==', filters.status);
+        if (filters.year !== undefined) query = query.where('year', '==', filters.year);
+        if (filters.month !== undefined) query = query.where('month', '==', filters.month);
+        const snapshot = await query.get();
+        claims.push(...snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as OvertimeClaim));
+      }
+
+      return claims.sort(
+        (a, b) => b.year - a.year || b.month - a.month || a.employeeName.localeCompare(b.employeeName)
+      );
+    } catch (error) {
+      console.error('[OvertimeAdminService] Error getting claims:', error);
+      throw error;
+    }
+  },
+
+  async getClaimById(claimId: string): Promise<OvertimeClaim | null> {
+    try {
+      const doc = await adminDb.collection(COLLECTION).doc(claimId).get();
+      if (!doc.exists) return null;
+      return { id: doc.id, ...doc.data() } as OvertimeClaim;
+    } catch (error) {
+      console.error('[OvertimeAdminService] Error getting claim:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Overtime hours on an employee's attendance records for a month (0-11)
+   */
+  async getRecordedOvertime(employeeId: string, month: number, year: number): Promise<number> {
+    try {
+      const monthStart = new Date(year, month, 1);
+      const monthEnd = new Date(year, month + 1, 0, 23, 59, 59);
+      const snapshot = await adminDb
+        .collection('attendance-records')
+        .where('employeeId', '==', employeeId)
+        .where('clockIn', '>=', Timestamp.fromDate(monthStart))
+        .where('clockIn', '<=', Timestamp.fromDate(monthEnd))
+        .get();
+
+      const records = snapshot.docs.map((doc) => {
+        const data = doc.data();
+        return { clockIn: data.clockIn.toDate() as Date, overtimeHours: data.overtimeHours };
+      });
+      return sumMonthlyOvertime(records, month, year);
+    } catch (error) {
+      console.error('[OvertimeAdminService] Error getting recorded overtime:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Overtime multiplier of the employee's attendance policy at the end of a
+   * month (0-11)
+   */
+  async getPolicyMultiplier(employeeId: string, month: number, year: number): Promise<number> {
+    try {
+      const monthEnd = new Date(year, month + 1, 0, 12);
+      const policy = await attendancePolicyAdminService.resolveForEmployee(employeeId, monthEnd);
+      return policy.overtimeMultiplier;
+    } catch (error) {
+      console.error('[OvertimeAdminService] Error getting overtime multiplier:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // SUBMISSION & APPROVAL
+  // ============================================================================
+
+  /**
+   * Claim a month's overtime. Hours default to the overtime on the month's
+   * attendance records and cannot exceed it. A pending or rejected claim is
+   * replaced; an approved one is final.
+   */
+  async submitClaim(
+    employeeId: string,
+    input: { month: number; year: number; hours?: number; notes: string }
+  ): Promise<OvertimeClaim> {
+    try {
+      const now = new Date();
+      if (input.year > now.getFullYear() || (input.year === now.getFullYear() && input.month > now.getMonth())) {
+        throw new ApiError(400, 'Overtime can only be claimed for the current or a past month');
+      }
+
+      const claimId = getOvertimeClaimId(employeeId, input.month, input.year);
+      const existing = await this.getClaimById(claimId);
+      if (existing?.status === 'approved') {
+        throw new ApiError(409, 'Overtime for this month has already been approved');
+      }
+
+      const recordedHours = await this.getRecordedOvertime(employeeId, input.month, input.year);
+      if (recordedHours <= 0) {
+        throw new ApiError(400, 'No overtime is recorded on your attendance for this month');
+      }
+      const claimedHours = input.hours ?? recordedHours;
+      if (claimedHours > recordedHours) {
+        throw new ApiError(400, `You can claim at most ${recordedHours} hours recorded on your attendance`);
+      }
+
+      const timestamp = now.toISOString();
+      const claim: Omit<OvertimeClaim, 'id'> = {
+        employeeId,
+        employeeName: await getUserName(employeeId),
+        month: input.month,
+        year: input.year,
+        recordedHours,
+        claimedHours,
+        notes: input.notes,
+        status: 'pending',
+        approvedHours: null,
+        multiplier: null,
+        decidedBy: null,
+        decidedByName: null,
+        decidedAt: null,
+        rejectionReason: null,
+        createdAt: existing?.createdAt ?? timestamp,
+        updatedAt: timestamp,
+      };
+
+      await adminDb.collection(COLLECTION).doc(claimId).set(claim);
+      return { id: claimId, ...claim };
+    } catch (error) {
+      console.error('[OvertimeAdminService] Error submitting claim:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Approve (optionally fewer hours than claimed) or reject a pending claim.
+   * Managers decide claims from their assigned employees only, and nobody
+   * decides their own claim. The policy multiplier is fixed on approval.
+   */
+  async decideClaim(
+    claimId: string,
+    decision: OvertimeClaimDecision,
+    approver: { uid: string; role: string }
+  ): Promise<OvertimeClaim> {
+    try {
+      const claim = await this.getClaimById(claimId);
+      if (!claim) {
+        throw new Error('Overtime claim not found');
+      }
+      if (claim.employeeId === approver.uid) {
+        throw new ApiError(403, 'You cannot approve or reject your own overtime');
+      }
+      if (!(await hasAccessToEmployee(approver.uid, approver.role, claim.employeeId))) {
+        throw new ApiError(403, 'You can only decide overtime for your assigned employees');
+      }
+      if (claim.status !== 'pending') {
+        throw new ApiError(409, `This claim has already been ${claim.status}`);
+      }
+      // Approved hours are paid on the month's slips, which a locked run no longer changes
+      const run = (await adminDb.collection('payroll-runs').doc(getPayrollRunId(claim.month, claim.year)).get()).data();
+      if (decision.action === 'approve' && run && isPayrollRunLocked(run.status)) {
+        throw new ApiError(409, 'Payroll for this month is locked; re-open it before approving overtime');
+      }
+
+      const approvedHours = decision.action === 'approve' ? decision.hours ?? claim.claimedHours : null;
+      if (approvedHours !== null && approvedHours > claim.claimedHours) {
+        throw new ApiError(400, `Approved hours cannot exceed the ${claim.claimedHours} hours claimed`);
+      }
+
+      const now = new Date().toISOString();
+      const update: Partial<OvertimeClaim> = {
+        status: decision.action === 'approve' ? 'approved' : 'rejected',
+        approvedHours,
+        multiplier: decision.action === 'approve' ? await this.getPolicyMultiplier(claim.employeeId, claim.month, claim.year) : null,
+        decidedBy: approver.uid,
+        decidedByName: await getUserName(approver.uid),
+        decidedAt: now,
+        rejectionReason: decision.action === 'reject' ? decision.reason : null,
+        updatedAt: now,
+      };
+      await adminDb.collection(COLLECTION).doc(claimId).update(update);
+
+      await adminDb.collection('audit_logs').add({
+        action: decision.action === 'approve' ? 'overtime_claim_approved' : 'overtime_claim_rejected',
+        performedBy: approver.uid,
+        details: {
+          claimId,
+          employeeId: claim.employeeId,
+          month: claim.month,
+          year: claim.year,
+          claimedHours: claim.claimedHours,
+          ...(decision.action === 'approve'
+            ? { approvedHours, multiplier: update.multiplier }
+            : { reason: decision.reason }),
+        },
+        timestamp: Timestamp.now(),
+      });
+
+      return { ...claim, ...update };
+    } catch (error) {
+      console.error('[OvertimeAdminService] Error deciding claim:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,70 @@
+/**
+ * Overtime Service
+ * Client-side service using authenticatedFetch for overtime claims
+ */
+
+import { authenticatedFetch } from '@/lib/api-client';
+import { OvertimeClaim, OvertimeClaimDecision, OvertimeClaimStatus } from '@/types/attendance.types';
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  const error = await response.json().catch(() => null);
+  return error?.message || fallback;
+}
+
+export const overtimeService = {
+  /**
+   * Get the current user's own claims, or the team's claims (managers/admins)
+   */
+  async getClaims(
+    options: { scope?: 'mine' | 'team'; status?: OvertimeClaimStatus; month?: number; year?: number } = {}
+  ): Promise<OvertimeClaim[] | null> {
+    const params = new URLSearchParams();
+    if (options.scope) params.set('scope', options.scope);
+    if (options.status) params.set('status', options.status);
+    if (options.month !== undefined) params.set('month', String(options.month));
+    if (options.year !== undefined) params.set('year', String(options.year));
+    const response = await authenticatedFetch(`/api/overtime-claims?${params.toString()}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Overtime hours on the current user's attendance for a month (0-11)
+   */
+  async getRecordedOvertime(month: number, year: number): Promise<number | null> {
+    const response = await authenticatedFetch(`/api/overtime-claims/recorded?month=${month}&year=${year}`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.recordedHours;
+  },
+
+  /**
+   * Claim a month's overtime for approval. Throws with the server's message when rejected.
+   */
+  async submitClaim(input: { month: number; year: number; hours?: number; notes: string }): Promise<OvertimeClaim> {
+    const response = await authenticatedFetch('/api/overtime-claims', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to submit overtime'));
+    }
+    return response.json();
+  },
+
+  /**
+   * Approve or reject a pending claim (managers/admins)
+   */
+  async decideClaim(claimId: string, decision: OvertimeClaimDecision): Promise<OvertimeClaim> {
+    const response = await authenticatedFetch(`/api/overtime-claims/${claimId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(decision),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to update overtime claim'));
+    }
+    return response.json();
+  },
+};
@@ -5,9 +5,37 @@
  */
 
 import { adminDb, adminMessaging } from '@/lib/firebase-admin';
-import { Timestamp } from 'firebase-admin/firestore';
-import { PayrollSettings, EmployeeSalary, SalaryCalculationResult, AttendanceBreakdown, SalaryBreakup, SalarySlipTemplate, DEFAULT_SALARY_SLIP_TEMPLATE } from '@/types/payroll.types';
-import * as FormulaFunctions from '@/lib/formula-functions';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { PayrollSettings, EmployeeSalary, SalaryCalculationResult, AttendanceBreakdown, SalaryBreakup, SalarySlipTemplate, DEFAULT_SALARY_SLIP_TEMPLATE, PayrollPreviewResult, PayrollPreviewRow, StatutoryBreakdown, TaxDeclaration, TaxDeclarationWindow, TdsProjection, EmployeeLoan, LoanRecovery, LoanStatus, LoanType, PayrollRun, PayrollRunAction, PayrollRunStatus, BankExportFormatId, BankPaymentIssue, BankPaymentRow, EcrRow, EsiReturnRow, StatutoryReturnTotals, StatutoryReturnType, AnnualSalaryStatement, SalaryRevision, ArrearsPayment, FnfSettlement, SalaryFormulaVersion, SalaryComponent, EmployeeSalaryComponent } from '@/types/payroll.types';
+import { FormulaError } from '@/lib/formula-parser';
+import { evaluateFormula, SALARY_FORMULA_VARIABLES } from '@/lib/formula-evaluator';
+import { buildPreviewRow, getPreviousPeriod, isOutlierFlag, DEFAULT_NET_CHANGE_THRESHOLD } from '@/lib/payroll-preview';
+import { applyStatutoryDeductions, calculateStatutoryDeductions, getEsiContributionPeriodStart } from '@/lib/statutory';
+import { applyLoanRecoveries, calculateEmi, capLoanRecoveries, comparePeriods, getDueEmi, getOutstandingPrincipal } from '@/lib/loans';
+import { createDraftRun, getPayrollRunId, isPayrollRunEditable, isPayrollRunLocked, summarizeSlips, transitionRun } from '@/lib/payroll-run';
+import { ApiError } from '@/lib/api-error-handler';
+import { prepareBankPayments } from '@/lib/bank-export';
+import { decrypt } from '@/lib/encryption';
+import { prepareEcr, prepareEsiReturn } from '@/lib/statutory-returns';
+import { buildAnnualStatement } from '@/lib/annual-statement';
+import { applyArrears, calculateArrears, getGrossOn, getMonthlyGross, toDateKey } from '@/lib/salary-revisions';
+import { computeFnf, estimateLeaveBalance } from '@/lib/fnf-settlement';
+import { resolveEmployeeUid } from '@/lib/relieving-letter-utils';
+import { getEffectiveFormulaVersion } from '@/lib/formula-versions';
+import { applySalaryComponents, calculateComponentLines, validateSalaryComponent } from '@/lib/salary-components';
+import { applyReimbursement, getUnpaidApprovedClaims } from '@/lib/expenses';
+import { ExpenseClaim } from '@/types/expense.types';
+import { applyOvertime, calculateOvertimePay, getApprovedOvertime, getOvertimeClaimId } from '@/lib/overtime';
+import { OvertimeClaim } from '@/types/attendance.types';
+import { classifyAttendanceMonth, getAttendanceMonthWindow, getMonthRecords, RegisterLeave, RegisterRecord } from '@/lib/attendance-register';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+import { holidayCalendarAdminService } from '@/services/holiday-calendar-admin.service';
+import { applyTds, getFinancialYear, getFinancialYearMonthIndex, getOneOffEarnings, getRemainingMonthsInFinancialYear, projectTds, toProjectedMonth, toTaxableMonth } from '@/lib/tds';
+
+// Ledger entries live in an array on the loan document; borrow Firestore's ID generator for them
+function newLoanTransactionId(): string {
+  return adminDb.collection('employee-loans').doc().id;
+}
 
 export const payrollAdminService = {
   // ============================================================================
@@ -48,13 +76,234 @@ export const payrollAdminService = {
     }
   },
 
+  // ============================================================================
+  // SALARY FORMULA VERSIONS
+  // ============================================================================
+
+  /**
+   * Get every saved salary formula version, newest first
+   */
+  async getFormulaVersions(): Promise<SalaryFormulaVersion[]> {
+    try {
+      const snapshot = await adminDb.collection('salary-formula-versions').get();
+      const versions = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as SalaryFormulaVersion[];
+      return versions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting formula versions:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Save a salary formula as a new version effective from a month. Passing
+   * rollbackOf saves that version's formula again. The formula in use before
+   * versioning is kept as the first version so earlier months still
+   * regenerate with it. Months of locked runs cannot be changed.
+   */
+  async createFormulaVersion(
+    input: { formula?: string; changeNote: string; effectiveMonth: number; effectiveYear: number; rollbackOf?: string },
+    createdBy: string
+  ): Promise<SalaryFormulaVersion> {
+    try {
+      let formula = input.formula ?? '';
+      if (input.rollbackOf) {
+        const source = await adminDb.collection('salary-formula-versions').doc(input.rollbackOf).get();
+        if (!source.exists) {
+          throw new Error('Formula version not found');
+        }
+        formula = source.data()!.formula;
+      }
+
+      const lockedRuns = await adminDb
+        .collection('payroll-runs')
+        .where('status', 'in', ['locked', 'paid'])
+        .get();
+      const lockedRun = lockedRuns.docs
+        .map((doc) => doc.data() as PayrollRun)
+        .find((run) => comparePeriods(run, { month: input.effectiveMonth, year: input.effectiveYear }) >= 0);
+      if (lockedRun) {
+        throw new ApiError(
+          409,
+          `Payroll for ${new Date(lockedRun.year, lockedRun.month).toLocaleString('en-IN', { month: 'long', year: 'numeric' })} is locked; choose a later effective month`
+        );
+      }
+
+      const userDoc = await adminDb.collection('users').doc(createdBy).get();
+      const user = userDoc.data();
+      const createdByName = user?.displayName || user?.name || user?.email || createdBy;
+
+      const settings = await this.getSettings();
+      const existing = await this.getFormulaVersions();
+      // Kept even when empty (the default split), so earlier months never pick
+      // up the new formula through the settings fallback
+      if (existing.length === 0 && settings) {
+        await adminDb.collection('salary-formula-versions').add({
+          formula: settings.salaryFormula ?? '',
+          changeNote: 'Formula in use before versioning',
+          effectiveMonth: 0,
+          effectiveYear: 2000,
+          rolledBackFrom: null,
+          createdBy,
+          createdByName,
+          createdAt: new Date(Date.now() - 1).toISOString(),
+        });
+      }
+
+      const version: Omit<SalaryFormulaVersion, 'id'> = {
+        formula,
+        changeNote: input.changeNote,
+        effectiveMonth: input.effectiveMonth,
+        effectiveYear: input.effectiveYear,
+        rolledBackFrom: input.rollbackOf ?? null,
+        createdBy,
+        createdByName,
+        createdAt: new Date().toISOString(),
+      };
+      const ref = await adminDb.collection('salary-formula-versions').add(version);
+
+      if (settings?.id) {
+        await adminDb.collection('payroll-settings').doc(settings.id).update({
+          salaryFormula: formula,
+          updatedAt: Timestamp.now(),
+        });
+      }
+
+      await adminDb.collection('audit_logs').add({
+        action: input.rollbackOf ? 'salary_formula_rolled_back' : 'salary_formula_version_created',
+        performedBy: createdBy,
+        details: {
+          versionId: ref.id,
+          rolledBackFrom: version.rolledBackFrom,
+          effectiveMonth: version.effectiveMonth,
+          effectiveYear: version.effectiveYear,
+          changeNote: version.changeNote,
+        },
+        timestamp: Timestamp.now(),
+      });
+
+      return { id: ref.id, ...version };
+    } catch (error) {
+      console.error('[PayrollAdminService] Error creating formula version:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // SALARY COMPONENTS
+  // ============================================================================
+
+  /**
+   * Get the salary component catalogue in calculation order
+   */
+  async getSalaryComponents(): Promise<SalaryComponent[]> {
+    try {
+      const snapshot = await adminDb.collection('salary-components').get();
+      const components = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as SalaryComponent[];
+      return components.sort((a, b) => a.order - b.order);
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting salary components:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Check every component against a changed catalogue, so a component cannot
+   * be moved or removed from under one that is worked out from it
+   */
+  assertValidSalaryComponents(catalogue: SalaryComponent[]): void {
+    const errors = catalogue.flatMap((component) =>
+      validateSalaryComponent(component, catalogue).map((error) => `${component.name}: ${error}`)
+    );
+    if (errors.length > 0) {
+      throw new ApiError(400, errors.join('; '));
+    }
+  },
+
+  /**
+   * Add a component to the end of the catalogue
+   */
+  async createSalaryComponent(
+    input: Omit<SalaryComponent, 'id' | 'order' | 'createdAt' | 'updatedAt'>
+  ): Promise<SalaryComponent> {
+    try {
+      const catalogue = await this.getSalaryComponents();
+      if (catalogue.some((component) => component.key === input.key)) {
+        throw new ApiError(409, `A salary component with key '${input.key}' already exists`);
+      }
+
+      const now = new Date().toISOString();
+      const component: Omit<SalaryComponent, 'id'> = {
+        ...input,
+        order: catalogue.reduce((max, other) => Math.max(max, other.order), -1) + 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.assertValidSalaryComponents([...catalogue, component]);
+
+      const ref = await adminDb.collection('salary-components').add(component);
+      return { id: ref.id, ...component };
+    } catch (error) {
+      console.error('[PayrollAdminService] Error creating salary component:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update a catalogue component. The key cannot change once created, as
+   * salary structures and other components refer to it.
+   */
+  async updateSalaryComponent(
+    componentId: string,
+    input: Partial<Omit<SalaryComponent, 'id' | 'key' | 'createdAt' | 'updatedAt'>>
+  ): Promise<SalaryComponent> {
+    try {
+      const catalogue = await this.getSalaryComponents();
+      const existing = catalogue.find((component) => component.id === componentId);
+      if (!existing) {
+        throw new Error('Salary component not found');
+      }
+
+      const updated: SalaryComponent = { ...existing, ...input, updatedAt: new Date().toISOString() };
+      this.assertValidSalaryComponents(
+        catalogue.map((component) => (component.id === componentId ? updated : component))
+      );
+
+      const { id, ...payload } = updated;
+      await adminDb.collection('salary-components').doc(componentId).update(payload);
+      return { id, ...payload };
+    } catch (error) {
+      console.error('[PayrollAdminService] Error updating salary component:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove a component from the catalogue. Slips keep the lines already
+   * paid; salary structures that still list it skip it from then on.
+   */
+  async deleteSalaryComponent(componentId: string): Promise<void> {
+    try {
+      const catalogue = await this.getSalaryComponents();
+      if (!catalogue.some((component) => component.id === componentId)) {
+        throw new Error('Salary component not found');
+      }
+
+      this.assertValidSalaryComponents(catalogue.filter((component) => component.id !== componentId));
+      await adminDb.collection('salary-components').doc(componentId).delete();
+    } catch (error) {
+      console.error('[PayrollAdminService] Error deleting salary component:', error);
+      throw error;
+    }
+  },
+
   // ============================================================================
   // SALARY CALCULATION
   // ============================================================================
 
   /**
    * Evaluate a custom salary formula
-   * All attendance variables and Excel-like functions are passed to the formula scope.
+   * All attendance variables and Excel-like functions are available in the formula scope.
+   * Invalid formulas fall back to the whiteboard formula.
    */
   evaluateSalaryFormula(
     formula: string,
@@ -76,117 +325,15 @@ export const payrollAdminService = {
       holidays: number;
       approvedLeave: number;
       unapprovedLeave: number;
+      overtimeHours: number;
+      overtimeMultiplier: number;
     }
   ): { breakup: SalaryBreakup; paidDays: number } {
     try {
-      const {
-        grossSalary,
-        totalDaysInMonth,
-        totalWorkingDays,
-        basicPercentage,
-        hraPercentage,
-        specialPercentage,
-        allowedPaidLeaves,
-        includePaidLeavesInPaidDays,
-        present,
-        wfh,
-        halfDay,
-        paidLeave,
-        leaveTaken,
-        unpaidLeave,
-        holidays,
-        approvedLeave,
-        unapprovedLeave,
-      } = variables;
-
-      // Backward compatibility: transform old formula format (with `const` declarations for parameters)
-      // to new format (plain assignment) to avoid SyntaxError
-      const paramNames = [
-        'grossSalary', 'totalDaysInMonth', 'totalWorkingDays', 'basicPercentage',
-        'hraPercentage', 'specialPercentage', 'allowedPaidLeaves', 'includePaidLeavesInPaidDays',
-        'present', 'wfh', 'halfDay', 'paidLeave', 'leaveTaken', 'unpaidLeave',
-        'holidays', 'approvedLeave', 'unapprovedLeave'
-      ];
-      let transformedFormula = formula;
-      paramNames.forEach(name => {
-        // Replace `const paramName = ` with `paramName = ` for backward compatibility
-        transformedFormula = transformedFormula.replace(
-          new RegExp(`\\bconst\\s+${name}\\s*=`, 'g'),
-          `${name} =`
-        );
-      });
-
-      // Make Excel functions available in the formula scope
-      const {
-        IF, IFS, AND, OR, NOT, IFERROR,
-        SUM, AVERAGE, MIN, MAX, COUNT, COUNTA, COUNTBLANK, PRODUCT,
-        ABS, ROUND, ROUNDUP, ROUNDDOWN, CEILING, FLOOR, MOD, INT, SQRT, POWER, RAND, RANDBETWEEN,
-        CONCAT, TEXTJOIN, LEFT, RIGHT, MID, LEN, TRIM, UPPER, LOWER, PROPER, REPLACE, SUBSTITUTE, FIND, SEARCH, TEXT,
-        TODAY, NOW, DATE, YEAR, MONTH, DAY, WEEKDAY, EDATE, DATEDIF, NETWORKDAYS, WORKDAY,
-        MEDIAN, MODE, LARGE, SMALL, RANK, PERCENTILE, STDEV, VAR,
-        SUMIF, SUMIFS, COUNTIF, COUNTIFS, AVERAGEIF, AVERAGEIFS,
-      } = FormulaFunctions;
-
-      // eslint-disable-next-line no-new-func
-      const evaluateFn = new Function(
-        'grossSalary',
-        'totalDaysInMonth',
-        'totalWorkingDays',
-        'basicPercentage',
-        'hraPercentage',
-        'specialPercentage',
-        'allowedPaidLeaves',
-        'includePaidLeavesInPaidDays',
-        'present',
-        'wfh',
-        'halfDay',
-        'paidLeave',
-        'leaveTaken',
-        'unpaidLeave',
-        'holidays',
-        'approvedLeave',
-        'unapprovedLeave',
-        'IF', 'IFS', 'AND', 'OR', 'NOT', 'IFERROR',
-        'SUM', 'AVERAGE', 'MIN', 'MAX', 'COUNT', 'COUNTA', 'COUNTBLANK', 'PRODUCT',
-        'ABS', 'ROUND', 'ROUNDUP', 'ROUNDDOWN', 'CEILING', 'FLOOR', 'MOD', 'INT', 'SQRT', 'POWER', 'RAND', 'RANDBETWEEN',
-        'CONCAT', 'TEXTJOIN', 'LEFT', 'RIGHT', 'MID', 'LEN', 'TRIM', 'UPPER', 'LOWER', 'PROPER', 'REPLACE', 'SUBSTITUTE', 'FIND', 'SEARCH', 'TEXT',
-        'TODAY', 'NOW', 'DATE', 'YEAR', 'MONTH', 'DAY', 'WEEKDAY', 'EDATE', 'DATEDIF', 'NETWORKDAYS', 'WORKDAY',
-        'MEDIAN', 'MODE', 'LARGE', 'SMALL', 'RANK', 'PERCENTILE', 'STDEV', 'VAR',
-        'SUMIF', 'SUMIFS', 'COUNTIF', 'COUNTIFS', 'AVERAGEIF', 'AVERAGEIFS',
-        formula
-      );
-
-      const result = evaluateFn(
-        grossSalary,
-        totalDaysInMonth,
-        totalWorkingDays,
-        basicPercentage,
-        hraPercentage,
-        specialPercentage,
-        allowedPaidLeaves,
-        includePaidLeavesInPaidDays,
-        present,
-        wfh,
-        halfDay,
-        paidLeave,
-        leaveTaken,
-        unpaidLeave,
-        holidays,
-        approvedLeave,
-        unapprovedLeave,
-        IF, IFS, AND, OR, NOT, IFERROR,
-        SUM, AVERAGE, MIN, MAX, COUNT, COUNTA, COUNTBLANK, PRODUCT,
-        ABS, ROUND, ROUNDUP, ROUNDDOWN, CEILING, FLOOR, MOD, INT, SQRT, POWER, RAND, RANDBETWEEN,
-        CONCAT, TEXTJOIN, LEFT, RIGHT, MID, LEN, TRIM, UPPER, LOWER, PROPER, REPLACE, SUBSTITUTE, FIND, SEARCH, TEXT,
-        TODAY, NOW, DATE, YEAR, MONTH, DAY, WEEKDAY, EDATE, DATEDIF, NETWORKDAYS, WORKDAY,
-        MEDIAN, MODE, LARGE, SMALL, RANK, PERCENTILE, STDEV, VAR,
-        SUMIF, SUMIFS, COUNTIF, COUNTIFS, AVERAGEIF, AVERAGEIFS
-      );
-
-      // Validate the result
-      if (!result || typeof result !== 'object') {
-        throw new Error('Formula must return an object');
-      }
+      // Formulas are parsed and interpreted in a closed scope: only these
+      // variables and the formula-functions library are reachable.
+      // Older formulas declared parameters with `const`, which the language accepts.
+      const result = evaluateFormula(formula, variables, SALARY_FORMULA_VARIABLES);
 
       const {
         basic = 0,
@@ -196,11 +343,12 @@ export const payrollAdminService = {
         netSalary = 0,
         paidDays = 0,
         leaveDeduction = 0,
+        overtime,
       } = result;
 
       // Calculate paidDays from the formula result or fallback
       // Paid Days = 26 - unpaidLeave - (halfDay * 0.5)  (whiteboard formula)
-      const { halfDay: hd = 0 } = variables;
+      const { halfDay: hd = 0, unpaidLeave = 0 } = variables;
       const computedPaidDays = paidDays || Math.max(0, 26 - unpaidLeave - (hd * 0.5));
 
       return {
@@ -211,11 +359,17 @@ export const payrollAdminService = {
           totalDeductions: Number(totalDeductions) || 0,
           netSalary: Number(netSalary) || 0,
           leaveDeduction: Number(leaveDeduction) || 0,
+          // Overtime pay when the formula prices it; added to net pay by calculateSalary
+          ...(overtime !== undefined ? { overtime: Number(overtime) || 0 } : {}),
         },
         paidDays: computedPaidDays,
       };
     } catch (error) {
-      console.error('[PayrollAdminService] Error evaluating formula:', error);
+      if (error instanceof FormulaError) {
+        console.error('[PayrollAdminService] Salary formula is invalid:\n' + error.message);
+      } else {
+        console.error('[PayrollAdminService] Error evaluating formula:', error);
+      }
       // Fallback to whiteboard formula: Net Salary = Gross Salary - (Gross Salary × Unpaid Leaves) / 26
       const { present = 0, wfh = 0, halfDay = 0, leaveTaken = 0, unpaidLeave = 0, holidays = 0, totalDaysInMonth: tdim = 30 } = variables;
       const fallbackPaidDays = Math.max(0, 26 - unpaidLeave - (halfDay * 0.5));
@@ -234,248 +388,1593 @@ export const payrollAdminService = {
           netSalary,
           leaveDeduction,
         },
-        paidDays: fallbackPaidDays,
-      };
+        paidDays: fallbackPaidDays,
+      };
+    }
+  },
+
+  /**
+   * Calculate salary for an employee for a given month/year
+   */
+  async calculateSalary(
+    employeeId: string,
+    month: number,
+    year: number
+  ): Promise<SalaryCalculationResult> {
+    try {
+      // Get payroll settings
+      const settings = await this.getSettings();
+      if (!settings) {
+        throw new Error('Payroll settings not configured');
+      }
+
+      // Get employee data
+      const employeeDoc = await adminDb.collection('users').doc(employeeId).get();
+      if (!employeeDoc.exists) {
+        throw new Error('Employee not found');
+      }
+      const employee = employeeDoc.data()!;
+
+      // Gross for the month, pro-rated by day when a revision took effect mid-month
+      const revisions = await this.getSalaryRevisions(employeeId);
+      const { grossSalary, segments } = getMonthlyGross(revisions, employee.grossSalary || 0, month, year);
+
+      // Calculate total days in month
+      const totalDaysInMonth = new Date(year, month + 1, 0).getDate();
+
+      // Fetch attendance records for the month, with night shifts clocked
+      // into on a neighbouring month's day
+      const monthWindow = getAttendanceMonthWindow(month, year);
+      const attendanceSnapshot = await adminDb
+        .collection('attendance-records')
+        .where('employeeId', '==', employeeId)
+        .where('clockIn', '>=', Timestamp.fromDate(monthWindow.start))
+        .where('clockIn', '<=', Timestamp.fromDate(monthWindow.end))
+        .get();
+
+      // Fetch approved leave requests (filtered to the month when classifying days)
+      const leaveSnapshot = await adminDb
+        .collection('leave-requests')
+        .where('employeeId', '==', employeeId)
+        .where('status', '==', 'approved')
+        .get();
+
+      // The holidays the employee observes under their holiday calendar
+      const { holidays } = await holidayCalendarAdminService.getEmployeeHolidays(employeeId);
+
+      // Classify each day of the month under the employee's attendance policy,
+      // exactly as the attendance register does
+      const resolvePolicy = await attendancePolicyAdminService.getResolver();
+      const { counts } = classifyAttendanceMonth(
+        {
+          records: getMonthRecords(
+            attendanceSnapshot.docs.map((doc) => doc.data() as RegisterRecord),
+            month,
+            year
+          ),
+          leaves: leaveSnapshot.docs
+            .map((doc) => doc.data() as RegisterLeave)
+            .filter((leave) => leave.startDate && leave.endDate),
+          holidays: holidays.map((holiday) => holiday.date),
+        },
+        month,
+        year,
+        { policyFor: (date) => resolvePolicy(employeeId, date) }
+      );
+      const { present, wfh, approvedLeave, unapprovedLeave, halfDay, holiday } = counts;
+
+      // Calculate leave metrics
+      const leaveTaken = approvedLeave + unapprovedLeave;
+      const paidLeave = Math.min(leaveTaken, settings.allowedPaidLeaves);
+      const unpaidLeave = Math.max(0, leaveTaken - paidLeave);
+      const totalWorkingDays = totalDaysInMonth - holiday;
+
+      // ── Salary Formula ─────────────────────────────────────────────
+      // All variables are passed to the formula scope.
+      // The formula can compute paidDays and return it in the result object.
+
+      // The month's formula version; with no version in effect (none saved yet,
+      // or a month before all of them), the settings formula
+      const formulaVersions = await this.getFormulaVersions();
+      const formulaVersion = getEffectiveFormulaVersion(formulaVersions, month, year);
+      const salaryFormula = formulaVersion ? formulaVersion.formula : settings.salaryFormula;
+
+      // Overtime hours approved for the month and the multiplier they are paid at
+      const overtime = await this.getApprovedOvertime(employeeId, month, year);
+
+      // Calculate salary breakup
+      let salaryBreakup: SalaryBreakup;
+      let computedPaidDays: number;
+
+      if (salaryFormula) {
+        // Use custom formula — all variables available in formula scope
+        const result = this.evaluateSalaryFormula(
+          salaryFormula,
+          {
+            grossSalary,
+            totalDaysInMonth,
+            totalWorkingDays,
+            basicPercentage: settings.basicPercentage,
+            hraPercentage: settings.hraPercentage,
+            specialPercentage: settings.specialPercentage,
+            allowedPaidLeaves: settings.allowedPaidLeaves,
+            includePaidLeavesInPaidDays: settings.includePaidLeavesInPaidDays ?? false,
+            present,
+            wfh,
+            halfDay,
+            paidLeave,
+            leaveTaken,
+            unpaidLeave,
+            holidays: holiday,
+            approvedLeave,
+            unapprovedLeave,
+            overtimeHours: overtime.hours,
+            overtimeMultiplier: overtime.multiplier,
+          }
+        );
+        salaryBreakup = result.breakup;
+        computedPaidDays = result.paidDays;
+      } else {
+        // Whiteboard formula: Net Salary = Gross Salary - (Gross Salary × Unpaid Leaves) / 26
+        // Denominator is always 26, paid days = 26 - unpaidLeave
+        computedPaidDays = Math.max(0, 26 - unpaidLeave - (halfDay * 0.5));
+        const leaveDeduction = (grossSalary * unpaidLeave) / 26;
+        const netSalary = grossSalary - leaveDeduction;
+        const basic = grossSalary * (settings.basicPercentage / 100);
+        const hra = grossSalary * (settings.hraPercentage / 100);
+        const special = grossSalary * (settings.specialPercentage / 100);
+
+        salaryBreakup = {
+          basic,
+          hra,
+          special,
+          totalDeductions: leaveDeduction,
+          netSalary,
+          leaveDeduction,
+        };
+      }
+
+      // ── Overtime ───────────────────────────────────────────────────
+      // A formula can price approved hours by returning `overtime`; otherwise
+      // they are paid at the multiplier on the hourly rate. Applied before
+      // statutory deductions so ESI wages include it.
+      const { overtime: formulaOvertime, ...formulaBreakup } = salaryBreakup;
+      const overtimePay = formulaOvertime !== undefined
+        ? Math.round(formulaOvertime)
+        : calculateOvertimePay(grossSalary, overtime.hours, overtime.multiplier);
+      salaryBreakup = overtimePay > 0 ? applyOvertime(formulaBreakup, overtimePay) : formulaBreakup;
+
+      // ── Salary Components ──────────────────────────────────────────
+      // Catalogue earnings and deductions in the employee's salary structure.
+      // Applied before statutory deductions so ESI wages include them.
+      const structure: EmployeeSalaryComponent[] = employee.salaryComponents ?? [];
+      if (structure.length > 0) {
+        const lines = calculateComponentLines({
+          catalogue: await this.getSalaryComponents(),
+          structure,
+          breakup: salaryBreakup,
+          grossSalary,
+          paidDays: computedPaidDays,
+          totalDaysInMonth,
+        });
+        salaryBreakup = applySalaryComponents(salaryBreakup, lines);
+      }
+
+      // ── Arrears ────────────────────────────────────────────────────
+      // Back pay owed on earlier slips by backdated salary revisions.
+      // Added before statutory deductions: arrears are PF and ESI wages.
+      const arrearsPayments = await this.getPendingArrears(employeeId, month, year);
+      if (arrearsPayments.length > 0) {
+        salaryBreakup = applyArrears(
+          salaryBreakup,
+          arrearsPayments.reduce((sum, payment) => sum + payment.amount, 0)
+        );
+      }
+
+      // ── Statutory Deductions ───────────────────────────────────────
+      // EPF / ESI / PT are applied after the formula so they stay correct
+      // regardless of how the formula splits earnings.
+      let statutory: StatutoryBreakdown | undefined;
+      if (settings.statutory && employee.statutoryDeductions !== false) {
+        let esiCoverageGross = grossSalary;
+        if (settings.statutory.esi.enabled) {
+          esiCoverageGross = await this.getEsiCoverageGross(employeeId, month, year, grossSalary);
+        }
+
+        statutory = calculateStatutoryDeductions({
+          settings: settings.statutory,
+          breakup: salaryBreakup,
+          month,
+          ptState: employee.ptState,
+          esiCoverageGross,
+        });
+        salaryBreakup = applyStatutoryDeductions(salaryBreakup, statutory);
+      }
+
+      // ── Reimbursements ─────────────────────────────────────────────
+      // Approved expense claims not yet paid, added to net pay only.
+      const reimbursableClaims = await this.getReimbursableClaims(employeeId);
+      if (reimbursableClaims.length > 0) {
+        salaryBreakup = applyReimbursement(
+          salaryBreakup,
+          reimbursableClaims.reduce((sum, claim) => sum + claim.totalAmount, 0)
+        );
+      }
+
+      // ── Loan Recovery ──────────────────────────────────────────────
+      // EMIs due this month from the employee's active loans and advances,
+      // never more than the net pay left; any shortfall stays outstanding.
+      const loanRecoveries = capLoanRecoveries(
+        await this.getDueLoanRecoveries(employeeId, month, year),
+        salaryBreakup.netSalary
+      );
+      if (loanRecoveries.length > 0) {
+        salaryBreakup = applyLoanRecoveries(salaryBreakup, loanRecoveries);
+      }
+
+      // ── TDS ────────────────────────────────────────────────────────
+      // Runs last so the projection sees EPF and PT for the month.
+      let tdsProjection: TdsProjection | undefined;
+      if (settings.tdsEnabled) {
+        tdsProjection = await this.projectMonthlyTds(employeeId, month, year, salaryBreakup);
+        salaryBreakup = applyTds(salaryBreakup, tdsProjection.monthlyTds);
+      }
+
+      const attendanceBreakdown: AttendanceBreakdown = {
+        present,
+        wfh,
+        approvedLeave,
+        unapprovedLeave,
+        halfDay,
+        holiday,
+        paidLeave,
+        leaveTaken,
+        unpaidLeave,
+        paidDays: computedPaidDays,
+        ...(overtime.hours > 0 ? { overtimeHours: overtime.hours } : {}),
+      };
+
+      return {
+        attendanceBreakdown,
+        salaryBreakup,
+        totalDaysInMonth,
+        paidDays: computedPaidDays,
+        ...(statutory ? { statutory } : {}),
+        ...(tdsProjection ? { tdsProjection } : {}),
+        ...(loanRecoveries.length > 0 ? { loanRecoveries } : {}),
+        grossSalary,
+        ...(segments.length > 1 ? { salarySegments: segments } : {}),
+        ...(arrearsPayments.length > 0 ? { arrearsPayments } : {}),
+        formulaVersionId: formulaVersion?.id ?? null,
+        ...(reimbursableClaims.length > 0 ? { reimbursedClaimIds: reimbursableClaims.map((claim) => claim.id!) } : {}),
+      };
+    } catch (error) {
+      console.error('[PayrollAdminService] Error calculating salary:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Gross salary that decides ESI coverage for the month.
+   * Uses the gross on the slip from the first month of the contribution
+   * period (Apr–Sep / Oct–Mar), falling back to the current gross.
+   */
+  async getEsiCoverageGross(
+    employeeId: string,
+    month: number,
+    year: number,
+    currentGross: number
+  ): Promise<number> {
+    try {
+      const periodStart = getEsiContributionPeriodStart(month, year);
+      if (periodStart.month === month && periodStart.year === year) {
+        return currentGross;
+      }
+
+      const snapshot = await adminDb
+        .collection('salary-slips')
+        .where('employeeId', '==', employeeId)
+        .where('month', '==', periodStart.month)
+        .where('year', '==', periodStart.year)
+        .limit(1)
+        .get();
+
+      if (snapshot.empty) return currentGross;
+      return snapshot.docs[0].data().grossSalary ?? currentGross;
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting ESI coverage gross:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // TAX DECLARATIONS & TDS
+  // ============================================================================
+
+  /**
+   * Get an employee's tax declaration for a financial year
+   */
+  async getTaxDeclaration(employeeId: string, financialYear: number): Promise<TaxDeclaration | null> {
+    try {
+      const doc = await adminDb.collection('tax-declarations').doc(`${employeeId}_${financialYear}`).get();
+      if (!doc.exists) return null;
+      return { id: doc.id, ...doc.data() } as TaxDeclaration;
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting tax declaration:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get all tax declarations for a financial year
+   */
+  async getTaxDeclarations(financialYear: number): Promise<TaxDeclaration[]> {
+    try {
+      const snapshot = await adminDb
+        .collection('tax-declarations')
+        .where('financialYear', '==', financialYear)
+        .get();
+      return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as TaxDeclaration[];
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting tax declarations:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create or update an employee's tax declaration (one document per employee per year)
+   */
+  async saveTaxDeclaration(
+    declaration: Omit<TaxDeclaration, 'id' | 'submittedAt' | 'updatedAt'>
+  ): Promise<TaxDeclaration> {
+    try {
+      const id = `${declaration.employeeId}_${declaration.financialYear}`;
+      const ref = adminDb.collection('tax-declarations').doc(id);
+      const existing = await ref.get();
+      const now = Timestamp.now();
+
+      await ref.set({
+        ...declaration,
+        submittedAt: existing.exists ? existing.data()!.submittedAt : now,
+        updatedAt: now,
+      });
+
+      const saved = await ref.get();
+      return { id, ...saved.data() } as TaxDeclaration;
+    } catch (error) {
+      console.error('[PayrollAdminService] Error saving tax declaration:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the proof window for a financial year (unlocked with no deadline by default)
+   */
+  async getTaxDeclarationWindow(financialYear: number): Promise<TaxDeclarationWindow> {
+    try {
+      const settings = await this.getSettings();
+      return settings?.taxDeclarationWindows?.[String(financialYear)] ?? { proofDeadline: null, locked: false };
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting tax declaration window:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Set the proof deadline and lock state for a financial year
+   */
+  async setTaxDeclarationWindow(
+    financialYear: number,
+    window: { proofDeadline: string | null; locked: boolean },
+    updatedBy: string
+  ): Promise<TaxDeclarationWindow> {
+    try {
+      const settings = await this.getSettings();
+      if (!settings?.id) {
+        throw new Error('Payroll settings not configured');
+      }
+
+      const value: TaxDeclarationWindow = {
+        proofDeadline: window.proofDeadline,
+        locked: window.locked,
+        ...(window.locked ? { lockedAt: Timestamp.now() as any, lockedBy: updatedBy } : {}),
+      };
+
+      await adminDb.collection('payroll-settings').doc(settings.id).update({
+        [`taxDeclarationWindows.${financialYear}`]: value,
+        updatedAt: Timestamp.now(),
+      });
+      return value;
+    } catch (error) {
+      console.error('[PayrollAdminService] Error setting tax declaration window:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Slips for an employee within a financial year, oldest first
+   */
+  async getFinancialYearSlips(employeeId: string, financialYear: number): Promise<EmployeeSalary[]> {
+    try {
+      const slips = await this.getSlips({ employeeId });
+      return slips
+        .filter((slip) => getFinancialYear(slip.month, slip.year) === financialYear)
+        .sort((a, b) => getFinancialYearMonthIndex(a.month) - getFinancialYearMonthIndex(b.month));
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting financial year slips:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * TDS for the month being calculated: slips before this month count as paid,
+   * this month's one-off earnings count once, and its recurring salary is
+   * projected over the rest of the year
+   */
+  async projectMonthlyTds(
+    employeeId: string,
+    month: number,
+    year: number,
+    breakup: SalaryBreakup
+  ): Promise<TdsProjection> {
+    try {
+      const financialYear = getFinancialYear(month, year);
+      const monthIndex = getFinancialYearMonthIndex(month);
+      const [slips, declaration] = await Promise.all([
+        this.getFinancialYearSlips(employeeId, financialYear),
+        this.getTaxDeclaration(employeeId, financialYear),
+      ]);
+      const paid = slips.filter((slip) => getFinancialYearMonthIndex(slip.month) < monthIndex);
+
+      return projectTds({
+        financialYear,
+        paid: paid.map((slip) => toTaxableMonth(slip.salaryBreakup)),
+        projectedMonth: toProjectedMonth(breakup),
+        monthsRemaining: getRemainingMonthsInFinancialYear(month),
+        declaration,
+        oneOffEarnings: getOneOffEarnings(breakup),
+      });
+    } catch (error) {
+      console.error('[PayrollAdminService] Error projecting monthly TDS:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Year-to-date projection worksheet: every generated slip counts as paid and
+   * the latest slip's recurring salary is projected over the months after it.
+   * With accessGrantedOnly, slips the employee cannot see yet are left out.
+   * Returns null when there are no slips in the year.
+   */
+  async getTdsProjection(
+    employeeId: string,
+    financialYear: number,
+    accessGrantedOnly = false
+  ): Promise<TdsProjection | null> {
+    try {
+      const [allSlips, declaration] = await Promise.all([
+        this.getFinancialYearSlips(employeeId, financialYear),
+        this.getTaxDeclaration(employeeId, financialYear),
+      ]);
+      const slips = accessGrantedOnly ? allSlips.filter((slip) => slip.accessGranted) : allSlips;
+      if (slips.length === 0) return null;
+
+      const latest = slips[slips.length - 1];
+      return projectTds({
+        financialYear,
+        paid: slips.map((slip) => toTaxableMonth(slip.salaryBreakup)),
+        projectedMonth: toProjectedMonth(latest.salaryBreakup),
+        monthsRemaining: getRemainingMonthsInFinancialYear(latest.month) - 1,
+        declaration,
+      });
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting TDS projection:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Annual salary statement (component totals and Form 16 Part B figures) for
+   * an employee's financial year. With accessGrantedOnly, slips the employee
+   * cannot see yet are left out. Returns null when there are no slips.
+   */
+  async getAnnualStatement(
+    employeeId: string,
+    financialYear: number,
+    accessGrantedOnly = false
+  ): Promise<AnnualSalaryStatement | null> {
+    try {
+      const [slips, declaration] = await Promise.all([
+        this.getFinancialYearSlips(employeeId, financialYear),
+        this.getTaxDeclaration(employeeId, financialYear),
+      ]);
+      const visible = accessGrantedOnly ? slips.filter((slip) => slip.accessGranted) : slips;
+      return buildAnnualStatement(financialYear, visible, declaration, new Date().toISOString());
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting annual statement:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Annual statements for every employee with slips in a financial year,
+   * ordered by employee code
+   */
+  async getAnnualStatements(financialYear: number): Promise<AnnualSalaryStatement[]> {
+    try {
+      const [startYearSlips, endYearSlips, declarations] = await Promise.all([
+        this.getSlips({ year: financialYear }),
+        this.getSlips({ year: financialYear + 1 }),
+        this.getTaxDeclarations(financialYear),
+      ]);
+
+      const slipsByEmployee = new Map<string, EmployeeSalary[]>();
+      for (const slip of [...startYearSlips, ...endYearSlips]) {
+        if (getFinancialYear(slip.month, slip.year) !== financialYear) continue;
+        slipsByEmployee.set(slip.employeeId, [...(slipsByEmployee.get(slip.employeeId) ?? []), slip]);
+      }
+      const declarationByEmployee = new Map(declarations.map((declaration) => [declaration.employeeId, declaration]));
+
+      const generatedAt = new Date().toISOString();
+      return Array.from(slipsByEmployee.entries())
+        .map(([employeeId, slips]) =>
+          buildAnnualStatement(financialYear, slips, declarationByEmployee.get(employeeId) ?? null, generatedAt)
+        )
+        .filter((statement): statement is AnnualSalaryStatement => statement !== null)
+        .sort((a, b) => a.employeeCode.localeCompare(b.employeeCode));
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting annual statements:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // LOANS & ADVANCES
+  // ============================================================================
+
+  /**
+   * Get loans, optionally for one employee and/or status, newest first
+   */
+  async getLoans(filters: { employeeId?: string; status?: LoanStatus } = {}): Promise<EmployeeLoan[]> {
+    try {
+      let query: FirebaseFirestore.Query = adminDb.collection('employee-loans');
+      if (filters.employeeId) {
+        query = query.where('employeeId', '==', filters.employeeId);
+      }
+      if (filters.status) {
+        query = query.where('status', '==', filters.status);
+      }
+
+      const snapshot = await query.get();
+      const loans = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as EmployeeLoan[];
+      return loans.sort(
+        (a, b) => comparePeriods({ month: b.startMonth, year: b.startYear }, { month: a.startMonth, year: a.startYear })
+      );
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting loans:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get a loan by ID
+   */
+  async getLoanById(loanId: string): Promise<EmployeeLoan | null> {
+    try {
+      const doc = await adminDb.collection('employee-loans').doc(loanId).get();
+      if (!doc.exists) return null;
+      return { id: doc.id, ...doc.data() } as EmployeeLoan;
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting loan:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Sanction a loan or advance. The EMI is calculated from the tenure unless
+   * given, and the disbursement opens the loan's ledger.
+   */
+  async sanctionLoan(
+    input: {
+      employeeId: string;
+      type: LoanType;
+      principal: number;
+      interestRate: number;
+      tenureMonths: number;
+      emiAmount?: number;
+      startMonth: number;
+      startYear: number;
+      note?: string;
+    },
+    sanctionedBy: string
+  ): Promise<EmployeeLoan> {
+    try {
+      const employeeDoc = await adminDb.collection('users').doc(input.employeeId).get();
+      if (!employeeDoc.exists) {
+        throw new Error('Employee not found');
+      }
+      const employee = employeeDoc.data()!;
+
+      const ref = adminDb.collection('employee-loans').doc();
+      const now = Timestamp.now();
+      const loan: Omit<EmployeeLoan, 'id'> = {
+        employeeId: input.employeeId,
+        employeeName: employee.displayName || employee.name || '',
+        type: input.type,
+        principal: input.principal,
+        interestRate: input.interestRate,
+        tenureMonths: input.tenureMonths,
+        emiAmount: input.emiAmount || calculateEmi(input.principal, input.interestRate, input.tenureMonths),
+        startMonth: input.startMonth,
+        startYear: input.startYear,
+        status: 'active',
+        paused: false,
+        skippedMonths: [],
+        transactions: [
+          {
+            id: newLoanTransactionId(),
+            type: 'disbursement',
+            amount: input.principal,
+            principal: input.principal,
+            interest: 0,
+            createdAt: now.toDate().toISOString(),
+            createdBy: sanctionedBy,
+            ...(input.note ? { note: input.note } : {}),
+          },
+        ],
+        ...(input.note ? { note: input.note } : {}),
+        sanctionedBy,
+        createdAt: now as any,
+        updatedAt: now as any,
+      };
+
+      await ref.set(loan);
+      return { id: ref.id, ...loan };
+    } catch (error) {
+      console.error('[PayrollAdminService] Error sanctioning loan:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Pause or resume EMI recovery on a loan
+   */
+  async setLoanPaused(loanId: string, paused: boolean): Promise<void> {
+    try {
+      await adminDb.collection('employee-loans').doc(loanId).update({
+        paused,
+        updatedAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error('[PayrollAdminService] Error pausing loan:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Skip the EMI for one month; the balance carries over so the schedule
+   * runs one month longer
+   */
+  async skipLoanEmi(loan: EmployeeLoan, month: number, year: number): Promise<void> {
+    try {
+      const skippedMonths = [...loan.skippedMonths, { month, year }]
+        .sort(comparePeriods);
+      await adminDb.collection('employee-loans').doc(loan.id!).update({
+        skippedMonths,
+        updatedAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error('[PayrollAdminService] Error skipping loan EMI:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Record a payment outside payroll. 'prepayment' reduces the balance and
+   * shortens the schedule; 'settlement' clears whatever is outstanding.
+   * The loan closes once nothing is owed.
+   */
+  async recordLoanPayment(
+    loan: EmployeeLoan,
+    payment: { type: 'prepayment' | 'settlement'; amount: number; note?: string },
+    recordedBy: string
+  ): Promise<EmployeeLoan> {
+    try {
+      const now = Timestamp.now();
+      const ref = adminDb.collection('employee-loans').doc(loan.id!);
+      const transactions = [
+        ...loan.transactions,
+        {
+          id: newLoanTransactionId(),
+          type: payment.type,
+          amount: payment.amount,
+          principal: payment.amount,
+          interest: 0,
+          createdAt: now.toDate().toISOString(),
+          createdBy: recordedBy,
+          ...(payment.note ? { note: payment.note } : {}),
+        },
+      ];
+      const closed = getOutstandingPrincipal({ ...loan, transactions }) <= 0;
+
+      const changes = {
+        transactions,
+        updatedAt: now,
+        ...(closed ? { status: 'closed' as const, closedAt: now } : {}),
+      };
+      await ref.update(changes);
+      return { ...loan, ...changes } as EmployeeLoan;
+    } catch (error) {
+      console.error('[PayrollAdminService] Error recording loan payment:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Total principal an employee still owes across active loans
+   */
+  async getOutstandingLoanBalance(employeeId: string): Promise<number> {
+    try {
+      const loans = await this.getLoans({ employeeId, status: 'active' });
+      return loans.reduce((sum, loan) => sum + getOutstandingPrincipal(loan), 0);
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting outstanding loan balance:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Settle every active loan for an employee (full & final settlement).
+   * Returns the total recovered.
+   */
+  async settleEmployeeLoans(employeeId: string, note: string, settledBy: string): Promise<number> {
+    try {
+      const loans = await this.getLoans({ employeeId, status: 'active' });
+      let total = 0;
+      for (const loan of loans) {
+        const outstanding = getOutstandingPrincipal(loan);
+        if (outstanding <= 0) continue;
+        await this.recordLoanPayment(loan, { type: 'settlement', amount: outstanding, note }, settledBy);
+        total += outstanding;
+      }
+      return total;
+    } catch (error) {
+      console.error('[PayrollAdminService] Error settling employee loans:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * EMIs due from an employee's active loans for a payroll month
+   */
+  async getDueLoanRecoveries(employeeId: string, month: number, year: number): Promise<LoanRecovery[]> {
+    try {
+      const loans = await this.getLoans({ employeeId, status: 'active' });
+      return loans
+        .map((loan) => getDueEmi(loan, month, year))
+        .filter((recovery): recovery is LoanRecovery => recovery !== null);
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting due loan recoveries:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Record EMIs recovered through a generated slip on each loan's ledger,
+   * at the amounts actually recovered, closing loans that are fully repaid
+   */
+  async recordLoanRecoveries(
+    slipId: string,
+    month: number,
+    year: number,
+    recoveries: LoanRecovery[],
+    recordedBy: string
+  ): Promise<void> {
+    try {
+      const now = Timestamp.now();
+      for (const recovery of recoveries) {
+        const loan = await this.getLoanById(recovery.loanId);
+        if (!loan) continue;
+
+        const ref = adminDb.collection('employee-loans').doc(recovery.loanId);
+        const transactions = [
+          ...loan.transactions,
+          {
+            id: newLoanTransactionId(),
+            type: 'emi' as const,
+            amount: recovery.amount,
+            principal: recovery.principal,
+            interest: recovery.interest,
+            month,
+            year,
+            slipId,
+            createdAt: now.toDate().toISOString(),
+            createdBy: recordedBy,
+          },
+        ];
+        const closed = getOutstandingPrincipal({ ...loan, transactions }) <= 0;
+
+        await ref.update({
+          transactions,
+          updatedAt: now,
+          ...(closed ? { status: 'closed', closedAt: now } : {}),
+        });
+      }
+    } catch (error) {
+      console.error('[PayrollAdminService] Error recording loan recoveries:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove EMIs recovered through the given slips (used when slips are
+   * deleted) and reopen loans that were closed by them
+   */
+  async reverseLoanRecoveries(employeeId: string, slipIds: string[]): Promise<void> {
+    try {
+      const slipIdSet = new Set(slipIds);
+      const loans = await this.getLoans({ employeeId });
+
+      for (const loan of loans) {
+        const transactions = loan.transactions.filter(
+          (tx) => !(tx.type === 'emi' && tx.slipId && slipIdSet.has(tx.slipId))
+        );
+        if (transactions.length === loan.transactions.length) continue;
+
+        const reopen = loan.status === 'closed' && getOutstandingPrincipal({ ...loan, transactions }) > 0;
+        await adminDb.collection('employee-loans').doc(loan.id!).update({
+          transactions,
+          updatedAt: Timestamp.now(),
+          ...(reopen ? { status: 'active', closedAt: FieldValue.delete() } : {}),
+        });
+      }
+    } catch (error) {
+      console.error('[PayrollAdminService] Error reversing loan recoveries:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // SALARY REVISIONS
+  // ============================================================================
+
+  /**
+   * Get an employee's salary revisions, oldest first
+   */
+  async getSalaryRevisions(employeeId: string): Promise<SalaryRevision[]> {
+    try {
+      const snapshot = await adminDb
+        .collection('salary-revisions')
+        .where('employeeId', '==', employeeId)
+        .get();
+
+      const revisions = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as SalaryRevision[];
+      return revisions.sort(
+        (a, b) =>
+          a.effectiveDate.localeCompare(b.effectiveDate) ||
+          (a.createdAt?.toMillis?.() ?? 0) - (b.createdAt?.toMillis?.() ?? 0)
+      );
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting salary revisions:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Record a salary revision. Arrears are worked out for slips already
+   * generated from the effective month on, and the employee's gross is
+   * brought in line with the revision in force today.
+   */
+  async createSalaryRevision(
+    input: { employeeId: string; effectiveDate: string; grossSalary: number; reason: string },
+    createdBy: string
+  ): Promise<SalaryRevision> {
+    try {
+      const employeeRef = adminDb.collection('users').doc(input.employeeId);
+      const employeeDoc = await employeeRef.get();
+      if (!employeeDoc.exists) {
+        throw new Error('Employee not found');
+      }
+      const fallbackGross = employeeDoc.data()!.grossSalary || 0;
+
+      const existing = await this.getSalaryRevisions(input.employeeId);
+      const previousGrossSalary = getGrossOn(existing, fallbackGross, input.effectiveDate);
+      if (previousGrossSalary === input.grossSalary) {
+        throw new ApiError(400, `Gross salary is already ${input.grossSalary} on ${input.effectiveDate}`);
+      }
+
+      const ref = adminDb.collection('salary-revisions').doc();
+      const revision: Omit<SalaryRevision, 'id'> = {
+        employeeId: input.employeeId,
+        effectiveDate: input.effectiveDate,
+        grossSalary: input.grossSalary,
+        previousGrossSalary,
+        reason: input.reason,
+        arrears: [],
+        arrearsPaidIn: null,
+        createdBy,
+      };
+      const revisions = [...existing, { id: ref.id, ...revision }];
+
+      const [effectiveYear, effectiveMonth] = input.effectiveDate.split('-').map(Number);
+      const paidSlips = (await this.getSlips({ employeeId: input.employeeId })).filter(
+        (slip) => comparePeriods(slip, { month: effectiveMonth - 1, year: effectiveYear }) >= 0
+      );
+      revision.arrears = calculateArrears(paidSlips, existing, revisions, fallbackGross);
+      if (revision.arrears.some((line) => line.amount < 0)) {
+        throw new ApiError(400, 'A salary reduction cannot be backdated into months that already have salary slips');
+      }
+
+      const createdAt = Timestamp.now();
+      await ref.set({ ...revision, createdAt });
+
+      const today = new Date();
+      const currentGross = getGrossOn(revisions, fallbackGross, toDateKey(today.getFullYear(), today.getMonth(), today.getDate()));
+      if (currentGross !== fallbackGross) {
+        await employeeRef.update({ grossSalary: currentGross, updatedAt: createdAt });
+      }
+
+      return { id: ref.id, ...revision, createdAt: createdAt as any };
+    } catch (error) {
+      console.error('[PayrollAdminService] Error creating salary revision:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Unpaid arrears per revision, to be paid in a payroll month. Lines for the
+   * month itself and for slips that were deleted since are left out.
+   */
+  async getPendingArrears(employeeId: string, month: number, year: number): Promise<ArrearsPayment[]> {
+    try {
+      const pending = (await this.getSalaryRevisions(employeeId)).filter(
+        (revision) => !revision.arrearsPaidIn && revision.arrears?.length
+      );
+      if (pending.length === 0) return [];
+
+      const slipIds = [...new Set(pending.flatMap((revision) => revision.arrears.map((line) => line.slipId)))];
+      const slipDocs = await adminDb.getAll(...slipIds.map((id) => adminDb.collection('salary-slips').doc(id)));
+      const existingSlips = new Set(slipDocs.filter((doc) => doc.exists).map((doc) => doc.id));
+
+      return pending
+        .map((revision) => ({
+          revisionId: revision.id!,
+          amount: revision.arrears
+            .filter((line) => existingSlips.has(line.slipId) && !(line.month === month && line.year === year))
+            .reduce((sum, line) => sum + line.amount, 0),
+        }))
+        .filter((payment) => payment.amount !== 0);
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting pending arrears:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Mark revision arrears as paid through a generated slip
+   */
+  async recordArrearsPayments(
+    slipId: string,
+    month: number,
+    year: number,
+    payments: ArrearsPayment[]
+  ): Promise<void> {
+    try {
+      const batch = adminDb.batch();
+      for (const payment of payments) {
+        batch.update(adminDb.collection('salary-revisions').doc(payment.revisionId), {
+          arrearsPaidIn: { month, year, slipId },
+        });
+      }
+      await batch.commit();
+    } catch (error) {
+      console.error('[PayrollAdminService] Error recording arrears payments:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Mark arrears paid through the given slips as unpaid again (used when
+   * slips are deleted)
+   */
+  async reverseArrearsPayments(slipIds: string[]): Promise<void> {
+    try {
+      // Firestore 'in' queries take at most 30 values
+      for (let i = 0; i < slipIds.length; i += 30) {
+        const snapshot = await adminDb
+          .collection('salary-revisions')
+          .where('arrearsPaidIn.slipId', 'in', slipIds.slice(i, i + 30))
+          .get();
+        for (const doc of snapshot.docs) {
+          await doc.ref.update({ arrearsPaidIn: null });
+        }
+      }
+    } catch (error) {
+      console.error('[PayrollAdminService] Error reversing arrears payments:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // OVERTIME
+  // ============================================================================
+
+  /**
+   * Overtime hours approved for an employee-month and their multiplier
+   */
+  async getApprovedOvertime(
+    employeeId: string,
+    month: number,
+    year: number
+  ): Promise<{ hours: number; multiplier: number }> {
+    try {
+      const doc = await adminDb.collection('overtime-claims').doc(getOvertimeClaimId(employeeId, month, year)).get();
+      return getApprovedOvertime(doc.exists ? (doc.data() as OvertimeClaim) : null);
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting approved overtime:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // EXPENSE REIMBURSEMENTS
+  // ============================================================================
+
+  /**
+   * Approved expense claims not yet reimbursed through a salary slip
+   */
+  async getReimbursableClaims(employeeId: string): Promise<ExpenseClaim[]> {
+    try {
+      const snapshot = await adminDb
+        .collection('expense-claims')
+        .where('employeeId', '==', employeeId)
+        .where('status', '==', 'approved')
+        .get();
+      const claims = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as ExpenseClaim);
+      return getUnpaidApprovedClaims(claims);
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting reimbursable claims:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Mark expense claims as paid through a generated slip
+   */
+  async recordReimbursements(slipId: string, month: number, year: number, claimIds: string[]): Promise<void> {
+    try {
+      const batch = adminDb.batch();
+      const now = new Date().toISOString();
+      for (const claimId of claimIds) {
+        batch.update(adminDb.collection('expense-claims').doc(claimId), {
+          status: 'paid',
+          paidIn: { month, year, slipId },
+          updatedAt: now,
+        });
+      }
+      await batch.commit();
+    } catch (error) {
+      console.error('[PayrollAdminService] Error recording reimbursements:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Return claims paid through the given slips to approved, so the next
+   * run pays them (used when slips are deleted)
+   */
+  async reverseReimbursements(slipIds: string[]): Promise<void> {
+    try {
+      const now = new Date().toISOString();
+      // Firestore 'in' queries take at most 30 values
+      for (let i = 0; i < slipIds.length; i += 30) {
+        const snapshot = await adminDb
+          .collection('expense-claims')
+          .where('paidIn.slipId', 'in', slipIds.slice(i, i + 30))
+          .get();
+        for (const doc of snapshot.docs) {
+          await doc.ref.update({ status: 'approved', paidIn: null, updatedAt: now });
+        }
+      }
+    } catch (error) {
+      console.error('[PayrollAdminService] Error reversing reimbursements:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // FULL & FINAL SETTLEMENT
+  // ============================================================================
+
+  /**
+   * Get the F&F settlement for a relieving letter
+   */
+  async getFnfSettlement(letterId: string): Promise<FnfSettlement | null> {
+    try {
+      const doc = await adminDb.collection('fnf-settlements').doc(letterId).get();
+      if (!doc.exists) return null;
+      return { id: doc.id, ...doc.data() } as FnfSettlement;
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting F&F settlement:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Compute (or recompute) the draft F&F settlement for a relieving letter.
+   * The leave balance is estimated from payroll unless given.
+   */
+  async computeFnfSettlement(
+    letterId: string,
+    input: {
+      noticePeriodDays: number;
+      noticeDaysServed: number;
+      leaveBalanceDays?: number;
+      otherEarnings?: number;
+      otherDeductions?: number;
+      remarks?: string;
+    },
+    computedBy: string
+  ): Promise<FnfSettlement> {
+    try {
+      const letterDoc = await adminDb.collection('relieving-letters').doc(letterId).get();
+      if (!letterDoc.exists) {
+        throw new Error('Letter not found');
+      }
+      const letter = letterDoc.data()!;
+
+      const existing = await this.getFnfSettlement(letterId);
+      if (existing?.status === 'settled') {
+        throw new ApiError(409, 'Full and final settlement is already settled');
+      }
+
+      const employeeId = await resolveEmployeeUid(letter.employeeId);
+      if (!employeeId) {
+        throw new Error('Employee not found');
+      }
+      const employee = (await adminDb.collection('users').doc(employeeId).get()).data()!;
+
+      const settings = await this.getSettings();
+      if (!settings) {
+        throw new Error('Payroll settings not configured');
+      }
+
+      const revisions = await this.getSalaryRevisions(employeeId);
+      const monthlyGross = getGrossOn(revisions, employee.grossSalary || 0, letter.dateOfLeaving);
+
+      const [leavingYear, leavingMonth] = letter.dateOfLeaving.split('-').map(Number);
+      const slips = await this.getSlips({ employeeId });
+      const finalMonthPaidBySlip = slips.some(
+        (slip) => slip.month === leavingMonth - 1 && slip.year === leavingYear
+      );
+
+      const leaveBalanceDays = input.leaveBalanceDays ?? estimateLeaveBalance({
+        allowedPaidLeaves: settings.allowedPaidLeaves,
+        dateOfJoining: letter.dateOfJoining,
+        dateOfLeaving: letter.dateOfLeaving,
+        slips,
+      });
+
+      const computation = computeFnf({
+        dateOfJoining: letter.dateOfJoining,
+        dateOfLeaving: letter.dateOfLeaving,
+        monthlyGross,
+        basicPercentage: settings.basicPercentage,
+        noticePeriodDays: input.noticePeriodDays,
+        noticeDaysServed: input.noticeDaysServed,
+        leaveBalanceDays,
+        outstandingLoan: await this.getOutstandingLoanBalance(employeeId),
+        finalMonthPaidBySlip,
+        otherEarnings: input.otherEarnings,
+        otherDeductions: input.otherDeductions,
+      });
+
+      const settlement: Omit<FnfSettlement, 'id'> = {
+        ...computation,
+        letterId,
+        letterNumber: letter.letterNumber,
+        employeeId,
+        employeeName: letter.employeeName,
+        employeeCode: employee.employeeId || employeeId,
+        designation: letter.employeeDesignation,
+        department: letter.employeeDepartment,
+        companyName: letter.companyName,
+        dateOfJoining: letter.dateOfJoining,
+        dateOfLeaving: letter.dateOfLeaving,
+        ...(input.remarks ? { remarks: input.remarks } : {}),
+        status: 'draft',
+        computedBy,
+        computedAt: new Date().toISOString(),
+        settledBy: null,
+        settledAt: null,
+      };
+
+      await adminDb.collection('fnf-settlements').doc(letterId).set(settlement);
+      return { id: letterId, ...settlement };
+    } catch (error) {
+      console.error('[PayrollAdminService] Error computing F&F settlement:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Mark a draft F&F settlement as settled, recovering outstanding loans
+   * against it. Fails if the loan balance has changed since it was computed.
+   */
+  async settleFnfSettlement(letterId: string, settledBy: string): Promise<FnfSettlement> {
+    try {
+      const settlement = await this.getFnfSettlement(letterId);
+      if (!settlement) {
+        throw new ApiError(409, 'Compute the full and final settlement before settling it');
+      }
+      if (settlement.status === 'settled') {
+        throw new ApiError(409, 'Full and final settlement is already settled');
+      }
+
+      const outstanding = Math.round(await this.getOutstandingLoanBalance(settlement.employeeId));
+      if (outstanding !== settlement.loanRecovery) {
+        throw new ApiError(409, 'Outstanding loans have changed since the settlement was computed. Recompute it first.');
+      }
+      if (outstanding > 0) {
+        await this.settleEmployeeLoans(
+          settlement.employeeId,
+          `Full & final settlement ${settlement.letterNumber}`,
+          settledBy
+        );
+      }
+
+      const settledAt = new Date().toISOString();
+      await adminDb.collection('fnf-settlements').doc(letterId).update({
+        status: 'settled',
+        settledBy,
+        settledAt,
+      });
+
+      await adminDb.collection('audit_logs').add({
+        action: 'fnf_settled',
+        performedBy: settledBy,
+        details: {
+          letterId,
+          letterNumber: settlement.letterNumber,
+          employeeId: settlement.employeeId,
+          netPayable: settlement.netPayable,
+          loanRecovery: settlement.loanRecovery,
+        },
+        timestamp: Timestamp.now(),
+      });
+
+      return { ...settlement, status: 'settled', settledBy, settledAt };
+    } catch (error) {
+      console.error('[PayrollAdminService] Error settling F&F settlement:', error);
+      throw error;
     }
   },
 
+  // ============================================================================
+  // PAYROLL PREVIEW (DRY RUN)
+  // ============================================================================
+
   /**
-   * Calculate salary for an employee for a given month/year
+   * Run calculateSalary for each employee without writing slips and diff the
+   * result against the previous month's saved slips
    */
-  async calculateSalary(
-    employeeId: string,
+  async previewRun(
+    employeeIds: string[],
     month: number,
-    year: number
-  ): Promise<SalaryCalculationResult> {
+    year: number,
+    netChangeThreshold: number = DEFAULT_NET_CHANGE_THRESHOLD
+  ): Promise<PayrollPreviewResult> {
     try {
-      // Get payroll settings
-      const settings = await this.getSettings();
-      if (!settings) {
-        throw new Error('Payroll settings not configured');
-      }
+      const previous = getPreviousPeriod(month, year);
+      const previousSlips = await this.getSlips({ month: previous.month, year: previous.year });
+      const previousByEmployee = new Map(previousSlips.map((slip) => [slip.employeeId, slip]));
 
-      // Get employee data
-      const employeeDoc = await adminDb.collection('users').doc(employeeId).get();
-      if (!employeeDoc.exists) {
-        throw new Error('Employee not found');
-      }
-      const employee = employeeDoc.data()!;
-      const grossSalary = employee.grossSalary || 0;
+      const rows: PayrollPreviewRow[] = [];
 
-      // Calculate total days in month
-      const totalDaysInMonth = new Date(year, month + 1, 0).getDate();
+      for (const employeeId of employeeIds) {
+        const employeeDoc = await adminDb.collection('users').doc(employeeId).get();
+        const employee = employeeDoc.data() || {};
+        const identity = {
+          employeeId,
+          name: employee.displayName || employee.name || employeeId,
+          employeeCode: employee.employeeId || employeeId,
+        };
+        const previousSlip = previousByEmployee.get(employeeId) ?? null;
 
-      // Get month start and end timestamps
-      const monthStart = new Date(year, month, 1);
-      const monthEnd = new Date(year, month, totalDaysInMonth, 23, 59, 59);
+        try {
+          const calculation = await this.calculateSalary(employeeId, month, year);
+          rows.push(buildPreviewRow(identity, calculation, previousSlip, netChangeThreshold));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Calculation failed';
+          rows.push(buildPreviewRow(identity, null, previousSlip, netChangeThreshold, message));
+        }
+      }
 
-      // Fetch attendance records for the month
-      const attendanceSnapshot = await adminDb
-        .collection('attendance-records')
-        .where('employeeId', '==', employeeId)
-        .where('clockIn', '>=', Timestamp.fromDate(monthStart))
-        .where('clockIn', '<=', Timestamp.fromDate(monthEnd))
-        .get();
+      return {
+        month,
+        year,
+        previousMonth: previous.month,
+        previousYear: previous.year,
+        netChangeThreshold,
+        rows,
+        totalNetSalary: rows.reduce((sum, row) => sum + (row.netSalary.current ?? 0), 0),
+        previousTotalNetSalary: rows.reduce((sum, row) => sum + (row.netSalary.previous ?? 0), 0),
+        flaggedCount: rows.filter((row) => row.flags.some(isOutlierFlag)).length,
+      };
+    } catch (error) {
+      console.error('[PayrollAdminService] Error running payroll preview:', error);
+      throw error;
+    }
+  },
 
-      // Fetch approved leave requests (filtered by month in the loop below)
-      const leaveSnapshot = await adminDb
-        .collection('leave-requests')
-        .where('employeeId', '==', employeeId)
-        .where('status', '==', 'approved')
-        .get();
+  // ============================================================================
+  // PAYROLL RUNS
+  // ============================================================================
 
-      // Fetch holidays for the month
-      const holidaysSnapshot = await adminDb
-        .collection('holidays')
-        .get();
+  /**
+   * Get a month's payroll run. Months without a run document are returned as
+   * a draft; draft totals always come from the current slips.
+   */
+  async getPayrollRun(month: number, year: number): Promise<PayrollRun> {
+    try {
+      const doc = await adminDb.collection('payroll-runs').doc(getPayrollRunId(month, year)).get();
+      const run = doc.exists ? ({ id: doc.id, ...doc.data() } as PayrollRun) : null;
+      if (run && run.status !== 'draft') {
+        return run;
+      }
 
-      // Build set of holiday dates
-      const holidayDates = new Set<string>();
-      holidaysSnapshot.forEach((doc) => {
-        const holidayDate = doc.data().date;
-        if (holidayDate) {
-          const d = holidayDate.toDate ? holidayDate.toDate() : new Date(holidayDate);
-          const dateStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-          holidayDates.add(dateStr);
-        }
-      });
+      const slips = await this.getSlips({ month, year });
+      return run ? { ...run, totals: summarizeSlips(slips) } : createDraftRun(month, year, slips);
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting payroll run:', error);
+      throw error;
+    }
+  },
 
-      // Build set of present dates from attendance
-      const presentDates = new Set<string>();
-      const wfhDates = new Set<string>(); // If WFH tracking exists
-      attendanceSnapshot.forEach((doc) => {
-        const record = doc.data();
-        if (record.clockIn) {
-          const clockIn = record.clockIn.toDate();
-          const dateStr = `${clockIn.getFullYear()}-${String(clockIn.getMonth() + 1).padStart(2, '0')}-${String(clockIn.getDate()).padStart(2, '0')}`;
-          presentDates.add(dateStr);
-        }
-      });
+  /**
+   * Get every payroll run that has left draft at least once, newest first
+   */
+  async getPayrollRuns(): Promise<PayrollRun[]> {
+    try {
+      const snapshot = await adminDb.collection('payroll-runs').get();
+      const runs = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as PayrollRun[];
+      return runs.sort((a, b) => (b.id ?? '').localeCompare(a.id ?? ''));
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting payroll runs:', error);
+      throw error;
+    }
+  },
 
-      // Build sets of approved full-day, half-day, and WFH leave dates (only within this month)
-      const leaveDates = new Set<string>();
-      const halfDayLeaveDates = new Set<string>();
-      leaveSnapshot.forEach((doc) => {
-        const leave = doc.data();
-        if (leave.startDate && leave.endDate) {
-          const isHalfDay = leave.halfDay === true || leave.leaveType === 'half-day';
-          const isWFH = leave.leaveType === 'wfh';
-          const targetSet = isWFH ? wfhDates : isHalfDay ? halfDayLeaveDates : leaveDates;
-          const start = leave.startDate.toDate ? leave.startDate.toDate() : new Date(leave.startDate);
-          const end = leave.endDate.toDate ? leave.endDate.toDate() : new Date(leave.endDate);
-          for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-            // Only include dates within the current month
-            if (d.getFullYear() === year && d.getMonth() === month) {
-              const dateStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-              targetSet.add(dateStr);
-            }
-          }
-        }
+  /**
+   * Move a payroll run to its next status (or re-open it), snapshotting totals
+   * from the month's slips. Every change is written to audit_logs together
+   * with the run.
+   */
+  async transitionPayrollRun(
+    month: number,
+    year: number,
+    action: PayrollRunAction,
+    performedBy: string,
+    reason?: string
+  ): Promise<PayrollRun> {
+    try {
+      const [run, slips, userDoc] = await Promise.all([
+        this.getPayrollRun(month, year),
+        this.getSlips({ month, year }),
+        adminDb.collection('users').doc(performedBy).get(),
+      ]);
+      const user = userDoc.data();
+      const actor = { uid: performedBy, name: user?.displayName || user?.name || user?.email || performedBy };
+
+      const next = transitionRun(run, action, slips, actor, new Date().toISOString(), reason);
+      const { id, ...data } = next;
+
+      const batch = adminDb.batch();
+      batch.set(adminDb.collection('payroll-runs').doc(id!), { ...data, updatedAt: Timestamp.now() });
+      batch.set(adminDb.collection('audit_logs').doc(), {
+        action: `payroll_run_${action.replace('-', '_')}`,
+        performedBy,
+        details: {
+          runId: id,
+          month,
+          year,
+          from: run.status,
+          to: next.status,
+          netSalary: next.totals.netSalary,
+          ...(reason ? { reason } : {}),
+        },
+        timestamp: Timestamp.now(),
       });
+      await batch.commit();
 
-      // Classify each day of the month
-      let present = 0;
-      let wfh = 0;
-      let approvedLeave = 0;
-      let unapprovedLeave = 0;
-      let halfDay = 0;
-      let holiday = 0;
-
-      for (let day = 1; day <= totalDaysInMonth; day++) {
-        const date = new Date(year, month, day);
-        const dateStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-        const dayOfWeek = date.getDay();
-
-        // Check attendance records FIRST - if employee worked, count as present
-        // regardless of whether it's a weekend or holiday
-        if (presentDates.has(dateStr)) {
-          present++;
-          continue;
-        }
-
-        // WFH (if applicable)
-        if (wfhDates.has(dateStr)) {
-          wfh++;
-          continue;
-        }
-
-        // Half-Day Leave (approved leave for a portion of the day)
-        if (halfDayLeaveDates.has(dateStr)) {
-          halfDay++;
-          continue;
-        }
-
-        // Approved Full-Day Leave
-        if (leaveDates.has(dateStr)) {
-          approvedLeave++;
-          continue;
-        }
+      return next;
+    } catch (error) {
+      console.error('[PayrollAdminService] Error transitioning payroll run:', error);
+      throw error;
+    }
+  },
 
-        // Holiday — official holidays from collection
-        if (holidayDates.has(dateStr)) {
-          holiday++;
-          continue;
-        }
+  /**
+   * Throw a 409 unless the month's run is a draft (or not started yet): slips
+   * of a reviewed, approved, locked or paid run cannot change
+   */
+  async assertPayrollRunEditable(month: number, year: number): Promise<void> {
+    const doc = await adminDb.collection('payroll-runs').doc(getPayrollRunId(month, year)).get();
+    const status = doc.data()?.status as PayrollRunStatus | undefined;
+    if (status && !isPayrollRunEditable(status)) {
+      throw new ApiError(
+        409,
+        `Payroll for ${new Date(year, month).toLocaleString('en-IN', { month: 'long', year: 'numeric' })} is ${status}. Re-open the run to make corrections.`
+      );
+    }
+  },
 
-        // Sunday — treated as a holiday (non-working day), matching calendar behavior
-        if (dayOfWeek === 0) {
-          holiday++;
-          continue;
-        }
+  // ============================================================================
+  // BANK PAYMENTS
+  // ============================================================================
 
-        // Unapproved absence (LOP) — only for past days that weren't worked.
-        // Future days in the current month are skipped to avoid incorrectly
-        // prorating salary for days that haven't occurred yet.
-        const today = new Date();
-        const isCurrentMonth = year === today.getFullYear() && month === today.getMonth();
-        if (isCurrentMonth && date > today) {
-          // Future day in current month — don't count as unapproved
-          continue;
-        }
-        unapprovedLeave++;
+  /**
+   * Match a locked month's slips to the employees' salary accounts. Returns
+   * the rows that can go into a bank file and the issues (missing account,
+   * bad IFSC) blocking the rest. Throws a 409 unless the run is locked or paid.
+   */
+  async getBankPayments(
+    month: number,
+    year: number
+  ): Promise<{ rows: BankPaymentRow[]; issues: BankPaymentIssue[] }> {
+    try {
+      const runDoc = await adminDb.collection('payroll-runs').doc(getPayrollRunId(month, year)).get();
+      const status = runDoc.data()?.status as PayrollRunStatus | undefined;
+      if (!status || !isPayrollRunLocked(status)) {
+        throw new ApiError(
+          409,
+          `Lock the payroll run for ${new Date(year, month).toLocaleString('en-IN', { month: 'long', year: 'numeric' })} before exporting bank payments`
+        );
       }
 
-      // Calculate leave metrics
-      const leaveTaken = approvedLeave + unapprovedLeave;
-      const paidLeave = Math.min(leaveTaken, settings.allowedPaidLeaves);
-      const unpaidLeave = Math.max(0, leaveTaken - paidLeave);
-      const totalWorkingDays = totalDaysInMonth - holiday;
+      const slips = await this.getSlips({ month, year });
+      const userDocs = slips.length
+        ? await adminDb.getAll(...slips.map((slip) => adminDb.collection('users').doc(slip.employeeId)))
+        : [];
+      const accounts = new Map(userDocs.map((doc) => [doc.id, doc.data()?.bankAccount]));
+
+      return prepareBankPayments(
+        slips.map((slip) => {
+          const stored = accounts.get(slip.employeeId);
+          let account = null;
+          if (stored?.accountNumber) {
+            try {
+              account = {
+                accountNumber: decrypt(stored.accountNumber),
+                ifsc: stored.ifsc || '',
+                beneficiaryName: stored.beneficiaryName || '',
+              };
+            } catch (error) {
+              console.error(`[PayrollAdminService] Could not decrypt bank account for ${slip.employeeId}:`, error);
+            }
+          }
+          return {
+            employeeId: slip.employeeId,
+            employeeCode: slip.employeeCode,
+            name: slip.name,
+            amount: slip.salaryBreakup.netSalary || 0,
+            slipNumber: slip.slipNumber,
+            account,
+          };
+        })
+      );
+    } catch (error) {
+      console.error('[PayrollAdminService] Error getting bank payments:', error);
+      throw error;
+    }
+  },
 
-      // ── Salary Formula ─────────────────────────────────────────────
-      // All variables are passed to the formula scope.
-      // The formula can compute paidDays and return it in the result object.
+  /**
+   * Audit-log a bank file export (counts and totals only, never account numbers)
+   */
+  async recordBankExport(
+    month: number,
+    year: number,
+    format: BankExportFormatId,
+    rows: BankPaymentRow[],
+    skipped: number,
+    performedBy: string
+  ): Promise<void> {
+    try {
+      await adminDb.collection('audit_logs').add({
+        action: 'payroll_bank_export',
+        performedBy,
+        details: {
+          runId: getPayrollRunId(month, year),
+          month,
+          year,
+          format,
+          paymentCount: rows.length,
+          totalAmount: rows.reduce((sum, row) => sum + row.amount, 0),
+          skipped,
+        },
+        timestamp: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error('[PayrollAdminService] Error recording bank export:', error);
+      throw error;
+    }
+  },
 
-      // Calculate salary breakup
-      let salaryBreakup: SalaryBreakup;
-      let computedPaidDays: number;
+  // ============================================================================
+  // STATUTORY RETURNS
+  // ============================================================================
 
-      if (settings.salaryFormula) {
-        // Use custom formula — all variables available in formula scope
-        const result = this.evaluateSalaryFormula(
-          settings.salaryFormula,
-          {
-            grossSalary,
-            totalDaysInMonth,
-            totalWorkingDays,
-            basicPercentage: settings.basicPercentage,
-            hraPercentage: settings.hraPercentage,
-            specialPercentage: settings.specialPercentage,
-            allowedPaidLeaves: settings.allowedPaidLeaves,
-            includePaidLeavesInPaidDays: settings.includePaidLeavesInPaidDays ?? false,
-            present,
-            wfh,
-            halfDay,
-            paidLeave,
-            leaveTaken,
-            unpaidLeave,
-            holidays: holiday,
-            approvedLeave,
-            unapprovedLeave,
-          }
+  /**
+   * Build a locked month's EPF ECR lines and ESI contribution rows from its
+   * slips and the employees' UAN / IP numbers. Throws a 409 unless the run is
+   * locked or paid.
+   */
+  async getStatutoryReturns(
+    month: number,
+    year: number
+  ): Promise<{
+    pf: { rows: EcrRow[]; totals: StatutoryReturnTotals };
+    esi: { rows: EsiReturnRow[]; totals: StatutoryReturnTotals };
+  }> {
+    try {
+      const runDoc = await adminDb.collection('payroll-runs').doc(getPayrollRunId(month, year)).get();
+      const status = runDoc.data()?.status as PayrollRunStatus | undefined;
+      if (!status || !isPayrollRunLocked(status)) {
+        throw new ApiError(
+          409,
+          `Lock the payroll run for ${new Date(year, month).toLocaleString('en-IN', { month: 'long', year: 'numeric' })} before generating statutory returns`
         );
-        salaryBreakup = result.breakup;
-        computedPaidDays = result.paidDays;
-      } else {
-        // Whiteboard formula: Net Salary = Gross Salary - (Gross Salary × Unpaid Leaves) / 26
-        // Denominator is always 26, paid days = 26 - unpaidLeave
-        computedPaidDays = Math.max(0, 26 - unpaidLeave - (halfDay * 0.5));
-        const leaveDeduction = (grossSalary * unpaidLeave) / 26;
-        const netSalary = grossSalary - leaveDeduction;
-        const basic = grossSalary * (settings.basicPercentage / 100);
-        const hra = grossSalary * (settings.hraPercentage / 100);
-        const special = grossSalary * (settings.specialPercentage / 100);
-
-        salaryBreakup = {
-          basic,
-          hra,
-          special,
-          totalDeductions: leaveDeduction,
-          netSalary,
-          leaveDeduction,
-        };
       }
 
-      const attendanceBreakdown: AttendanceBreakdown = {
-        present,
-        wfh,
-        approvedLeave,
-        unapprovedLeave,
-        halfDay,
-        holiday,
-        paidLeave,
-        leaveTaken,
-        unpaidLeave,
-        paidDays: computedPaidDays,
-      };
+      const slips = await this.getSlips({ month, year });
+      const userDocs = slips.length
+        ? await adminDb.getAll(...slips.map((slip) => adminDb.collection('users').doc(slip.employeeId)))
+        : [];
+      const users = new Map(userDocs.map((doc) => [doc.id, doc.data()]));
 
-      return {
-        attendanceBreakdown,
-        salaryBreakup,
-        totalDaysInMonth,
-        paidDays: computedPaidDays,
-      };
+      const inputs = slips.map((slip) => ({
+        slip,
+        uan: users.get(slip.employeeId)?.uan || null,
+        esiIpNumber: users.get(slip.employeeId)?.esiIpNumber || null,
+      }));
+
+      return { pf: prepareEcr(inputs), esi: prepareEsiReturn(inputs) };
     } catch (error) {
-      console.error('[PayrollAdminService] Error calculating salary:', error);
+      console.error('[PayrollAdminService] Error getting statutory returns:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Audit-log a statutory return download
+   */
+  async recordStatutoryReturnExport(
+    month: number,
+    year: number,
+    type: StatutoryReturnType,
+    totals: StatutoryReturnTotals,
+    performedBy: string
+  ): Promise<void> {
+    try {
+      await adminDb.collection('audit_logs').add({
+        action: 'payroll_statutory_return_export',
+        performedBy,
+        details: {
+          runId: getPayrollRunId(month, year),
+          month,
+          year,
+          type,
+          memberCount: totals.memberCount,
+          wages: totals.wages,
+          employeeContribution: totals.employeeContribution,
+          employerContribution: totals.employerContribution,
+          skipped: totals.issues.length,
+        },
+        timestamp: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error('[PayrollAdminService] Error recording statutory return export:', error);
       throw error;
     }
   },
@@ -497,12 +1996,17 @@ export const payrollAdminService = {
     try {
       const generatedSlips: EmployeeSalary[] = [];
       const skippedEmployees: string[] = [];
+      const loanRecoveriesBySlip = new Map<string, LoanRecovery[]>();
+      const arrearsBySlip = new Map<string, ArrearsPayment[]>();
+      const reimbursementsBySlip = new Map<string, string[]>();
       const batchSize = 499;
       let batch = adminDb.batch();
       let batchCount = 0;
 
       console.log(`[PayrollAdminService] generateSlips called with ${employeeIds.length} employee(s) for month=${month}, year=${year}`);
 
+      await this.assertPayrollRunEditable(month, year);
+
       for (const employeeId of employeeIds) {
         // Check if slip already exists for this employee/month/year
         const existingSlips = await adminDb
@@ -545,7 +2049,7 @@ export const payrollAdminService = {
           department: employee.department || '',
           doj: employee.doj || null,
           pan: employee.pan || null,
-          grossSalary: employee.grossSalary || 0,
+          grossSalary: calculation.grossSalary ?? employee.grossSalary ?? 0,
           month,
           year,
           totalDaysInMonth: calculation.totalDaysInMonth,
@@ -556,6 +2060,10 @@ export const payrollAdminService = {
           generatedAt: Timestamp.now() as any,
           generatedBy,
           accessGranted: accessMap?.[employeeId] ?? true,
+          ...(calculation.statutory ? { statutory: calculation.statutory } : {}),
+          ...(calculation.tdsProjection ? { tdsProjection: calculation.tdsProjection } : {}),
+          ...(calculation.salarySegments ? { salarySegments: calculation.salarySegments } : {}),
+          formulaVersionId: calculation.formulaVersionId ?? null,
         };
 
         const slipRef = adminDb.collection('salary-slips').doc();
@@ -563,6 +2071,15 @@ export const payrollAdminService = {
         batchCount++;
 
         generatedSlips.push({ id: slipRef.id, ...slip });
+        if (calculation.loanRecoveries) {
+          loanRecoveriesBySlip.set(slipRef.id, calculation.loanRecoveries);
+        }
+        if (calculation.arrearsPayments) {
+          arrearsBySlip.set(slipRef.id, calculation.arrearsPayments);
+        }
+        if (calculation.reimbursedClaimIds) {
+          reimbursementsBySlip.set(slipRef.id, calculation.reimbursedClaimIds);
+        }
 
         // Commit batch when it reaches the size limit
         if (batchCount === batchSize) {
@@ -577,6 +2094,21 @@ export const payrollAdminService = {
         await batch.commit();
       }
 
+      // Post recovered EMIs to the loan ledgers once the slips exist
+      for (const [slipId, recoveries] of loanRecoveriesBySlip) {
+        await this.recordLoanRecoveries(slipId, month, year, recoveries, generatedBy);
+      }
+
+      // Mark revision arrears as paid through their slips
+      for (const [slipId, payments] of arrearsBySlip) {
+        await this.recordArrearsPayments(slipId, month, year, payments);
+      }
+
+      // Mark reimbursed expense claims as paid through their slips
+      for (const [slipId, claimIds] of reimbursementsBySlip) {
+        await this.recordReimbursements(slipId, month, year, claimIds);
+      }
+
       // ── Send notifications to employees whose slips were generated with access granted ──
       const monthNames = [
         'January', 'February', 'March', 'April', 'May', 'June',
@@ -710,6 +2242,38 @@ export const payrollAdminService = {
    */
   async deleteSlips(ids: string[]): Promise<void> {
     try {
+      const slipDocs = ids.length > 0
+        ? await adminDb.getAll(...ids.map((id) => adminDb.collection('salary-slips').doc(id)))
+        : [];
+
+      // Slips can only be deleted while their run is a draft
+      const periods = new Map<string, { month: number; year: number }>();
+      for (const doc of slipDocs) {
+        const data = doc.data();
+        if (data) periods.set(getPayrollRunId(data.month, data.year), { month: data.month, year: data.year });
+      }
+      for (const period of periods.values()) {
+        await this.assertPayrollRunEditable(period.month, period.year);
+      }
+
+      // Reverse loan EMIs recovered through these slips so they fall due again
+      const slipsWithRecovery = new Map<string, string[]>();
+      for (const doc of slipDocs) {
+        const data = doc.data();
+        if (!data?.salaryBreakup?.loanRecovery) continue;
+        slipsWithRecovery.set(data.employeeId, [...(slipsWithRecovery.get(data.employeeId) ?? []), doc.id]);
+      }
+
+      // Arrears paid through these slips become due again
+      const slipsWithArrears = slipDocs
+        .filter((doc) => doc.data()?.salaryBreakup?.arrears)
+        .map((doc) => doc.id);
+
+      // Expense claims reimbursed through these slips are paid in a later run
+      const slipsWithReimbursement = slipDocs
+        .filter((doc) => doc.data()?.salaryBreakup?.reimbursement)
+        .map((doc) => doc.id);
+
       const batchSize = 499;
       let batch = adminDb.batch();
       let batchCount = 0;
@@ -728,6 +2292,16 @@ export const payrollAdminService = {
       if (batchCount > 0) {
         await batch.commit();
       }
+
+      for (const [employeeId, slipIds] of slipsWithRecovery) {
+        await this.reverseLoanRecoveries(employeeId, slipIds);
+      }
+      if (slipsWithArrears.length > 0) {
+        await this.reverseArrearsPayments(slipsWithArrears);
+      }
+      if (slipsWithReimbursement.length > 0) {
+        await this.reverseReimbursements(slipsWithReimbursement);
+      }
     } catch (error) {
       console.error('[PayrollAdminService] Error deleting slips:', error);
       throw error;
@@ -747,6 +2321,12 @@ export const payrollAdminService = {
     >
   ): Promise<boolean> {
     try {
+      const slipDoc = await adminDb.collection('salary-slips').doc(slipId).get();
+      if (slipDoc.exists) {
+        const { month, year } = slipDoc.data()!;
+        await this.assertPayrollRunEditable(month, year);
+      }
+
       await adminDb.collection('salary-slips').doc(slipId).update(data as any);
       return true;
     } catch (error) {
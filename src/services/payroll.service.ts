@@ -4,7 +4,7 @@
  */
 
 import { authenticatedFetch } from '@/lib/api-client';
-import { PayrollSettings, EmployeeSalary, SalaryCalculationResult, SalarySlipTemplate } from '@/types/payroll.types';
+import { PayrollSettings, EmployeeSalary, SalaryCalculationResult, SalarySlipTemplate, PayrollPreviewResult, TaxDeclaration, TaxDeclarationWindow, TdsProjection, LoanStatement, LoanType, PayrollRun, PayrollRunAction, BankExportFormatId, BankPaymentSummary, StatutoryReturnsSummary, StatutoryReturnType, AnnualSalaryStatement, SalaryRevision, SalaryFormulaVersion, SalaryComponent } from '@/types/payroll.types';
 
 export const payrollService = {
   /**
@@ -28,6 +28,101 @@ export const payrollService = {
     return response.ok;
   },
 
+  // ── Salary Formula Versions ───────────────────────────────────────────────
+
+  /**
+   * Get the salary formula version history, newest first (admin)
+   */
+  async getFormulaVersions(): Promise<SalaryFormulaVersion[] | null> {
+    const response = await authenticatedFetch('/api/payroll/formula-versions');
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Save the salary formula as a new version, or roll back to an earlier
+   * version by passing rollbackOf (admin)
+   */
+  async createFormulaVersion(version: {
+    formula?: string;
+    rollbackOf?: string;
+    changeNote: string;
+    effectiveMonth: number;
+    effectiveYear: number;
+  }): Promise<SalaryFormulaVersion | null> {
+    const response = await authenticatedFetch('/api/payroll/formula-versions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(version),
+    });
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  // ── Salary Components ─────────────────────────────────────────────────────
+
+  /**
+   * Get the salary component catalogue in calculation order
+   */
+  async getSalaryComponents(): Promise<SalaryComponent[] | null> {
+    const response = await authenticatedFetch('/api/payroll/components');
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Add an earning or deduction component to the catalogue (admin).
+   * Throws with the server's message when the component is rejected.
+   */
+  async createSalaryComponent(
+    component: Omit<SalaryComponent, 'id' | 'order' | 'createdAt' | 'updatedAt'>
+  ): Promise<SalaryComponent> {
+    const response = await authenticatedFetch('/api/payroll/components', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(component),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.message || 'Failed to add salary component');
+    }
+    return response.json();
+  },
+
+  /**
+   * Update a catalogue component (admin). Throws with the server's message
+   * when the change is rejected.
+   */
+  async updateSalaryComponent(
+    id: string,
+    updates: Partial<Omit<SalaryComponent, 'id' | 'key' | 'createdAt' | 'updatedAt'>>
+  ): Promise<SalaryComponent> {
+    const response = await authenticatedFetch(`/api/payroll/components/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.message || 'Failed to update salary component');
+    }
+    return response.json();
+  },
+
+  /**
+   * Remove a component from the catalogue (admin). Throws with the server's
+   * message when another component still depends on it.
+   */
+  async deleteSalaryComponent(id: string): Promise<void> {
+    const response = await authenticatedFetch(`/api/payroll/components/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.message || 'Failed to delete salary component');
+    }
+  },
+
   /**
    * Calculate salary for an employee (preview)
    */
@@ -45,6 +140,24 @@ export const payrollService = {
     return response.json();
   },
 
+  /**
+   * Dry-run slip generation and diff against the previous month (nothing is saved)
+   */
+  async previewRun(
+    employeeIds: string[],
+    month: number,
+    year: number,
+    netChangeThreshold?: number
+  ): Promise<PayrollPreviewResult | null> {
+    const response = await authenticatedFetch('/api/payroll/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ employeeIds, month, year, netChangeThreshold }),
+    });
+    if (!response.ok) return null;
+    return response.json();
+  },
+
   /**
    * Generate salary slips for multiple employees
    */
@@ -195,6 +308,267 @@ export const payrollService = {
     return response.ok;
   },
 
+  // ── Tax Declarations & TDS ────────────────────────────────────────────────
+
+  /**
+   * Get tax declarations for a financial year with its proof window.
+   * Without options returns the current user's own declaration.
+   */
+  async getTaxDeclarations(
+    financialYear: number,
+    options: { employeeId?: string; all?: boolean } = {}
+  ): Promise<{ declarations: TaxDeclaration[]; window: TaxDeclarationWindow } | null> {
+    const params = new URLSearchParams({ financialYear: String(financialYear) });
+    if (options.employeeId) params.set('employeeId', options.employeeId);
+    if (options.all) params.set('all', 'true');
+    const response = await authenticatedFetch(`/api/payroll/tax-declarations?${params.toString()}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Save the current user's tax declaration
+   */
+  async saveTaxDeclaration(
+    declaration: Omit<TaxDeclaration, 'id' | 'employeeId' | 'submittedAt' | 'updatedAt'>
+  ): Promise<TaxDeclaration | null> {
+    const response = await authenticatedFetch('/api/payroll/tax-declarations', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(declaration),
+    });
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Set the proof deadline and lock state for a financial year (admin)
+   */
+  async setTaxDeclarationWindow(
+    financialYear: number,
+    proofDeadline: string | null,
+    locked: boolean
+  ): Promise<TaxDeclarationWindow | null> {
+    const response = await authenticatedFetch('/api/payroll/tax-declarations/lock', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ financialYear, proofDeadline, locked }),
+    });
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Get the year-to-date TDS projection worksheet
+   */
+  async getTdsProjection(financialYear: number, employeeId?: string): Promise<TdsProjection | null> {
+    const params = new URLSearchParams({ financialYear: String(financialYear) });
+    if (employeeId) params.set('employeeId', employeeId);
+    const response = await authenticatedFetch(`/api/payroll/tds-projection?${params.toString()}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Get the annual salary statement for a financial year. Without employeeId
+   * returns the current user's own statement.
+   */
+  async getAnnualStatement(financialYear: number, employeeId?: string): Promise<AnnualSalaryStatement | null> {
+    const params = new URLSearchParams({ financialYear: String(financialYear) });
+    if (employeeId) params.set('employeeId', employeeId);
+    const response = await authenticatedFetch(`/api/payroll/annual-statement?${params.toString()}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Download Form 16 Part B figures for every employee as CSV (admin)
+   */
+  async downloadForm16PartB(financialYear: number): Promise<{ blob: Blob; fileName: string } | null> {
+    const response = await authenticatedFetch(`/api/payroll/annual-statement/form16?financialYear=${financialYear}`);
+    if (!response.ok) return null;
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'form16-part-b.csv';
+    return { blob: await response.blob(), fileName };
+  },
+
+  // ── Payroll Runs ──────────────────────────────────────────────────────────
+
+  /**
+   * Get a month's payroll run (a draft if it has never been reviewed)
+   */
+  async getPayrollRun(month: number, year: number): Promise<PayrollRun | null> {
+    const response = await authenticatedFetch(`/api/payroll/runs?month=${month}&year=${year}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Review, approve, lock, mark paid or re-open a month's payroll run
+   */
+  async transitionPayrollRun(
+    month: number,
+    year: number,
+    action: PayrollRunAction,
+    reason?: string
+  ): Promise<PayrollRun | null> {
+    const response = await authenticatedFetch('/api/payroll/runs', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ month, year, action, reason }),
+    });
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  // ── Bank Payments ─────────────────────────────────────────────────────────
+
+  /**
+   * Check a locked month's net pay against employee bank accounts
+   */
+  async getBankPaymentSummary(month: number, year: number): Promise<BankPaymentSummary | null> {
+    const response = await authenticatedFetch(`/api/payroll/bank-export?month=${month}&year=${year}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Download a locked month's bank bulk-upload file
+   */
+  async downloadBankFile(params: {
+    month: number;
+    year: number;
+    format: BankExportFormatId;
+    paymentDate?: string;
+    skipInvalid?: boolean;
+  }): Promise<{ blob: Blob; fileName: string } | null> {
+    const response = await authenticatedFetch('/api/payroll/bank-export', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+    });
+    if (!response.ok) return null;
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'salary-payments.csv';
+    return { blob: await response.blob(), fileName };
+  },
+
+  // ── Statutory Returns ─────────────────────────────────────────────────────
+
+  /**
+   * Check a locked month's EPF and ESI returns for missing UAN / IP numbers
+   */
+  async getStatutoryReturnsSummary(month: number, year: number): Promise<StatutoryReturnsSummary | null> {
+    const response = await authenticatedFetch(`/api/payroll/statutory-returns?month=${month}&year=${year}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Download a locked month's EPF ECR file or ESI contribution sheet
+   */
+  async downloadStatutoryReturn(params: {
+    month: number;
+    year: number;
+    type: StatutoryReturnType;
+    skipInvalid?: boolean;
+  }): Promise<{ blob: Blob; fileName: string } | null> {
+    const response = await authenticatedFetch('/api/payroll/statutory-returns', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+    });
+    if (!response.ok) return null;
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `${params.type}-return`;
+    return { blob: await response.blob(), fileName };
+  },
+
+  // ── Loans & Advances ──────────────────────────────────────────────────────
+
+  /**
+   * Get loan statements. Without options returns the current user's own loans.
+   */
+  async getLoans(options: { employeeId?: string; all?: boolean } = {}): Promise<LoanStatement[] | null> {
+    const params = new URLSearchParams();
+    if (options.employeeId) params.set('employeeId', options.employeeId);
+    if (options.all) params.set('all', 'true');
+    const response = await authenticatedFetch(`/api/payroll/loans?${params.toString()}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Sanction a loan or salary advance (admin)
+   */
+  async sanctionLoan(loan: {
+    employeeId: string;
+    type: LoanType;
+    principal: number;
+    interestRate: number;
+    tenureMonths: number;
+    emiAmount?: number;
+    startMonth: number;
+    startYear: number;
+    note?: string;
+  }): Promise<LoanStatement | null> {
+    const response = await authenticatedFetch('/api/payroll/loans', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(loan),
+    });
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Pause, resume, skip an EMI or record a prepayment on a loan (admin)
+   */
+  async updateLoan(
+    loanId: string,
+    action:
+      | { action: 'pause' | 'resume' }
+      | { action: 'skip'; month: number; year: number }
+      | { action: 'prepay'; amount: number; note?: string }
+  ): Promise<LoanStatement | null> {
+    const response = await authenticatedFetch(`/api/payroll/loans/${loanId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(action),
+    });
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  // ── Salary Revisions ──────────────────────────────────────────────────────
+
+  /**
+   * Get an employee's salary revisions, oldest first. Without employeeId
+   * returns the current user's own.
+   */
+  async getSalaryRevisions(employeeId?: string): Promise<SalaryRevision[] | null> {
+    const params = new URLSearchParams();
+    if (employeeId) params.set('employeeId', employeeId);
+    const response = await authenticatedFetch(`/api/payroll/salary-revisions?${params.toString()}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Revise an employee's gross salary from an effective date (admin)
+   */
+  async createSalaryRevision(revision: {
+    employeeId: string;
+    effectiveDate: string;
+    grossSalary: number;
+    reason: string;
+  }): Promise<SalaryRevision | null> {
+    const response = await authenticatedFetch('/api/payroll/salary-revisions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(revision),
+    });
+    if (!response.ok) return null;
+    return response.json();
+  },
+
   // ── Access Config (toggle persistence) ───────────────────────────────────
 
   /**
@@ -0,0 +1,368 @@
+/**
+ * Regularization Admin Service
+ * Server-side service using Firebase Admin SDK for attendance regularization requests
+ * This bypasses Firestore security rules and should only be used in API routes
+ */
+
+import { adminDb } from '@/lib/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { ApiError } from '@/lib/api-error-handler';
+import { hasAccessToEmployee } from '@/lib/manager-access';
+import { applyRegularization, validateRegularization } from '@/lib/attendance-regularization';
+import { createWorkDaySchema } from '@/lib/attendance-validation';
+import { attendancePolicyAdminService } from '@/services/attendance-policy-admin.service';
+import { getPayrollRunId, isPayrollRunLocked } from '@/lib/payroll-run';
+import {
+  AttendanceSnapshot,
+  RegularizationDecision,
+  RegularizationRequest,
+  RegularizationRequestInput,
+  RegularizationStatus,
+} from '@/types/attendance.types';
+
+const COLLECTION = 'attendance-regularizations';
+const RECORDS = 'attendance-records';
+
+async function getUserName(uid: string): Promise<string> {
+  const user = (await adminDb.collection('users').doc(uid).get()).data();
+  return user?.displayName || user?.name || user?.email || uid;
+}
+
+function toIso(value: any): string | null {
+  if (!value) return null;
+  const date = value.toDate ? value.toDate() : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function toSnapshot(data: FirebaseFirestore.DocumentData): AttendanceSnapshot {
+  return {
+    ...(data.date ? { date: data.date } : {}),
+    clockIn: toIso(data.clockIn),
+    clockOut: toIso(data.clockOut),
+    breaks: (data.breaks ?? [])
+      .filter((b: any) => toIso(b.startTime))
+      .map((b: any) => ({ startTime: toIso(b.startTime)!, endTime: toIso(b.endTime) })),
+    totalHours: data.totalHours ?? 0,
+    regularHours: data.regularHours ?? 0,
+    overtimeHours: data.overtimeHours ?? 0,
+  };
+}
+
+export const regularizationAdminService = {
+  // ============================================================================
+  // REQUEST QUERIES
+  // ============================================================================
+
+  /**
+   * Get requests, newest first. employeeIds limits the result to those
+   * employees (used for a manager's team).
+   */
+  async getRequests(
+    filters: { employeeIds?: string[]; status?: RegularizationStatus } = {}
+  ): Promise<RegularizationRequest[]> {
+    try {
+      if (filters.employeeIds && filters.employeeIds.length === 0) return [];
+
+      const requests: RegularizationRequest[] = [];
+      // Firestore 'in' queries take at most 30 values
+      const groups = filters.employeeIds
+        ? Array.from({ length: Math.ceil(filters.employeeIds.length / 30) }, (_, i) =>
+            filters.employeeIds!.slice(i * 30, i * 30 + 30)
+          )
+        : [null];
+
+      for (const group of groups) {
+        let query: FirebaseFirestore.Query = adminDb.collection(COLLECTION);
+        if (group) query = query.where('employeeId', 'in', group);
+        if (filters.status) query = query.where('status', '==', filters.status);
+        const snapshot = await query.get();
+        requests.push(...snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as RegularizationRequest));
+      }
+
+      return requests.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      console.error('[RegularizationAdminService] Error getting requests:', error);
+      throw error;
+    }
+  },
+
+  async getRequestById(requestId: string): Promise<RegularizationRequest | null> {
+    try {
+      const doc = await adminDb.collection(COLLECTION).doc(requestId).get();
+      if (!doc.exists) return null;
+      return { id: doc.id, ...doc.data() } as RegularizationRequest;
+    } catch (error) {
+      console.error('[RegularizationAdminService] Error getting request:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * The employee's attendance record the request corrects: the given record,
+   * or for a missed clock-in whichever record exists on the day (normally none)
+   */
+  async getDayRecord(
+    employeeId: string,
+    recordId: string | null,
+    date: string
+  ): Promise<{ id: string; snapshot: AttendanceSnapshot } | null> {
+    try {
+      if (recordId) {
+        const doc = await adminDb.collection(RECORDS).doc(recordId).get();
+        if (!doc.exists || doc.data()!.employeeId !== employeeId) {
+          throw new Error('Attendance record not found');
+        }
+        return { id: doc.id, snapshot: toSnapshot(doc.data()!) };
+      }
+
+      // Attendance days are IST calendar days
+      const dayStart = new Date(`${date}T00:00:00+05:30`);
+      const dayEnd = new Date(dayStart.getTime() + 24 * 3600000);
+      const snapshot = await adminDb
+        .collection(RECORDS)
+        .where('employeeId', '==', employeeId)
+        .where('clockIn', '>=', Timestamp.fromDate(dayStart))
+        .where('clockIn', '<', Timestamp.fromDate(dayEnd))
+        .limit(1)
+        .get();
+      if (snapshot.empty) return null;
+      return { id: snapshot.docs[0].id, snapshot: toSnapshot(snapshot.docs[0].data()) };
+    } catch (error) {
+      console.error('[RegularizationAdminService] Error getting attendance record:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * The manager an employee is assigned to in manager-hierarchies, if any
+   */
+  async getAssignedManager(employeeId: string): Promise<{ id: string; name: string } | null> {
+    try {
+      const snapshot = await adminDb
+        .collection('manager-hierarchies')
+        .where('employeeIds', 'array-contains', employeeId)
+        .limit(1)
+        .get();
+      if (snapshot.empty) return null;
+      const hierarchy = snapshot.docs[0].data();
+      return { id: hierarchy.managerId, name: hierarchy.managerName || (await getUserName(hierarchy.managerId)) };
+    } catch (error) {
+      console.error('[RegularizationAdminService] Error getting assigned manager:', error);
+      throw error;
+    }
+  },
+
+  // ============================================================================
+  // SUBMISSION & APPROVAL
+  // ============================================================================
+
+  /**
+   * Raise a request for the employee's manager. A day can only have one
+   * pending request at a time.
+   */
+  async submitRequest(employeeId: string, input: RegularizationRequestInput): Promise<RegularizationRequest> {
+    try {
+      const record = await this.getDayRecord(employeeId, input.recordId, input.date);
+      const requested = {
+        clockIn: input.clockIn ?? null,
+        clockOut: input.clockOut ?? null,
+        breakStart: input.breakStart ?? null,
+        breakEnd: input.breakEnd ?? null,
+      };
+      const problem = validateRegularization(input.type, input.date, record?.snapshot ?? null, requested);
+      if (problem) {
+        throw new ApiError(400, problem);
+      }
+
+      // The corrected day must also fit the employee's attendance policy
+      const after = applyRegularization(record?.snapshot ?? null, requested);
+      if (after.clockIn) {
+        const policy = await attendancePolicyAdminService.resolveForEmployee(employeeId, new Date(after.clockIn));
+        const workDay = createWorkDaySchema(policy).safeParse({
+          clockIn: new Date(after.clockIn),
+          clockOut: after.clockOut ? new Date(after.clockOut) : undefined,
+          totalHours: after.totalHours,
+        });
+        if (!workDay.success) {
+          throw new ApiError(400, workDay.error.issues[0].message);
+        }
+      }
+
+      const pending = await adminDb
+        .collection(COLLECTION)
+        .where('employeeId', '==', employeeId)
+        .where('date', '==', input.date)
+        .where('status', '==', 'pending')
+        .limit(1)
+        .get();
+      if (!pending.empty) {
+        throw new ApiError(409, 'You already have a pending request for this day');
+      }
+
+      const manager = await this.getAssignedManager(employeeId);
+      const now = new Date().toISOString();
+      const request: Omit<RegularizationRequest, 'id'> = {
+        employeeId,
+        employeeName: await getUserName(employeeId),
+        type: input.type,
+        recordId: record?.id ?? null,
+        date: input.date,
+        requested,
+        reason: input.reason,
+        status: 'pending',
+        approverId: manager?.id ?? null,
+        approverName: manager?.name ?? null,
+        decidedBy: null,
+        decidedByName: null,
+        decidedAt: null,
+        rejectionReason: null,
+        before: null,
+        after: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const docRef = await adminDb.collection(COLLECTION).add(request);
+      return { id: docRef.id, ...request };
+    } catch (error) {
+      console.error('[RegularizationAdminService] Error submitting request:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Withdraw one of the employee's own pending requests
+   */
+  async withdrawRequest(requestId: string, employeeId: string): Promise<void> {
+    try {
+      const request = await this.getRequestById(requestId);
+      if (!request || request.employeeId !== employeeId) {
+        throw new Error('Regularization request not found');
+      }
+      if (request.status !== 'pending') {
+        throw new ApiError(409, `This request has already been ${request.status}`);
+      }
+      await adminDb.collection(COLLECTION).doc(requestId).delete();
+    } catch (error) {
+      console.error('[RegularizationAdminService] Error withdrawing request:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Approve or reject a pending request. Approval patches the attendance
+   * record (creating it for a missed clock-in), marks it edited by the
+   * approver and keeps the record's before/after values on the request.
+   */
+  async decideRequest(
+    requestId: string,
+    decision: RegularizationDecision,
+    approver: { uid: string; role: string }
+  ): Promise<RegularizationRequest> {
+    try {
+      const request = await this.getRequestById(requestId);
+      if (!request) {
+        throw new Error('Regularization request not found');
+      }
+      if (request.employeeId === approver.uid) {
+        throw new ApiError(403, 'You cannot approve or reject your own request');
+      }
+      if (!(await hasAccessToEmployee(approver.uid, approver.role, request.employeeId))) {
+        throw new ApiError(403, 'You can only decide requests from your assigned employees');
+      }
+      if (request.status !== 'pending') {
+        throw new ApiError(409, `This request has already been ${request.status}`);
+      }
+
+      const now = new Date().toISOString();
+      const decidedByName = await getUserName(approver.uid);
+      const update: Partial<RegularizationRequest> = {
+        status: decision.action === 'approve' ? 'approved' : 'rejected',
+        decidedBy: approver.uid,
+        decidedByName,
+        decidedAt: now,
+        rejectionReason: decision.action === 'reject' ? decision.reason : null,
+        updatedAt: now,
+      };
+
+      if (decision.action === 'approve') {
+        // Attendance feeds the month's salary slips, which a locked run no longer changes
+        const [year, month] = request.date.split('-').map(Number);
+        const run = (await adminDb.collection('payroll-runs').doc(getPayrollRunId(month - 1, year)).get()).data();
+        if (run && isPayrollRunLocked(run.status)) {
+          throw new ApiError(409, 'Payroll for this month is locked; re-open it before regularizing attendance');
+        }
+
+        // Re-check against the record as it is now; it may have changed since the request
+        const record = await this.getDayRecord(request.employeeId, request.recordId, request.date);
+        const problem = validateRegularization(request.type, request.date, record?.snapshot ?? null, request.requested);
+        if (problem) {
+          throw new ApiError(409, `The request no longer applies: ${problem}`);
+        }
+
+        const after = applyRegularization(record?.snapshot ?? null, request.requested);
+        const toTimestamp = (iso: string | null) => (iso ? Timestamp.fromDate(new Date(iso)) : null);
+        const recordUpdate = {
+          clockIn: toTimestamp(after.clockIn),
+          clockOut: toTimestamp(after.clockOut),
+          breaks: after.breaks.map((b, index) => ({
+            id: `break_${new Date(b.startTime).getTime()}_${index}`,
+            startTime: toTimestamp(b.startTime),
+            endTime: toTimestamp(b.endTime),
+            duration: b.endTime ? (new Date(b.endTime).getTime() - new Date(b.startTime).getTime()) / 1000 : 0,
+          })),
+          totalHours: after.totalHours,
+          regularHours: after.regularHours,
+          overtimeHours: after.overtimeHours,
+          // A break added to a day still in progress leaves it open
+          ...(after.clockOut ? { status: 'edited' } : {}),
+          editedBy: decidedByName,
+          editReason: request.reason,
+          regularizationId: requestId,
+          updatedAt: Timestamp.now(),
+        };
+
+        let recordId = record?.id;
+        if (recordId) {
+          await adminDb.collection(RECORDS).doc(recordId).update(recordUpdate);
+        } else {
+          const docRef = await adminDb.collection(RECORDS).add({
+            employeeId: request.employeeId,
+            employeeName: request.employeeName,
+            location: null,
+            notes: null,
+            ...recordUpdate,
+            createdAt: Timestamp.now(),
+          });
+          recordId = docRef.id;
+        }
+
+        update.recordId = recordId;
+        update.before = record?.snapshot ?? null;
+        update.after = after;
+      }
+
+      await adminDb.collection(COLLECTION).doc(requestId).update(update);
+
+      await adminDb.collection('audit_logs').add({
+        action: decision.action === 'approve' ? 'attendance_regularization_approved' : 'attendance_regularization_rejected',
+        performedBy: approver.uid,
+        details: {
+          requestId,
+          employeeId: request.employeeId,
+          date: request.date,
+          type: request.type,
+          ...(decision.action === 'approve'
+            ? { recordId: update.recordId, before: update.before, after: update.after }
+            : { reason: decision.reason }),
+        },
+        timestamp: Timestamp.now(),
+      });
+
+      return { ...request, ...update };
+    } catch (error) {
+      console.error('[RegularizationAdminService] Error deciding request:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,73 @@
+/**
+ * Regularization Service
+ * Client-side service using authenticatedFetch for attendance regularization requests
+ */
+
+import { authenticatedFetch } from '@/lib/api-client';
+import {
+  RegularizationDecision,
+  RegularizationRequest,
+  RegularizationRequestInput,
+  RegularizationStatus,
+} from '@/types/attendance.types';
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  const error = await response.json().catch(() => null);
+  return error?.message || fallback;
+}
+
+export const regularizationService = {
+  /**
+   * Get the current user's own requests, or the team's requests (managers/admins)
+   */
+  async getRequests(
+    options: { scope?: 'mine' | 'team'; status?: RegularizationStatus } = {}
+  ): Promise<RegularizationRequest[] | null> {
+    const params = new URLSearchParams();
+    if (options.scope) params.set('scope', options.scope);
+    if (options.status) params.set('status', options.status);
+    const response = await authenticatedFetch(`/api/attendance/regularizations?${params.toString()}`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Raise a request. Throws with the server's message when rejected.
+   */
+  async submitRequest(input: RegularizationRequestInput): Promise<RegularizationRequest> {
+    const response = await authenticatedFetch('/api/attendance/regularizations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to submit request'));
+    }
+    return response.json();
+  },
+
+  /**
+   * Approve or reject a pending request (managers/admins)
+   */
+  async decideRequest(requestId: string, decision: RegularizationDecision): Promise<RegularizationRequest> {
+    const response = await authenticatedFetch(`/api/attendance/regularizations/${requestId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(decision),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to update request'));
+    }
+    return response.json();
+  },
+
+  /**
+   * Withdraw one of the current user's pending requests
+   */
+  async withdrawRequest(requestId: string): Promise<void> {
+    const response = await authenticatedFetch(`/api/attendance/regularizations/${requestId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to withdraw request'));
+    }
+  },
+};
@@ -5,6 +5,7 @@
 
 import { authenticatedFetch } from '@/lib/api-client';
 import { RelievingLetter, RelievingLetterSettings, CreateRelievingLetterInput, UpdateRelievingLetterInput } from '@/types/relieving-letter.types';
+import { FnfSettlement } from '@/types/payroll.types';
 
 export const relievingLetterService = {
   /**
@@ -109,6 +110,51 @@ export const relievingLetterService = {
     return response.json();
   },
 
+  /**
+   * Get a letter's full and final settlement (null when not computed yet)
+   */
+  async getFnfSettlement(id: string): Promise<FnfSettlement | null> {
+    const response = await authenticatedFetch(`/api/relieving-letters/${id}/fnf`);
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Compute the draft full and final settlement for a letter (admin)
+   */
+  async computeFnfSettlement(
+    id: string,
+    input: {
+      noticePeriodDays: number;
+      noticeDaysServed: number;
+      leaveBalanceDays?: number;
+      otherEarnings?: number;
+      otherDeductions?: number;
+      remarks?: string;
+    }
+  ): Promise<FnfSettlement | null> {
+    const response = await authenticatedFetch(`/api/relieving-letters/${id}/fnf`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) return null;
+    return response.json();
+  },
+
+  /**
+   * Mark a letter's full and final settlement as settled (admin)
+   */
+  async settleFnfSettlement(id: string): Promise<FnfSettlement | null> {
+    const response = await authenticatedFetch(`/api/relieving-letters/${id}/fnf`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'settle' }),
+    });
+    if (!response.ok) return null;
+    return response.json();
+  },
+
   /**
    * Preview next available letter number (without consuming it)
    */
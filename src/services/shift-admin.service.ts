@@ -6,8 +6,22 @@
 
 import { adminDb } from '@/lib/firebase-admin';
 import { Timestamp } from 'firebase-admin/firestore';
+import { ApiError } from '@/lib/api-error-handler';
+import {
+    buildShiftAssignments,
+    getAssignmentId,
+    resolveShiftForDay,
+    ShiftResolver,
+    ShiftSchedule,
+} from '@/lib/shift-rotation';
+import { Shift, ShiftAssignment, ShiftRotation, ShiftRotationFormData } from '@/types/attendance.types';
 
 const COLLECTION = 'shifts';
+const ROTATIONS = 'shift-rotations';
+const ASSIGNMENTS = 'shift-assignments';
+
+// Firestore batches take at most 500 writes
+const BATCH_SIZE = 500;
 
 function safeToDate(value: any): Date | undefined {
     if (!value) return undefined;
@@ -25,6 +39,30 @@ function convertDoc(data: any, id: string) {
     };
 }
 
+function toRotation(data: FirebaseFirestore.DocumentData, id: string): ShiftRotation {
+    return {
+        id,
+        name: data.name,
+        pattern: data.pattern ?? [],
+        startDate: data.startDate,
+        endDate: data.endDate ?? null,
+        employeeIds: data.employeeIds ?? [],
+        isActive: data.isActive !== false,
+        createdAt: data.createdAt,
+        updatedAt: data.updatedAt,
+    };
+}
+
+async function commitInBatches(
+    writes: ((batch: FirebaseFirestore.WriteBatch) => void)[]
+): Promise<void> {
+    for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+        const batch = adminDb.batch();
+        writes.slice(i, i + BATCH_SIZE).forEach((write) => write(batch));
+        await batch.commit();
+    }
+}
+
 export const shiftAdminService = {
     async getShifts() {
         const snapshot = await adminDb
@@ -91,4 +129,180 @@ export const shiftAdminService = {
             updatedAt: Timestamp.now(),
         });
     },
+
+    /**
+     * Every shift ID must be an active shift
+     */
+    async checkShiftsExist(shiftIds: (string | null)[]) {
+        const active = new Set((await this.getShifts()).map((shift) => shift.id));
+        const unknown = shiftIds.find((shiftId) => shiftId !== null && !active.has(shiftId));
+        if (unknown !== undefined) {
+            throw new ApiError(400, `Shift ${unknown} does not exist or is inactive`);
+        }
+    },
+
+    // ─── Rotations ──────────────────────────────────────────────────────────
+
+    async getRotations(): Promise<ShiftRotation[]> {
+        const snapshot = await adminDb.collection(ROTATIONS).orderBy('name', 'asc').get();
+        return snapshot.docs.map((doc) => toRotation(doc.data(), doc.id));
+    },
+
+    async getRotation(id: string): Promise<ShiftRotation | null> {
+        const doc = await adminDb.collection(ROTATIONS).doc(id).get();
+        if (!doc.exists) return null;
+        return toRotation(doc.data()!, doc.id);
+    },
+
+    async createRotation(data: ShiftRotationFormData): Promise<ShiftRotation> {
+        await this.checkShiftsExist(data.pattern);
+
+        const now = new Date().toISOString();
+        const rotation: Omit<ShiftRotation, 'id'> = { ...data, isActive: true, createdAt: now, updatedAt: now };
+        const docRef = await adminDb.collection(ROTATIONS).add(rotation);
+        return { id: docRef.id, ...rotation };
+    },
+
+    /**
+     * Update a rotation. Assignments already generated are left as they are;
+     * generate again to apply the change to them.
+     */
+    async updateRotation(
+        id: string,
+        data: Partial<ShiftRotationFormData> & { isActive?: boolean }
+    ): Promise<ShiftRotation> {
+        const docRef = adminDb.collection(ROTATIONS).doc(id);
+        const doc = await docRef.get();
+        if (!doc.exists) throw new Error('Shift rotation not found');
+        if (data.pattern) await this.checkShiftsExist(data.pattern);
+
+        await docRef.update({ ...data, updatedAt: new Date().toISOString() });
+        const updated = await docRef.get();
+        return toRotation(updated.data()!, id);
+    },
+
+    /**
+     * Delete a rotation and the assignments it generated from `today` on;
+     * earlier ones stay as the record of what was worked
+     */
+    async deleteRotation(id: string, today: string) {
+        const docRef = adminDb.collection(ROTATIONS).doc(id);
+        const doc = await docRef.get();
+        if (!doc.exists) throw new Error('Shift rotation not found');
+
+        const generated = await adminDb.collection(ASSIGNMENTS).where('rotationId', '==', id).get();
+        const upcoming = generated.docs.filter((assignment) => assignment.data().date >= today);
+        await commitInBatches(upcoming.map((assignment) => (batch) => batch.delete(assignment.ref)));
+        await docRef.delete();
+    },
+
+    /**
+     * Write a rotation's assignments from startDate to endDate. Days set by
+     * hand are kept; days generated before (from any rotation) are replaced.
+     */
+    async generateAssignments(rotationId: string, startDate: string, endDate: string) {
+        const rotation = await this.getRotation(rotationId);
+        if (!rotation) throw new Error('Shift rotation not found');
+        if (!rotation.isActive) {
+            throw new ApiError(400, 'Activate the rotation before generating its assignments');
+        }
+
+        const existing = await this.getAssignments(startDate, endDate);
+        const setByHand = new Set(existing.filter((a) => a.rotationId === null).map((a) => a.id));
+        const generated = buildShiftAssignments(rotation, startDate, endDate);
+        const toWrite = generated.filter((assignment) => !setByHand.has(assignment.id));
+
+        await commitInBatches(
+            toWrite.map(({ id, ...assignment }) => (batch) =>
+                batch.set(adminDb.collection(ASSIGNMENTS).doc(id), assignment)
+            )
+        );
+        return { generated: toWrite.length, skipped: generated.length - toWrite.length };
+    },
+
+    // ─── Assignments ────────────────────────────────────────────────────────
+
+    /**
+     * Assignments from startDate to endDate (inclusive), optionally for one employee
+     */
+    async getAssignments(startDate: string, endDate: string, employeeId?: string): Promise<ShiftAssignment[]> {
+        const snapshot = await adminDb
+            .collection(ASSIGNMENTS)
+            .where('date', '>=', startDate)
+            .where('date', '<=', endDate)
+            .get();
+        return snapshot.docs
+            .map((doc) => ({ id: doc.id, ...doc.data() }) as ShiftAssignment)
+            .filter((assignment) => !employeeId || assignment.employeeId === employeeId);
+    },
+
+    /**
+     * Set an employee's shift for one day by hand (null for a day off),
+     * overriding their rotation or weekly shift
+     */
+    async setAssignment(employeeId: string, date: string, shiftId: string | null): Promise<ShiftAssignment> {
+        await this.checkShiftsExist([shiftId]);
+
+        const id = getAssignmentId(employeeId, date);
+        const docRef = adminDb.collection(ASSIGNMENTS).doc(id);
+        const existing = await docRef.get();
+        const now = new Date().toISOString();
+        const assignment: Omit<ShiftAssignment, 'id'> = {
+            employeeId,
+            date,
+            shiftId,
+            rotationId: null,
+            createdAt: existing.exists ? existing.data()!.createdAt : now,
+            updatedAt: now,
+        };
+        await docRef.set(assignment);
+        return { id, ...assignment };
+    },
+
+    /**
+     * Remove an employee's assignment for a day, so their rotation or weekly
+     * shift applies again
+     */
+    async deleteAssignment(employeeId: string, date: string) {
+        const docRef = adminDb.collection(ASSIGNMENTS).doc(getAssignmentId(employeeId, date));
+        const doc = await docRef.get();
+        if (!doc.exists) throw new Error('Shift assignment not found');
+        await docRef.delete();
+    },
+
+    // ─── Resolution ─────────────────────────────────────────────────────────
+
+    /**
+     * Active shifts and rotations, and the assignments from startDate to endDate
+     */
+    async getSchedule(startDate: string, endDate: string): Promise<ShiftSchedule> {
+        const [shifts, rotations, assignments] = await Promise.all([
+            this.getShifts(),
+            this.getRotations(),
+            this.getAssignments(startDate, endDate),
+        ]);
+        return {
+            shifts: shifts as Shift[],
+            rotations: rotations.filter((rotation) => rotation.isActive),
+            assignments,
+        };
+    },
+
+    /**
+     * Load the schedule from startDate to endDate once, for resolving many
+     * employees or days (clock-in, alerts, auto clock-out)
+     */
+    async getResolver(startDate: string, endDate: string): Promise<ShiftResolver> {
+        const schedule = await this.getSchedule(startDate, endDate);
+        return (employeeId, date) => resolveShiftForDay(schedule, employeeId, date);
+    },
+
+    /**
+     * The employee's shift on an attendance day (YYYY-MM-DD), through their
+     * assignments, rotation and weekly shift
+     */
+    async getEmployeeShift(employeeId: string, date: string): Promise<Shift | null> {
+        const resolve = await this.getResolver(date, date);
+        return resolve(employeeId, date);
+    },
 };
@@ -4,10 +4,14 @@
  */
 
 import { createFirebaseService } from './firebase.service';
-import { Shift, ShiftFormData } from '@/types/attendance.types';
+import { toAttendanceDate } from '@/lib/attendance-regularization';
+import { getAssignmentId, resolveShiftForDay } from '@/lib/shift-rotation';
+import { Shift, ShiftAssignment, ShiftFormData, ShiftRotation } from '@/types/attendance.types';
 
-// Create the Firebase service instance for shifts
+// Create the Firebase service instances for shifts, rotations and per-date assignments
 const shiftFirebaseService = createFirebaseService<Shift>('shifts');
+const rotationFirebaseService = createFirebaseService<ShiftRotation>('shift-rotations');
+const assignmentFirebaseService = createFirebaseService<ShiftAssignment>('shift-assignments');
 
 /**
  * Shift Service API
@@ -152,19 +156,24 @@ export const shiftService = {
   },
 
   /**
-   * Get employee's shift for a specific date
+   * Get employee's shift for a specific date: their assignment for the day,
+   * else their rotation, else their weekly shift. Null on a day off.
    */
   async getEmployeeShift(employeeId: string, date: Date): Promise<Shift | null> {
-    const dayOfWeek = date.getDay();
-    const allShifts = await this.getShifts();
-
-    const employeeShifts = allShifts.filter(
-      (shift) =>
-        shift.assignedEmployees.includes(employeeId) &&
-        shift.daysOfWeek.includes(dayOfWeek)
+    const day = toAttendanceDate(date);
+    const [shifts, rotations, assignment] = await Promise.all([
+      this.getShifts(),
+      rotationFirebaseService.getAll({
+        filters: [{ field: 'isActive', operator: '==', value: true }],
+      }),
+      assignmentFirebaseService.getById(getAssignmentId(employeeId, day)),
+    ]);
+
+    return resolveShiftForDay(
+      { shifts, rotations, assignments: assignment ? [assignment] : [] },
+      employeeId,
+      day
     );
-
-    return employeeShifts.length > 0 ? employeeShifts[0] : null;
   },
 
   /**
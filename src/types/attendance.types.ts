@@ -16,6 +16,70 @@ export interface GeolocationCoordinates {
   accuracy?: number;
 }
 
+// Geofence Sites
+// Offices are kept in `attendance-sites`; a client's premises become a site once
+// its address has a pinned latitude/longitude. Employees may punch at any office
+// and at the clients they are rostered to visit that day.
+export type AttendanceSiteType = 'office' | 'client';
+
+export interface AttendanceSite {
+  id: string; // office document id, or `client_${clientId}`
+  name: string;
+  type: AttendanceSiteType;
+  latitude: number;
+  longitude: number;
+  radius?: number; // in meters; falls back to the policy's geolocationRadius
+  address?: string;
+  clientId?: string;
+  isActive: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface AttendanceSiteFormData {
+  name: string;
+  address?: string;
+  latitude: number;
+  longitude: number;
+  radius?: number;
+  isActive: boolean;
+}
+
+// The site a punch was matched to. Outside the fence, the nearest allowed site.
+export interface GeofenceMatch {
+  siteId: string | null;
+  siteName: string | null;
+  siteType: AttendanceSiteType | null;
+  distance: number | null; // in meters, rounded
+  withinFence: boolean;
+}
+
+// Offline Punches
+// A clock-in/out captured without connectivity is queued on the device and
+// replayed later with its original time and location. The queue entry's id is
+// the idempotency key, so a punch replayed twice is only applied once.
+export type PunchType = 'clock-in' | 'clock-out';
+
+export interface QueuedPunch {
+  id: string; // idempotency key
+  type: PunchType;
+  employeeId: string;
+  employeeName: string;
+  recordId: string | null; // open record for a clock-out, when known
+  timestamp: string; // ISO, device time of the punch
+  location?: GeolocationCoordinates;
+  notes?: string;
+  queuedAt: string; // ISO
+  attempts: number;
+  lastError?: string;
+}
+
+// Kept on a record for each punch that was replayed from the offline queue
+export interface OfflinePunchInfo {
+  capturedAt: string; // ISO, device time of the punch
+  syncedAt: string; // ISO, when the server received it
+}
+
 // Break Record
 export interface BreakRecord {
   id: string;
@@ -40,15 +104,26 @@ export interface AttendanceRecord {
     clockIn?: GeolocationCoordinates;
     clockOut?: GeolocationCoordinates;
   };
+  geofence?: {
+    clockIn?: GeofenceMatch;
+    clockOut?: GeofenceMatch;
+  };
   notes?: {
     clockIn?: string;
     clockOut?: string;
   };
-  shiftId?: string;
+  shiftId?: string; // the shift the employee clocked in for, if any
+  date?: string; // attendance day (YYYY-MM-DD, IST); an overnight shift counts for the day it started
   createdAt: Date;
   updatedAt: Date;
   editedBy?: string;
   editReason?: string;
+  regularizationId?: string; // approved regularization request that last changed the record
+  autoClockedOut?: boolean; // closed by the scheduled auto clock-out, not the employee
+  offline?: {
+    clockIn?: OfflinePunchInfo;
+    clockOut?: OfflinePunchInfo;
+  };
 }
 
 // Clock In/Out Data
@@ -146,6 +221,30 @@ export interface Shift {
   updatedAt: Date;
 }
 
+// Shift Rotation
+export interface ShiftRotation {
+  id: string;
+  name: string;
+  pattern: (string | null)[]; // shift ID for each day of the cycle from startDate; null is a day off
+  startDate: string; // YYYY-MM-DD, the first day of the cycle
+  endDate: string | null; // YYYY-MM-DD, last day the rotation runs; open-ended when null
+  employeeIds: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// An employee's shift on one attendance day, generated from a rotation or set by hand
+export interface ShiftAssignment {
+  id: string; // `${employeeId}_${date}`
+  employeeId: string;
+  date: string; // YYYY-MM-DD
+  shiftId: string | null; // null is a day off
+  rotationId: string | null; // null when set by hand
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Attendance Policy
 export interface AttendancePolicy {
   id: string;
@@ -156,13 +255,229 @@ export interface AttendancePolicy {
   geolocationRequired: boolean;
   geolocationRadius: number; // in meters
   overtimeMultiplier: number;
-  minDailyHours: number;
+  minDailyHours: number; // a worked day shorter than this is paid as a half day
   maxDailyHours: number;
+  weeklyOffDays?: number[]; // 0-6, Sunday-Saturday; Sunday when unset
+  compOffExpiryDays?: number; // days a comp-off credit can be used after the day worked; 90 when unset
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Attendance Policy Assignment
+// Applies a policy to everyone (company), a manager's team or one employee
+// from effectiveFrom to effectiveTo (YYYY-MM-DD, IST, inclusive; open-ended
+// when null). An employee's assignment beats their team's, which beats the
+// company's; among assignments at the same level the latest effectiveFrom wins.
+export type PolicyAssignmentScope = 'company' | 'team' | 'employee';
+
+export interface AttendancePolicyAssignment {
+  id: string;
+  policyId: string;
+  scope: PolicyAssignmentScope;
+  targetId: string | null; // team manager's or employee's uid; null for company
+  targetName: string | null;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+// The policy settings in force for an employee on a day
+export interface ResolvedAttendancePolicy
+  extends Omit<
+    AttendancePolicy,
+    'id' | 'name' | 'weeklyOffDays' | 'compOffExpiryDays' | 'isActive' | 'createdAt' | 'updatedAt'
+  > {
+  policyId: string | null; // null when no policy applies and the defaults are used
+  policyName: string;
+  weeklyOffDays: number[];
+  compOffExpiryDays: number;
+  source: PolicyAssignmentScope | 'default';
+}
+
+// Overtime Claim
+// One per employee-month (id `${employeeId}_${year}_${month}`, month 0-11).
+// Approved hours are paid on that month's salary slip.
+export type OvertimeClaimStatus = 'pending' | 'approved' | 'rejected';
+
+export interface OvertimeClaim {
+  id?: string;
+  employeeId: string;
+  employeeName: string;
+  month: number;
+  year: number;
+  recordedHours: number; // overtime on the month's attendance records when claimed
+  claimedHours: number;
+  notes: string;
+  status: OvertimeClaimStatus;
+  approvedHours: number | null;
+  multiplier: number | null; // policy overtime multiplier when approved
+  decidedBy: string | null;
+  decidedByName: string | null;
+  decidedAt: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type OvertimeClaimDecision =
+  | { action: 'approve'; hours?: number }
+  | { action: 'reject'; reason: string };
+
+// Compensatory Off Credit
+// One per employee-day (id `${employeeId}_${workDate}`) worked on a holiday or
+// weekly off. Once approved it can be taken as comp-off leave until it expires.
+export type CompOffCreditStatus = 'pending' | 'approved' | 'rejected';
+
+export type CompOffReason = 'holiday' | 'weekly-off';
+
+export interface CompOffCredit {
+  id?: string;
+  employeeId: string;
+  employeeName: string;
+  workDate: string; // YYYY-MM-DD attendance day
+  reason: CompOffReason;
+  holidayName: string | null;
+  hoursWorked: number;
+  days: number; // 1, or 0.5 for a day short of the policy's minDailyHours
+  status: CompOffCreditStatus;
+  expiresOn: string | null; // YYYY-MM-DD, last day it can be used; set on approval
+  decidedBy: string | null;
+  decidedByName: string | null;
+  decidedAt: string | null; // ISO
+  rejectionReason: string | null;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
+export type CompOffDecision = { action: 'approve' } | { action: 'reject'; reason: string };
+
+// An employee's comp-off: approved, unexpired credits less comp-off leave
+// taken or applied for against them, earliest expiry first
+export interface CompOffBalance {
+  available: number;
+  pendingCredit: number; // days in credits awaiting approval
+  credits: (CompOffCredit & { remainingDays: number })[]; // approved, unexpired, not used up
+  nextExpiry: string | null;
+}
+
+// Holiday Calendar
+// A named holiday list, e.g. one state's, for the employees and managers'
+// teams (branches) listed on it. The default calendar covers everyone else.
+// Holidays without a calendarId are the original company-wide list, which the
+// default calendar includes and which applies when no calendar does.
+export interface HolidayCalendar {
+  id: string;
+  name: string;
+  location: string;
+  description: string;
+  isDefault: boolean;
+  optionalHolidayQuota: number; // optional holidays an employee may claim per calendar year
+  employeeIds: string[];
+  teamIds: string[]; // managers' uids; their teams follow this calendar
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
+export interface Holiday {
+  id: string;
+  calendarId: string | null;
+  date: string; // YYYY-MM-DD attendance day
+  name: string;
+  description: string;
+  isOptional: boolean; // a restricted holiday, off only for employees who claim it
+}
+
+// An employee's claim on an optional holiday (id `${employeeId}_${holidayId}`)
+export interface OptionalHolidayClaim {
+  id?: string;
+  employeeId: string;
+  employeeName: string;
+  calendarId: string | null;
+  holidayId: string;
+  holidayName: string;
+  date: string; // YYYY-MM-DD
+  createdAt: string; // ISO
+}
+
+// The holidays an employee observes under their calendar: its fixed holidays
+// and the optional ones they claimed, plus the optional ones on offer
+export interface EmployeeHolidays {
+  calendarId: string | null; // null for the company-wide list
+  calendarName: string;
+  optionalHolidayQuota: number;
+  holidays: Holiday[];
+  optionalHolidays: (Holiday & { claimed: boolean })[];
+}
+
+// A holiday read from an imported iCalendar or CSV file
+export interface HolidayImportRow {
+  date: string; // YYYY-MM-DD
+  name: string;
+  description: string;
+  isOptional: boolean;
+}
+
+// Attendance Regularization
+// An employee's request to correct a day's attendance, decided by their
+// manager from manager-hierarchies (or an admin when they have none).
+export type RegularizationType = 'missed-clock-in' | 'missed-clock-out' | 'wrong-times' | 'missed-break';
+export type RegularizationStatus = 'pending' | 'approved' | 'rejected';
+
+// A record's times as ISO strings, kept on the request for audit
+export interface AttendanceSnapshot {
+  date?: string; // attendance day (YYYY-MM-DD) stored on the record, e.g. a night shift's start day
+  clockIn: string | null;
+  clockOut: string | null;
+  breaks: { startTime: string; endTime: string | null }[];
+  totalHours: number;
+  regularHours: number;
+  overtimeHours: number;
+}
+
+export interface RegularizationRequestInput {
+  type: RegularizationType;
+  recordId: string | null; // null only for a missed clock-in
+  date: string; // YYYY-MM-DD
+  clockIn?: string; // ISO
+  clockOut?: string; // ISO
+  breakStart?: string; // ISO
+  breakEnd?: string; // ISO
+  reason: string;
+}
+
+export interface RegularizationRequest {
+  id?: string;
+  employeeId: string;
+  employeeName: string;
+  type: RegularizationType;
+  recordId: string | null;
+  date: string;
+  requested: {
+    clockIn: string | null;
+    clockOut: string | null;
+    breakStart: string | null;
+    breakEnd: string | null;
+  };
+  reason: string;
+  status: RegularizationStatus;
+  approverId: string | null; // assigned manager; null when any admin decides
+  approverName: string | null;
+  decidedBy: string | null;
+  decidedByName: string | null;
+  decidedAt: string | null;
+  rejectionReason: string | null;
+  before: AttendanceSnapshot | null; // record when approved (null for a missed clock-in)
+  after: AttendanceSnapshot | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RegularizationDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; reason: string };
+
 // Team Attendance Status
 export interface TeamMemberAttendanceStatus {
   employeeId: string;
@@ -177,6 +492,8 @@ export interface TeamMemberAttendanceStatus {
 }
 
 // Attendance Alert
+// Raised by the alert engine from a day's record against the employee's shift
+// and the attendance policy; one per record and type (id `${recordId}_${type}`).
 export interface AttendanceAlert {
   id: string;
   type: AlertType;
@@ -185,6 +502,55 @@ export interface AttendanceAlert {
   message: string;
   timestamp: Date;
   severity: AlertSeverity;
+  recordId?: string;
+  date?: string; // YYYY-MM-DD
+  minutes?: number; // how late, early, over the break allowance or over the shift
+}
+
+// Monthly Punctuality Report
+export interface PunctualityReportRow {
+  employeeId: string;
+  employeeName: string;
+  daysPresent: number;
+  lateDays: number;
+  lateMinutes: number;
+  averageLateMinutes: number;
+  earlyDepartures: number;
+  missingClockOuts: number;
+  excessiveBreaks: number;
+  overtimeDays: number;
+  punctualityRate: number; // % of days present without a late alert
+}
+
+// Muster Roll / Monthly Attendance Register
+// P present, A absent, L leave, H holiday or weekly off, WFH, HD half day;
+// blank for days still to come
+export type RegisterDayCode = 'P' | 'A' | 'L' | 'H' | 'CO' | 'WFH' | 'HD' | '';
+
+export interface AttendanceRegisterRow {
+  employeeId: string;
+  employeeCode: string;
+  employeeName: string;
+  designation: string;
+  days: RegisterDayCode[]; // index 0 is the 1st of the month
+  present: number;
+  wfh: number;
+  halfDay: number;
+  approvedLeave: number;
+  unapprovedLeave: number;
+  holiday: number;
+  totalHours: number;
+  paidDays: number | null; // as payroll computed it; null when payroll cannot run for the employee
+  paidDaysSource: 'slip' | 'calculated' | null;
+  payrollMismatch: boolean; // attendance changed after the month's slip was generated
+}
+
+export interface AttendanceRegister {
+  month: number; // 0-11
+  year: number;
+  daysInMonth: number;
+  rows: AttendanceRegisterRow[];
+  generatedAt: Date;
 }
 
 // Calendar Day
@@ -286,6 +652,16 @@ export interface WfhRequestFormData {
   reason: string;
 }
 
+export interface RegularizationFormData {
+  type: RegularizationType;
+  date: string; // YYYY-MM-DD
+  clockIn?: string; // HH:mm
+  clockOut?: string; // HH:mm, the next day when earlier than clock-in
+  breakStart?: string; // HH:mm
+  breakEnd?: string; // HH:mm
+  reason: string;
+}
+
 export interface ShiftFormData {
   name: string;
   startTime: string; // HH:mm format
@@ -296,6 +672,14 @@ export interface ShiftFormData {
   color: string; // for calendar display
 }
 
+export interface ShiftRotationFormData {
+  name: string;
+  pattern: (string | null)[];
+  startDate: string;
+  endDate: string | null;
+  employeeIds: string[];
+}
+
 export interface LeaveTypeFormData {
   name: string;
   code: string;
@@ -317,4 +701,31 @@ export interface AttendancePolicyFormData {
   overtimeMultiplier: number;
   minDailyHours: number;
   maxDailyHours: number;
+  weeklyOffDays: number[];
+  compOffExpiryDays: number;
+}
+
+export interface HolidayCalendarFormData {
+  name: string;
+  location: string;
+  description: string;
+  isDefault: boolean;
+  optionalHolidayQuota: number;
+  employeeIds: string[];
+  teamIds: string[];
+}
+
+export interface HolidayFormData {
+  date: string; // YYYY-MM-DD
+  name: string;
+  description: string;
+  isOptional: boolean;
+}
+
+export interface PolicyAssignmentFormData {
+  policyId: string;
+  scope: PolicyAssignmentScope;
+  targetId: string | null;
+  effectiveFrom: string;
+  effectiveTo: string | null;
 }
@@ -0,0 +1,75 @@
+/**
+ * Expense Claim Types
+ * Type definitions for expense and reimbursement claims
+ */
+
+export type ExpenseCategory = 'travel' | 'conveyance' | 'food' | 'lodging' | 'communication' | 'other';
+
+export type ExpenseClaimStatus = 'pending' | 'approved' | 'rejected' | 'paid';
+
+export interface ExpenseLineItem {
+  category: ExpenseCategory;
+  amount: number;
+  date: string;                  // ISO date string (YYYY-MM-DD) the expense was incurred
+  description: string;
+}
+
+/**
+ * Receipt stored in Firebase Storage under expense-receipts/{employeeId}/
+ */
+export interface ExpenseReceipt {
+  fileName: string;
+  fileUrl: string;
+  storagePath: string;
+  fileSize: number;
+  mimeType: string;
+}
+
+/**
+ * Expense claim document structure (collection: expense-claims)
+ */
+export interface ExpenseClaim {
+  id?: string;
+  employeeId: string;            // Firebase Auth UID of the claimant
+  employeeName: string;
+  title: string;
+  items: ExpenseLineItem[];
+  receipts: ExpenseReceipt[];
+  totalAmount: number;
+  clientVisitId: string | null;  // client visit the expenses were incurred on, if any
+  clientId: string | null;       // copied from the client visit for rebilling
+  clientName: string | null;
+  status: ExpenseClaimStatus;
+  decidedBy: string | null;      // UID of the manager/admin who approved or rejected
+  decidedByName: string | null;
+  decidedAt: string | null;      // ISO timestamp
+  rejectionReason: string | null;
+  paidIn: { month: number; year: number; slipId: string } | null; // salary slip that reimbursed the claim
+  createdAt: string;             // ISO timestamp
+  updatedAt: string;             // ISO timestamp
+}
+
+/**
+ * Input for submitting a claim; the claimant, client and totals are filled server-side
+ */
+export interface CreateExpenseClaimInput {
+  title: string;
+  items: ExpenseLineItem[];
+  receipts: ExpenseReceipt[];
+  clientVisitId: string | null;
+}
+
+export type ExpenseClaimDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; reason: string };
+
+/**
+ * Approved claims linked to one client over a period, for rebilling
+ */
+export interface ClientExpenseReportRow {
+  clientId: string;
+  clientName: string;
+  claimCount: number;
+  byCategory: Record<ExpenseCategory, number>;
+  totalAmount: number;
+}
@@ -3,7 +3,7 @@
  */
 
 export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
-export type LeaveType = 'sick' | 'casual' | 'wfh';
+export type LeaveType = 'sick' | 'casual' | 'wfh' | 'comp-off';
 
 export interface LeaveRequest {
   id?: string;
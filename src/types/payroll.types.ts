@@ -16,7 +16,10 @@ export interface PayrollSettings {
   allowedPaidLeaves: number;
   includePaidLeavesInPaidDays: boolean; // When true, allowed paid leaves are added to paid days (only if employee has taken leave)
   footerNote: string;
-  salaryFormula?: string; // Editable formula for salary calculation
+  salaryFormula?: string; // Formula saved last; months are calculated with their SalaryFormulaVersion
+  statutory?: StatutorySettings; // EPF / ESI / Professional Tax configuration
+  tdsEnabled?: boolean; // Deduct monthly TDS from the annual tax projection
+  taxDeclarationWindows?: Record<string, TaxDeclarationWindow>; // financial year start -> proof window
   accessConfig?: Record<string, Record<string, boolean>>; // month-year key -> employeeId -> selected boolean
   updatedAt?: Timestamp;
 }
@@ -32,6 +35,7 @@ export interface AttendanceBreakdown {
   leaveTaken: number;
   unpaidLeave: number;
   paidDays: number;
+  overtimeHours?: number;       // approved overtime hours paid on the slip
 }
 
 export interface SalaryBreakup {
@@ -47,6 +51,10 @@ export interface SalaryBreakup {
   loanRecovery?: number;
   otherDeduction?: number;
   leaveDeduction?: number;
+  arrears?: number;             // back pay from a backdated salary revision (earning)
+  overtime?: number;            // pay for approved overtime hours (earning)
+  components?: SalaryComponentLine[]; // catalogue earnings and deductions from the employee's salary structure
+  reimbursement?: number;       // approved expense claims paid with the salary (not part of gross)
 }
 
 export interface EmployeeSalary {
@@ -69,6 +77,10 @@ export interface EmployeeSalary {
   generatedAt?: Timestamp;
   generatedBy: string;
   accessGranted: boolean;
+  statutory?: StatutoryBreakdown;
+  tdsProjection?: TdsProjection;
+  salarySegments?: SalarySegment[]; // present when the gross changed during the month
+  formulaVersionId?: string | null; // salary formula version used; null for the default formula
 }
 
 export interface SalaryCalculationResult {
@@ -76,6 +88,632 @@ export interface SalaryCalculationResult {
   salaryBreakup: SalaryBreakup;
   totalDaysInMonth: number;
   paidDays: number;
+  statutory?: StatutoryBreakdown; // present when statutory deductions were applied
+  tdsProjection?: TdsProjection;   // present when TDS is enabled
+  loanRecoveries?: LoanRecovery[]; // present when loan EMIs were due
+  grossSalary?: number;            // gross for the month, pro-rated across salary revisions
+  salarySegments?: SalarySegment[]; // present when the gross changed during the month
+  arrearsPayments?: ArrearsPayment[]; // present when revision arrears were paid
+  formulaVersionId?: string | null; // salary formula version used; null for the default formula
+  reimbursedClaimIds?: string[];   // present when approved expense claims were reimbursed
+}
+
+// ── Salary Components ────────────────────────────────────────────────────────
+// Admin-defined earnings and deductions (conveyance, LTA, canteen...) on top
+// of the basic / HRA / special allowance worked out by the salary formula.
+// Each employee's salary structure lists the components they get; slips carry
+// the month's amounts as lines so they render without code changes.
+
+export type SalaryComponentType = 'earning' | 'deduction';
+export type SalaryComponentCalculation = 'fixed' | 'percentage' | 'formula';
+
+export interface SalaryComponent {
+  id?: string;
+  key: string;                  // formula-safe identifier, fixed once created, e.g. "conveyance"
+  name: string;                 // label on slips and exports
+  type: SalaryComponentType;
+  taxable: boolean;             // earnings only: counted in taxable salary for TDS
+  calculation: SalaryComponentCalculation;
+  amount: number | null;        // fixed: monthly amount
+  percentage: number | null;    // percentage: rate applied to percentageOf
+  percentageOf: string | null;  // 'grossSalary', 'basic', 'hra', 'special' or a component above this one
+  formula: string | null;       // formula: expression, e.g. "MIN(1600, basic * 0.1)"
+  prorate: boolean;             // reduced in the same proportion as the leave deduction
+  order: number;                // components are worked out in this order
+  active: boolean;
+  createdAt: string;            // ISO timestamp
+  updatedAt: string;
+}
+
+/** A component in an employee's salary structure; value overrides the fixed amount or percentage */
+export interface EmployeeSalaryComponent {
+  key: string;
+  value: number | null;
+}
+
+export interface SalaryComponentLine {
+  key: string;
+  name: string;
+  type: SalaryComponentType;
+  taxable: boolean;
+  amount: number;
+}
+
+// ── Salary Formula Versions ──────────────────────────────────────────────────
+// Every save of the salary formula is kept as an immutable version. A month
+// is calculated with the version in effect for it: the latest effective-from
+// month not after it, later saves winning ties. Rolling back saves an older
+// formula again as a new version. PayrollSettings.salaryFormula mirrors the
+// version saved last, for the editor.
+
+export interface SalaryFormulaVersion {
+  id?: string;
+  formula: string;
+  changeNote: string;
+  effectiveMonth: number;       // 0-11
+  effectiveYear: number;
+  rolledBackFrom: string | null; // id of the version this one restores
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;            // ISO timestamp
+}
+
+// ── Statutory Deductions ─────────────────────────────────────────────────────
+// EPF, ESI and state Professional Tax, computed by calculateSalary after the
+// salary formula runs. Employees can be opted out individually with
+// `statutoryDeductions: false` on their user document.
+
+export type PfWageComponent = 'basic' | 'hra' | 'special';
+
+export interface EpfSettings {
+  enabled: boolean;
+  wageComponents: PfWageComponent[]; // earned components that make up PF wages
+  wageCeiling: number;               // statutory wage ceiling (₹15,000)
+  restrictToCeiling: boolean;        // contribute on min(PF wages, ceiling)
+  employeeRate: number;              // percent
+  employerRate: number;              // percent, includes the EPS share
+  epsRate: number;                   // percent of wages (always capped at the ceiling)
+}
+
+export interface EsiSettings {
+  enabled: boolean;
+  grossThreshold: number;            // coverage limit (₹21,000), checked at the start of each contribution period
+  employeeRate: number;              // percent
+  employerRate: number;              // percent
+}
+
+export interface ProfessionalTaxSettings {
+  enabled: boolean;
+  defaultState: string;              // state code used when an employee has no ptState
+}
+
+export interface StatutorySettings {
+  epf: EpfSettings;
+  esi: EsiSettings;
+  professionalTax: ProfessionalTaxSettings;
+}
+
+export const DEFAULT_STATUTORY_SETTINGS: StatutorySettings = {
+  epf: {
+    enabled: false,
+    wageComponents: ['basic'],
+    wageCeiling: 15000,
+    restrictToCeiling: true,
+    employeeRate: 12,
+    employerRate: 12,
+    epsRate: 8.33,
+  },
+  esi: {
+    enabled: false,
+    grossThreshold: 21000,
+    employeeRate: 0.75,
+    employerRate: 3.25,
+  },
+  professionalTax: {
+    enabled: false,
+    defaultState: 'MH',
+  },
+};
+
+export interface StatutoryContribution {
+  wages: number;      // wages the contribution was calculated on
+  employee: number;   // deducted from salary
+  employer: number;   // paid by the company on top of salary
+}
+
+export interface StatutoryBreakdown {
+  epf: (StatutoryContribution & { eps: number }) | null; // eps is the pension part of the employer share
+  esi: StatutoryContribution | null;
+  professionalTax: { state: string; amount: number } | null;
+}
+
+// ── Income Tax Declarations & TDS ────────────────────────────────────────────
+// Financial years run April–March and are keyed by their starting year
+// (2026 = FY 2026-27). Each month's TDS is the projected annual tax, less tax
+// already deducted, spread over the months left in the year.
+
+export type TaxRegime = 'old' | 'new';
+
+export interface RentReceipt {
+  month: number;                // 0-11
+  year: number;
+  amount: number;
+  landlordName?: string;
+  landlordPan?: string | null;  // required by law when annual rent exceeds ₹1 lakh
+}
+
+export interface TaxDeclaration {
+  id?: string;                  // `${employeeId}_${financialYear}`
+  employeeId: string;
+  financialYear: number;
+  regime: TaxRegime;
+  section80C: number;           // PPF, ELSS, life insurance, etc. (EPF is added automatically)
+  section80D: number;           // health insurance premiums
+  metroCity: boolean;           // HRA exemption uses 50% of basic instead of 40%
+  rentReceipts: RentReceipt[];
+  submittedAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export interface TaxDeclarationWindow {
+  proofDeadline: string | null; // "YYYY-MM-DD"; declarations can be locked after this date
+  locked: boolean;              // employees cannot edit locked declarations
+  lockedAt?: Timestamp;
+  lockedBy?: string;
+}
+
+export interface TdsProjection {
+  financialYear: number;
+  regime: TaxRegime;
+  monthsPaid: number;           // slips already generated in the year
+  monthsRemaining: number;      // projected months the remaining tax is spread over
+  actualGross: number;
+  projectedGross: number;
+  annualGross: number;
+  standardDeduction: number;
+  hraExemption: number;
+  section80C: number;
+  section80D: number;
+  professionalTax: number;
+  taxableIncome: number;
+  taxOnIncome: number;
+  rebate: number;               // section 87A, including marginal relief
+  surcharge: number;
+  cess: number;
+  annualTax: number;
+  taxDeducted: number;          // TDS on slips already generated
+  monthlyTds: number;
+  otherRegimeTax: number;       // annual tax under the other regime, for comparison
+}
+
+// ── Annual Salary Statement & Form 16 Part B ─────────────────────────────────
+// A financial year's slips totalled per component, with the year's final tax
+// computation laid out the way Part B of Form 16 reports it (see
+// lib/annual-statement).
+
+export interface AnnualComponentTotals {
+  basic: number;
+  hra: number;
+  special: number;
+  arrears: number;
+  overtime: number;
+  otherEarnings: number;        // catalogue earnings (conveyance, LTA...)
+  gross: number;                // basic + hra + special + arrears + overtime + other earnings
+  epf: number;
+  esi: number;
+  professionalTax: number;
+  tds: number;
+  loanRecovery: number;
+  otherDeductions: number;      // other, leave and catalogue deductions
+  totalDeductions: number;
+  netSalary: number;
+}
+
+export interface AnnualStatementMonth extends AnnualComponentTotals {
+  month: number;                // 0-11
+  year: number;
+  slipNumber: string;
+  paidDays: number;
+}
+
+export interface Form16PartB {
+  regime: TaxRegime;
+  grossSalary: number;          // section 17(1)
+  hraExemption: number;         // section 10(13A)
+  exemptAllowances: number;     // exempt catalogue allowances, section 10
+  totalExemptions: number;
+  salaryAfterExemptions: number;
+  standardDeduction: number;    // section 16(ia)
+  professionalTax: number;      // section 16(iii)
+  incomeChargeableUnderSalaries: number;
+  section80C: number;
+  section80D: number;
+  totalChapterVIA: number;
+  totalTaxableIncome: number;
+  taxOnTotalIncome: number;
+  rebate87A: number;
+  surcharge: number;
+  healthAndEducationCess: number;
+  taxPayable: number;
+  taxDeducted: number;
+  balanceTax: number;           // negative when more was deducted than is payable
+}
+
+export interface AnnualSalaryStatement {
+  financialYear: number;
+  employeeId: string;
+  name: string;
+  employeeCode: string;
+  pan: string | null;
+  designation: string;
+  department: string;
+  doj: string | null;
+  months: AnnualStatementMonth[];
+  totals: AnnualComponentTotals;
+  componentTotals: SalaryComponentLine[]; // year's total per catalogue component
+  form16PartB: Form16PartB;
+  generatedAt: string;          // ISO timestamp
+}
+
+// ── Salary Revisions ─────────────────────────────────────────────────────────
+// Each employee's gross salary is a timeline of revisions with effective
+// dates. A month's gross is pro-rated by day across the revisions in force
+// (see lib/salary-revisions); a backdated revision works out arrears for the
+// months already on a slip, which the next generated slip pays as a separate
+// earnings line.
+
+export interface ArrearsLine {
+  month: number;                // 0-11, the month being corrected
+  year: number;
+  slipId: string;
+  slipNumber: string;
+  previousGross: number;        // month's gross as it was paid
+  revisedGross: number;         // month's gross with the revision applied
+  amount: number;
+}
+
+export interface SalaryRevision {
+  id?: string;
+  employeeId: string;
+  effectiveDate: string;        // "YYYY-MM-DD"
+  grossSalary: number;
+  previousGrossSalary: number;  // gross in force the day before the revision
+  reason: string;
+  arrears: ArrearsLine[];
+  arrearsPaidIn: { month: number; year: number; slipId: string } | null;
+  createdBy: string;
+  createdAt?: Timestamp;
+}
+
+/** Days of a month paid at one gross salary (1-based, inclusive) */
+export interface SalarySegment {
+  fromDay: number;
+  toDay: number;
+  grossSalary: number;
+}
+
+/** Arrears of one revision paid in a salary calculation */
+export interface ArrearsPayment {
+  revisionId: string;
+  amount: number;
+}
+
+// ── Full & Final Settlement ──────────────────────────────────────────────────
+// Computed for a relieving letter from its dateOfLeaving and kept at
+// `fnf-settlements/{letterId}` (see lib/fnf-settlement). The relieving letter
+// can only be released to the employee once its settlement is 'settled'.
+
+export type FnfStatus = 'draft' | 'settled';
+
+export interface FnfComputation {
+  monthlyGross: number;         // gross in force on the last working day
+  lastDrawnBasic: number;
+  serviceYears: number;         // completed years of service
+  gratuityYears: number;        // a final part-year over six months counts in full
+  gratuityEligible: boolean;
+  finalMonthDays: number;       // days of the leaving month worked
+  finalMonthPaidBySlip: boolean; // a salary slip already covers the leaving month
+  finalMonthSalary: number;
+  leaveBalanceDays: number;
+  leaveEncashment: number;
+  gratuity: number;
+  noticePeriodDays: number;
+  noticeDaysServed: number;
+  noticeShortfallDays: number;
+  noticeRecovery: number;
+  loanRecovery: number;         // outstanding loan and advance principal
+  otherEarnings: number;
+  otherDeductions: number;
+  totalEarnings: number;
+  totalDeductions: number;
+  netPayable: number;           // negative when the employee owes the company
+}
+
+export interface FnfSettlement extends FnfComputation {
+  id?: string;                  // relieving letter ID
+  letterId: string;
+  letterNumber: string;
+  employeeId: string;           // users doc ID
+  employeeName: string;
+  employeeCode: string;
+  designation: string;
+  department: string;
+  companyName: string;
+  dateOfJoining: string;        // "YYYY-MM-DD"
+  dateOfLeaving: string;        // last working day, "YYYY-MM-DD"
+  remarks?: string;
+  status: FnfStatus;
+  computedBy: string;
+  computedAt: string;           // ISO timestamp
+  settledBy: string | null;
+  settledAt: string | null;
+}
+
+// ── Loans & Salary Advances ──────────────────────────────────────────────────
+// A loan's ledger is the list of transactions on its document; the outstanding
+// balance and the remaining EMI schedule are derived from it (see lib/loans).
+// Slip generation records one 'emi' transaction per loan per month, linked to
+// the slip so deleting the slip reverses the recovery.
+
+export type LoanType = 'loan' | 'advance';
+export type LoanStatus = 'active' | 'closed';
+export type LoanTransactionType = 'disbursement' | 'emi' | 'prepayment' | 'settlement';
+
+export interface LoanPeriod {
+  month: number;                // 0-11
+  year: number;
+}
+
+export interface LoanTransaction {
+  id: string;
+  type: LoanTransactionType;
+  amount: number;               // total paid (or disbursed)
+  principal: number;            // part of amount that reduces the balance
+  interest: number;
+  month?: number;               // payroll month for 'emi' transactions
+  year?: number;
+  slipId?: string;              // salary slip the EMI was recovered through
+  note?: string;
+  createdAt: string;            // ISO timestamp
+  createdBy: string;
+}
+
+export interface EmployeeLoan {
+  id?: string;
+  employeeId: string;
+  employeeName: string;
+  type: LoanType;
+  principal: number;
+  interestRate: number;         // annual percent on the reducing balance; 0 for advances
+  tenureMonths: number;
+  emiAmount: number;
+  startMonth: number;           // first payroll month to recover from (0-11)
+  startYear: number;
+  status: LoanStatus;
+  paused: boolean;              // no EMI is recovered while paused
+  skippedMonths: LoanPeriod[];  // individual EMIs pushed to the end of the schedule
+  transactions: LoanTransaction[];
+  note?: string;
+  sanctionedBy: string;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+  closedAt?: Timestamp;
+}
+
+/** EMI recovered from one loan in a salary calculation */
+export interface LoanRecovery {
+  loanId: string;
+  amount: number;
+  principal: number;
+  interest: number;
+}
+
+export interface LoanInstallment extends LoanPeriod {
+  amount: number;
+  principal: number;
+  interest: number;
+  balance: number;              // outstanding principal after this EMI
+}
+
+export interface LoanLedgerEntry extends LoanTransaction {
+  balance: number;              // outstanding principal after this transaction
+}
+
+export interface LoanStatement {
+  loan: EmployeeLoan;
+  ledger: LoanLedgerEntry[];
+  schedule: LoanInstallment[];  // projected EMIs from the next unpaid month
+  outstanding: number;
+}
+
+// ── Payroll Run Lifecycle ────────────────────────────────────────────────────
+// One run per payroll month, keyed `${year}-${MM}`. Slips can be generated,
+// edited and deleted until the run is locked; a locked or paid run must be
+// re-opened (with an audit-logged reason) before it can be corrected.
+
+export type PayrollRunStatus = 'draft' | 'reviewed' | 'approved' | 'locked' | 'paid';
+export type PayrollRunAction = 'review' | 'approve' | 'lock' | 'mark-paid' | 'reopen';
+
+export interface PayrollRunTotals {
+  employeeCount: number;
+  grossEarnings: number;        // basic + hra + special + arrears + overtime across slips
+  totalDeductions: number;
+  netSalary: number;
+  epf: number;
+  esi: number;
+  professionalTax: number;
+  tds: number;
+  loanRecovery: number;
+}
+
+export interface PayrollRunEvent {
+  action: PayrollRunAction;
+  from: PayrollRunStatus;
+  to: PayrollRunStatus;
+  by: string;
+  byName: string;
+  at: string;                   // ISO timestamp
+  reason?: string;              // required when re-opening
+}
+
+export interface PayrollRun {
+  id?: string;
+  month: number;                // 0-11
+  year: number;
+  status: PayrollRunStatus;
+  totals: PayrollRunTotals;     // snapshot taken at the last status change
+  reviewedBy: string | null;
+  reviewedByName: string | null;
+  approvedBy: string | null;
+  approvedByName: string | null;
+  approvedAt: string | null;
+  paidAt: string | null;
+  history: PayrollRunEvent[];
+  updatedAt?: Timestamp;
+}
+
+// ── Bank Payments ────────────────────────────────────────────────────────────
+// Salary account details live on the employee's user document with the
+// account number encrypted; API responses only ever carry the masked number.
+// A locked month's net pay is exported as a bank bulk-upload file (see
+// lib/bank-export for the available formats).
+
+export interface EmployeeBankAccount {
+  accountNumberMasked: string;  // e.g. "XXXXXX4321"
+  ifsc: string;
+  beneficiaryName: string;
+  bankName?: string;
+}
+
+export type BankExportFormatId = 'generic-neft' | 'hdfc-enet';
+export type BankPaymentMode = 'NEFT' | 'RTGS' | 'IFT'; // IFT: transfer within the debit bank
+
+export interface BankPaymentRow {
+  employeeId: string;
+  employeeCode: string;
+  name: string;
+  beneficiaryName: string;
+  accountNumber: string;        // decrypted; only ever placed in the export file
+  ifsc: string;
+  amount: number;
+  slipNumber: string;
+}
+
+export interface BankPaymentIssue {
+  employeeId: string;
+  employeeCode: string;
+  name: string;
+  amount: number;
+  issue: string;
+}
+
+export interface BankPaymentSummary {
+  month: number;                // 0-11
+  year: number;
+  payableCount: number;
+  payableAmount: number;
+  issues: BankPaymentIssue[];
+}
+
+// ── Statutory Returns ────────────────────────────────────────────────────────
+// Monthly EPF and ESI returns built from a locked month's slips: the EPFO ECR
+// text file and the ESIC monthly contribution sheet (see lib/statutory-returns).
+// Employees are identified by the uan / esiIpNumber on their user document.
+
+export type StatutoryReturnType = 'pf-ecr' | 'esi';
+
+export interface EcrRow {
+  uan: string;
+  memberName: string;
+  grossWages: number;
+  epfWages: number;
+  epsWages: number;
+  edliWages: number;
+  epfContribution: number;      // employee share
+  epsContribution: number;      // pension part of the employer share
+  epfEpsDiff: number;           // rest of the employer share, credited to EPF
+  ncpDays: number;              // non-contributory (unpaid) days
+  refundOfAdvances: number;
+}
+
+export interface EsiReturnRow {
+  ipNumber: string;
+  ipName: string;
+  paidDays: number;
+  wages: number;
+  reasonCode: number;           // 0 unless the employee had no working days
+  lastWorkingDay: string;       // DD/MM/YYYY, only with reason codes that need it
+}
+
+export interface StatutoryReturnIssue {
+  employeeId: string;
+  employeeCode: string;
+  name: string;
+  issue: string;
+}
+
+export interface StatutoryReturnTotals {
+  memberCount: number;
+  wages: number;
+  employeeContribution: number;
+  employerContribution: number;
+  issues: StatutoryReturnIssue[];
+}
+
+export interface StatutoryReturnsSummary {
+  month: number;                // 0-11
+  year: number;
+  pf: StatutoryReturnTotals;
+  esi: StatutoryReturnTotals;
+}
+
+// ── Payroll Preview Run ──────────────────────────────────────────────────────
+// A dry run of calculateSalary for a set of employees, compared against the
+// previous month's saved slips. Nothing is written to Firestore.
+
+export type PayrollPreviewFlagType =
+  | 'net-change'          // net salary moved by more than the threshold
+  | 'zero-paid-days'
+  | 'negative-net'
+  | 'no-previous-slip'
+  | 'calculation-failed';
+
+export interface PayrollPreviewFlag {
+  type: PayrollPreviewFlagType;
+  message: string;
+}
+
+export interface SalaryValueDiff {
+  key: string;                    // "paidDays", "netSalary" or a SalaryBreakup key
+  previous: number | null;        // null when there is no previous slip
+  current: number | null;         // null when the calculation failed
+  change: number;
+  changePercent: number | null;   // null when previous is missing or zero
+}
+
+export interface PayrollPreviewRow {
+  employeeId: string;
+  name: string;
+  employeeCode: string;
+  calculation: SalaryCalculationResult | null;
+  previousSlipId: string | null;
+  paidDays: SalaryValueDiff;
+  netSalary: SalaryValueDiff;
+  components: SalaryValueDiff[];
+  flags: PayrollPreviewFlag[];
+  error?: string;
+}
+
+export interface PayrollPreviewResult {
+  month: number;
+  year: number;
+  previousMonth: number;
+  previousYear: number;
+  netChangeThreshold: number;     // percent
+  rows: PayrollPreviewRow[];
+  totalNetSalary: number;
+  previousTotalNetSalary: number;
+  flaggedCount: number;
 }
 
 // ── Salary Slip Template ─────────────────────────────────────────────────────
@@ -139,6 +777,7 @@ export const DEFAULT_SALARY_SLIP_TEMPLATE: Omit<SalarySlipTemplate, 'id' | 'upda
         { key: 'approvedLeave',     label: 'Approved Leave',      visible: true },
         { key: 'unapprovedLeave',   label: 'Unapproved Leave',    visible: true },
         { key: 'halfDay',           label: 'Half Day',            visible: true },
+        { key: 'overtimeHours',     label: 'Overtime Hours',      visible: true },
       ],
     },
     {
@@ -149,6 +788,7 @@ export const DEFAULT_SALARY_SLIP_TEMPLATE: Omit<SalarySlipTemplate, 'id' | 'upda
         { key: 'basic',    label: 'Basic Wage',          visible: true },
         { key: 'hra',      label: 'HRA',                 visible: true },
         { key: 'special',  label: 'Special Allowances',  visible: true },
+        { key: 'overtime', label: 'Overtime',            visible: true },
       ],
     },
     {
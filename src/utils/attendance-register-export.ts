@@ -0,0 +1,144 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import { REGISTER_DAY_CODES } from '@/lib/attendance-register';
+import { AttendanceRegister, AttendanceRegisterRow } from '@/types/attendance.types';
+import { MONTHS } from '@/types/roster.types';
+
+const DAY_NAMES = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+const TOTAL_HEADERS = ['P', 'WFH', 'HD', 'L', 'A', 'H', 'Hours', 'Paid Days'];
+
+const LEGEND = Object.entries(REGISTER_DAY_CODES)
+  .map(([code, label]) => `${code} = ${label}`)
+  .join(', ');
+
+function getTitle(register: AttendanceRegister): string {
+  return `Muster Roll cum Register of Attendance - ${MONTHS[register.month]} ${register.year}`;
+}
+
+function getFileName(register: AttendanceRegister, extension: 'pdf' | 'xlsx'): string {
+  return `Muster_Roll_${MONTHS[register.month]}_${register.year}.${extension}`;
+}
+
+function getDayNumbers(register: AttendanceRegister): number[] {
+  return Array.from({ length: register.daysInMonth }, (_, index) => index + 1);
+}
+
+function getWeekdays(register: AttendanceRegister): string[] {
+  return getDayNumbers(register).map((day) => DAY_NAMES[new Date(register.year, register.month, day).getDay()]);
+}
+
+function getPaidDays(row: AttendanceRegisterRow): string {
+  if (row.paidDays === null) return '-';
+  return row.payrollMismatch ? `${row.paidDays}*` : String(row.paidDays);
+}
+
+function getRowCells(row: AttendanceRegisterRow, index: number): (string | number)[] {
+  return [
+    index + 1,
+    row.employeeCode,
+    row.employeeName,
+    row.designation,
+    ...row.days,
+    row.present,
+    row.wfh,
+    row.halfDay,
+    row.approvedLeave,
+    row.unapprovedLeave,
+    row.holiday,
+    row.totalHours,
+    getPaidDays(row),
+  ];
+}
+
+function getFootnotes(register: AttendanceRegister): string[] {
+  const notes = [
+    `Codes: ${LEGEND}`,
+    'H includes comp off days. Paid Days are as computed by payroll for the month.',
+  ];
+  if (register.rows.some((row) => row.payrollMismatch)) {
+    notes.push('* Attendance changed after the salary slip was generated; paid days are as on the slip.');
+  }
+  return notes;
+}
+
+/**
+ * Export the monthly attendance register to Excel
+ */
+export function exportRegisterToExcel(register: AttendanceRegister): void {
+  const header = ['S.No', 'Emp. Code', 'Name', 'Designation', ...getDayNumbers(register), ...TOTAL_HEADERS];
+  const weekdays = ['', '', '', '', ...getWeekdays(register), ...TOTAL_HEADERS.map(() => '')];
+
+  const ws = XLSX.utils.aoa_to_sheet([
+    [getTitle(register)],
+    [`Generated: ${format(register.generatedAt, 'MMM dd, yyyy HH:mm')}`],
+    [],
+    header,
+    weekdays,
+    ...register.rows.map(getRowCells),
+    [],
+    ...getFootnotes(register).map((note) => [note]),
+  ]);
+
+  ws['!cols'] = [
+    { wch: 5 }, { wch: 12 }, { wch: 24 }, { wch: 18 },
+    ...getDayNumbers(register).map(() => ({ wch: 4 })),
+    ...TOTAL_HEADERS.map((heading) => ({ wch: Math.max(5, heading.length + 1) })),
+  ];
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Muster Roll');
+  XLSX.writeFile(wb, getFileName(register, 'xlsx'));
+}
+
+/**
+ * Export the monthly attendance register to PDF
+ */
+export function exportRegisterToPDF(register: AttendanceRegister): void {
+  // A3 landscape fits 31 day columns with the totals
+  const doc = new jsPDF('landscape', 'mm', 'a3');
+
+  doc.setFontSize(14);
+  doc.text(getTitle(register), 14, 15);
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  doc.text(`Generated: ${format(register.generatedAt, 'MMM dd, yyyy HH:mm')}`, 14, 21);
+  doc.text(`Employees: ${register.rows.length}`, 14, 26);
+  doc.setTextColor(0);
+
+  const dayColumns = getDayNumbers(register).map((day, index) => `${day}\n${getWeekdays(register)[index]}`);
+  const firstTotalColumn = 4 + register.daysInMonth;
+
+  autoTable(doc, {
+    startY: 31,
+    head: [['S.No', 'Emp. Code', 'Name', 'Designation', ...dayColumns, ...TOTAL_HEADERS]],
+    body: register.rows.map((row, index) => getRowCells(row, index).map(String)),
+    theme: 'grid',
+    headStyles: { fillColor: [59, 130, 246], fontSize: 6.5, cellPadding: 1, halign: 'center' },
+    bodyStyles: { fontSize: 6.5, cellPadding: 1, halign: 'center' },
+    columnStyles: {
+      0: { cellWidth: 8 },
+      1: { cellWidth: 16 },
+      2: { cellWidth: 32, halign: 'left' },
+      3: { cellWidth: 24, halign: 'left' },
+    },
+    didParseCell: (data: any) => {
+      // Color-code the day columns
+      if (data.section !== 'body' || data.column.index < 4 || data.column.index >= firstTotalColumn) return;
+      const code = data.cell.raw;
+      if (code === 'P') data.cell.styles.textColor = [22, 163, 74];
+      else if (code === 'A') data.cell.styles.textColor = [220, 38, 38];
+      else if (code === 'L') data.cell.styles.textColor = [147, 51, 234];
+      else if (code === 'H' || code === 'CO') data.cell.styles.textColor = [37, 99, 235];
+      else if (code === 'HD') data.cell.styles.textColor = [234, 88, 12];
+    },
+  });
+
+  const finalY = (doc as any).lastAutoTable?.finalY ?? 31;
+  doc.setFontSize(8);
+  getFootnotes(register).forEach((note, index) => doc.text(note, 14, finalY + 8 + index * 5));
+
+  doc.save(getFileName(register, 'pdf'));
+}
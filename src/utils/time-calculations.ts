@@ -1,4 +1,5 @@
-import { AttendanceRecord, BreakRecord, Shift } from '@/types/attendance.types';
+import { AttendancePolicy, AttendanceRecord, BreakRecord, Shift } from '@/types/attendance.types';
+import { isOvernightShift } from '@/lib/auto-clock-out';
 
 /**
  * Calculate work hours between clock in and clock out, excluding breaks
@@ -61,25 +62,30 @@ export function calculateTotalBreakDuration(breaks: BreakRecord[]): number {
 }
 
 /**
- * Calculate overtime hours based on shift
+ * Calculate overtime hours based on shift and the employee's attendance policy
  * @param totalHours - Total work hours
  * @param shift - Shift definition (optional)
+ * @param policy - Resolved attendance policy (optional); hours past its
+ *   maxDailyHours are not counted
  * @returns Overtime hours
  */
 export function calculateOvertimeHours(
   totalHours: number,
-  shift?: Shift
+  shift?: Pick<Shift, 'startTime' | 'endTime' | 'breakDuration' | 'overtimeThreshold'> | null,
+  policy?: Pick<AttendancePolicy, 'maxDailyHours'>
 ): number {
+  const countedHours = policy?.maxDailyHours ? Math.min(totalHours, policy.maxDailyHours) : totalHours;
+
   if (!shift) {
     // Default: overtime after 8 hours
-    return Math.max(0, totalHours - 8);
+    return Math.max(0, countedHours - 8);
   }
 
   const shiftDuration = calculateShiftDuration(shift);
   const overtimeThresholdHours = shift.overtimeThreshold / 60;
   const threshold = shiftDuration + overtimeThresholdHours;
 
-  return Math.max(0, totalHours - threshold);
+  return Math.max(0, countedHours - threshold);
 }
 
 /**
@@ -100,15 +106,15 @@ export function calculateRegularHours(
  * @param shift - Shift definition
  * @returns Shift duration in hours
  */
-export function calculateShiftDuration(shift: Shift): number {
+export function calculateShiftDuration(shift: Pick<Shift, 'startTime' | 'endTime' | 'breakDuration'>): number {
   const [startHour, startMinute] = shift.startTime.split(':').map(Number);
   const [endHour, endMinute] = shift.endTime.split(':').map(Number);
 
   const startMinutes = startHour * 60 + startMinute;
   let endMinutes = endHour * 60 + endMinute;
 
-  // Handle overnight shifts
-  if (endMinutes < startMinutes) {
+  // Handle overnight shifts; an end at the start time is a full day
+  if (endMinutes <= startMinutes) {
     endMinutes += 24 * 60;
   }
 
@@ -211,7 +217,22 @@ export function parseTimeToMinutes(timeString: string): number {
 }
 
 /**
- * Check if employee is late based on shift and grace period
+ * Minutes from an HH:mm time to a timestamp's time of day. On an overnight
+ * shift they are taken the short way round midnight (-720 to 719), so 00:30
+ * is 60 minutes after 23:30; on a day shift they are within the same day.
+ * @param date - Timestamp
+ * @param time - Time string in HH:mm format
+ * @param shift - Shift the time belongs to
+ * @returns Minutes after the time (negative when before it)
+ */
+function minutesAfterTime(date: Date, time: string, shift: Pick<Shift, 'startTime' | 'endTime'>): number {
+  const difference = date.getHours() * 60 + date.getMinutes() - parseTimeToMinutes(time);
+  return isOvernightShift(shift) ? ((difference + 720 + 1440) % 1440) - 720 : difference;
+}
+
+/**
+ * Check if employee is late based on shift and grace period. Overnight shifts
+ * work across midnight, e.g. clocking in at 00:30 for a 23:30 night shift is late.
  * @param clockIn - Clock in timestamp
  * @param shift - Shift definition
  * @param graceMinutes - Grace period in minutes
@@ -219,29 +240,21 @@ export function parseTimeToMinutes(timeString: string): number {
  */
 export function isLate(
   clockIn: Date,
-  shift: Shift,
+  shift: Pick<Shift, 'startTime' | 'endTime'>,
   graceMinutes: number = 0
 ): boolean {
-  const clockInMinutes =
-    clockIn.getHours() * 60 + clockIn.getMinutes();
-  const shiftStartMinutes = parseTimeToMinutes(shift.startTime);
-  const allowedMinutes = shiftStartMinutes + graceMinutes;
-
-  return clockInMinutes > allowedMinutes;
+  return minutesAfterTime(clockIn, shift.startTime, shift) > graceMinutes;
 }
 
 /**
- * Check if employee left early based on shift
+ * Check if employee left early based on shift. Overnight shifts work across
+ * midnight, e.g. clocking out at 23:00 from a night shift ending at 06:00 is early.
  * @param clockOut - Clock out timestamp
  * @param shift - Shift definition
  * @returns true if early departure, false otherwise
  */
-export function isEarlyDeparture(clockOut: Date, shift: Shift): boolean {
-  const clockOutMinutes =
-    clockOut.getHours() * 60 + clockOut.getMinutes();
-  const shiftEndMinutes = parseTimeToMinutes(shift.endTime);
-
-  return clockOutMinutes < shiftEndMinutes;
+export function isEarlyDeparture(clockOut: Date, shift: Pick<Shift, 'startTime' | 'endTime'>): boolean {
+  return minutesAfterTime(clockOut, shift.endTime, shift) < 0;
 }
 
 /**